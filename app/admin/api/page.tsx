@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type JsonSchema = Record<string, unknown>;
+
+type JsonContent = { "application/json": { schema: JsonSchema } };
+
+type Operation = {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  security: { bearerAuth: string[] }[];
+  parameters?: {
+    name: string;
+    in: "path" | "query";
+    required: boolean;
+    description?: string;
+    schema: JsonSchema;
+  }[];
+  requestBody?: { content: JsonContent };
+  responses: Record<string, { description: string; content?: JsonContent }>;
+};
+
+type OpenApiDocument = {
+  servers: { url: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+const SPEC_URL = "/api/v1/openapi.json";
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-[#e8f0fe] text-[#1a73e8]",
+  post: "bg-[#e6f4ea] text-[#137333]",
+};
+
+// "#/components/schemas/Asset" -> "Asset"
+const refName = (schema: JsonSchema) =>
+  typeof schema.$ref === "string" ? schema.$ref.split("/").pop() : null;
+
+/** A schema: a link to its entry under Schemas, or the schema itself */
+function SchemaView({ schema }: { schema: JsonSchema }) {
+  const name = refName(schema);
+  if (name) {
+    return (
+      <a
+        href={`#schema-${name}`}
+        className="font-mono text-xs text-[#1a73e8] hover:underline"
+      >
+        {name}
+      </a>
+    );
+  }
+  return (
+    <pre className="overflow-x-auto rounded bg-[#f8f9fa] p-3 text-xs text-[#202124]">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+export default function ApiReferencePage() {
+  const { t } = useTranslation();
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(SPEC_URL, { cache: "no-store" });
+        if (!res.ok) throw new Error(t("apiDocs.loadFailed"));
+        setSpec(await res.json());
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t("apiDocs.loadFailed"));
+      }
+    };
+    load();
+  }, [t]);
+
+  const operations = spec
+    ? Object.entries(spec.paths).flatMap(([path, methods]) =>
+        Object.entries(methods).map(([method, operation]) => ({
+          path,
+          method,
+          operation,
+        }))
+      )
+    : [];
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("apiDocs.title")}
+            </h1>
+          </div>
+          <a
+            href={SPEC_URL}
+            download="openapi.json"
+            className="btn-primary no-underline"
+          >
+            {t("apiDocs.download")}
+          </a>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto space-y-6">
+        <p className="text-sm text-[#5f6368] max-w-3xl">{t("apiDocs.intro")}</p>
+
+        {error && (
+          <div className="card bg-red-50 border-red-200">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!spec && !error && (
+          <p className="text-center text-sm text-[#5f6368]">
+            {t("common.loading")}
+          </p>
+        )}
+
+        {spec && (
+          <>
+            <p className="text-sm text-[#5f6368]">
+              {t("apiDocs.server", { url: spec.servers[0]?.url ?? "" })}
+            </p>
+
+            {spec.tags.map(({ name: tag }) => (
+              <section key={tag} className="space-y-3">
+                <h2 className="text-lg font-medium text-[#202124]">{tag}</h2>
+                {operations
+                  .filter(({ operation }) => operation.tags.includes(tag))
+                  .map(({ path, method, operation }) => (
+                    <details
+                      key={operation.operationId}
+                      id={operation.operationId}
+                      className="card space-y-4"
+                    >
+                      <summary className="flex cursor-pointer flex-wrap items-center gap-3">
+                        <span
+                          className={`w-14 rounded px-2 py-0.5 text-center text-xs font-semibold uppercase ${
+                            METHOD_STYLES[method] ??
+                            "bg-[#f1f3f4] text-[#5f6368]"
+                          }`}
+                        >
+                          {method}
+                        </span>
+                        <code className="text-sm text-[#202124]">{path}</code>
+                        <span className="text-sm text-[#5f6368]">
+                          {operation.summary}
+                        </span>
+                        {operation.security.flatMap(({ bearerAuth }) =>
+                          bearerAuth.map((scope) => (
+                            <span
+                              key={scope}
+                              className="rounded-full bg-[#fef7e0] px-2 py-0.5 text-xs font-medium text-[#b06000]"
+                            >
+                              {t("apiDocs.scope", { scope })}
+                            </span>
+                          ))
+                        )}
+                      </summary>
+
+                      {operation.description && (
+                        <p className="whitespace-pre-line text-sm text-[#5f6368]">
+                          {operation.description}
+                        </p>
+                      )}
+
+                      {operation.parameters && (
+                        <div className="space-y-2">
+                          <h3 className="text-sm font-medium text-[#202124]">
+                            {t("apiDocs.parameters")}
+                          </h3>
+                          <ul className="space-y-1 text-sm">
+                            {operation.parameters.map((parameter) => (
+                              <li
+                                key={`${parameter.in}-${parameter.name}`}
+                                className="flex flex-wrap items-baseline gap-2"
+                              >
+                                <code className="text-[#202124]">
+                                  {parameter.name}
+                                </code>
+                                <span className="text-xs text-[#80868b]">
+                                  {parameter.in}
+                                  {parameter.required &&
+                                    ` · ${t("apiDocs.required")}`}
+                                </span>
+                                <code className="text-xs text-[#5f6368]">
+                                  {Array.isArray(parameter.schema.enum)
+                                    ? parameter.schema.enum.join(" | ")
+                                    : String(parameter.schema.type ?? "")}
+                                </code>
+                                {parameter.description && (
+                                  <span className="text-[#5f6368]">
+                                    {parameter.description}
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {operation.requestBody && (
+                        <div className="space-y-2">
+                          <h3 className="text-sm font-medium text-[#202124]">
+                            {t("apiDocs.requestBody")}
+                          </h3>
+                          <SchemaView
+                            schema={
+                              operation.requestBody.content["application/json"]
+                                .schema
+                            }
+                          />
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <h3 className="text-sm font-medium text-[#202124]">
+                          {t("apiDocs.responses")}
+                        </h3>
+                        <ul className="space-y-1 text-sm">
+                          {Object.entries(operation.responses).map(
+                            ([status, response]) => (
+                              <li
+                                key={status}
+                                className="flex flex-wrap items-baseline gap-2"
+                              >
+                                <code
+                                  className={
+                                    status.startsWith("2")
+                                      ? "text-[#137333]"
+                                      : "text-[#d93025]"
+                                  }
+                                >
+                                  {status}
+                                </code>
+                                <span className="text-[#5f6368]">
+                                  {response.description}
+                                </span>
+                                {response.content && (
+                                  <SchemaView
+                                    schema={
+                                      response.content["application/json"]
+                                        .schema
+                                    }
+                                  />
+                                )}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      </div>
+                    </details>
+                  ))}
+              </section>
+            ))}
+
+            <section className="space-y-3">
+              <h2 className="text-lg font-medium text-[#202124]">
+                {t("apiDocs.schemas")}
+              </h2>
+              {Object.entries(spec.components.schemas).map(([name, schema]) => (
+                <details
+                  key={name}
+                  id={`schema-${name}`}
+                  className="card space-y-3"
+                >
+                  <summary className="cursor-pointer font-mono text-sm text-[#202124]">
+                    {name}
+                  </summary>
+                  <SchemaView schema={schema} />
+                </details>
+              ))}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
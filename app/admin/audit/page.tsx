@@ -0,0 +1,415 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type AuditEvent = {
+  id: string;
+  createdAt: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  projectId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+type Filters = {
+  actorId: string;
+  projectId: string;
+  action: string;
+  from: string;
+  to: string;
+};
+
+type Option = { id: string; label: string };
+
+const emptyFilters: Filters = {
+  actorId: "",
+  projectId: "",
+  action: "",
+  from: "",
+  to: "",
+};
+
+const filterQuery = (filters: Filters, cursor?: string | null) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+export default function AuditLogPage() {
+  const { t } = useTranslation();
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectNames = useMemo(
+    () => new Map(projects.map((project) => [project.id, project.label])),
+    [projects]
+  );
+
+  const fetchEvents = useCallback(
+    async (cursor?: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(
+          `/api/admin/audit?${filterQuery(filters, cursor)}`
+        );
+        if (!res.ok) throw new Error(t("audit.loadFailed"));
+        const data = await res.json();
+        setEvents((prev) => (cursor ? [...prev, ...data.events] : data.events));
+        setNextCursor(data.nextCursor);
+        setActions(data.actions);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t("audit.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters, t]
+  );
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [usersRes, projectsRes] = await Promise.all([
+          fetch("/api/admin/users"),
+          fetch("/api/projects"),
+        ]);
+        if (usersRes.ok) {
+          const data: { id: string; email: string; name: string | null }[] =
+            await usersRes.json();
+          setUsers(
+            data.map((user) => ({
+              id: user.id,
+              label: user.name ? `${user.name} (${user.email})` : user.email,
+            }))
+          );
+        }
+        if (projectsRes.ok) {
+          const data: { id: string; title: string | null }[] =
+            await projectsRes.json();
+          setProjects(
+            data.map((project) => ({
+              id: project.id,
+              label: project.title || t("common.untitledProject"),
+            }))
+          );
+        }
+      } catch {
+        // Filters fall back to showing ids only
+      }
+    };
+    fetchOptions();
+  }, [t]);
+
+  const updateFilter = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("admin.auditLog")}
+            </h1>
+          </div>
+          <a
+            href={`/api/admin/audit/export?${filterQuery(filters)}`}
+            className="btn-secondary no-underline"
+          >
+            {t("audit.export")}
+          </a>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto space-y-6">
+        <div className="card grid grid-cols-1 gap-3 md:grid-cols-5">
+          <div>
+            <label className="block text-xs text-[#5f6368] mb-1">
+              {t("audit.user")}
+            </label>
+            <select
+              value={filters.actorId}
+              onChange={(e) => updateFilter("actorId", e.target.value)}
+              className="input text-sm"
+            >
+              <option value="">{t("audit.anyone")}</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-[#5f6368] mb-1">
+              {t("audit.project")}
+            </label>
+            <select
+              value={filters.projectId}
+              onChange={(e) => updateFilter("projectId", e.target.value)}
+              className="input text-sm"
+            >
+              <option value="">{t("audit.allProjects")}</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-[#5f6368] mb-1">
+              {t("audit.action")}
+            </label>
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter("action", e.target.value)}
+              className="input text-sm"
+            >
+              <option value="">{t("audit.allActions")}</option>
+              {actions.map((action) => (
+                <option key={action} value={action}>
+                  {action}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-[#5f6368] mb-1">
+              {t("audit.from")}
+            </label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className="input text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-[#5f6368] mb-1">
+              {t("audit.to")}
+            </label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className="input text-sm"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="card bg-red-50 border-red-200">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white border border-[#dadce0] rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[#f8f9fa] border-b border-[#dadce0]">
+                <tr>
+                  {[
+                    t("audit.when"),
+                    t("audit.who"),
+                    t("audit.action"),
+                    t("audit.target"),
+                    t("audit.project"),
+                    t("audit.ip"),
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="text-left p-3 text-sm font-medium text-[#202124]"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#dadce0]">
+                {events.map((event) => {
+                  const hasDetails =
+                    Boolean(event.before) ||
+                    Boolean(event.after) ||
+                    Boolean(event.userAgent);
+                  const keys = Array.from(
+                    new Set([
+                      ...Object.keys(event.before ?? {}),
+                      ...Object.keys(event.after ?? {}),
+                    ])
+                  );
+                  return (
+                    <Fragment key={event.id}>
+                      <tr
+                        className={`hover:bg-[#f8f9fa] ${
+                          hasDetails ? "cursor-pointer" : ""
+                        }`}
+                        onClick={() =>
+                          hasDetails &&
+                          setExpandedId((prev) =>
+                            prev === event.id ? null : event.id
+                          )
+                        }
+                      >
+                        <td className="p-3 text-sm text-[#5f6368] whitespace-nowrap">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </td>
+                        <td className="p-3 text-sm text-[#202124]">
+                          {event.actorEmail || t("audit.system")}
+                          {event.actorRole && (
+                            <span className="ml-2 text-xs text-[#5f6368]">
+                              {event.actorRole}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-3 text-sm">
+                          <code className="px-2 py-1 rounded bg-[#f1f3f4] text-xs text-[#202124]">
+                            {event.action}
+                          </code>
+                        </td>
+                        <td className="p-3 text-sm text-[#5f6368]">
+                          {event.targetType}
+                          {event.targetId && (
+                            <span className="ml-1 font-mono text-xs">
+                              {event.targetId}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-3 text-sm text-[#5f6368]">
+                          {event.projectId ? (
+                            <Link
+                              href={`/admin/projects/${event.projectId}`}
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {projectNames.get(event.projectId) ??
+                                event.projectId}
+                            </Link>
+                          ) : (
+                            "—"
+                          )}
+                        </td>
+                        <td className="p-3 text-sm text-[#5f6368]">
+                          {event.ip || "—"}
+                        </td>
+                      </tr>
+                      {expandedId === event.id && (
+                        <tr className="bg-[#f8f9fa]">
+                          <td colSpan={6} className="p-3 text-xs">
+                            {keys.length > 0 && (
+                              <table className="mb-2">
+                                <thead>
+                                  <tr className="text-left text-[#5f6368]">
+                                    <th className="pr-6 font-medium">
+                                      {t("audit.field")}
+                                    </th>
+                                    <th className="pr-6 font-medium">
+                                      {t("audit.before")}
+                                    </th>
+                                    <th className="font-medium">
+                                      {t("audit.after")}
+                                    </th>
+                                  </tr>
+                                </thead>
+                                <tbody className="font-mono text-[#202124]">
+                                  {keys.map((key) => (
+                                    <tr key={key}>
+                                      <td className="pr-6">{key}</td>
+                                      <td className="pr-6 break-all">
+                                        {formatValue(event.before?.[key])}
+                                      </td>
+                                      <td className="break-all">
+                                        {formatValue(event.after?.[key])}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {event.userAgent && (
+                              <p className="text-[#5f6368] break-all">
+                                {event.userAgent}
+                              </p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+                {!loading && events.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="p-6 text-center text-sm text-[#5f6368]"
+                    >
+                      {t("audit.empty")}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          {loading ? (
+            <p className="text-sm text-[#5f6368]">{t("common.loading")}</p>
+          ) : (
+            nextCursor && (
+              <button
+                type="button"
+                onClick={() => fetchEvents(nextCursor)}
+                className="btn-secondary"
+              >
+                {t("common.loadMore")}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
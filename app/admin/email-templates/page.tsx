@@ -0,0 +1,449 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
+import { LOCALES, LOCALE_NAMES, type Locale } from "@/app/lib/i18n";
+
+type TemplateVariable = {
+  name: string;
+  label: string;
+  sample: string;
+  optional?: boolean;
+  multiline?: boolean;
+};
+
+type EmailTemplate = {
+  key: string;
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+  subject: string;
+  html: string;
+  defaults: { subject: string; html: string };
+  customized: boolean;
+  updatedAt: string | null;
+  updatedBy: { id: string; email: string; name: string | null } | null;
+};
+
+type Preview = {
+  subject: string;
+  html: string;
+  text: string;
+  errors: string[];
+};
+
+const PREVIEW_DELAY_MS = 400;
+
+export default function EmailTemplatesPage() {
+  const { locale: uiLocale, t } = useTranslation();
+  // Which language version of the templates is being edited
+  const [locale, setLocale] = useState<Locale>(uiLocale);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [subject, setSubject] = useState("");
+  const [html, setHtml] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [showText, setShowText] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  // Keeps the same template open when switching language
+  const selectedKeyRef = useRef<string | null>(null);
+
+  const selected = templates.find((template) => template.key === selectedKey);
+  const dirty =
+    selected !== undefined &&
+    (subject !== selected.subject || html !== selected.html);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/email-templates?locale=${locale}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("emailTemplates.page.loadFailed"));
+      const data = await res.json();
+      setTemplates(data.templates);
+      return data.templates as EmailTemplate[];
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("emailTemplates.page.loadFailed")
+      );
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [locale, t]);
+
+  const select = (template: EmailTemplate) => {
+    selectedKeyRef.current = template.key;
+    setSelectedKey(template.key);
+    setSubject(template.subject);
+    setHtml(template.html);
+    setError(null);
+    setSuccess(null);
+  };
+
+  useEffect(() => {
+    fetchTemplates().then((loaded) => {
+      const current =
+        loaded.find((template) => template.key === selectedKeyRef.current) ??
+        loaded[0];
+      if (current) select(current);
+    });
+  }, [fetchTemplates]);
+
+  // Re-render the preview shortly after the admin stops typing
+  useEffect(() => {
+    if (!selectedKey) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(
+          `/api/admin/email-templates/${selectedKey}/preview`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ locale, subject, html }),
+          }
+        );
+        if (res.ok) setPreview(await res.json());
+      } catch {
+        // Keep showing the last preview
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [selectedKey, locale, subject, html]);
+
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) {
+      setHtml((prev) => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setHtml(html.slice(0, selectionStart) + token + html.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(
+        selectionStart + token.length,
+        selectionStart + token.length
+      );
+    });
+  };
+
+  const save = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/admin/email-templates/${selected.key}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locale, subject, html }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(
+          typeof data.error === "string"
+            ? data.error
+            : t("emailTemplates.error.saveFailed")
+        );
+      }
+      const loaded = await fetchTemplates();
+      const updated = loaded.find((template) => template.key === selected.key);
+      if (updated) select(updated);
+      setSuccess(t("emailTemplates.page.saved"));
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("emailTemplates.error.saveFailed")
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetToDefault = async () => {
+    if (!selected) return;
+    if (
+      !confirm(
+        t("emailTemplates.page.confirmReset", {
+          template: selected.label,
+          language: LOCALE_NAMES[locale],
+        })
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(
+        `/api/admin/email-templates/${selected.key}?locale=${locale}`,
+        { method: "DELETE" }
+      );
+      if (!res.ok) throw new Error(t("emailTemplates.page.resetFailed"));
+      const loaded = await fetchTemplates();
+      const updated = loaded.find((template) => template.key === selected.key);
+      if (updated) select(updated);
+      setSuccess(t("emailTemplates.page.resetDone"));
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("emailTemplates.page.resetFailed")
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center gap-4 max-w-[1800px] mx-auto">
+          <Link href="/admin" className="btn-icon" title={t("common.back")}>
+            <svg
+              width="24"
+              height="24"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M19 12H5M12 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-2xl font-normal text-[#202124] flex-1">
+            {t("emailTemplates.page.title")}
+          </h1>
+          <label className="flex items-center gap-2 text-sm text-[#5f6368]">
+            {t("emailTemplates.page.language")}
+            <select
+              value={locale}
+              onChange={(e) => {
+                if (
+                  !dirty ||
+                  confirm(t("emailTemplates.page.confirmSwitchLanguage"))
+                ) {
+                  setLocale(e.target.value as Locale);
+                }
+              }}
+              className="input text-sm"
+            >
+              {LOCALES.map((option) => (
+                <option key={option} value={option}>
+                  {LOCALE_NAMES[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto grid gap-6 lg:grid-cols-[260px_1fr]">
+        <div className="space-y-2">
+          {loading && templates.length === 0 && (
+            <p className="text-sm text-[#5f6368]">{t("common.loading")}</p>
+          )}
+          {templates.map((template) => (
+            <button
+              key={template.key}
+              type="button"
+              onClick={() => select(template)}
+              className={`w-full text-left rounded-lg border px-4 py-3 transition ${
+                template.key === selectedKey
+                  ? "border-[#1a73e8] bg-[#e8f0fe]"
+                  : "border-[#dadce0] bg-white hover:bg-[#f8f9fa]"
+              }`}
+            >
+              <p className="text-sm font-medium text-[#202124]">
+                {template.label}
+              </p>
+              <p className="text-xs text-[#5f6368]">
+                {template.customized
+                  ? t("emailTemplates.page.edited")
+                  : t("emailTemplates.page.default")}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="grid gap-6 xl:grid-cols-2">
+            <div className="card space-y-4">
+              <div>
+                <h2 className="font-medium text-[#202124]">{selected.label}</h2>
+                <p className="text-sm text-[#5f6368]">{selected.description}</p>
+                {selected.customized && selected.updatedAt && (
+                  <p className="text-xs text-[#80868b] mt-1">
+                    {selected.updatedBy
+                      ? t("emailTemplates.page.lastEditedBy", {
+                          date: new Date(selected.updatedAt).toLocaleString(),
+                          name:
+                            selected.updatedBy.name || selected.updatedBy.email,
+                        })
+                      : t("emailTemplates.page.lastEdited", {
+                          date: new Date(selected.updatedAt).toLocaleString(),
+                        })}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm text-[#5f6368] mb-1">
+                  {t("emailTemplates.page.subject")}
+                </label>
+                <input
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="input"
+                  disabled={saving}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm text-[#5f6368] mb-1">
+                  {t("emailTemplates.page.body")}
+                </label>
+                <textarea
+                  ref={bodyRef}
+                  value={html}
+                  onChange={(e) => setHtml(e.target.value)}
+                  className="input font-mono text-xs min-h-[420px]"
+                  spellCheck={false}
+                  disabled={saving}
+                />
+                <p className="text-xs text-[#5f6368] mt-1">
+                  {t("emailTemplates.page.syntaxHelp", {
+                    value: "{{name}}",
+                    section: "{{#name}} ... {{/name}}",
+                  })}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-sm text-[#5f6368] mb-2">
+                  {t("emailTemplates.page.variables")}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {selected.variables.map((variable) => (
+                    <button
+                      key={variable.name}
+                      type="button"
+                      onClick={() => insertVariable(variable.name)}
+                      title={t(
+                        variable.optional
+                          ? "emailTemplates.page.optionalVariableHint"
+                          : "emailTemplates.page.variableHint",
+                        { label: variable.label, sample: variable.sample }
+                      )}
+                      className="rounded-full border border-[#dadce0] bg-white px-3 py-1 font-mono text-xs text-[#202124] hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                    >
+                      {variable.name}
+                      {variable.optional && (
+                        <span className="text-[#80868b]">?</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {preview && preview.errors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {preview.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              {error && <div className="text-sm text-red-600">{error}</div>}
+              {success && (
+                <div className="text-sm text-green-600">{success}</div>
+              )}
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={
+                    saving || !dirty || (preview?.errors.length ?? 0) > 0
+                  }
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {saving ? t("common.saving") : t("emailTemplates.page.save")}
+                </button>
+                {dirty && (
+                  <button
+                    type="button"
+                    onClick={() => select(selected)}
+                    disabled={saving}
+                    className="btn-secondary"
+                  >
+                    {t("emailTemplates.page.discard")}
+                  </button>
+                )}
+                {selected.customized && (
+                  <button
+                    type="button"
+                    onClick={resetToDefault}
+                    disabled={saving}
+                    className="btn-secondary"
+                  >
+                    {t("emailTemplates.page.reset")}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="card space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="font-medium text-[#202124]">
+                  {t("emailTemplates.page.preview")}
+                </h2>
+                <button
+                  type="button"
+                  onClick={() => setShowText((prev) => !prev)}
+                  className="text-sm text-[#1a73e8]"
+                >
+                  {showText
+                    ? t("emailTemplates.page.showHtml")
+                    : t("emailTemplates.page.showText")}
+                </button>
+              </div>
+              {preview ? (
+                <>
+                  <p className="text-sm text-[#202124]">
+                    <span className="text-[#5f6368]">
+                      {t("emailTemplates.page.subjectLabel")}
+                    </span>{" "}
+                    {preview.subject}
+                  </p>
+                  {showText ? (
+                    <pre className="whitespace-pre-wrap rounded border border-[#dadce0] bg-[#f8f9fa] p-4 text-xs text-[#202124]">
+                      {preview.text}
+                    </pre>
+                  ) : (
+                    <iframe
+                      title={t("emailTemplates.page.preview")}
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[640px] rounded border border-[#dadce0] bg-white"
+                    />
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-[#5f6368]">
+                  {t("emailTemplates.page.rendering")}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { use, useState } from "react";
+import Link from "next/link";
+import EmailHistory from "@/app/components/EmailHistory";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type EmailStatusFilter = "" | "QUEUED" | "SENT" | "RETRYING" | "FAILED";
+
+export default function EmailOutboxPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ projectId?: string; userId?: string }>;
+}) {
+  const { projectId, userId } = use(searchParams);
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<EmailStatusFilter>("");
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("admin.emails")}
+            </h1>
+            {(projectId || userId) && (
+              <Link href="/admin/emails" className="text-sm text-[#1a73e8]">
+                {t("emails.showAll")}
+              </Link>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as EmailStatusFilter)}
+              className="input text-sm"
+            >
+              <option value="">{t("emails.anyStatus")}</option>
+              <option value="QUEUED">{t("emails.status.QUEUED")}</option>
+              <option value="SENT">{t("emails.status.SENT")}</option>
+              <option value="RETRYING">{t("emails.status.RETRYING")}</option>
+              <option value="FAILED">{t("emails.status.FAILED")}</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => setRefreshKey((key) => key + 1)}
+              className="btn-secondary"
+            >
+              {t("common.refresh")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto">
+        <div className="bg-white">
+          <EmailHistory
+            projectId={projectId}
+            userId={userId}
+            status={status}
+            refreshKey={refreshKey}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
+import type { MessageKey } from "@/app/lib/i18n";
+
+type JobStatus = "QUEUED" | "RUNNING" | "SUCCEEDED" | "DEAD";
+
+type Job = {
+  id: string;
+  type: string;
+  summary: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  lastError: string | null;
+  completedAt: string | null;
+  createdAt: string;
+};
+
+const TABS: { status: JobStatus | ""; label: MessageKey }[] = [
+  { status: "", label: "jobs.pendingAndFailed" },
+  { status: "QUEUED", label: "jobs.status.QUEUED" },
+  { status: "RUNNING", label: "jobs.status.RUNNING" },
+  { status: "DEAD", label: "jobs.status.DEAD" },
+  { status: "SUCCEEDED", label: "jobs.status.SUCCEEDED" },
+];
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  QUEUED: "bg-[#e8f0fe] text-[#1a73e8]",
+  RUNNING: "bg-[#fef7e0] text-[#b06000]",
+  SUCCEEDED: "bg-[#e6f4ea] text-[#137333]",
+  DEAD: "bg-[#fce8e6] text-[#d93025]",
+};
+
+export default function JobsPage() {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<JobStatus | "">("");
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<JobStatus, number>>>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(
+    async (cursor?: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (status) params.set("status", status);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/admin/jobs?${params.toString()}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) throw new Error(t("jobs.loadFailed"));
+        const data = await res.json();
+        setJobs((prev) => (cursor ? [...prev, ...data.jobs] : data.jobs));
+        setNextCursor(data.nextCursor);
+        setCounts(data.counts);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t("jobs.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status, t]
+  );
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const retry = async (job: Job) => {
+    setRetryingId(job.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${job.id}/retry`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("jobs.retryFailed"));
+      }
+      await fetchJobs();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("jobs.retryFailed"));
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("jobs.title")}
+            </h1>
+          </div>
+          <button
+            type="button"
+            onClick={() => fetchJobs()}
+            className="btn-secondary"
+          >
+            {t("common.refresh")}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {TABS.map((tab) => (
+            <button
+              key={tab.label}
+              type="button"
+              onClick={() => setStatus(tab.status)}
+              className={`rounded-full border px-4 py-1.5 text-sm transition ${
+                status === tab.status
+                  ? "border-[#1a73e8] bg-[#e8f0fe] text-[#1a73e8]"
+                  : "border-[#dadce0] bg-white text-[#5f6368] hover:bg-[#f8f9fa]"
+              }`}
+            >
+              {t(tab.label)}
+              {tab.status && counts[tab.status] !== undefined && (
+                <span className="ml-2 text-xs">{counts[tab.status]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="card bg-red-50 border-red-200">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white border border-[#dadce0] rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[#f8f9fa] border-b border-[#dadce0]">
+                <tr>
+                  {[
+                    t("jobs.job"),
+                    t("common.status"),
+                    t("jobs.attempts"),
+                    t("jobs.nextRun"),
+                    t("jobs.lastError"),
+                    "",
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="text-left p-3 text-sm font-medium text-[#202124]"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#dadce0]">
+                {jobs.map((job) => (
+                  <tr key={job.id} className="hover:bg-[#f8f9fa] align-top">
+                    <td className="p-3 text-sm">
+                      <code className="px-2 py-1 rounded bg-[#f1f3f4] text-xs text-[#202124]">
+                        {job.type}
+                      </code>
+                      {job.summary && (
+                        <p className="mt-1 text-xs text-[#5f6368] break-all">
+                          {job.summary}
+                        </p>
+                      )}
+                      <p className="mt-1 font-mono text-xs text-[#80868b]">
+                        {job.id}
+                      </p>
+                    </td>
+                    <td className="p-3 text-sm">
+                      <span
+                        className={`rounded-full px-2 py-1 text-xs font-medium ${
+                          STATUS_STYLES[job.status]
+                        }`}
+                      >
+                        {t(`jobs.status.${job.status}`)}
+                      </span>
+                      {job.lockedBy && (
+                        <p className="mt-1 text-xs text-[#80868b]">
+                          {job.lockedBy}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-3 text-sm text-[#5f6368]">
+                      {job.attempts}/{job.maxAttempts}
+                    </td>
+                    <td className="p-3 text-sm text-[#5f6368] whitespace-nowrap">
+                      {job.status === "SUCCEEDED" && job.completedAt
+                        ? t("jobs.done", {
+                            date: new Date(job.completedAt).toLocaleString(),
+                          })
+                        : job.status === "QUEUED"
+                          ? new Date(job.runAt).toLocaleString()
+                          : "—"}
+                    </td>
+                    <td className="p-3 text-xs text-[#d93025] max-w-md break-words">
+                      {job.lastError || "—"}
+                    </td>
+                    <td className="p-3 text-right">
+                      {(job.status === "DEAD" || job.status === "QUEUED") && (
+                        <button
+                          type="button"
+                          onClick={() => retry(job)}
+                          disabled={retryingId === job.id}
+                          className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 text-xs font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff] disabled:opacity-50"
+                        >
+                          {job.status === "DEAD"
+                            ? t("jobs.retry")
+                            : t("jobs.runNow")}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {!loading && jobs.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="p-6 text-center text-sm text-[#5f6368]"
+                    >
+                      {t("jobs.empty")}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          {loading ? (
+            <p className="text-sm text-[#5f6368]">{t("common.loading")}</p>
+          ) : (
+            nextCursor && (
+              <button
+                type="button"
+                onClick={() => fetchJobs(nextCursor)}
+                className="btn-secondary"
+              >
+                {t("common.loadMore")}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
 import Link from "next/link";
 import ClientLink from "@/app/components/ClientLink";
+import { getTranslator } from "@/app/lib/i18n/server";
 
 const formatDate = (value?: Date | string | null) => {
   if (!value) return null;
@@ -21,6 +22,7 @@ const formatDate = (value?: Date | string | null) => {
 export default async function AdminPage() {
   const session = await auth();
   if (!session || (session.user as any)?.role !== "ADMIN") return null;
+  const t = await getTranslator();
 
   const projects = await prisma.project.findMany({
     orderBy: { createdAt: "desc" },
@@ -33,8 +35,9 @@ export default async function AdminPage() {
         orderBy: { assignedAt: "asc" },
       },
       createdBy: { select: { id: true, email: true, name: true, role: true } },
-      assets: true,
+      assets: { where: { deletedAt: null } },
       deliveries: {
+        where: { deletedAt: null },
         include: {
           uploadedBy: { select: { id: true, email: true, name: true } },
         },
@@ -52,7 +55,7 @@ export default async function AdminPage() {
       where: { status: "IN_PROGRESS" },
     }),
     completedProjects: await prisma.project.count({
-      where: { status: "COMPLETED" },
+      where: { status: { in: ["COMPLETED", "APPROVED"] } },
     }),
     totalClients: await prisma.user.count({ where: { role: "CLIENT" } }),
     totalStaff: await prisma.user.count({ where: { role: "STAFF" } }),
@@ -62,6 +65,10 @@ export default async function AdminPage() {
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -75,17 +82,38 @@ export default async function AdminPage() {
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between w-full max-w-[1920px] mx-auto">
           <h1 className="text-2xl font-normal text-[#202124]">
-            Admin Dashboard
+            {t("admin.title")}
           </h1>
           <div className="flex gap-3">
             <Link href="/admin/users" className="btn-secondary no-underline">
-              Manage Users
+              {t("admin.manageUsers")}
+            </Link>
+            <Link href="/admin/audit" className="btn-secondary no-underline">
+              {t("admin.auditLog")}
+            </Link>
+            <Link href="/admin/emails" className="btn-secondary no-underline">
+              {t("admin.emails")}
+            </Link>
+            <Link
+              href="/admin/email-templates"
+              className="btn-secondary no-underline"
+            >
+              {t("admin.emailTemplates")}
+            </Link>
+            <Link href="/admin/jobs" className="btn-secondary no-underline">
+              {t("admin.jobs")}
+            </Link>
+            <Link href="/admin/webhooks" className="btn-secondary no-underline">
+              {t("admin.webhooks")}
+            </Link>
+            <Link href="/admin/api" className="btn-secondary no-underline">
+              {t("admin.apiDocs")}
             </Link>
             <Link
               href="/admin/projects/new"
               className="btn-primary no-underline"
             >
-              Create Project
+              {t("newProject.submit")}
             </Link>
           </div>
         </div>
@@ -99,25 +127,33 @@ export default async function AdminPage() {
             <div className="text-3xl font-normal text-[#202124] mb-1">
               {stats.totalProjects}
             </div>
-            <div className="text-sm text-[#5f6368]">Total Projects</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.totalProjects")}
+            </div>
           </div>
           <div className="card">
             <div className="text-3xl font-normal text-[#f59e0b] mb-1">
               {stats.pendingProjects}
             </div>
-            <div className="text-sm text-[#5f6368]">Pending</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.pending")}
+            </div>
           </div>
           <div className="card">
             <div className="text-3xl font-normal text-[#3b82f6] mb-1">
               {stats.inProgressProjects}
             </div>
-            <div className="text-sm text-[#5f6368]">In Progress</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.inProgress")}
+            </div>
           </div>
           <div className="card">
             <div className="text-3xl font-normal text-[#10b981] mb-1">
               {stats.completedProjects}
             </div>
-            <div className="text-sm text-[#5f6368]">Completed</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.completed")}
+            </div>
           </div>
         </div>
 
@@ -126,25 +162,29 @@ export default async function AdminPage() {
             <div className="text-3xl font-normal text-[#202124] mb-1">
               {stats.totalClients}
             </div>
-            <div className="text-sm text-[#5f6368]">Total Clients</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.totalClients")}
+            </div>
           </div>
           <div className="card">
             <div className="text-3xl font-normal text-[#202124] mb-1">
               {stats.totalStaff}
             </div>
-            <div className="text-sm text-[#5f6368]">Total Staff</div>
+            <div className="text-sm text-[#5f6368]">
+              {t("admin.stats.totalStaff")}
+            </div>
           </div>
         </div>
 
         {/* Recent Projects */}
         <section>
           <h2 className="text-xl font-normal text-[#202124] mb-4">
-            Recent Projects
+            {t("admin.recentProjects")}
           </h2>
           <div className="bg-white border border-[#dadce0] rounded-lg">
             {projects.length === 0 ? (
               <div className="p-8 text-center text-[#5f6368]">
-                No projects yet
+                {t("projects.empty")}
               </div>
             ) : (
               projects.map((project) => (
@@ -159,27 +199,36 @@ export default async function AdminPage() {
                     <div className="flex justify-between items-start mb-2">
                       <div className="flex-1">
                         <div className="font-medium text-[#202124] mb-1">
-                          {project.title || `Project ${project.id.slice(0, 8)}`}
+                          {project.title ||
+                            t("projects.project", {
+                              id: project.id.slice(0, 8),
+                            })}
                         </div>
                         <div className="text-sm text-[#5f6368]">
-                          Client: {project.client.email}
+                          {t("admin.clientLabel", {
+                            email: project.client.email,
+                          })}
                           {project.staffAssignments.length > 0 && (
                             <>
                               {" "}
-                              • Staff:{" "}
-                              {project.staffAssignments
-                                .map((assignment) => assignment.staff?.email)
-                                .filter(Boolean)
-                                .join(", ")}
+                              •{" "}
+                              {t("admin.staffLabel", {
+                                emails: project.staffAssignments
+                                  .map((assignment) => assignment.staff?.email)
+                                  .filter(Boolean)
+                                  .join(", "),
+                              })}
                             </>
                           )}
                           {project.createdBy && (
                             <>
                               <br />
-                              Created by: {project.createdBy.email}{" "}
+                              {t("admin.createdByLabel", {
+                                email: project.createdBy.email,
+                              })}{" "}
                               {project.createdBy.role && (
                                 <span className="text-xs">
-                                  ({project.createdBy.role})
+                                  ({t(`common.role.${project.createdBy.role}`)})
                                 </span>
                               )}
                             </>
@@ -187,7 +236,7 @@ export default async function AdminPage() {
                         </div>
                       </div>
                       <span className={getStatusBadgeClass(project.status)}>
-                        {project.status.replace("_", " ")}
+                        {t(`projectStatus.${project.status}`)}
                       </span>
                     </div>
                     {project.description && (
@@ -196,8 +245,16 @@ export default async function AdminPage() {
                       </div>
                     )}
                     <div className="flex gap-4 text-sm text-[#5f6368]">
-                      <span>{project.assets.length} assets</span>
-                      <span>{project.deliveries.length} deliveries</span>
+                      <span>
+                        {t("projects.assetCount", {
+                          count: project.assets.length,
+                        })}
+                      </span>
+                      <span>
+                        {t("projects.deliveryCount", {
+                          count: project.deliveries.length,
+                        })}
+                      </span>
                     </div>
                     {"completionNotifiedAt" in project &&
                       project.status === "COMPLETED" && (
@@ -210,11 +267,13 @@ export default async function AdminPage() {
                             ).completionNotifiedAt;
                             return notifiedAt ? (
                               <span className="text-[#0f766e] font-medium">
-                                Email sent {formatDate(notifiedAt)}
+                                {t("admin.emailSent", {
+                                  date: formatDate(notifiedAt),
+                                })}
                               </span>
                             ) : (
                               <span className="text-[#b45309]">
-                                Awaiting client email
+                                {t("admin.awaitingEmail")}
                               </span>
                             );
                           })()}
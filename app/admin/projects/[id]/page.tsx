@@ -8,23 +8,40 @@ import { generateFriendlyPassword } from "@/app/lib/password";
 import { useDriveBrowser } from "@/app/components/drive/browser/useDriveBrowser";
 import DriveBrowserView from "@/app/components/drive/browser/DriveBrowserView";
 import type {
+  DriveDelivery,
   DriveDraggableItem,
   DriveFolder,
 } from "@/app/components/drive/browser/types";
 import DriveFileIcon from "@/app/components/drive/DriveFileIcon";
+import DeliveryVersionsDialog from "@/app/components/drive/DeliveryVersionsDialog";
+import ShareLinksDialog from "@/app/components/drive/ShareLinksDialog";
+import TrashDialog from "@/app/components/drive/TrashDialog";
+import FileChecksum from "@/app/components/drive/FileChecksum";
+import UnfinishedUploads, {
+  type UploadSessionSummary,
+} from "@/app/components/drive/UnfinishedUploads";
+import UploadManagerPanel from "@/app/components/uploads/UploadManagerPanel";
+import { useUploadManager } from "@/app/components/uploads/useUploadManager";
+import EmailHistory from "@/app/components/EmailHistory";
+import DeliveryVideoReview from "@/app/components/drive/DeliveryVideoReview";
+import DeliveryReviewSummary from "@/app/components/drive/DeliveryReviewSummary";
 import {
   dropContainsDirectory,
   extractDroppedFiles,
   formatFileSize,
   isImage,
   isVideo,
+  projectZipUrl,
 } from "@/app/lib/drive-utils";
+import { can, type PolicyUser } from "@/app/lib/policy";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Asset = {
   id: string;
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   type: string;
   folderId?: string | null;
   folder?: { id: string; name: string } | null;
@@ -36,10 +53,14 @@ type Delivery = {
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   createdAt: string;
   folderId?: string | null;
   folder?: { id: string; name: string } | null;
   uploadedBy: { id: string; email: string; name: string | null };
+  version: number;
+  reviewStatus: "PENDING" | "APPROVED" | "CHANGES_REQUESTED";
+  reviewNote: string | null;
 };
 
 type Staff = {
@@ -61,7 +82,14 @@ type Project = {
   id: string;
   title: string | null;
   description: string | null;
-  status: "PENDING" | "IN_PROGRESS" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "CHANGES_REQUESTED"
+    | "APPROVED";
+  clientId: string;
+  createdById: string | null;
   client: { id: string; email: string; name: string | null };
   staffAssignments: Array<{
     id: string;
@@ -97,19 +125,6 @@ type Project = {
   completionNotificationCc?: string | null;
 };
 
-type UploadTaskKind = "asset" | "delivery";
-
-type UploadTask = {
-  id: string;
-  kind: UploadTaskKind;
-  totalFiles: number;
-  currentFileIndex: number;
-  currentFileName: string | null;
-  progress: number;
-  status: "uploading" | "completed" | "error";
-  error?: string;
-};
-
 type PreviewItem =
   | { kind: "asset"; data: Asset }
   | { kind: "delivery"; data: Delivery }
@@ -122,6 +137,7 @@ export default function ProjectDetailPage({
 }) {
   const router = useRouter();
   const { id } = use(params);
+  const { t } = useTranslation();
   const [project, setProject] = useState<Project | null>(null);
   const [staff, setStaff] = useState<Staff[]>([]);
   const [loading, setLoading] = useState(true);
@@ -132,7 +148,6 @@ export default function ProjectDetailPage({
   const deliveryInputRef = useRef<HTMLInputElement | null>(null);
   const titleInputRef = useRef<HTMLInputElement | null>(null);
   const skipTitleSaveRef = useRef(false);
-  const [uploadTasks, setUploadTasks] = useState<UploadTask[]>([]);
   const [notifyEmail, setNotifyEmail] = useState("");
   const [notifyCc, setNotifyCc] = useState("");
   const [sendingEmail, setSendingEmail] = useState(false);
@@ -148,10 +163,14 @@ export default function ProjectDetailPage({
   const [deletingFolderId, setDeletingFolderId] = useState<string | null>(null);
   const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
   const [previewItem, setPreviewItem] = useState<PreviewItem>(null);
-  const [currentUser, setCurrentUser] = useState<{
-    id: string;
-    role: string;
-  } | null>(null);
+  const [versionsDelivery, setVersionsDelivery] =
+    useState<DriveDelivery | null>(null);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [emailHistoryKey, setEmailHistoryKey] = useState(0);
+  const versionInputRef = useRef<HTMLInputElement | null>(null);
+  const versionTargetIdRef = useRef<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<PolicyUser | null>(null);
   const [sendingStaffEmail, setSendingStaffEmail] = useState(false);
   const [staffEmailError, setStaffEmailError] = useState<string | null>(null);
   const [staffEmailSuccess, setStaffEmailSuccess] = useState<string | null>(
@@ -191,13 +210,17 @@ export default function ProjectDetailPage({
       if (!projectRes.ok) {
         const errorText = await projectRes.text();
         console.error("Project fetch failed:", projectRes.status, errorText);
-        throw new Error(`Failed to fetch project: ${projectRes.status}`);
+        throw new Error(
+          t("projectPage.fetchFailedStatus", { status: projectRes.status })
+        );
       }
 
       if (!staffRes.ok) {
         const errorText = await staffRes.text();
         console.error("Staff fetch failed:", staffRes.status, errorText);
-        throw new Error(`Failed to fetch staff: ${staffRes.status}`);
+        throw new Error(
+          t("projectPage.fetchStaffFailedStatus", { status: staffRes.status })
+        );
       }
 
       const projectData = await projectRes.json();
@@ -225,11 +248,13 @@ export default function ProjectDetailPage({
       setLoginPassword(generatedPassword);
     } catch (e: any) {
       console.error("Fetch error:", e);
-      setError(e.message || "Failed to fetch data");
+      setError(e.message || t("projectPage.fetchDataFailed"));
     } finally {
       setLoading(false);
     }
-  }, [id]);
+  }, [id, t]);
+
+  const uploadManager = useUploadManager({ onIdle: fetchData });
 
   const driveFolders = useMemo(
     () =>
@@ -264,6 +289,9 @@ export default function ProjectDetailPage({
         folderId: delivery.folderId ?? null,
         uploadedAt: delivery.createdAt,
         uploadedBy: delivery.uploadedBy ?? null,
+        version: delivery.version,
+        reviewStatus: delivery.reviewStatus,
+        reviewNote: delivery.reviewNote,
       })),
     [deliveriesList]
   );
@@ -280,13 +308,13 @@ export default function ProjectDetailPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move folder");
+            throw new Error(data.error || t("projectPage.moveFolderFailed"));
           }
         } else if (item.kind === "ASSET") {
           if (targetFolderId) {
             const targetFolder = folders.find((f) => f.id === targetFolderId);
             if (targetFolder && targetFolder.type !== "ASSETS") {
-              throw new Error("Assets can only be moved into Assets folders.");
+              throw new Error(t("projectPage.assetMoveTarget"));
             }
           }
           const res = await fetch(`/api/assets/${item.id}`, {
@@ -296,7 +324,7 @@ export default function ProjectDetailPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move asset");
+            throw new Error(data.error || t("projectPage.moveAssetFailed"));
           }
         } else if (item.kind === "DELIVERY") {
           if (targetFolderId) {
@@ -306,9 +334,7 @@ export default function ProjectDetailPage({
               targetFolder.type !== "DELIVERABLES" &&
               targetFolder.type !== "PROJECT"
             ) {
-              throw new Error(
-                "Deliveries can only be moved into Deliverables or Project folders."
-              );
+              throw new Error(t("projectPage.deliveryMoveTargetAdmin"));
             }
           }
           const res = await fetch(`/api/deliveries/${item.id}`, {
@@ -318,16 +344,16 @@ export default function ProjectDetailPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move delivery");
+            throw new Error(data.error || t("projectPage.moveDeliveryFailed"));
           }
         }
         await fetchData();
       } catch (e: any) {
         console.error("Move error:", e);
-        setError(e.message || "Failed to move item");
+        setError(e.message || t("projectPage.moveItemFailed"));
       }
     },
-    [id, folders, fetchData]
+    [id, folders, fetchData, t]
   );
 
   const handleCreateFolderForBrowser = useCallback(
@@ -344,26 +370,24 @@ export default function ProjectDetailPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to create folder");
+          throw new Error(data.error || t("errors.createFolderFailed"));
         }
         const created = await res.json();
         await fetchData();
         return created;
       } catch (e: any) {
         console.error("Create folder error:", e);
-        setError(e.message || "Failed to create folder");
+        setError(e.message || t("errors.createFolderFailed"));
         throw e;
       }
     },
-    [id, fetchData]
+    [id, fetchData, t]
   );
 
   const handleDeleteFolder = useCallback(
     async (folder: DriveFolder) => {
       if (
-        !confirm(
-          `Are you sure you want to delete “${folder.name}”? All nested folders and files will be permanently removed.`
-        )
+        !confirm(t("projectPage.confirmTrashFolder", { name: folder.name }))
       ) {
         return;
       }
@@ -375,23 +399,25 @@ export default function ProjectDetailPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to delete folder");
+          throw new Error(data.error || t("errors.deleteFolderFailed"));
         }
         await fetchData();
       } catch (e: any) {
         console.error("Delete folder error:", e);
-        setError(e.message || "Failed to delete folder");
+        setError(e.message || t("errors.deleteFolderFailed"));
       } finally {
         setDeletingFolderId(null);
       }
     },
-    [fetchData, id]
+    [fetchData, id, t]
   );
 
   const handleRenameFolder = useCallback(
     async (folder: DriveFolder) => {
       const suggested = folder.name;
-      const nextName = window.prompt("Rename folder", suggested)?.trim();
+      const nextName = window
+        .prompt(t("projectPage.renameFolder"), suggested)
+        ?.trim();
       if (!nextName || nextName === folder.name) {
         return;
       }
@@ -405,29 +431,31 @@ export default function ProjectDetailPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to rename folder");
+          throw new Error(data.error || t("projectPage.renameFolderFailed"));
         }
         await fetchData();
       } catch (e: any) {
         console.error("Rename folder error:", e);
-        setError(e.message || "Failed to rename folder");
+        setError(e.message || t("projectPage.renameFolderFailed"));
       } finally {
         setRenamingFolderId(null);
       }
     },
-    [fetchData, id]
+    [fetchData, id, t]
   );
 
   const handleCreateFolderClick = useCallback(
     (parentId: string | null) => {
-      const defaultName = "New Folder";
-      const name = window.prompt("Folder name", defaultName)?.trim();
+      const defaultName = t("drive.defaultFolderName");
+      const name = window
+        .prompt(t("projectPage.folderNamePrompt"), defaultName)
+        ?.trim();
       if (!name) return;
       void handleCreateFolderForBrowser(name, parentId).catch(() => {
         // errors handled in handler
       });
     },
-    [handleCreateFolderForBrowser]
+    [handleCreateFolderForBrowser, t]
   );
 
   const driveBrowser = useDriveBrowser({
@@ -445,17 +473,17 @@ export default function ProjectDetailPage({
     if (activeId) {
       const targetFolder = folders.find((f) => f.id === activeId);
       if (!targetFolder || targetFolder.type !== "ASSETS") {
-        throw new Error("Select an Assets folder before uploading files.");
+        throw new Error(t("projectPage.selectAssetsFolder"));
       }
       return targetFolder.id;
     }
 
     const assetsFolder = folders.find((f) => f.type === "ASSETS");
     if (!assetsFolder) {
-      throw new Error("No Assets folder found. Please contact support.");
+      throw new Error(t("projectPage.noAssetsFolderSupport"));
     }
     return assetsFolder.id;
-  }, [driveBrowser.activeFolderId, folders]);
+  }, [driveBrowser.activeFolderId, folders, t]);
 
   const resolveDeliveryFolderId = useCallback(() => {
     const activeId = driveBrowser.activeFolderId;
@@ -470,9 +498,7 @@ export default function ProjectDetailPage({
         }
         if (targetFolder.type === "ASSETS") {
           // Allow uploading deliveries into assets only if explicitly chosen later
-          throw new Error(
-            "Select a Deliverables or Project folder before uploading deliveries."
-          );
+          throw new Error(t("projectPage.selectDeliveryFolder"));
         }
       }
     }
@@ -484,418 +510,84 @@ export default function ProjectDetailPage({
     if (projectFolder) {
       return projectFolder.id;
     }
-    throw new Error(
-      "No Deliverables or Project folder found. Please create a folder first."
-    );
-  }, [driveBrowser.activeFolderId, folders]);
+    throw new Error(t("projectPage.noDeliveryFolder"));
+  }, [driveBrowser.activeFolderId, folders, t]);
 
   const uploadAssets = useCallback(
     async (
       incoming: FileList | File[],
-      options?: { targetFolderId?: string | null; refreshAfter?: boolean }
+      options?: { targetFolderId?: string | null }
     ) => {
       const files =
         incoming instanceof FileList ? Array.from(incoming) : [...incoming];
       if (files.length === 0) return;
 
-      let taskId: string | null = null;
-
       try {
         const targetFolderId =
           options?.targetFolderId ?? resolveAssetFolderId();
-        const shouldRefresh = options?.refreshAfter ?? true;
         setError(null);
-        taskId = `asset-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-        setUploadTasks((previous) => [
-          ...previous,
+        await uploadManager.add(
+          files,
           {
-            id: taskId!,
-            kind: "asset",
-            totalFiles: files.length,
-            currentFileIndex: files.length > 0 ? 1 : 0,
-            currentFileName: files[0]?.name ?? null,
-            progress: 0,
-            status: "uploading",
+            startUrl: `/api/projects/${id}/assets`,
+            fields: { folderId: targetFolderId },
           },
-        ]);
-
-        const updateTask = (updates: Partial<UploadTask>) => {
-          const id = taskId!;
-          setUploadTasks((previous) =>
-            previous.map((task) =>
-              task.id === id ? { ...task, ...updates } : task
-            )
-          );
-        };
-
-        const scheduleRemoval = (delay: number) => {
-          const id = taskId!;
-          setTimeout(() => {
-            setUploadTasks((previous) =>
-              previous.filter((task) => task.id !== id)
-            );
-          }, delay);
-        };
-
-        for (let index = 0; index < files.length; index++) {
-          const currentFile = files[index];
-          updateTask({
-            currentFileIndex: index + 1,
-            currentFileName: currentFile.name,
-          });
-
-          const initRes = await fetch(`/api/projects/${id}/assets`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!initRes.ok) {
-            const errorData = await initRes
-              .json()
-              .catch(() => ({ error: "Failed to initialize upload" }));
-            throw new Error(
-              errorData.error ||
-                `Upload initialization failed for ${currentFile.name}: ${initRes.status}`
-            );
-          }
-
-          const init = await initRes.json();
-          const { uploadId, key, partSize, presignedPartUrls, completeUrl } =
-            init;
-
-          if (
-            !Array.isArray(presignedPartUrls) ||
-            presignedPartUrls.length === 0
-          ) {
-            throw new Error(
-              `Invalid response from server for ${currentFile.name}: missing presigned URLs`
-            );
-          }
-
-          const totalParts = presignedPartUrls.length;
-          const etags: { ETag: string; PartNumber: number }[] = [];
-
-          for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-            const start = (partNumber - 1) * partSize;
-            const end = Math.min(start + partSize, currentFile.size);
-            const blob = currentFile.slice(start, end);
-
-            const res = await fetch(
-              `/api/r2/upload-part?url=${encodeURIComponent(
-                presignedPartUrls[partNumber - 1]
-              )}`,
-              {
-                method: "PUT",
-                body: blob,
-                headers: {
-                  "Content-Type":
-                    currentFile.type || "application/octet-stream",
-                },
-              }
-            );
-
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: ${
-                  errorData.error || res.statusText
-                }`
-              );
-            }
-
-            const data = await res.json();
-            const etag = data.etag;
-            if (!etag) {
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: no ETag received`
-              );
-            }
-            etags.push({ ETag: etag, PartNumber: partNumber });
-
-            const progress =
-              ((index + (partNumber - 1) / totalParts) / files.length) * 100;
-            updateTask({
-              progress: Math.min(99, Math.round(progress)),
-              currentFileIndex: index + 1,
-              currentFileName: currentFile.name,
-            });
-          }
-
-          const completeRes = await fetch(completeUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              key,
-              uploadId,
-              parts: etags,
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!completeRes.ok) {
-            const errorData = await completeRes.json().catch(() => ({}));
-            throw new Error(
-              errorData.error ||
-                `Upload completion failed for ${currentFile.name}: ${completeRes.status}`
-            );
-          }
-
-          const completionProgress = ((index + 1) / files.length) * 100;
-          updateTask({
-            progress: Math.round(completionProgress),
-            currentFileIndex: index + 1,
-            currentFileName: currentFile.name,
-          });
-        }
-
-        if (shouldRefresh) {
-          await fetchData();
-        }
-        updateTask({
-          progress: 100,
-          status: "completed",
-          currentFileName: null,
-          currentFileIndex: files.length,
-        });
-        scheduleRemoval(1500);
-      } catch (e: any) {
-        setError(e.message || "Failed to upload assets");
-        if (taskId) {
-          setUploadTasks((previous) =>
-            previous.map((task) =>
-              task.id === taskId
-                ? {
-                    ...task,
-                    status: "error",
-                    error: e.message || "Failed to upload assets",
-                  }
-                : task
-            )
-          );
-          setTimeout(() => {
-            setUploadTasks((previous) =>
-              previous.filter((task) => task.id !== taskId)
-            );
-          }, 4000);
-        }
+          t("projectPage.assetUpload")
+        );
+      } catch (e) {
+        setError((e as Error).message || t("projectPage.uploadAssetsFailed"));
       }
     },
-    [fetchData, id, resolveAssetFolderId]
+    [id, resolveAssetFolderId, t, uploadManager.add]
   );
 
   const uploadDeliveries = useCallback(
     async (
       incoming: FileList | File[],
-      options?: { targetFolderId?: string | null; refreshAfter?: boolean }
+      options?: {
+        targetFolderId?: string | null;
+        // Upload as a new version of this delivery instead of a new delivery
+        deliveryId?: string;
+      }
     ) => {
       const files =
         incoming instanceof FileList ? Array.from(incoming) : [...incoming];
       if (files.length === 0) return;
 
-      let taskId: string | null = null;
-
       try {
         const targetFolderId =
           options?.targetFolderId ?? resolveDeliveryFolderId();
-        const shouldRefresh = options?.refreshAfter ?? true;
         setError(null);
-        taskId = `delivery-${Date.now()}-${Math.random()
-          .toString(16)
-          .slice(2)}`;
-
-        setUploadTasks((previous) => [
-          ...previous,
+        await uploadManager.add(
+          files,
           {
-            id: taskId!,
-            kind: "delivery",
-            totalFiles: files.length,
-            currentFileIndex: files.length > 0 ? 1 : 0,
-            currentFileName: files[0]?.name ?? null,
-            progress: 0,
-            status: "uploading",
-          },
-        ]);
-
-        const updateTask = (updates: Partial<UploadTask>) => {
-          const id = taskId!;
-          setUploadTasks((previous) =>
-            previous.map((task) =>
-              task.id === id ? { ...task, ...updates } : task
-            )
-          );
-        };
-
-        const scheduleRemoval = (delay: number) => {
-          const id = taskId!;
-          setTimeout(() => {
-            setUploadTasks((previous) =>
-              previous.filter((task) => task.id !== id)
-            );
-          }, delay);
-        };
-
-        for (let index = 0; index < files.length; index++) {
-          const currentFile = files[index];
-          updateTask({
-            currentFileIndex: index + 1,
-            currentFileName: currentFile.name,
-          });
-
-          const initRes = await fetch(`/api/projects/${id}/deliveries`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!initRes.ok) {
-            const errorData = await initRes
-              .json()
-              .catch(() => ({ error: "Failed to initialize upload" }));
-            throw new Error(
-              errorData.error ||
-                `Upload initialization failed for ${currentFile.name}: ${initRes.status}`
-            );
-          }
-
-          const init = await initRes.json();
-          const { uploadId, key, partSize, presignedPartUrls, completeUrl } =
-            init;
-
-          if (
-            !Array.isArray(presignedPartUrls) ||
-            presignedPartUrls.length === 0
-          ) {
-            throw new Error(
-              `Invalid response from server for ${currentFile.name}: missing presigned URLs`
-            );
-          }
-
-          const totalParts = presignedPartUrls.length;
-          const etags: { ETag: string; PartNumber: number }[] = [];
-
-          for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-            const start = (partNumber - 1) * partSize;
-            const end = Math.min(start + partSize, currentFile.size);
-            const blob = currentFile.slice(start, end);
-
-            const res = await fetch(
-              `/api/r2/upload-part?url=${encodeURIComponent(
-                presignedPartUrls[partNumber - 1]
-              )}`,
-              {
-                method: "PUT",
-                body: blob,
-                headers: {
-                  "Content-Type":
-                    currentFile.type || "application/octet-stream",
-                },
-              }
-            );
-
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: ${
-                  errorData.error || res.statusText
-                }`
-              );
-            }
-
-            const data = await res.json();
-            if (!data.etag) {
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: no ETag received`
-              );
-            }
-            etags.push({ ETag: data.etag, PartNumber: partNumber });
-
-            const progress =
-              ((index + (partNumber - 1) / totalParts) / files.length) * 100;
-            updateTask({
-              progress: Math.min(99, Math.round(progress)),
-              currentFileIndex: index + 1,
-              currentFileName: currentFile.name,
-            });
-          }
-
-          const completeRes = await fetch(completeUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              key,
-              uploadId,
-              parts: etags,
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
+            startUrl: `/api/projects/${id}/deliveries`,
+            fields: {
               folderId: targetFolderId,
-            }),
-          });
-
-          if (!completeRes.ok) {
-            const errorData = await completeRes.json().catch(() => ({}));
-            throw new Error(
-              errorData.error ||
-                `Upload completion failed for ${currentFile.name}: ${completeRes.status}`
-            );
-          }
-
-          const completionProgress = ((index + 1) / files.length) * 100;
-          updateTask({
-            progress: Math.round(completionProgress),
-            currentFileIndex: index + 1,
-            currentFileName: currentFile.name,
-          });
-        }
-
-        if (shouldRefresh) {
-          await fetchData();
-        }
-        updateTask({
-          progress: 100,
-          status: "completed",
-          currentFileName: null,
-          currentFileIndex: files.length,
-        });
-        scheduleRemoval(1500);
-      } catch (e: any) {
-        setError(e.message || "Failed to upload deliveries");
-        if (taskId) {
-          setUploadTasks((previous) =>
-            previous.map((task) =>
-              task.id === taskId
-                ? {
-                    ...task,
-                    status: "error",
-                    error: e.message || "Failed to upload deliveries",
-                  }
-                : task
-            )
-          );
-          setTimeout(() => {
-            setUploadTasks((previous) =>
-              previous.filter((task) => task.id !== taskId)
-            );
-          }, 4000);
-        }
+              deliveryId: options?.deliveryId,
+            },
+          },
+          t("projectPage.deliveryUpload")
+        );
+      } catch (e) {
+        setError(
+          (e as Error).message || t("projectPage.uploadDeliveriesFailed")
+        );
       }
     },
-    [fetchData, id, resolveDeliveryFolderId]
+    [id, resolveDeliveryFolderId, t, uploadManager.add]
+  );
+
+  // Picks up an upload a reload interrupted, into the same place
+  const resumeUpload = useCallback(
+    (session: UploadSessionSummary, file: File) =>
+      session.kind === "DELIVERY"
+        ? uploadDeliveries([file], {
+            targetFolderId: session.folderId,
+            deliveryId: session.deliveryId ?? undefined,
+          })
+        : uploadAssets([file], { targetFolderId: session.folderId }),
+    [uploadAssets, uploadDeliveries]
   );
 
   const handleAssetFiles = useCallback(
@@ -928,6 +620,27 @@ export default function ProjectDetailPage({
     [uploadDeliveries]
   );
 
+  const handleUploadNewVersionClick = useCallback(() => {
+    if (!versionsDelivery) return;
+    versionTargetIdRef.current = versionsDelivery.id;
+    setVersionsDelivery(null);
+    versionInputRef.current?.click();
+  }, [versionsDelivery]);
+
+  const handleVersionFile = useCallback(
+    (incoming: FileList) => {
+      const file = incoming[0];
+      const deliveryId = versionTargetIdRef.current;
+      if (versionInputRef.current) {
+        versionInputRef.current.value = "";
+      }
+      versionTargetIdRef.current = null;
+      if (!file || !deliveryId) return;
+      void uploadDeliveries([file], { deliveryId });
+    },
+    [uploadDeliveries]
+  );
+
   const handleUploadClick = useCallback(() => {
     setError(null);
 
@@ -938,7 +651,7 @@ export default function ProjectDetailPage({
 
     if (activeFolder?.type === "ASSETS") {
       if (!assetInputRef.current) {
-        setError("File input for assets is not ready. Please reload the page.");
+        setError(t("projectPage.assetInputNotReady"));
         return;
       }
       assetInputRef.current.click();
@@ -950,9 +663,7 @@ export default function ProjectDetailPage({
       activeFolder?.type === "PROJECT"
     ) {
       if (!deliveryInputRef.current) {
-        setError(
-          "File input for deliveries is not ready. Please reload the page."
-        );
+        setError(t("projectPage.deliveryInputNotReady"));
         return;
       }
       deliveryInputRef.current.click();
@@ -973,7 +684,7 @@ export default function ProjectDetailPage({
         setError(
           deliveryError?.message ||
             assetError?.message ||
-            "Select a valid folder before uploading files."
+            t("projectPage.selectValidFolder")
         );
       }
     }
@@ -982,6 +693,7 @@ export default function ProjectDetailPage({
     folders,
     resolveDeliveryFolderId,
     resolveAssetFolderId,
+    t,
   ]);
 
   const handleUploadDragOver = useCallback(
@@ -1057,7 +769,9 @@ export default function ProjectDetailPage({
         });
         const data = await res.json().catch(() => ({}));
         if (!res.ok) {
-          throw new Error(data.error || `Failed to create folder "${name}"`);
+          throw new Error(
+            data.error || t("projectPage.createFolderFailed", { name })
+          );
         }
         const created = data as Folder;
         folderIdCache.set(cacheKey(parentId, created.name), created.id);
@@ -1097,26 +811,27 @@ export default function ProjectDetailPage({
             baseFolderId
           );
           if (!destinationFolderId) {
-            throw new Error("Unable to resolve destination folder.");
+            throw new Error(t("projectPage.unresolvedFolder"));
           }
 
+          // Queued behind each other; the upload manager reloads the
+          // listing once they are through
           if (processAsAssets) {
-            await uploadAssets(groupedFiles, {
+            void uploadAssets(groupedFiles, {
               targetFolderId: destinationFolderId,
-              refreshAfter: false,
             });
           } else {
-            await uploadDeliveries(groupedFiles, {
+            void uploadDeliveries(groupedFiles, {
               targetFolderId: destinationFolderId,
-              refreshAfter: false,
             });
           }
         }
 
+        // Shows the folders just created
         await fetchData();
       } catch (error: any) {
         console.error("Folder drop failed:", error);
-        setError(error?.message || "Failed to process dropped folder.");
+        setError(error?.message || t("projectPage.dropFailed"));
       }
     },
     [
@@ -1131,6 +846,7 @@ export default function ProjectDetailPage({
       uploadAssets,
       uploadDeliveries,
       setError,
+      t,
     ]
   );
 
@@ -1203,19 +919,19 @@ export default function ProjectDetailPage({
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Failed to update project title");
+        throw new Error(data.error || t("projectPage.updateTitleFailed"));
       }
 
       await fetchData();
       setIsEditingTitle(false);
     } catch (e: any) {
       console.error("Failed to update project title:", e);
-      setError(e.message || "Failed to update project title");
+      setError(e.message || t("projectPage.updateTitleFailed"));
       setIsEditingTitle(false);
     } finally {
       setSavingTitle(false);
     }
-  }, [project, savingTitle, titleDraft, id, fetchData]);
+  }, [project, savingTitle, titleDraft, id, fetchData, t]);
 
   const handleTitleBlur = useCallback(() => {
     if (skipTitleSaveRef.current) {
@@ -1257,7 +973,7 @@ export default function ProjectDetailPage({
 
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to assign staff");
+        throw new Error(errorData.error || t("projectPage.assignStaffFailed"));
       }
 
       const updatedProject = await res.json();
@@ -1281,41 +997,41 @@ export default function ProjectDetailPage({
       console.log("Updated staff IDs from response:", updatedStaffIds);
     } catch (e: any) {
       console.error("Failed to assign staff:", e);
-      setError(e.message || "Failed to assign staff");
+      setError(e.message || t("projectPage.assignStaffFailed"));
     } finally {
       setAssigning(false);
     }
   };
 
   const deleteAsset = async (assetId: string) => {
-    if (!confirm("Are you sure you want to delete this asset?")) return;
+    if (!confirm(t("projectPage.confirmTrashAsset"))) return;
 
     setDeletingAssetId(assetId);
     try {
       const res = await fetch(`/api/assets/${assetId}`, {
         method: "DELETE",
       });
-      if (!res.ok) throw new Error("Failed to delete asset");
+      if (!res.ok) throw new Error(t("errors.deleteAssetFailed"));
       await fetchData();
     } catch (e: any) {
-      setError(e.message || "Failed to delete asset");
+      setError(e.message || t("errors.deleteAssetFailed"));
     } finally {
       setDeletingAssetId(null);
     }
   };
 
   const deleteDelivery = async (deliveryId: string) => {
-    if (!confirm("Are you sure you want to delete this delivery?")) return;
+    if (!confirm(t("projectPage.confirmTrashDelivery"))) return;
 
     setDeletingDeliveryId(deliveryId);
     try {
       const res = await fetch(`/api/deliveries/${deliveryId}`, {
         method: "DELETE",
       });
-      if (!res.ok) throw new Error("Failed to delete delivery");
+      if (!res.ok) throw new Error(t("errors.deleteDeliveryFailed"));
       await fetchData();
     } catch (e: any) {
-      setError(e.message || "Failed to delete delivery");
+      setError(e.message || t("errors.deleteDeliveryFailed"));
     } finally {
       setDeletingDeliveryId(null);
     }
@@ -1362,9 +1078,7 @@ export default function ProjectDetailPage({
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(
-          data.error || "Failed to send completion email to the client."
-        );
+        throw new Error(data.error || t("projectPage.completionEmailFailed"));
       }
 
       const updatedProject = await res.json();
@@ -1381,10 +1095,11 @@ export default function ProjectDetailPage({
           ""
       );
       setNotifyCc(updatedProject.completionNotificationCc || "");
-      setNotifySuccess("Email sent to the client successfully.");
+      setNotifySuccess(t("projectPage.clientEmailQueued"));
+      setEmailHistoryKey((key) => key + 1);
       setTimeout(() => setNotifySuccess(null), 5000);
     } catch (e: any) {
-      setNotifyError(e.message || "Failed to send completion email.");
+      setNotifyError(e.message || t("projectPage.completionEmailFailedShort"));
     } finally {
       setSendingEmail(false);
     }
@@ -1400,9 +1115,7 @@ export default function ProjectDetailPage({
         .filter((email): email is string => Boolean(email)) ?? [];
 
     if (recipientEmails.length === 0) {
-      setStaffEmailError(
-        "Assign a staff member before sending the assignment email."
-      );
+      setStaffEmailError(t("projectPage.assignStaffFirst"));
       return;
     }
 
@@ -1416,15 +1129,14 @@ export default function ProjectDetailPage({
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Failed to send staff assignment email");
+        throw new Error(data.error || t("projectPage.staffEmailFailed"));
       }
 
-      setStaffEmailSuccess("Staff assignment email sent successfully.");
+      setStaffEmailSuccess(t("projectPage.staffEmailQueued"));
+      setEmailHistoryKey((key) => key + 1);
     } catch (e: any) {
       console.error("Failed to send staff email:", e);
-      setStaffEmailError(
-        e?.message || "Failed to send staff assignment email."
-      );
+      setStaffEmailError(e?.message || t("projectPage.staffEmailFailedDot"));
     } finally {
       setSendingStaffEmail(false);
     }
@@ -1448,13 +1160,14 @@ export default function ProjectDetailPage({
 
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Failed to send email");
+        throw new Error(data.error || t("projectPage.sendEmailFailed"));
       }
 
       setStaffEmailStatus((prev) => ({
         ...prev,
-        [staffId]: { success: "Email sent successfully" },
+        [staffId]: { success: t("projectPage.emailQueued") },
       }));
+      setEmailHistoryKey((key) => key + 1);
 
       // Clear success message after 3 seconds
       setTimeout(() => {
@@ -1468,7 +1181,7 @@ export default function ProjectDetailPage({
       console.error("Failed to send email to staff:", e);
       setStaffEmailStatus((prev) => ({
         ...prev,
-        [staffId]: { error: e?.message || "Failed to send email" },
+        [staffId]: { error: e?.message || t("projectPage.sendEmailFailed") },
       }));
     } finally {
       setSendingEmailToStaffId(null);
@@ -1533,7 +1246,7 @@ export default function ProjectDetailPage({
             size={40}
           />
         </div>
-        <p>Preview is not available for this file type.</p>
+        <p>{t("projectPage.previewUnavailable")}</p>
       </div>
     );
 
@@ -1545,6 +1258,8 @@ export default function ProjectDetailPage({
           className="max-h-[70vh] max-w-full object-contain"
         />
       );
+    } else if (canShowVideo && !isAssetPreview) {
+      body = <DeliveryVideoReview deliveryId={file.id} src={streamUrl} />;
     } else if (canShowVideo) {
       body = (
         <video
@@ -1557,7 +1272,7 @@ export default function ProjectDetailPage({
       body = (
         <audio controls className="w-full">
           <source src={streamUrl} type={mimeType || "audio/mpeg"} />
-          Your browser does not support the audio element.
+          {t("projectPage.audioUnsupported")}
         </audio>
       );
     }
@@ -1579,11 +1294,12 @@ export default function ProjectDetailPage({
               <div className="text-sm text-[#5f6368]">
                 {formatFileSize(file.sizeBytes)}
               </div>
+              <FileChecksum sha256={file.sha256} />
             </div>
             <button
               onClick={closePreview}
               className="btn-icon text-[#5f6368] hover:text-[#202124]"
-              aria-label="Close preview"
+              aria-label={t("projectPage.closePreview")}
             >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                 <path
@@ -1600,10 +1316,10 @@ export default function ProjectDetailPage({
           </div>
           <div className="flex items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
             <a href={downloadUrl} className="btn-secondary" target="_blank">
-              Download
+              {t("common.download")}
             </a>
             <button onClick={closePreview} className="btn-primary">
-              Close
+              {t("common.close")}
             </button>
           </div>
         </div>
@@ -1623,7 +1339,7 @@ export default function ProjectDetailPage({
     return (
       <div className="drive-container p-8">
         <div className="flex items-center justify-center h-64">
-          <div className="text-[#5f6368]">Loading...</div>
+          <div className="text-[#5f6368]">{t("common.loading")}</div>
         </div>
       </div>
     );
@@ -1633,7 +1349,7 @@ export default function ProjectDetailPage({
     return (
       <div className="drive-container p-8">
         <div className="card bg-red-50 border-red-200 max-w-2xl mx-auto">
-          <p className="text-red-600 font-medium mb-2">Error</p>
+          <p className="text-red-600 font-medium mb-2">{t("common.error")}</p>
           <p className="text-red-600 text-sm mb-4">{error}</p>
           <div className="flex gap-3">
             <button
@@ -1644,10 +1360,10 @@ export default function ProjectDetailPage({
               }}
               className="btn-primary bg-red-600 hover:bg-red-700"
             >
-              Retry
+              {t("common.retry")}
             </button>
             <Link href="/admin" className="btn-secondary no-underline">
-              Back to Dashboard
+              {t("projectPage.backToDashboard")}
             </Link>
           </div>
         </div>
@@ -1658,9 +1374,9 @@ export default function ProjectDetailPage({
   if (!project) {
     return (
       <div className="drive-container p-8">
-        <div className="text-[#5f6368] mb-4">Project not found</div>
+        <div className="text-[#5f6368] mb-4">{t("errors.projectNotFound")}</div>
         <Link href="/admin" className="btn-secondary no-underline">
-          Back to Dashboard
+          {t("projectPage.backToDashboard")}
         </Link>
       </div>
     );
@@ -1670,6 +1386,10 @@ export default function ProjectDetailPage({
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -1691,12 +1411,13 @@ export default function ProjectDetailPage({
   const canSendEmail = project.status === "COMPLETED";
   const trimmedProjectTitle = (project.title ?? "").trim();
   const displayTitle =
-    trimmedProjectTitle || `Project ${project.id.slice(0, 8)}`;
+    trimmedProjectTitle ||
+    t("projects.project", { id: project.id.slice(0, 8) });
   const titlePlaceholder = trimmedProjectTitle
-    ? "Enter project name"
+    ? t("projectPage.enterName")
     : displayTitle;
-  const canModifyAssignments = currentUser?.role
-    ? currentUser.role === "ADMIN"
+  const canModifyAssignments = currentUser
+    ? can(currentUser, "project:assignStaff", project)
     : true;
   // Calculate assigned staff from project assignments
   // Calculate directly from project to ensure it always reflects current state
@@ -1730,7 +1451,7 @@ export default function ProjectDetailPage({
       <div className="bg-white border-b border-[#dadce0] px-4 lg:px-6 xl:px-10 py-4">
         <div className="flex items-center justify-between w-full max-w-[1920px] mx-auto">
           <div className="flex items-center gap-4">
-            <Link href="/admin" className="btn-icon" title="Back">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -1754,13 +1475,13 @@ export default function ProjectDetailPage({
                     className="input h-10 w-full max-w-xl px-3 text-base font-normal text-[#202124]"
                     placeholder={titlePlaceholder}
                     disabled={savingTitle}
-                    aria-label="Project name"
+                    aria-label={t("projectPage.nameLabel")}
                   />
                 ) : (
                   <span
                     className="cursor-text"
                     onDoubleClick={startEditingTitle}
-                    title="Double-click to rename project"
+                    title={t("projectPage.renameHint")}
                     role="button"
                     tabIndex={0}
                     onKeyDown={(event) => {
@@ -1775,14 +1496,21 @@ export default function ProjectDetailPage({
                 )}
               </h1>
               <div className="text-sm text-[#5f6368] mt-1">
-                Client: {project.client.email}
+                {t("projectPage.clientLabel", { email: project.client.email })}
                 {hasAssignedStaff && assignedStaffEmails.length > 0 && (
-                  <> • Staff: {assignedStaffEmails.join(", ")}</>
+                  <>
+                    {" • "}
+                    {t("projectPage.staffLabel", {
+                      emails: assignedStaffEmails.join(", "),
+                    })}
+                  </>
                 )}
                 {project.createdBy && (
                   <>
                     <br />
-                    Created by: {project.createdBy.email}{" "}
+                    {t("projectPage.createdBy", {
+                      email: project.createdBy.email,
+                    })}{" "}
                     {project.createdBy.role && (
                       <span className="text-xs">
                         ({project.createdBy.role})
@@ -1794,7 +1522,7 @@ export default function ProjectDetailPage({
             </div>
           </div>
           <div className={getStatusBadgeClass(project.status)}>
-            {project.status.replace("_", " ")}
+            {t(`projectStatus.${project.status}`)}
           </div>
         </div>
       </div>
@@ -1804,22 +1532,22 @@ export default function ProjectDetailPage({
         <div className="card space-y-4">
           <div className="flex items-center justify-between gap-3 flex-wrap">
             <h2 className="font-medium text-[#202124]">
-              Delivery Review & Notification
+              {t("projectPage.reviewHeading")}
             </h2>
             <span className={getStatusBadgeClass(project.status)}>
-              {project.status.replace("_", " ")}
+              {t(`projectStatus.${project.status}`)}
             </span>
           </div>
           <div className="space-y-2 text-sm text-[#5f6368]">
             <p>
-              Submission status:{" "}
+              {t("projectPage.submissionStatus")}{" "}
               {submittedAtLabel ? (
                 <>
-                  Received on {submittedAtLabel}
+                  {t("projectPage.receivedOn", { date: submittedAtLabel })}
                   {project.completionSubmittedBy && (
                     <>
                       {" "}
-                      by{" "}
+                      {t("projectPage.by")}{" "}
                       <span className="font-medium">
                         {project.completionSubmittedBy.email}
                       </span>
@@ -1827,18 +1555,18 @@ export default function ProjectDetailPage({
                   )}
                 </>
               ) : (
-                "Waiting for staff to submit final deliveries."
+                t("projectPage.awaitingStaff")
               )}
             </p>
             <p>
-              Client notification:{" "}
+              {t("projectPage.clientNotification")}{" "}
               {notifiedAtLabel ? (
                 <>
-                  Sent on {notifiedAtLabel}
+                  {t("projectPage.sentOn", { date: notifiedAtLabel })}
                   {project.completionNotifiedBy && (
                     <>
                       {" "}
-                      by{" "}
+                      {t("projectPage.by")}{" "}
                       <span className="font-medium">
                         {project.completionNotifiedBy.email}
                       </span>
@@ -1846,14 +1574,14 @@ export default function ProjectDetailPage({
                   )}
                 </>
               ) : (
-                "Not sent yet."
+                t("projectPage.notSent")
               )}
             </p>
           </div>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             <div>
               <label className="block text-sm text-[#5f6368] mb-1">
-                Client email
+                {t("projectPage.clientEmail")}
               </label>
               <input
                 type="email"
@@ -1866,7 +1594,7 @@ export default function ProjectDetailPage({
             </div>
             <div>
               <label className="block text-sm text-[#5f6368] mb-1">
-                CC (optional, comma separated)
+                {t("projectPage.cc")}
               </label>
               <input
                 type="text"
@@ -1879,23 +1607,26 @@ export default function ProjectDetailPage({
             </div>
             <div>
               <label className="block text-sm text-[#5f6368] mb-1">
-                Login email (optional)
+                {t("projectPage.loginEmail")}
               </label>
               <input
                 type="email"
                 value={loginEmail}
                 onChange={(e) => setLoginEmail(e.target.value)}
                 className="input"
-                placeholder={project?.client?.email || "client login email"}
+                placeholder={
+                  project?.client?.email ||
+                  t("projectPage.loginEmailPlaceholder")
+                }
                 disabled={sendingEmail}
               />
               <p className="text-xs text-[#5f6368] mt-1">
-                Leave blank to use the client's registered email.
+                {t("projectPage.loginEmailHint")}
               </p>
             </div>
             <div className="md:col-span-2 lg:col-span-3">
               <label className="block text-sm text-[#5f6368] mb-1">
-                Temporary password (optional)
+                {t("projectPage.tempPassword")}
               </label>
               <div className="flex gap-2">
                 <input
@@ -1905,7 +1636,7 @@ export default function ProjectDetailPage({
                     setLoginPassword(e.target.value);
                   }}
                   className="input flex-1"
-                  placeholder="Generate or enter a password to reset the client login"
+                  placeholder={t("projectPage.tempPasswordPlaceholder")}
                   disabled={sendingEmail}
                 />
                 <button
@@ -1914,12 +1645,11 @@ export default function ProjectDetailPage({
                   className="btn-secondary whitespace-nowrap"
                   disabled={sendingEmail}
                 >
-                  Generate
+                  {t("projectPage.generate")}
                 </button>
               </div>
               <p className="text-xs text-[#5f6368] mt-1">
-                Provide a password to reset the client's login and include it in
-                the email.
+                {t("projectPage.tempPasswordHint")}
               </p>
             </div>
           </div>
@@ -1936,29 +1666,30 @@ export default function ProjectDetailPage({
               className="btn-primary disabled:opacity-50"
             >
               {sendingEmail
-                ? "Sending..."
+                ? t("projectPage.sending")
                 : notifiedAtLabel
-                ? "Resend Email"
-                : "Send Email to Client"}
+                ? t("projectPage.resendEmail")
+                : t("projectPage.sendToClient")}
             </button>
             {!canSendEmail && (
               <p className="text-xs text-[#b91c1c]">
-                Mark the project as completed before sending the client email.
+                {t("projectPage.completeBeforeEmail")}
               </p>
             )}
           </div>
         </div>
         <div className="card space-y-3">
-          <h2 className="font-medium text-[#202124]">Assign Staff</h2>
+          <h2 className="font-medium text-[#202124]">
+            {t("projectPage.assignStaff")}
+          </h2>
           <p className="text-sm text-[#5f6368]">
-            Choose one or more team members to manage this project. Assigning
-            automatically moves the project to "In Progress".
+            {t("projectPage.assignStaffHint")}
           </p>
           <div className="flex flex-col gap-3 sm:flex-row">
             <div className="flex-1 border border-[#dadce0] rounded-lg p-3 min-h-[140px] max-h-[300px] overflow-y-auto bg-white">
               {staff.length === 0 ? (
                 <div className="text-sm text-[#5f6368] py-2">
-                  No staff members available
+                  {t("projectPage.noStaffAvailable")}
                 </div>
               ) : (
                 <div className="space-y-2">
@@ -2004,7 +1735,9 @@ export default function ProjectDetailPage({
                 disabled={assigning || !canModifyAssignments}
                 className="btn-primary disabled:opacity-50"
               >
-                {assigning ? "Saving..." : "Save Assignment"}
+                {assigning
+                  ? t("common.saving")
+                  : t("projectPage.saveAssignment")}
               </button>
               <button
                 type="button"
@@ -2016,25 +1749,27 @@ export default function ProjectDetailPage({
                   selectedStaffIds.length === 0
                 }
               >
-                Clear Selection
+                {t("projectPage.clearSelection")}
               </button>
               {selectedStaffIds.length > 0 && (
                 <div className="text-xs text-[#5f6368] text-center pt-1">
-                  {selectedStaffIds.length} selected
+                  {t("projectPage.selectedCount", {
+                    count: selectedStaffIds.length,
+                  })}
                 </div>
               )}
             </div>
           </div>
           {!canModifyAssignments && (
             <p className="text-xs text-[#b91c1c]">
-              Only admins can update staff assignments.
+              {t("projectPage.adminsOnlyAssign")}
             </p>
           )}
 
           {/* Assigned Staff List */}
           <div className="space-y-3">
             <h3 className="text-sm font-medium text-[#202124]">
-              Assigned Staff Members
+              {t("projectPage.assignedStaff")}
             </h3>
             {hasAssignedStaff ? (
               <div className="space-y-2">
@@ -2063,13 +1798,18 @@ export default function ProjectDetailPage({
                         </div>
                         {assignment?.assignedAt && (
                           <div className="text-xs text-[#5f6368] mt-1">
-                            Assigned{" "}
-                            {new Date(
-                              assignment.assignedAt
-                            ).toLocaleDateString()}
-                            {assignment.assignedBy && (
-                              <> by {assignment.assignedBy.email}</>
-                            )}
+                            {assignment.assignedBy
+                              ? t("projectPage.assignedOnBy", {
+                                  date: new Date(
+                                    assignment.assignedAt
+                                  ).toLocaleDateString(),
+                                  email: assignment.assignedBy.email,
+                                })
+                              : t("projectPage.assignedOn", {
+                                  date: new Date(
+                                    assignment.assignedAt
+                                  ).toLocaleDateString(),
+                                })}
                           </div>
                         )}
                         {status?.success && (
@@ -2087,7 +1827,9 @@ export default function ProjectDetailPage({
                         onClick={() => sendEmailToIndividualStaff(staff.id)}
                         disabled={isSending}
                         className="btn-secondary disabled:opacity-50 whitespace-nowrap text-sm px-3 py-1.5"
-                        title={`Send assignment email to ${staff.email}`}
+                        title={t("projectPage.sendAssignmentTo", {
+                          email: staff.email,
+                        })}
                       >
                         {isSending ? (
                           <>
@@ -2111,7 +1853,7 @@ export default function ProjectDetailPage({
                                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                               />
                             </svg>
-                            Sending...
+                            {t("projectPage.sending")}
                           </>
                         ) : (
                           <>
@@ -2127,7 +1869,7 @@ export default function ProjectDetailPage({
                               <path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z" />
                               <polyline points="22,6 12,13 2,6" />
                             </svg>
-                            Send Email
+                            {t("projectPage.sendEmail")}
                           </>
                         )}
                       </button>
@@ -2137,7 +1879,7 @@ export default function ProjectDetailPage({
               </div>
             ) : (
               <div className="text-sm text-[#5f6368] p-3 border border-[#dadce0] rounded-lg bg-[#f8f9fa]">
-                No staff members currently assigned.
+                {t("projectPage.noStaffAssigned")}
               </div>
             )}
           </div>
@@ -2146,14 +1888,16 @@ export default function ProjectDetailPage({
           {hasAssignedStaff && (
             <div className="flex items-center justify-between pt-2 border-t border-[#dadce0]">
               <div className="text-sm text-[#5f6368]">
-                Send email to all assigned staff at once
+                {t("projectPage.sendAllStaff")}
               </div>
               <button
                 onClick={sendStaffAssignmentEmail}
                 disabled={sendingStaffEmail || !hasAssignedStaff}
                 className="btn-secondary disabled:opacity-50 whitespace-nowrap text-sm"
               >
-                {sendingStaffEmail ? "Sending..." : "Email All Staff"}
+                {sendingStaffEmail
+                  ? t("projectPage.sending")
+                  : t("projectPage.emailAllStaff")}
               </button>
             </div>
           )}
@@ -2166,7 +1910,9 @@ export default function ProjectDetailPage({
         </div>
         {project.description && (
           <div className="card">
-            <h2 className="font-medium text-[#202124] mb-2">Description</h2>
+            <h2 className="font-medium text-[#202124] mb-2">
+              {t("projectPage.description")}
+            </h2>
             <p className="text-[#5f6368]">{project.description}</p>
           </div>
         )}
@@ -2174,11 +1920,10 @@ export default function ProjectDetailPage({
         {project.status === "COMPLETED" && (
           <div className="card bg-blue-50 border-blue-200">
             <h2 className="font-medium text-[#202124] mb-3">
-              Client Project Access Link
+              {t("projectPage.accessLink")}
             </h2>
             <p className="text-sm text-[#5f6368] mb-4">
-              Share this link with the client to give them direct access to
-              their project folder:
+              {t("projectPage.accessLinkHint")}
             </p>
             <div className="flex gap-3 items-center">
               <div className="flex-1 bg-white border border-[#dadce0] rounded-lg p-3 break-all">
@@ -2210,7 +1955,7 @@ export default function ProjectDetailPage({
                     >
                       <path d="M20 6L9 17l-5-5" />
                     </svg>
-                    Copied!
+                    {t("common.copied")}
                   </>
                 ) : (
                   <>
@@ -2233,7 +1978,7 @@ export default function ProjectDetailPage({
                       ></rect>
                       <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
                     </svg>
-                    Copy Link
+                    {t("projectPage.copyLink")}
                   </>
                 )}
               </button>
@@ -2255,17 +2000,33 @@ export default function ProjectDetailPage({
                   <polyline points="15 3 21 3 21 9"></polyline>
                   <line x1="10" y1="14" x2="21" y2="3"></line>
                 </svg>
-                Open Link
+                {t("projectPage.openLink")}
               </Link>
             </div>
           </div>
         )}
+        <div className="card space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="font-medium text-[#202124]">
+              {t("projectPage.emailHistory")}
+            </h2>
+            <Link
+              href={`/admin/emails?projectId=${project.id}`}
+              className="text-sm text-[#1a73e8]"
+            >
+              {t("projectPage.openInEmails")}
+            </Link>
+          </div>
+          <EmailHistory projectId={project.id} refreshKey={emailHistoryKey} />
+        </div>
         {/* Legacy drive UI retained temporarily */}
         <section
           className="space-y-4"
           onDragOver={handleUploadDragOver}
           onDrop={handleUploadDrop}
         >
+          <UnfinishedUploads projectId={project.id} onResume={resumeUpload} />
+          <DeliveryReviewSummary deliveries={driveDeliveries} />
           <DriveBrowserView
             browser={driveBrowser}
             assets={driveAssets}
@@ -2274,6 +2035,14 @@ export default function ProjectDetailPage({
             onDownloadAsset={downloadAsset}
             onPreviewDelivery={previewDelivery}
             onDownloadDelivery={downloadDelivery}
+            onDownloadZip={(selection) =>
+              window.open(
+                projectZipUrl(id, selection),
+                "_blank",
+                "noopener,noreferrer"
+              )
+            }
+            onShowDeliveryVersions={setVersionsDelivery}
             onDeleteAsset={(asset) => deleteAsset(asset.id)}
             onDeleteDelivery={(delivery) => deleteDelivery(delivery.id)}
             deletingAssetId={deletingAssetId}
@@ -2310,87 +2079,69 @@ export default function ProjectDetailPage({
                     }
                   }}
                 />
+                <input
+                  ref={versionInputRef}
+                  type="file"
+                  accept="*/*"
+                  className="sr-only"
+                  onChange={(event) => {
+                    if (event.target.files) {
+                      handleVersionFile(event.target.files);
+                    }
+                  }}
+                />
+                {can(currentUser, "share:create", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setShareDialogOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("projectPage.share")}
+                  </button>
+                )}
+                {can(currentUser, "trash:view", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setTrashOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("trash.title")}
+                  </button>
+                )}
               </>
             }
             emptyState={
               <div className="text-sm text-[#5f6368]">
-                No folders or files yet. Use the buttons above to create folders
-                or upload project assets.
+                {t("projectPage.adminEmpty")}
               </div>
             }
           />
-
-          {uploadTasks.length > 0 && (
-            <div className="space-y-3">
-              {uploadTasks.map((task) => {
-                const currentIndex = Math.max(
-                  0,
-                  Math.min(task.currentFileIndex, task.totalFiles)
-                );
-                const baseLabel =
-                  task.kind === "asset" ? "Asset upload" : "Delivery upload";
-                const statusLabel =
-                  task.status === "completed"
-                    ? "Completed"
-                    : task.status === "error"
-                    ? "Failed"
-                    : "Uploading";
-                const colorClass =
-                  task.status === "error"
-                    ? "bg-[#d93025]"
-                    : task.kind === "asset"
-                    ? "bg-[#1a73e8]"
-                    : "bg-[#34a853]";
-
-                return (
-                  <div
-                    key={task.id}
-                    className="rounded-lg border border-[#dadce0] bg-white px-4 py-3 shadow-sm"
-                  >
-                    <div className="flex flex-col gap-1 text-sm text-[#202124] sm:flex-row sm:items-center sm:justify-between">
-                      <span className="leading-snug">
-                        {statusLabel} {baseLabel}
-                        {task.totalFiles > 0 && (
-                          <>
-                            {" "}
-                            ({currentIndex}/{task.totalFiles})
-                          </>
-                        )}
-                        {task.currentFileName ? (
-                          <>
-                            {" · "}
-                            <span className="font-medium">
-                              {task.currentFileName}
-                            </span>
-                          </>
-                        ) : null}
-                      </span>
-                      <span>{Math.max(0, Math.min(100, task.progress))}%</span>
-                    </div>
-                    <div className="mt-2 h-2 rounded-full bg-[#e8eaed]">
-                      <div
-                        className={`h-2 rounded-full ${colorClass} transition-all`}
-                        style={{
-                          width: `${Math.max(
-                            0,
-                            Math.min(100, task.progress)
-                          )}%`,
-                        }}
-                      />
-                    </div>
-                    {task.error && (
-                      <p className="mt-2 text-xs text-[#d93025]">
-                        {task.error}
-                      </p>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          )}
         </section>
       </div>
+      <UploadManagerPanel manager={uploadManager} />
       {renderPreview()}
+      <ShareLinksDialog
+        open={shareDialogOpen}
+        projectId={id}
+        deliveries={driveDeliveries}
+        folders={driveFolders}
+        onClose={() => setShareDialogOpen(false)}
+      />
+      <TrashDialog
+        open={trashOpen}
+        projectId={id}
+        onClose={() => setTrashOpen(false)}
+        onRestored={fetchData}
+      />
+      <DeliveryVersionsDialog
+        delivery={versionsDelivery}
+        onClose={() => setVersionsDelivery(null)}
+        onUploadNewVersion={
+          can(currentUser, "delivery:upload", project)
+            ? handleUploadNewVersionClick
+            : undefined
+        }
+      />
     </div>
   );
 }
@@ -3,16 +3,21 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
+import UploadManagerPanel from "@/app/components/uploads/UploadManagerPanel";
+import { useUploadManager } from "@/app/components/uploads/useUploadManager";
 
 type Client = { id: string; email: string };
 
 export default function UploadPage() {
+  const { t } = useTranslation();
   const router = useRouter();
   const [clients, setClients] = useState<Client[]>([]);
   const [file, setFile] = useState<File | null>(null);
   const [ownerId, setOwnerId] = useState<string>("");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const uploads = useUploadManager();
 
   useEffect(() => {
     fetch("/api/admin/clients")
@@ -28,85 +33,14 @@ export default function UploadPage() {
     setBusy(true);
     setError(null);
     try {
-      const contentType = file.type || "application/octet-stream";
-      const initRes = await fetch("/api/r2/multipart/init", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filename: file.name,
-          contentType,
-          sizeBytes: file.size,
-        }),
+      // Progress, pause and retry are in the upload panel
+      const completed = await uploads.add([file], {
+        startUrl: "/api/r2/multipart/init",
+        fields: { ownerId },
       });
-      if (!initRes.ok) {
-        const message = await initRes.text();
-        throw new Error(
-          message ||
-            `Upload init failed (${initRes.status} ${initRes.statusText})`
-        );
-      }
-      const init = await initRes.json();
-      const {
-        uploadId,
-        key,
-        partSize,
-        presignedPartUrls,
-        completeUrl,
-        abortUrl,
-      } = init;
-
-      const totalParts = presignedPartUrls.length;
-      const etags: { ETag: string; PartNumber: number }[] = [];
-      for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-        const start = (partNumber - 1) * partSize;
-        const end = Math.min(start + partSize, file.size);
-        const blob = file.slice(start, end);
-        // Use proxy route to avoid CORS issues
-        const res = await fetch(
-          `/api/r2/upload-part?url=${encodeURIComponent(
-            presignedPartUrls[partNumber - 1]
-          )}`,
-          {
-            method: "PUT",
-            body: blob,
-            headers: {
-              "Content-Type": file.type || "application/octet-stream",
-            },
-          }
-        );
-        if (!res.ok) {
-          const message = await res.text();
-          throw new Error(
-            message
-              ? `Part ${partNumber}: ${message}`
-              : `Part ${partNumber} failed (${res.status})`
-          );
-        }
-        const data = await res.json();
-        etags.push({ ETag: data.etag, PartNumber: partNumber });
-      }
-
-      const completeRes = await fetch(completeUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          key,
-          uploadId,
-          parts: etags,
-          ownerId,
-          filename: file.name,
-          contentType,
-          sizeBytes: file.size,
-        }),
-      });
-      if (!completeRes.ok) {
-        const message = await completeRes.text();
-        throw new Error(message || `Complete failed (${completeRes.status})`);
-      }
-
-      router.push("/admin");
-    } catch (e: any) {
-      setError(e.message || "Upload failed");
+      if (completed) router.push("/admin");
+    } catch (e) {
+      setError((e as Error).message || t("upload.failed"));
     } finally {
       setBusy(false);
     }
@@ -117,7 +51,7 @@ export default function UploadPage() {
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <div className="flex items-center gap-4">
-            <Link href="/admin" className="btn-icon" title="Back">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -130,7 +64,7 @@ export default function UploadPage() {
               </svg>
             </Link>
             <h1 className="text-2xl font-normal text-[#202124]">
-              Upload Video
+              {t("upload.title")}
             </h1>
           </div>
         </div>
@@ -145,7 +79,7 @@ export default function UploadPage() {
         >
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Select client <span className="text-red-500">*</span>
+              {t("upload.selectClient")} <span className="text-red-500">*</span>
             </label>
             <select
               value={ownerId}
@@ -153,7 +87,7 @@ export default function UploadPage() {
               className="input"
               required
             >
-              <option value="">-- Choose client --</option>
+              <option value="">{t("upload.chooseClient")}</option>
               {clients.map((c) => (
                 <option key={c.id} value={c.id}>
                   {c.email}
@@ -163,7 +97,7 @@ export default function UploadPage() {
           </div>
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Video file <span className="text-red-500">*</span>
+              {t("upload.videoFile")} <span className="text-red-500">*</span>
             </label>
             <input
               type="file"
@@ -180,14 +114,15 @@ export default function UploadPage() {
               disabled={!canSubmit || busy}
               className="btn-primary disabled:opacity-50"
             >
-              {busy ? "Uploading..." : "Upload"}
+              {busy ? t("upload.uploading") : t("drive.upload")}
             </button>
             <Link href="/admin" className="btn-secondary no-underline">
-              Cancel
+              {t("common.cancel")}
             </Link>
           </div>
         </form>
       </div>
+      <UploadManagerPanel manager={uploads} />
     </div>
   );
 }
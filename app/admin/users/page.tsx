@@ -4,6 +4,8 @@ import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { generateFriendlyPassword } from "@/app/lib/password";
+import { useTranslation } from "@/app/components/I18nProvider";
+import { LOCALES, LOCALE_NAMES, type Locale } from "@/app/lib/i18n";
 
 type User = {
   id: string;
@@ -12,9 +14,18 @@ type User = {
   role: "ADMIN" | "STAFF" | "CLIENT";
   createdAt: string;
   createdBy?: { id: string; email: string; name: string | null } | null;
+  twoFactorEnabledAt?: string | null;
+  failedLoginCount?: number;
+  lockedUntil?: string | null;
 };
 
+const isLocked = (user: User) =>
+  Boolean(user.lockedUntil && new Date(user.lockedUntil) > new Date());
+
+type TwoFactorRequirements = { ADMIN: boolean; STAFF: boolean };
+
 export default function UsersPage() {
+  const { locale, t } = useTranslation();
   const router = useRouter();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -28,6 +39,7 @@ export default function UsersPage() {
     name: "",
     password: "",
     role: "CLIENT" as "ADMIN" | "STAFF" | "CLIENT",
+    locale,
   });
   const [passwordEdited, setPasswordEdited] = useState(false);
   const [editFormData, setEditFormData] = useState({
@@ -43,15 +55,58 @@ export default function UsersPage() {
   const [submitting, setSubmitting] = useState(false);
   const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
   const [emailingUserId, setEmailingUserId] = useState<string | null>(null);
+  const [resettingTwoFactorUserId, setResettingTwoFactorUserId] = useState<
+    string | null
+  >(null);
+  const [unlockingUserId, setUnlockingUserId] = useState<string | null>(null);
+  const [requireTwoFactor, setRequireTwoFactor] =
+    useState<TwoFactorRequirements | null>(null);
 
   useEffect(() => {
     fetchUsers();
+    fetchSecurity();
   }, []);
 
+  const fetchSecurity = async () => {
+    try {
+      const res = await fetch("/api/admin/security");
+      if (!res.ok) throw new Error(t("users.fetchSecurityFailed"));
+      const data = await res.json();
+      setRequireTwoFactor(data.requireTwoFactor);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("users.fetchSettingsFailed"));
+    }
+  };
+
+  const onToggleRequireTwoFactor = async (
+    role: keyof TwoFactorRequirements,
+    required: boolean
+  ) => {
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/security", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requireTwoFactor: { [role]: required } }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          typeof data.error === "string"
+            ? data.error
+            : t("users.updateSecurityFailed")
+        );
+      }
+      setRequireTwoFactor(data.requireTwoFactor);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("users.updateSettingsFailed"));
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       const res = await fetch("/api/admin/users");
-      if (!res.ok) throw new Error("Failed to fetch users");
+      if (!res.ok) throw new Error(t("users.fetchFailed"));
       const data = await res.json();
       setUsers(data);
     } catch (e: any) {
@@ -84,6 +139,7 @@ export default function UsersPage() {
       name: "",
       password: "",
       role: "CLIENT",
+      locale,
     });
     setPasswordEdited(false);
   };
@@ -113,7 +169,7 @@ export default function UsersPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to create user");
+        throw new Error(data.error || t("errors.createUserFailed"));
       }
 
       await fetchUsers();
@@ -152,7 +208,7 @@ export default function UsersPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to update user");
+        throw new Error(data.error || t("users.updateFailed"));
       }
 
       await fetchUsers();
@@ -172,7 +228,7 @@ export default function UsersPage() {
   const onDelete = async (userId: string) => {
     if (
       !confirm(
-        "Are you sure you want to delete this user? This action cannot be undone."
+        t("users.confirmDelete")
       )
     ) {
       return;
@@ -188,7 +244,7 @@ export default function UsersPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to delete user");
+        throw new Error(data.error || t("users.deleteFailed"));
       }
 
       await fetchUsers();
@@ -220,7 +276,7 @@ export default function UsersPage() {
     if (!changingPasswordUserId) return;
 
     if (passwordData.password !== passwordData.confirmPassword) {
-      setError("Passwords do not match");
+      setError(t("validation.passwordsMismatch"));
       return;
     }
 
@@ -239,12 +295,12 @@ export default function UsersPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to change password");
+        throw new Error(data.error || t("users.changePasswordFailed"));
       }
 
       setChangingPasswordUserId(null);
       setPasswordData({ password: "", confirmPassword: "" });
-      alert("Password changed successfully");
+      alert(t("users.passwordChanged"));
     } catch (e: any) {
       setError(e.message);
     } finally {
@@ -255,7 +311,7 @@ export default function UsersPage() {
   const onSendCredentials = async (user: User) => {
     if (
       !confirm(
-        `Send login credentials to ${user.email}? This will reset their password.`
+        t("users.confirmSendCredentials", { email: user.email })
       )
     ) {
       return;
@@ -270,10 +326,10 @@ export default function UsersPage() {
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
         throw new Error(
-          data.error || "Failed to send credentials to the user."
+          data.error || t("users.sendCredentialsFailed")
         );
       }
-      alert("Credentials sent successfully.");
+      alert(t("users.credentialsSent"));
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -281,10 +337,55 @@ export default function UsersPage() {
     }
   };
 
+  const onResetTwoFactor = async (user: User) => {
+    if (
+      !confirm(
+        t("users.confirmResetTwoFactor", { email: user.email })
+      )
+    ) {
+      return;
+    }
+    setResettingTwoFactorUserId(user.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/two-factor`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("users.resetTwoFactorFailed"));
+      }
+      await fetchUsers();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("users.resetTwoFactorFailed"));
+    } finally {
+      setResettingTwoFactorUserId(null);
+    }
+  };
+
+  const onUnlock = async (user: User) => {
+    setUnlockingUserId(user.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/lockout`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("users.unlockFailed"));
+      }
+      await fetchUsers();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("users.unlockFailed"));
+    } finally {
+      setUnlockingUserId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-6">
-        <p>Loading...</p>
+        <p>{t("common.loading")}</p>
       </div>
     );
   }
@@ -294,7 +395,7 @@ export default function UsersPage() {
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <div className="flex items-center gap-4">
-            <Link href="/admin" className="btn-icon" title="Back">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -307,14 +408,14 @@ export default function UsersPage() {
               </svg>
             </Link>
             <h1 className="text-2xl font-normal text-[#202124]">
-              Manage Users
+              {t("admin.manageUsers")}
             </h1>
           </div>
           <button
             onClick={toggleForm}
             className={showForm ? "btn-secondary" : "btn-primary"}
           >
-            {showForm ? "Cancel" : "Create User"}
+            {showForm ? t("common.cancel") : t("users.create")}
           </button>
         </div>
       </div>
@@ -322,11 +423,11 @@ export default function UsersPage() {
         {showForm && (
           <form onSubmit={onSubmit} className="card space-y-4">
             <h2 className="text-xl font-normal text-[#202124]">
-              Create New User
+              {t("users.createTitle")}
             </h2>
             <div>
               <label className="block text-sm font-medium text-[#202124] mb-2">
-                Email
+                {t("common.email")}
               </label>
               <input
                 type="email"
@@ -340,7 +441,7 @@ export default function UsersPage() {
             </div>
             <div>
               <label className="block text-sm font-medium text-[#202124] mb-2">
-                Name (optional)
+                {t("users.nameOptional")}
               </label>
               <input
                 type="text"
@@ -353,7 +454,7 @@ export default function UsersPage() {
             </div>
             <div>
               <label className="block text-sm font-medium text-[#202124] mb-2">
-                Password
+                {t("common.password")}
               </label>
               <div className="flex gap-2">
                 <input
@@ -372,17 +473,16 @@ export default function UsersPage() {
                   onClick={handleGeneratePassword}
                   className="btn-secondary whitespace-nowrap"
                 >
-                  Generate
+                  {t("users.generate")}
                 </button>
               </div>
               <p className="text-xs text-[#5f6368] mt-1">
-                Auto-generates from the email/name. Edit if you want a custom
-                password.
+                {t("users.passwordHint")}
               </p>
             </div>
             <div>
               <label className="block text-sm font-medium text-[#202124] mb-2">
-                Role
+                {t("users.role")}
               </label>
               <select
                 value={formData.role}
@@ -394,18 +494,39 @@ export default function UsersPage() {
                 }
                 className="input"
               >
-                <option value="CLIENT">Client</option>
-                <option value="STAFF">Staff</option>
-                <option value="ADMIN">Admin</option>
+                <option value="CLIENT">{t("common.role.CLIENT")}</option>
+                <option value="STAFF">{t("common.role.STAFF")}</option>
+                <option value="ADMIN">{t("common.role.ADMIN")}</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-[#202124] mb-2">
+                {t("users.language")}
+              </label>
+              <select
+                value={formData.locale}
+                onChange={(e) =>
+                  setFormData({ ...formData, locale: e.target.value as Locale })
+                }
+                className="input"
+              >
+                {LOCALES.map((option) => (
+                  <option key={option} value={option}>
+                    {LOCALE_NAMES[option]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-[#5f6368] mt-1">
+                {t("users.languageHint")}
+              </p>
+            </div>
             {error && <p className="text-red-600 text-sm">{error}</p>}
             <button
               type="submit"
               disabled={submitting}
               className="btn-primary disabled:opacity-50"
             >
-              {submitting ? "Creating..." : "Create User"}
+              {submitting ? t("newProject.creating") : t("users.create")}
             </button>
           </form>
         )}
@@ -416,28 +537,62 @@ export default function UsersPage() {
           </div>
         )}
 
+        {requireTwoFactor && (
+          <div className="card space-y-3">
+            <div>
+              <h2 className="text-lg font-medium text-[#202124]">
+                {t("users.securityTitle")}
+              </h2>
+              <p className="text-xs text-[#5f6368]">
+                {t("users.securityIntro")}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              {(["ADMIN", "STAFF"] as const).map((role) => (
+                <label
+                  key={role}
+                  className="flex items-center gap-2 text-sm text-[#202124]"
+                >
+                  <input
+                    type="checkbox"
+                    checked={requireTwoFactor[role]}
+                    onChange={(e) =>
+                      onToggleRequireTwoFactor(role, e.target.checked)
+                    }
+                  />
+                  {t(
+                    role === "ADMIN"
+                      ? "users.requireForAdmins"
+                      : "users.requireForStaff"
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="bg-white border border-[#dadce0] rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-[#f8f9fa] border-b border-[#dadce0]">
                 <tr>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Email
+                    {t("common.email")}
                   </th>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Name
+                    {t("common.name")}
                   </th>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Role
+                    {t("users.role")}
                   </th>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Created By
+                    {t("users.createdBy")}
                   </th>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Created
+                    {t("users.created")}
                   </th>
                   <th className="text-left p-3 text-sm font-medium text-[#202124]">
-                    Actions
+                    {t("common.actions")}
                   </th>
                 </tr>
               </thead>
@@ -452,12 +607,12 @@ export default function UsersPage() {
                             className="card space-y-3"
                           >
                             <h3 className="font-medium text-[#202124]">
-                              Edit User
+                              {t("users.editTitle")}
                             </h3>
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                               <div>
                                 <label className="block text-xs text-[#5f6368] mb-1">
-                                  Email
+                                  {t("common.email")}
                                 </label>
                                 <input
                                   type="email"
@@ -474,7 +629,7 @@ export default function UsersPage() {
                               </div>
                               <div>
                                 <label className="block text-xs text-[#5f6368] mb-1">
-                                  Name
+                                  {t("common.name")}
                                 </label>
                                 <input
                                   type="text"
@@ -490,7 +645,7 @@ export default function UsersPage() {
                               </div>
                               <div>
                                 <label className="block text-xs text-[#5f6368] mb-1">
-                                  Role
+                                  {t("users.role")}
                                 </label>
                                 <select
                                   value={editFormData.role}
@@ -505,9 +660,9 @@ export default function UsersPage() {
                                   }
                                   className="input text-sm"
                                 >
-                                  <option value="CLIENT">Client</option>
-                                  <option value="STAFF">Staff</option>
-                                  <option value="ADMIN">Admin</option>
+                                  <option value="CLIENT">{t("common.role.CLIENT")}</option>
+                                  <option value="STAFF">{t("common.role.STAFF")}</option>
+                                  <option value="ADMIN">{t("common.role.ADMIN")}</option>
                                 </select>
                               </div>
                             </div>
@@ -520,7 +675,7 @@ export default function UsersPage() {
                                 disabled={submitting}
                                 className="btn-primary text-sm disabled:opacity-50"
                               >
-                                {submitting ? "Saving..." : "Save"}
+                                {submitting ? t("common.saving") : t("common.save")}
                               </button>
                               <button
                                 type="button"
@@ -530,7 +685,7 @@ export default function UsersPage() {
                                 }}
                                 className="btn-secondary text-sm"
                               >
-                                Cancel
+                                {t("common.cancel")}
                               </button>
                             </div>
                           </form>
@@ -544,12 +699,12 @@ export default function UsersPage() {
                             className="card space-y-3"
                           >
                             <h3 className="font-medium text-[#202124]">
-                              Change Password
+                              {t("users.changePassword")}
                             </h3>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                               <div>
                                 <label className="block text-xs text-[#5f6368] mb-1">
-                                  New Password
+                                  {t("users.newPassword")}
                                 </label>
                                 <div className="flex gap-2">
                                   <input
@@ -570,13 +725,13 @@ export default function UsersPage() {
                                     onClick={handleChangePasswordGenerate}
                                     className="btn-secondary text-xs whitespace-nowrap"
                                   >
-                                    Generate
+                                    {t("users.generate")}
                                   </button>
                                 </div>
                               </div>
                               <div>
                                 <label className="block text-xs text-[#5f6368] mb-1">
-                                  Confirm Password
+                                  {t("users.confirmPassword")}
                                 </label>
                                 <input
                                   type="password"
@@ -602,7 +757,7 @@ export default function UsersPage() {
                                 disabled={submitting}
                                 className="btn-primary text-sm disabled:opacity-50"
                               >
-                                {submitting ? "Changing..." : "Change Password"}
+                                {submitting ? t("users.changing") : t("users.changePassword")}
                               </button>
                               <button
                                 type="button"
@@ -612,7 +767,7 @@ export default function UsersPage() {
                                 }}
                                 className="btn-secondary text-sm"
                               >
-                                Cancel
+                                {t("common.cancel")}
                               </button>
                             </div>
                           </form>
@@ -636,8 +791,39 @@ export default function UsersPage() {
                                 : "bg-gray-100 text-gray-800"
                             }`}
                           >
-                            {user.role}
+                            {t(`common.role.${user.role}`)}
                           </span>
+                          {user.twoFactorEnabledAt && (
+                            <span
+                              className="ml-2 px-2 py-1 rounded text-xs bg-green-100 text-green-800"
+                              title={t("users.twoFactorEnabled")}
+                            >
+                              2FA
+                            </span>
+                          )}
+                          {isLocked(user) ? (
+                            <span
+                              className="ml-2 px-2 py-1 rounded text-xs bg-red-100 text-red-800"
+                              title={t("users.lockedUntil", {
+                                date: new Date(
+                                  user.lockedUntil ?? ""
+                                ).toLocaleString(),
+                              })}
+                            >
+                              {t("users.locked")}
+                            </span>
+                          ) : (
+                            !!user.failedLoginCount && (
+                              <span
+                                className="ml-2 text-xs text-[#5f6368]"
+                                title={t("users.recentFailures")}
+                              >
+                                {t("users.failedCount", {
+                                  count: user.failedLoginCount,
+                                })}
+                              </span>
+                            )
+                          )}
                         </td>
                         <td className="p-3 text-sm text-[#5f6368]">
                           {user.createdBy?.email || "-"}
@@ -650,16 +836,16 @@ export default function UsersPage() {
                             <button
                               onClick={() => onEdit(user)}
                               className="px-2 py-1 text-xs btn-secondary"
-                              title="Edit user"
+                              title={t("users.editUser")}
                             >
-                              Edit
+                              {t("common.edit")}
                             </button>
                             <button
                               onClick={() => onChangePassword(user.id)}
                               className="px-2 py-1 text-xs bg-yellow-50 text-yellow-700 border border-yellow-200 rounded hover:bg-yellow-100"
-                              title="Change password"
+                              title={t("users.changePasswordTitle")}
                             >
-                              Password
+                              {t("common.password")}
                             </button>
                             <button
                               onClick={() => onSendCredentials(user)}
@@ -670,21 +856,52 @@ export default function UsersPage() {
                                 color: "#ffffff",
                                 opacity: emailingUserId === user.id ? 0.6 : 1,
                               }}
-                              title="Email credentials"
+                              title={t("users.emailCredentialsTitle")}
                             >
                               {emailingUserId === user.id
-                                ? "Emailing..."
-                                : "Email Credentials"}
+                                ? t("users.emailing")
+                                : t("users.emailCredentials")}
                             </button>
+                            <Link
+                              href={`/admin/emails?userId=${user.id}`}
+                              className="px-2 py-1 text-xs btn-secondary no-underline"
+                              title={t("users.emailsTitle")}
+                            >
+                              {t("admin.emails")}
+                            </Link>
+                            {isLocked(user) && (
+                              <button
+                                onClick={() => onUnlock(user)}
+                                disabled={unlockingUserId === user.id}
+                                className="px-2 py-1 text-xs bg-red-50 text-red-700 border border-red-200 rounded hover:bg-red-100 disabled:opacity-50"
+                                title={t("users.unlockTitle")}
+                              >
+                                {unlockingUserId === user.id
+                                  ? t("users.unlocking")
+                                  : t("users.unlock")}
+                              </button>
+                            )}
+                            {user.twoFactorEnabledAt && (
+                              <button
+                                onClick={() => onResetTwoFactor(user)}
+                                disabled={resettingTwoFactorUserId === user.id}
+                                className="px-2 py-1 text-xs btn-secondary disabled:opacity-50"
+                                title={t("users.resetTwoFactorTitle")}
+                              >
+                                {resettingTwoFactorUserId === user.id
+                                  ? t("users.resetting")
+                                  : t("users.resetTwoFactor")}
+                              </button>
+                            )}
                             <button
                               onClick={() => onDelete(user.id)}
                               disabled={deletingUserId === user.id}
                               className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
-                              title="Delete user"
+                              title={t("users.deleteTitle")}
                             >
                               {deletingUserId === user.id
-                                ? "Deleting..."
-                                : "Delete"}
+                                ? t("drive.deleting")
+                                : t("common.delete")}
                             </button>
                           </div>
                         </td>
@@ -0,0 +1,404 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import WebhookDeliveryLog, {
+  DELIVERY_STATUS_STYLES,
+  type WebhookDeliveryStatus,
+} from "@/app/components/webhooks/WebhookDeliveryLog";
+import WebhookEndpointForm, {
+  type WebhookEndpointValues,
+} from "@/app/components/webhooks/WebhookEndpointForm";
+import type { WebhookEvent } from "@/app/lib/webhook-events";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type WebhookEndpoint = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  createdBy: { id: string; email: string; name: string | null } | null;
+  lastDelivery: {
+    id: string;
+    event: string;
+    status: WebhookDeliveryStatus;
+    responseStatus: number | null;
+    createdAt: string;
+  } | null;
+};
+
+const errorMessage = (data: unknown, fallback: string) => {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  if (Array.isArray(error) && typeof error[0]?.message === "string") {
+    return error[0].message as string;
+  }
+  return fallback;
+};
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(errorMessage(data, ""));
+  return data;
+}
+
+export default function WebhooksPage() {
+  const { t } = useTranslation();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const [logRefresh, setLogRefresh] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // A new secret is only shown once, right after it was set
+  const [revealed, setRevealed] = useState<{
+    endpointId: string;
+    secret: string;
+  } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEndpoints = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/webhooks", { cache: "no-store" });
+      if (!res.ok) throw new Error(t("webhooks.loadFailed"));
+      const data = await res.json();
+      setEndpoints(data.endpoints);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("webhooks.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      await fetchEndpoints();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error && e.message
+          ? e.message
+          : t("errors.saveWebhookFailed")
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const create = async (values: WebhookEndpointValues) => {
+    const endpoint = await sendJson("/api/admin/webhooks", "POST", values);
+    setRevealed({ endpointId: endpoint.id, secret: endpoint.secret });
+    setCreating(false);
+    await fetchEndpoints();
+  };
+
+  const update = async (id: string, values: WebhookEndpointValues) => {
+    await sendJson(`/api/admin/webhooks/${id}`, "PATCH", values);
+    setEditingId(null);
+    await fetchEndpoints();
+  };
+
+  const setActive = (endpoint: WebhookEndpoint, active: boolean) =>
+    run(endpoint.id, async () => {
+      await sendJson(`/api/admin/webhooks/${endpoint.id}`, "PATCH", {
+        active,
+      });
+    });
+
+  const rotateSecret = (endpoint: WebhookEndpoint) => {
+    if (!confirm(t("webhooks.confirmRotate", { url: endpoint.url }))) return;
+    run(endpoint.id, async () => {
+      const data = await sendJson(
+        `/api/admin/webhooks/${endpoint.id}`,
+        "PATCH",
+        { rotateSecret: true }
+      );
+      setRevealed({ endpointId: endpoint.id, secret: data.secret });
+    });
+  };
+
+  const remove = (endpoint: WebhookEndpoint) => {
+    if (!confirm(t("webhooks.confirmDelete", { url: endpoint.url }))) return;
+    run(endpoint.id, async () => {
+      await sendJson(`/api/admin/webhooks/${endpoint.id}`, "DELETE");
+      if (logId === endpoint.id) setLogId(null);
+    });
+  };
+
+  const sendTest = (endpoint: WebhookEndpoint) =>
+    run(endpoint.id, async () => {
+      const delivery = await sendJson(
+        `/api/admin/webhooks/${endpoint.id}/test`,
+        "POST"
+      );
+      setNotice(
+        delivery.status === "SUCCEEDED"
+          ? t("webhooks.testSucceeded", { status: delivery.responseStatus })
+          : t("webhooks.testFailed", {
+              error: delivery.error || t("webhooks.noResponse"),
+            })
+      );
+      setLogId(endpoint.id);
+      setLogRefresh((key) => key + 1);
+    });
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href="/admin" className="btn-icon" title={t("common.back")}>
+              <svg
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("webhooks.title")}
+            </h1>
+          </div>
+          {!creating && (
+            <button
+              type="button"
+              onClick={() => setCreating(true)}
+              className="btn-primary"
+            >
+              {t("webhooks.add")}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[1800px] mx-auto space-y-6">
+        <p className="text-sm text-[#5f6368] max-w-3xl">
+          {t("webhooks.intro")}
+        </p>
+
+        {error && (
+          <div className="card bg-red-50 border-red-200">
+            <p className="text-red-600 text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg px-4 py-3">
+            {notice}
+          </div>
+        )}
+
+        {revealed && (
+          <div className="card border-[#fbbc04] bg-[#fef7e0] space-y-2">
+            <p className="text-sm font-medium text-[#202124]">
+              {t("webhooks.secretOnce")}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <code className="rounded bg-white px-3 py-2 font-mono text-sm text-[#202124] break-all">
+                {revealed.secret}
+              </code>
+              <button
+                type="button"
+                onClick={() =>
+                  void navigator.clipboard?.writeText(revealed.secret)
+                }
+                className="btn-secondary"
+              >
+                {t("common.copy")}
+              </button>
+              <button
+                type="button"
+                onClick={() => setRevealed(null)}
+                className="btn-secondary"
+              >
+                {t("webhooks.secretSaved")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {creating && (
+          <div className="card space-y-4">
+            <h2 className="text-lg font-medium text-[#202124]">
+              {t("webhooks.add")}
+            </h2>
+            <WebhookEndpointForm
+              allowSecret
+              submitLabel={t("webhooks.create")}
+              onSubmit={create}
+              onCancel={() => setCreating(false)}
+            />
+          </div>
+        )}
+
+        {!loading && endpoints.length === 0 && !creating && (
+          <div className="card text-center text-sm text-[#5f6368]">
+            {t("webhooks.empty")}
+          </div>
+        )}
+
+        {endpoints.map((endpoint) => (
+          <div key={endpoint.id} className="card space-y-4">
+            {editingId === endpoint.id ? (
+              <WebhookEndpointForm
+                initial={{
+                  url: endpoint.url,
+                  description: endpoint.description ?? "",
+                  events: endpoint.events,
+                }}
+                submitLabel={t("common.save")}
+                onSubmit={(values) => update(endpoint.id, values)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-sm text-[#202124] break-all">
+                      {endpoint.url}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        endpoint.active
+                          ? "bg-[#e6f4ea] text-[#137333]"
+                          : "bg-[#f1f3f4] text-[#5f6368]"
+                      }`}
+                    >
+                      {endpoint.active
+                        ? t("webhooks.active")
+                        : t("webhooks.paused")}
+                    </span>
+                  </div>
+                  {endpoint.description && (
+                    <p className="text-sm text-[#5f6368]">
+                      {endpoint.description}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map((event) => (
+                      <code
+                        key={event}
+                        className="px-2 py-0.5 rounded bg-[#f1f3f4] text-xs text-[#202124]"
+                      >
+                        {event}
+                      </code>
+                    ))}
+                  </div>
+                  <p className="text-xs text-[#80868b]">
+                    {endpoint.lastDelivery ? (
+                      <>
+                        {t("webhooks.lastDelivery", {
+                          date: new Date(
+                            endpoint.lastDelivery.createdAt
+                          ).toLocaleString(),
+                        })}{" "}
+                        <span
+                          className={`rounded-full px-2 py-0.5 font-medium ${
+                            DELIVERY_STATUS_STYLES[endpoint.lastDelivery.status]
+                          }`}
+                        >
+                          {t(`webhooks.status.${endpoint.lastDelivery.status}`)}
+                        </span>
+                      </>
+                    ) : (
+                      t("webhooks.neverDelivered")
+                    )}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => sendTest(endpoint)}
+                    disabled={busyId === endpoint.id}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    {t("webhooks.sendTest")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setLogId((id) =>
+                        id === endpoint.id ? null : endpoint.id
+                      )
+                    }
+                    className="btn-secondary"
+                  >
+                    {logId === endpoint.id
+                      ? t("webhooks.hideLog")
+                      : t("webhooks.showLog")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(endpoint.id)}
+                    className="btn-secondary"
+                  >
+                    {t("common.edit")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setActive(endpoint, !endpoint.active)}
+                    disabled={busyId === endpoint.id}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    {endpoint.active
+                      ? t("webhooks.pause")
+                      : t("webhooks.resume")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => rotateSecret(endpoint)}
+                    disabled={busyId === endpoint.id}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    {t("webhooks.rotateSecret")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(endpoint)}
+                    disabled={busyId === endpoint.id}
+                    className="btn-secondary text-[#d93025] disabled:opacity-50"
+                  >
+                    {t("common.delete")}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {logId === endpoint.id && (
+              <WebhookDeliveryLog
+                endpointId={endpoint.id}
+                refreshKey={logRefresh}
+              />
+            )}
+          </div>
+        ))}
+
+        {loading && (
+          <p className="text-center text-sm text-[#5f6368]">
+            {t("common.loading")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { auditEventWhere, auditFiltersFromSearchParams } from "@/app/lib/audit";
+import { NextResponse } from "next/server";
+
+const PAGE_SIZE = 50;
+
+// GET - Audit events, newest first. Filters: ?actorId=&projectId=&action=
+// &from=YYYY-MM-DD&to=YYYY-MM-DD; pass the returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session || !can(session.user, "audit:view")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const where = auditEventWhere(auditFiltersFromSearchParams(searchParams));
+  const cursor = searchParams.get("cursor");
+
+  const [events, actions] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: PAGE_SIZE + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    prisma.auditEvent.findMany({
+      distinct: ["action"],
+      select: { action: true },
+      orderBy: { action: "asc" },
+    }),
+  ]);
+
+  const page = events.slice(0, PAGE_SIZE);
+  return NextResponse.json({
+    events: page,
+    nextCursor: events.length > PAGE_SIZE ? page[page.length - 1].id : null,
+    actions: actions.map((entry) => entry.action),
+  });
+}
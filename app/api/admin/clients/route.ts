@@ -1,5 +1,6 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { NextResponse } from "next/server";
 
 export async function GET() {
@@ -7,11 +8,7 @@ export async function GET() {
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   // Allow ADMIN and STAFF to fetch clients
-  const sessionUser = session.user;
-  if (
-    !sessionUser ||
-    (sessionUser.role !== "ADMIN" && sessionUser.role !== "STAFF")
-  ) {
+  if (!can(session.user, "client:list")) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -0,0 +1,62 @@
+import { auth } from "@/app/lib/auth";
+import { can } from "@/app/lib/policy";
+import { renderTemplatedEmail } from "@/app/lib/email";
+import {
+  emailTemplateErrors,
+  isEmailTemplateKey,
+  sampleEmailVariables,
+} from "@/app/lib/email-templates";
+import { LOCALES } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const previewSchema = z.object({
+  locale: z.enum(LOCALES),
+  subject: z.string(),
+  html: z.string(),
+});
+
+// POST - Render unsaved template text with sample data
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ key: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "emailTemplates:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { key } = await ctx.params;
+  if (!isEmailTemplateKey(key)) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const t = await getTranslator();
+
+  try {
+    const { locale, ...source } = previewSchema.parse(await req.json());
+    const email = await renderTemplatedEmail(
+      key,
+      sampleEmailVariables(key, locale),
+      locale,
+      source
+    );
+    return NextResponse.json({
+      ...email,
+      errors: emailTemplateErrors(key, source.subject + source.html, t),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Error rendering email preview:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message || t("emailTemplates.error.previewFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
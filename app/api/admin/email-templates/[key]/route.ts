@@ -0,0 +1,124 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  emailTemplateErrors,
+  isEmailTemplateKey,
+} from "@/app/lib/email-templates";
+import { LOCALES, localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const templateSchema = z.object({
+  locale: z.enum(LOCALES),
+  subject: z
+    .string()
+    .trim()
+    .min(1, "emailTemplates.validation.subjectRequired")
+    .max(300),
+  html: z
+    .string()
+    .trim()
+    .min(1, "emailTemplates.validation.bodyRequired")
+    .max(100_000),
+});
+
+const localeSchema = z.enum(LOCALES);
+
+// PUT - Save an edited template for one language
+export async function PUT(
+  req: Request,
+  ctx: { params: Promise<{ key: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "emailTemplates:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { key } = await ctx.params;
+  if (!isEmailTemplateKey(key)) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const t = await getTranslator();
+
+  try {
+    const { locale, ...body } = templateSchema.parse(await req.json());
+    const errors = emailTemplateErrors(key, body.subject + body.html, t);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(". ") }, { status: 400 });
+    }
+
+    const where = { key_locale: { key, locale } };
+    const before = await prisma.emailTemplate.findUnique({ where });
+    const template = await prisma.emailTemplate.upsert({
+      where,
+      create: { key, locale, ...body, updatedById: session.user.id },
+      update: { ...body, updatedById: session.user.id },
+    });
+
+    await recordAuditEvent(req, session.user, {
+      action: "email_template.update",
+      targetType: "email_template",
+      targetId: key,
+      before: before ? { locale, subject: before.subject } : null,
+      after: { locale, subject: template.subject },
+    });
+
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error saving email template:", error);
+    return NextResponse.json(
+      {
+        error: (error as Error).message || t("emailTemplates.error.saveFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Drop the edited version for one language (?locale=) so the
+// built-in default is used again
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ key: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "emailTemplates:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { key } = await ctx.params;
+  if (!isEmailTemplateKey(key)) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const locale = localeSchema.safeParse(
+    new URL(req.url).searchParams.get("locale")
+  );
+  if (!locale.success) {
+    return NextResponse.json({ error: locale.error.issues }, { status: 400 });
+  }
+
+  const { count } = await prisma.emailTemplate.deleteMany({
+    where: { key, locale: locale.data },
+  });
+  if (count > 0) {
+    await recordAuditEvent(req, session.user, {
+      action: "email_template.reset",
+      targetType: "email_template",
+      targetId: key,
+      before: { locale: locale.data },
+    });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,62 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import {
+  EMAIL_TEMPLATES,
+  emailTemplateVariables,
+  isEmailTemplateKey,
+  sampleEmailVariables,
+} from "@/app/lib/email-templates";
+import { isLocale } from "@/app/lib/i18n";
+import { getLocale, getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - Every editable template in one language (?locale=, the admin's own by
+// default) with its variables, current version and the built-in default it
+// falls back to
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session || !can(session.user, "emailTemplates:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const requested = new URL(req.url).searchParams.get("locale");
+  const locale = isLocale(requested) ? requested : await getLocale();
+  const t = await getTranslator();
+
+  const stored = await prisma.emailTemplate.findMany({
+    where: { locale },
+    include: { updatedBy: { select: { id: true, email: true, name: true } } },
+  });
+
+  const templates = Object.keys(EMAIL_TEMPLATES)
+    .filter(isEmailTemplateKey)
+    .map((key) => {
+      const definition = EMAIL_TEMPLATES[key];
+      const defaults = definition.defaults[locale];
+      const samples: Record<string, string | null | undefined> =
+        sampleEmailVariables(key, locale);
+      const override = stored.find((template) => template.key === key);
+      return {
+        key,
+        label: t(definition.label),
+        description: t(definition.description),
+        variables: Object.entries(emailTemplateVariables(key)).map(
+          ([name, spec]) => ({
+            name,
+            ...spec,
+            label: t(spec.label),
+            sample: samples[name] ?? spec.sample,
+          })
+        ),
+        subject: override?.subject ?? defaults.subject,
+        html: override?.html ?? defaults.html,
+        defaults,
+        customized: Boolean(override),
+        updatedAt: override?.updatedAt ?? null,
+        updatedBy: override?.updatedBy ?? null,
+      };
+    });
+
+  return NextResponse.json({ locale, templates });
+}
@@ -0,0 +1,48 @@
+import { auth } from "@/app/lib/auth";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { resendEmail } from "@/app/lib/email";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// POST - Queue a fresh copy of an outbox email
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !can(session.user, "emails:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  try {
+    const message = await resendEmail(id);
+    if (!message) {
+      return new NextResponse("Not Found", { status: 404 });
+    }
+    if (message === "redacted") {
+      return NextResponse.json(
+        { error: t("errors.emailNotResendable") },
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent(req, session.user, {
+      action: "email.resend",
+      targetType: "email",
+      targetId: message.id,
+      projectId: message.projectId,
+      after: { resentFromId: id, to: message.to, subject: message.subject },
+    });
+
+    return NextResponse.json({ id: message.id, status: message.status });
+  } catch (error) {
+    console.error("Error resending email:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.resendEmailFailed") },
+      { status: 500 }
+    );
+  }
+}
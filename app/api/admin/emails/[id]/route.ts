@@ -0,0 +1,26 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { NextResponse } from "next/server";
+
+// GET - One outbox email including its rendered body
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "emails:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const message = await prisma.emailMessage.findUnique({
+    where: { id },
+    include: { events: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!message) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  return NextResponse.json(message);
+}
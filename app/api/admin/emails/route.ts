@@ -0,0 +1,50 @@
+import { EmailStatus, type Prisma } from "@prisma/client";
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { NextResponse } from "next/server";
+
+const PAGE_SIZE = 50;
+
+// GET - Outbox emails, newest first, with their status history. Filters:
+// ?projectId=&userId=&status=; pass the returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session || !can(session.user, "emails:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const projectId = searchParams.get("projectId");
+  const userId = searchParams.get("userId");
+  const status = searchParams.get("status");
+  const cursor = searchParams.get("cursor");
+
+  const where: Prisma.EmailMessageWhereInput = {
+    ...(projectId ? { projectId } : {}),
+    ...(userId ? { userId } : {}),
+    ...(status && status in EmailStatus
+      ? { status: status as EmailStatus }
+      : {}),
+  };
+
+  const messages = await prisma.emailMessage.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    // Bodies are fetched one at a time from /api/admin/emails/[id]
+    omit: { html: true, text: true },
+    include: {
+      project: { select: { id: true, title: true } },
+      user: { select: { id: true, email: true, name: true } },
+      events: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  const page = messages.slice(0, PAGE_SIZE);
+  return NextResponse.json({
+    messages: page,
+    nextCursor: messages.length > PAGE_SIZE ? page[page.length - 1].id : null,
+  });
+}
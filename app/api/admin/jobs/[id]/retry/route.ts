@@ -0,0 +1,46 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { retryJob } from "@/app/lib/jobs";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// POST - Run a dead (or still waiting) job again straight away
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !can(session.user, "jobs:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const existing = await prisma.job.findUnique({
+    where: { id },
+    select: { id: true, type: true, status: true, attempts: true },
+  });
+  if (!existing) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const job = await retryJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: t("errors.jobNotRetryable") },
+      { status: 400 }
+    );
+  }
+
+  await recordAuditEvent(req, session.user, {
+    action: "job.retry",
+    targetType: "job",
+    targetId: job.id,
+    before: { status: existing.status, attempts: existing.attempts },
+    after: { status: job.status, attempts: job.attempts },
+  });
+
+  return NextResponse.json({ id: job.id, status: job.status });
+}
@@ -0,0 +1,54 @@
+import { JobStatus } from "@prisma/client";
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { describeJob } from "@/app/lib/jobs";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+const PAGE_SIZE = 50;
+
+const isJobStatus = (value: string | null): value is JobStatus =>
+  value !== null && value in JobStatus;
+
+// GET - Background jobs, next to run first. ?status=QUEUED|RUNNING|DEAD|
+// SUCCEEDED narrows the list (default: everything not yet succeeded); pass
+// the returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session || !can(session.user, "jobs:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+  const cursor = searchParams.get("cursor");
+
+  const [jobs, counts] = await Promise.all([
+    prisma.job.findMany({
+      where: isJobStatus(status)
+        ? { status }
+        : { status: { not: JobStatus.SUCCEEDED } },
+      orderBy: [{ runAt: "asc" }, { id: "asc" }],
+      take: PAGE_SIZE + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    prisma.job.groupBy({ by: ["status"], _count: { _all: true } }),
+  ]);
+
+  const t = await getTranslator();
+  const page = jobs.slice(0, PAGE_SIZE);
+  return NextResponse.json({
+    jobs: page.map(({ payload, ...job }) => ({
+      ...job,
+      summary: describeJob({ type: job.type, payload }, t),
+    })),
+    nextCursor: jobs.length > PAGE_SIZE ? page[page.length - 1].id : null,
+    counts: Object.fromEntries(
+      Object.values(JobStatus).map((value) => [
+        value,
+        counts.find((entry) => entry.status === value)?._count._all ?? 0,
+      ])
+    ),
+  });
+}
@@ -0,0 +1,70 @@
+import { auth } from "@/app/lib/auth";
+import { can } from "@/app/lib/policy";
+import { auditChanges, recordAuditEvent } from "@/app/lib/audit";
+import {
+  getTwoFactorRequirements,
+  setTwoFactorRequirement,
+} from "@/app/lib/two-factor";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateSchema = z.object({
+  requireTwoFactor: z.object({
+    ADMIN: z.boolean().optional(),
+    STAFF: z.boolean().optional(),
+  }),
+});
+
+// GET - Per-role sign-in requirements
+export async function GET() {
+  const session = await auth();
+  if (!session || !can(session.user, "security:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  return NextResponse.json({
+    requireTwoFactor: await getTwoFactorRequirements(),
+  });
+}
+
+// PUT - Require (or stop requiring) two-factor for a role
+export async function PUT(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !can(session.user, "security:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { requireTwoFactor } = updateSchema.parse(await req.json());
+    const before = await getTwoFactorRequirements();
+
+    for (const role of ["ADMIN", "STAFF"] as const) {
+      const required = requireTwoFactor[role];
+      if (required !== undefined) {
+        await setTwoFactorRequirement(role, required);
+      }
+    }
+
+    const after = await getTwoFactorRequirements();
+    await recordAuditEvent(req, session.user, {
+      action: "security.update",
+      targetType: "security",
+      ...auditChanges(
+        { requireTwoFactor: before },
+        { requireTwoFactor: after }
+      ),
+    });
+
+    return NextResponse.json({ requireTwoFactor: after });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.updateSettingsFailed") },
+      { status: 500 }
+    );
+  }
+}
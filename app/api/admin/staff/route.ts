@@ -1,12 +1,12 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { NextResponse } from "next/server";
 
 // GET - List all staff (admin only)
 export async function GET() {
   const session = await auth();
-  const sessionUser = session?.user;
-  if (!sessionUser || sessionUser.role !== "ADMIN")
+  if (!can(session?.user, "staff:list"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   const staff = await prisma.user.findMany({
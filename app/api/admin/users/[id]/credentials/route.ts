@@ -1,7 +1,11 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { sendUserCredentialsEmail } from "@/app/lib/email";
 import { generateFriendlyPassword } from "@/app/lib/password";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { z } from "zod";
@@ -9,8 +13,8 @@ import { z } from "zod";
 const resendSchema = z.object({
   password: z
     .string()
-    .min(6, "Password must be at least 6 characters")
-    .max(64, "Password must be 64 characters or fewer")
+    .min(6, "validation.passwordMin")
+    .max(64, "validation.passwordMax")
     .optional(),
 });
 
@@ -19,12 +23,12 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
-  if (!session || session.user.role !== "ADMIN") {
+  const t = await getTranslator();
+  const { id } = await ctx.params;
+  if (!session || !can(session.user, "user:resetCredentials", { id })) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
 
-  const { id } = await ctx.params;
-
   const user = await prisma.user.findUnique({
     where: { id },
     select: {
@@ -49,11 +53,14 @@ export async function POST(
       payload = resendSchema.parse(body);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
-        return NextResponse.json({ error: error.issues }, { status: 400 });
+        return NextResponse.json(
+          { error: localizeIssues(error.issues, t) },
+          { status: 400 }
+        );
       }
       console.error("Failed to parse request body:", error);
       return NextResponse.json(
-        { error: "Invalid request payload." },
+        { error: t("errors.invalidPayload") },
         { status: 400 }
       );
     }
@@ -69,6 +76,12 @@ export async function POST(
     },
   });
 
+  await recordAuditEvent(req, session.user, {
+    action: "user.credentials_reset",
+    targetType: "user",
+    targetId: user.id,
+  });
+
   try {
     await sendUserCredentialsEmail({
       to: user.email,
@@ -76,15 +89,15 @@ export async function POST(
       role: user.role,
       email: user.email,
       password,
+      userId: user.id,
     });
   } catch (error) {
     console.error("Failed to send credentials email:", error);
     return NextResponse.json(
       {
-        error:
-          "Credentials were reset but the email failed to send. Please try again.",
+        error: t("errors.credentialsEmailFailed"),
       },
-      { status: 502 }
+      { status: 500 }
     );
   }
 
@@ -0,0 +1,33 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { clearLoginFailures } from "@/app/lib/login-throttle";
+import { NextResponse } from "next/server";
+
+// DELETE - Unlock an account locked by failed sign-ins and reset its count
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const { id } = await ctx.params;
+  if (!session || !can(session.user, "user:resetCredentials", { id })) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!user) return new NextResponse("Not Found", { status: 404 });
+
+  await clearLoginFailures(user.id);
+  await recordAuditEvent(req, session.user, {
+    action: "user.unlock",
+    targetType: "user",
+    targetId: user.id,
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -1,5 +1,8 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { z } from "zod";
@@ -14,11 +17,12 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  const t = await getTranslator();
+  const { id } = await params;
+  if (!session || !can(session.user, "user:resetCredentials", { id }))
     return new NextResponse("Unauthorized", { status: 401 });
 
   try {
-    const { id } = await params;
     const body = await req.json();
     const parsed = changePasswordSchema.parse(body);
 
@@ -27,7 +31,10 @@ export async function PATCH(
       where: { id },
     });
     if (!existing) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
+      return NextResponse.json(
+        { error: t("errors.userNotFound") },
+        { status: 404 }
+      );
     }
 
     const passwordHash = await hash(parsed.password, 10);
@@ -39,13 +46,19 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "user.password_set",
+      targetType: "user",
+      targetId: id,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to change password" },
+      { error: error.message || t("errors.changePasswordFailed") },
       { status: 500 }
     );
   }
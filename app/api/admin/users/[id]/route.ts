@@ -1,5 +1,8 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { auditChanges, recordAuditEvent } from "@/app/lib/audit";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { z } from "zod";
@@ -20,11 +23,12 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  const t = await getTranslator();
+  const { id } = await params;
+  if (!session || !can(session.user, "user:update", { id }))
     return new NextResponse("Unauthorized", { status: 401 });
 
   try {
-    const { id } = await params;
     const body = await req.json();
     const parsed = updateUserSchema.parse(body);
 
@@ -33,7 +37,10 @@ export async function PATCH(
       where: { id },
     });
     if (!existing) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
+      return NextResponse.json(
+        { error: t("errors.userNotFound") },
+        { status: 404 }
+      );
     }
 
     // If email is being updated, check if new email already exists
@@ -43,7 +50,7 @@ export async function PATCH(
       });
       if (emailExists) {
         return NextResponse.json(
-          { error: "User with this email already exists" },
+          { error: t("errors.emailTaken") },
           { status: 400 }
         );
       }
@@ -68,13 +75,23 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "user.update",
+      targetType: "user",
+      targetId: id,
+      ...auditChanges(
+        { email: existing.email, name: existing.name, role: existing.role },
+        { email: updated.email, name: updated.name, role: updated.role }
+      ),
+    });
+
     return NextResponse.json(updated);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to update user" },
+      { error: error.message || t("errors.updateUserFailed") },
       { status: 500 }
     );
   }
@@ -86,16 +103,17 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  const t = await getTranslator();
+  if (!session || !can(session.user, "user:list"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   try {
     const { id } = await params;
 
     // Prevent deleting yourself
-    if (id === session.user.id) {
+    if (!can(session.user, "user:delete", { id })) {
       return NextResponse.json(
-        { error: "You cannot delete your own account" },
+        { error: t("errors.cannotDeleteSelf") },
         { status: 400 }
       );
     }
@@ -105,17 +123,31 @@ export async function DELETE(
       where: { id },
     });
     if (!existing) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
+      return NextResponse.json(
+        { error: t("errors.userNotFound") },
+        { status: 404 }
+      );
     }
 
     await prisma.user.delete({
       where: { id },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "user.delete",
+      targetType: "user",
+      targetId: id,
+      before: {
+        email: existing.email,
+        name: existing.name,
+        role: existing.role,
+      },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json(
-      { error: error.message || "Failed to delete user" },
+      { error: error.message || t("errors.deleteUserFailed") },
       { status: 500 }
     );
   }
@@ -0,0 +1,34 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { disableTwoFactor } from "@/app/lib/two-factor";
+import { NextResponse } from "next/server";
+
+// DELETE - Reset a user's two-factor (lost device). If their role requires
+// 2FA they are asked to enroll again on next sign-in.
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const { id } = await ctx.params;
+  if (!session || !can(session.user, "user:resetCredentials", { id })) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!user) return new NextResponse("Not Found", { status: 404 });
+
+  await disableTwoFactor(user.id);
+  await recordAuditEvent(req, session.user, {
+    action: "user.two_factor_reset",
+    targetType: "user",
+    targetId: user.id,
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -1,22 +1,28 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { z } from "zod";
 import { sendUserCredentialsEmail } from "@/app/lib/email";
 import { generateFriendlyPassword } from "@/app/lib/password";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { LOCALES } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 
 const createUserSchema = z.object({
   email: z.string().email(),
   name: z.string().optional(),
   password: z.string().min(6).optional(),
   role: z.enum(["ADMIN", "STAFF", "CLIENT"]),
+  // Language for the credentials email and the user's first sign-in
+  locale: z.enum(LOCALES).optional(),
 });
 
 // GET - List all users (admin only)
 export async function GET() {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  if (!session || !can(session.user, "user:list"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   const users = await prisma.user.findMany({
@@ -27,6 +33,9 @@ export async function GET() {
       name: true,
       role: true,
       createdAt: true,
+      twoFactorEnabledAt: true,
+      failedLoginCount: true,
+      lockedUntil: true,
       createdBy: {
         select: { id: true, email: true, name: true },
       },
@@ -38,7 +47,8 @@ export async function GET() {
 // POST - Create new user (admin only)
 export async function POST(req: Request) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  const t = await getTranslator();
+  if (!session || !can(session.user, "user:create"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   try {
@@ -51,7 +61,7 @@ export async function POST(req: Request) {
     });
     if (existing) {
       return NextResponse.json(
-        { error: "User with this email already exists" },
+        { error: t("errors.emailTaken") },
         { status: 400 }
       );
     }
@@ -67,6 +77,7 @@ export async function POST(req: Request) {
         name: parsed.name,
         passwordHash,
         role: parsed.role,
+        locale: parsed.locale,
         createdById: session.user.id,
       },
       select: {
@@ -74,6 +85,7 @@ export async function POST(req: Request) {
         email: true,
         name: true,
         role: true,
+        locale: true,
         createdAt: true,
       },
     });
@@ -85,18 +97,31 @@ export async function POST(req: Request) {
         role: user.role,
         email: user.email,
         password,
+        userId: user.id,
       });
     } catch (emailError) {
       console.error("Failed to send credentials email:", emailError);
     }
 
+    await recordAuditEvent(req, session.user, {
+      action: "user.create",
+      targetType: "user",
+      targetId: user.id,
+      after: {
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        locale: user.locale,
+      },
+    });
+
     return NextResponse.json(user, { status: 201 });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to create user" },
+      { error: error.message || t("errors.createUserFailed") },
       { status: 500 }
     );
   }
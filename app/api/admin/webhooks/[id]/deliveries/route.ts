@@ -0,0 +1,42 @@
+import { WebhookDeliveryStatus } from "@prisma/client";
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { NextResponse } from "next/server";
+
+const PAGE_SIZE = 50;
+
+// GET - The endpoint's delivery log, newest first. ?status= narrows it; pass
+// the returned nextCursor as ?cursor=
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+  const cursor = searchParams.get("cursor");
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      endpointId: id,
+      ...(status && status in WebhookDeliveryStatus
+        ? { status: status as WebhookDeliveryStatus }
+        : {}),
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const page = deliveries.slice(0, PAGE_SIZE);
+  return NextResponse.json({
+    deliveries: page,
+    nextCursor: deliveries.length > PAGE_SIZE ? page[page.length - 1].id : null,
+  });
+}
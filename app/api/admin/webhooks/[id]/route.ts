@@ -0,0 +1,123 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { auditChanges, recordAuditEvent } from "@/app/lib/audit";
+import {
+  generateWebhookSecret,
+  webhookEndpointSchema,
+  webhookEndpointSelect,
+} from "@/app/lib/webhooks";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateSchema = webhookEndpointSchema.partial().extend({
+  // Replace the secret with a newly generated one
+  rotateSecret: z.boolean().optional(),
+});
+
+// PATCH - Edit an endpoint, pause or resume it, or change its secret. A new
+// secret is returned once, like on creation.
+export async function PATCH(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const existing = await prisma.webhookEndpoint.findUnique({
+    where: { id },
+    select: webhookEndpointSelect,
+  });
+  if (!existing) return new NextResponse("Not Found", { status: 404 });
+
+  try {
+    const { rotateSecret, secret, ...parsed } = updateSchema.parse(
+      await req.json()
+    );
+    const newSecret = rotateSecret ? generateWebhookSecret() : secret;
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...parsed,
+        ...(parsed.description !== undefined && {
+          description: parsed.description || null,
+        }),
+        ...(newSecret && { secret: newSecret }),
+      },
+      select: webhookEndpointSelect,
+    });
+
+    const changes = auditChanges(
+      {
+        url: existing.url,
+        description: existing.description,
+        events: existing.events,
+        active: existing.active,
+      },
+      {
+        url: endpoint.url,
+        description: endpoint.description,
+        events: endpoint.events,
+        active: endpoint.active,
+      }
+    );
+    await recordAuditEvent(req, session.user, {
+      action: "webhook.update",
+      targetType: "webhook",
+      targetId: id,
+      before: changes.before,
+      after: { ...changes.after, ...(newSecret && { secretChanged: true }) },
+    });
+
+    return NextResponse.json(
+      newSecret ? { ...endpoint, secret: newSecret } : endpoint
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating webhook endpoint:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.saveWebhookFailed") },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an endpoint together with its delivery log
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const existing = await prisma.webhookEndpoint.findUnique({
+    where: { id },
+    select: { id: true, url: true, events: true },
+  });
+  if (!existing) return new NextResponse("Not Found", { status: 404 });
+
+  await prisma.webhookEndpoint.delete({ where: { id } });
+
+  await recordAuditEvent(req, session.user, {
+    action: "webhook.delete",
+    targetType: "webhook",
+    targetId: id,
+    before: { url: existing.url, events: existing.events },
+  });
+
+  return NextResponse.json({ ok: true });
+}
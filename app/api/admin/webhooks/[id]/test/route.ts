@@ -0,0 +1,39 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { sendTestWebhook } from "@/app/lib/webhooks";
+import { NextResponse } from "next/server";
+
+// POST - Send a test event to the endpoint now and return the recorded
+// delivery, response included
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  const endpoint = await prisma.webhookEndpoint.findUnique({
+    where: { id },
+    select: { id: true, url: true, secret: true },
+  });
+  if (!endpoint) return new NextResponse("Not Found", { status: 404 });
+
+  const delivery = await sendTestWebhook(endpoint, session.user);
+
+  await recordAuditEvent(req, session.user, {
+    action: "webhook.test",
+    targetType: "webhook",
+    targetId: id,
+    after: {
+      status: delivery.status,
+      responseStatus: delivery.responseStatus,
+    },
+  });
+
+  return NextResponse.json(delivery);
+}
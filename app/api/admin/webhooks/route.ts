@@ -0,0 +1,101 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  generateWebhookSecret,
+  webhookEndpointSchema,
+  webhookEndpointSelect,
+} from "@/app/lib/webhooks";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// GET - Registered webhook endpoints with their latest delivery. Secrets
+// are never listed.
+export async function GET() {
+  const session = await auth();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    orderBy: { createdAt: "asc" },
+    select: {
+      ...webhookEndpointSelect,
+      deliveries: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: {
+          id: true,
+          event: true,
+          status: true,
+          responseStatus: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    endpoints: endpoints.map(({ deliveries, ...endpoint }) => ({
+      ...endpoint,
+      lastDelivery: deliveries[0] ?? null,
+    })),
+  });
+}
+
+// POST - Register an endpoint. The secret (generated unless given) is only
+// returned here and when it is rotated.
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !can(session.user, "webhooks:manage")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { secret, ...parsed } = webhookEndpointSchema.parse(await req.json());
+    const endpointSecret = secret ?? generateWebhookSecret();
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        url: parsed.url,
+        description: parsed.description || null,
+        events: parsed.events,
+        active: parsed.active ?? true,
+        secret: endpointSecret,
+        createdById: session.user.id,
+      },
+      select: webhookEndpointSelect,
+    });
+
+    await recordAuditEvent(req, session.user, {
+      action: "webhook.create",
+      targetType: "webhook",
+      targetId: endpoint.id,
+      after: {
+        url: endpoint.url,
+        events: endpoint.events,
+        active: endpoint.active,
+      },
+    });
+
+    return NextResponse.json(
+      { ...endpoint, secret: endpointSecret },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating webhook endpoint:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.saveWebhookFailed") },
+      { status: 500 }
+    );
+  }
+}
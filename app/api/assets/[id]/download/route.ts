@@ -1,8 +1,7 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { getStorage } from "@/app/lib/storage";
 import { NextResponse } from "next/server";
 
 export async function GET(
@@ -13,48 +12,24 @@ export async function GET(
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   const asset = await prisma.asset.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
     include: {
-      project: {
-        select: {
-          clientId: true,
-          staffAssignments: {
-            select: { staffId: true },
-          },
-        },
-      },
+      project: { select: projectPolicySelect },
     },
   });
 
   if (!asset) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && asset.project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    asset.project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
+  if (!can(session.user, "asset:view", asset)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
-  const client = getR2Client();
-  const url = await getSignedUrl(
-    client,
-    new GetObjectCommand({
-      Bucket: R2_BUCKET,
-      Key: asset.key,
-      ResponseContentDisposition: `attachment; filename="${encodeURIComponent(
-        asset.filename
-      )}"`,
-    }),
-    { expiresIn: 60 * 30 }
-  );
+  const url = await getStorage().getSignedDownloadUrl(asset.key, {
+    downloadFilename: asset.filename,
+    expiresIn: 60 * 30,
+  });
 
   return NextResponse.redirect(url, { status: 302 });
 }
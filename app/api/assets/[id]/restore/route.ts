@@ -0,0 +1,51 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { restoreAsset } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// POST - Restore an asset from the Trash into its original folder
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const asset = await prisma.asset.findUnique({
+      where: { id, deletedAt: { not: null } },
+      include: { project: { select: projectPolicySelect } },
+    });
+
+    if (!asset) return new NextResponse("Not Found", { status: 404 });
+
+    if (!can(session.user, "asset:delete", asset)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const restored = await restoreAsset(asset);
+
+    await recordAuditEvent(req, session.user, {
+      action: "asset.restore",
+      targetType: "asset",
+      targetId: id,
+      projectId: asset.projectId,
+      before: { deletedAt: asset.deletedAt },
+      after: { folderId: restored.folderId },
+    });
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error("Error restoring asset:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.restoreAssetFailed") },
+      { status: 500 }
+    );
+  }
+}
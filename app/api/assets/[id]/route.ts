@@ -1,7 +1,9 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
-import { DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { deleteAssetsPermanently } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -14,28 +16,20 @@ export async function PATCH(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   try {
     const body = await req.json();
     const parsed = updateAssetSchema.parse(body);
 
     const asset = await prisma.asset.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         project: {
-          select: {
-            id: true,
-            clientId: true,
-            createdById: true,
-            staffAssignments: {
-              select: { staffId: true },
-            },
-          },
+          select: { id: true, ...projectPolicySelect },
         },
       },
     });
@@ -44,16 +38,7 @@ export async function PATCH(
 
     const project = asset.project;
 
-    const isAdmin = role === "ADMIN";
-    const staffIds = new Set(
-      project.staffAssignments.map((assignment) => assignment.staffId)
-    );
-    const isStaff =
-      role === "STAFF" &&
-      (staffIds.has(userId) || project.createdById === userId);
-    const isUploader = asset.uploadedById === userId;
-
-    if (!isAdmin && !isStaff && !isUploader) {
+    if (!can(session.user, "asset:move", asset)) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
@@ -65,12 +50,13 @@ export async function PATCH(
           id: parsed.folderId,
           projectId: project.id,
           type: "ASSETS",
+          deletedAt: null,
         },
       });
 
       if (!folder) {
         return NextResponse.json(
-          { error: "Target folder not found or invalid" },
+          { error: t("errors.targetFolderInvalid") },
           { status: 404 }
         );
       }
@@ -88,6 +74,15 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "asset.move",
+      targetType: "asset",
+      targetId: id,
+      projectId: project.id,
+      before: { folderId: asset.folderId },
+      after: { folderId },
+    });
+
     return NextResponse.json(updated);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -95,56 +90,69 @@ export async function PATCH(
     }
     console.error("Error updating asset:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to update asset" },
+      { error: error.message || t("errors.updateAssetFailed") },
       { status: 500 }
     );
   }
 }
 
-// DELETE - Delete asset (only uploader or admin)
+// DELETE - Move asset to the Trash (only uploader or admin).
+// ?permanent=true removes an asset already in the Trash for good.
 export async function DELETE(
-  _: Request,
+  req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
+  const permanent = new URL(req.url).searchParams.get("permanent") === "true";
 
   try {
     const asset = await prisma.asset.findUnique({
-      where: { id },
-      include: { project: true },
+      where: { id, deletedAt: permanent ? { not: null } : null },
+      include: { project: { select: projectPolicySelect } },
     });
 
     if (!asset) return new NextResponse("Not Found", { status: 404 });
 
-    // Only uploader or admin can delete
-    if (role !== "ADMIN" && asset.uploadedById !== userId) {
+    if (
+      !can(session.user, "asset:delete", asset) ||
+      (permanent &&
+        !can(session.user, "trash:deletePermanently", asset.project))
+    ) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
-    // Delete from R2
-    const client = getR2Client();
-    await client.send(
-      new DeleteObjectCommand({
-        Bucket: R2_BUCKET,
-        Key: asset.key,
-      })
-    );
+    if (permanent) {
+      await deleteAssetsPermanently([id]);
+    } else {
+      await prisma.asset.update({
+        where: { id },
+        data: { deletedAt: new Date(), deletedById: session.user.id },
+      });
+    }
 
-    // Delete from database
-    await prisma.asset.delete({
-      where: { id },
+    await recordAuditEvent(req, session.user, {
+      action: permanent ? "asset.purge" : "asset.delete",
+      targetType: "asset",
+      targetId: id,
+      projectId: asset.projectId,
+      before: {
+        filename: asset.filename,
+        key: asset.key,
+        sizeBytes: asset.sizeBytes,
+        folderId: asset.folderId,
+        uploadedById: asset.uploadedById,
+      },
     });
 
     return NextResponse.json({ ok: true });
   } catch (error: any) {
     console.error("Error deleting asset:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to delete asset" },
+      { error: error.message || t("errors.deleteAssetFailed") },
       { status: 500 }
     );
   }
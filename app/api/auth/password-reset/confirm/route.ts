@@ -0,0 +1,57 @@
+import {
+  findValidResetToken,
+  resetPasswordWithToken,
+} from "@/app/lib/password-reset";
+import { newPasswordSchema } from "@/app/lib/password";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const confirmSchema = z.object({
+  token: z.string().min(1),
+  newPassword: newPasswordSchema,
+});
+
+// GET ?token= - Lets the reset page tell the user up front when a link is dead
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get("token") ?? "";
+  const record = await findValidResetToken(token);
+  return NextResponse.json({ valid: Boolean(record) });
+}
+
+// POST - Set a new password with a reset token (single use)
+export async function POST(req: Request) {
+  const t = await getTranslator();
+  try {
+    const { token, newPassword } = confirmSchema.parse(await req.json());
+
+    const userId = await resetPasswordWithToken(token, newPassword);
+    if (!userId) {
+      return NextResponse.json(
+        { error: t("errors.resetLinkInvalid") },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent(req, null, {
+      action: "account.password_reset",
+      targetType: "user",
+      targetId: userId,
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.resetPasswordFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { prisma } from "@/app/lib/prisma";
+import { sendPasswordResetEmail } from "@/app/lib/email";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  issuePasswordResetToken,
+  PASSWORD_RESET_TTL_MINUTES,
+} from "@/app/lib/password-reset";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const requestSchema = z.object({
+  email: z.string().email(),
+});
+
+// POST - Email a reset link. Always answers the same way so the endpoint
+// cannot be used to find out which addresses have accounts.
+export async function POST(req: Request) {
+  const t = await getTranslator();
+  try {
+    const { email } = requestSchema.parse(await req.json());
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email.trim(), mode: "insensitive" } },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (user) {
+      const issued = await issuePasswordResetToken(user.id);
+      if (issued) {
+        await recordAuditEvent(req, null, {
+          action: "account.password_reset_request",
+          targetType: "user",
+          targetId: user.id,
+        });
+        try {
+          await sendPasswordResetEmail({
+            to: user.email,
+            name: user.name,
+            token: issued.token,
+            expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+            userId: user.id,
+          });
+        } catch (error) {
+          console.error("Failed to send password reset email", error);
+        }
+      }
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    // Kept generic: a database message here would tell accounts apart
+    console.error("Error requesting password reset:", error);
+    return NextResponse.json(
+      { error: t("errors.requestResetFailed") },
+      { status: 500 }
+    );
+  }
+}
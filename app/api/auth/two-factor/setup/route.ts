@@ -0,0 +1,106 @@
+import { compare } from "bcryptjs";
+import { prisma } from "@/app/lib/prisma";
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+} from "@/app/lib/login-throttle";
+import { clientIp } from "@/app/lib/request-info";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  isTwoFactorRequired,
+} from "@/app/lib/two-factor";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const setupSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(6),
+  code: z.string().min(6).max(10).optional(),
+});
+
+// POST - Enrollment during sign-in for accounts whose role requires 2FA but
+// that have not enrolled yet. Without `code` it returns the QR to scan; with
+// `code` it confirms enrollment and returns the recovery codes.
+export async function POST(req: Request) {
+  const t = await getTranslator();
+  try {
+    const { email, password, code } = setupSchema.parse(await req.json());
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        passwordHash: true,
+        twoFactorEnabledAt: true,
+        failedLoginCount: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
+      },
+    });
+
+    // Same throttling as the sign-in form, since this also checks passwords
+    const ip = clientIp(req.headers);
+    if (await checkLoginAllowed(ip, user)) {
+      return NextResponse.json(
+        { error: t("errors.tooManyAttempts") },
+        { status: 429 }
+      );
+    }
+    if (!user || !(await compare(password, user.passwordHash))) {
+      await recordLoginFailure(ip, user?.id ?? null);
+      return NextResponse.json(
+        { error: t("errors.invalidCredentials") },
+        { status: 401 }
+      );
+    }
+
+    // Voluntary enrollment happens from the profile page once signed in
+    if (user.twoFactorEnabledAt || !(await isTwoFactorRequired(user.role))) {
+      return NextResponse.json(
+        { error: t("errors.twoFactorSetupNotRequired") },
+        { status: 400 }
+      );
+    }
+
+    if (!code) {
+      const setup = await beginTwoFactorSetup(user);
+      return NextResponse.json({
+        secret: setup.secret,
+        qrDataUrl: setup.qrDataUrl,
+      });
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(user.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: t("errors.codeMismatch") },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent(req, user, {
+      action: "account.two_factor_enable",
+      targetType: "user",
+      targetId: user.id,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.setupTwoFactorFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { prisma } from "@/app/lib/prisma";
+import { enqueueJob } from "@/app/lib/jobs";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - Scheduled daily digest for users who chose it in their notification
+// preferences (see vercel.json). Vercel Cron sends CRON_SECRET as a bearer
+// token. The emails are put together on the job worker.
+export async function GET(req: Request) {
+  const t = await getTranslator();
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const pending = await prisma.job.findFirst({
+      where: {
+        type: "notifications.digest",
+        status: { in: ["QUEUED", "RUNNING"] },
+      },
+      select: { id: true },
+    });
+    if (pending) {
+      return NextResponse.json({ jobId: pending.id, alreadyQueued: true });
+    }
+
+    const job = await enqueueJob("notifications.digest", {});
+    return NextResponse.json({ jobId: job.id, alreadyQueued: false });
+  } catch (error) {
+    console.error("Error queueing notification digest:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message || t("errors.queueNotificationDigestFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
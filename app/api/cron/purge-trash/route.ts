@@ -0,0 +1,34 @@
+import { prisma } from "@/app/lib/prisma";
+import { enqueueJob } from "@/app/lib/jobs";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - Scheduled purge of Trash items past the retention period (see
+// vercel.json). Vercel Cron sends CRON_SECRET as a bearer token. The purge
+// itself runs on the job worker.
+export async function GET(req: Request) {
+  const t = await getTranslator();
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const pending = await prisma.job.findFirst({
+      where: { type: "trash.purge", status: { in: ["QUEUED", "RUNNING"] } },
+      select: { id: true },
+    });
+    if (pending) {
+      return NextResponse.json({ jobId: pending.id, alreadyQueued: true });
+    }
+
+    const job = await enqueueJob("trash.purge", {});
+    return NextResponse.json({ jobId: job.id, alreadyQueued: false });
+  } catch (error) {
+    console.error("Error queueing trash purge:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.queueTrashPurgeFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { prisma } from "@/app/lib/prisma";
+import { enqueueJob } from "@/app/lib/jobs";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - Scheduled storage reconciliation (see vercel.json): aborts abandoned
+// multipart uploads and reports orphaned objects and missing files in the
+// audit log. Vercel Cron sends CRON_SECRET as a bearer token. The check
+// itself runs on the job worker.
+export async function GET(req: Request) {
+  const t = await getTranslator();
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const pending = await prisma.job.findFirst({
+      where: {
+        type: "storage.reconcile",
+        status: { in: ["QUEUED", "RUNNING"] },
+      },
+      select: { id: true },
+    });
+    if (pending) {
+      return NextResponse.json({ jobId: pending.id, alreadyQueued: true });
+    }
+
+    const job = await enqueueJob("storage.reconcile", {});
+    return NextResponse.json({ jobId: job.id, alreadyQueued: false });
+  } catch (error) {
+    console.error("Error queueing storage reconciliation:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message || t("errors.queueStorageReconcileFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const updateCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+// PATCH - Staff/admin mark a comment thread resolved or reopen it
+export async function PATCH(
+  req: Request,
+  ctx: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id, commentId } = await ctx.params;
+
+  try {
+    const body = await req.json();
+    const parsed = updateCommentSchema.parse(body);
+
+    const comment = await prisma.deliveryComment.findFirst({
+      where: { id: commentId, deliveryId: id },
+      include: {
+        delivery: {
+          select: {
+            projectId: true,
+            uploadedById: true,
+            project: { select: projectPolicySelect },
+          },
+        },
+      },
+    });
+
+    if (!comment) return new NextResponse("Not Found", { status: 404 });
+
+    if (!can(session.user, "delivery:resolveComment", comment.delivery)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    if (comment.parentId) {
+      return NextResponse.json(
+        { error: t("errors.onlyTopLevelResolved") },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.deliveryComment.update({
+      where: { id: commentId },
+      data: parsed.resolved
+        ? {
+            resolved: true,
+            resolvedAt: new Date(),
+            resolvedById: session.user.id,
+          }
+        : { resolved: false, resolvedAt: null, resolvedById: null },
+      include: {
+        author: { select: { id: true, email: true, name: true, role: true } },
+        resolvedBy: {
+          select: { id: true, email: true, name: true, role: true },
+        },
+      },
+    });
+
+    await recordAuditEvent(req, session.user, {
+      action: "comment.update",
+      targetType: "comment",
+      targetId: commentId,
+      projectId: comment.delivery.projectId,
+      before: { resolved: comment.resolved },
+      after: { resolved: updated.resolved },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating delivery comment:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.updateCommentFailed") },
+      { status: 500 }
+    );
+  }
+}
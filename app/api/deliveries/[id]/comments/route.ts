@@ -0,0 +1,174 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { isVideo } from "@/app/lib/drive-utils";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const createCommentSchema = z
+  .object({
+    body: z.string().trim().min(1).max(5000),
+    timestampSec: z.number().min(0).optional(),
+    endTimestampSec: z.number().min(0).optional(),
+    parentId: z.string().optional(),
+  })
+  .refine(
+    (value) =>
+      value.endTimestampSec === undefined ||
+      (value.timestampSec !== undefined &&
+        value.endTimestampSec > value.timestampSec),
+    {
+      message: "validation.rangeEnd",
+      path: ["endTimestampSec"],
+    }
+  );
+
+const userSelect = { id: true, email: true, name: true, role: true };
+
+const commentInclude = {
+  author: { select: userSelect },
+  resolvedBy: { select: userSelect },
+};
+
+// GET - Comment threads for a delivery, oldest first
+export async function GET(
+  _: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const delivery = await prisma.delivery.findUnique({
+    where: { id, deletedAt: null },
+    include: {
+      project: { select: projectPolicySelect },
+    },
+  });
+
+  if (!delivery) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "delivery:view", delivery)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const comments = await prisma.deliveryComment.findMany({
+    where: { deliveryId: id, parentId: null },
+    include: {
+      ...commentInclude,
+      replies: {
+        include: commentInclude,
+        orderBy: { createdAt: "asc" },
+      },
+    },
+    orderBy: [{ timestampSec: "asc" }, { createdAt: "asc" }],
+  });
+
+  return NextResponse.json({
+    comments,
+    canResolve: can(session.user, "delivery:resolveComment", delivery),
+  });
+}
+
+// POST - Add a comment or a reply
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const body = await req.json();
+    const parsed = createCommentSchema.parse(body);
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        project: { select: projectPolicySelect },
+      },
+    });
+
+    if (!delivery) return new NextResponse("Not Found", { status: 404 });
+
+    if (!can(session.user, "delivery:comment", delivery)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const hasTimestamp = parsed.timestampSec !== undefined;
+
+    if (parsed.parentId) {
+      // Replies hang off a top-level comment and carry no timecode
+      const parent = await prisma.deliveryComment.findFirst({
+        where: { id: parsed.parentId, deliveryId: id, parentId: null },
+        select: { id: true },
+      });
+      if (!parent) {
+        return NextResponse.json(
+          { error: t("errors.parentCommentNotFound") },
+          { status: 404 }
+        );
+      }
+      if (hasTimestamp) {
+        return NextResponse.json(
+          { error: t("errors.replyTimestamp") },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (hasTimestamp && !isVideo(delivery.contentType, delivery.filename)) {
+      return NextResponse.json(
+        { error: t("errors.timestampsVideoOnly") },
+        { status: 400 }
+      );
+    }
+
+    const comment = await prisma.deliveryComment.create({
+      data: {
+        deliveryId: id,
+        version: delivery.version,
+        authorId: session.user.id,
+        body: parsed.body,
+        timestampSec: parsed.timestampSec ?? null,
+        endTimestampSec: parsed.endTimestampSec ?? null,
+        parentId: parsed.parentId ?? null,
+      },
+      include: commentInclude,
+    });
+
+    await recordAuditEvent(req, session.user, {
+      action: "comment.create",
+      targetType: "comment",
+      targetId: comment.id,
+      projectId: delivery.projectId,
+      after: {
+        deliveryId: id,
+        version: comment.version,
+        parentId: comment.parentId,
+        body: comment.body,
+      },
+    });
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating delivery comment:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.addCommentFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -1,60 +1,49 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import {
+  resolveDeliveryVersion,
+  versionedFilename,
+} from "@/app/lib/delivery-versions";
+import { getStorage } from "@/app/lib/storage";
 import { NextResponse } from "next/server";
 
+// GET ?version=N serves an earlier version; defaults to the latest
 export async function GET(
-  _: Request,
+  req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   const delivery = await prisma.delivery.findUnique({
-    where: { id },
+    where: { id, deletedAt: null },
     include: {
-      project: {
-        select: {
-          clientId: true,
-          staffAssignments: {
-            select: { staffId: true },
-          },
-        },
-      },
+      project: { select: projectPolicySelect },
     },
   });
 
   if (!delivery) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && delivery.project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    delivery.project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
+  if (!can(session.user, "delivery:view", delivery)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
-  const client = getR2Client();
-  const url = await getSignedUrl(
-    client,
-    new GetObjectCommand({
-      Bucket: R2_BUCKET,
-      Key: delivery.key,
-      ResponseContentDisposition: `attachment; filename="${encodeURIComponent(
-        delivery.filename
-      )}"`,
-    }),
-    { expiresIn: 60 * 30 }
+  const file = await resolveDeliveryVersion(
+    delivery,
+    new URL(req.url).searchParams.get("version")
   );
+  if (!file) return new NextResponse("Not Found", { status: 404 });
+
+  const url = await getStorage().getSignedDownloadUrl(file.key, {
+    downloadFilename:
+      file.version === delivery.version
+        ? file.filename
+        : versionedFilename(file.filename, file.version),
+    expiresIn: 60 * 30,
+  });
 
   return NextResponse.redirect(url, { status: 302 });
 }
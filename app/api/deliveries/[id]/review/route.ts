@@ -0,0 +1,99 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { syncProjectReviewStatus } from "@/app/lib/delivery-review";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const reviewSchema = z
+  .object({
+    status: z.enum(["APPROVED", "CHANGES_REQUESTED"]),
+    note: z.string().trim().max(5000).optional(),
+  })
+  .refine((value) => value.status !== "CHANGES_REQUESTED" || !!value.note, {
+    message: "validation.describeChanges",
+    path: ["note"],
+  });
+
+// POST - Client approves a delivery or requests changes
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const body = await req.json();
+    const parsed = reviewSchema.parse(body);
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        project: { select: projectPolicySelect },
+      },
+    });
+
+    if (!delivery) return new NextResponse("Not Found", { status: 404 });
+
+    if (!can(session.user, "delivery:review", delivery)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const updated = await prisma.delivery.update({
+      where: { id },
+      data: {
+        reviewStatus: parsed.status,
+        reviewNote: parsed.note || null,
+        reviewedVersion: delivery.version,
+        reviewedAt: new Date(),
+        reviewedById: session.user.id,
+      },
+      select: {
+        id: true,
+        reviewStatus: true,
+        reviewNote: true,
+        reviewedVersion: true,
+        reviewedAt: true,
+      },
+    });
+
+    const projectStatus = await syncProjectReviewStatus(delivery.projectId);
+
+    await recordAuditEvent(req, session.user, {
+      action: "delivery.review",
+      targetType: "delivery",
+      targetId: id,
+      projectId: delivery.projectId,
+      before: {
+        reviewStatus: delivery.reviewStatus,
+        reviewedVersion: delivery.reviewedVersion,
+      },
+      after: {
+        reviewStatus: updated.reviewStatus,
+        reviewedVersion: updated.reviewedVersion,
+        reviewNote: updated.reviewNote,
+      },
+    });
+
+    return NextResponse.json({ ok: true, delivery: updated, projectStatus });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error reviewing delivery:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.saveReviewFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,11 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { deleteDeliveriesPermanently } from "@/app/lib/trash";
+import { syncProjectReviewStatus } from "@/app/lib/delivery-review";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
-import { DeleteObjectCommand } from "@aws-sdk/client-s3";
 import { z } from "zod";
 
 const updateDeliverySchema = z.object({
@@ -14,28 +17,20 @@ export async function PATCH(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   try {
     const body = await req.json();
     const parsed = updateDeliverySchema.parse(body);
 
     const delivery = await prisma.delivery.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         project: {
-          select: {
-            id: true,
-            clientId: true,
-            createdById: true,
-            staffAssignments: {
-              select: { staffId: true },
-            },
-          },
+          select: { id: true, ...projectPolicySelect },
         },
       },
     });
@@ -43,16 +38,8 @@ export async function PATCH(
     if (!delivery) return new NextResponse("Not Found", { status: 404 });
 
     const project = delivery.project;
-    const isAdmin = role === "ADMIN";
-    const staffIds = new Set(
-      project.staffAssignments.map((assignment) => assignment.staffId)
-    );
-    const isStaff =
-      role === "STAFF" &&
-      (staffIds.has(userId) || project.createdById === userId);
-    const isUploader = delivery.uploadedById === userId;
 
-    if (!isAdmin && !isStaff && !isUploader) {
+    if (!can(session.user, "delivery:move", delivery)) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
@@ -66,12 +53,13 @@ export async function PATCH(
           type: {
             in: ["PROJECT", "DELIVERABLES"],
           },
+          deletedAt: null,
         },
       });
 
       if (!folder) {
         return NextResponse.json(
-          { error: "Target folder not found or invalid" },
+          { error: t("errors.targetFolderInvalid") },
           { status: 404 }
         );
       }
@@ -89,6 +77,15 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "delivery.move",
+      targetType: "delivery",
+      targetId: id,
+      projectId: project.id,
+      before: { folderId: delivery.folderId },
+      after: { folderId },
+    });
+
     return NextResponse.json(updated);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -96,73 +93,74 @@ export async function PATCH(
     }
     console.error("Error updating delivery:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to update delivery" },
+      { error: error.message || t("errors.updateDeliveryFailed") },
       { status: 500 }
     );
   }
 }
 
+// DELETE - Move delivery to the Trash.
+// ?permanent=true removes a delivery already in the Trash, with every stored
+// version, for good.
 export async function DELETE(
-  _: Request,
+  req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
+  const permanent = new URL(req.url).searchParams.get("permanent") === "true";
 
   try {
     const delivery = await prisma.delivery.findUnique({
-      where: { id },
+      where: { id, deletedAt: permanent ? { not: null } : null },
       include: {
-        project: {
-          select: {
-            id: true,
-            createdById: true,
-            staffAssignments: {
-              select: { staffId: true },
-            },
-          },
-        },
+        project: { select: projectPolicySelect },
       },
     });
 
     if (!delivery) return new NextResponse("Not Found", { status: 404 });
 
-    const project = delivery.project;
-    const isAdmin = role === "ADMIN";
-    const staffIds = new Set(
-      project.staffAssignments.map((assignment) => assignment.staffId)
-    );
-    const isStaff =
-      role === "STAFF" &&
-      (staffIds.has(userId) ||
-        (project.createdById !== null && project.createdById === userId));
-    const isUploader = delivery.uploadedById === userId;
-
-    if (!isAdmin && !isStaff && !isUploader) {
+    if (
+      !can(session.user, "delivery:delete", delivery) ||
+      (permanent &&
+        !can(session.user, "trash:deletePermanently", delivery.project))
+    ) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
-    const client = getR2Client();
-    await client.send(
-      new DeleteObjectCommand({
-        Bucket: R2_BUCKET,
-        Key: delivery.key,
-      })
-    );
+    if (permanent) {
+      await deleteDeliveriesPermanently([id]);
+    } else {
+      await prisma.delivery.update({
+        where: { id },
+        data: { deletedAt: new Date(), deletedById: session.user.id },
+      });
+      await syncProjectReviewStatus(delivery.projectId);
+    }
 
-    await prisma.delivery.delete({
-      where: { id },
+    await recordAuditEvent(req, session.user, {
+      action: permanent ? "delivery.purge" : "delivery.delete",
+      targetType: "delivery",
+      targetId: id,
+      projectId: delivery.projectId,
+      before: {
+        filename: delivery.filename,
+        key: delivery.key,
+        version: delivery.version,
+        sizeBytes: delivery.sizeBytes,
+        folderId: delivery.folderId,
+        uploadedById: delivery.uploadedById,
+      },
     });
 
     return NextResponse.json({ ok: true });
   } catch (error: any) {
     console.error("Error deleting delivery:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to delete delivery" },
+      { error: error.message || t("errors.deleteDeliveryFailed") },
       { status: 500 }
     );
   }
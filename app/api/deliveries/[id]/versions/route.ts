@@ -0,0 +1,50 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { NextResponse } from "next/server";
+
+// GET - List every version of a delivery, newest first
+export async function GET(
+  _: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const delivery = await prisma.delivery.findUnique({
+    where: { id, deletedAt: null },
+    include: {
+      project: { select: projectPolicySelect },
+      versions: {
+        include: {
+          uploadedBy: { select: { id: true, email: true, name: true } },
+        },
+        orderBy: { version: "desc" },
+      },
+    },
+  });
+
+  if (!delivery) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "delivery:view", delivery)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  return NextResponse.json({
+    deliveryId: delivery.id,
+    currentVersion: delivery.version,
+    versions: delivery.versions.map((version) => ({
+      id: version.id,
+      version: version.version,
+      filename: version.filename,
+      contentType: version.contentType,
+      sizeBytes: version.sizeBytes,
+      sha256: version.sha256,
+      createdAt: version.createdAt,
+      uploadedBy: version.uploadedBy,
+      isLatest: version.version === delivery.version,
+    })),
+  });
+}
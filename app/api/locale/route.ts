@@ -0,0 +1,44 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { LOCALES, LOCALE_COOKIE } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const localeSchema = z.object({ locale: z.enum(LOCALES) });
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+// POST - Switch the UI language; remembered in this browser and, when signed
+// in, saved as the user's preference so emails use it too
+export async function POST(req: Request) {
+  const t = await getTranslator();
+  try {
+    const { locale } = localeSchema.parse(await req.json());
+
+    const session = await auth();
+    if (session?.user?.id) {
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { locale },
+      });
+    }
+
+    const res = NextResponse.json({ locale });
+    res.cookies.set(LOCALE_COOKIE, locale, {
+      path: "/",
+      maxAge: ONE_YEAR_SECONDS,
+      sameSite: "lax",
+    });
+    return res;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Error switching language:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.switchLanguageFailed") },
+      { status: 500 }
+    );
+  }
+}
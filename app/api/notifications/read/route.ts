@@ -0,0 +1,53 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { unreadNotificationCount } from "@/app/lib/notifications";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const markReadSchema = z.object({
+  // Leave out to mark everything as read
+  ids: z.array(z.string().min(1)).max(100).optional(),
+});
+
+// POST - Mark some or all of the signed-in user's notifications as read
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const userId = session.user.id;
+
+  try {
+    const { ids } = markReadSchema.parse(await req.json().catch(() => ({})));
+
+    await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids ? { id: { in: ids } } : {}),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({
+      unreadCount: await unreadNotificationCount(userId),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message || t("errors.markNotificationsReadFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import {
+  notificationHref,
+  unreadNotificationCount,
+  type NotificationData,
+  type NotificationType,
+} from "@/app/lib/notifications";
+import { NextResponse } from "next/server";
+
+const PAGE_SIZE = 30;
+
+// GET - The signed-in user's notifications, newest first, with the unread
+// count. ?unread=1 leaves out read ones, ?limit= asks for a shorter page (the
+// navbar bell); pass the returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id: userId, role } = session.user;
+  const { searchParams } = new URL(req.url);
+  const cursor = searchParams.get("cursor");
+  const unreadOnly = searchParams.get("unread") === "1";
+  const limit = Math.min(
+    Math.max(Number(searchParams.get("limit")) || PAGE_SIZE, 1),
+    PAGE_SIZE
+  );
+
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    }),
+    unreadNotificationCount(userId),
+  ]);
+
+  const page = notifications.slice(0, limit);
+  return NextResponse.json({
+    notifications: page.map((notification) => ({
+      id: notification.id,
+      type: notification.type as NotificationType,
+      projectId: notification.projectId,
+      data: notification.data as NotificationData,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+      href: notificationHref(role, notification.projectId),
+    })),
+    unreadCount,
+    nextCursor: notifications.length > limit ? page[page.length - 1].id : null,
+  });
+}
@@ -0,0 +1,67 @@
+import { auth } from "@/app/lib/auth";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  notificationPreferences,
+  saveNotificationPreferences,
+} from "@/app/lib/notifications";
+import {
+  NOTIFICATION_DELIVERIES,
+  NOTIFICATION_TYPES,
+  notificationTypesFor,
+} from "@/app/lib/notification-types";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+
+const updateSchema = z.object({
+  preferences: z.partialRecord(
+    z.enum(NOTIFICATION_TYPES),
+    z.enum(NOTIFICATION_DELIVERIES)
+  ),
+});
+
+// GET - How the signed-in user receives each notification type that can
+// reach their role
+export async function GET() {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  return NextResponse.json({
+    types: notificationTypesFor(session.user.role),
+    preferences: await notificationPreferences(session.user.id),
+  });
+}
+
+// PUT - Saves the given types' deliveries; types left out keep theirs
+export async function PUT(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  try {
+    const { preferences } = updateSchema.parse(await req.json());
+    return NextResponse.json({
+      types: notificationTypesFor(session.user.role),
+      preferences: await saveNotificationPreferences(
+        session.user.id,
+        preferences
+      ),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message ||
+          t("errors.updateNotificationPreferencesFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
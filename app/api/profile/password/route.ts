@@ -3,19 +3,19 @@ import { prisma } from "@/app/lib/prisma";
 import { NextResponse } from "next/server";
 import { compare, hash } from "bcryptjs";
 import { z } from "zod";
+import { newPasswordSchema } from "@/app/lib/password";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 
 const updateSchema = z.object({
-  currentPassword: z
-    .string()
-    .min(6, "Current password must be at least 6 characters"),
-  newPassword: z
-    .string()
-    .min(6, "New password must be at least 6 characters")
-    .max(64, "New password must be 64 characters or fewer"),
+  currentPassword: z.string().min(6, "validation.currentPasswordMin"),
+  newPassword: newPasswordSchema,
 });
 
 export async function POST(req: Request) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session || !session.user?.id) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
@@ -26,10 +26,13 @@ export async function POST(req: Request) {
     parsed = updateSchema.parse(body);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: error.issues }, { status: 400 });
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
     }
     return NextResponse.json(
-      { error: "Invalid request payload." },
+      { error: t("errors.invalidPayload") },
       { status: 400 }
     );
   }
@@ -41,7 +44,7 @@ export async function POST(req: Request) {
 
   if (!user || !user.passwordHash) {
     return NextResponse.json(
-      { error: "Account record not found." },
+      { error: t("errors.accountNotFound") },
       { status: 404 }
     );
   }
@@ -53,7 +56,7 @@ export async function POST(req: Request) {
 
   if (!passwordMatches) {
     return NextResponse.json(
-      { error: "Current password is incorrect." },
+      { error: t("errors.currentPasswordIncorrect") },
       { status: 400 }
     );
   }
@@ -65,5 +68,11 @@ export async function POST(req: Request) {
     },
   });
 
+  await recordAuditEvent(req, session.user, {
+    action: "account.password_change",
+    targetType: "user",
+    targetId: session.user.id,
+  });
+
   return NextResponse.json({ ok: true });
 }
@@ -0,0 +1,40 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { NextResponse } from "next/server";
+
+// DELETE - Revoke one of the signed-in user's tokens (kept for the audit log)
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const token = await prisma.apiToken.findUnique({
+    where: { id },
+    select: { userId: true, name: true, revokedAt: true },
+  });
+
+  // Someone else's token looks the same as a missing one
+  if (!token || token.userId !== session.user.id) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  if (!token.revokedAt) {
+    await prisma.apiToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    await recordAuditEvent(req, session.user, {
+      action: "account.api_token_revoke",
+      targetType: "api_token",
+      targetId: id,
+      before: { name: token.name },
+    });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,95 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  MAX_API_TOKENS_PER_USER,
+  apiTokenScopesFor,
+  apiTokenSelect,
+  createApiToken,
+  createApiTokenSchema,
+} from "@/app/lib/api-tokens";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// Tokens that still work; revoked and expired ones are kept for the audit
+// trail but no longer listed
+const activeTokenWhere = (userId: string) => ({
+  userId,
+  revokedAt: null,
+  OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+// GET - The signed-in user's active API tokens and the scopes they may grant
+export async function GET() {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const tokens = await prisma.apiToken.findMany({
+    where: activeTokenWhere(session.user.id),
+    select: apiTokenSelect,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json({
+    scopes: apiTokenScopesFor(session.user.role),
+    tokens,
+  });
+}
+
+// POST - Create a token; the raw value is in the response and nowhere else
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  try {
+    const input = createApiTokenSchema.parse(await req.json());
+
+    const allowed = apiTokenScopesFor(session.user.role);
+    if (input.scopes.some((scope) => !allowed.includes(scope))) {
+      return NextResponse.json(
+        { error: t("errors.apiTokenScopeNotAllowed") },
+        { status: 403 }
+      );
+    }
+
+    const count = await prisma.apiToken.count({
+      where: activeTokenWhere(session.user.id),
+    });
+    if (count >= MAX_API_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: t("errors.apiTokenLimit", { max: MAX_API_TOKENS_PER_USER }) },
+        { status: 400 }
+      );
+    }
+
+    const { token, apiToken } = await createApiToken(session.user.id, input);
+
+    await recordAuditEvent(req, session.user, {
+      action: "account.api_token_create",
+      targetType: "api_token",
+      targetId: apiToken.id,
+      after: {
+        name: apiToken.name,
+        scopes: apiToken.scopes,
+        expiresAt: apiToken.expiresAt,
+      },
+    });
+
+    return NextResponse.json({ ...apiToken, token }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating API token:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.createApiTokenFailed") },
+      { status: 500 }
+    );
+  }
+}
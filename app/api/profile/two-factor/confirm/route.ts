@@ -0,0 +1,47 @@
+import { auth } from "@/app/lib/auth";
+import { confirmTwoFactorSetup } from "@/app/lib/two-factor";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const confirmSchema = z.object({
+  code: z.string().min(6).max(10),
+});
+
+// POST - Confirm enrollment with a code from the new secret
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !session.user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { code } = confirmSchema.parse(await req.json());
+
+    const recoveryCodes = await confirmTwoFactorSetup(session.user.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: t("errors.codeMismatch") },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent(req, session.user, {
+      action: "account.two_factor_enable",
+      targetType: "user",
+      targetId: session.user.id,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.enableTwoFactorFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import {
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/app/lib/two-factor";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const regenerateSchema = z.object({
+  code: z.string().min(6).max(32),
+});
+
+// POST - Replace all recovery codes; the old ones stop working
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !session.user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { code } = regenerateSchema.parse(await req.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, twoFactorSecret: true, twoFactorEnabledAt: true },
+    });
+    if (!user?.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: t("errors.twoFactorNotEnabled") },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: t("errors.authCodeIncorrect") },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    await recordAuditEvent(req, session.user, {
+      action: "account.recovery_codes_regenerate",
+      targetType: "user",
+      targetId: user.id,
+    });
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.regenerateCodesFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { compare } from "bcryptjs";
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import {
+  countRecoveryCodes,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  supportsTwoFactor,
+  verifySecondFactor,
+} from "@/app/lib/two-factor";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const disableSchema = z.object({
+  password: z.string().min(6),
+  code: z.string().min(6).max(32),
+});
+
+// GET - Two-factor status for the signed-in user
+export async function GET() {
+  const session = await auth();
+  if (!session || !session.user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true, twoFactorEnabledAt: true },
+  });
+  if (!user) return new NextResponse("Not Found", { status: 404 });
+
+  return NextResponse.json({
+    available: supportsTwoFactor(user.role),
+    enabled: Boolean(user.twoFactorEnabledAt),
+    enabledAt: user.twoFactorEnabledAt,
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: user.twoFactorEnabledAt
+      ? await countRecoveryCodes(session.user.id)
+      : 0,
+  });
+}
+
+// DELETE - Turn two-factor off (not allowed while the role requires it)
+export async function DELETE(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !session.user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { password, code } = disableSchema.parse(await req.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        id: true,
+        role: true,
+        passwordHash: true,
+        twoFactorSecret: true,
+      },
+    });
+    if (!user) return new NextResponse("Not Found", { status: 404 });
+
+    if (await isTwoFactorRequired(user.role)) {
+      return NextResponse.json(
+        { error: t("errors.twoFactorRequiredForRole") },
+        { status: 403 }
+      );
+    }
+
+    if (!(await compare(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: t("errors.currentPasswordIncorrect") },
+        { status: 400 }
+      );
+    }
+    if (!(await verifySecondFactor(user, code))) {
+      return NextResponse.json(
+        { error: t("errors.authCodeIncorrect") },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(user.id);
+    await recordAuditEvent(req, session.user, {
+      action: "account.two_factor_disable",
+      targetType: "user",
+      targetId: user.id,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.disableTwoFactorFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { compare } from "bcryptjs";
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { beginTwoFactorSetup, supportsTwoFactor } from "@/app/lib/two-factor";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const setupSchema = z.object({
+  password: z.string().min(6),
+});
+
+// POST - Start enrollment (or move to a new device); confirm via /confirm
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session || !session.user?.id) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { password } = setupSchema.parse(await req.json());
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, role: true, passwordHash: true },
+    });
+    if (!user) return new NextResponse("Not Found", { status: 404 });
+
+    if (!supportsTwoFactor(user.role)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    if (!(await compare(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: t("errors.currentPasswordIncorrect") },
+        { status: 400 }
+      );
+    }
+
+    const setup = await beginTwoFactorSetup(user);
+    return NextResponse.json({
+      secret: setup.secret,
+      qrDataUrl: setup.qrDataUrl,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.startSetupFailed") },
+      { status: 500 }
+    );
+  }
+}
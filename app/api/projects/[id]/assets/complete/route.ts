@@ -1,13 +1,14 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
-import { detectAssetType } from "@/app/lib/asset-utils";
+import { can } from "@/app/lib/policy";
+import {
+  completeVerifiedUpload,
+  saveUploadedAsset,
+} from "@/app/lib/project-uploads";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
-import { CompleteMultipartUploadCommand } from "@aws-sdk/client-s3";
 import { z } from "zod";
 
-type Part = { ETag: string; PartNumber: number };
-
 const completeAssetSchema = z.object({
   key: z.string(),
   uploadId: z.string(),
@@ -15,12 +16,18 @@ const completeAssetSchema = z.object({
     z.object({
       ETag: z.string(),
       PartNumber: z.number(),
+      ChecksumSHA256: z.string().optional(),
     })
   ),
   filename: z.string(),
   contentType: z.string(),
   sizeBytes: z.number(),
   folderId: z.string().optional(),
+  // Hex SHA-256 of the whole file
+  sha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
 });
 
 // POST - Complete asset upload
@@ -29,11 +36,10 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -45,20 +51,7 @@ export async function POST(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions:
-  // - CLIENT can upload to their own projects
-  // - ADMIN can upload to any project
-  // - STAFF can upload to assigned projects
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (!can(session.user, "asset:upload", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -66,8 +59,13 @@ export async function POST(
     const body = await req.json();
     const parsed = completeAssetSchema.parse(body);
 
-    // Auto-detect asset type
-    const assetType = detectAssetType(parsed.contentType, parsed.filename);
+    // Only uploads started for this project can be completed into it
+    if (!parsed.key.startsWith(`assets/${id}/`)) {
+      return NextResponse.json(
+        { error: t("errors.uploadKeyMismatch") },
+        { status: 400 }
+      );
+    }
 
     // If folderId is provided, verify it belongs to this project
     if (parsed.folderId) {
@@ -75,50 +73,34 @@ export async function POST(
         where: {
           id: parsed.folderId,
           projectId: id,
+          deletedAt: null,
         },
       });
       if (!folder) {
         return NextResponse.json(
-          { error: "Folder not found in this project" },
+          { error: t("errors.folderNotInProject") },
           { status: 404 }
         );
       }
     }
 
-    const client = getR2Client();
-
-    const result = await client.send(
-      new CompleteMultipartUploadCommand({
-        Bucket: R2_BUCKET,
-        Key: parsed.key,
-        UploadId: parsed.uploadId,
-        MultipartUpload: {
-          Parts: parsed.parts.sort((a, b) => a.PartNumber - b.PartNumber),
-        },
-      })
-    );
+    const result = await completeVerifiedUpload(parsed);
+    if (!result) {
+      return NextResponse.json(
+        { error: t("errors.uploadSizeMismatch") },
+        { status: 422 }
+      );
+    }
 
-    // Save asset record
-    await prisma.asset.create({
-      data: {
-        key: parsed.key,
-        filename: parsed.filename,
-        contentType: parsed.contentType,
-        sizeBytes: parsed.sizeBytes,
-        type: assetType,
-        projectId: id,
-        folderId: parsed.folderId || null,
-        uploadedById: userId,
-      },
-    });
+    await saveUploadedAsset(req, session.user, project, parsed);
 
-    return NextResponse.json({ ok: true, location: result.Location });
+    return NextResponse.json({ ok: true, location: result.location });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to complete upload" },
+      { error: error.message || t("errors.completeUploadFailed") },
       { status: 500 }
     );
   }
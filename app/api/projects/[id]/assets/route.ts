@@ -1,22 +1,27 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { can } from "@/app/lib/policy";
+import {
+  projectUploadKey,
+  recordUploadSession,
+  resumeProjectUpload,
+  startProjectUpload,
+  type UploadSessionFile,
+} from "@/app/lib/project-uploads";
 import { detectAssetType } from "@/app/lib/asset-utils";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
-import {
-  CreateMultipartUploadCommand,
-  UploadPartCommand,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { z } from "zod";
 
-const DEFAULT_PART_SIZE = 10 * 1024 * 1024; // 10MB
-
 const initAssetUploadSchema = z.object({
   filename: z.string(),
   contentType: z.string(),
   sizeBytes: z.number(),
   folderId: z.string().optional(), // Optional folder ID
+  // Set by the browser to make the upload resumable
+  fingerprint: z.string().min(1).max(128).optional(),
+  // Set when the browser sends each part with its SHA-256
+  checksums: z.boolean().optional(),
 });
 
 // POST - Initialize asset upload (client only, for their own projects)
@@ -25,11 +30,10 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -41,20 +45,7 @@ export async function POST(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions:
-  // - CLIENT can upload to their own projects
-  // - ADMIN can upload to any project
-  // - STAFF can upload to assigned projects
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (!can(session.user, "asset:upload", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -71,56 +62,54 @@ export async function POST(
         where: {
           id: parsed.folderId,
           projectId: id,
+          deletedAt: null,
         },
       });
       if (!folder) {
         return NextResponse.json(
-          { error: "Folder not found in this project" },
+          { error: t("errors.folderNotInProject") },
           { status: 404 }
         );
       }
     }
 
-    const client = getR2Client();
-    const folderPrefix = parsed.folderId ? `folders/${parsed.folderId}/` : "";
-    const key = `assets/${id}/${folderPrefix}${Date.now()}-${encodeURIComponent(
-      parsed.filename
-    )}`;
-
-    const create = await client.send(
-      new CreateMultipartUploadCommand({
-        Bucket: R2_BUCKET,
-        Key: key,
-        ContentType: parsed.contentType,
-      })
-    );
-    const uploadId = create.UploadId!;
+    const sessionFile: UploadSessionFile | null = parsed.fingerprint
+      ? {
+          kind: "ASSET",
+          projectId: id,
+          folderId: parsed.folderId,
+          filename: parsed.filename,
+          contentType: parsed.contentType,
+          sizeBytes: parsed.sizeBytes,
+          fingerprint: parsed.fingerprint,
+        }
+      : null;
 
-    const partSize = DEFAULT_PART_SIZE;
-    const partCount = Math.ceil(parsed.sizeBytes / partSize);
-    const urls: string[] = [];
-    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
-      const url = await getSignedUrl(
-        client,
-        new UploadPartCommand({
-          Bucket: R2_BUCKET,
-          Key: key,
-          UploadId: uploadId,
-          PartNumber: partNumber,
-        }),
-        { expiresIn: 60 * 60 }
+    let upload = sessionFile
+      ? await resumeProjectUpload(session.user.id, sessionFile)
+      : null;
+    if (!upload) {
+      const started = await startProjectUpload(
+        projectUploadKey("assets", id, parsed.folderId, parsed.filename),
+        parsed.contentType,
+        parsed.sizeBytes,
+        { checksums: parsed.checksums }
       );
-      urls.push(url);
+      const recorded = sessionFile
+        ? await recordUploadSession(session.user.id, sessionFile, started)
+        : null;
+      upload = {
+        ...started,
+        sessionId: recorded?.id ?? null,
+        completedParts: [],
+      };
     }
 
     const base = new URL(req.url);
     const completeUrl = `${base.origin}/api/projects/${id}/assets/complete`;
 
     return NextResponse.json({
-      uploadId,
-      key,
-      partSize,
-      presignedPartUrls: urls,
+      ...upload,
       completeUrl,
       type: assetType,
       folderId: parsed.folderId,
@@ -130,7 +119,7 @@ export async function POST(
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to initialize upload" },
+      { error: error.message || t("errors.initUploadFailed") },
       { status: 500 }
     );
   }
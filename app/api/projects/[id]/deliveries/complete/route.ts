@@ -1,10 +1,13 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { can } from "@/app/lib/policy";
+import type { StoragePart } from "@/app/lib/storage";
+import {
+  completeVerifiedUpload,
+  saveUploadedDelivery,
+} from "@/app/lib/project-uploads";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
-import { CompleteMultipartUploadCommand } from "@aws-sdk/client-s3";
-
-type Part = { ETag: string; PartNumber: number };
 
 // POST - Complete delivery upload
 export async function POST(
@@ -12,11 +15,10 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists and is assigned to staff
   const project = await prisma.project.findUnique({
@@ -28,83 +30,122 @@ export async function POST(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Staff must be assigned; admins can proceed
-  if (role !== "STAFF" && role !== "ADMIN") {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
+  if (!can(session.user, "delivery:upload", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
   try {
     const body = await req.json();
-    const { key, uploadId, parts, filename, contentType, sizeBytes, folderId } =
-      body as {
-        key: string;
-        uploadId: string;
-        parts: Part[];
-        filename?: string;
-        contentType?: string;
-        sizeBytes?: number;
-        folderId?: string;
-      };
+    const {
+      key,
+      uploadId,
+      parts,
+      filename,
+      contentType,
+      sizeBytes,
+      folderId,
+      deliveryId,
+      sha256,
+    } = body as {
+      key: string;
+      uploadId: string;
+      parts: StoragePart[];
+      filename?: string;
+      contentType?: string;
+      sizeBytes?: number;
+      folderId?: string;
+      deliveryId?: string;
+      // Hex SHA-256 of the whole file
+      sha256?: string;
+    };
 
-    if (!key || !uploadId || !parts?.length) {
+    if (
+      !key ||
+      !uploadId ||
+      !parts?.length ||
+      (sha256 !== undefined && !/^[0-9a-f]{64}$/.test(sha256))
+    ) {
       return new NextResponse("Bad Request", { status: 400 });
     }
 
+    // Only uploads started for this project can be completed into it
+    if (!key.startsWith(`deliveries/${id}/`)) {
+      return NextResponse.json(
+        { error: t("errors.uploadKeyMismatch") },
+        { status: 400 }
+      );
+    }
+
+    const existing = deliveryId
+      ? await prisma.delivery.findFirst({
+          where: { id: deliveryId, projectId: id, deletedAt: null },
+          select: { id: true, version: true },
+        })
+      : null;
+    if (deliveryId && !existing) {
+      return NextResponse.json(
+        { error: t("errors.deliveryNotInProject") },
+        { status: 404 }
+      );
+    }
+
     // If folderId is provided, verify it belongs to this project and is a PROJECT or DELIVERABLES folder
-    if (folderId) {
+    if (folderId && !existing) {
       const folder = await prisma.folder.findFirst({
         where: {
           id: folderId,
           projectId: id,
           type: { in: ["PROJECT", "DELIVERABLES"] },
+          deletedAt: null,
         },
       });
       if (!folder) {
         return NextResponse.json(
-          { error: "Folder not found or not a valid folder for deliveries" },
+          { error: t("errors.invalidDeliveryFolder") },
           { status: 404 }
         );
       }
     }
 
-    const client = getR2Client();
+    const file = {
+      key,
+      filename:
+        filename || decodeURIComponent(key.split("-").slice(1).join("-")),
+      contentType: contentType || "video/mp4",
+      sizeBytes: sizeBytes || 0,
+      sha256: sha256 ?? null,
+    };
 
-    const result = await client.send(
-      new CompleteMultipartUploadCommand({
-        Bucket: R2_BUCKET,
-        Key: key,
-        UploadId: uploadId,
-        MultipartUpload: {
-          Parts: parts.sort((a, b) => a.PartNumber - b.PartNumber),
-        },
-      })
+    const result = await completeVerifiedUpload({
+      key,
+      uploadId,
+      parts,
+      sizeBytes: file.sizeBytes,
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: t("errors.uploadSizeMismatch") },
+        { status: 422 }
+      );
+    }
+
+    const { delivery, version } = await saveUploadedDelivery(
+      req,
+      session.user,
+      project,
+      file,
+      { folderId, existing }
     );
 
-    // Save delivery record and update project status
-    await prisma.delivery.create({
-      data: {
-        key,
-        filename:
-          filename || decodeURIComponent(key.split("-").slice(1).join("-")),
-        contentType: contentType || "video/mp4",
-        sizeBytes: sizeBytes || 0,
-        projectId: id,
-        folderId: folderId || null,
-        uploadedById: userId,
-      },
+    return NextResponse.json({
+      ok: true,
+      location: result.location,
+      deliveryId: delivery.id,
+      version,
     });
-
-    return NextResponse.json({ ok: true, location: result.Location });
   } catch (error: any) {
     return NextResponse.json(
-      { error: error.message || "Failed to complete upload" },
+      { error: error.message || t("errors.completeUploadFailed") },
       { status: 500 }
     );
   }
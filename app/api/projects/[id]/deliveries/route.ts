@@ -1,14 +1,16 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
-import { NextResponse } from "next/server";
+import { can } from "@/app/lib/policy";
+import { getStorage, type StorageDriver } from "@/app/lib/storage";
 import {
-  CreateMultipartUploadCommand,
-  UploadPartCommand,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-
-const DEFAULT_PART_SIZE = 10 * 1024 * 1024; // 10MB
+  projectUploadKey,
+  recordUploadSession,
+  resumeProjectUpload,
+  UPLOAD_PART_SIZE,
+  type UploadSessionFile,
+} from "@/app/lib/project-uploads";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
 
 // POST - Initialize delivery upload (staff only, for assigned projects)
 export async function POST(
@@ -16,11 +18,10 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   try {
     // Check project exists - don't include createdBy to avoid errors with old projects
@@ -40,41 +41,29 @@ export async function POST(
     } catch (dbError: any) {
       console.error("Database error fetching project:", dbError);
       return NextResponse.json(
-        { error: `Database error: ${dbError.message}` },
+        { error: t("errors.database", { reason: dbError.message }) },
         { status: 500 }
       );
     }
 
     if (!project) {
-      return NextResponse.json({ error: "Project not found" }, { status: 404 });
-    }
-
-    // Only STAFF (assigned/creator) or ADMIN can upload deliveries
-    if (role !== "STAFF" && role !== "ADMIN") {
       return NextResponse.json(
-        { error: "Only staff or admins can upload deliveries" },
-        { status: 403 }
+        { error: t("errors.projectNotFound") },
+        { status: 404 }
       );
     }
 
-    // Staff can upload if they are assigned to the project OR if they created the project
-    if (role === "STAFF") {
-      const staffIds = new Set(
-        project.staffAssignments.map((assignment) => assignment.staffId)
+    // Only ADMIN or STAFF assigned to / who created the project can upload deliveries
+    if (!can(session.user, "delivery:upload", project)) {
+      return NextResponse.json(
+        {
+          error:
+            session.user.role === "CLIENT"
+              ? "Only staff or admins can upload deliveries"
+              : "You can only upload deliveries to projects you are assigned to or created",
+        },
+        { status: 403 }
       );
-      const canUpload =
-        staffIds.has(userId) ||
-        (project.createdById !== null && project.createdById === userId);
-
-      if (!canUpload) {
-        return NextResponse.json(
-          {
-            error:
-              "You can only upload deliveries to projects you are assigned to or created",
-          },
-          { status: 403 }
-        );
-      }
     }
 
     let body;
@@ -83,21 +72,34 @@ export async function POST(
     } catch (jsonError: any) {
       console.error("Error parsing request body:", jsonError);
       return NextResponse.json(
-        { error: "Invalid JSON in request body" },
+        { error: t("errors.invalidJson") },
         { status: 400 }
       );
     }
 
-    const { filename, contentType, sizeBytes, folderId } = body as {
+    const {
+      filename,
+      contentType,
+      sizeBytes,
+      deliveryId,
+      fingerprint,
+      checksums,
+    } = body as {
       filename: string;
       contentType?: string;
       sizeBytes: number;
       folderId?: string;
+      deliveryId?: string;
+      // Set by the browser to make the upload resumable
+      fingerprint?: string;
+      // Set when the browser sends each part with its SHA-256
+      checksums?: boolean;
     };
+    let { folderId } = body as { folderId?: string };
 
     if (!filename || !sizeBytes) {
       return NextResponse.json(
-        { error: "filename and sizeBytes are required" },
+        { error: t("errors.filenameSizeRequired") },
         { status: 400 }
       );
     }
@@ -105,6 +107,21 @@ export async function POST(
     // Use default contentType if not provided
     const finalContentType = contentType || "application/octet-stream";
 
+    // New version of an existing delivery: it stays in the delivery's folder
+    if (deliveryId) {
+      const existing = await prisma.delivery.findFirst({
+        where: { id: deliveryId, projectId: id, deletedAt: null },
+        select: { folderId: true },
+      });
+      if (!existing) {
+        return NextResponse.json(
+          { error: t("errors.deliveryNotInProject") },
+          { status: 404 }
+        );
+      }
+      folderId = existing.folderId ?? undefined;
+    }
+
     // If folderId is provided, verify it belongs to this project and is a PROJECT or DELIVERABLES folder
     if (folderId) {
       let folder;
@@ -114,19 +131,20 @@ export async function POST(
             id: folderId,
             projectId: id,
             type: { in: ["PROJECT", "DELIVERABLES"] },
+            deletedAt: null,
           },
         });
       } catch (folderError: any) {
         console.error("Database error fetching folder:", folderError);
         return NextResponse.json(
-          { error: `Database error: ${folderError.message}` },
+          { error: t("errors.database", { reason: folderError.message }) },
           { status: 500 }
         );
       }
       if (!folder) {
         return NextResponse.json(
           {
-            error: "Folder not found or not a valid folder for deliveries",
+            error: t("errors.invalidDeliveryFolder"),
             details: `Folder ${folderId} not found in project ${id} or is not a PROJECT/DELIVERABLES folder`,
           },
           { status: 404 }
@@ -134,84 +152,95 @@ export async function POST(
       }
     }
 
-    if (!R2_BUCKET) {
-      console.error("R2_BUCKET environment variable is not set");
-      return NextResponse.json(
-        { error: "R2 bucket not configured" },
-        { status: 500 }
-      );
+    const base = new URL(req.url);
+    const completeUrl = `${base.origin}/api/projects/${id}/deliveries/complete`;
+
+    const sessionFile: UploadSessionFile | null =
+      typeof fingerprint === "string" && fingerprint
+        ? {
+            kind: "DELIVERY",
+            projectId: id,
+            folderId,
+            deliveryId,
+            filename,
+            contentType: finalContentType,
+            sizeBytes,
+            fingerprint: fingerprint.slice(0, 128),
+          }
+        : null;
+
+    const resumed = sessionFile
+      ? await resumeProjectUpload(session.user.id, sessionFile)
+      : null;
+    if (resumed) {
+      return NextResponse.json({
+        ...resumed,
+        completeUrl,
+        folderId: folderId || undefined,
+        deliveryId: deliveryId || undefined,
+      });
     }
 
-    let client;
+    let storage: StorageDriver;
     try {
-      client = getR2Client();
-    } catch (r2ClientError: any) {
-      console.error("Error initializing R2 client:", r2ClientError);
+      storage = getStorage();
+    } catch (storageError: any) {
+      console.error("Error initializing storage driver:", storageError);
       return NextResponse.json(
-        { error: `Failed to initialize R2 client: ${r2ClientError.message}` },
+        {
+          error: t("errors.storageInitFailed", {
+            reason: storageError.message,
+          }),
+        },
         { status: 500 }
       );
     }
-    const folderPrefix = folderId ? `folders/${folderId}/` : "";
-    const key = `deliveries/${id}/${folderPrefix}${Date.now()}-${encodeURIComponent(
-      filename
-    )}`;
+    const key = projectUploadKey("deliveries", id, folderId, filename);
 
     let uploadId: string;
     try {
-      const create = await client.send(
-        new CreateMultipartUploadCommand({
-          Bucket: R2_BUCKET,
-          Key: key,
-          ContentType: finalContentType,
-        })
-      );
-      uploadId = create.UploadId!;
-    } catch (r2Error: any) {
-      console.error("R2 CreateMultipartUploadCommand error:", r2Error);
+      const create = await storage.createMultipartUpload(key, {
+        contentType: finalContentType,
+        checksums: checksums === true,
+      });
+      uploadId = create.uploadId;
+    } catch (storageError: any) {
+      console.error("Storage createMultipartUpload error:", storageError);
 
       // Handle timeout errors specifically
-      if (r2Error.name === "TimeoutError" || r2Error.code === "ETIMEDOUT") {
+      if (
+        storageError.name === "TimeoutError" ||
+        storageError.code === "ETIMEDOUT"
+      ) {
         return NextResponse.json(
           {
-            error:
-              "R2 connection timeout. Please check your R2 configuration and network connection.",
-            details: r2Error.message,
+            error: t("errors.storageTimeout"),
+            details: storageError.message,
           },
           { status: 504 } // Gateway Timeout
         );
       }
 
-      // Handle other R2 errors
+      // Handle other storage errors
       return NextResponse.json(
         {
-          error: `Failed to initialize R2 upload: ${
-            r2Error.message || r2Error.name || "Unknown error"
-          }`,
-          details: r2Error.code || "No error code",
+          error: t("errors.initUploadFailedReason", {
+            reason: storageError.message || storageError.name,
+          }),
+          details: storageError.code || "No error code",
         },
         { status: 500 }
       );
     }
 
-    const partSize = DEFAULT_PART_SIZE;
+    const partSize = UPLOAD_PART_SIZE;
     const partCount = Math.ceil(sizeBytes / partSize);
-    const urls: string[] = [];
+    let urls: string[];
 
     try {
-      for (let partNumber = 1; partNumber <= partCount; partNumber++) {
-        const url = await getSignedUrl(
-          client,
-          new UploadPartCommand({
-            Bucket: R2_BUCKET,
-            Key: key,
-            UploadId: uploadId,
-            PartNumber: partNumber,
-          }),
-          { expiresIn: 60 * 60 }
-        );
-        urls.push(url);
-      }
+      urls = await storage.getUploadPartUrls(key, uploadId, partCount, {
+        expiresIn: 60 * 60,
+      });
     } catch (urlError: any) {
       console.error("Error generating presigned URLs:", urlError);
 
@@ -219,8 +248,7 @@ export async function POST(
       if (urlError.name === "TimeoutError" || urlError.code === "ETIMEDOUT") {
         return NextResponse.json(
           {
-            error:
-              "R2 connection timeout while generating presigned URLs. Please check your R2 configuration and network connection.",
+            error: t("errors.storageTimeout"),
             details: urlError.message,
           },
           { status: 504 } // Gateway Timeout
@@ -229,30 +257,40 @@ export async function POST(
 
       return NextResponse.json(
         {
-          error: `Failed to generate presigned URLs: ${
-            urlError.message || urlError.name || "Unknown error"
-          }`,
+          error: t("errors.presignFailed", {
+            reason: urlError.message || urlError.name,
+          }),
           details: urlError.code || "No error code",
         },
         { status: 500 }
       );
     }
 
-    const base = new URL(req.url);
-    const completeUrl = `${base.origin}/api/projects/${id}/deliveries/complete`;
+    const recorded = sessionFile
+      ? await recordUploadSession(session.user.id, sessionFile, {
+          uploadId,
+          key,
+          partSize,
+          checksums: checksums === true,
+        })
+      : null;
 
     return NextResponse.json({
+      sessionId: recorded?.id ?? null,
       uploadId,
       key,
       partSize,
       presignedPartUrls: urls,
+      completedParts: [],
+      checksums: checksums === true,
       completeUrl,
       folderId: folderId || undefined,
+      deliveryId: deliveryId || undefined,
     });
   } catch (error: any) {
     console.error("Error in POST /api/projects/[id]/deliveries:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to initialize upload" },
+      { error: error.message || t("errors.initUploadFailed") },
       { status: 500 }
     );
   }
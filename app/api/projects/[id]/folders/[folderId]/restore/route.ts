@@ -0,0 +1,63 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { restoreFolder } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// POST - Restore a folder from the Trash with everything deleted along with it
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string; folderId: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id, folderId } = await params;
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    include: {
+      staffAssignments: { select: { staffId: true } },
+    },
+  });
+
+  if (!project) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "folder:delete", project)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  try {
+    const folder = await prisma.folder.findFirst({
+      where: { id: folderId, projectId: id },
+    });
+
+    if (!folder?.deletedAt) {
+      return NextResponse.json(
+        { error: t("errors.folderNotFound") },
+        { status: 404 }
+      );
+    }
+
+    await restoreFolder({ ...folder, deletedAt: folder.deletedAt });
+
+    await recordAuditEvent(req, session.user, {
+      action: "folder.restore",
+      targetType: "folder",
+      targetId: folderId,
+      projectId: id,
+      before: { deletedAt: folder.deletedAt },
+      after: { parentId: folder.parentId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.restoreFolderFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,14 @@
 import { Prisma } from "@prisma/client";
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { auditChanges, recordAuditEvent } from "@/app/lib/audit";
+import {
+  deleteFolderPermanently,
+  liveFolderCounts,
+  trashFolder,
+} from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -26,11 +34,10 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string; folderId: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id, folderId } = await params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -42,17 +49,7 @@ export async function PATCH(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (!can(session.user, "folder:update", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -65,16 +62,20 @@ export async function PATCH(
       where: {
         id: folderId,
         projectId: id,
+        deletedAt: null,
       },
     });
 
     if (!folder) {
-      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+      return NextResponse.json(
+        { error: t("errors.folderNotFound") },
+        { status: 404 }
+      );
     }
 
     if (parsed.parentId === folderId) {
       return NextResponse.json(
-        { error: "Folder cannot be its own parent" },
+        { error: t("errors.folderOwnParent") },
         { status: 400 }
       );
     }
@@ -89,13 +90,14 @@ export async function PATCH(
           where: {
             id: parsed.parentId,
             projectId: id,
+            deletedAt: null,
           },
           select: { id: true },
         });
 
         if (!parentFolder) {
           return NextResponse.json(
-            { error: "Parent folder not found" },
+            { error: t("errors.parentFolderNotFound") },
             { status: 404 }
           );
         }
@@ -103,7 +105,7 @@ export async function PATCH(
         // Prevent circular hierarchy by ensuring parent isn't a descendant
         if (parentFolder.id === folderId) {
           return NextResponse.json(
-            { error: "Folder cannot be moved into itself" },
+            { error: t("errors.folderIntoItself") },
             { status: 400 }
           );
         }
@@ -113,7 +115,7 @@ export async function PATCH(
         while (currentParentId) {
           if (currentParentId === folderId) {
             return NextResponse.json(
-              { error: "Cannot move folder into its descendant" },
+              { error: t("errors.folderIntoDescendant") },
               { status: 400 }
             );
           }
@@ -134,34 +136,47 @@ export async function PATCH(
       data: updateData,
       include: {
         _count: {
-          select: { assets: true, deliveries: true },
+          select: liveFolderCounts,
         },
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "folder.update",
+      targetType: "folder",
+      targetId: folderId,
+      projectId: id,
+      ...auditChanges(
+        { name: folder.name, parentId: folder.parentId },
+        { name: updated.name, parentId: updated.parentId }
+      ),
+    });
+
     return NextResponse.json(updated);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to update folder" },
+      { error: error.message || t("errors.updateFolderFailed") },
       { status: 500 }
     );
   }
 }
 
-// DELETE - Delete folder
+// DELETE - Move folder and its contents to the Trash.
+// ?permanent=true removes a folder already in the Trash, with everything
+// inside it, for good.
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string; folderId: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id, folderId } = await params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
+  const permanent = new URL(req.url).searchParams.get("permanent") === "true";
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -173,17 +188,10 @@ export async function DELETE(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (role === "STAFF" && !staffIds.has(userId)) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (
+    !can(session.user, "folder:delete", project) ||
+    (permanent && !can(session.user, "trash:deletePermanently", project))
+  ) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -193,27 +201,47 @@ export async function DELETE(
       where: {
         id: folderId,
         projectId: id,
-      },
-      include: {
-        _count: {
-          select: { assets: true },
-        },
+        deletedAt: permanent ? { not: null } : null,
       },
     });
 
     if (!folder) {
-      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+      return NextResponse.json(
+        { error: t("errors.folderNotFound") },
+        { status: 404 }
+      );
     }
 
-    // Delete folder (assets will have folderId set to null due to onDelete: SetNull)
-    await prisma.folder.delete({
-      where: { id: folderId },
+    if (permanent) {
+      await deleteFolderPermanently(folder);
+    } else {
+      // The project's own ASSETS / DELIVERABLES roots are recreated on
+      // demand, so trashing them would only leave a duplicate behind
+      if (!folder.parentId && folder.type !== "PROJECT") {
+        return NextResponse.json(
+          { error: t("errors.systemFolder") },
+          { status: 400 }
+        );
+      }
+      await trashFolder(folder, session.user.id);
+    }
+
+    await recordAuditEvent(req, session.user, {
+      action: permanent ? "folder.purge" : "folder.delete",
+      targetType: "folder",
+      targetId: folderId,
+      projectId: id,
+      before: {
+        name: folder.name,
+        type: folder.type,
+        parentId: folder.parentId,
+      },
     });
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
     return NextResponse.json(
-      { error: error.message || "Failed to delete folder" },
+      { error: error.message || t("errors.deleteFolderFailed") },
       { status: 500 }
     );
   }
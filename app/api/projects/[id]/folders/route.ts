@@ -1,5 +1,9 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can, projectContentScope } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { liveFolderCounts } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -18,8 +22,6 @@ export async function GET(
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -31,30 +33,19 @@ export async function GET(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (
-    role === "STAFF" &&
-    !staffIds.has(userId) &&
-    project.createdById !== userId
-  ) {
-    // Staff can view folders if assigned OR if they created the project
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (!can(session.user, "folder:view", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
   const folders = await prisma.folder.findMany({
-    where: { projectId: id },
+    where: {
+      projectId: id,
+      deletedAt: null,
+      ...projectContentScope(session.user).folders,
+    },
     include: {
       _count: {
-        select: { assets: true, deliveries: true },
+        select: liveFolderCounts,
       },
     },
     orderBy: [
@@ -72,11 +63,10 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await params;
-  const role = session.user?.role;
-  const userId = session.user?.id!;
 
   // Check project exists
   const project = await prisma.project.findUnique({
@@ -88,22 +78,7 @@ export async function POST(
 
   if (!project) return new NextResponse("Not Found", { status: 404 });
 
-  // Check permissions
-  if (role === "CLIENT" && project.clientId !== userId) {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (
-    role === "STAFF" &&
-    !staffIds.has(userId) &&
-    project.createdById !== userId
-  ) {
-    // Staff can create folders if assigned OR if they created the project
-    return new NextResponse("Forbidden", { status: 403 });
-  }
-  if (role !== "ADMIN" && role !== "STAFF" && role !== "CLIENT") {
+  if (!can(session.user, "folder:create", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -116,13 +91,13 @@ export async function POST(
 
     if (parentId) {
       const parentFolder = await prisma.folder.findFirst({
-        where: { id: parentId, projectId: id },
+        where: { id: parentId, projectId: id, deletedAt: null },
         select: { id: true, type: true },
       });
 
       if (!parentFolder) {
         return NextResponse.json(
-          { error: "Parent folder not found" },
+          { error: t("errors.parentFolderNotFound") },
           { status: 404 }
         );
       }
@@ -131,8 +106,7 @@ export async function POST(
     } else if (targetType === "ASSETS" || targetType === "DELIVERABLES") {
       return NextResponse.json(
         {
-          error:
-            "ASSETS and DELIVERABLES folders are system folders and cannot be created manually",
+          error: t("errors.systemFolderCreate"),
         },
         { status: 400 }
       );
@@ -152,13 +126,21 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent(req, session.user, {
+      action: "folder.create",
+      targetType: "folder",
+      targetId: folder.id,
+      projectId: id,
+      after: { name: folder.name, type: folder.type, parentId },
+    });
+
     return NextResponse.json(folder, { status: 201 });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to create folder" },
+      { error: error.message || t("errors.createFolderFailed") },
       { status: 500 }
     );
   }
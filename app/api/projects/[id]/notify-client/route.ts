@@ -1,6 +1,11 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { sendProjectCompletionEmail } from "@/app/lib/email";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { hash } from "bcryptjs";
@@ -18,8 +23,8 @@ const notifySchema = z.object({
     .transform((value) => (value ? value : undefined)),
   loginPassword: z
     .string()
-    .min(6, "Password must be at least 6 characters")
-    .max(64, "Password must be 64 characters or fewer")
+    .min(6, "validation.passwordMin")
+    .max(64, "validation.passwordMax")
     .optional(),
 });
 
@@ -28,10 +33,11 @@ export async function POST(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
-  if (session.user.role !== "ADMIN") {
+  if (!can(session.user, "project:notify")) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -51,8 +57,7 @@ export async function POST(
   if (project.status !== "COMPLETED") {
     return NextResponse.json(
       {
-        error:
-          "Project must be marked as completed before notifying the client.",
+        error: t("errors.notifyNeedsCompleted"),
       },
       { status: 400 }
     );
@@ -65,7 +70,10 @@ export async function POST(
     parsed = notifySchema.parse(body);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: error.issues }, { status: 400 });
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
     }
     throw error;
   }
@@ -76,8 +84,7 @@ export async function POST(
   if (!primaryEmail) {
     return NextResponse.json(
       {
-        error:
-          "Client email is missing. Provide an email address before sending notifications.",
+        error: t("errors.clientEmailMissing"),
       },
       { status: 400 }
     );
@@ -93,7 +100,7 @@ export async function POST(
       const result = z.string().email().safeParse(cc);
       if (!result.success) {
         return NextResponse.json(
-          { error: `Invalid CC email: ${cc}` },
+          { error: t("errors.invalidCc", { email: cc }) },
           { status: 400 }
         );
       }
@@ -105,8 +112,7 @@ export async function POST(
   if (parsed.loginPassword && !loginEmail) {
     return NextResponse.json(
       {
-        error:
-          "Provide a login email when sending new credentials to the client.",
+        error: t("errors.loginEmailRequired"),
       },
       { status: 400 }
     );
@@ -120,8 +126,7 @@ export async function POST(
     if (!project.client?.id) {
       return NextResponse.json(
         {
-          error:
-            "Unable to reset password because the client record is missing.",
+          error: t("errors.clientRecordMissing"),
         },
         { status: 400 }
       );
@@ -130,6 +135,12 @@ export async function POST(
       where: { id: project.client.id },
       data: { passwordHash: await hash(trimmedLoginPassword, 10) },
     });
+    await recordAuditEvent(req, session.user, {
+      action: "user.password_set",
+      targetType: "user",
+      targetId: project.client.id,
+      projectId: id,
+    });
     passwordForEmail = trimmedLoginPassword;
   }
 
@@ -142,15 +153,13 @@ export async function POST(
       projectId: project.id,
       loginEmail,
       loginPassword: passwordForEmail,
+      userId: project.client?.id,
     });
   } catch (error: any) {
-    console.error("Failed to send project completion email:", error);
+    console.error("Failed to queue project completion email:", error);
     return NextResponse.json(
-      {
-        error:
-          "Failed to send the email. Please verify SMTP credentials and try again.",
-      },
-      { status: 502 }
+      { error: t("errors.queueEmailFailed") },
+      { status: 500 }
     );
   }
 
@@ -175,5 +184,27 @@ export async function POST(
     },
   });
 
+  await recordAuditEvent(req, session.user, {
+    action: "project.notify_client",
+    targetType: "project",
+    targetId: id,
+    projectId: id,
+    after: {
+      email: primaryEmail,
+      cc: ccList ?? [],
+      credentialsSent: Boolean(passwordForEmail),
+    },
+  });
+
+  await dispatchWebhookEvent(
+    "project.notified",
+    {
+      project: webhookProject(updated),
+      audience: "client",
+      recipients: [primaryEmail, ...(ccList ?? [])],
+    },
+    session.user
+  );
+
   return NextResponse.json(updated);
 }
@@ -1,6 +1,11 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
 import { sendProjectAssignmentEmail } from "@/app/lib/email";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -9,7 +14,7 @@ const payloadSchema = z
     notes: z
       .string()
       .trim()
-      .max(2000, "Notes must be 2000 characters or fewer")
+      .max(2000, "validation.notesMax")
       .optional(),
   })
   .optional()
@@ -20,10 +25,11 @@ export async function POST(
   ctx: { params: Promise<{ id: string; staffId: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
-  if (session.user.role !== "ADMIN") {
+  if (!can(session.user, "project:notify")) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -35,7 +41,10 @@ export async function POST(
     parsedBody = payloadSchema.parse(json);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: error.issues }, { status: 400 });
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
     }
     throw error;
   }
@@ -64,7 +73,7 @@ export async function POST(
   if (project.staffAssignments.length === 0) {
     return NextResponse.json(
       {
-        error: "Staff member is not assigned to this project.",
+        error: t("errors.staffNotAssigned"),
       },
       { status: 400 }
     );
@@ -74,7 +83,7 @@ export async function POST(
   if (!staff || !staff.email || staff.email.trim().length === 0) {
     return NextResponse.json(
       {
-        error: "Staff member email not found.",
+        error: t("errors.staffEmailMissing"),
       },
       { status: 400 }
     );
@@ -90,18 +99,37 @@ export async function POST(
       clientEmail: project.client?.email,
       createdByName: project.createdBy?.name,
       notes: parsedBody.notes,
+      userId: staff.id,
     });
   } catch (error: any) {
-    console.error("Failed to send project assignment email:", error);
+    console.error("Failed to queue project assignment email:", error);
     return NextResponse.json(
-      {
-        error:
-          "Failed to send the email. Please verify SMTP credentials and try again.",
-      },
-      { status: 502 }
+      { error: t("errors.queueEmailFailed") },
+      { status: 500 }
     );
   }
 
+  await recordAuditEvent(req, session.user, {
+    action: "project.notify_staff",
+    targetType: "project",
+    targetId: project.id,
+    projectId: project.id,
+    after: {
+      staffIds: [staff.id],
+      notes: parsedBody.notes ?? null,
+    },
+  });
+
+  await dispatchWebhookEvent(
+    "project.notified",
+    {
+      project: webhookProject(project),
+      audience: "staff",
+      recipients: [staff.email.trim()],
+    },
+    session.user
+  );
+
   return NextResponse.json({ ok: true });
 }
 
@@ -1,6 +1,12 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { auditChanges, recordAuditEvent } from "@/app/lib/audit";
 import { sendProjectAssignmentEmail } from "@/app/lib/email";
+import { notificationActor, notifyUsers } from "@/app/lib/notifications";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+import { liveFolderCounts } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import type { Prisma } from "@prisma/client";
@@ -17,12 +23,12 @@ export async function GET(
   _: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const t = await getTranslator();
   try {
     const session = await auth();
     if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
     const { id } = await ctx.params;
-    const { role, id: userId } = session.user;
 
     let project = await prisma.project.findUnique({
       where: { id },
@@ -39,6 +45,7 @@ export async function GET(
           select: { id: true, email: true, name: true, role: true },
         },
         assets: {
+          where: { deletedAt: null },
           include: {
             uploadedBy: { select: { id: true, email: true, name: true } },
             folder: { select: { id: true, name: true } },
@@ -46,6 +53,7 @@ export async function GET(
           orderBy: { createdAt: "desc" },
         },
         deliveries: {
+          where: { deletedAt: null },
           include: {
             uploadedBy: { select: { id: true, email: true, name: true } },
             folder: { select: { id: true, name: true } },
@@ -53,9 +61,10 @@ export async function GET(
           orderBy: { createdAt: "desc" },
         },
         folders: {
+          where: { deletedAt: null },
           include: {
             _count: {
-              select: { assets: true, deliveries: true },
+              select: liveFolderCounts,
             },
           },
           orderBy: [
@@ -112,6 +121,7 @@ export async function GET(
             select: { id: true, email: true, name: true, role: true },
           },
           assets: {
+            where: { deletedAt: null },
             include: {
               uploadedBy: { select: { id: true, email: true, name: true } },
               folder: { select: { id: true, name: true } },
@@ -119,6 +129,7 @@ export async function GET(
             orderBy: { createdAt: "desc" },
           },
           deliveries: {
+            where: { deletedAt: null },
             include: {
               uploadedBy: { select: { id: true, email: true, name: true } },
               folder: { select: { id: true, name: true } },
@@ -126,9 +137,10 @@ export async function GET(
             orderBy: { createdAt: "desc" },
           },
           folders: {
+            where: { deletedAt: null },
             include: {
               _count: {
-                select: { assets: true, deliveries: true },
+                select: liveFolderCounts,
               },
             },
             orderBy: [{ type: "asc" }, { createdAt: "desc" }],
@@ -140,24 +152,13 @@ export async function GET(
       }
     }
 
-    // Check permissions
-    if (role === "CLIENT" && project.clientId !== userId) {
-      return new NextResponse("Forbidden", { status: 403 });
-    }
-    const staffIds = new Set(
-      project.staffAssignments.map((assignment) => assignment.staffId)
-    );
-    if (
-      role === "STAFF" &&
-      !staffIds.has(userId) &&
-      project.createdById !== userId
-    ) {
-      // Staff can view projects they're assigned to OR projects they created
+    if (!can(session.user, "project:view", project)) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
-    // For clients, filter out assets and ASSETS folders - they should only see deliverables
-    if (role === "CLIENT") {
+    // Clients only see deliverables. Filtered here rather than in the query
+    // so the ASSETS folder check above still finds the folder.
+    if (!can(session.user, "asset:list", project)) {
       const filteredProject = {
         ...project,
         assets: [],
@@ -170,7 +171,7 @@ export async function GET(
   } catch (error: any) {
     console.error("Error in GET /api/projects/[id]:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to fetch project" },
+      { error: error.message || t("errors.fetchProjectFailed") },
       { status: 500 }
     );
   }
@@ -182,6 +183,7 @@ export async function PATCH(
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) return new NextResponse("Unauthorized", { status: 401 });
 
   const { id } = await ctx.params;
@@ -198,22 +200,18 @@ export async function PATCH(
         staffAssignments: {
           select: { staffId: true },
         },
-        _count: { select: { deliveries: true } },
+        _count: { select: { deliveries: { where: { deletedAt: null } } } },
       },
     });
 
     if (!project) return new NextResponse("Not Found", { status: 404 });
 
-    // Check permissions
-    if (role === "CLIENT") {
+    if (!can(session.user, "project:update", project)) {
       return new NextResponse("Forbidden", { status: 403 });
     }
     const existingStaffIds = new Set(
       project.staffAssignments.map((assignment) => assignment.staffId)
     );
-    if (role === "STAFF" && !existingStaffIds.has(userId)) {
-      return new NextResponse("Forbidden", { status: 403 });
-    }
 
     const updateData: Prisma.ProjectUpdateInput = {};
 
@@ -230,7 +228,7 @@ export async function PATCH(
         }[]
       | undefined;
     if (parsed.staffIds !== undefined) {
-      if (role !== "ADMIN") {
+      if (!can(session.user, "project:assignStaff", project)) {
         const incomingStaffIds = new Set(parsed.staffIds);
         const removedStaff = [...existingStaffIds].filter(
           (staffId) => !incomingStaffIds.has(staffId)
@@ -261,8 +259,7 @@ export async function PATCH(
       ) {
         return NextResponse.json(
           {
-            error:
-              "You must upload at least one delivery before marking the project as completed.",
+            error: t("errors.completeNeedsDelivery"),
           },
           { status: 400 }
         );
@@ -383,41 +380,69 @@ export async function PATCH(
 
       updated = updatedProject;
 
-      // Automatically send emails to all assigned staff (including newly assigned)
-      if (updated.staffAssignments.length > 0) {
-        const assignedStaff = updated.staffAssignments
-          .map((assignment) => assignment.staff)
-          .filter(
-            (
-              staff
-            ): staff is { id: string; email: string; name: string | null } =>
-              Boolean(staff?.email && staff.email.trim().length > 0)
-          );
-
-        // Send emails to all assigned staff in the background
-        // We don't await this to avoid blocking the response
-        Promise.all(
-          assignedStaff.map((staff) =>
-            sendProjectAssignmentEmail({
-              to: staff.email.trim(),
-              staffName: staff.name,
-              projectTitle: updated.title,
-              projectId: updated.id,
-              clientName: updated.client?.name,
-              clientEmail: updated.client?.email,
-              createdByName: session.user.name || session.user.email,
-            }).catch((error) => {
-              console.error(
-                `Failed to send assignment email to ${staff.email}:`,
-                error
-              );
-              // Don't throw - we don't want email failures to break the assignment
-            })
-          )
-        ).catch((error) => {
-          console.error("Error sending assignment emails:", error);
-        });
+      // Newly assigned staff who want emails straight away get the full
+      // assignment email instead of the generic one
+      await notifyUsers(
+        staffAssignmentsUpdate
+          .map((assignment) => assignment.staffId)
+          .filter((staffId) => !existingStaffIds.has(staffId)),
+        {
+          type: "project.assigned",
+          projectId: id,
+          actorId: userId,
+          data: {
+            projectTitle: updated.title,
+            actor: notificationActor(session.user),
+          },
+        },
+        (staff) =>
+          sendProjectAssignmentEmail({
+            to: staff.email.trim(),
+            staffName: staff.name,
+            projectTitle: updated.title,
+            projectId: updated.id,
+            clientName: updated.client?.name,
+            clientEmail: updated.client?.email,
+            createdByName: session.user.name || session.user.email,
+            userId: staff.id,
+          })
+      );
+    }
+
+    const changes = auditChanges(
+      {
+        title: project.title,
+        description: project.description,
+        status: project.status,
+        staffIds: [...existingStaffIds].sort(),
+      },
+      {
+        title: updated.title,
+        description: updated.description,
+        status: updated.status,
+        staffIds: updated.staffAssignments
+          .map((assignment) => assignment.staffId)
+          .sort(),
       }
+    );
+    await recordAuditEvent(req, session.user, {
+      action: "project.update",
+      targetType: "project",
+      targetId: id,
+      projectId: id,
+      ...changes,
+    });
+
+    if (updated.status !== project.status) {
+      await dispatchWebhookEvent(
+        "project.status_changed",
+        {
+          project: webhookProject(updated),
+          status: updated.status,
+          previousStatus: project.status,
+        },
+        session.user
+      );
     }
 
     return NextResponse.json(updated);
@@ -426,7 +451,7 @@ export async function PATCH(
       return NextResponse.json({ error: error.issues }, { status: 400 });
     }
     return NextResponse.json(
-      { error: error.message || "Failed to update project" },
+      { error: error.message || t("errors.updateProjectFailed") },
       { status: 500 }
     );
   }
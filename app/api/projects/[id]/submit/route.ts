@@ -1,22 +1,29 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { syncProjectReviewStatus } from "@/app/lib/delivery-review";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  adminUserIds,
+  notificationActor,
+  notifyUsers,
+} from "@/app/lib/notifications";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
 
 export async function POST(
-  _: Request,
+  req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
 
   const { id } = await ctx.params;
-  const { id: userId, role } = session.user;
-
-  if (role !== "STAFF") {
-    return new NextResponse("Forbidden", { status: 403 });
-  }
+  const { id: userId } = session.user;
 
   const project = await prisma.project.findUnique({
     where: { id },
@@ -24,10 +31,8 @@ export async function POST(
       status: true,
       completionNotifiedAt: true,
       completionSubmittedAt: true,
-      _count: { select: { deliveries: true } },
-      staffAssignments: {
-        select: { staffId: true },
-      },
+      _count: { select: { deliveries: { where: { deletedAt: null } } } },
+      ...projectPolicySelect,
     },
   });
 
@@ -35,18 +40,14 @@ export async function POST(
     return new NextResponse("Not Found", { status: 404 });
   }
 
-  const staffIds = new Set(
-    project.staffAssignments.map((assignment) => assignment.staffId)
-  );
-  if (!staffIds.has(userId)) {
+  if (!can(session.user, "project:submit", project)) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
   if (project._count.deliveries === 0) {
     return NextResponse.json(
       {
-        error:
-          "Upload at least one delivery before submitting the project to the admin.",
+        error: t("errors.submitNeedsDelivery"),
       },
       { status: 400 }
     );
@@ -61,14 +62,49 @@ export async function POST(
     },
     select: {
       id: true,
+      title: true,
       status: true,
       completionSubmittedAt: true,
       completionNotifiedAt: true,
     },
   });
 
+  if (project.status !== updated.status) {
+    await dispatchWebhookEvent(
+      "project.status_changed",
+      {
+        project: webhookProject(updated),
+        status: updated.status,
+        previousStatus: project.status,
+      },
+      session.user
+    );
+  }
+
+  // Deliveries the client already reviewed keep their state
+  const status = await syncProjectReviewStatus(id);
+
+  await recordAuditEvent(req, session.user, {
+    action: "project.submit",
+    targetType: "project",
+    targetId: id,
+    projectId: id,
+    before: { status: project.status },
+    after: { status: status ?? updated.status },
+  });
+
+  await notifyUsers(await adminUserIds(), {
+    type: "project.submitted",
+    projectId: id,
+    actorId: userId,
+    data: {
+      projectTitle: updated.title,
+      actor: notificationActor(session.user),
+    },
+  });
+
   return NextResponse.json({
     ok: true,
-    project: updated,
+    project: { ...updated, status: status ?? updated.status },
   });
 }
@@ -0,0 +1,68 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import {
+  can,
+  projectContentScope,
+  projectPolicySelect,
+} from "@/app/lib/policy";
+import { listProjectTrash, TRASH_RETENTION_DAYS } from "@/app/lib/trash";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - Items in the project's Trash, newest first
+export async function GET(
+  _: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: projectPolicySelect,
+  });
+
+  if (!project) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "trash:view", project)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  try {
+    const items = await listProjectTrash(id, projectContentScope(session.user));
+    const mayDeletePermanently = can(
+      session.user,
+      "trash:deletePermanently",
+      project
+    );
+
+    return NextResponse.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      items: items.map(({ uploadedById, ...item }) => {
+        // Restoring needs the same rights as deleting in the first place
+        const canRestore =
+          item.kind === "FOLDER"
+            ? can(session.user, "folder:delete", project)
+            : can(
+                session.user,
+                item.kind === "ASSET" ? "asset:delete" : "delivery:delete",
+                { project, uploadedById: uploadedById ?? "" }
+              );
+        return {
+          ...item,
+          canRestore,
+          canDeletePermanently: canRestore && mayDeletePermanently,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error listing trash:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.loadTrashFailed") },
+      { status: 500 }
+    );
+  }
+}
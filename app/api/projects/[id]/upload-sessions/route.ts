@@ -0,0 +1,59 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { uploadedBytes } from "@/app/lib/project-uploads";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// GET - The caller's unfinished uploads into this project, newest first
+export async function GET(
+  _: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: projectPolicySelect,
+  });
+
+  if (!project) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "project:view", project)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  try {
+    const sessions = await prisma.uploadSession.findMany({
+      where: { userId: session.user.id, projectId: id },
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return NextResponse.json({
+      sessions: sessions.map((upload) => ({
+        id: upload.id,
+        kind: upload.kind,
+        folderId: upload.folderId,
+        deliveryId: upload.deliveryId,
+        filename: upload.filename,
+        contentType: upload.contentType,
+        sizeBytes: upload.sizeBytes,
+        uploadedBytes: uploadedBytes(upload),
+        fingerprint: upload.fingerprint,
+        updatedAt: upload.updatedAt,
+      })),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message || t("errors.fetchUploadSessionsFailed"),
+      },
+      { status: 500 }
+    );
+  }
+}
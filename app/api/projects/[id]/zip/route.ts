@@ -0,0 +1,85 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import {
+  can,
+  projectContentScope,
+  projectPolicySelect,
+} from "@/app/lib/policy";
+import {
+  buildProjectZipEntries,
+  type ProjectZipSelection,
+} from "@/app/lib/project-zip";
+import { createZipStream, sanitizeZipSegment } from "@/app/lib/zip-stream";
+import { contentDisposition } from "@/app/lib/http-download";
+import { NextResponse } from "next/server";
+
+const idList = (value: string | null) =>
+  (value ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+// GET - Stream a ZIP of the whole project, or of
+// ?folderIds=a,b&assetIds=c&deliveryIds=d (folders are included recursively)
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await params;
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: { title: true, ...projectPolicySelect },
+  });
+
+  if (!project) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "project:view", project)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const selection: ProjectZipSelection = {
+    folderIds: idList(searchParams.get("folderIds")),
+    assetIds: idList(searchParams.get("assetIds")),
+    deliveryIds: idList(searchParams.get("deliveryIds")),
+  };
+
+  // Clients get deliverables only; selecting an asset or an ASSETS folder
+  // answers 404 like an id from another project
+  const entries = await buildProjectZipEntries(
+    id,
+    selection,
+    projectContentScope(session.user)
+  );
+  if (!entries) return new NextResponse("Not Found", { status: 404 });
+
+  // Name the archive after the folder when exactly one is downloaded
+  const projectName = project.title || "project";
+  let archiveName = projectName;
+  if (
+    selection.folderIds.length === 1 &&
+    selection.assetIds.length === 0 &&
+    selection.deliveryIds.length === 0
+  ) {
+    const folder = await prisma.folder.findUnique({
+      where: { id: selection.folderIds[0] },
+      select: { name: true },
+    });
+    if (folder) archiveName = `${projectName} - ${folder.name}`;
+  }
+
+  return new NextResponse(createZipStream(entries), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": contentDisposition(
+        "attachment",
+        `${sanitizeZipSegment(archiveName)}.zip`
+      ),
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -1,32 +1,25 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { can, projectScope } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { dispatchWebhookEvent } from "@/app/lib/webhooks";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { NextResponse } from "next/server";
-import type { Prisma } from "@prisma/client";
 import { z } from "zod";
 
 export async function GET() {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
 
-  const { role, id: userId } = session.user;
+  const { role } = session.user;
 
   try {
-    let whereClause: Prisma.ProjectWhereInput;
-
-    if (role === "ADMIN") {
-      whereClause = {};
-    } else if (role === "STAFF") {
-      whereClause = {
-        OR: [
-          { staffAssignments: { some: { staffId: userId } } },
-          { createdById: userId },
-        ],
-      };
-    } else if (role === "CLIENT") {
-      whereClause = { clientId: userId };
-    } else {
+    const whereClause = projectScope(session.user);
+    if (!whereClause || !can(session.user, "project:list")) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
@@ -44,11 +37,13 @@ export async function GET() {
           orderBy: { assignedAt: "asc" },
         },
         assets: {
+          where: { deletedAt: null },
           select: { id: true, filename: true, type: true },
           orderBy: { createdAt: "desc" },
           take: 20,
         },
         deliveries: {
+          where: { deletedAt: null },
           select: { id: true, filename: true },
           orderBy: { createdAt: "desc" },
           take: 20,
@@ -69,7 +64,7 @@ export async function GET() {
   } catch (error: any) {
     console.error("Error fetching projects:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to fetch projects" },
+      { error: error.message || t("errors.fetchProjectsFailed") },
       { status: 500 }
     );
   }
@@ -88,17 +83,18 @@ const createProjectSchema = z.object({
     .max(2000)
     .optional()
     .transform((value) => value || undefined),
-  clientId: z.string().min(1, "Client is required"),
+  clientId: z.string().min(1, "validation.clientRequired"),
 });
 
 export async function POST(request: Request) {
   const session = await auth();
+  const t = await getTranslator();
   if (!session) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
 
   const { user } = session;
-  if (!user || user.role !== "ADMIN") {
+  if (!user || !can(user, "project:create")) {
     return new NextResponse("Forbidden", { status: 403 });
   }
 
@@ -106,15 +102,18 @@ export async function POST(request: Request) {
   try {
     body = await request.json();
   } catch {
-    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    return NextResponse.json(
+      { error: t("errors.invalidJson") },
+      { status: 400 }
+    );
   }
 
   const parsed = createProjectSchema.safeParse(body);
   if (!parsed.success) {
     return NextResponse.json(
       {
-        error: "Validation failed",
-        details: parsed.error.issues,
+        error: t("errors.validationFailed"),
+        details: localizeIssues(parsed.error.issues, t),
       },
       { status: 400 }
     );
@@ -152,11 +151,32 @@ export async function POST(request: Request) {
       skipDuplicates: true,
     });
 
+    await recordAuditEvent(request, user, {
+      action: "project.create",
+      targetType: "project",
+      targetId: project.id,
+      projectId: project.id,
+      after: { title, description, clientId, status: "PENDING" },
+    });
+
+    await dispatchWebhookEvent(
+      "project.created",
+      {
+        project: {
+          id: project.id,
+          title: title ?? null,
+          status: "PENDING",
+          clientId,
+        },
+      },
+      user
+    );
+
     return NextResponse.json(project, { status: 201 });
   } catch (error: any) {
     console.error("Error creating project:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to create project" },
+      { error: error.message || t("errors.createProjectFailed") },
       { status: 500 }
     );
   }
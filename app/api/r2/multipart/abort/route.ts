@@ -1,23 +1,37 @@
 import { auth } from "@/app/lib/auth";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { prisma } from "@/app/lib/prisma";
+import { getStorage } from "@/app/lib/storage";
 import { NextResponse } from "next/server";
-import { AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
 
+// Cancels a multipart upload. Project files (assets/<projectId>/…,
+// deliveries/<projectId>/…) need the upload right on that project; anything
+// else is a legacy video upload.
 export async function POST(req: Request) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
-    return new NextResponse("Unauthorized", { status: 401 });
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
   const body = await req.json();
   const { key, uploadId } = body as { key: string; uploadId: string };
   if (!key || !uploadId)
     return new NextResponse("Bad Request", { status: 400 });
-  const client = getR2Client();
-  await client.send(
-    new AbortMultipartUploadCommand({
-      Bucket: R2_BUCKET,
-      Key: key,
-      UploadId: uploadId,
-    })
-  );
+
+  const [prefix, projectId] = key.split("/");
+  if (prefix === "assets" || prefix === "deliveries") {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: projectPolicySelect,
+    });
+    if (!project) return new NextResponse("Not Found", { status: 404 });
+    const action = prefix === "assets" ? "asset:upload" : "delivery:upload";
+    if (!can(session.user, action, project)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+  } else if (!can(session.user, "video:upload")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  await getStorage().abortMultipartUpload(key, uploadId);
+  // Nothing left to resume
+  await prisma.uploadSession.deleteMany({ where: { key } });
   return NextResponse.json({ ok: true });
 }
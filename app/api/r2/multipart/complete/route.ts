@@ -1,55 +1,81 @@
 import { auth } from "@/app/lib/auth";
+import { can } from "@/app/lib/policy";
 import { prisma } from "@/app/lib/prisma";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { completeVerifiedUpload } from "@/app/lib/project-uploads";
+import type { StoragePart } from "@/app/lib/storage";
 import { NextResponse } from "next/server";
-import { CompleteMultipartUploadCommand } from "@aws-sdk/client-s3";
-
-type Part = { ETag: string; PartNumber: number };
 
 export async function POST(req: Request) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  if (!session || !can(session.user, "video:upload"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   const body = await req.json();
-  const { key, uploadId, parts, ownerId, filename, contentType, sizeBytes } =
-    body as {
-      key: string;
-      uploadId: string;
-      parts: Part[];
-      ownerId: string;
-      filename?: string;
-      contentType?: string;
-      sizeBytes?: number;
-    };
+  const {
+    key,
+    uploadId,
+    parts,
+    ownerId,
+    filename,
+    contentType,
+    sizeBytes,
+    sha256,
+  } = body as {
+    key: string;
+    uploadId: string;
+    parts: StoragePart[];
+    ownerId: string;
+    filename?: string;
+    contentType?: string;
+    sizeBytes?: number;
+    // Hex SHA-256 of the whole file
+    sha256?: string;
+  };
 
-  if (!key || !uploadId || !parts?.length || !ownerId)
+  if (
+    !key ||
+    !uploadId ||
+    !parts?.length ||
+    !ownerId ||
+    (sha256 !== undefined && !/^[0-9a-f]{64}$/.test(sha256))
+  )
     return new NextResponse("Bad Request", { status: 400 });
 
-  const client = getR2Client();
-
-  const result = await client.send(
-    new CompleteMultipartUploadCommand({
-      Bucket: R2_BUCKET,
-      Key: key,
-      UploadId: uploadId,
-      MultipartUpload: {
-        Parts: parts.sort((a, b) => a.PartNumber - b.PartNumber),
-      },
-    })
-  );
+  const result = await completeVerifiedUpload({
+    key,
+    uploadId,
+    parts,
+    sizeBytes: sizeBytes || 0,
+  });
+  if (!result) {
+    const t = await getTranslator();
+    return NextResponse.json(
+      { error: t("errors.uploadSizeMismatch") },
+      { status: 422 }
+    );
+  }
 
   // Persist video record
-  await prisma.video.create({
+  const video = await prisma.video.create({
     data: {
       key,
       filename:
         filename || decodeURIComponent(key.split("-").slice(1).join("-")),
       contentType: contentType || "video/mp4",
       sizeBytes: sizeBytes || 0,
+      sha256: sha256 ?? null,
       ownerId,
     },
   });
 
-  return NextResponse.json({ ok: true, location: result.Location });
+  await recordAuditEvent(req, session.user, {
+    action: "video.create",
+    targetType: "video",
+    targetId: video.id,
+    after: { filename: video.filename, sizeBytes: video.sizeBytes, ownerId },
+  });
+
+  return NextResponse.json({ ok: true, location: result.location });
 }
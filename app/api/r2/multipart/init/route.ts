@@ -1,26 +1,22 @@
 import { auth } from "@/app/lib/auth";
-import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { can } from "@/app/lib/policy";
+import { getStorage } from "@/app/lib/storage";
 import { NextResponse } from "next/server";
-import {
-  CreateMultipartUploadCommand,
-  UploadPartCommand,
-  ListPartsCommand,
-  CompleteMultipartUploadCommand,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const DEFAULT_PART_SIZE = 10 * 1024 * 1024; // 10MB
 
 export async function POST(req: Request) {
   const session = await auth();
-  if (!session || session.user?.role !== "ADMIN")
+  if (!session || !can(session.user, "video:upload"))
     return new NextResponse("Unauthorized", { status: 401 });
 
   const body = await req.json();
-  const { filename, contentType, sizeBytes } = body as {
+  const { filename, contentType, sizeBytes, checksums } = body as {
     filename: string;
     contentType?: string | null;
     sizeBytes: number;
+    // Set when the browser sends each part with its SHA-256
+    checksums?: boolean;
   };
   if (!filename || !sizeBytes)
     return new NextResponse("Bad Request", { status: 400 });
@@ -28,34 +24,19 @@ export async function POST(req: Request) {
   const effectiveContentType =
     contentType?.trim() || "application/octet-stream";
 
-  const client = getR2Client();
+  const storage = getStorage();
   const key = `videos/${Date.now()}-${encodeURIComponent(filename)}`;
 
-  const create = await client.send(
-    new CreateMultipartUploadCommand({
-      Bucket: R2_BUCKET,
-      Key: key,
-      ContentType: effectiveContentType,
-    })
-  );
-  const uploadId = create.UploadId!;
+  const { uploadId } = await storage.createMultipartUpload(key, {
+    contentType: effectiveContentType,
+    checksums: checksums === true,
+  });
 
   const partSize = DEFAULT_PART_SIZE;
   const partCount = Math.ceil(sizeBytes / partSize);
-  const urls: string[] = [];
-  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
-    const url = await getSignedUrl(
-      client,
-      new UploadPartCommand({
-        Bucket: R2_BUCKET,
-        Key: key,
-        UploadId: uploadId,
-        PartNumber: partNumber,
-      }),
-      { expiresIn: 60 * 60 }
-    );
-    urls.push(url);
-  }
+  const urls = await storage.getUploadPartUrls(key, uploadId, partCount, {
+    expiresIn: 60 * 60,
+  });
 
   const base = new URL(req.url);
   const completeUrl = `${base.origin}/api/r2/multipart/complete`;
@@ -66,6 +47,7 @@ export async function POST(req: Request) {
     key,
     partSize,
     presignedPartUrls: urls,
+    checksums: checksums === true,
     completeUrl,
     abortUrl,
   });
@@ -1,112 +1,11 @@
+import { createHash } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import https from "https";
-import { URL } from "url";
+import { getStorage } from "@/app/lib/storage";
+import { getTranslator } from "@/app/lib/i18n/server";
 
-// Create a custom HTTPS agent with increased timeouts and IPv4 preference
-const httpsAgent = new https.Agent({
-  keepAlive: true,
-  keepAliveMsecs: 1000,
-  timeout: 600000, // 10 minutes
-  family: 4, // Force IPv4
-  maxSockets: 50,
-});
-
-// Helper function to make PUT request using native https module
-function putRequest(
-  url: string,
-  data: Buffer,
-  headers: Record<string, string>,
-  timeout: number
-): Promise<{
-  statusCode: number;
-  headers: Record<string, string | string[]>;
-  body: string;
-}> {
-  return new Promise((resolve, reject) => {
-    const urlObj = new URL(url);
-    let timeoutId: NodeJS.Timeout | undefined;
-    let isResolved = false;
-
-    const options: https.RequestOptions = {
-      hostname: urlObj.hostname,
-      port: urlObj.port || 443,
-      path: `${urlObj.pathname}${urlObj.search}`,
-      method: "PUT",
-      headers: {
-        ...headers,
-        "Content-Length": data.length.toString(),
-      },
-      agent: httpsAgent,
-      family: 4,
-    };
-
-    const clearTimer = () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = undefined;
-      }
-    };
-
-    const req = https.request(options, (res) => {
-      clearTimer();
-      let body = "";
-
-      res.on("data", (chunk) => {
-        body += chunk.toString();
-      });
-
-      res.on("end", () => {
-        if (isResolved) return;
-        isResolved = true;
-
-        const normalizedHeaders: Record<string, string | string[]> = {};
-        for (const [key, value] of Object.entries(res.headers)) {
-          if (typeof value === "string" || Array.isArray(value)) {
-            normalizedHeaders[key] = value;
-          }
-        }
-
-        resolve({
-          statusCode: res.statusCode ?? 500,
-          headers: normalizedHeaders,
-          body,
-        });
-      });
-
-      res.on("error", (error: NodeJS.ErrnoException) => {
-        if (isResolved) return;
-        isResolved = true;
-        clearTimer();
-        reject(error);
-      });
-    });
-
-    const handleTimeout = () => {
-      if (isResolved) return;
-      isResolved = true;
-      clearTimer();
-      req.destroy(new Error(`Request timeout after ${timeout}ms`));
-      reject(new Error(`Request timeout after ${timeout}ms`));
-    };
-
-    timeoutId = setTimeout(handleTimeout, timeout);
-
-    req.on("error", (error: NodeJS.ErrnoException) => {
-      if (isResolved) return;
-      isResolved = true;
-      clearTimer();
-      reject(error);
-    });
-
-    req.setTimeout(timeout, handleTimeout);
-
-    req.write(data);
-    req.end();
-  });
-}
-
-// Proxy route to handle R2 upload parts and avoid CORS issues
+// Proxy route to handle storage upload parts and avoid CORS issues
 export async function PUT(req: NextRequest) {
+  const t = await getTranslator();
   try {
     const { searchParams } = new URL(req.url);
     const uploadUrl = searchParams.get("url");
@@ -148,18 +47,29 @@ export async function PUT(req: NextRequest) {
       const arrayBuffer = await blob.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
 
-      // Use native https request for better reliability
       const contentType =
         req.headers.get("Content-Type") || "application/octet-stream";
 
-      const result = await putRequest(
-        uploadUrl,
-        buffer,
-        {
-          "Content-Type": contentType,
-        },
-        timeoutMs
-      );
+      // The browser's SHA-256 of the part (base64). Checked here so damage
+      // on the way in is reported before storage sees it, then passed on
+      // for storage to check again.
+      const checksumSha256 =
+        req.headers.get("x-amz-checksum-sha256") || undefined;
+      if (
+        checksumSha256 &&
+        createHash("sha256").update(buffer).digest("base64") !== checksumSha256
+      ) {
+        return NextResponse.json(
+          { error: t("errors.partChecksumMismatch") },
+          { status: 400 }
+        );
+      }
+
+      const result = await getStorage().uploadSignedPart(uploadUrl, buffer, {
+        contentType,
+        timeoutMs,
+        checksumSha256,
+      });
 
       if (result.statusCode < 200 || result.statusCode >= 300) {
         console.error(
@@ -167,7 +77,9 @@ export async function PUT(req: NextRequest) {
         );
         return NextResponse.json(
           {
-            error: `Upload failed: HTTP ${result.statusCode}`,
+            error: t("errors.uploadFailedStatus", {
+              status: result.statusCode,
+            }),
             status: result.statusCode,
             details: result.body,
           },
@@ -175,13 +87,7 @@ export async function PUT(req: NextRequest) {
         );
       }
 
-      // Get ETag from response headers
-      const etagHeader = result.headers["etag"] || result.headers["ETag"];
-      const etag = Array.isArray(etagHeader) ? etagHeader[0] : etagHeader || "";
-      // Remove quotes from ETag if present (AWS S3/R2 returns ETags with quotes)
-      const cleanEtag = etag.replace(/^"|"$/g, "");
-
-      return NextResponse.json({ etag: cleanEtag });
+      return NextResponse.json({ etag: result.etag });
     } catch (uploadError: any) {
       // Handle timeout errors
       if (
@@ -195,9 +101,9 @@ export async function PUT(req: NextRequest) {
         );
         return NextResponse.json(
           {
-            error: `Upload timeout: File part too large or connection too slow. Tried for ${Math.round(
-              timeoutMs / 1000
-            )}s`,
+            error: t("errors.uploadTimeout", {
+              seconds: Math.round(timeoutMs / 1000),
+            }),
             timeout: true,
             size: blobSize,
           },
@@ -209,7 +115,7 @@ export async function PUT(req: NextRequest) {
       console.error("Upload part error:", uploadError);
       return NextResponse.json(
         {
-          error: uploadError.message || "Upload failed",
+          error: uploadError.message || t("errors.uploadFailed"),
           details: uploadError.code || uploadError.name,
         },
         { status: 500 }
@@ -219,7 +125,7 @@ export async function PUT(req: NextRequest) {
     console.error("Upload part error (outer catch):", error);
     return NextResponse.json(
       {
-        error: error.message || "Upload failed",
+        error: error.message || t("errors.uploadFailed"),
         details: error.code || error.name,
       },
       { status: 500 }
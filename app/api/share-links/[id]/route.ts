@@ -0,0 +1,47 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { NextResponse } from "next/server";
+
+// DELETE - Revoke a share link (kept for its counters)
+export async function DELETE(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const link = await prisma.shareLink.findUnique({
+    where: { id },
+    select: {
+      projectId: true,
+      createdById: true,
+      revokedAt: true,
+      project: { select: projectPolicySelect },
+    },
+  });
+
+  if (!link) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "share:manage", link)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  if (!link.revokedAt) {
+    await prisma.shareLink.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    await recordAuditEvent(req, session.user, {
+      action: "share_link.revoke",
+      targetType: "share_link",
+      targetId: id,
+      projectId: link.projectId,
+    });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,209 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { createShareToken, hashShareToken } from "@/app/lib/share-token";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { localizeIssues } from "@/app/lib/i18n";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+import { hash } from "bcryptjs";
+import { z } from "zod";
+
+const MAX_EXPIRY_DAYS = 90;
+
+const createShareLinkSchema = z
+  .object({
+    deliveryId: z.string().optional(),
+    folderId: z.string().optional(),
+    expiresAt: z.coerce.date(),
+    password: z
+      .string()
+      .min(4, "validation.passwordMin")
+      .max(64)
+      .optional(),
+    allowDownload: z.boolean().default(true),
+  })
+  .refine((value) => !!value.deliveryId !== !!value.folderId, {
+    message: "validation.shareTarget",
+    path: ["deliveryId"],
+  })
+  .refine((value) => value.expiresAt.getTime() > Date.now(), {
+    message: "validation.expiryFuture",
+    path: ["expiresAt"],
+  })
+  .refine(
+    (value) =>
+      value.expiresAt.getTime() <=
+      Date.now() + MAX_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: "validation.expiryMax",
+      path: ["expiresAt"],
+      params: { days: MAX_EXPIRY_DAYS },
+    }
+  );
+
+const shareLinkSelect = {
+  id: true,
+  projectId: true,
+  deliveryId: true,
+  folderId: true,
+  expiresAt: true,
+  allowDownload: true,
+  viewCount: true,
+  downloadCount: true,
+  lastAccessedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdById: true,
+  passwordHash: true,
+  delivery: { select: { id: true, filename: true } },
+  folder: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, email: true, name: true } },
+} as const;
+
+// Never send the password hash to the browser
+const serialize = <T extends { passwordHash: string | null }>({
+  passwordHash,
+  ...link
+}: T) => ({ ...link, hasPassword: !!passwordHash });
+
+// GET - Share links for a project that the user may manage
+export async function GET(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const projectId = new URL(req.url).searchParams.get("projectId");
+  if (!projectId) {
+    return NextResponse.json(
+      { error: t("errors.projectIdRequired") },
+      { status: 400 }
+    );
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: projectPolicySelect,
+  });
+  if (!project) return new NextResponse("Not Found", { status: 404 });
+
+  if (!can(session.user, "project:view", project)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const links = await prisma.shareLink.findMany({
+    where: { projectId },
+    select: shareLinkSelect,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(
+    links
+      .filter((link) => can(session.user, "share:manage", { ...link, project }))
+      .map(serialize)
+  );
+}
+
+// POST - Create a share link; the raw token is only returned here
+export async function POST(req: Request) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  try {
+    const body = await req.json();
+    const parsed = createShareLinkSchema.parse(body);
+
+    let projectId: string;
+    if (parsed.deliveryId) {
+      const delivery = await prisma.delivery.findUnique({
+        where: { id: parsed.deliveryId, deletedAt: null },
+        select: { projectId: true },
+      });
+      if (!delivery) {
+        return NextResponse.json(
+          { error: t("errors.deliveryNotFound") },
+          { status: 404 }
+        );
+      }
+      projectId = delivery.projectId;
+    } else {
+      const folder = await prisma.folder.findUnique({
+        where: { id: parsed.folderId, deletedAt: null },
+        select: { projectId: true, type: true },
+      });
+      if (!folder) {
+        return NextResponse.json(
+          { error: t("errors.folderNotFound") },
+          { status: 404 }
+        );
+      }
+      if (folder.type !== "DELIVERABLES") {
+        return NextResponse.json(
+          { error: t("errors.onlyDeliverablesShared") },
+          { status: 400 }
+        );
+      }
+      projectId = folder.projectId;
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: projectPolicySelect,
+    });
+    if (!project || !can(session.user, "share:create", project)) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const token = await createShareToken();
+    const link = await prisma.shareLink.create({
+      data: {
+        tokenHash: await hashShareToken(token),
+        projectId,
+        deliveryId: parsed.deliveryId ?? null,
+        folderId: parsed.folderId ?? null,
+        createdById: session.user.id,
+        expiresAt: parsed.expiresAt,
+        passwordHash: parsed.password ? await hash(parsed.password, 10) : null,
+        allowDownload: parsed.allowDownload,
+      },
+      select: shareLinkSelect,
+    });
+
+    await recordAuditEvent(req, session.user, {
+      action: "share_link.create",
+      targetType: "share_link",
+      targetId: link.id,
+      projectId,
+      after: {
+        deliveryId: parsed.deliveryId ?? null,
+        folderId: parsed.folderId ?? null,
+        expiresAt: parsed.expiresAt,
+        passwordProtected: Boolean(parsed.password),
+        allowDownload: parsed.allowDownload,
+      },
+    });
+
+    const base = new URL(req.url);
+    return NextResponse.json(
+      {
+        ...serialize(link),
+        token,
+        url: `${base.origin}/share/${token}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: localizeIssues(error.issues, t) },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating share link:", error);
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.createShareLinkFailed") },
+      { status: 500 }
+    );
+  }
+}
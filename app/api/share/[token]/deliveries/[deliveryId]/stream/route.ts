@@ -0,0 +1,11 @@
+import { serveSharedDelivery } from "@/app/lib/share-links";
+import type { NextRequest } from "next/server";
+
+// GET - Public: stream a delivery through a share link
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ token: string; deliveryId: string }> }
+) {
+  const { token, deliveryId } = await ctx.params;
+  return serveSharedDelivery(req, token, deliveryId, "stream");
+}
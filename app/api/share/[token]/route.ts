@@ -0,0 +1,55 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  findActiveShareLink,
+  getSharedContent,
+  hasShareAccess,
+} from "@/app/lib/share-links";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse, type NextRequest } from "next/server";
+
+// GET - Public: what a share link exposes. Counts as a view.
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ token: string }> }
+) {
+  const t = await getTranslator();
+  const { token } = await ctx.params;
+
+  const link = await findActiveShareLink(token);
+  if (!link) {
+    return NextResponse.json(
+      { error: t("errors.linkExpired") },
+      { status: 404 }
+    );
+  }
+
+  const title =
+    link.delivery?.filename ||
+    link.folder?.name ||
+    link.project.title ||
+    "Shared files";
+
+  if (!(await hasShareAccess(req, link))) {
+    return NextResponse.json(
+      { error: t("errors.passwordRequired"), passwordRequired: true, title },
+      { status: 401 }
+    );
+  }
+
+  const { folders, deliveries } = await getSharedContent(link);
+
+  await prisma.shareLink.update({
+    where: { id: link.id },
+    data: { viewCount: { increment: 1 }, lastAccessedAt: new Date() },
+  });
+
+  return NextResponse.json({
+    title,
+    projectTitle: link.project.title,
+    expiresAt: link.expiresAt,
+    allowDownload: link.allowDownload,
+    rootFolderId: link.folderId,
+    folders,
+    deliveries,
+  });
+}
@@ -0,0 +1,75 @@
+import { findActiveShareLink } from "@/app/lib/share-links";
+import { shareAccessCookieName, signShareAccess } from "@/app/lib/share-token";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { clientIp } from "@/app/lib/request-info";
+import {
+  checkShareUnlockAllowed,
+  clearShareUnlockFailures,
+  recordShareUnlockFailure,
+} from "@/app/lib/share-unlock-throttle";
+import { NextResponse } from "next/server";
+import { compare } from "bcryptjs";
+import { z } from "zod";
+
+const unlockSchema = z.object({
+  password: z.string().min(1),
+});
+
+// POST - Public: exchange a share link password for an access cookie
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ token: string }> }
+) {
+  const t = await getTranslator();
+  const { token } = await ctx.params;
+
+  const link = await findActiveShareLink(token);
+  if (!link) {
+    return NextResponse.json(
+      { error: t("errors.linkExpired") },
+      { status: 404 }
+    );
+  }
+
+  if (!link.passwordHash) {
+    return NextResponse.json({ ok: true });
+  }
+
+  let parsed;
+  try {
+    parsed = unlockSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json(
+      { error: t("errors.passwordRequired") },
+      { status: 400 }
+    );
+  }
+
+  const ip = clientIp(req.headers);
+  if (!(await checkShareUnlockAllowed(ip, link))) {
+    return NextResponse.json(
+      { error: t("errors.tooManyPasswordAttempts") },
+      { status: 429 }
+    );
+  }
+  if (!(await compare(parsed.password, link.passwordHash))) {
+    await recordShareUnlockFailure(ip, link.id);
+    return NextResponse.json(
+      { error: t("errors.incorrectPassword") },
+      { status: 401 }
+    );
+  }
+  await clearShareUnlockFailures(link.id);
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set({
+    name: shareAccessCookieName(link.id),
+    value: await signShareAccess(link.id, link.passwordHash),
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: link.expiresAt,
+  });
+  return response;
+}
@@ -0,0 +1,50 @@
+import { getStorage } from "@/app/lib/storage";
+import { verifyLocalSignature } from "@/app/lib/storage/local";
+import {
+  contentDisposition,
+  rangeNotSatisfiable,
+} from "@/app/lib/http-download";
+import { NextResponse } from "next/server";
+
+// GET - Serve an object from the local storage driver via a signed URL
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const storage = getStorage();
+
+  if (storage.name !== "local") {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+  if (!verifyLocalSignature(searchParams)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const key = searchParams.get("key");
+  if (!key) return new NextResponse("Bad Request", { status: 400 });
+
+  const range = req.headers.get("range");
+  const object = await storage.getObjectStream(key, { range });
+  if (!object) return new NextResponse("Not Found", { status: 404 });
+  if ("rangeNotSatisfiable" in object) return rangeNotSatisfiable(object);
+
+  const headers = new Headers({
+    "Content-Type": object.contentType || "application/octet-stream",
+    "Content-Length": String(object.contentLength),
+    "Accept-Ranges": "bytes",
+  });
+  if (object.contentRange) {
+    headers.set("Content-Range", object.contentRange);
+  }
+
+  const filename = searchParams.get("filename");
+  if (filename) {
+    headers.set(
+      "Content-Disposition",
+      contentDisposition("attachment", filename)
+    );
+  }
+
+  return new NextResponse(object.body, {
+    status: object.contentRange ? 206 : 200,
+    headers,
+  });
+}
@@ -0,0 +1,43 @@
+import { getStorage } from "@/app/lib/storage";
+import { verifyLocalSignature, writeLocalPart } from "@/app/lib/storage/local";
+import { NextResponse } from "next/server";
+
+// PUT - Accept a multipart part for the local storage driver via a signed URL
+export async function PUT(req: Request) {
+  const { searchParams } = new URL(req.url);
+
+  if (getStorage().name !== "local") {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+  if (!verifyLocalSignature(searchParams)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const key = searchParams.get("key");
+  const uploadId = searchParams.get("uploadId");
+  const partNumber = Number(searchParams.get("partNumber"));
+  if (!key || !uploadId || !partNumber) {
+    return new NextResponse("Bad Request", { status: 400 });
+  }
+
+  try {
+    const body = Buffer.from(await req.arrayBuffer());
+    const etag = await writeLocalPart(
+      key,
+      uploadId,
+      partNumber,
+      body,
+      req.headers.get("x-amz-checksum-sha256")
+    );
+    return new NextResponse(null, {
+      status: 200,
+      headers: { ETag: `"${etag}"` },
+    });
+  } catch (error) {
+    console.error("Local part upload error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Upload failed" },
+      { status: 400 }
+    );
+  }
+}
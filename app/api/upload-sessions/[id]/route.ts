@@ -0,0 +1,33 @@
+import { auth } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { discardUploadSession } from "@/app/lib/project-uploads";
+import { getTranslator } from "@/app/lib/i18n/server";
+import { NextResponse } from "next/server";
+
+// DELETE - Give up on an unfinished upload (its owner only)
+export async function DELETE(
+  _: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  const t = await getTranslator();
+  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+
+  const { id } = await ctx.params;
+
+  const upload = await prisma.uploadSession.findUnique({ where: { id } });
+
+  if (!upload || upload.userId !== session.user.id) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  try {
+    await discardUploadSession(upload);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message || t("errors.discardUploadFailed") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import { getStorage } from "@/app/lib/storage";
+import {
+  apiV1Caller,
+  apiV1Error,
+  apiV1Url,
+  v1AssetSelect,
+} from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 30;
+
+// GET - One asset with a short-lived download URL
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const { id } = await ctx.params;
+  const asset = await prisma.asset.findUnique({
+    where: { id, deletedAt: null },
+    select: {
+      key: true,
+      filename: true,
+      uploadedById: true,
+      project: { select: projectPolicySelect },
+    },
+  });
+
+  if (!asset) return apiV1Error(404, caller.t("errors.assetNotFound"));
+  if (!can(caller.user, "asset:view", asset)) {
+    return apiV1Error(403, caller.t("errors.forbidden"));
+  }
+
+  const [data, downloadUrl] = await Promise.all([
+    prisma.asset.findUniqueOrThrow({ where: { id }, select: v1AssetSelect }),
+    getStorage().getSignedDownloadUrl(asset.key, {
+      downloadFilename: asset.filename,
+      expiresIn: DOWNLOAD_URL_TTL_SECONDS,
+    }),
+  ]);
+
+  return NextResponse.json({
+    ...data,
+    downloadUrl: apiV1Url(req, downloadUrl),
+    downloadUrlExpiresAt: new Date(
+      Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000
+    ),
+  });
+}
@@ -0,0 +1,16 @@
+import { prisma } from "@/app/lib/prisma";
+import { apiV1Caller, v1UserSelect } from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+
+// GET - The token's owner and the scopes the token grants
+export async function GET(req: Request) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const user = await prisma.user.findUnique({
+    where: { id: caller.user.id },
+    select: v1UserSelect,
+  });
+
+  return NextResponse.json({ user, scopes: caller.scopes });
+}
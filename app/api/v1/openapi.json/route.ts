@@ -0,0 +1,25 @@
+import { auth } from "@/app/lib/auth";
+import { can } from "@/app/lib/policy";
+import { authenticateApiToken } from "@/app/lib/api-tokens";
+import { apiV1Error, apiV1Url } from "@/app/lib/api-v1";
+import { buildOpenApiDocument } from "@/app/lib/openapi";
+import { localeFromAcceptLanguage, translator } from "@/app/lib/i18n";
+import { NextResponse } from "next/server";
+
+// GET - The OpenAPI 3.1 document for /api/v1. Any valid token may read it,
+// whatever its scopes; admins signed in to the app read it for the API
+// reference page.
+export async function GET(req: Request) {
+  const session = await auth();
+  if (
+    !can(session?.user, "apiDocs:view") &&
+    !(await authenticateApiToken(req))
+  ) {
+    const t = translator(
+      localeFromAcceptLanguage(req.headers.get("accept-language"))
+    );
+    return apiV1Error(401, t("errors.apiTokenInvalid"));
+  }
+
+  return NextResponse.json(buildOpenApiDocument(apiV1Url(req, "/api/v1")));
+}
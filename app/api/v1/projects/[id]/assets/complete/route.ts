@@ -0,0 +1,66 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  completeVerifiedUpload,
+  saveUploadedAsset,
+} from "@/app/lib/project-uploads";
+import {
+  apiV1Caller,
+  apiV1Error,
+  apiV1Parse,
+  apiV1Project,
+  v1AssetSelect,
+} from "@/app/lib/api-v1";
+import { v1CompleteUploadSchema } from "@/app/lib/api-v1-schemas";
+import { NextResponse } from "next/server";
+
+// POST - Complete an asset upload started with POST .../assets
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "UPLOAD");
+  if (caller instanceof NextResponse) return caller;
+  const { t } = caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "asset:upload");
+  if (project instanceof NextResponse) return project;
+
+  const parsed = await apiV1Parse(req, t, v1CompleteUploadSchema);
+  if (parsed instanceof NextResponse) return parsed;
+  const { key, uploadId, parts, ...file } = parsed.data;
+
+  // Only uploads started for this project can be completed into it
+  if (!key.startsWith(`assets/${id}/`)) {
+    return apiV1Error(400, t("errors.uploadKeyMismatch"));
+  }
+  if (file.folderId) {
+    const folder = await prisma.folder.findFirst({
+      where: { id: file.folderId, projectId: id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!folder) return apiV1Error(404, t("errors.folderNotInProject"));
+  }
+
+  try {
+    const completed = await completeVerifiedUpload({
+      key,
+      uploadId,
+      parts,
+      sizeBytes: file.sizeBytes,
+    });
+    if (!completed) return apiV1Error(422, t("errors.uploadSizeMismatch"));
+    const { id: assetId } = await saveUploadedAsset(req, caller.user, project, {
+      ...file,
+      key,
+    });
+    const asset = await prisma.asset.findUniqueOrThrow({
+      where: { id: assetId },
+      select: v1AssetSelect,
+    });
+    return NextResponse.json(asset, { status: 201 });
+  } catch (error) {
+    console.error("Error completing API asset upload:", error);
+    return apiV1Error(500, t("errors.completeUploadFailed"));
+  }
+}
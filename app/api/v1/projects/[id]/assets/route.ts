@@ -0,0 +1,99 @@
+import { prisma } from "@/app/lib/prisma";
+import { projectContentScope } from "@/app/lib/policy";
+import {
+  projectUploadKey,
+  startProjectUpload,
+} from "@/app/lib/project-uploads";
+import {
+  API_V1_PAGE_SIZE,
+  apiV1Caller,
+  apiV1Cursor,
+  apiV1Error,
+  apiV1Page,
+  apiV1Parse,
+  apiV1Project,
+  apiV1Url,
+  v1AssetSelect,
+} from "@/app/lib/api-v1";
+import { v1StartUploadSchema } from "@/app/lib/api-v1-schemas";
+import { NextResponse } from "next/server";
+
+// GET - Assets in a project, newest first. Narrow with ?folderId=; pass the
+// returned nextCursor as ?cursor=
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "project:view");
+  if (project instanceof NextResponse) return project;
+
+  const { searchParams } = new URL(req.url);
+  const folderId = searchParams.get("folderId");
+
+  const assets = await prisma.asset.findMany({
+    where: {
+      projectId: id,
+      deletedAt: null,
+      ...(folderId ? { folderId } : {}),
+      // Clients only see deliverables, so their list is always empty
+      ...projectContentScope(caller.user).assets,
+    },
+    select: v1AssetSelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: API_V1_PAGE_SIZE + 1,
+    ...apiV1Cursor(searchParams.get("cursor")),
+  });
+
+  return NextResponse.json(apiV1Page(assets));
+}
+
+// POST - Start an asset upload
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "UPLOAD");
+  if (caller instanceof NextResponse) return caller;
+  const { t } = caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "asset:upload");
+  if (project instanceof NextResponse) return project;
+
+  const parsed = await apiV1Parse(req, t, v1StartUploadSchema);
+  if (parsed instanceof NextResponse) return parsed;
+  const { filename, contentType, sizeBytes, folderId } = parsed.data;
+
+  if (folderId) {
+    const folder = await prisma.folder.findFirst({
+      where: { id: folderId, projectId: id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!folder) return apiV1Error(404, t("errors.folderNotInProject"));
+  }
+
+  try {
+    const upload = await startProjectUpload(
+      projectUploadKey("assets", id, folderId, filename),
+      contentType,
+      sizeBytes
+    );
+    return NextResponse.json(
+      {
+        ...upload,
+        presignedPartUrls: upload.presignedPartUrls.map((url) =>
+          apiV1Url(req, url)
+        ),
+        completeUrl: apiV1Url(req, `/api/v1/projects/${id}/assets/complete`),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error starting API asset upload:", error);
+    return apiV1Error(500, t("errors.initUploadFailed"));
+  }
+}
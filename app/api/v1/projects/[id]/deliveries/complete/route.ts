@@ -0,0 +1,84 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  completeVerifiedUpload,
+  saveUploadedDelivery,
+} from "@/app/lib/project-uploads";
+import {
+  apiV1Caller,
+  apiV1Error,
+  apiV1Parse,
+  apiV1Project,
+  v1DeliverySelect,
+} from "@/app/lib/api-v1";
+import { v1CompleteDeliveryUploadSchema } from "@/app/lib/api-v1-schemas";
+import { NextResponse } from "next/server";
+
+// POST - Complete a delivery upload started with POST .../deliveries
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "UPLOAD");
+  if (caller instanceof NextResponse) return caller;
+  const { t } = caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "delivery:upload");
+  if (project instanceof NextResponse) return project;
+
+  const parsed = await apiV1Parse(req, t, v1CompleteDeliveryUploadSchema);
+  if (parsed instanceof NextResponse) return parsed;
+  const { key, uploadId, parts, deliveryId, folderId, ...file } = parsed.data;
+
+  // Only uploads started for this project can be completed into it
+  if (!key.startsWith(`deliveries/${id}/`)) {
+    return apiV1Error(400, t("errors.uploadKeyMismatch"));
+  }
+
+  const existing = deliveryId
+    ? await prisma.delivery.findFirst({
+        where: { id: deliveryId, projectId: id, deletedAt: null },
+        select: { id: true, version: true },
+      })
+    : null;
+  if (deliveryId && !existing) {
+    return apiV1Error(404, t("errors.deliveryNotInProject"));
+  }
+  if (folderId && !existing) {
+    const folder = await prisma.folder.findFirst({
+      where: {
+        id: folderId,
+        projectId: id,
+        type: { in: ["PROJECT", "DELIVERABLES"] },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    if (!folder) return apiV1Error(404, t("errors.invalidDeliveryFolder"));
+  }
+
+  try {
+    const completed = await completeVerifiedUpload({
+      key,
+      uploadId,
+      parts,
+      sizeBytes: file.sizeBytes,
+    });
+    if (!completed) return apiV1Error(422, t("errors.uploadSizeMismatch"));
+    const { delivery: saved } = await saveUploadedDelivery(
+      req,
+      caller.user,
+      project,
+      { ...file, key },
+      { folderId, existing }
+    );
+    const delivery = await prisma.delivery.findUniqueOrThrow({
+      where: { id: saved.id },
+      select: v1DeliverySelect,
+    });
+    return NextResponse.json(delivery, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error("Error completing API delivery upload:", error);
+    return apiV1Error(500, t("errors.completeUploadFailed"));
+  }
+}
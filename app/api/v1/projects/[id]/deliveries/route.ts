@@ -0,0 +1,119 @@
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import {
+  projectUploadKey,
+  startProjectUpload,
+} from "@/app/lib/project-uploads";
+import {
+  API_V1_PAGE_SIZE,
+  apiV1Caller,
+  apiV1Cursor,
+  apiV1Error,
+  apiV1Page,
+  apiV1Parse,
+  apiV1Project,
+  apiV1Url,
+  v1DeliverySelect,
+} from "@/app/lib/api-v1";
+import { v1StartDeliveryUploadSchema } from "@/app/lib/api-v1-schemas";
+import { NextResponse } from "next/server";
+
+// GET - Deliveries in a project, newest first. Narrow with ?folderId=; pass
+// the returned nextCursor as ?cursor=
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "project:view");
+  if (project instanceof NextResponse) return project;
+
+  // Every delivery of a project shares its policy outcome; ask with any uploader
+  if (!can(caller.user, "delivery:view", { project, uploadedById: "" })) {
+    return apiV1Error(403, caller.t("errors.forbidden"));
+  }
+
+  const { searchParams } = new URL(req.url);
+  const folderId = searchParams.get("folderId");
+
+  const deliveries = await prisma.delivery.findMany({
+    where: {
+      projectId: id,
+      deletedAt: null,
+      ...(folderId ? { folderId } : {}),
+    },
+    select: v1DeliverySelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: API_V1_PAGE_SIZE + 1,
+    ...apiV1Cursor(searchParams.get("cursor")),
+  });
+
+  return NextResponse.json(apiV1Page(deliveries));
+}
+
+// POST - Start a delivery upload
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "UPLOAD");
+  if (caller instanceof NextResponse) return caller;
+  const { t } = caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "delivery:upload");
+  if (project instanceof NextResponse) return project;
+
+  const parsed = await apiV1Parse(req, t, v1StartDeliveryUploadSchema);
+  if (parsed instanceof NextResponse) return parsed;
+  const { filename, contentType, sizeBytes, deliveryId } = parsed.data;
+  let { folderId } = parsed.data;
+
+  // A new version stays in the delivery's folder
+  if (deliveryId) {
+    const existing = await prisma.delivery.findFirst({
+      where: { id: deliveryId, projectId: id, deletedAt: null },
+      select: { folderId: true },
+    });
+    if (!existing) return apiV1Error(404, t("errors.deliveryNotInProject"));
+    folderId = existing.folderId ?? undefined;
+  } else if (folderId) {
+    const folder = await prisma.folder.findFirst({
+      where: {
+        id: folderId,
+        projectId: id,
+        type: { in: ["PROJECT", "DELIVERABLES"] },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    if (!folder) return apiV1Error(404, t("errors.invalidDeliveryFolder"));
+  }
+
+  try {
+    const upload = await startProjectUpload(
+      projectUploadKey("deliveries", id, folderId, filename),
+      contentType,
+      sizeBytes
+    );
+    return NextResponse.json(
+      {
+        ...upload,
+        presignedPartUrls: upload.presignedPartUrls.map((url) =>
+          apiV1Url(req, url)
+        ),
+        completeUrl: apiV1Url(
+          req,
+          `/api/v1/projects/${id}/deliveries/complete`
+        ),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error starting API delivery upload:", error);
+    return apiV1Error(500, t("errors.initUploadFailed"));
+  }
+}
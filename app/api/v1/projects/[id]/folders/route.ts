@@ -0,0 +1,85 @@
+import { prisma } from "@/app/lib/prisma";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { projectContentScope } from "@/app/lib/policy";
+import {
+  apiV1Caller,
+  apiV1Error,
+  apiV1Parse,
+  apiV1Project,
+  v1FolderSelect,
+} from "@/app/lib/api-v1";
+import { v1CreateFolderSchema } from "@/app/lib/api-v1-schemas";
+import { NextResponse } from "next/server";
+
+// GET - Folders in a project, oldest first
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "folder:view");
+  if (project instanceof NextResponse) return project;
+
+  const folders = await prisma.folder.findMany({
+    where: {
+      projectId: id,
+      deletedAt: null,
+      ...projectContentScope(caller.user).folders,
+    },
+    select: v1FolderSelect,
+    orderBy: { createdAt: "asc" },
+  });
+
+  return NextResponse.json({ data: folders });
+}
+
+// POST - Create a folder
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "UPLOAD");
+  if (caller instanceof NextResponse) return caller;
+  const { t } = caller;
+
+  const { id } = await ctx.params;
+  const project = await apiV1Project(caller, id, "folder:create");
+  if (project instanceof NextResponse) return project;
+
+  const parsed = await apiV1Parse(req, t, v1CreateFolderSchema);
+  if (parsed instanceof NextResponse) return parsed;
+
+  const parentId = parsed.data.parentId ?? null;
+  const parent = parentId
+    ? await prisma.folder.findFirst({
+        where: { id: parentId, projectId: id, deletedAt: null },
+        select: { type: true },
+      })
+    : null;
+  if (parentId && !parent) {
+    return apiV1Error(404, t("errors.parentFolderNotFound"));
+  }
+
+  const folder = await prisma.folder.create({
+    data: {
+      name: parsed.data.name,
+      type: parent?.type ?? "PROJECT",
+      projectId: id,
+      parentId,
+    },
+    select: v1FolderSelect,
+  });
+
+  await recordAuditEvent(req, caller.user, {
+    action: "folder.create",
+    targetType: "folder",
+    targetId: folder.id,
+    projectId: id,
+    after: { name: folder.name, type: folder.type, parentId },
+  });
+
+  return NextResponse.json(folder, { status: 201 });
+}
@@ -0,0 +1,38 @@
+import { prisma } from "@/app/lib/prisma";
+import { projectContentScope } from "@/app/lib/policy";
+import {
+  apiV1Caller,
+  apiV1Project,
+  v1FolderSelect,
+  v1Project,
+  v1ProjectSelect,
+} from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+
+// GET - One project with its folders
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const { id } = await ctx.params;
+  const allowed = await apiV1Project(caller, id, "project:view");
+  if (allowed instanceof NextResponse) return allowed;
+
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id },
+    select: {
+      ...v1ProjectSelect,
+      folders: {
+        where: { deletedAt: null, ...projectContentScope(caller.user).folders },
+        select: v1FolderSelect,
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  const { folders, ...rest } = project;
+  return NextResponse.json({ ...v1Project(rest), folders });
+}
@@ -0,0 +1,42 @@
+import { prisma } from "@/app/lib/prisma";
+import { projectScope } from "@/app/lib/policy";
+import {
+  API_V1_PAGE_SIZE,
+  apiV1Caller,
+  apiV1Cursor,
+  apiV1Page,
+  v1Project,
+  v1ProjectSelect,
+} from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+import { ProjectStatus } from "@prisma/client";
+
+const isProjectStatus = (value: string | null): value is ProjectStatus =>
+  Object.values(ProjectStatus).includes(value as ProjectStatus);
+
+// GET - Projects the token's owner can see, newest first. Filter with
+// ?status=; pass the returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const caller = await apiV1Caller(req, "READ");
+  if (caller instanceof NextResponse) return caller;
+
+  const scope = projectScope(caller.user);
+  if (!scope) return NextResponse.json({ data: [], nextCursor: null });
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+
+  const projects = await prisma.project.findMany({
+    where: {
+      ...scope,
+      ...(isProjectStatus(status) ? { status } : {}),
+    },
+    select: v1ProjectSelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: API_V1_PAGE_SIZE + 1,
+    ...apiV1Cursor(searchParams.get("cursor")),
+  });
+
+  const page = apiV1Page(projects);
+  return NextResponse.json({ ...page, data: page.data.map(v1Project) });
+}
@@ -0,0 +1,25 @@
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import { apiV1Caller, apiV1Error, v1UserSelect } from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+
+// GET - One user (admin scope)
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const caller = await apiV1Caller(req, "ADMIN");
+  if (caller instanceof NextResponse) return caller;
+  if (!can(caller.user, "user:list")) {
+    return apiV1Error(403, caller.t("errors.forbidden"));
+  }
+
+  const { id } = await ctx.params;
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: v1UserSelect,
+  });
+  if (!user) return apiV1Error(404, caller.t("errors.userNotFound"));
+
+  return NextResponse.json(user);
+}
@@ -0,0 +1,38 @@
+import { prisma } from "@/app/lib/prisma";
+import { can } from "@/app/lib/policy";
+import {
+  API_V1_PAGE_SIZE,
+  apiV1Caller,
+  apiV1Cursor,
+  apiV1Error,
+  apiV1Page,
+  v1UserSelect,
+} from "@/app/lib/api-v1";
+import { NextResponse } from "next/server";
+import { Role } from "@prisma/client";
+
+const isRole = (value: string | null): value is Role =>
+  Object.values(Role).includes(value as Role);
+
+// GET - All users, newest first (admin scope). Filter with ?role=; pass the
+// returned nextCursor as ?cursor=
+export async function GET(req: Request) {
+  const caller = await apiV1Caller(req, "ADMIN");
+  if (caller instanceof NextResponse) return caller;
+  if (!can(caller.user, "user:list")) {
+    return apiV1Error(403, caller.t("errors.forbidden"));
+  }
+
+  const { searchParams } = new URL(req.url);
+  const role = searchParams.get("role");
+
+  const users = await prisma.user.findMany({
+    where: isRole(role) ? { role } : {},
+    select: v1UserSelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: API_V1_PAGE_SIZE + 1,
+    ...apiV1Cursor(searchParams.get("cursor")),
+  });
+
+  return NextResponse.json(apiV1Page(users));
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export default function ForgotPasswordPage() {
+  const { t } = useTranslation();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/password-reset/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) {
+        throw new Error(t("forgotPassword.failed"));
+      }
+      setSent(true);
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("forgotPassword.failed")
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[#f8f9fa]">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+          <div className="text-center">
+            <div className="flex justify-center mb-4">
+              <img
+                src="/logo.png"
+                alt="Alfatonics Logo"
+                className="w-16 h-16 object-contain"
+              />
+            </div>
+            <h1 className="text-2xl font-normal text-[#202124] mb-2">
+              {t("forgotPassword.title")}
+            </h1>
+            <p className="text-sm text-[#5f6368]">
+              {t("forgotPassword.intro")}
+            </p>
+          </div>
+          {sent ? (
+            <p className="text-sm text-[#202124]">
+              {t("forgotPassword.sentBefore")} <strong>{email}</strong>
+              {t("forgotPassword.sentAfter")}
+            </p>
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-4">
+              <div>
+                <input
+                  type="email"
+                  placeholder={t("common.email")}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="input"
+                  required
+                />
+              </div>
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+              <button
+                type="submit"
+                className="w-full btn-primary disabled:opacity-50"
+                disabled={loading}
+              >
+                {loading ? t("forgotPassword.sending") : t("forgotPassword.send")}
+              </button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/auth/signin" className="text-[#3c5495] hover:underline">
+              {t("forgotPassword.backToSignIn")}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
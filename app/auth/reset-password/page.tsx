@@ -0,0 +1,170 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { use, useEffect, useState } from "react";
+import {
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+} from "@/app/lib/password";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export default function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token = "" } = use(searchParams);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const [valid, setValid] = useState<boolean | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(
+      `/api/auth/password-reset/confirm?token=${encodeURIComponent(token)}`,
+      { cache: "no-store" }
+    )
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setValid(Boolean(data.valid));
+      })
+      .catch(() => {
+        if (!cancelled) setValid(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      setError(t("validation.newPasswordMin", { min: PASSWORD_MIN_LENGTH }));
+      return;
+    }
+    if (password.length > PASSWORD_MAX_LENGTH) {
+      setError(t("validation.newPasswordMax", { max: PASSWORD_MAX_LENGTH }));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t("validation.passwordsMismatch"));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, newPassword: password }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const message = Array.isArray(data.error)
+          ? data.error[0]?.message
+          : data.error;
+        throw new Error(message || t("resetPassword.failed"));
+      }
+      setDone(true);
+      setTimeout(() => router.replace("/auth/signin"), 2500);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("resetPassword.failed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[#f8f9fa]">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+          <div className="text-center">
+            <div className="flex justify-center mb-4">
+              <img
+                src="/logo.png"
+                alt="Alfatonics Logo"
+                className="w-16 h-16 object-contain"
+              />
+            </div>
+            <h1 className="text-2xl font-normal text-[#202124] mb-2">
+              {t("resetPassword.title")}
+            </h1>
+          </div>
+          {valid === null && (
+            <p className="text-center text-sm text-[#5f6368]">
+              {t("resetPassword.checking")}
+            </p>
+          )}
+          {valid === false && !done && (
+            <p className="text-center text-sm text-[#202124]">
+              {t("resetPassword.invalid")}{" "}
+              <Link
+                href="/auth/forgot-password"
+                className="text-[#3c5495] hover:underline"
+              >
+                {t("resetPassword.requestNew")}
+              </Link>
+              .
+            </p>
+          )}
+          {done && (
+            <p className="text-center text-sm text-[#202124]">
+              {t("resetPassword.done")}
+            </p>
+          )}
+          {valid && !done && (
+            <form onSubmit={onSubmit} className="space-y-4">
+              <input
+                type="password"
+                placeholder={t("password.new")}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                minLength={PASSWORD_MIN_LENGTH}
+                maxLength={PASSWORD_MAX_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+              <input
+                type="password"
+                placeholder={t("password.confirmNew")}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="input"
+                autoComplete="new-password"
+                required
+              />
+              <p className="text-xs text-[#5f6368]">
+                {t("password.lengthHint", {
+                  min: PASSWORD_MIN_LENGTH,
+                  max: PASSWORD_MAX_LENGTH,
+                })}
+              </p>
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+              <button
+                type="submit"
+                className="w-full btn-primary disabled:opacity-50"
+                disabled={loading}
+              >
+                {loading ? t("common.saving") : t("resetPassword.submit")}
+              </button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/auth/signin" className="text-[#3c5495] hover:underline">
+              {t("forgotPassword.backToSignIn")}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,39 @@
 "use client";
 
 import { signIn } from "next-auth/react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import RecoveryCodesList from "@/app/components/auth/RecoveryCodesList";
+import TwoFactorEnrollment from "@/app/components/auth/TwoFactorEnrollment";
+import {
+  TWO_FACTOR_INVALID,
+  TWO_FACTOR_REQUIRED,
+  TWO_FACTOR_SETUP_REQUIRED,
+} from "@/app/lib/two-factor-errors";
+import {
+  ACCOUNT_LOCKED,
+  LOGIN_THROTTLED,
+} from "@/app/lib/login-throttle-errors";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type SignInStep = "credentials" | "code" | "setup" | "recovery-codes";
 
 export default function SignInPage() {
+  const { t } = useTranslation();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const [showPassword, setShowPassword] = useState(false);
+  const [step, setStep] = useState<SignInStep>("credentials");
+  const [otp, setOtp] = useState("");
+  const [setup, setSetup] = useState<{
+    secret: string;
+    qrDataUrl: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
 
   const EyeIcon = ({ open }: { open: boolean }) => (
     <svg
@@ -29,26 +52,108 @@ export default function SignInPage() {
     </svg>
   );
 
+  const startSetup = async () => {
+    const res = await fetch("/api/auth/two-factor/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(
+        typeof data.error === "string" ? data.error : t("signIn.setupFailed")
+      );
+    }
+    setSetup(data);
+    setStep("setup");
+  };
+
+  const submitCredentials = async (code?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await signIn("credentials", {
+        email,
+        password,
+        otp: code ?? "",
+        redirect: false,
+        callbackUrl: "/",
+      });
+
+      if (res?.error === TWO_FACTOR_REQUIRED) {
+        setStep("code");
+        return;
+      }
+      if (res?.error === TWO_FACTOR_INVALID) {
+        setStep("code");
+        setError(t("signIn.invalidCode"));
+        return;
+      }
+      if (res?.error === TWO_FACTOR_SETUP_REQUIRED) {
+        await startSetup();
+        return;
+      }
+      if (res?.error === ACCOUNT_LOCKED) {
+        setError(t("signIn.locked"));
+        return;
+      }
+      if (res?.error === LOGIN_THROTTLED) {
+        setError(t("signIn.throttled"));
+        return;
+      }
+      if (res?.error) {
+        setError(t("signIn.invalidCredentials"));
+        return;
+      }
+
+      const target = res?.url ?? "/";
+      router.replace(target);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t("signIn.failed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await submitCredentials(step === "code" ? otp.trim() : undefined);
+  };
+
+  const confirmSetup = async (code: string) => {
     setLoading(true);
     setError(null);
-    const res = await signIn("credentials", {
-      email,
-      password,
-      redirect: false,
-      callbackUrl: "/",
-    });
-
-    if (res?.error) {
-      setError("Invalid credentials");
+    try {
+      const res = await fetch("/api/auth/two-factor/setup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password, code }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          typeof data.error === "string"
+            ? data.error
+            : t("signIn.verificationFailed")
+        );
+      }
+      setOtp(code);
+      setRecoveryCodes(data.recoveryCodes ?? []);
+      setStep("recovery-codes");
+    } catch (err: unknown) {
+      setError(
+        err instanceof Error ? err.message : t("signIn.verificationFailed")
+      );
+    } finally {
       setLoading(false);
-      return;
     }
+  };
 
-    const target = res?.url ?? "/";
-    router.replace(target);
-    setLoading(false);
+  const resetToCredentials = () => {
+    setStep("credentials");
+    setOtp("");
+    setSetup(null);
+    setError(null);
   };
 
   return (
@@ -64,52 +169,122 @@ export default function SignInPage() {
               />
             </div>
             <h1 className="text-2xl font-normal text-[#202124] mb-2">
-              Sign in
+              {t("nav.signIn")}
             </h1>
             <p className="text-sm text-[#5f6368]">
-              Sign in to Alfatonics Client Delivery
+              {step === "credentials" && t("signIn.intro")}
+              {step === "code" && t("signIn.enterCode")}
+              {step === "setup" && t("signIn.setupRequired")}
+              {step === "recovery-codes" && t("signIn.twoFactorOn")}
             </p>
           </div>
-          <form onSubmit={onSubmit} className="space-y-4">
-            <div>
+          {step === "setup" && setup && (
+            <TwoFactorEnrollment
+              qrDataUrl={setup.qrDataUrl}
+              secret={setup.secret}
+              submitting={loading}
+              error={error}
+              onSubmitCode={confirmSetup}
+              onCancel={resetToCredentials}
+            />
+          )}
+          {step === "recovery-codes" && (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+              <button
+                type="button"
+                className="w-full btn-primary disabled:opacity-50"
+                disabled={loading}
+                onClick={() => submitCredentials(otp)}
+              >
+                {loading ? t("signIn.signingIn") : t("signIn.savedContinue")}
+              </button>
+            </div>
+          )}
+          {step === "code" && (
+            <form onSubmit={onSubmit} className="space-y-4">
               <input
-                type="email"
-                placeholder="Email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="input"
+                type="text"
+                autoComplete="one-time-code"
+                placeholder={t("signIn.codePlaceholder")}
+                value={otp}
+                onChange={(e) => setOtp(e.target.value)}
+                className="input text-center tracking-widest"
+                autoFocus
                 required
               />
-            </div>
-            <div>
-              <div className="relative">
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+              <button
+                type="submit"
+                className="w-full btn-primary disabled:opacity-50"
+                disabled={loading}
+              >
+                {loading ? t("twoFactor.verifying") : t("signIn.verify")}
+              </button>
+              <button
+                type="button"
+                className="w-full text-sm text-[#3c5495] hover:underline"
+                onClick={resetToCredentials}
+              >
+                {t("signIn.differentAccount")}
+              </button>
+            </form>
+          )}
+          {step === "credentials" && (
+            <form onSubmit={onSubmit} className="space-y-4">
+              <div>
                 <input
-                  type={showPassword ? "text" : "password"}
-                  placeholder="Password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="input pr-12"
+                  type="email"
+                  placeholder={t("common.email")}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="input"
                   required
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword((prev) => !prev)}
-                  className="absolute inset-y-0 right-0 flex items-center pr-3 text-[#3c5495] hover:text-[#e98923]"
-                  aria-label={showPassword ? "Hide password" : "Show password"}
-                >
-                  <EyeIcon open={showPassword} />
-                </button>
               </div>
-            </div>
-            {error && <p className="text-red-600 text-sm">{error}</p>}
-            <button
-              type="submit"
-              className="w-full btn-primary disabled:opacity-50"
-              disabled={loading}
+              <div>
+                <div className="relative">
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    placeholder={t("common.password")}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input pr-12"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword((prev) => !prev)}
+                    className="absolute inset-y-0 right-0 flex items-center pr-3 text-[#3c5495] hover:text-[#e98923]"
+                    aria-label={
+                      showPassword
+                        ? t("signIn.hidePassword")
+                        : t("signIn.showPassword")
+                    }
+                  >
+                    <EyeIcon open={showPassword} />
+                  </button>
+                </div>
+              </div>
+              {error && <p className="text-red-600 text-sm">{error}</p>}
+              <button
+                type="submit"
+                className="w-full btn-primary disabled:opacity-50"
+                disabled={loading}
+              >
+                {loading ? t("signIn.signingIn") : t("nav.signIn")}
+              </button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link
+              href="/auth/forgot-password"
+              className="text-[#3c5495] hover:underline"
             >
-              {loading ? "Signing in..." : "Sign in"}
-            </button>
-          </form>
+              {t("signIn.forgot")}
+            </Link>
+          </div>
         </div>
       </div>
     </div>
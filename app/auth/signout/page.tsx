@@ -3,8 +3,10 @@
 import { signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 export default function SignOutPage() {
+  const { t } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
 
@@ -38,11 +40,9 @@ export default function SignOutPage() {
               />
             </div>
             <h1 className="text-2xl font-normal text-[#202124] mb-2">
-              Sign out
+              {t("nav.signOut")}
             </h1>
-            <p className="text-sm text-[#5f6368]">
-              Are you sure you want to sign out?
-            </p>
+            <p className="text-sm text-[#5f6368]">{t("signOut.confirm")}</p>
           </div>
 
           <div className="flex gap-3">
@@ -51,14 +51,14 @@ export default function SignOutPage() {
               disabled={loading}
               className="btn-secondary flex-1 disabled:opacity-50"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               onClick={handleSignOut}
               disabled={loading}
               className="btn-primary flex-1 disabled:opacity-50"
             >
-              {loading ? "Signing out..." : "Sign out"}
+              {loading ? t("signOut.signingOut") : t("nav.signOut")}
             </button>
           </div>
         </div>
@@ -2,12 +2,18 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Project = {
   id: string;
   title: string | null;
   description: string | null;
-  status: "PENDING" | "IN_PROGRESS" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "CHANGES_REQUESTED"
+    | "APPROVED";
   client: { id: string; email: string; name: string | null } | null;
   staff: { id: string; email: string; name: string | null } | null;
   assets: Array<{ id: string; filename: string; type: string }>;
@@ -16,6 +22,7 @@ type Project = {
 };
 
 export default function ClientDashboard() {
+  const { t } = useTranslation();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -46,7 +53,7 @@ export default function ClientDashboard() {
     return (
       <div className="drive-container p-8">
         <div className="flex items-center justify-center h-64">
-          <div className="text-[#5f6368]">Loading...</div>
+          <div className="text-[#5f6368]">{t("common.loading")}</div>
         </div>
       </div>
     );
@@ -56,6 +63,10 @@ export default function ClientDashboard() {
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -65,8 +76,10 @@ export default function ClientDashboard() {
 
   const getFolderIcon = (status: string) => {
     const color =
-      status === "COMPLETED"
+      status === "COMPLETED" || status === "APPROVED"
         ? "#10b981"
+        : status === "CHANGES_REQUESTED"
+        ? "#dc2626"
         : status === "IN_PROGRESS"
         ? "#3b82f6"
         : "#f59e0b";
@@ -92,7 +105,7 @@ export default function ClientDashboard() {
       <div className="bg-white border-b border-[#dadce0] px-4 sm:px-6 py-3 sm:py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto gap-3">
           <h1 className="text-xl sm:text-2xl font-normal text-[#202124]">
-            My Projects
+            {t("nav.myProjects")}
           </h1>
           <Link
             href="/client/projects/new"
@@ -111,8 +124,10 @@ export default function ClientDashboard() {
                 <line x1="12" y1="5" x2="12" y2="19"></line>
                 <line x1="5" y1="12" x2="19" y2="12"></line>
               </svg>
-              <span className="hidden sm:inline">New Project</span>
-              <span className="sm:hidden">New</span>
+              <span className="hidden sm:inline">
+                {t("projects.newProject")}
+              </span>
+              <span className="sm:hidden">{t("projects.new")}</span>
             </span>
           </Link>
         </div>
@@ -133,16 +148,16 @@ export default function ClientDashboard() {
               </svg>
             </div>
             <h2 className="text-xl font-normal text-[#202124] mb-2">
-              No projects yet
+              {t("projects.empty")}
             </h2>
             <p className="text-[#5f6368] mb-6">
-              Create your first project to get started.
+              {t("projects.emptyHint")}
             </p>
             <Link
               href="/client/projects/new"
               className="btn-primary no-underline"
             >
-              Create Project
+              {t("newProject.submit")}
             </Link>
           </div>
         ) : (
@@ -158,15 +173,19 @@ export default function ClientDashboard() {
                   <h3 className="font-medium text-[#202124] text-sm mb-1 truncate w-full">
                     {project.title ||
                       project.client?.email ||
-                      `Customer ${project.id.slice(0, 8)}`}
+                      t("projects.customer", { id: project.id.slice(0, 8) })}
                   </h3>
                   <div className={getStatusBadgeClass(project.status)}>
-                    {project.status.replace("_", " ")}
+                    {t(`projectStatus.${project.status}`)}
                   </div>
                   <div className="mt-3 text-xs text-[#5f6368]">
                     <div>
-                      {project.deliveries.length} deliver
-                      {project.deliveries.length !== 1 ? "ies" : "y"}
+                      {t(
+                        project.deliveries.length === 1
+                          ? "projects.deliveryCountOne"
+                          : "projects.deliveryCount",
+                        { count: project.deliveries.length }
+                      )}
                     </div>
                   </div>
                 </div>
@@ -12,6 +12,17 @@ import {
 import type { ReactNode } from "react";
 import Link from "next/link";
 import DriveFileIcon from "@/app/components/drive/DriveFileIcon";
+import DeliveryVersionsDialog from "@/app/components/drive/DeliveryVersionsDialog";
+import ShareLinksDialog from "@/app/components/drive/ShareLinksDialog";
+import TrashDialog from "@/app/components/drive/TrashDialog";
+import FileChecksum from "@/app/components/drive/FileChecksum";
+import UnfinishedUploads, {
+  type UploadSessionSummary,
+} from "@/app/components/drive/UnfinishedUploads";
+import UploadManagerPanel from "@/app/components/uploads/UploadManagerPanel";
+import { useUploadManager } from "@/app/components/uploads/useUploadManager";
+import DeliveryVideoReview from "@/app/components/drive/DeliveryVideoReview";
+import DeliveryReviewDialog from "@/app/components/drive/DeliveryReviewDialog";
 import DriveBrowserView from "@/app/components/drive/browser/DriveBrowserView";
 import { useDriveBrowser } from "@/app/components/drive/browser/useDriveBrowser";
 import type {
@@ -25,13 +36,17 @@ import {
   formatFileSize,
   isImage,
   isVideo,
+  projectZipUrl,
 } from "@/app/lib/drive-utils";
+import { can, type PolicyUser } from "@/app/lib/policy";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Asset = {
   id: string;
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   type: string;
   createdAt: string;
   folderId?: string | null;
@@ -43,9 +58,13 @@ type Delivery = {
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   createdAt: string;
   folderId?: string | null;
   uploadedBy: { id: string; email: string; name: string | null } | null;
+  version: number;
+  reviewStatus: "PENDING" | "APPROVED" | "CHANGES_REQUESTED";
+  reviewNote: string | null;
 };
 
 type Folder = {
@@ -61,7 +80,15 @@ type Project = {
   id: string;
   title: string | null;
   description: string | null;
-  status: "PENDING" | "IN_PROGRESS" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "CHANGES_REQUESTED"
+    | "APPROVED";
+  clientId: string;
+  createdById: string | null;
+  staffAssignments: Array<{ staffId: string }>;
   client?: { id: string; email: string; name: string | null };
   staff: { id: string; email: string; name: string | null } | null;
   assets: Asset[];
@@ -80,23 +107,21 @@ export default function ClientProjectPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = use(params);
+  const { t } = useTranslation();
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
-  const [uploadingAssets, setUploadingAssets] = useState(false);
-  const [assetUploadProgress, setAssetUploadProgress] = useState(0);
-  const [assetUploadTotal, setAssetUploadTotal] = useState(0);
-  const [currentAssetUploadName, setCurrentAssetUploadName] = useState<
-    string | null
-  >(null);
-  const [currentAssetUploadIndex, setCurrentAssetUploadIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const assetInputRef = useRef<HTMLInputElement | null>(null);
   const [deletingAssetId, setDeletingAssetId] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<{
-    id: string;
-    role: string;
-  } | null>(null);
+  const [currentUser, setCurrentUser] = useState<PolicyUser | null>(null);
   const [previewItem, setPreviewItem] = useState<PreviewItem>(null);
+  const [versionsDelivery, setVersionsDelivery] =
+    useState<DriveDelivery | null>(null);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [reviewDelivery, setReviewDelivery] = useState<DriveDelivery | null>(
+    null
+  );
 
   const fetchProject = useCallback(async () => {
     try {
@@ -109,16 +134,18 @@ export default function ClientProjectPage({
       });
       if (!res.ok) {
         const text = await res.text();
-        throw new Error(text || "Failed to fetch project");
+        throw new Error(text || t("errors.fetchProjectFailed"));
       }
       const data = await res.json();
       setProject(data);
     } catch (e: any) {
-      setError(e.message || "Failed to fetch project");
+      setError(e.message || t("errors.fetchProjectFailed"));
     } finally {
       setLoading(false);
     }
-  }, [id]);
+  }, [id, t]);
+
+  const uploadManager = useUploadManager({ onIdle: fetchProject });
 
   const fetchCurrentUser = useCallback(async () => {
     try {
@@ -183,6 +210,9 @@ export default function ClientProjectPage({
         folderId: delivery.folderId ?? null,
         uploadedAt: delivery.createdAt,
         uploadedBy: delivery.uploadedBy ?? null,
+        version: delivery.version,
+        reviewStatus: delivery.reviewStatus,
+        reviewNote: delivery.reviewNote,
       })),
     [deliveriesList]
   );
@@ -212,13 +242,13 @@ export default function ClientProjectPage({
 
   const resolveAssetFolderId = useCallback(() => {
     // Clients should not be able to upload assets
-    throw new Error("Clients cannot upload assets. Please contact support.");
-  }, []);
+    throw new Error(t("projectPage.clientsCannotUploadAssets"));
+  }, [t]);
 
   const uploadAssets = useCallback(
     async (
       incoming: FileList | File[],
-      options?: { targetFolderId?: string | null; refreshAfter?: boolean }
+      options?: { targetFolderId?: string | null }
     ) => {
       const files =
         incoming instanceof FileList ? Array.from(incoming) : [...incoming];
@@ -227,138 +257,28 @@ export default function ClientProjectPage({
       try {
         const targetFolderId =
           options?.targetFolderId ?? resolveAssetFolderId();
-        const shouldRefresh = options?.refreshAfter ?? true;
-        setUploadingAssets(true);
         setError(null);
-        setAssetUploadTotal(files.length);
-        setAssetUploadProgress(0);
-
-        for (let index = 0; index < files.length; index++) {
-          const currentFile = files[index];
-          setCurrentAssetUploadName(currentFile.name);
-          setCurrentAssetUploadIndex(index + 1);
-
-          const initRes = await fetch(`/api/projects/${id}/assets`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!initRes.ok) {
-            const errorData = await initRes
-              .json()
-              .catch(() => ({ error: "Failed to initialize upload" }));
-            throw new Error(
-              errorData.error ||
-                `Upload initialization failed for ${currentFile.name}: ${initRes.status}`
-            );
-          }
-
-          const init = await initRes.json();
-          const { uploadId, key, partSize, presignedPartUrls, completeUrl } =
-            init;
-
-          if (
-            !Array.isArray(presignedPartUrls) ||
-            presignedPartUrls.length === 0
-          ) {
-            throw new Error(
-              `Invalid response from server for ${currentFile.name}: missing presigned URLs`
-            );
-          }
-
-          const totalParts = presignedPartUrls.length;
-          const etags: { ETag: string; PartNumber: number }[] = [];
-
-          for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-            const start = (partNumber - 1) * partSize;
-            const end = Math.min(start + partSize, currentFile.size);
-            const blob = currentFile.slice(start, end);
-
-            const res = await fetch(
-              `/api/r2/upload-part?url=${encodeURIComponent(
-                presignedPartUrls[partNumber - 1]
-              )}`,
-              {
-                method: "PUT",
-                body: blob,
-                headers: {
-                  "Content-Type":
-                    currentFile.type || "application/octet-stream",
-                },
-              }
-            );
-
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: ${
-                  errorData.error || res.statusText
-                }`
-              );
-            }
-
-            const data = await res.json();
-            if (!data.etag) {
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: no ETag received`
-              );
-            }
-            etags.push({ ETag: data.etag, PartNumber: partNumber });
-
-            const overallProgress =
-              ((index + (partNumber - 1) / totalParts) / files.length) * 100;
-            setAssetUploadProgress(Math.min(99, Math.round(overallProgress)));
-          }
-
-          const completeRes = await fetch(completeUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              key,
-              uploadId,
-              parts: etags,
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!completeRes.ok) {
-            const errorData = await completeRes.json().catch(() => ({}));
-            throw new Error(
-              errorData.error ||
-                `Upload completion failed for ${currentFile.name}: ${completeRes.status}`
-            );
-          }
-
-          const completionProgress = ((index + 1) / files.length) * 100;
-          setAssetUploadProgress(Math.round(completionProgress));
-        }
-
-        if (shouldRefresh) {
-          await fetchProject();
-        }
-        setAssetUploadProgress(100);
-        setTimeout(() => setAssetUploadProgress(0), 400);
-      } catch (e: any) {
+        await uploadManager.add(
+          files,
+          {
+            startUrl: `/api/projects/${id}/assets`,
+            fields: { folderId: targetFolderId },
+          },
+          t("projectPage.assetUpload")
+        );
+      } catch (e) {
         console.error("Asset upload error:", e);
-        setError(e.message || "Failed to upload assets");
-        setAssetUploadProgress(0);
-      } finally {
-        setUploadingAssets(false);
-        setCurrentAssetUploadName(null);
-        setCurrentAssetUploadIndex(0);
-        setAssetUploadTotal(0);
+        setError((e as Error).message || t("projectPage.uploadAssetsFailed"));
       }
     },
-    [fetchProject, id, resolveAssetFolderId]
+    [id, resolveAssetFolderId, t, uploadManager.add]
+  );
+
+  // Picks up an upload a reload interrupted, into the same folder
+  const resumeUpload = useCallback(
+    (session: UploadSessionSummary, file: File) =>
+      uploadAssets([file], { targetFolderId: session.folderId }),
+    [uploadAssets]
   );
 
   const handleAssetFiles = useCallback(
@@ -435,7 +355,9 @@ export default function ClientProjectPage({
         });
         const data = await res.json().catch(() => ({}));
         if (!res.ok) {
-          throw new Error(data.error || `Failed to create folder "${name}"`);
+          throw new Error(
+            data.error || t("projectPage.createFolderFailed", { name })
+          );
         }
         const created = data as Folder;
         folderIdCache.set(cacheKey(parentId, created.name), created.id);
@@ -472,19 +394,21 @@ export default function ClientProjectPage({
             baseFolderId
           );
           if (!destinationFolderId) {
-            throw new Error("Unable to resolve destination folder.");
+            throw new Error(t("projectPage.unresolvedFolder"));
           }
 
-          await uploadAssets(groupedFiles, {
+          // Queued behind each other; the upload manager reloads the
+          // listing once they are through
+          void uploadAssets(groupedFiles, {
             targetFolderId: destinationFolderId,
-            refreshAfter: false,
           });
         }
 
+        // Shows the folders just created
         await fetchProject();
       } catch (error: any) {
         console.error("Folder drop failed:", error);
-        setError(error?.message || "Failed to process dropped folder.");
+        setError(error?.message || t("projectPage.dropFailed"));
       }
     },
     [
@@ -495,6 +419,7 @@ export default function ClientProjectPage({
       id,
       resolveAssetFolderId,
       uploadAssets,
+      t,
     ]
   );
 
@@ -503,11 +428,11 @@ export default function ClientProjectPage({
       setError(null);
 
       // Clients cannot upload assets - they only view deliverables
-      throw new Error("Clients cannot upload files. Please contact support.");
+      throw new Error(t("projectPage.clientsCannotUploadFiles"));
     } catch (e: any) {
-      setError(e.message || "Select an Assets folder before uploading files.");
+      setError(e.message || t("projectPage.selectAssetsFolder"));
     }
-  }, [activeFolderId, folders]);
+  }, [activeFolderId, folders, t]);
 
   const handlePreviewAsset = useCallback(
     (asset: DriveAsset) => {
@@ -545,9 +470,19 @@ export default function ClientProjectPage({
     );
   }, []);
 
+  const canDeleteAsset = useCallback(
+    (asset: DriveAsset) =>
+      !!project &&
+      can(currentUser, "asset:delete", {
+        project,
+        uploadedById: asset.uploadedBy?.id ?? "",
+      }),
+    [currentUser, project]
+  );
+
   const handleDeleteAsset = useCallback(
     async (asset: DriveAsset) => {
-      if (!confirm("Are you sure you want to delete this asset?")) return;
+      if (!confirm(t("projectPage.confirmTrashAsset"))) return;
       setDeletingAssetId(asset.id);
       try {
         const res = await fetch(`/api/assets/${asset.id}`, {
@@ -555,16 +490,16 @@ export default function ClientProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to delete asset");
+          throw new Error(data.error || t("errors.deleteAssetFailed"));
         }
         await fetchProject();
       } catch (e: any) {
-        setError(e.message || "Failed to delete asset");
+        setError(e.message || t("errors.deleteAssetFailed"));
       } finally {
         setDeletingAssetId(null);
       }
     },
-    [fetchProject]
+    [fetchProject, t]
   );
 
   const closePreview = () => setPreviewItem(null);
@@ -597,7 +532,7 @@ export default function ClientProjectPage({
             size={40}
           />
         </div>
-        <p>Preview is not available for this file type.</p>
+        <p>{t("projectPage.previewUnavailable")}</p>
       </div>
     );
 
@@ -609,6 +544,8 @@ export default function ClientProjectPage({
           className="max-h-[70vh] max-w-full object-contain"
         />
       );
+    } else if (canShowVideo && !isAsset) {
+      body = <DeliveryVideoReview deliveryId={file.id} src={streamUrl} />;
     } else if (canShowVideo) {
       body = (
         <video
@@ -621,7 +558,7 @@ export default function ClientProjectPage({
       body = (
         <audio controls className="w-full">
           <source src={streamUrl} type={mimeType || "audio/mpeg"} />
-          Your browser does not support the audio element.
+          {t("projectPage.audioUnsupported")}
         </audio>
       );
     }
@@ -643,11 +580,12 @@ export default function ClientProjectPage({
               <div className="text-sm text-[#5f6368]">
                 {formatFileSize(file.sizeBytes)}
               </div>
+              <FileChecksum sha256={file.sha256} />
             </div>
             <button
               onClick={closePreview}
               className="btn-icon text-[#5f6368] hover:text-[#202124]"
-              aria-label="Close preview"
+              aria-label={t("projectPage.closePreview")}
             >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                 <path
@@ -664,10 +602,10 @@ export default function ClientProjectPage({
           </div>
           <div className="flex items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
             <a href={downloadUrl} className="btn-secondary" target="_blank">
-              Download
+              {t("common.download")}
             </a>
             <button onClick={closePreview} className="btn-primary">
-              Close
+              {t("common.close")}
             </button>
           </div>
         </div>
@@ -679,7 +617,7 @@ export default function ClientProjectPage({
     return (
       <div className="drive-container p-8">
         <div className="flex items-center justify-center h-64">
-          <div className="text-[#5f6368]">Loading...</div>
+          <div className="text-[#5f6368]">{t("common.loading")}</div>
         </div>
       </div>
     );
@@ -688,7 +626,7 @@ export default function ClientProjectPage({
   if (!project) {
     return (
       <div className="drive-container p-8">
-        <div className="text-[#5f6368]">Project not found</div>
+        <div className="text-[#5f6368]">{t("errors.projectNotFound")}</div>
       </div>
     );
   }
@@ -697,6 +635,10 @@ export default function ClientProjectPage({
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -709,7 +651,7 @@ export default function ClientProjectPage({
       <div className="bg-white border-b border-[#dadce0] px-4 py-3 sm:px-6 sm:py-4">
         <div className="mx-auto flex w-full max-w-[1800px] flex-wrap items-center justify-between gap-3">
           <div className="flex min-w-0 flex-1 items-center gap-3">
-            <Link href="/client" className="btn-icon" title="Back">
+            <Link href="/client" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -725,7 +667,7 @@ export default function ClientProjectPage({
               <h1 className="text-lg font-semibold text-[#202124] sm:text-2xl">
                 {project.title ||
                   project.client?.email ||
-                  `Project ${project.id.slice(0, 8)}`}
+                  t("projects.project", { id: project.id.slice(0, 8) })}
               </h1>
               {project.client?.email && (
                 <p className="mt-0.5 truncate text-xs text-[#5f6368] sm:text-sm">
@@ -736,7 +678,7 @@ export default function ClientProjectPage({
           </div>
           <div className="flex items-center gap-2">
             <div className={getStatusBadgeClass(project.status)}>
-              {project.status.replace("_", " ")}
+              {t(`projectStatus.${project.status}`)}
             </div>
           </div>
         </div>
@@ -750,12 +692,15 @@ export default function ClientProjectPage({
         )}
         {project.description && (
           <div className="card">
-            <h2 className="font-medium text-[#202124] mb-2">Description</h2>
+            <h2 className="font-medium text-[#202124] mb-2">
+              {t("projectPage.description")}
+            </h2>
             <p className="text-[#5f6368]">{project.description}</p>
           </div>
         )}
 
         <section className="space-y-4">
+          <UnfinishedUploads projectId={project.id} onResume={resumeUpload} />
           <DriveBrowserView
             browser={driveBrowser}
             assets={driveAssets}
@@ -764,51 +709,92 @@ export default function ClientProjectPage({
             onPreviewDelivery={handlePreviewDelivery}
             onDownloadAsset={handleDownloadAsset}
             onDownloadDelivery={handleDownloadDelivery}
+            onDownloadZip={(selection) =>
+              window.open(
+                projectZipUrl(id, selection),
+                "_blank",
+                "noopener,noreferrer"
+              )
+            }
+            onShowDeliveryVersions={setVersionsDelivery}
+            onReviewDelivery={
+              can(currentUser, "delivery:review", {
+                project,
+                uploadedById: "",
+              })
+                ? setReviewDelivery
+                : undefined
+            }
             onDeleteAsset={(asset) => handleDeleteAsset(asset)}
+            canDeleteAsset={canDeleteAsset}
             deletingAssetId={deletingAssetId}
             onUploadClick={handleUploadClick}
             extraToolbarContent={
-              <input
-                ref={assetInputRef}
-                type="file"
-                multiple
-                accept="*/*"
-                className="sr-only"
-                onChange={(event) => {
-                  if (event.target.files) {
-                    handleAssetFiles(event.target.files);
-                  }
-                }}
-              />
+              <>
+                <input
+                  ref={assetInputRef}
+                  type="file"
+                  multiple
+                  accept="*/*"
+                  className="sr-only"
+                  onChange={(event) => {
+                    if (event.target.files) {
+                      handleAssetFiles(event.target.files);
+                    }
+                  }}
+                />
+                {can(currentUser, "share:create", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setShareDialogOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("projectPage.share")}
+                  </button>
+                )}
+                {can(currentUser, "trash:view", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setTrashOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("trash.title")}
+                  </button>
+                )}
+              </>
             }
             emptyState={
               <div className="text-sm text-[#5f6368]">
-                No deliverables yet. Your project team will upload deliverables
-                here when they are ready.
+                {t("projectPage.clientEmpty")}
               </div>
             }
           />
-
-          {uploadingAssets && (
-            <div className="rounded-lg border border-[#dadce0] bg-white px-4 py-3 shadow-sm">
-              <div className="flex items-center justify-between text-sm text-[#202124]">
-                <span>
-                  Uploading {currentAssetUploadName || "files"} (
-                  {currentAssetUploadIndex}/{Math.max(assetUploadTotal, 1)})
-                </span>
-                <span>{assetUploadProgress}%</span>
-              </div>
-              <div className="mt-2 h-2 rounded-full bg-[#e8eaed]">
-                <div
-                  className="h-2 rounded-full bg-[#1a73e8] transition-all"
-                  style={{ width: `${assetUploadProgress}%` }}
-                />
-              </div>
-            </div>
-          )}
         </section>
       </div>
+      <UploadManagerPanel manager={uploadManager} />
       {renderPreview()}
+      <ShareLinksDialog
+        open={shareDialogOpen}
+        projectId={id}
+        deliveries={driveDeliveries}
+        folders={driveFolders}
+        onClose={() => setShareDialogOpen(false)}
+      />
+      <TrashDialog
+        open={trashOpen}
+        projectId={id}
+        onClose={() => setTrashOpen(false)}
+        onRestored={fetchProject}
+      />
+      <DeliveryVersionsDialog
+        delivery={versionsDelivery}
+        onClose={() => setVersionsDelivery(null)}
+      />
+      <DeliveryReviewDialog
+        delivery={reviewDelivery}
+        onClose={() => setReviewDelivery(null)}
+        onReviewed={fetchProject}
+      />
     </div>
   );
 }
@@ -3,8 +3,10 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 export default function NewProjectPage() {
+  const { t } = useTranslation();
   const router = useRouter();
   const [formData, setFormData] = useState({
     title: "",
@@ -27,7 +29,7 @@ export default function NewProjectPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to create project");
+        throw new Error(data.error || t("errors.createProjectFailed"));
       }
 
       const project = await res.json();
@@ -43,7 +45,7 @@ export default function NewProjectPage() {
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <div className="flex items-center gap-4">
-            <Link href="/client" className="btn-icon" title="Back">
+            <Link href="/client" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -56,7 +58,7 @@ export default function NewProjectPage() {
               </svg>
             </Link>
             <h1 className="text-2xl font-normal text-[#202124]">
-              Create New Project
+              {t("newProject.title")}
             </h1>
           </div>
         </div>
@@ -65,7 +67,7 @@ export default function NewProjectPage() {
         <form onSubmit={onSubmit} className="card space-y-6">
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Title (optional)
+              {t("newProject.titleLabel")}
             </label>
             <input
               type="text"
@@ -74,13 +76,13 @@ export default function NewProjectPage() {
                 setFormData({ ...formData, title: e.target.value })
               }
               className="input"
-              placeholder="e.g., Product Launch Video"
+              placeholder={t("newProject.titlePlaceholder")}
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Description (optional)
+              {t("newProject.descriptionLabel")}
             </label>
             <textarea
               value={formData.description}
@@ -89,7 +91,7 @@ export default function NewProjectPage() {
               }
               className="input"
               rows={4}
-              placeholder="Describe your project requirements..."
+              placeholder={t("newProject.descriptionPlaceholder")}
             />
           </div>
 
@@ -101,14 +103,14 @@ export default function NewProjectPage() {
               disabled={loading}
               className="btn-primary disabled:opacity-50"
             >
-              {loading ? "Creating..." : "Create Project"}
+              {loading ? t("newProject.creating") : t("newProject.submit")}
             </button>
             <button
               type="button"
               onClick={() => router.back()}
               className="btn-secondary"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
           </div>
         </form>
@@ -1,5 +1,6 @@
 import { auth } from "@/app/lib/auth";
 import { prisma } from "@/app/lib/prisma";
+import { getTranslator } from "@/app/lib/i18n/server";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 
@@ -15,13 +16,14 @@ export default async function WatchPage({
   if (!video || video.ownerId !== session.user?.id) return notFound();
 
   const src = `/api/videos/${id}/stream`;
+  const t = await getTranslator();
 
   return (
     <div className="drive-container">
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <div className="flex items-center gap-4">
-            <Link href="/client" className="btn-icon" title="Back">
+            <Link href="/client" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -2,12 +2,14 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type ClientLinkProps = {
   projectId: string;
 };
 
 export default function ClientLink({ projectId }: ClientLinkProps) {
+  const { t } = useTranslation();
   const [copied, setCopied] = useState(false);
   const [clientUrl, setClientUrl] = useState("");
 
@@ -48,12 +50,12 @@ export default function ClientLink({ projectId }: ClientLinkProps) {
   return (
     <div className="mt-3 pt-3 border-t border-[#dadce0]">
       <div className="flex items-center justify-between gap-3">
-        <span className="text-sm text-[#5f6368]">Client access link:</span>
+        <span className="text-sm text-[#5f6368]">{t("clientLink.label")}</span>
         <div className="flex items-center gap-2">
           <button
             onClick={handleCopy}
             className="btn-secondary text-sm flex items-center gap-1.5 px-3 py-1.5"
-            title="Copy link"
+            title={t("clientLink.copyTitle")}
           >
             {copied ? (
               <>
@@ -67,7 +69,7 @@ export default function ClientLink({ projectId }: ClientLinkProps) {
                 >
                   <path d="M20 6L9 17l-5-5" />
                 </svg>
-                Copied!
+                {t("common.copied")}
               </>
             ) : (
               <>
@@ -82,7 +84,7 @@ export default function ClientLink({ projectId }: ClientLinkProps) {
                   <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
                   <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
                 </svg>
-                Copy
+                {t("common.copy")}
               </>
             )}
           </button>
@@ -103,7 +105,7 @@ export default function ClientLink({ projectId }: ClientLinkProps) {
               <polyline points="15 3 21 3 21 9"></polyline>
               <line x1="10" y1="14" x2="21" y2="3"></line>
             </svg>
-            Open
+            {t("common.open")}
           </Link>
         </div>
       </div>
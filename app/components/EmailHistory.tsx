@@ -0,0 +1,307 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import type { FC } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type EmailStatus = "QUEUED" | "SENT" | "RETRYING" | "FAILED";
+
+type EmailEvent = {
+  id: string;
+  status: EmailStatus;
+  detail: string | null;
+  createdAt: string;
+};
+
+type EmailMessage = {
+  id: string;
+  template: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  smtpResponse: string | null;
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  resentFromId: string | null;
+  // Secrets are masked in the stored copy, so it can't be resent
+  redacted: boolean;
+  project: { id: string; title: string | null } | null;
+  user: { id: string; email: string; name: string | null } | null;
+  events: EmailEvent[];
+};
+
+type EmailHistoryProps = {
+  projectId?: string;
+  userId?: string;
+  status?: EmailStatus | "";
+  // Bump to reload, e.g. after the page sends a new email
+  refreshKey?: number;
+};
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  QUEUED: "bg-[#e8f0fe] text-[#1a73e8]",
+  SENT: "bg-[#e6f4ea] text-[#137333]",
+  RETRYING: "bg-[#fef7e0] text-[#b06000]",
+  FAILED: "bg-[#fce8e6] text-[#d93025]",
+};
+
+/**
+ * Outbox emails for a project, a user or everything, with each one's
+ * delivery history, rendered body and a resend action. Admin only.
+ */
+const EmailHistory: FC<EmailHistoryProps> = ({
+  projectId,
+  userId,
+  status,
+  refreshKey,
+}) => {
+  const { t } = useTranslation();
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [bodies, setBodies] = useState<Record<string, string>>({});
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMessages = useCallback(
+    async (cursor?: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (projectId) params.set("projectId", projectId);
+        if (userId) params.set("userId", userId);
+        if (status) params.set("status", status);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/admin/emails?${params.toString()}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) throw new Error(t("emails.loadFailed"));
+        const data = await res.json();
+        setMessages((prev) =>
+          cursor ? [...prev, ...data.messages] : data.messages
+        );
+        setNextCursor(data.nextCursor);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t("emails.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [projectId, userId, status, t]
+  );
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages, refreshKey]);
+
+  const toggle = async (message: EmailMessage) => {
+    if (expandedId === message.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(message.id);
+    if (bodies[message.id] !== undefined) return;
+    try {
+      const res = await fetch(`/api/admin/emails/${message.id}`);
+      if (!res.ok) throw new Error(t("emails.loadOneFailed"));
+      const data = await res.json();
+      setBodies((prev) => ({ ...prev, [message.id]: data.html }));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("emails.loadOneFailed"));
+    }
+  };
+
+  const resend = async (message: EmailMessage) => {
+    if (
+      !confirm(
+        t("emails.confirmResend", {
+          subject: message.subject,
+          to: message.to.join(", "),
+        })
+      )
+    ) {
+      return;
+    }
+    setResendingId(message.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/emails/${message.id}/resend`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("emails.resendFailed"));
+      }
+      await fetchMessages();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("emails.resendFailed"));
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <div className="overflow-x-auto border border-[#dadce0] rounded-lg">
+        <table className="w-full">
+          <thead className="bg-[#f8f9fa] border-b border-[#dadce0]">
+            <tr>
+              {[
+                t("emails.sent"),
+                t("common.email"),
+                t("emails.recipients"),
+                t("common.status"),
+                "",
+              ].map((heading) => (
+                <th
+                  key={heading}
+                  className="text-left p-3 text-sm font-medium text-[#202124]"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#dadce0]">
+            {messages.map((message) => (
+              <Fragment key={message.id}>
+                <tr
+                  className="hover:bg-[#f8f9fa] cursor-pointer align-top"
+                  onClick={() => toggle(message)}
+                >
+                  <td className="p-3 text-sm text-[#5f6368] whitespace-nowrap">
+                    {new Date(message.createdAt).toLocaleString()}
+                  </td>
+                  <td className="p-3 text-sm text-[#202124]">
+                    {message.subject}
+                    <p className="text-xs text-[#80868b]">
+                      {message.template}
+                      {message.resentFromId && ` · ${t("emails.resendTag")}`}
+                      {!projectId && message.project && (
+                        <>
+                          {" · "}
+                          {message.project.title || t("common.untitledProject")}
+                        </>
+                      )}
+                    </p>
+                  </td>
+                  <td className="p-3 text-sm text-[#5f6368] break-all">
+                    {message.to.join(", ")}
+                    {message.cc.length > 0 && (
+                      <p className="text-xs">
+                        {t("emails.cc", { to: message.cc.join(", ") })}
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-3 text-sm">
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-medium ${
+                        STATUS_STYLES[message.status]
+                      }`}
+                    >
+                      {t(`emails.status.${message.status}`)}
+                    </span>
+                  </td>
+                  <td className="p-3 text-right">
+                    {!message.redacted && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          resend(message);
+                        }}
+                        disabled={resendingId === message.id}
+                        className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 text-xs font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff] disabled:opacity-50"
+                      >
+                        {resendingId === message.id
+                          ? t("emails.resending")
+                          : t("emails.resend")}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === message.id && (
+                  <tr className="bg-[#f8f9fa]">
+                    <td colSpan={5} className="p-3 text-xs space-y-3">
+                      <ul className="space-y-1">
+                        {message.events.map((event) => (
+                          <li key={event.id} className="text-[#5f6368]">
+                            <span className="font-medium text-[#202124]">
+                              {t(`emails.status.${event.status}`)}
+                            </span>{" "}
+                            {new Date(event.createdAt).toLocaleString()}
+                            {event.detail && (
+                              <span className="ml-2 font-mono break-all">
+                                {event.detail}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {message.smtpResponse && (
+                        <p className="text-[#5f6368]">
+                          {t("emails.smtpResponse")}{" "}
+                          <span className="font-mono">
+                            {message.smtpResponse}
+                          </span>
+                        </p>
+                      )}
+                      {message.redacted && (
+                        <p className="text-[#5f6368]">{t("emails.redacted")}</p>
+                      )}
+                      {bodies[message.id] === undefined ? (
+                        <p className="text-[#5f6368]">
+                          {t("emails.loadingMessage")}
+                        </p>
+                      ) : (
+                        <iframe
+                          title={message.subject}
+                          srcDoc={bodies[message.id]}
+                          sandbox=""
+                          className="w-full h-96 rounded border border-[#dadce0] bg-white"
+                        />
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!loading && messages.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="p-6 text-center text-sm text-[#5f6368]"
+                >
+                  {t("emails.empty")}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-center">
+        {loading ? (
+          <p className="text-sm text-[#5f6368]">{t("common.loading")}</p>
+        ) : (
+          nextCursor && (
+            <button
+              type="button"
+              onClick={() => fetchMessages(nextCursor)}
+              className="btn-secondary"
+            >
+              {t("common.loadMore")}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailHistory;
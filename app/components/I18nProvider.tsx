@@ -0,0 +1,20 @@
+"use client";
+
+import { createContext, useContext, useMemo } from "react";
+import type { FC, ReactNode } from "react";
+import { DEFAULT_LOCALE, translator, type Locale } from "@/app/lib/i18n";
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+/** Makes the request's language, resolved by the root layout, available to client components */
+export const I18nProvider: FC<{ locale: Locale; children: ReactNode }> = ({
+  locale,
+  children,
+}) => (
+  <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+);
+
+export function useTranslation() {
+  const locale = useContext(LocaleContext);
+  return useMemo(() => ({ locale, t: translator(locale) }), [locale]);
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LOCALES, LOCALE_NAMES, isLocale } from "@/app/lib/i18n";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export default function LanguageSwitcher() {
+  const router = useRouter();
+  const { locale, t } = useTranslation();
+  const [saving, setSaving] = useState(false);
+
+  const change = async (next: string) => {
+    if (!isLocale(next) || next === locale) return;
+    setSaving(true);
+    try {
+      const res = await fetch("/api/locale", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locale: next }),
+      });
+      if (res.ok) router.refresh();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => change(e.target.value)}
+      disabled={saving}
+      title={t("nav.language")}
+      aria-label={t("nav.language")}
+      className="bg-transparent border border-[#dadce0] rounded-lg px-2 py-1.5 text-xs sm:text-sm text-[#5f6368] hover:bg-[#f1f3f4] focus:outline-none"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option}>
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
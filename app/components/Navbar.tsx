@@ -1,8 +1,12 @@
 import Link from "next/link";
 import { auth } from "@/app/lib/auth";
+import { getTranslator } from "@/app/lib/i18n/server";
+import LanguageSwitcher from "@/app/components/LanguageSwitcher";
+import NotificationBell from "@/app/components/notifications/NotificationBell";
 
 export default async function Navbar() {
   const session = await auth();
+  const t = await getTranslator();
   const role = session?.user?.role;
   const user = session?.user;
 
@@ -42,14 +46,17 @@ export default async function Navbar() {
             </div>
             <input
               type="text"
-              placeholder="Search in Drive"
+              placeholder={t("nav.search")}
               className="w-full pl-10 pr-4 py-2 bg-[#f1f3f4] border-none rounded-lg text-[#202124] placeholder-[#5f6368] focus:outline-none focus:bg-white focus:shadow-md transition-all"
             />
           </div>
         </div>
 
         {/* Mobile Search Icon */}
-        <button className="md:hidden btn-icon shrink-0" title="Search">
+        <button
+          className="md:hidden btn-icon shrink-0"
+          title={t("nav.searchButton")}
+        >
           <svg
             width="20"
             height="20"
@@ -70,7 +77,7 @@ export default async function Navbar() {
               href="/admin"
               className="px-3 sm:px-4 py-2 text-[#202124] hover:bg-[#f1f3f4] rounded-lg transition-colors text-sm font-medium"
             >
-              Admin
+              {t("nav.admin")}
             </Link>
           )}
           {role === "STAFF" && (
@@ -78,7 +85,7 @@ export default async function Navbar() {
               href="/staff"
               className="px-3 sm:px-4 py-2 text-[#202124] hover:bg-[#f1f3f4] rounded-lg transition-colors text-sm font-medium"
             >
-              Staff
+              {t("nav.staff")}
             </Link>
           )}
           {role === "CLIENT" && (
@@ -86,39 +93,41 @@ export default async function Navbar() {
               href="/client"
               className="px-3 sm:px-4 py-2 text-[#202124] hover:bg-[#f1f3f4] rounded-lg transition-colors text-sm font-medium"
             >
-              My Projects
+              {t("nav.myProjects")}
             </Link>
           )}
         </div>
 
         {/* User Menu */}
         <div className="flex items-center gap-1 sm:gap-2 shrink-0">
+          <LanguageSwitcher />
           {!role ? (
             <Link
               href="/auth/signin"
               className="btn-primary text-sm px-3 sm:px-4 py-2 no-underline whitespace-nowrap"
             >
-              <span className="hidden sm:inline">Sign in</span>
-              <span className="sm:hidden">Sign in</span>
+              <span className="hidden sm:inline">{t("nav.signIn")}</span>
+              <span className="sm:hidden">{t("nav.signIn")}</span>
             </Link>
           ) : (
             <div className="flex items-center gap-1 sm:gap-3">
+              <NotificationBell />
               <div className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-[#3c5495] flex items-center justify-center text-white font-medium text-xs sm:text-sm">
                 {user?.email?.charAt(0).toUpperCase() || "U"}
               </div>
               <Link
                 href="/profile"
                 className="px-2 sm:px-3 py-2 text-xs sm:text-sm font-medium text-[#3c5495] border border-[#3c5495] rounded-lg hover:bg-[#3c5495] hover:text-white transition-colors no-underline"
-                title="Profile"
+                title={t("nav.profile")}
               >
-                Profile
+                {t("nav.profile")}
               </Link>
               <Link
                 href="/auth/signout"
                 className="px-2 sm:px-4 py-2 text-[#5f6368] hover:bg-[#f1f3f4] rounded-lg transition-colors text-xs sm:text-sm font-medium no-underline"
-                title="Sign out"
+                title={t("nav.signOut")}
               >
-                <span className="hidden sm:inline">Sign out</span>
+                <span className="hidden sm:inline">{t("nav.signOut")}</span>
                 <svg
                   className="sm:hidden w-5 h-5"
                   viewBox="0 0 24 24"
@@ -0,0 +1,294 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { FC, FormEvent } from "react";
+import type { ApiTokenScope } from "@prisma/client";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type ApiToken = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+};
+
+type TokensResponse = {
+  scopes: ApiTokenScope[];
+  tokens: ApiToken[];
+};
+
+// Matches API_TOKEN_EXPIRY_DAYS on the server; "" = never
+const EXPIRY_OPTIONS = ["30", "90", "365", ""] as const;
+
+const errorMessage = (data: unknown) => {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  if (Array.isArray(error) && typeof error[0]?.message === "string") {
+    return error[0].message as string;
+  }
+  return "";
+};
+
+/** Profile section for personal access tokens used with /api/v1 */
+const ApiTokenSettings: FC = () => {
+  const { t } = useTranslation();
+  const [available, setAvailable] = useState<ApiTokenScope[]>([]);
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["READ"]);
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]>("90");
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  // The raw token is only returned once, right after it was created
+  const [created, setCreated] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/profile/tokens", { cache: "no-store" });
+      if (!res.ok) return;
+      const data: TokensResponse = await res.json();
+      setAvailable(data.scopes);
+      setTokens(data.tokens);
+    } catch {
+      // The section simply stays hidden
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleScope = (scope: ApiTokenScope) =>
+    setScopes((prev) =>
+      prev.includes(scope)
+        ? prev.filter((value) => value !== scope)
+        : available.filter((value) => value === scope || prev.includes(value))
+    );
+
+  const onCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    setError(null);
+    setCreated(null);
+    try {
+      const res = await fetch("/api/profile/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes,
+          expiresInDays: expiry ? Number(expiry) : null,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(errorMessage(data));
+      setCreated(data.token);
+      setName("");
+      await load();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error && e.message
+          ? e.message
+          : t("errors.createApiTokenFailed")
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (token: ApiToken) => {
+    if (!confirm(t("apiTokens.confirmRevoke", { name: token.name }))) return;
+    setRevokingId(token.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/profile/tokens/${token.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(t("apiTokens.revokeFailed"));
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("apiTokens.revokeFailed"));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (!tokens) return null;
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <h2 className="text-lg font-medium text-[#202124]">
+          {t("apiTokens.title")}
+        </h2>
+        <p className="text-xs text-[#5f6368]">{t("apiTokens.intro")}</p>
+      </div>
+
+      {created && (
+        <div className="space-y-2 rounded-lg border border-[#fbbc04] bg-[#fef7e0] p-4">
+          <p className="text-sm font-medium text-[#202124]">
+            {t("apiTokens.createdOnce")}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <code className="rounded bg-white px-3 py-2 font-mono text-sm text-[#202124] break-all">
+              {created}
+            </code>
+            <button
+              type="button"
+              onClick={() => void navigator.clipboard?.writeText(created)}
+              className="btn-secondary"
+            >
+              {t("common.copy")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length > 0 ? (
+        <ul className="divide-y divide-[#e8eaed]">
+          {tokens.map((token) => (
+            <li
+              key={token.id}
+              className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium text-[#202124]">
+                    {token.name}
+                  </span>
+                  <code className="text-xs text-[#5f6368]">
+                    {token.tokenPrefix}…
+                  </code>
+                  {token.scopes.map((scope) => (
+                    <span
+                      key={scope}
+                      className="rounded-full bg-[#e8f0fe] px-2 py-0.5 text-xs font-medium text-[#1a73e8]"
+                    >
+                      {t(`apiTokens.scope.${scope}`)}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs text-[#80868b]">
+                  {token.lastUsedAt
+                    ? t("apiTokens.lastUsed", {
+                        date: new Date(token.lastUsedAt).toLocaleString(),
+                        ip: token.lastUsedIp ?? "—",
+                      })
+                    : t("apiTokens.neverUsed")}
+                  {" · "}
+                  {token.expiresAt
+                    ? t("apiTokens.expires", {
+                        date: new Date(token.expiresAt).toLocaleDateString(),
+                      })
+                    : t("apiTokens.noExpiry")}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => revoke(token)}
+                disabled={revokingId === token.id}
+                className="btn-secondary text-[#d93025] disabled:opacity-50"
+              >
+                {t("apiTokens.revoke")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-[#5f6368]">{t("apiTokens.empty")}</p>
+      )}
+
+      <form
+        onSubmit={onCreate}
+        className="space-y-3 border-t border-[#e8eaed] pt-4"
+      >
+        <h3 className="text-sm font-medium text-[#202124]">
+          {t("apiTokens.create")}
+        </h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-[#202124] mb-1">
+              {t("apiTokens.name")}
+            </label>
+            <input
+              type="text"
+              required
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t("apiTokens.namePlaceholder")}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#202124] mb-1">
+              {t("apiTokens.expiry")}
+            </label>
+            <select
+              value={expiry}
+              onChange={(e) =>
+                setExpiry(e.target.value as (typeof EXPIRY_OPTIONS)[number])
+              }
+              className="input"
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days
+                    ? t("apiTokens.expiryDays", { days })
+                    : t("apiTokens.noExpiry")}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-[#202124] mb-2">
+            {t("apiTokens.scopes")}
+          </legend>
+          <div className="space-y-2">
+            {available.map((scope) => (
+              <label
+                key={scope}
+                className="flex items-start gap-2 text-sm text-[#202124]"
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-0.5"
+                />
+                <span>
+                  {t(`apiTokens.scope.${scope}`)}
+                  <span className="block text-xs text-[#5f6368]">
+                    {t(`apiTokens.scopeHint.${scope}`)}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={creating || scopes.length === 0}
+          className="btn-primary disabled:opacity-50"
+        >
+          {creating ? t("apiTokens.creating") : t("apiTokens.create")}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ApiTokenSettings;
@@ -0,0 +1,47 @@
+"use client";
+
+import type { FC } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type RecoveryCodesListProps = {
+  codes: string[];
+};
+
+/** One-time display of freshly generated recovery codes */
+const RecoveryCodesList: FC<RecoveryCodesListProps> = ({ codes }) => {
+  const { t } = useTranslation();
+  const download = () => {
+    const blob = new Blob([`${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "alfatonics-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-[#202124]">{t("recoveryCodes.intro")}</p>
+      <ul className="grid grid-cols-2 gap-2 rounded-lg border border-[#d8def4] bg-[#f4f6ff] p-4 font-mono text-sm text-[#202124]">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => void navigator.clipboard?.writeText(codes.join("\n"))}
+        >
+          {t("common.copy")}
+        </button>
+        <button type="button" className="btn-secondary" onClick={download}>
+          {t("common.download")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import type { FC, FormEvent } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type TwoFactorEnrollmentProps = {
+  qrDataUrl: string;
+  secret: string;
+  submitting?: boolean;
+  error?: string | null;
+  onSubmitCode: (code: string) => void;
+  onCancel?: () => void;
+};
+
+/** QR code, manual key and confirmation field for authenticator enrollment */
+const TwoFactorEnrollment: FC<TwoFactorEnrollmentProps> = ({
+  qrDataUrl,
+  secret,
+  submitting = false,
+  error,
+  onSubmitCode,
+  onCancel,
+}) => {
+  const [code, setCode] = useState("");
+  const { t } = useTranslation();
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmitCode(code.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ol className="list-decimal space-y-1 pl-5 text-sm text-[#202124]">
+        <li>{t("twoFactor.enroll.scan")}</li>
+        <li>{t("twoFactor.enroll.enterCode")}</li>
+      </ol>
+      <div className="flex justify-center">
+        <img
+          src={qrDataUrl}
+          alt={t("twoFactor.enroll.qrAlt")}
+          width={220}
+          height={220}
+          className="rounded-lg border border-[#dadce0]"
+        />
+      </div>
+      <p className="text-center text-xs text-[#5f6368]">
+        {t("twoFactor.enroll.manual")}
+        <br />
+        <code className="break-all font-mono text-[#202124]">{secret}</code>
+      </p>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className="input text-center tracking-widest"
+        maxLength={6}
+        required
+      />
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex gap-2">
+        {onCancel && (
+          <button type="button" className="btn-secondary" onClick={onCancel}>
+            {t("common.cancel")}
+          </button>
+        )}
+        <button
+          type="submit"
+          className="flex-1 btn-primary disabled:opacity-50"
+          disabled={submitting || code.trim().length < 6}
+        >
+          {submitting ? t("twoFactor.verifying") : t("twoFactor.enroll.submit")}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorEnrollment;
@@ -0,0 +1,334 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { FC, FormEvent } from "react";
+import RecoveryCodesList from "@/app/components/auth/RecoveryCodesList";
+import TwoFactorEnrollment from "@/app/components/auth/TwoFactorEnrollment";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type TwoFactorStatus = {
+  available: boolean;
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Mode = "idle" | "password" | "enroll" | "regenerate" | "disable";
+
+const errorMessage = (data: unknown, fallback: string) => {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  if (Array.isArray(error) && typeof error[0]?.message === "string") {
+    return error[0].message as string;
+  }
+  return fallback;
+};
+
+async function postJson(url: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(errorMessage(data, ""));
+  return data;
+}
+
+/** Two-factor section of the profile page (admins and staff only) */
+const TwoFactorSettings: FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<{
+    secret: string;
+    qrDataUrl: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/profile/two-factor");
+      if (!res.ok) return;
+      setStatus(await res.json());
+    } catch {
+      // The section simply stays hidden
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const reset = (next: Mode = "idle") => {
+    setMode(next);
+    setPassword("");
+    setCode("");
+    setSetup(null);
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error && e.message
+          ? e.message
+          : t("twoFactor.requestFailed")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startSetup = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const data = await postJson("/api/profile/two-factor/setup", "POST", {
+        password,
+      });
+      setSetup({ secret: data.secret, qrDataUrl: data.qrDataUrl });
+      setPassword("");
+      setMode("enroll");
+    });
+  };
+
+  const confirmSetup = (enrollmentCode: string) =>
+    run(async () => {
+      const data = await postJson("/api/profile/two-factor/confirm", "POST", {
+        code: enrollmentCode,
+      });
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      await loadStatus();
+    });
+
+  const regenerate = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const data = await postJson(
+        "/api/profile/two-factor/recovery-codes",
+        "POST",
+        { code }
+      );
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      await loadStatus();
+    });
+  };
+
+  const disable = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      await postJson("/api/profile/two-factor", "DELETE", { password, code });
+      setRecoveryCodes(null);
+      reset();
+      await loadStatus();
+    });
+  };
+
+  if (!status?.available) return null;
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-medium text-[#202124]">
+            {t("twoFactor.title")}
+          </h2>
+          <p className="text-xs text-[#5f6368]">{t("twoFactor.description")}</p>
+        </div>
+        <span
+          className={`rounded-full px-3 py-1 text-xs font-medium ${
+            status.enabled
+              ? "bg-green-50 text-green-700"
+              : "bg-[#f1f3f4] text-[#5f6368]"
+          }`}
+        >
+          {status.enabled ? t("twoFactor.enabled") : t("twoFactor.off")}
+        </span>
+      </div>
+
+      {status.enabled && (
+        <p className="text-sm text-[#5f6368]">
+          {t("twoFactor.enabled")}{" "}
+          {status.enabledAt && new Date(status.enabledAt).toLocaleDateString()}
+          {" · "}
+          {t(
+            status.recoveryCodesRemaining === 1
+              ? "twoFactor.codesLeftOne"
+              : "twoFactor.codesLeft",
+            { count: status.recoveryCodesRemaining }
+          )}
+          {status.required && ` · ${t("twoFactor.requiredForRole")}`}
+        </p>
+      )}
+      {!status.enabled && status.required && (
+        <p className="text-sm text-[#e98923]">{t("twoFactor.roleRequires")}</p>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-2">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => setRecoveryCodes(null)}
+          >
+            {t("twoFactor.done")}
+          </button>
+        </div>
+      )}
+
+      {mode === "idle" && !recoveryCodes && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => reset("password")}
+          >
+            {status.enabled ? t("twoFactor.moveDevice") : t("twoFactor.setUp")}
+          </button>
+          {status.enabled && (
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => reset("regenerate")}
+            >
+              {t("twoFactor.newCodes")}
+            </button>
+          )}
+          {status.enabled && !status.required && (
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => reset("disable")}
+            >
+              {t("twoFactor.turnOff")}
+            </button>
+          )}
+        </div>
+      )}
+
+      {mode === "password" && (
+        <form onSubmit={startSetup} className="space-y-3">
+          <label className="block text-sm font-medium text-[#202124]">
+            {t("twoFactor.confirmPassword")}
+          </label>
+          <input
+            type="password"
+            required
+            minLength={6}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="input"
+            autoComplete="current-password"
+          />
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => reset()}
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              type="submit"
+              className="btn-primary disabled:opacity-50"
+              disabled={submitting}
+            >
+              {submitting ? t("twoFactor.checking") : t("common.continue")}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {mode === "enroll" && setup && (
+        <TwoFactorEnrollment
+          qrDataUrl={setup.qrDataUrl}
+          secret={setup.secret}
+          submitting={submitting}
+          error={error}
+          onSubmitCode={confirmSetup}
+          onCancel={() => reset()}
+        />
+      )}
+
+      {(mode === "regenerate" || mode === "disable") && (
+        <form
+          onSubmit={mode === "regenerate" ? regenerate : disable}
+          className="space-y-3"
+        >
+          {mode === "disable" && (
+            <div>
+              <label className="block text-sm font-medium text-[#202124] mb-1">
+                {t("twoFactor.currentPassword")}
+              </label>
+              <input
+                type="password"
+                required
+                minLength={6}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                autoComplete="current-password"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-[#202124] mb-1">
+              {t("twoFactor.codeLabel")}
+            </label>
+            <input
+              type="text"
+              required
+              minLength={6}
+              maxLength={32}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="input"
+              autoComplete="one-time-code"
+            />
+          </div>
+          {mode === "regenerate" && (
+            <p className="text-xs text-[#5f6368]">
+              {t("twoFactor.regenerateWarning")}
+            </p>
+          )}
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => reset()}
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              type="submit"
+              className="btn-primary disabled:opacity-50"
+              disabled={submitting}
+            >
+              {submitting
+                ? t("twoFactor.working")
+                : mode === "regenerate"
+                  ? t("twoFactor.generateCodes")
+                  : t("twoFactor.turnOffTwoFactor")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
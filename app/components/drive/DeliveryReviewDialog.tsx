@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+import type { DriveDelivery, DriveReviewStatus } from "./browser/types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type DeliveryReviewDialogProps = {
+  delivery: DriveDelivery | null;
+  onClose: () => void;
+  onReviewed: () => void | Promise<void>;
+};
+
+const DeliveryReviewDialog: FC<DeliveryReviewDialogProps> = ({
+  delivery,
+  onClose,
+  onReviewed,
+}) => {
+  const { t } = useTranslation();
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNote(delivery?.reviewNote ?? "");
+    setError(null);
+  }, [delivery]);
+
+  if (!delivery) return null;
+
+  const submitReview = async (status: Exclude<DriveReviewStatus, "PENDING">) => {
+    if (status === "CHANGES_REQUESTED" && !note.trim()) {
+      setError(t("validation.describeChanges"));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/deliveries/${delivery.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: note.trim() || undefined }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(
+          typeof data.error === "string" ? data.error : t("errors.saveReviewFailed")
+        );
+      }
+      await onReviewed();
+      onClose();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("errors.saveReviewFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="w-full max-w-lg overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="border-b border-[#dadce0] bg-[#f8f9fa] px-6 py-4">
+          <h3 className="text-lg font-medium text-[#202124]">
+            {t("review.title")}
+          </h3>
+          <div className="text-sm text-[#5f6368]">
+            {delivery.filename}
+            {(delivery.version ?? 1) > 1 && ` · v${delivery.version}`}
+          </div>
+        </div>
+        <div className="space-y-3 px-6 py-4">
+          <label
+            htmlFor="delivery-review-note"
+            className="block text-sm font-medium text-[#202124]"
+          >
+            {t("review.notesLabel")}
+          </label>
+          <textarea
+            id="delivery-review-note"
+            className="input min-h-[120px] w-full"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder={t("review.notesPlaceholder")}
+            disabled={saving}
+          />
+          {error && <div className="text-sm text-[#d93025]">{error}</div>}
+        </div>
+        <div className="flex flex-wrap items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
+          <button onClick={onClose} className="btn-secondary" disabled={saving}>
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => submitReview("CHANGES_REQUESTED")}
+            className="btn-secondary text-[#c5221f]"
+            disabled={saving}
+          >
+            {t("review.requestChanges")}
+          </button>
+          <button
+            onClick={() => submitReview("APPROVED")}
+            className="btn-primary"
+            disabled={saving}
+          >
+            {saving ? t("common.saving") : t("review.approve")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryReviewDialog;
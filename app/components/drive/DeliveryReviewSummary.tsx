@@ -0,0 +1,74 @@
+"use client";
+
+import type { FC } from "react";
+import type { DriveDelivery } from "./browser/types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type DeliveryReviewSummaryProps = {
+  deliveries: DriveDelivery[];
+};
+
+/**
+ * Staff/admin overview of the client's review of each delivery, with the
+ * notes attached to change requests.
+ */
+const DeliveryReviewSummary: FC<DeliveryReviewSummaryProps> = ({
+  deliveries,
+}) => {
+  const { t } = useTranslation();
+  const approved = deliveries.filter(
+    (delivery) => delivery.reviewStatus === "APPROVED"
+  );
+  const changesRequested = deliveries.filter(
+    (delivery) => delivery.reviewStatus === "CHANGES_REQUESTED"
+  );
+
+  if (approved.length === 0 && changesRequested.length === 0) return null;
+
+  const pendingCount =
+    deliveries.length - approved.length - changesRequested.length;
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-base font-medium text-[#202124]">
+          {t("reviewSummary.title")}
+        </h2>
+        <div className="flex flex-wrap gap-3 text-xs text-[#5f6368]">
+          <span className="text-[#137333]">
+            {t("reviewSummary.approved", { count: approved.length })}
+          </span>
+          <span className="text-[#c5221f]">
+            {t("reviewSummary.changesRequested", {
+              count: changesRequested.length,
+            })}
+          </span>
+          <span>{t("reviewSummary.awaiting", { count: pendingCount })}</span>
+        </div>
+      </div>
+      {changesRequested.length > 0 && (
+        <ul className="divide-y divide-[#e5e8ef]">
+          {changesRequested.map((delivery) => (
+            <li key={delivery.id} className="py-2">
+              <p className="text-sm font-medium text-[#202124]">
+                {delivery.filename}
+                {(delivery.version ?? 1) > 1 && (
+                  <span className="ml-2 text-xs font-normal text-[#5f6368]">
+                    v{delivery.version}
+                  </span>
+                )}
+              </p>
+              {delivery.reviewNote && (
+                <p className="mt-1 whitespace-pre-line text-sm text-[#5f6368]">
+                  {delivery.reviewNote}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryReviewSummary;
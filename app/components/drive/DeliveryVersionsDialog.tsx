@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FC } from "react";
+import { formatFileSize } from "@/app/lib/drive-utils";
+import { useTranslation } from "@/app/components/I18nProvider";
+import FileChecksum from "./FileChecksum";
+
+type DeliveryVersion = {
+  id: string;
+  version: number;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string | null;
+  createdAt: string;
+  uploadedBy: { id: string; email: string; name: string | null } | null;
+  isLatest: boolean;
+};
+
+type DeliveryVersionsDialogProps = {
+  delivery: { id: string; filename: string } | null;
+  onClose: () => void;
+  // Shown in the footer when the viewer may upload a new version
+  onUploadNewVersion?: () => void;
+};
+
+const DeliveryVersionsDialog: FC<DeliveryVersionsDialogProps> = ({
+  delivery,
+  onClose,
+  onUploadNewVersion,
+}) => {
+  const { t } = useTranslation();
+  const [versions, setVersions] = useState<DeliveryVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deliveryId = delivery?.id ?? null;
+
+  useEffect(() => {
+    if (!deliveryId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/deliveries/${deliveryId}/versions`, {
+          cache: "no-store",
+        });
+        if (!res.ok) {
+          throw new Error(t("versions.loadFailed"));
+        }
+        const data = await res.json();
+        if (!cancelled) setVersions(data.versions ?? []);
+      } catch (e: unknown) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : t("versions.loadFailed"));
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [deliveryId, t]);
+
+  if (!delivery) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="w-full max-w-2xl overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between border-b border-[#dadce0] bg-[#f8f9fa] px-6 py-4">
+          <div>
+            <h3 className="text-lg font-medium text-[#202124]">
+              {t("versions.title")}
+            </h3>
+            <div className="text-sm text-[#5f6368]">{delivery.filename}</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="btn-icon text-[#5f6368] hover:text-[#202124]"
+            aria-label={t("versions.closeLabel")}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+              <path
+                d="M18 6L6 18M6 6l12 12"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+              />
+            </svg>
+          </button>
+        </div>
+        <div className="max-h-[60vh] overflow-auto px-6 py-4">
+          {loading && (
+            <div className="text-sm text-[#5f6368]">{t("common.loading")}</div>
+          )}
+          {error && <div className="text-sm text-[#d93025]">{error}</div>}
+          {!loading && !error && (
+            <ul className="divide-y divide-[#e5e8ef]">
+              {versions.map((version) => (
+                <li
+                  key={version.id}
+                  className="flex flex-wrap items-center gap-3 py-3"
+                >
+                  <span className="rounded-full bg-[#e8f0fe] px-3 py-1 text-xs font-medium text-[#1a73e8]">
+                    v{version.version}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-[#202124]">
+                      {version.filename}
+                      {version.isLatest && (
+                        <span className="ml-2 text-xs font-normal text-[#188038]">
+                          {t("versions.latest")}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-[#80868b]">
+                      {formatFileSize(version.sizeBytes)} ·{" "}
+                      {new Date(version.createdAt).toLocaleString()}
+                      {version.uploadedBy &&
+                        ` · ${version.uploadedBy.name || version.uploadedBy.email}`}
+                    </p>
+                    <FileChecksum sha256={version.sha256} />
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <a
+                      href={`/api/deliveries/${delivery.id}/stream?version=${version.version}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                    >
+                      {t("common.open")}
+                    </a>
+                    <a
+                      href={`/api/deliveries/${delivery.id}/download?version=${version.version}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0]"
+                    >
+                      {t("common.download")}
+                    </a>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="flex items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
+          {onUploadNewVersion && (
+            <button onClick={onUploadNewVersion} className="btn-secondary">
+              {t("versions.uploadNew")}
+            </button>
+          )}
+          <button onClick={onClose} className="btn-primary">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryVersionsDialog;
@@ -0,0 +1,408 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FC, FormEvent } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type CommentUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+};
+
+type DeliveryComment = {
+  id: string;
+  version: number;
+  body: string;
+  timestampSec: number | null;
+  endTimestampSec: number | null;
+  resolved: boolean;
+  resolvedAt: string | null;
+  createdAt: string;
+  author: CommentUser;
+  resolvedBy: CommentUser | null;
+  replies?: DeliveryComment[];
+};
+
+type DeliveryVideoReviewProps = {
+  deliveryId: string;
+  src: string;
+};
+
+/** Formats seconds as m:ss (or h:mm:ss for long videos) */
+export const formatTimecode = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const authorLabel = (user: CommentUser) => user.name || user.email;
+
+/**
+ * Video player for a delivery with a timecoded comment thread. Comments can
+ * capture the current playhead (and an optional range end) and appear as
+ * markers under the player; clicking one seeks to it.
+ */
+const DeliveryVideoReview: FC<DeliveryVideoReviewProps> = ({
+  deliveryId,
+  src,
+}) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [comments, setComments] = useState<DeliveryComment[]>([]);
+  const [canResolve, setCanResolve] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [startTime, setStartTime] = useState<number | null>(null);
+  const [endTime, setEndTime] = useState<number | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/deliveries/${deliveryId}/comments`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("comments.loadFailed"));
+      const data = await res.json();
+      setComments(data.comments ?? []);
+      setCanResolve(Boolean(data.canResolve));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("comments.loadFailed"));
+    }
+  }, [deliveryId, t]);
+
+  useEffect(() => {
+    void loadComments();
+  }, [loadComments]);
+
+  const currentTime = () => videoRef.current?.currentTime ?? 0;
+
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = seconds;
+    videoRef.current.pause();
+  };
+
+  const postComment = async (
+    payload: Record<string, unknown>
+  ): Promise<boolean> => {
+    setPosting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/deliveries/${deliveryId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(
+          typeof data.error === "string"
+            ? data.error
+            : t("errors.addCommentFailed")
+        );
+      }
+      await loadComments();
+      return true;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("errors.addCommentFailed"));
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!body.trim()) return;
+    const ok = await postComment({
+      body,
+      timestampSec: startTime ?? undefined,
+      endTimestampSec:
+        startTime !== null && endTime !== null && endTime > startTime
+          ? endTime
+          : undefined,
+    });
+    if (ok) {
+      setBody("");
+      setStartTime(null);
+      setEndTime(null);
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyBody.trim()) return;
+    const ok = await postComment({ body: replyBody, parentId });
+    if (ok) {
+      setReplyBody("");
+      setReplyTo(null);
+    }
+  };
+
+  const toggleResolved = async (comment: DeliveryComment) => {
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/deliveries/${deliveryId}/comments/${comment.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ resolved: !comment.resolved }),
+        }
+      );
+      if (!res.ok) throw new Error(t("errors.updateCommentFailed"));
+      await loadComments();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("errors.updateCommentFailed")
+      );
+    }
+  };
+
+  const visibleComments = comments.filter(
+    (comment) => showResolved || !comment.resolved
+  );
+  const markers = visibleComments.filter(
+    (comment) => comment.timestampSec !== null
+  );
+  const resolvedCount = comments.filter((comment) => comment.resolved).length;
+
+  return (
+    <div className="flex w-full flex-col gap-4 lg:flex-row">
+      <div className="min-w-0 flex-1">
+        <video
+          ref={videoRef}
+          controls
+          src={src}
+          className="max-h-[60vh] w-full rounded-lg bg-black"
+          onLoadedMetadata={(event) =>
+            setDuration(event.currentTarget.duration || 0)
+          }
+        />
+        {duration > 0 && (
+          <div
+            className="relative mt-2 h-3 rounded-full bg-[#e8eaed]"
+            aria-label={t("comments.markers")}
+          >
+            {markers.map((comment) => {
+              const start = (comment.timestampSec! / duration) * 100;
+              const end =
+                comment.endTimestampSec !== null
+                  ? (comment.endTimestampSec / duration) * 100
+                  : null;
+              return (
+                <button
+                  key={comment.id}
+                  type="button"
+                  title={`${formatTimecode(comment.timestampSec!)} · ${
+                    comment.body
+                  }`}
+                  onClick={() => seek(comment.timestampSec!)}
+                  className={`absolute top-0 h-3 rounded-full ${
+                    comment.resolved ? "bg-[#9aa0a6]" : "bg-[#f29900]"
+                  }`}
+                  style={{
+                    left: `${Math.min(start, 100)}%`,
+                    width:
+                      end !== null
+                        ? `${Math.max(Math.min(end, 100) - start, 0.75)}%`
+                        : "6px",
+                  }}
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex w-full flex-col gap-3 lg:w-80">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-[#202124]">
+            {t("comments.title", { count: comments.length })}
+          </h4>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              className="text-xs text-[#1a73e8] hover:underline"
+              onClick={() => setShowResolved((value) => !value)}
+            >
+              {t(
+                showResolved
+                  ? "comments.hideResolved"
+                  : "comments.showResolved",
+                {
+                  count: resolvedCount,
+                }
+              )}
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            className="input min-h-[72px] w-full text-sm"
+            placeholder={t("comments.add")}
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            disabled={posting}
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <button
+              type="button"
+              className="rounded-full border border-[#d2d6dc] px-3 py-1 text-[#1a73e8] hover:bg-[#eef3ff]"
+              onClick={() => {
+                setStartTime(currentTime());
+                setEndTime(null);
+              }}
+            >
+              {startTime !== null
+                ? t("comments.at", { time: formatTimecode(startTime) })
+                : t("comments.attachTime")}
+            </button>
+            {startTime !== null && (
+              <>
+                <button
+                  type="button"
+                  className="rounded-full border border-[#d2d6dc] px-3 py-1 text-[#1a73e8] hover:bg-[#eef3ff]"
+                  onClick={() => setEndTime(currentTime())}
+                >
+                  {endTime !== null
+                    ? t("comments.until", { time: formatTimecode(endTime) })
+                    : t("comments.setRangeEnd")}
+                </button>
+                <button
+                  type="button"
+                  className="text-[#5f6368] hover:underline"
+                  onClick={() => {
+                    setStartTime(null);
+                    setEndTime(null);
+                  }}
+                >
+                  {t("common.clear")}
+                </button>
+              </>
+            )}
+            <button
+              type="submit"
+              className="btn-primary ml-auto px-3 py-1 text-xs"
+              disabled={posting || !body.trim()}
+            >
+              {posting ? t("comments.posting") : t("comments.post")}
+            </button>
+          </div>
+        </form>
+
+        {error && <div className="text-xs text-[#d93025]">{error}</div>}
+
+        <ul className="max-h-[45vh] space-y-3 overflow-auto pr-1">
+          {visibleComments.map((comment) => (
+            <li
+              key={comment.id}
+              className={`rounded-lg border border-[#e5e8ef] bg-white p-3 text-sm ${
+                comment.resolved ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-[#5f6368]">
+                <span className="font-medium text-[#202124]">
+                  {authorLabel(comment.author)}
+                </span>
+                <span>v{comment.version}</span>
+              </div>
+              {comment.timestampSec !== null && (
+                <button
+                  type="button"
+                  className="mt-1 rounded bg-[#fef7e0] px-1.5 py-0.5 font-mono text-xs text-[#b06000] hover:bg-[#feefc3]"
+                  onClick={() => seek(comment.timestampSec!)}
+                >
+                  {formatTimecode(comment.timestampSec)}
+                  {comment.endTimestampSec !== null &&
+                    `–${formatTimecode(comment.endTimestampSec)}`}
+                </button>
+              )}
+              <p className="mt-1 whitespace-pre-line text-[#202124]">
+                {comment.body}
+              </p>
+
+              {(comment.replies ?? []).map((reply) => (
+                <div
+                  key={reply.id}
+                  className="mt-2 border-l-2 border-[#e5e8ef] pl-2"
+                >
+                  <div className="text-xs font-medium text-[#202124]">
+                    {authorLabel(reply.author)}
+                  </div>
+                  <p className="whitespace-pre-line text-[#3c4043]">
+                    {reply.body}
+                  </p>
+                </div>
+              ))}
+
+              <div className="mt-2 flex items-center gap-3 text-xs">
+                <button
+                  type="button"
+                  className="text-[#1a73e8] hover:underline"
+                  onClick={() => {
+                    setReplyTo(replyTo === comment.id ? null : comment.id);
+                    setReplyBody("");
+                  }}
+                >
+                  {t("comments.reply")}
+                </button>
+                {canResolve && (
+                  <button
+                    type="button"
+                    className="text-[#137333] hover:underline"
+                    onClick={() => toggleResolved(comment)}
+                  >
+                    {comment.resolved
+                      ? t("comments.reopen")
+                      : t("comments.resolve")}
+                  </button>
+                )}
+                {comment.resolved && comment.resolvedBy && (
+                  <span className="text-[#5f6368]">
+                    {t("comments.resolvedBy", {
+                      name: authorLabel(comment.resolvedBy),
+                    })}
+                  </span>
+                )}
+              </div>
+
+              {replyTo === comment.id && (
+                <div className="mt-2 flex gap-2">
+                  <input
+                    className="input flex-1 text-sm"
+                    value={replyBody}
+                    onChange={(event) => setReplyBody(event.target.value)}
+                    placeholder={t("comments.writeReply")}
+                    disabled={posting}
+                  />
+                  <button
+                    type="button"
+                    className="btn-secondary px-3 py-1 text-xs"
+                    onClick={() => handleReply(comment.id)}
+                    disabled={posting || !replyBody.trim()}
+                  >
+                    {t("comments.send")}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+          {visibleComments.length === 0 && (
+            <li className="text-xs text-[#5f6368]">{t("comments.empty")}</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryVideoReview;
@@ -0,0 +1,89 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { FC } from "react";
+import { sha256File } from "@/app/lib/file-hash";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type CheckResult = "checking" | "match" | "mismatch" | "failed";
+
+const RESULT_STYLES: Record<CheckResult, string> = {
+  checking: "text-[#5f6368]",
+  match: "text-[#188038]",
+  mismatch: "text-[#d93025]",
+  failed: "text-[#d93025]",
+};
+
+/**
+ * The SHA-256 recorded when a file was uploaded, with a way to check a
+ * downloaded copy against it in the browser. Renders nothing for files
+ * uploaded without one.
+ */
+const FileChecksum: FC<{ sha256?: string | null }> = ({ sha256 }) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+  const [result, setResult] = useState<CheckResult | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  if (!sha256) return null;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(sha256);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy:", error);
+    }
+  };
+
+  const check = async (file: File | undefined) => {
+    if (inputRef.current) inputRef.current.value = "";
+    if (!file) return;
+    setResult("checking");
+    try {
+      const hash = await sha256File(file);
+      setResult(!hash ? "failed" : hash === sha256 ? "match" : "mismatch");
+    } catch (error) {
+      console.error("Failed to hash file:", error);
+      setResult("failed");
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-1 text-xs text-[#5f6368]">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>{t("checksum.label")}</span>
+        <code className="break-all font-mono text-[#202124]">{sha256}</code>
+        <button
+          className="text-[#1a73e8] hover:underline"
+          onClick={() => void copy()}
+        >
+          {copied ? t("common.copied") : t("common.copy")}
+        </button>
+        <button
+          className="text-[#1a73e8] hover:underline disabled:opacity-50"
+          disabled={result === "checking"}
+          onClick={() => inputRef.current?.click()}
+        >
+          {t("checksum.verify")}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(event) => void check(event.target.files?.[0])}
+        />
+      </div>
+      {result && (
+        <div className={RESULT_STYLES[result]}>
+          {result === "checking"
+            ? t("checksum.verifying")
+            : t(`checksum.${result}`)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileChecksum;
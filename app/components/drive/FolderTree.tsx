@@ -4,6 +4,7 @@ import { useMemo, useState, type FC } from "react";
 import type { FolderType } from "@prisma/client";
 import type { DriveFolderFlat, DriveFolderNode } from "@/app/lib/drive-utils";
 import { buildFolderTree } from "@/app/lib/drive-utils";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type FolderTreeProps = {
   folders: DriveFolderFlat[];
@@ -29,10 +30,11 @@ const FolderTree: FC<FolderTreeProps> = ({
   selectedFolderId,
   onSelect,
   showRoot = true,
-  rootLabel = "All Folders",
+  rootLabel,
   className,
   initiallyExpandedIds = [],
 }) => {
+  const { t } = useTranslation();
   const tree = useMemo(() => buildFolderTree(folders), [folders]);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(
     () => new Set(initiallyExpandedIds)
@@ -70,7 +72,9 @@ const FolderTree: FC<FolderTreeProps> = ({
               fill="#1a73e8"
             />
           </svg>
-          <span className="flex-1 truncate text-left">{rootLabel}</span>
+          <span className="flex-1 truncate text-left">
+            {rootLabel ?? t("folders.all")}
+          </span>
         </button>
       )}
 
@@ -0,0 +1,327 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { FC, FormEvent } from "react";
+import type { DriveDelivery, DriveFolder } from "./browser/types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type ShareLink = {
+  id: string;
+  deliveryId: string | null;
+  folderId: string | null;
+  expiresAt: string;
+  allowDownload: boolean;
+  hasPassword: boolean;
+  viewCount: number;
+  downloadCount: number;
+  lastAccessedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  delivery: { id: string; filename: string } | null;
+  folder: { id: string; name: string } | null;
+  createdBy: { id: string; email: string; name: string | null };
+};
+
+type ShareLinksDialogProps = {
+  open: boolean;
+  projectId: string;
+  deliveries: DriveDelivery[];
+  folders: DriveFolder[];
+  onClose: () => void;
+};
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+const defaultExpiry = () => {
+  const date = new Date(Date.now() + DEFAULT_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+};
+
+const linkStatus = (link: ShareLink): "active" | "expired" | "revoked" => {
+  if (link.revokedAt) return "revoked";
+  if (new Date(link.expiresAt) <= new Date()) return "expired";
+  return "active";
+};
+
+/**
+ * Create, list and revoke public share links for a project's deliveries and
+ * DELIVERABLES folders. The link URL is only shown right after creation.
+ */
+const ShareLinksDialog: FC<ShareLinksDialogProps> = ({
+  open,
+  projectId,
+  deliveries,
+  folders,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [target, setTarget] = useState("");
+  const [expiresOn, setExpiresOn] = useState(defaultExpiry);
+  const [password, setPassword] = useState("");
+  const [allowDownload, setAllowDownload] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const shareableFolders = folders.filter(
+    (folder) => folder.type === "DELIVERABLES"
+  );
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/share-links?projectId=${projectId}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("shareLinks.loadFailed"));
+      setLinks(await res.json());
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("shareLinks.loadFailed"));
+    }
+  }, [projectId, t]);
+
+  useEffect(() => {
+    if (!open) return;
+    setCreatedUrl(null);
+    setError(null);
+    void loadLinks();
+  }, [open, loadLinks]);
+
+  if (!open) return null;
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    const [kind, id] = target.split(":");
+    if (!id) {
+      setError(t("shareLinks.chooseTarget"));
+      return;
+    }
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/share-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          deliveryId: kind === "delivery" ? id : undefined,
+          folderId: kind === "folder" ? id : undefined,
+          // End of the chosen day, local time
+          expiresAt: new Date(`${expiresOn}T23:59:59`).toISOString(),
+          password: password || undefined,
+          allowDownload,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const message = Array.isArray(data.error)
+          ? data.error[0]?.message
+          : data.error;
+        throw new Error(message || t("errors.createShareLinkFailed"));
+      }
+      setCreatedUrl(data.url);
+      setPassword("");
+      await loadLinks();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("errors.createShareLinkFailed")
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    if (!confirm(t("shareLinks.confirmRevoke"))) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/share-links/${link.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(t("shareLinks.revokeFailed"));
+      await loadLinks();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("shareLinks.revokeFailed"));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="w-full max-w-3xl overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="border-b border-[#dadce0] bg-[#f8f9fa] px-6 py-4">
+          <h3 className="text-lg font-medium text-[#202124]">
+            {t("shareLinks.title")}
+          </h3>
+          <div className="text-sm text-[#5f6368]">
+            {t("shareLinks.intro")}
+          </div>
+        </div>
+
+        <div className="max-h-[70vh] space-y-6 overflow-auto px-6 py-4">
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="text-sm text-[#202124]">
+                {t("shareLinks.share")}
+                <select
+                  className="input mt-1 w-full"
+                  value={target}
+                  onChange={(event) => setTarget(event.target.value)}
+                >
+                  <option value="">{t("shareLinks.choose")}</option>
+                  {shareableFolders.length > 0 && (
+                    <optgroup label={t("shareLinks.folders")}>
+                      {shareableFolders.map((folder) => (
+                        <option key={folder.id} value={`folder:${folder.id}`}>
+                          {folder.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {deliveries.length > 0 && (
+                    <optgroup label={t("shareLinks.deliveries")}>
+                      {deliveries.map((delivery) => (
+                        <option
+                          key={delivery.id}
+                          value={`delivery:${delivery.id}`}
+                        >
+                          {delivery.filename}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </label>
+              <label className="text-sm text-[#202124]">
+                {t("shareLinks.expiresOn")}
+                <input
+                  type="date"
+                  className="input mt-1 w-full"
+                  value={expiresOn}
+                  min={new Date().toISOString().slice(0, 10)}
+                  onChange={(event) => setExpiresOn(event.target.value)}
+                />
+              </label>
+              <label className="text-sm text-[#202124]">
+                {t("shareLinks.password")}
+                <input
+                  type="password"
+                  className="input mt-1 w-full"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </label>
+              <label className="flex items-center gap-2 self-end pb-2 text-sm text-[#202124]">
+                <input
+                  type="checkbox"
+                  checked={allowDownload}
+                  onChange={(event) => setAllowDownload(event.target.checked)}
+                />
+                {t("shareLinks.allowDownloads")}
+              </label>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="btn-primary"
+                disabled={creating || !target}
+              >
+                {creating ? t("shareLinks.creating") : t("shareLinks.create")}
+              </button>
+            </div>
+          </form>
+
+          {createdUrl && (
+            <div className="rounded-lg border border-[#c3d4f7] bg-[#eef3ff] p-3 text-sm">
+              <div className="mb-2 text-[#202124]">
+                {t("shareLinks.copyNow")}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  className="input flex-1 font-mono text-xs"
+                  value={createdUrl}
+                  onFocus={(event) => event.target.select()}
+                />
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => void navigator.clipboard?.writeText(createdUrl)}
+                >
+                  {t("common.copy")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-sm text-[#d93025]">{error}</div>}
+
+          <ul className="divide-y divide-[#e5e8ef]">
+            {links.map((link) => {
+              const status = linkStatus(link);
+              return (
+                <li
+                  key={link.id}
+                  className="flex flex-wrap items-center gap-3 py-3 text-sm"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-[#202124]">
+                      {link.delivery?.filename || link.folder?.name}
+                    </p>
+                    <p className="text-xs text-[#80868b]">
+                      {[
+                        t(`shareLinks.status.${status}`),
+                        t("shareLinks.expires", {
+                          date: new Date(link.expiresAt).toLocaleDateString(),
+                        }),
+                        t("shareLinks.views", { count: link.viewCount }),
+                        t("shareLinks.downloads", {
+                          count: link.downloadCount,
+                        }),
+                        link.hasPassword && t("shareLinks.passwordProtected"),
+                        !link.allowDownload && t("shareLinks.streamOnly"),
+                        t("shareLinks.by", {
+                          name: link.createdBy.name || link.createdBy.email,
+                        }),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  {status === "active" && (
+                    <button
+                      type="button"
+                      className="rounded-full border border-transparent px-3 py-1.5 text-xs font-medium text-[#d93025] transition hover:bg-[#fce8e6]"
+                      onClick={() => revoke(link)}
+                    >
+                      {t("shareLinks.revoke")}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+            {links.length === 0 && (
+              <li className="py-3 text-sm text-[#5f6368]">
+                {t("shareLinks.empty")}
+              </li>
+            )}
+          </ul>
+        </div>
+
+        <div className="flex justify-end border-t border-[#dadce0] bg-white px-6 py-4">
+          <button onClick={onClose} className="btn-primary">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareLinksDialog;
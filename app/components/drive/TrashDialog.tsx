@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { FC } from "react";
+import DriveFileIcon from "@/app/components/drive/DriveFileIcon";
+import { formatFileSize } from "@/app/lib/drive-utils";
+import type { DriveItemKind } from "./browser/types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type TrashItem = {
+  kind: DriveItemKind;
+  id: string;
+  name: string;
+  sizeBytes: number | null;
+  itemCount: number;
+  deletedAt: string;
+  deletedBy: { id: string; email: string; name: string | null } | null;
+  purgeAt: string;
+  canRestore: boolean;
+  canDeletePermanently: boolean;
+};
+
+type TrashDialogProps = {
+  open: boolean;
+  projectId: string;
+  onClose: () => void;
+  // Called after a restore so the drive can reload its contents
+  onRestored?: () => void;
+};
+
+const itemUrl = (projectId: string, item: TrashItem) => {
+  switch (item.kind) {
+    case "FOLDER":
+      return `/api/projects/${projectId}/folders/${item.id}`;
+    case "ASSET":
+      return `/api/assets/${item.id}`;
+    case "DELIVERY":
+      return `/api/deliveries/${item.id}`;
+  }
+};
+
+/**
+ * The project's Trash: deleted folders and files stay here until the
+ * retention period runs out, and can be restored to where they were.
+ */
+const TrashDialog: FC<TrashDialogProps> = ({
+  open,
+  projectId,
+  onClose,
+  onRestored,
+}) => {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/trash`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("trash.loadFailed"));
+      const data = await res.json();
+      setItems(data.items ?? []);
+      setRetentionDays(data.retentionDays ?? null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("trash.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, t]);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    void loadTrash();
+  }, [open, loadTrash]);
+
+  const act = async (
+    item: TrashItem,
+    request: () => Promise<Response>,
+    failure: string
+  ) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      const res = await request();
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || failure);
+      }
+      await loadTrash();
+      return true;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : failure);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const restore = async (item: TrashItem) => {
+    const restored = await act(
+      item,
+      () =>
+        fetch(`${itemUrl(projectId, item)}/restore`, {
+          method: "POST",
+        }),
+      t("trash.restoreFailed")
+    );
+    if (restored) onRestored?.();
+  };
+
+  const deleteForever = async (item: TrashItem) => {
+    if (
+      !confirm(
+        t(
+          item.kind === "FOLDER"
+            ? "trash.confirmDeleteFolder"
+            : "trash.confirmDeleteFile",
+          { name: item.name }
+        )
+      )
+    ) {
+      return;
+    }
+    await act(
+      item,
+      () =>
+        fetch(`${itemUrl(projectId, item)}?permanent=true`, {
+          method: "DELETE",
+        }),
+      t("trash.deleteFailed")
+    );
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+    >
+      <div
+        className="w-full max-w-2xl overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between border-b border-[#dadce0] bg-[#f8f9fa] px-6 py-4">
+          <div>
+            <h3 className="text-lg font-medium text-[#202124]">
+              {t("trash.title")}
+            </h3>
+            {retentionDays !== null && (
+              <div className="text-sm text-[#5f6368]">
+                {t("trash.retention", { days: retentionDays })}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="btn-icon text-[#5f6368] hover:text-[#202124]"
+            aria-label={t("trash.closeLabel")}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+              <path
+                d="M18 6L6 18M6 6l12 12"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+              />
+            </svg>
+          </button>
+        </div>
+        <div className="max-h-[60vh] overflow-auto px-6 py-4">
+          {error && <div className="mb-3 text-sm text-[#d93025]">{error}</div>}
+          {loading && items.length === 0 && (
+            <div className="text-sm text-[#5f6368]">{t("common.loading")}</div>
+          )}
+          {!loading && items.length === 0 && (
+            <div className="text-sm text-[#5f6368]">{t("trash.empty")}</div>
+          )}
+          <ul className="divide-y divide-[#e5e8ef]">
+            {items.map((item) => (
+              <li
+                key={`${item.kind}:${item.id}`}
+                className="flex flex-wrap items-center gap-3 py-3"
+              >
+                {item.kind === "FOLDER" ? (
+                  <span className="flex h-[26px] w-[26px] items-center justify-center text-[#5f6368]">
+                    <svg width="22" height="22" viewBox="0 0 24 24" fill="none">
+                      <path
+                        d="M10 4H4c-1.11 0-2 .89-2 2v12c0 1.11.89 2 2 2h16c1.11 0 2-.89 2-2V8c0-1.11-.89-2-2-2h-8l-2-2z"
+                        fill="currentColor"
+                      />
+                    </svg>
+                  </span>
+                ) : (
+                  <DriveFileIcon type="OTHER" filename={item.name} size={26} />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-[#202124]">
+                    {item.name}
+                  </p>
+                  <p className="text-xs text-[#80868b]">
+                    {item.kind === "FOLDER"
+                      ? t("trash.fileCount", { count: item.itemCount })
+                      : formatFileSize(item.sizeBytes ?? 0)}
+                    {" · "}
+                    {item.deletedBy
+                      ? t("trash.deletedBy", {
+                          date: new Date(item.deletedAt).toLocaleString(),
+                          name: item.deletedBy.name || item.deletedBy.email,
+                        })
+                      : t("trash.deleted", {
+                          date: new Date(item.deletedAt).toLocaleString(),
+                        })}
+                    {" · "}
+                    {t("trash.goneAfter", {
+                      date: new Date(item.purgeAt).toLocaleDateString(),
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  {item.canRestore && (
+                    <button
+                      type="button"
+                      onClick={() => restore(item)}
+                      disabled={busyId === item.id}
+                      className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff] disabled:opacity-50"
+                    >
+                      {t("trash.restore")}
+                    </button>
+                  )}
+                  {item.canDeletePermanently && (
+                    <button
+                      type="button"
+                      onClick={() => deleteForever(item)}
+                      disabled={busyId === item.id}
+                      className="rounded-full bg-[#fce8e6] px-4 py-1.5 font-medium text-[#d93025] transition hover:bg-[#fad2cf] disabled:opacity-50"
+                    >
+                      {t("trash.deleteForever")}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="flex items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
+          <button onClick={onClose} className="btn-primary">
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashDialog;
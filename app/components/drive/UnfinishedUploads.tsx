@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FC } from "react";
+import { formatFileSize } from "@/app/lib/drive-utils";
+import { fingerprintFile } from "@/app/lib/upload-client";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export type UploadSessionSummary = {
+  id: string;
+  kind: "ASSET" | "DELIVERY";
+  folderId: string | null;
+  deliveryId: string | null;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBytes: number;
+  fingerprint: string;
+  updatedAt: string;
+};
+
+type UnfinishedUploadsProps = {
+  projectId: string;
+  // Uploads the re-selected file; the storage parts already there are
+  // skipped. Resolves once the upload has finished or failed.
+  onResume: (session: UploadSessionSummary, file: File) => Promise<void>;
+};
+
+/**
+ * The caller's uploads into this project that stopped part-way, e.g. when
+ * the page was reloaded. Choosing the same file again uploads the rest.
+ */
+const UnfinishedUploads: FC<UnfinishedUploadsProps> = ({
+  projectId,
+  onResume,
+}) => {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<UploadSessionSummary[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const resumingRef = useRef<UploadSessionSummary | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/upload-sessions`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("uploadSessions.loadFailed"));
+      const data = await res.json();
+      setSessions(data.sessions ?? []);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("uploadSessions.loadFailed"));
+    }
+  }, [projectId, t]);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const chooseFile = (session: UploadSessionSummary) => {
+    resumingRef.current = session;
+    setError(null);
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    const session = resumingRef.current;
+    resumingRef.current = null;
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!session || !file) return;
+
+    setBusyId(session.id);
+    try {
+      // Anything else would start a new upload beside this one
+      if (
+        file.size !== session.sizeBytes ||
+        (await fingerprintFile(file)) !== session.fingerprint
+      ) {
+        setError(t("uploadSessions.wrongFile", { name: session.filename }));
+        return;
+      }
+      await onResume(session, file);
+      await loadSessions();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const discard = async (session: UploadSessionSummary) => {
+    if (
+      !confirm(t("uploadSessions.confirmDiscard", { name: session.filename }))
+    ) {
+      return;
+    }
+    setBusyId(session.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/upload-sessions/${session.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("uploadSessions.discardFailed"));
+      }
+      await loadSessions();
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("uploadSessions.discardFailed")
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (sessions.length === 0 && !error) return null;
+
+  return (
+    <div className="card space-y-3">
+      <div>
+        <h3 className="text-base font-medium text-[#202124]">
+          {t("uploadSessions.title")}
+        </h3>
+        <p className="text-sm text-[#5f6368]">{t("uploadSessions.intro")}</p>
+      </div>
+      {error && <div className="text-sm text-[#d93025]">{error}</div>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={(event) => void handleFile(event.target.files?.[0])}
+      />
+      <ul className="divide-y divide-[#e5e8ef]">
+        {sessions.map((session) => (
+          <li
+            key={session.id}
+            className="flex flex-wrap items-center gap-3 py-3"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm font-medium text-[#202124]">
+                {session.filename}
+              </div>
+              <div className="text-xs text-[#5f6368]">
+                {t(
+                  session.kind === "DELIVERY"
+                    ? "uploadSessions.kindDelivery"
+                    : "uploadSessions.kindAsset"
+                )}
+                {" · "}
+                {t("uploadSessions.progress", {
+                  uploaded: formatFileSize(session.uploadedBytes),
+                  total: formatFileSize(session.sizeBytes),
+                })}
+              </div>
+              <div className="mt-1 h-1.5 w-full max-w-xs overflow-hidden rounded-full bg-[#e8eaed]">
+                <div
+                  className="h-full bg-[#1a73e8]"
+                  style={{
+                    width: `${Math.round(
+                      (session.uploadedBytes / session.sizeBytes) * 100
+                    )}%`,
+                  }}
+                />
+              </div>
+            </div>
+            <button
+              className="btn-primary text-sm"
+              disabled={busyId !== null}
+              onClick={() => chooseFile(session)}
+            >
+              {busyId === session.id
+                ? t("uploadSessions.resuming")
+                : t("uploadSessions.resume")}
+            </button>
+            <button
+              className="btn-secondary text-sm"
+              disabled={busyId !== null}
+              onClick={() => void discard(session)}
+            >
+              {t("uploadSessions.discard")}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UnfinishedUploads;
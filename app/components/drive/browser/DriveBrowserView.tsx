@@ -1,17 +1,21 @@
 "use client";
 
+import { useState } from "react";
 import type { FC, ReactNode } from "react";
+import type { DriveZipSelection } from "@/app/lib/drive-utils";
 import DriveBreadcrumb from "./DriveBreadcrumb";
 import DriveToolbar from "./DriveToolbar";
 import DriveSidebarTree from "./DriveSidebarTree";
-import DriveFileGrid from "./DriveFileGrid";
+import DriveFileGrid, { driveSelectionKey } from "./DriveFileGrid";
 import type {
   DriveAsset,
   DriveDelivery,
   DriveDraggableItem,
   DriveFolder,
+  DriveItemKind,
 } from "./types";
 import type { UseDriveBrowserResult } from "./useDriveBrowser";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type DriveBrowserViewProps = {
   browser: UseDriveBrowserResult;
@@ -21,8 +25,12 @@ type DriveBrowserViewProps = {
   onPreviewDelivery?: (delivery: DriveDelivery) => void;
   onDownloadAsset?: (asset: DriveAsset) => void;
   onDownloadDelivery?: (delivery: DriveDelivery) => void;
+  onShowDeliveryVersions?: (delivery: DriveDelivery) => void;
+  onReviewDelivery?: (delivery: DriveDelivery) => void;
   onDeleteAsset?: (asset: DriveAsset) => void;
   onDeleteDelivery?: (delivery: DriveDelivery) => void;
+  canDeleteAsset?: (asset: DriveAsset) => boolean;
+  canDeleteDelivery?: (delivery: DriveDelivery) => boolean;
   onRenameFolder?: (folder: DriveFolder) => void;
   onDeleteFolder?: (folder: DriveFolder) => void;
   deletingAssetId?: string | null;
@@ -31,10 +39,16 @@ type DriveBrowserViewProps = {
   deletingFolderId?: string | null;
   onUploadClick?: () => void;
   onCreateFolderClick?: (parentId: string | null) => void;
+  // Enables item selection and ZIP download buttons; an empty selection
+  // means the whole project
+  onDownloadZip?: (selection: DriveZipSelection) => void;
   extraToolbarContent?: ReactNode;
   emptyState?: ReactNode;
 };
 
+const toolbarButtonClass =
+  "inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]";
+
 export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
   browser,
   assets,
@@ -43,8 +57,12 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
   onPreviewDelivery,
   onDownloadAsset,
   onDownloadDelivery,
+  onShowDeliveryVersions,
+  onReviewDelivery,
   onDeleteAsset,
   onDeleteDelivery,
+  canDeleteAsset,
+  canDeleteDelivery,
   onRenameFolder,
   onDeleteFolder,
   deletingAssetId,
@@ -53,9 +71,92 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
   deletingFolderId,
   onUploadClick,
   onCreateFolderClick,
+  onDownloadZip,
   extraToolbarContent,
   emptyState,
 }) => {
+  const { t } = useTranslation();
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(
+    () => new Set()
+  );
+
+  const toggleSelect = (kind: DriveItemKind, id: string) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      const key = driveSelectionKey(kind, id);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const selectionFromKeys = (): DriveZipSelection => {
+    const selection: DriveZipSelection = {
+      folderIds: [],
+      assetIds: [],
+      deliveryIds: [],
+    };
+    selectedKeys.forEach((key) => {
+      const [kind, id] = key.split(":");
+      if (kind === "FOLDER") selection.folderIds.push(id);
+      if (kind === "ASSET") selection.assetIds.push(id);
+      if (kind === "DELIVERY") selection.deliveryIds.push(id);
+    });
+    return selection;
+  };
+
+  const activeFolderId = browser.activeFolderId;
+  const zipToolbarContent = onDownloadZip ? (
+    selectedKeys.size > 0 ? (
+      <>
+        <button
+          type="button"
+          className={toolbarButtonClass}
+          onClick={() => onDownloadZip(selectionFromKeys())}
+        >
+          {t("drive.downloadSelected", { count: selectedKeys.size })}
+        </button>
+        <button
+          type="button"
+          className="text-sm text-[#5f6368] hover:underline"
+          onClick={() => setSelectedKeys(new Set())}
+        >
+          {t("common.clear")}
+        </button>
+      </>
+    ) : (
+      <>
+        {activeFolderId && (
+          <button
+            type="button"
+            className={toolbarButtonClass}
+            onClick={() =>
+              onDownloadZip({
+                folderIds: [activeFolderId],
+                assetIds: [],
+                deliveryIds: [],
+              })
+            }
+          >
+            {t("drive.downloadFolder")}
+          </button>
+        )}
+        <button
+          type="button"
+          className={toolbarButtonClass}
+          onClick={() =>
+            onDownloadZip({ folderIds: [], assetIds: [], deliveryIds: [] })
+          }
+        >
+          {t("drive.downloadAll")}
+        </button>
+      </>
+    )
+  ) : null;
+
   const handleDrop = async (
     targetFolderId: string,
     item: DriveDraggableItem
@@ -75,7 +176,10 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
               ? (parentId) =>
                   onCreateFolderClick
                     ? onCreateFolderClick(parentId)
-                    : browser.createFolder("New Folder", parentId)
+                    : browser.createFolder(
+                        t("drive.defaultFolderName"),
+                        parentId
+                      )
               : undefined
           }
           onDrop={handleDrop}
@@ -102,10 +206,18 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
               ? () =>
                   onCreateFolderClick
                     ? onCreateFolderClick(browser.activeFolderId)
-                    : browser.createFolder("New Folder", browser.activeFolderId)
+                    : browser.createFolder(
+                        t("drive.defaultFolderName"),
+                        browser.activeFolderId
+                      )
               : undefined
           }
-          rightSlot={extraToolbarContent}
+          rightSlot={
+            <>
+              {zipToolbarContent}
+              {extraToolbarContent}
+            </>
+          }
         />
         <DriveFileGrid
           layout={browser.layout}
@@ -117,8 +229,12 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
           onPreviewDelivery={onPreviewDelivery}
           onDownloadAsset={onDownloadAsset}
           onDownloadDelivery={onDownloadDelivery}
+          onShowDeliveryVersions={onShowDeliveryVersions}
+          onReviewDelivery={onReviewDelivery}
           onDeleteAsset={onDeleteAsset}
           onDeleteDelivery={onDeleteDelivery}
+          canDeleteAsset={canDeleteAsset}
+          canDeleteDelivery={canDeleteDelivery}
           onRenameFolder={onRenameFolder}
           onDeleteFolder={onDeleteFolder}
           deletingAssetId={deletingAssetId}
@@ -129,6 +245,8 @@ export const DriveBrowserView: FC<DriveBrowserViewProps> = ({
           onDragStart={browser.beginDrag}
           onDragEnd={browser.endDrag}
           draggingItem={browser.draggingItem}
+          selectedKeys={onDownloadZip ? selectedKeys : undefined}
+          onToggleSelect={onDownloadZip ? toggleSelect : undefined}
           emptyState={emptyState}
         />
       </main>
@@ -9,8 +9,12 @@ import type {
   DriveDelivery,
   DriveDraggableItem,
   DriveFolder,
+  DriveItemKind,
   DriveLayoutMode,
+  DriveReviewStatus,
 } from "./types";
+import { useTranslation } from "@/app/components/I18nProvider";
+import type { Translator } from "@/app/lib/i18n";
 
 type DriveFileGridProps = {
   layout: DriveLayoutMode;
@@ -22,8 +26,13 @@ type DriveFileGridProps = {
   onPreviewDelivery?: (delivery: DriveDelivery) => void;
   onDownloadAsset?: (asset: DriveAsset) => void;
   onDownloadDelivery?: (delivery: DriveDelivery) => void;
+  onShowDeliveryVersions?: (delivery: DriveDelivery) => void;
+  onReviewDelivery?: (delivery: DriveDelivery) => void;
   onDeleteAsset?: (asset: DriveAsset) => void;
   onDeleteDelivery?: (delivery: DriveDelivery) => void;
+  // Per-item permission checks; delete buttons are hidden when they return false
+  canDeleteAsset?: (asset: DriveAsset) => boolean;
+  canDeleteDelivery?: (delivery: DriveDelivery) => boolean;
   onRenameFolder?: (folder: DriveFolder) => void;
   onDeleteFolder?: (folder: DriveFolder) => void;
   deletingAssetId?: string | null;
@@ -34,10 +43,39 @@ type DriveFileGridProps = {
   onDragStart?: (item: DriveDraggableItem) => void;
   onDragEnd?: () => void;
   draggingItem?: DriveDraggableItem | null;
+  // Checkboxes are shown when onToggleSelect is set; keys are "KIND:id"
+  selectedKeys?: Set<string>;
+  onToggleSelect?: (kind: DriveItemKind, id: string) => void;
   emptyState?: React.ReactNode;
 };
 
+export const driveSelectionKey = (kind: DriveItemKind, id: string) =>
+  `${kind}:${id}`;
+
+const renderSelectCheckbox = (
+  ariaLabel: string,
+  checked: boolean,
+  onToggle: () => void,
+  className = ""
+) => (
+  <input
+    type="checkbox"
+    aria-label={ariaLabel}
+    checked={checked}
+    onChange={onToggle}
+    onClick={(event) => event.stopPropagation()}
+    className={`h-4 w-4 shrink-0 cursor-pointer accent-[#1a73e8] ${className}`}
+  />
+);
+
+// Grid cards only reveal the checkbox on hover until something is selected
+const gridCheckboxClass = (checked: boolean) =>
+  `absolute left-3 top-3 z-10 transition ${
+    checked ? "" : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+  }`;
+
 const renderFolderCard = (
+  t: Translator,
   folder: DriveFolder,
   onOpenFolder: (folderId: string) => void,
   onDropItem?: (targetFolderId: string, item: DriveDraggableItem) => void,
@@ -47,7 +85,9 @@ const renderFolderCard = (
   renamingFolderId?: string | null,
   deletingFolderId?: string | null,
   onDragStart?: (item: DriveDraggableItem) => void,
-  onDragEnd?: () => void
+  onDragEnd?: () => void,
+  selected = false,
+  onToggleSelect?: (kind: DriveItemKind, id: string) => void
 ) => {
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     if (!onDropItem || !draggingItem) return;
@@ -89,6 +129,13 @@ const renderFolderCard = (
       }}
       onDragEnd={onDragEnd}
     >
+      {onToggleSelect &&
+        renderSelectCheckbox(
+          t("drive.select", { name: folder.name }),
+          selected,
+          () => onToggleSelect("FOLDER", folder.id),
+          gridCheckboxClass(selected)
+        )}
       {(onRenameFolder || onDeleteFolder) && (
         <div className="absolute right-3 top-3 flex flex-col items-end gap-1 opacity-0 transition group-hover:opacity-100">
           {onRenameFolder && (
@@ -98,7 +145,7 @@ const renderFolderCard = (
               className="rounded-full bg-[#e8f0fe] px-3 py-1 text-xs font-medium text-[#1a73e8]"
               disabled={isRenaming}
             >
-              {isRenaming ? "Renaming..." : "Rename"}
+              {isRenaming ? t("drive.renaming") : t("drive.rename")}
             </button>
           )}
           {onDeleteFolder && (
@@ -108,7 +155,7 @@ const renderFolderCard = (
               className="rounded-full bg-[#fce8e6] px-3 py-1 text-xs font-medium text-[#d93025]"
               disabled={isDeleting}
             >
-              {isDeleting ? "Deleting..." : "Delete"}
+              {isDeleting ? t("drive.deleting") : t("common.delete")}
             </button>
           )}
         </div>
@@ -128,11 +175,13 @@ const renderFolderCard = (
         </span>
         <span className="font-medium text-[#202124]">{folder.name}</span>
         <span className="text-xs text-[#80868b]">
-          {(folder.aggregateCount?.assets ?? folder._count?.assets ?? 0) +
-            (folder.aggregateCount?.deliveries ??
-              folder._count?.deliveries ??
-              0)}{" "}
-          item(s)
+          {t("drive.itemCount", {
+            count:
+              (folder.aggregateCount?.assets ?? folder._count?.assets ?? 0) +
+              (folder.aggregateCount?.deliveries ??
+                folder._count?.deliveries ??
+                0),
+          })}
         </span>
       </button>
     </div>
@@ -161,6 +210,31 @@ const deliveryDragStart = (
   });
 };
 
+const reviewBadge = (
+  t: Translator,
+  status?: DriveReviewStatus,
+  note?: string | null
+) => {
+  if (status === "APPROVED") {
+    return (
+      <span className="rounded-full bg-[#e6f4ea] px-2 py-0.5 text-[11px] font-medium text-[#137333]">
+        {t("drive.approved")}
+      </span>
+    );
+  }
+  if (status === "CHANGES_REQUESTED") {
+    return (
+      <span
+        className="rounded-full bg-[#fce8e6] px-2 py-0.5 text-[11px] font-medium text-[#c5221f]"
+        title={note ?? undefined}
+      >
+        {t("drive.changesRequested")}
+      </span>
+    );
+  }
+  return null;
+};
+
 export const DriveFileGrid: FC<DriveFileGridProps> = ({
   layout,
   folders,
@@ -171,8 +245,12 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
   onPreviewDelivery,
   onDownloadAsset,
   onDownloadDelivery,
+  onShowDeliveryVersions,
+  onReviewDelivery,
   onDeleteAsset,
   onDeleteDelivery,
+  canDeleteAsset = () => true,
+  canDeleteDelivery = () => true,
   onRenameFolder,
   onDeleteFolder,
   deletingAssetId,
@@ -183,15 +261,21 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
   onDragStart,
   onDragEnd,
   draggingItem,
+  selectedKeys,
+  onToggleSelect,
   emptyState,
 }) => {
+  const { t } = useTranslation();
+  const isSelected = (kind: DriveItemKind, id: string) =>
+    selectedKeys?.has(driveSelectionKey(kind, id)) ?? false;
+
   const hasContent =
     folders.length > 0 || assets.length > 0 || deliveries.length > 0;
 
   if (!hasContent) {
     return (
       <div className="rounded-xl border border-dashed border-[#dadce0] bg-[#f8f9fa] px-6 py-12 text-center text-[#5f6368]">
-        {emptyState ?? "Nothing here yet."}
+        {emptyState ?? t("drive.empty")}
       </div>
     );
   }
@@ -206,11 +290,12 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
       {folders.length > 0 && (
         <section>
           <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-[#5f6368]">
-            Folders
+            {t("shareLinks.folders")}
           </h3>
           <div className={gridClass}>
             {folders.map((folder) =>
               renderFolderCard(
+                t,
                 folder,
                 onOpenFolder,
                 onDropItem,
@@ -220,7 +305,9 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                 renamingFolderId,
                 deletingFolderIdProp,
                 onDragStart,
-                onDragEnd
+                onDragEnd,
+                isSelected("FOLDER", folder.id),
+                onToggleSelect
               )
             )}
           </div>
@@ -230,7 +317,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
       {assets.length > 0 && (
         <section>
           <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-[#5f6368]">
-            Assets
+            {t("drive.assets")}
           </h3>
           <div className={gridClass}>
             {assets.map((asset) =>
@@ -244,6 +331,13 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                   }
                   onDragEnd={onDragEnd}
                 >
+                  {onToggleSelect &&
+                    renderSelectCheckbox(
+                      t("drive.select", { name: asset.filename }),
+                      isSelected("ASSET", asset.id),
+                      () => onToggleSelect("ASSET", asset.id),
+                      gridCheckboxClass(isSelected("ASSET", asset.id))
+                    )}
                   <div className="flex flex-1 flex-col p-4">
                     <div className="mb-4 flex h-28 items-center justify-center rounded-xl bg-linear-to-br from-[#e8f0fe] via-[#f1f3f4] to-white">
                       <DriveFileIcon
@@ -269,7 +363,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0]"
                         onClick={() => onPreviewAsset(asset)}
                       >
-                        Preview
+                        {t("drive.preview")}
                       </button>
                     )}
                     {onDownloadAsset && (
@@ -278,10 +372,10 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
                         onClick={() => onDownloadAsset(asset)}
                       >
-                        Download
+                        {t("common.download")}
                       </button>
                     )}
-                    {onDeleteAsset && (
+                    {onDeleteAsset && canDeleteAsset(asset) && (
                       <button
                         type="button"
                         className="rounded-full border border-transparent px-3 py-1.5 font-medium text-[#d93025] transition hover:bg-[#fce8e6] disabled:opacity-50"
@@ -289,8 +383,8 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         disabled={deletingAssetId === asset.id}
                       >
                         {deletingAssetId === asset.id
-                          ? "Deleting..."
-                          : "Delete"}
+                          ? t("drive.deleting")
+                          : t("common.delete")}
                       </button>
                     )}
                   </div>
@@ -305,6 +399,12 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                   }
                   onDragEnd={onDragEnd}
                 >
+                  {onToggleSelect &&
+                    renderSelectCheckbox(
+                      t("drive.select", { name: asset.filename }),
+                      isSelected("ASSET", asset.id),
+                      () => onToggleSelect("ASSET", asset.id)
+                    )}
                   <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#f4f6fb]">
                     <DriveFileIcon
                       type="OTHER"
@@ -328,7 +428,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="flex-1 rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0] sm:flex-none"
                         onClick={() => onPreviewAsset(asset)}
                       >
-                        Preview
+                        {t("drive.preview")}
                       </button>
                     )}
                     {onDownloadAsset && (
@@ -337,10 +437,10 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="flex-1 rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff] sm:flex-none"
                         onClick={() => onDownloadAsset(asset)}
                       >
-                        Download
+                        {t("common.download")}
                       </button>
                     )}
-                    {onDeleteAsset && (
+                    {onDeleteAsset && canDeleteAsset(asset) && (
                       <button
                         type="button"
                         className="flex-1 rounded-full border border-transparent px-4 py-1.5 font-medium text-[#d93025] transition hover:bg-[#fce8e6] disabled:opacity-50 sm:flex-none"
@@ -348,8 +448,8 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         disabled={deletingAssetId === asset.id}
                       >
                         {deletingAssetId === asset.id
-                          ? "Deleting..."
-                          : "Delete"}
+                          ? t("drive.deleting")
+                          : t("common.delete")}
                       </button>
                     )}
                   </div>
@@ -363,7 +463,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
       {deliveries.length > 0 && (
         <section>
           <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-[#5f6368]">
-            Deliveries
+            {t("shareLinks.deliveries")}
           </h3>
           <div className={gridClass}>
             {deliveries.map((delivery) =>
@@ -377,6 +477,13 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                   }
                   onDragEnd={onDragEnd}
                 >
+                  {onToggleSelect &&
+                    renderSelectCheckbox(
+                      t("drive.select", { name: delivery.filename }),
+                      isSelected("DELIVERY", delivery.id),
+                      () => onToggleSelect("DELIVERY", delivery.id),
+                      gridCheckboxClass(isSelected("DELIVERY", delivery.id))
+                    )}
                   <div className="flex flex-1 flex-col p-4">
                     <div className="mb-4 flex h-28 items-center justify-center rounded-xl bg-linear-to-br from-[#e8f0fe] via-[#f1f3f4] to-white">
                       <DriveFileIcon
@@ -392,7 +499,19 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                       </p>
                       <p className="mt-1 text-xs text-[#5f6368]">
                         {formatFileSize(delivery.sizeBytes)}
+                        {(delivery.version ?? 1) > 1 &&
+                          ` · v${delivery.version}`}
                       </p>
+                      {delivery.reviewStatus &&
+                        delivery.reviewStatus !== "PENDING" && (
+                          <div className="mt-1">
+                            {reviewBadge(
+                              t,
+                              delivery.reviewStatus,
+                              delivery.reviewNote
+                            )}
+                          </div>
+                        )}
                     </div>
                   </div>
                   <div className="flex items-center justify-between gap-2 border-t border-[#e5e8ef] bg-[#f8f9fa] px-4 py-3 text-xs opacity-0 transition group-hover:opacity-100 group-focus-within:opacity-100">
@@ -402,7 +521,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0]"
                         onClick={() => onPreviewDelivery(delivery)}
                       >
-                        Preview
+                        {t("drive.preview")}
                       </button>
                     )}
                     {onDownloadDelivery && (
@@ -411,10 +530,28 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
                         onClick={() => onDownloadDelivery(delivery)}
                       >
-                        Download
+                        {t("common.download")}
+                      </button>
+                    )}
+                    {onShowDeliveryVersions && (
+                      <button
+                        type="button"
+                        className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#5f6368] transition hover:border-[#1a73e8] hover:text-[#1a73e8]"
+                        onClick={() => onShowDeliveryVersions(delivery)}
+                      >
+                        {t("drive.versions")}
+                      </button>
+                    )}
+                    {onReviewDelivery && (
+                      <button
+                        type="button"
+                        className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#137333] transition hover:border-[#137333] hover:bg-[#e6f4ea]"
+                        onClick={() => onReviewDelivery(delivery)}
+                      >
+                        {t("drive.review")}
                       </button>
                     )}
-                    {onDeleteDelivery && (
+                    {onDeleteDelivery && canDeleteDelivery(delivery) && (
                       <button
                         type="button"
                         className="rounded-full border border-transparent px-3 py-1.5 font-medium text-[#d93025] transition hover:bg-[#fce8e6] disabled:opacity-50"
@@ -422,8 +559,8 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         disabled={deletingDeliveryId === delivery.id}
                       >
                         {deletingDeliveryId === delivery.id
-                          ? "Deleting..."
-                          : "Delete"}
+                          ? t("drive.deleting")
+                          : t("common.delete")}
                       </button>
                     )}
                   </div>
@@ -438,6 +575,12 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                   }
                   onDragEnd={onDragEnd}
                 >
+                  {onToggleSelect &&
+                    renderSelectCheckbox(
+                      t("drive.select", { name: delivery.filename }),
+                      isSelected("DELIVERY", delivery.id),
+                      () => onToggleSelect("DELIVERY", delivery.id)
+                    )}
                   <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#f4f6fb]">
                     <DriveFileIcon
                       type="OTHER"
@@ -452,7 +595,9 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                     </p>
                     <p className="text-xs text-[#80868b]">
                       {formatFileSize(delivery.sizeBytes)}
+                      {(delivery.version ?? 1) > 1 && ` · v${delivery.version}`}
                     </p>
+                    {reviewBadge(t, delivery.reviewStatus, delivery.reviewNote)}
                   </div>
                   <div className="flex w-full flex-wrap items-center gap-2 text-xs sm:w-auto sm:flex-nowrap sm:justify-end">
                     {onPreviewDelivery && (
@@ -461,7 +606,7 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="flex-1 rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0] sm:flex-none"
                         onClick={() => onPreviewDelivery(delivery)}
                       >
-                        Preview
+                        {t("drive.preview")}
                       </button>
                     )}
                     {onDownloadDelivery && (
@@ -470,10 +615,28 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         className="flex-1 rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff] sm:flex-none"
                         onClick={() => onDownloadDelivery(delivery)}
                       >
-                        Download
+                        {t("common.download")}
+                      </button>
+                    )}
+                    {onShowDeliveryVersions && (
+                      <button
+                        type="button"
+                        className="flex-1 rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#5f6368] transition hover:border-[#1a73e8] hover:text-[#1a73e8] sm:flex-none"
+                        onClick={() => onShowDeliveryVersions(delivery)}
+                      >
+                        {t("drive.versions")}
+                      </button>
+                    )}
+                    {onReviewDelivery && (
+                      <button
+                        type="button"
+                        className="flex-1 rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#137333] transition hover:border-[#137333] hover:bg-[#e6f4ea] sm:flex-none"
+                        onClick={() => onReviewDelivery(delivery)}
+                      >
+                        {t("drive.review")}
                       </button>
                     )}
-                    {onDeleteDelivery && (
+                    {onDeleteDelivery && canDeleteDelivery(delivery) && (
                       <button
                         type="button"
                         className="flex-1 rounded-full border border-transparent px-4 py-1.5 font-medium text-[#d93025] transition hover:bg-[#fce8e6] disabled:opacity-50 sm:flex-none"
@@ -481,8 +644,8 @@ export const DriveFileGrid: FC<DriveFileGridProps> = ({
                         disabled={deletingDeliveryId === delivery.id}
                       >
                         {deletingDeliveryId === delivery.id
-                          ? "Deleting..."
-                          : "Delete"}
+                          ? t("drive.deleting")
+                          : t("common.delete")}
                       </button>
                     )}
                   </div>
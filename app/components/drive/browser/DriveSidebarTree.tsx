@@ -2,6 +2,7 @@
 
 import { useMemo, useState, type FC } from "react";
 import type { DriveDraggableItem, FolderTreeNode } from "./types";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type DriveSidebarTreeProps = {
   tree: FolderTreeNode[];
@@ -37,6 +38,7 @@ const TreeItem: FC<TreeItemProps> = ({
   onDragStart,
   onDragEnd,
 }) => {
+  const { t } = useTranslation();
   const [expanded, setExpanded] = useState(depth === 0);
   const isActive = activeFolderId === node.id;
   const totalAssets = node.aggregateCount?.assets ?? node._count?.assets ?? 0;
@@ -107,7 +109,7 @@ const TreeItem: FC<TreeItemProps> = ({
           <button
             type="button"
             className="opacity-0 transition group-hover:opacity-100 text-[#1a73e8] hover:text-[#1557b0]"
-            title="New subfolder"
+            title={t("drive.newSubfolder")}
             onClick={() => onCreateFolder(node.id)}
           >
             +
@@ -2,6 +2,7 @@
 
 import type { FC } from "react";
 import type { DriveLayoutMode } from "./types";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type DriveToolbarProps = {
   search: string;
@@ -28,6 +29,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
   onUploadClick,
   rightSlot,
 }) => {
+  const { t } = useTranslation();
   return (
     <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-[#dfe3eb] bg-white px-4 py-3 shadow-sm">
       <div className="flex flex-1 items-center gap-3 min-w-[240px]">
@@ -36,7 +38,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
             type="text"
             value={search}
             onChange={(event) => onSearchChange(event.target.value)}
-            placeholder="Search files and folders"
+            placeholder={t("drive.search")}
             className="w-full rounded-xl border border-[#e1e5ee] bg-[#f8fafc] pl-11 pr-3 py-2.5 text-sm text-[#202124] placeholder-[#7c8190] focus:border-[#1a73e8] focus:bg-white focus:outline-none shadow-inner"
           />
           <span className="pointer-events-none absolute left-4 top-1/2 -translate-y-1/2 text-[#5f6368]">
@@ -67,7 +69,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
                 ? "bg-white text-[#1a73e8] shadow-sm"
                 : "text-[#6b7280] hover:bg-white",
             ].join(" ")}
-            title="Grid view"
+            title={t("drive.gridView")}
           >
             <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
               <rect
@@ -113,7 +115,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
                 ? "bg-white text-[#1a73e8] shadow-sm"
                 : "text-[#6b7280] hover:bg-white",
             ].join(" ")}
-            title="List view"
+            title={t("drive.listView")}
           >
             <svg width="14" height="14" viewBox="0 0 24 24" fill="none">
               <rect
@@ -162,7 +164,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
             >
               <path d="M12 5v14m7-7H5" />
             </svg>
-            New folder
+            {t("drive.newFolder")}
           </button>
         )}
         {canUpload && (
@@ -182,7 +184,7 @@ export const DriveToolbar: FC<DriveToolbarProps> = ({
               <path d="M12 19V5m0 0-5 5m5-5 5 5" />
               <path d="M5 19h14" />
             </svg>
-            Upload
+            {t("drive.upload")}
           </button>
         )}
       </div>
@@ -28,8 +28,13 @@ export type DriveDelivery = {
   folderId: string | null;
   uploadedAt?: string;
   uploadedBy: { id: string; email: string; name?: string | null } | null;
+  version?: number;
+  reviewStatus?: DriveReviewStatus;
+  reviewNote?: string | null;
 };
 
+export type DriveReviewStatus = "PENDING" | "APPROVED" | "CHANGES_REQUESTED";
+
 export type DriveItemKind = "FOLDER" | "ASSET" | "DELIVERY";
 
 export type DriveDraggableItem =
@@ -11,6 +11,7 @@ import {
   FolderTreeNode,
 } from "./types";
 import { buildFolderTree } from "@/app/lib/drive-utils";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 export type MoveItemHandler = (
   item: DriveDraggableItem,
@@ -75,6 +76,7 @@ export function useDriveBrowser({
   onMove,
   onCreateFolder,
 }: UseDriveBrowserParams): UseDriveBrowserResult {
+  const { t } = useTranslation();
   const filteredFolders = useMemo(
     () => normalizeAllowedTypes(folders, allowedFolderTypes),
     [folders, allowedFolderTypes]
@@ -184,9 +186,9 @@ export function useDriveBrowser({
       cursor = folder.parentId;
     }
 
-    chain.push({ id: null, name: "All Content" });
+    chain.push({ id: null, name: t("drive.allContent") });
     return chain.reverse();
-  }, [activeFolderId, folderMap]);
+  }, [activeFolderId, folderMap, t]);
 
   const childFolders = useMemo(() => {
     const set = new Set();
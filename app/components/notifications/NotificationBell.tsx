@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import type { NotificationView } from "@/app/lib/notifications";
+import { useTranslation } from "@/app/components/I18nProvider";
+import NotificationRow, {
+  NOTIFICATIONS_READ_EVENT,
+  markNotificationsRead,
+} from "@/app/components/notifications/NotificationRow";
+
+// How many of the latest notifications the dropdown shows
+const DROPDOWN_SIZE = 8;
+
+// The unread count is refreshed this often while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/** Navbar bell with the unread count and a dropdown of recent notifications */
+export default function NotificationBell() {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationView[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/notifications?limit=${DROPDOWN_SIZE}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(t("notifications.loadFailed"));
+      const data = await res.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("notifications.loadFailed"));
+    } finally {
+      setLoaded(true);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+    const interval = window.setInterval(load, POLL_INTERVAL_MS);
+    window.addEventListener("focus", load);
+    window.addEventListener(NOTIFICATIONS_READ_EVENT, load);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("focus", load);
+      window.removeEventListener(NOTIFICATIONS_READ_EVENT, load);
+    };
+  }, [load]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointer = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", handlePointer);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handlePointer);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) load();
+    setOpen((value) => !value);
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const count = await markNotificationsRead(ids);
+      const readAt = new Date().toISOString();
+      setNotifications((previous) =>
+        previous.map((notification) =>
+          !ids || ids.includes(notification.id)
+            ? { ...notification, readAt: notification.readAt ?? readAt }
+            : notification
+        )
+      );
+      setUnreadCount(count);
+    } catch (e: unknown) {
+      setError(
+        (e instanceof Error && e.message) || t("notifications.markReadFailed")
+      );
+    }
+  };
+
+  const openNotification = (notification: NotificationView) => {
+    setOpen(false);
+    if (!notification.readAt) markRead([notification.id]);
+  };
+
+  const badge = unreadCount > 99 ? "99+" : String(unreadCount);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        className="btn-icon relative"
+        title={t("notifications.title")}
+        aria-label={
+          unreadCount > 0
+            ? t("notifications.unreadLabel", { count: unreadCount })
+            : t("notifications.title")
+        }
+        aria-expanded={open}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-[18px] min-w-[18px] items-center justify-center rounded-full bg-[#d93025] px-1 text-[10px] font-semibold leading-none text-white">
+            {badge}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-[min(22rem,calc(100vw-1.5rem))] overflow-hidden rounded-xl border border-[#dadce0] bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-[#dadce0] px-4 py-3">
+            <span className="text-sm font-medium text-[#202124]">
+              {t("notifications.title")}
+            </span>
+            <button
+              type="button"
+              onClick={() => markRead()}
+              disabled={unreadCount === 0}
+              className="text-xs font-medium text-[#1a73e8] disabled:text-[#9aa0a6]"
+            >
+              {t("notifications.markAllRead")}
+            </button>
+          </div>
+          {error && (
+            <div className="border-b border-[#dadce0] px-4 py-2 text-xs text-[#d93025]">
+              {error}
+            </div>
+          )}
+          <div className="max-h-[60vh] divide-y divide-[#f1f3f4] overflow-y-auto">
+            {!loaded ? (
+              <div className="px-4 py-6 text-center text-sm text-[#5f6368]">
+                {t("common.loading")}
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="px-4 py-6 text-center text-sm text-[#5f6368]">
+                {t("notifications.empty")}
+              </div>
+            ) : (
+              notifications.map((notification) => (
+                <NotificationRow
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={openNotification}
+                  compact
+                />
+              ))
+            )}
+          </div>
+          <Link
+            href="/notifications"
+            onClick={() => setOpen(false)}
+            className="block border-t border-[#dadce0] px-4 py-2.5 text-center text-sm font-medium text-[#1a73e8] no-underline hover:bg-[#f8f9fa]"
+          >
+            {t("notifications.viewAll")}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FC, FormEvent } from "react";
+import type { NotificationDelivery } from "@prisma/client";
+import {
+  NOTIFICATION_DELIVERIES,
+  type NotificationType,
+} from "@/app/lib/notification-types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type PreferencesResponse = {
+  types: NotificationType[];
+  preferences: Record<NotificationType, NotificationDelivery>;
+};
+
+/** Notification section of the profile page: one delivery choice per type */
+const NotificationPreferences: FC = () => {
+  const { t } = useTranslation();
+  const [types, setTypes] = useState<NotificationType[]>([]);
+  const [preferences, setPreferences] = useState<Partial<
+    Record<NotificationType, NotificationDelivery>
+  > | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/profile/notifications");
+        if (!res.ok) return;
+        const data: PreferencesResponse = await res.json();
+        setTypes(data.types);
+        setPreferences(data.preferences);
+      } catch {
+        // The section simply stays hidden
+      }
+    };
+    load();
+  }, []);
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/profile/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "");
+      }
+      setPreferences(data.preferences);
+      setSuccess(t("notifications.preferences.saved"));
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error && e.message
+          ? e.message
+          : t("errors.updateNotificationPreferencesFailed")
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!preferences || types.length === 0) return null;
+
+  return (
+    <form onSubmit={onSubmit} className="card space-y-4">
+      <div>
+        <h2 className="text-lg font-medium text-[#202124]">
+          {t("notifications.preferences.title")}
+        </h2>
+        <p className="text-xs text-[#5f6368]">
+          {t("notifications.preferences.intro")}
+        </p>
+      </div>
+
+      <div className="divide-y divide-[#e8eaed]">
+        {types.map((type) => (
+          <div
+            key={type}
+            className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+          >
+            <label
+              htmlFor={`notification-${type}`}
+              className="text-sm text-[#202124]"
+            >
+              {t(`notifications.preferences.event.${type}`)}
+            </label>
+            <select
+              id={`notification-${type}`}
+              value={preferences[type]}
+              onChange={(e) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  [type]: e.target.value as NotificationDelivery,
+                }))
+              }
+              className="input sm:w-56"
+            >
+              {NOTIFICATION_DELIVERIES.map((delivery) => (
+                <option key={delivery} value={delivery}>
+                  {t(`notifications.preferences.delivery.${delivery}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg px-4 py-3">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg px-4 py-3">
+          {success}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="btn-primary disabled:opacity-50"
+      >
+        {saving
+          ? t("notifications.preferences.saving")
+          : t("notifications.preferences.save")}
+      </button>
+    </form>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,109 @@
+"use client";
+
+import Link from "next/link";
+import type { FC } from "react";
+import type { Locale } from "@/app/lib/i18n";
+import type { NotificationView } from "@/app/lib/notifications";
+import { notificationMessage } from "@/app/lib/notification-types";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+];
+
+const timeAgo = (value: string, locale: Locale) => {
+  const seconds = Math.round((new Date(value).getTime() - Date.now()) / 1000);
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) {
+      return format.format(Math.round(seconds / size), unit);
+    }
+  }
+  return format.format(seconds, "second");
+};
+
+type NotificationRowProps = {
+  notification: NotificationView;
+  // Called before following the link, to mark the notification as read
+  onOpen: (notification: NotificationView) => void;
+  compact?: boolean;
+};
+
+const NotificationRow: FC<NotificationRowProps> = ({
+  notification,
+  onOpen,
+  compact = false,
+}) => {
+  const { locale, t } = useTranslation();
+  const unread = !notification.readAt;
+
+  const content = (
+    <>
+      <span
+        className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+          unread ? "bg-[#1a73e8]" : "bg-transparent"
+        }`}
+        aria-hidden="true"
+      />
+      <span className="min-w-0 flex-1">
+        <span
+          className={`block text-sm ${
+            unread ? "font-medium text-[#202124]" : "text-[#5f6368]"
+          } ${compact ? "line-clamp-2" : ""}`}
+        >
+          {notificationMessage(t, notification)}
+        </span>
+        <span
+          className="mt-0.5 block text-xs text-[#5f6368]"
+          title={new Date(notification.createdAt).toLocaleString(locale)}
+        >
+          {timeAgo(notification.createdAt, locale)}
+        </span>
+      </span>
+    </>
+  );
+
+  const className = `flex items-start gap-3 px-4 py-3 text-left no-underline transition-colors hover:bg-[#f1f3f4] ${
+    unread ? "bg-[#f8fbff]" : "bg-white"
+  }`;
+
+  return notification.href ? (
+    <Link
+      href={notification.href}
+      onClick={() => onOpen(notification)}
+      className={className}
+    >
+      {content}
+    </Link>
+  ) : (
+    <button
+      type="button"
+      onClick={() => onOpen(notification)}
+      className={`w-full ${className}`}
+    >
+      {content}
+    </button>
+  );
+};
+
+export default NotificationRow;
+
+// Fired on window after notifications are marked as read, so the navbar bell
+// and the notifications page stay in step
+export const NOTIFICATIONS_READ_EVENT = "notifications:read";
+
+/** Marks the given notifications, or all of them, as read; resolves to the new unread count */
+export async function markNotificationsRead(ids?: string[]) {
+  const res = await fetch("/api/notifications/read", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ids ? { ids } : {}),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok)
+    throw new Error(typeof data.error === "string" ? data.error : "");
+  window.dispatchEvent(new Event(NOTIFICATIONS_READ_EVENT));
+  return data.unreadCount as number;
+}
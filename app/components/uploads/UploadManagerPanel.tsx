@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import type { FC } from "react";
+import { formatFileSize } from "@/app/lib/drive-utils";
+import type { Translator } from "@/app/lib/i18n";
+import { useTranslation } from "@/app/components/I18nProvider";
+import type {
+  UploadItem,
+  UploadManager,
+  UploadStatus,
+} from "./useUploadManager";
+
+const BAR_COLORS: Record<UploadStatus, string> = {
+  queued: "bg-[#dadce0]",
+  uploading: "bg-[#1a73e8]",
+  paused: "bg-[#f9ab00]",
+  completed: "bg-[#34a853]",
+  error: "bg-[#d93025]",
+  canceled: "bg-[#dadce0]",
+};
+
+const formatEta = (seconds: number, t: Translator) => {
+  if (seconds < 60) return t("uploads.etaSeconds", { seconds });
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return t("uploads.etaMinutes", { minutes });
+  return t("uploads.etaHours", {
+    hours: Math.floor(minutes / 60),
+    minutes: minutes % 60,
+  });
+};
+
+/** One line under the file name: how far it got and what comes next */
+const statusLine = (upload: UploadItem, t: Translator) => {
+  const progress = t("uploads.progress", {
+    uploaded: formatFileSize(upload.uploadedBytes),
+    total: formatFileSize(upload.sizeBytes),
+  });
+  switch (upload.status) {
+    case "queued":
+      return t("uploads.queued");
+    case "uploading":
+      return [
+        progress,
+        upload.bytesPerSecond !== null &&
+          t("uploads.speed", { speed: formatFileSize(upload.bytesPerSecond) }),
+        upload.etaSeconds !== null && formatEta(upload.etaSeconds, t),
+      ]
+        .filter(Boolean)
+        .join(" · ");
+    case "paused":
+      return `${t("uploads.paused")} · ${progress}`;
+    case "completed":
+      return t("uploads.completed");
+    case "error":
+      return upload.error ?? t("upload.failed");
+    case "canceled":
+      return t("uploads.canceled");
+  }
+};
+
+/**
+ * Floating list of a page's uploads from useUploadManager, with pause,
+ * resume, retry and cancel for each file.
+ */
+const UploadManagerPanel: FC<{ manager: UploadManager }> = ({ manager }) => {
+  const { t } = useTranslation();
+  const [collapsed, setCollapsed] = useState(false);
+  const { uploads } = manager;
+
+  if (uploads.length === 0) return null;
+
+  const done = uploads.filter((upload) => upload.status === "completed").length;
+  const hasFinished = uploads.some(
+    (upload) => upload.status === "completed" || upload.status === "canceled"
+  );
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[min(24rem,calc(100vw-2rem))] overflow-hidden rounded-xl border border-[#dadce0] bg-white shadow-lg">
+      <div className="flex items-center justify-between gap-2 bg-[#f8f9fa] px-4 py-2">
+        <span className="text-sm font-medium text-[#202124]">
+          {t("uploads.title", { done, total: uploads.length })}
+        </span>
+        <div className="flex items-center gap-1">
+          {hasFinished && (
+            <button
+              className="rounded px-2 py-1 text-xs text-[#1a73e8] hover:bg-[#e8f0fe]"
+              onClick={manager.clearFinished}
+            >
+              {t("uploads.clearFinished")}
+            </button>
+          )}
+          <button
+            className="btn-icon text-[#5f6368]"
+            onClick={() => setCollapsed((value) => !value)}
+            aria-label={t(collapsed ? "uploads.expand" : "uploads.collapse")}
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              className={collapsed ? "rotate-180" : undefined}
+            >
+              <path d="M6 9l6 6 6-6" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {!collapsed && (
+        <ul className="max-h-80 divide-y divide-[#e5e8ef] overflow-auto">
+          {uploads.map((upload) => {
+            const percent = upload.sizeBytes
+              ? Math.round((upload.uploadedBytes / upload.sizeBytes) * 100)
+              : 100;
+            return (
+              <li key={upload.id} className="space-y-1 px-4 py-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm text-[#202124]">
+                      {upload.name}
+                    </div>
+                    {upload.label && (
+                      <div className="text-xs text-[#80868b]">
+                        {upload.label}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1 text-xs">
+                    {(upload.status === "uploading" ||
+                      upload.status === "queued") && (
+                      <button
+                        className="rounded px-2 py-1 text-[#5f6368] hover:bg-[#f1f3f4]"
+                        onClick={() => manager.pause(upload.id)}
+                      >
+                        {t("uploads.pause")}
+                      </button>
+                    )}
+                    {upload.status === "paused" && (
+                      <button
+                        className="rounded px-2 py-1 text-[#1a73e8] hover:bg-[#e8f0fe]"
+                        onClick={() => manager.resume(upload.id)}
+                      >
+                        {t("uploads.resume")}
+                      </button>
+                    )}
+                    {upload.status === "error" && (
+                      <button
+                        className="rounded px-2 py-1 text-[#1a73e8] hover:bg-[#e8f0fe]"
+                        onClick={() => manager.retry(upload.id)}
+                      >
+                        {t("uploads.retry")}
+                      </button>
+                    )}
+                    {upload.status !== "completed" &&
+                      upload.status !== "canceled" && (
+                        <button
+                          className="rounded px-2 py-1 text-[#d93025] hover:bg-red-50"
+                          onClick={() => manager.cancel(upload.id)}
+                        >
+                          {t("uploads.cancel")}
+                        </button>
+                      )}
+                  </div>
+                </div>
+                <div className="h-1.5 overflow-hidden rounded-full bg-[#e8eaed]">
+                  <div
+                    className={`h-full ${BAR_COLORS[upload.status]} transition-all`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <div
+                  className={`text-xs ${
+                    upload.status === "error"
+                      ? "text-[#d93025]"
+                      : "text-[#5f6368]"
+                  }`}
+                >
+                  {statusLine(upload, t)}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadManagerPanel;
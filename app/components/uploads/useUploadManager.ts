@@ -0,0 +1,328 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+import type { Translator } from "@/app/lib/i18n";
+import {
+  abortUpload,
+  createUploadState,
+  uploadFile,
+  type UploadState,
+  type UploadTarget,
+} from "@/app/lib/upload-client";
+
+export type UploadStatus =
+  "queued" | "uploading" | "paused" | "completed" | "error" | "canceled";
+
+export type UploadItem = {
+  id: string;
+  name: string;
+  // What the file becomes, e.g. "Delivery upload"
+  label: string | null;
+  sizeBytes: number;
+  uploadedBytes: number;
+  status: UploadStatus;
+  // Averaged over the last few seconds; null until there is enough to go on
+  bytesPerSecond: number | null;
+  etaSeconds: number | null;
+  error: string | null;
+};
+
+export type UseUploadManagerParams = {
+  // Parts in flight at once for the file being uploaded
+  concurrency?: number;
+  // Called when the queue runs dry after at least one file went through,
+  // e.g. to reload the listing
+  onIdle?: () => void;
+};
+
+export type UploadManager = {
+  uploads: UploadItem[];
+  // Queues files for one target. Resolves once each has completed, failed
+  // or been canceled: true when all of them completed.
+  add: (
+    files: File[],
+    target: UploadTarget,
+    label?: string
+  ) => Promise<boolean>;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  clearFinished: () => void;
+};
+
+type UploadJob = UploadItem & {
+  file: File;
+  target: UploadTarget;
+  state: UploadState;
+  controller: AbortController | null;
+  // Set before aborting a running upload, to tell a pause from a cancel
+  stopAs: "paused" | "canceled" | null;
+  samples: { time: number; bytes: number }[];
+  settle: ((completed: boolean) => void) | null;
+};
+
+type QueueOptions = UseUploadManagerParams & { t: Translator };
+
+// Speed is averaged over this window
+const SPEED_WINDOW_MS = 10_000;
+
+const FINISHED: UploadStatus[] = ["completed", "canceled"];
+
+const toItem = (job: UploadJob): UploadItem => ({
+  id: job.id,
+  name: job.name,
+  label: job.label,
+  sizeBytes: job.sizeBytes,
+  uploadedBytes: job.uploadedBytes,
+  status: job.status,
+  bytesPerSecond: job.bytesPerSecond,
+  etaSeconds: job.etaSeconds,
+  error: job.error,
+});
+
+/**
+ * The queue behind useUploadManager: one file uploads at a time, in the
+ * order added, and every change is reported through `onChange`.
+ */
+function createUploadQueue(
+  initialOptions: QueueOptions,
+  onChange: (items: UploadItem[]) => void
+) {
+  let options = initialOptions;
+  let jobs: UploadJob[] = [];
+  let active: UploadJob | null = null;
+  let completedSinceIdle = false;
+
+  const publish = () => onChange(jobs.map(toItem));
+
+  const settle = (job: UploadJob, completed: boolean) => {
+    job.settle?.(completed);
+    job.settle = null;
+  };
+
+  const recordProgress = (job: UploadJob, bytes: number) => {
+    const now = Date.now();
+    job.uploadedBytes = bytes;
+    job.samples.push({ time: now, bytes });
+    while (
+      job.samples.length > 2 &&
+      now - job.samples[0].time > SPEED_WINDOW_MS
+    ) {
+      job.samples.shift();
+    }
+    const first = job.samples[0];
+    const elapsed = (now - first.time) / 1000;
+    job.bytesPerSecond =
+      elapsed >= 1 && bytes > first.bytes
+        ? (bytes - first.bytes) / elapsed
+        : null;
+    job.etaSeconds = job.bytesPerSecond
+      ? Math.ceil((job.sizeBytes - bytes) / job.bytesPerSecond)
+      : null;
+  };
+
+  const run = async (job: UploadJob) => {
+    const { t, concurrency } = options;
+    job.status = "uploading";
+    job.error = null;
+    job.stopAs = null;
+    job.samples = [];
+    job.controller = new AbortController();
+    publish();
+
+    try {
+      await uploadFile(job.file, job.target, {
+        t,
+        state: job.state,
+        concurrency,
+        signal: job.controller.signal,
+        onProgress: (bytes) => {
+          recordProgress(job, bytes);
+          publish();
+        },
+      });
+      job.status = "completed";
+      job.uploadedBytes = job.sizeBytes;
+      completedSinceIdle = true;
+      settle(job, true);
+    } catch (error) {
+      if (job.stopAs === "paused") {
+        job.status = "paused";
+      } else if (job.stopAs === "canceled") {
+        job.status = "canceled";
+        void abortUpload(job.state).catch(() => undefined);
+        settle(job, false);
+      } else {
+        job.status = "error";
+        job.error = error instanceof Error ? error.message : t("upload.failed");
+        settle(job, false);
+      }
+    } finally {
+      job.controller = null;
+      job.bytesPerSecond = null;
+      job.etaSeconds = null;
+      active = null;
+      publish();
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (active) return;
+    const next = jobs.find((job) => job.status === "queued");
+    if (!next) {
+      if (completedSinceIdle) {
+        completedSinceIdle = false;
+        options.onIdle?.();
+      }
+      return;
+    }
+    active = next;
+    void run(next);
+  };
+
+  const find = (id: string) => jobs.find((job) => job.id === id);
+
+  return {
+    // Picks up the latest callbacks and translator from the page
+    configure(next: QueueOptions) {
+      options = next;
+    },
+
+    add(files: File[], target: UploadTarget, label?: string) {
+      const added = files.map(
+        (file) =>
+          new Promise<boolean>((resolve) => {
+            jobs.push({
+              id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
+              name: file.name,
+              label: label ?? null,
+              sizeBytes: file.size,
+              uploadedBytes: 0,
+              status: "queued",
+              bytesPerSecond: null,
+              etaSeconds: null,
+              error: null,
+              file,
+              target,
+              state: createUploadState(),
+              controller: null,
+              stopAs: null,
+              samples: [],
+              settle: resolve,
+            });
+          })
+      );
+      publish();
+      pump();
+      return Promise.all(added).then((results) => results.every(Boolean));
+    },
+
+    pause(id: string) {
+      const job = find(id);
+      if (job?.status === "uploading") {
+        job.stopAs = "paused";
+        job.controller?.abort();
+      } else if (job?.status === "queued") {
+        job.status = "paused";
+        publish();
+      }
+    },
+
+    resume(id: string) {
+      const job = find(id);
+      if (job?.status !== "paused") return;
+      job.status = "queued";
+      publish();
+      pump();
+    },
+
+    cancel(id: string) {
+      const job = find(id);
+      if (!job || FINISHED.includes(job.status)) return;
+      if (job.status === "uploading") {
+        job.stopAs = "canceled";
+        job.controller?.abort();
+        return;
+      }
+      job.status = "canceled";
+      void abortUpload(job.state).catch(() => undefined);
+      settle(job, false);
+      publish();
+    },
+
+    retry(id: string) {
+      const job = find(id);
+      if (job?.status !== "error") return;
+      // Start afresh; the server hands back the parts a resumable upload
+      // already has
+      job.state = {
+        ...createUploadState(),
+        fingerprint: job.state.fingerprint,
+        sha256: job.state.sha256,
+      };
+      job.status = "queued";
+      publish();
+      pump();
+    },
+
+    clearFinished() {
+      jobs = jobs.filter((job) => !FINISHED.includes(job.status));
+      publish();
+    },
+
+    // Pauses whatever is running, e.g. when the page goes away
+    stop() {
+      if (active) {
+        active.stopAs = "paused";
+        active.controller?.abort();
+      }
+    },
+
+    isBusy: () =>
+      jobs.some((job) => job.status === "uploading" || job.status === "queued"),
+  };
+}
+
+/**
+ * Queues file uploads for a page and tracks their progress, speed and ETA.
+ * Render <UploadManagerPanel> with the result to show and control them.
+ */
+export function useUploadManager(
+  params: UseUploadManagerParams = {}
+): UploadManager {
+  const { t } = useTranslation();
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const [queue] = useState(() =>
+    createUploadQueue({ ...params, t }, setUploads)
+  );
+
+  useEffect(() => {
+    queue.configure({ ...params, t });
+  });
+
+  useEffect(() => {
+    // Leaving the page would drop the upload; a resumable one can be
+    // picked up again from Unfinished uploads
+    const warn = (event: BeforeUnloadEvent) => {
+      if (queue.isBusy()) event.preventDefault();
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => {
+      window.removeEventListener("beforeunload", warn);
+      queue.stop();
+    };
+  }, [queue]);
+
+  return {
+    uploads,
+    add: queue.add,
+    pause: queue.pause,
+    resume: queue.resume,
+    cancel: queue.cancel,
+    retry: queue.retry,
+    clearFinished: queue.clearFinished,
+  };
+}
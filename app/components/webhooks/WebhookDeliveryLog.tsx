@@ -0,0 +1,207 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import type { FC } from "react";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export type WebhookDeliveryStatus =
+  "QUEUED" | "SUCCEEDED" | "RETRYING" | "FAILED";
+
+type WebhookDelivery = {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+type WebhookDeliveryLogProps = {
+  endpointId: string;
+  // Bump to reload, e.g. after a test event was sent
+  refreshKey?: number;
+};
+
+export const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  QUEUED: "bg-[#e8f0fe] text-[#1a73e8]",
+  SUCCEEDED: "bg-[#e6f4ea] text-[#137333]",
+  RETRYING: "bg-[#fef7e0] text-[#b06000]",
+  FAILED: "bg-[#fce8e6] text-[#d93025]",
+};
+
+/** Recent deliveries to one webhook endpoint, each with its payload and response */
+const WebhookDeliveryLog: FC<WebhookDeliveryLogProps> = ({
+  endpointId,
+  refreshKey,
+}) => {
+  const { t } = useTranslation();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(
+    async (cursor?: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(
+          `/api/admin/webhooks/${endpointId}/deliveries?${params.toString()}`,
+          { cache: "no-store" }
+        );
+        if (!res.ok) throw new Error(t("webhooks.log.loadFailed"));
+        const data = await res.json();
+        setDeliveries((prev) =>
+          cursor ? [...prev, ...data.deliveries] : data.deliveries
+        );
+        setNextCursor(data.nextCursor);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t("webhooks.log.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [endpointId, t]
+  );
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries, refreshKey]);
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <div className="overflow-x-auto border border-[#dadce0] rounded-lg">
+        <table className="w-full">
+          <thead className="bg-[#f8f9fa] border-b border-[#dadce0]">
+            <tr>
+              {[
+                t("webhooks.log.sent"),
+                t("webhooks.log.event"),
+                t("common.status"),
+                t("webhooks.log.response"),
+                t("webhooks.log.attempts"),
+              ].map((heading) => (
+                <th
+                  key={heading}
+                  className="text-left p-3 text-sm font-medium text-[#202124]"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#dadce0]">
+            {deliveries.map((delivery) => (
+              <Fragment key={delivery.id}>
+                <tr
+                  className="hover:bg-[#f8f9fa] cursor-pointer align-top"
+                  onClick={() =>
+                    setExpandedId((id) =>
+                      id === delivery.id ? null : delivery.id
+                    )
+                  }
+                >
+                  <td className="p-3 text-sm text-[#5f6368] whitespace-nowrap">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </td>
+                  <td className="p-3 text-sm">
+                    <code className="px-2 py-1 rounded bg-[#f1f3f4] text-xs text-[#202124]">
+                      {delivery.event}
+                    </code>
+                  </td>
+                  <td className="p-3 text-sm">
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-medium ${
+                        DELIVERY_STATUS_STYLES[delivery.status]
+                      }`}
+                    >
+                      {t(`webhooks.status.${delivery.status}`)}
+                    </span>
+                  </td>
+                  <td className="p-3 text-sm text-[#5f6368]">
+                    {delivery.responseStatus ?? "—"}
+                    {delivery.durationMs !== null && (
+                      <span className="ml-2 text-xs text-[#80868b]">
+                        {t("webhooks.log.duration", {
+                          ms: delivery.durationMs,
+                        })}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-3 text-sm text-[#5f6368]">
+                    {delivery.attempts}
+                  </td>
+                </tr>
+                {expandedId === delivery.id && (
+                  <tr className="bg-[#f8f9fa]">
+                    <td colSpan={5} className="p-3 text-xs space-y-3">
+                      {delivery.error && (
+                        <p className="text-[#d93025] break-words">
+                          {delivery.error}
+                        </p>
+                      )}
+                      <div>
+                        <p className="mb-1 font-medium text-[#202124]">
+                          {t("webhooks.log.payload")}
+                        </p>
+                        <pre className="max-h-64 overflow-auto rounded border border-[#dadce0] bg-white p-3 font-mono text-[#202124]">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </div>
+                      {delivery.responseBody && (
+                        <div>
+                          <p className="mb-1 font-medium text-[#202124]">
+                            {t("webhooks.log.responseBody")}
+                          </p>
+                          <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded border border-[#dadce0] bg-white p-3 font-mono text-[#5f6368]">
+                            {delivery.responseBody}
+                          </pre>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!loading && deliveries.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="p-6 text-center text-sm text-[#5f6368]"
+                >
+                  {t("webhooks.log.empty")}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-center">
+        {loading ? (
+          <p className="text-sm text-[#5f6368]">{t("common.loading")}</p>
+        ) : (
+          nextCursor && (
+            <button
+              type="button"
+              onClick={() => fetchDeliveries(nextCursor)}
+              className="btn-secondary"
+            >
+              {t("common.loadMore")}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WebhookDeliveryLog;
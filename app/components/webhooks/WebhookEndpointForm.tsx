@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import type { FC, FormEvent } from "react";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/app/lib/webhook-events";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+export type WebhookEndpointValues = {
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  secret?: string;
+};
+
+type WebhookEndpointFormProps = {
+  initial?: WebhookEndpointValues;
+  // New endpoints may bring their own secret; existing ones rotate it instead
+  allowSecret?: boolean;
+  submitLabel: string;
+  onSubmit: (values: WebhookEndpointValues) => Promise<void>;
+  onCancel: () => void;
+};
+
+/** URL, description and subscribed events of a webhook endpoint */
+const WebhookEndpointForm: FC<WebhookEndpointFormProps> = ({
+  initial,
+  allowSecret = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+  const [url, setUrl] = useState(initial?.url ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [events, setEvents] = useState<WebhookEvent[]>(
+    initial?.events ?? [...WEBHOOK_EVENTS]
+  );
+  const [secret, setSecret] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents((prev) =>
+      prev.includes(event)
+        ? prev.filter((value) => value !== event)
+        : WEBHOOK_EVENTS.filter(
+            (value) => value === event || prev.includes(value)
+          )
+    );
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        url: url.trim(),
+        description: description.trim(),
+        events,
+        ...(allowSecret && secret.trim() ? { secret: secret.trim() } : {}),
+      });
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error && e.message
+          ? e.message
+          : t("errors.saveWebhookFailed")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-[#202124] mb-1">
+            {t("webhooks.url")}
+          </label>
+          <input
+            type="url"
+            required
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://"
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#202124] mb-1">
+            {t("webhooks.description")}
+          </label>
+          <input
+            type="text"
+            maxLength={200}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("webhooks.descriptionPlaceholder")}
+            className="input"
+          />
+        </div>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-[#202124] mb-2">
+          {t("webhooks.events")}
+        </legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label
+              key={event}
+              className="flex items-start gap-2 text-sm text-[#202124]"
+            >
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+                className="mt-0.5"
+              />
+              <span>
+                <code className="text-xs">{event}</code>
+                <span className="block text-xs text-[#5f6368]">
+                  {t(`webhooks.event.${event}`)}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {allowSecret && (
+        <div>
+          <label className="block text-sm font-medium text-[#202124] mb-1">
+            {t("webhooks.secret")}
+          </label>
+          <input
+            type="text"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={t("webhooks.secretPlaceholder")}
+            autoComplete="off"
+            className="input font-mono"
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg px-4 py-3">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={submitting || events.length === 0}
+          className="btn-primary disabled:opacity-50"
+        >
+          {submitting ? t("common.saving") : submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          {t("common.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default WebhookEndpointForm;
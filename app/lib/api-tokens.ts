@@ -0,0 +1,145 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiTokenScope, type Prisma, type Role } from "@prisma/client";
+import { z } from "zod";
+import type { SessionUser } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { clientIp } from "@/app/lib/request-info";
+
+// Personal access tokens for /api/v1. The raw token is shown once when it is
+// created; only its SHA-256 hash is stored, like password reset tokens.
+
+const TOKEN_PREFIX = "cdp_";
+
+// Characters kept in clear so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+// lastUsedAt is only rewritten when it is older than this, so a busy script
+// does not cost a database write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const MAX_API_TOKENS_PER_USER = 20;
+
+export const API_TOKEN_EXPIRY_DAYS = [30, 90, 365] as const;
+
+export const hashApiToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/** Scopes a role may grant; ADMIN unlocks the user endpoints, so admins only */
+export const apiTokenScopesFor = (role: Role): ApiTokenScope[] =>
+  role === "ADMIN"
+    ? [ApiTokenScope.READ, ApiTokenScope.UPLOAD, ApiTokenScope.ADMIN]
+    : [ApiTokenScope.READ, ApiTokenScope.UPLOAD];
+
+// Messages are catalogue keys, translated with localizeIssues()
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "apiTokens.validation.name").max(100),
+  scopes: z.array(z.enum(ApiTokenScope)).min(1, "apiTokens.validation.scopes"),
+  // null = never expires
+  expiresInDays: z
+    .number()
+    .refine(
+      (days) => (API_TOKEN_EXPIRY_DAYS as readonly number[]).includes(days),
+      "apiTokens.validation.expiry"
+    )
+    .nullable(),
+});
+
+/** Token fields safe to list; the raw token is only returned on creation */
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+/** Issues a token for the user and returns the raw value alongside the record */
+export async function createApiToken(
+  userId: string,
+  input: z.infer<typeof createApiTokenSchema>
+) {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      // Stored in a fixed order so lists read the same everywhere
+      scopes: Object.values(ApiTokenScope).filter((scope) =>
+        input.scopes.includes(scope)
+      ),
+      expiresAt,
+    },
+    select: apiTokenSelect,
+  });
+
+  return { token, apiToken };
+}
+
+export type ApiTokenCaller = {
+  user: SessionUser;
+  tokenId: string;
+  scopes: ApiTokenScope[];
+};
+
+/**
+ * The user behind the request's `Authorization: Bearer` token, or null when
+ * the header is missing or the token is unknown, revoked or expired.
+ */
+export async function authenticateApiToken(
+  req: Request
+): Promise<ApiTokenCaller | null> {
+  const match = /^Bearer\s+(\S+)$/i.exec(
+    req.headers.get("authorization") ?? ""
+  );
+  const token = match?.[1];
+  if (!token?.startsWith(TOKEN_PREFIX)) return null;
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: { id: true, email: true, name: true, role: true, locale: true },
+      },
+    },
+  });
+  const now = new Date();
+  if (
+    !record ||
+    record.revokedAt ||
+    (record.expiresAt && record.expiresAt <= now)
+  ) {
+    return null;
+  }
+
+  if (
+    !record.lastUsedAt ||
+    now.getTime() - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.apiToken
+      .update({
+        where: { id: record.id },
+        data: { lastUsedAt: now, lastUsedIp: clientIp(req.headers) },
+      })
+      .catch((error) =>
+        console.error("Failed to record API token use:", error)
+      );
+  }
+
+  // The role may have changed since the token was made
+  const allowed = apiTokenScopesFor(record.user.role);
+  return {
+    user: record.user,
+    tokenId: record.id,
+    scopes: record.scopes.filter((scope) => allowed.includes(scope)),
+  };
+}
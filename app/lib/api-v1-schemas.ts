@@ -0,0 +1,176 @@
+import {
+  ApiTokenScope,
+  AssetType,
+  DeliveryReviewStatus,
+  FolderType,
+  Locale,
+  ProjectStatus,
+  Role,
+} from "@prisma/client";
+import { z } from "zod";
+
+// Request and response shapes of /api/v1. The routes validate bodies with
+// the request schemas, and app/lib/openapi.ts turns all of them into the
+// published OpenAPI document, so the two cannot drift apart.
+
+// Uploads run in three steps: start one to get presigned part URLs, PUT
+// each part to its URL, then complete it with the ETags the PUTs returned.
+// Completing checks the stored size against sizeBytes; pass sha256 to have
+// the file's hash recorded and shown to the project's users. The hash is
+// taken on trust: the server never reads the file back to check it.
+export const v1StartUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  contentType: z.string().min(1).max(255).default("application/octet-stream"),
+  sizeBytes: z.number().int().positive(),
+  folderId: z.string().min(1).optional(),
+});
+
+export const v1CompleteUploadSchema = v1StartUploadSchema.extend({
+  key: z.string().min(1),
+  uploadId: z.string().min(1),
+  parts: z
+    .array(
+      z.object({
+        ETag: z.string().min(1),
+        PartNumber: z.number().int().positive(),
+      })
+    )
+    .min(1),
+  sha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
+});
+
+// Pass deliveryId to upload a new version of an existing delivery
+export const v1StartDeliveryUploadSchema = v1StartUploadSchema.extend({
+  deliveryId: z.string().min(1).optional(),
+});
+
+export const v1CompleteDeliveryUploadSchema = v1CompleteUploadSchema.extend({
+  deliveryId: z.string().min(1).optional(),
+});
+
+// Only PROJECT folders can be made; the ASSETS and DELIVERABLES roots come
+// with every project, and subfolders take their parent's type
+export const v1CreateFolderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  parentId: z.string().min(1).optional().nullable(),
+});
+
+// Response shapes, mirroring the v1*Select objects in app/lib/api-v1.ts.
+// Dates are sent as ISO 8601 strings.
+
+const dateTime = z.string().meta({ format: "date-time" });
+
+export const v1PersonSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+});
+
+export const v1UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  role: z.enum(Role),
+  locale: z.enum(Locale),
+  createdAt: dateTime,
+  twoFactorEnabledAt: dateTime.nullable(),
+});
+
+export const v1FolderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(FolderType),
+  parentId: z.string().nullable(),
+  createdAt: dateTime,
+});
+
+export const v1ProjectSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  status: z.enum(ProjectStatus),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  client: v1PersonSchema,
+  staff: z.array(v1PersonSchema),
+});
+
+export const v1ProjectDetailSchema = v1ProjectSchema.extend({
+  folders: z.array(v1FolderSchema),
+});
+
+export const v1AssetSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  folderId: z.string().nullable(),
+  filename: z.string(),
+  contentType: z.string(),
+  sizeBytes: z.number().int(),
+  sha256: z.string().nullable(),
+  type: z.enum(AssetType),
+  createdAt: dateTime,
+  uploadedBy: v1PersonSchema,
+});
+
+export const v1DeliverySchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  folderId: z.string().nullable(),
+  filename: z.string(),
+  contentType: z.string(),
+  sizeBytes: z.number().int(),
+  sha256: z.string().nullable(),
+  version: z.number().int(),
+  reviewStatus: z.enum(DeliveryReviewStatus),
+  reviewNote: z.string().nullable(),
+  reviewedAt: dateTime.nullable(),
+  createdAt: dateTime,
+  uploadedBy: v1PersonSchema,
+});
+
+// Added to single assets and deliveries; the URL works for 30 minutes
+const download = {
+  downloadUrl: z.string(),
+  downloadUrlExpiresAt: dateTime,
+};
+
+export const v1AssetDownloadSchema = v1AssetSchema.extend(download);
+
+export const v1DeliveryDownloadSchema = v1DeliverySchema.extend(download);
+
+export const v1UploadSchema = z.object({
+  uploadId: z.string(),
+  key: z.string(),
+  partSize: z.number().int(),
+  presignedPartUrls: z.array(z.string()),
+  completeUrl: z.string(),
+});
+
+export const v1MeSchema = z.object({
+  user: v1UserSchema,
+  scopes: z.array(z.enum(ApiTokenScope)),
+});
+
+/** A page of a cursor-paginated list */
+export const v1PageSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    nextCursor: z.string().nullable(),
+  });
+
+export const v1ErrorSchema = z.object({
+  error: z.string(),
+  // Validation issues, on 400s only
+  details: z
+    .array(
+      z.object({
+        code: z.string(),
+        path: z.array(z.union([z.string(), z.number()])),
+        message: z.string(),
+      })
+    )
+    .optional(),
+});
@@ -0,0 +1,196 @@
+import { NextResponse } from "next/server";
+import type { ApiTokenScope, Prisma } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import { can, projectPolicySelect } from "@/app/lib/policy";
+import {
+  authenticateApiToken,
+  type ApiTokenCaller,
+} from "@/app/lib/api-tokens";
+import {
+  localeFromAcceptLanguage,
+  localizeIssues,
+  translator,
+  type Translator,
+} from "@/app/lib/i18n";
+import { z } from "zod";
+
+// Shared plumbing for the /api/v1 routes. Unlike the rest of /api they are
+// called by scripts with a personal access token, never with the session
+// cookie, and every response is JSON.
+
+export const API_V1_PAGE_SIZE = 50;
+
+export type ApiV1Caller = ApiTokenCaller & { t: Translator };
+
+export const apiV1Error = (status: number, error: string, details?: unknown) =>
+  NextResponse.json(details === undefined ? { error } : { error, details }, {
+    status,
+    headers: status === 401 ? { "WWW-Authenticate": "Bearer" } : undefined,
+  });
+
+/**
+ * Authenticates the request's bearer token and checks it carries `scope`.
+ * Returns the caller, or the error response to send back as is. Messages
+ * are in the token owner's language.
+ */
+export async function apiV1Caller(
+  req: Request,
+  scope: ApiTokenScope
+): Promise<ApiV1Caller | NextResponse> {
+  const caller = await authenticateApiToken(req);
+  if (!caller) {
+    const t = translator(
+      localeFromAcceptLanguage(req.headers.get("accept-language"))
+    );
+    return apiV1Error(401, t("errors.apiTokenInvalid"));
+  }
+
+  const t = translator(caller.user.locale ?? "en");
+  if (!caller.scopes.includes(scope)) {
+    return apiV1Error(403, t("errors.apiTokenScope", { scope }));
+  }
+  return { ...caller, t };
+}
+
+/** Reads and validates a JSON body, or returns the 400 to send back */
+export async function apiV1Parse<S extends z.ZodType>(
+  req: Request,
+  t: Translator,
+  schema: S
+): Promise<{ data: z.output<S> } | NextResponse> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return apiV1Error(400, t("errors.invalidJson"));
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return apiV1Error(
+      400,
+      t("errors.validationFailed"),
+      localizeIssues(parsed.error.issues, t)
+    );
+  }
+  return { data: parsed.data };
+}
+
+// The local storage driver signs paths rather than full URLs
+export const apiV1Url = (req: Request, url: string) =>
+  new URL(url, req.url).toString();
+
+type ProjectAction =
+  | "project:view"
+  | "folder:view"
+  | "folder:create"
+  | "asset:upload"
+  | "delivery:upload";
+
+/** Loads the project if the caller may perform `action` on it, or returns the 404/403 */
+export async function apiV1Project(
+  caller: ApiV1Caller,
+  id: string,
+  action: ProjectAction
+) {
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: { id: true, title: true, ...projectPolicySelect },
+  });
+  if (!project) return apiV1Error(404, caller.t("errors.projectNotFound"));
+  if (!can(caller.user, action, project)) {
+    return apiV1Error(403, caller.t("errors.forbidden"));
+  }
+  return project;
+}
+
+/** Cursor pagination over `rows` fetched with `take: API_V1_PAGE_SIZE + 1` */
+export function apiV1Page<T extends { id: string }>(rows: T[]) {
+  const page = rows.slice(0, API_V1_PAGE_SIZE);
+  return {
+    data: page,
+    nextCursor:
+      rows.length > API_V1_PAGE_SIZE ? page[page.length - 1].id : null,
+  };
+}
+
+export const apiV1Cursor = (
+  cursor: string | null
+): { cursor?: { id: string }; skip?: number } =>
+  cursor ? { cursor: { id: cursor }, skip: 1 } : {};
+
+// Response shapes. These are part of the public contract: add fields
+// freely, but renaming or removing one needs a new API version. Keep the
+// matching schemas in app/lib/api-v1-schemas.ts in step, since they are
+// what the OpenAPI document publishes.
+
+const personSelect = { id: true, email: true, name: true } as const;
+
+export const v1ProjectSelect = {
+  id: true,
+  title: true,
+  description: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  client: { select: personSelect },
+  staffAssignments: {
+    select: { staff: { select: personSelect } },
+    orderBy: { assignedAt: "asc" },
+  },
+} satisfies Prisma.ProjectSelect;
+
+export const v1FolderSelect = {
+  id: true,
+  name: true,
+  type: true,
+  parentId: true,
+  createdAt: true,
+} satisfies Prisma.FolderSelect;
+
+export const v1AssetSelect = {
+  id: true,
+  projectId: true,
+  folderId: true,
+  filename: true,
+  contentType: true,
+  sizeBytes: true,
+  sha256: true,
+  type: true,
+  createdAt: true,
+  uploadedBy: { select: personSelect },
+} satisfies Prisma.AssetSelect;
+
+export const v1DeliverySelect = {
+  id: true,
+  projectId: true,
+  folderId: true,
+  filename: true,
+  contentType: true,
+  sizeBytes: true,
+  sha256: true,
+  version: true,
+  reviewStatus: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+  uploadedBy: { select: personSelect },
+} satisfies Prisma.DeliverySelect;
+
+export const v1UserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  locale: true,
+  createdAt: true,
+  twoFactorEnabledAt: true,
+} satisfies Prisma.UserSelect;
+
+/** The project shape with its staff list flattened */
+export const v1Project = ({
+  staffAssignments,
+  ...project
+}: Prisma.ProjectGetPayload<{ select: typeof v1ProjectSelect }>) => ({
+  ...project,
+  staff: staffAssignments.map((assignment) => assignment.staff),
+});
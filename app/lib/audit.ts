@@ -0,0 +1,190 @@
+import type { Prisma, Role } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import { clientIp, userAgent } from "@/app/lib/request-info";
+
+export type AuditAction =
+  | "project.create"
+  | "project.update"
+  | "project.submit"
+  | "project.notify_client"
+  | "project.notify_staff"
+  | "folder.create"
+  | "folder.update"
+  | "folder.delete"
+  | "folder.restore"
+  | "folder.purge"
+  | "asset.create"
+  | "asset.move"
+  | "asset.delete"
+  | "asset.restore"
+  | "asset.purge"
+  | "delivery.create"
+  | "delivery.version_upload"
+  | "delivery.move"
+  | "delivery.delete"
+  | "delivery.restore"
+  | "delivery.purge"
+  | "delivery.review"
+  | "comment.create"
+  | "comment.update"
+  | "share_link.create"
+  | "share_link.revoke"
+  | "video.create"
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "user.password_set"
+  | "user.credentials_reset"
+  | "user.two_factor_reset"
+  | "user.unlock"
+  | "security.update"
+  | "account.password_change"
+  | "account.password_reset_request"
+  | "account.password_reset"
+  | "account.two_factor_enable"
+  | "account.two_factor_disable"
+  | "account.recovery_codes_regenerate"
+  | "account.api_token_create"
+  | "account.api_token_revoke"
+  | "job.retry"
+  | "email.resend"
+  | "email_template.update"
+  | "email_template.reset"
+  | "webhook.create"
+  | "webhook.update"
+  | "webhook.delete"
+  | "webhook.test"
+  | "storage.reconcile";
+
+export type AuditTargetType =
+  | "project"
+  | "folder"
+  | "asset"
+  | "delivery"
+  | "comment"
+  | "share_link"
+  | "video"
+  | "user"
+  | "security"
+  | "job"
+  | "email"
+  | "email_template"
+  | "webhook"
+  | "api_token"
+  | "storage";
+
+export type AuditActor = {
+  id: string;
+  email?: string | null;
+  role?: Role;
+} | null;
+
+type AuditSnapshot = Record<string, unknown>;
+
+export type AuditEventInput = {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  projectId?: string | null;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+};
+
+// Dates become ISO strings, undefined fields disappear
+const toJson = (snapshot: AuditSnapshot | null | undefined) =>
+  snapshot
+    ? (JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonObject)
+    : undefined;
+
+/**
+ * Reduces two snapshots of the same record to the fields that changed, so
+ * events store a diff rather than whole rows.
+ */
+export function auditChanges(before: AuditSnapshot, after: AuditSnapshot) {
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Appends an event to the audit log. A failed write is logged rather than
+ * thrown: the action it describes has already happened.
+ */
+export async function recordAuditEvent(
+  req: Request | null,
+  actor: AuditActor,
+  event: AuditEventInput
+) {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+        actorRole: actor?.role ?? null,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId ?? null,
+        projectId: event.projectId ?? null,
+        before: toJson(event.before),
+        after: toJson(event.after),
+        ip: req ? clientIp(req.headers) : null,
+        userAgent: req ? userAgent(req.headers) : null,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  }
+}
+
+export type AuditEventFilters = {
+  actorId?: string;
+  projectId?: string;
+  action?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+};
+
+export const auditFiltersFromSearchParams = (
+  params: URLSearchParams
+): AuditEventFilters => ({
+  actorId: params.get("actorId") || undefined,
+  projectId: params.get("projectId") || undefined,
+  action: params.get("action") || undefined,
+  from: params.get("from") || undefined,
+  to: params.get("to") || undefined,
+});
+
+const parseDay = (value: string | undefined) => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+export function auditEventWhere(
+  filters: AuditEventFilters
+): Prisma.AuditEventWhereInput {
+  const from = parseDay(filters.from);
+  const to = parseDay(filters.to);
+  // "to" covers the whole day
+  const toExclusive = to ? new Date(to.getTime() + 24 * 60 * 60 * 1000) : null;
+
+  return {
+    ...(filters.actorId ? { actorId: filters.actorId } : {}),
+    ...(filters.projectId ? { projectId: filters.projectId } : {}),
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(from || toExclusive
+      ? {
+          createdAt: {
+            ...(from ? { gte: from } : {}),
+            ...(toExclusive ? { lt: toExclusive } : {}),
+          },
+        }
+      : {}),
+  };
+}
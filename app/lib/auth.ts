@@ -6,6 +6,15 @@ import NextAuth, {
 } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
 import { prisma } from "@/app/lib/prisma";
+import { checkSignInSecondFactor } from "@/app/lib/two-factor";
+import { TWO_FACTOR_INVALID } from "@/app/lib/two-factor-errors";
+import {
+  checkLoginAllowed,
+  clearLoginFailures,
+  recordLoginFailure,
+} from "@/app/lib/login-throttle";
+import { clientIp } from "@/app/lib/request-info";
+import type { Locale } from "@/app/lib/i18n";
 import { z } from "zod";
 
 export type SessionUser = {
@@ -13,11 +22,15 @@ export type SessionUser = {
   email: string;
   name?: string | null;
   role: "ADMIN" | "STAFF" | "CLIENT";
+  // Language preference at sign-in; the locale cookie wins once set
+  locale?: Locale;
 };
 
 const credentialsSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
+  // TOTP or recovery code, sent on the second sign-in step
+  otp: z.string().max(32).optional(),
 });
 
 export const authConfig: AuthOptions = {
@@ -29,20 +42,41 @@ export const authConfig: AuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        otp: { label: "Authentication code", type: "text" },
       },
-      authorize: async (raw) => {
+      authorize: async (raw, req) => {
         const parsed = credentialsSchema.safeParse(raw);
         if (!parsed.success) return null;
-        const { email, password } = parsed.data;
+        const { email, password, otp } = parsed.data;
+        const ip = clientIp(req?.headers);
         const user = await prisma.user.findUnique({ where: { email } });
-        if (!user) return null;
+        // Thrown messages reach signIn() as the error code
+        const throttled = await checkLoginAllowed(ip, user);
+        if (throttled) throw new Error(throttled);
+        if (!user) {
+          await recordLoginFailure(ip, null);
+          return null;
+        }
         const ok = await compare(password, user.passwordHash);
-        if (!ok) return null;
+        if (!ok) {
+          await recordLoginFailure(ip, user.id);
+          return null;
+        }
+        const secondFactorError = await checkSignInSecondFactor(
+          user,
+          otp || undefined
+        );
+        if (secondFactorError === TWO_FACTOR_INVALID) {
+          await recordLoginFailure(ip, user.id);
+        }
+        if (secondFactorError) throw new Error(secondFactorError);
+        await clearLoginFailures(user.id);
         const sessionUser: SessionUser = {
           id: user.id,
           email: user.email,
           name: user.name,
           role: user.role,
+          locale: user.locale,
         } as SessionUser;
         return sessionUser as unknown as User;
       },
@@ -52,7 +86,13 @@ export const authConfig: AuthOptions = {
     async jwt({ token, user }: { token: any; user?: any }) {
       if (user) {
         const u = user as unknown as SessionUser;
-        token.user = { id: u.id, email: u.email, name: u.name, role: u.role };
+        token.user = {
+          id: u.id,
+          email: u.email,
+          name: u.name,
+          role: u.role,
+          locale: u.locale,
+        };
       }
       return token;
     },
@@ -0,0 +1,69 @@
+import type { ProjectStatus } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+
+// Statuses a project can hold once its deliveries have been handed over
+const REVIEW_STATUSES: ProjectStatus[] = [
+  "COMPLETED",
+  "CHANGES_REQUESTED",
+  "APPROVED",
+];
+
+/**
+ * Recomputes a handed-over project's status from its deliveries' review
+ * state: any change request wins, APPROVED only when every delivery is
+ * approved, otherwise back to COMPLETED (awaiting client review). Projects
+ * still being worked on are left alone.
+ */
+export async function syncProjectReviewStatus(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      deliveries: {
+        where: { deletedAt: null },
+        select: { reviewStatus: true },
+      },
+    },
+  });
+
+  if (!project || !REVIEW_STATUSES.includes(project.status)) {
+    return project?.status ?? null;
+  }
+
+  const reviews = project.deliveries.map((delivery) => delivery.reviewStatus);
+  let status: ProjectStatus = "COMPLETED";
+  if (reviews.includes("CHANGES_REQUESTED")) {
+    status = "CHANGES_REQUESTED";
+  } else if (
+    reviews.length > 0 &&
+    reviews.every((review) => review === "APPROVED")
+  ) {
+    status = "APPROVED";
+  }
+
+  if (status !== project.status) {
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { status },
+    });
+    await dispatchWebhookEvent("project.status_changed", {
+      project: webhookProject(project),
+      status,
+      previousStatus: project.status,
+    });
+  }
+
+  return status;
+}
+
+/** Resets review fields, e.g. when a new version replaces the reviewed file */
+export const clearedDeliveryReview = {
+  reviewStatus: "PENDING",
+  reviewNote: null,
+  reviewedVersion: null,
+  reviewedAt: null,
+  reviewedById: null,
+} as const;
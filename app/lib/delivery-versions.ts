@@ -0,0 +1,58 @@
+import { prisma } from "@/app/lib/prisma";
+
+type DeliveryFile = {
+  id: string;
+  key: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  version: number;
+};
+
+/**
+ * Resolves the file for a delivery download/stream request. Without a
+ * `version` query value the latest version (stored on the Delivery row) is
+ * returned; otherwise the matching DeliveryVersion, or null when it does not
+ * exist.
+ */
+export async function resolveDeliveryVersion(
+  delivery: DeliveryFile,
+  requestedVersion: string | null
+) {
+  const latest = {
+    key: delivery.key,
+    filename: delivery.filename,
+    contentType: delivery.contentType,
+    sizeBytes: delivery.sizeBytes,
+    version: delivery.version,
+  };
+
+  if (!requestedVersion) return latest;
+
+  const version = Number(requestedVersion);
+  if (!Number.isInteger(version) || version < 1) return null;
+  if (version === delivery.version) return latest;
+
+  return prisma.deliveryVersion.findUnique({
+    where: {
+      deliveryId_version: { deliveryId: delivery.id, version },
+    },
+    select: {
+      key: true,
+      filename: true,
+      contentType: true,
+      sizeBytes: true,
+      version: true,
+    },
+  });
+}
+
+/**
+ * Appends a version label to a filename for downloads of older versions,
+ * e.g. "cut.mp4" -> "cut (v2).mp4".
+ */
+export function versionedFilename(filename: string, version: number) {
+  const dot = filename.lastIndexOf(".");
+  if (dot <= 0) return `${filename} (v${version})`;
+  return `${filename.slice(0, dot)} (v${version})${filename.slice(dot)}`;
+}
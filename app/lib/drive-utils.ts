@@ -83,6 +83,31 @@ export const flattenFolderTree = (
   return result;
 };
 
+export type DriveZipSelection = {
+  folderIds: string[];
+  assetIds: string[];
+  deliveryIds: string[];
+};
+
+/** Streamed ZIP download for a project; an empty selection means everything */
+export const projectZipUrl = (
+  projectId: string,
+  selection?: DriveZipSelection
+): string => {
+  const params = new URLSearchParams();
+  if (selection?.folderIds.length) {
+    params.set("folderIds", selection.folderIds.join(","));
+  }
+  if (selection?.assetIds.length) {
+    params.set("assetIds", selection.assetIds.join(","));
+  }
+  if (selection?.deliveryIds.length) {
+    params.set("deliveryIds", selection.deliveryIds.join(","));
+  }
+  const query = params.toString();
+  return `/api/projects/${projectId}/zip${query ? `?${query}` : ""}`;
+};
+
 export const formatFileSize = (bytes: number): string => {
   if (!bytes && bytes !== 0) return "-";
   const units = ["B", "KB", "MB", "GB", "TB"];
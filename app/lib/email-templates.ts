@@ -0,0 +1,574 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  DEFAULT_LOCALE,
+  translator,
+  type Locale,
+  type MessageKey,
+  type Translator,
+} from "@/app/lib/i18n";
+
+/**
+ * Admin-editable email templates. Each template has a fixed, typed set of
+ * variables; the subject and body use {{variable}} placeholders and
+ * {{#variable}}...{{/variable}} sections that only render when the value is
+ * set. Every language has its own version, and templates without a saved
+ * override use the built-in defaults below.
+ */
+
+type VariableSpec = {
+  label: MessageKey;
+  sample: string;
+  optional?: boolean;
+  // Line breaks in the value become <br/>
+  multiline?: boolean;
+};
+
+/** Filled in for every template from the branding settings */
+export type CommonEmailVariables = {
+  companyName: string;
+  companyWebsite: string;
+  supportEmail: string;
+  supportPhone: string;
+};
+
+export type EmailTemplateVariables = {
+  user_credentials: {
+    greeting: string;
+    recipientName?: string | null;
+    role: string;
+    loginEmail: string;
+    password: string;
+    loginUrl: string;
+  };
+  project_completion: {
+    greeting: string;
+    clientName?: string | null;
+    projectTitle: string;
+    projectUrl: string;
+    loginEmail?: string | null;
+    loginPassword?: string | null;
+  };
+  project_assignment: {
+    greeting: string;
+    staffName?: string | null;
+    projectTitle: string;
+    projectUrl: string;
+    client?: string | null;
+    assignedBy?: string | null;
+    notes?: string | null;
+  };
+};
+
+export type EmailTemplateKey = keyof EmailTemplateVariables;
+
+export type EmailTemplateSource = { subject: string; html: string };
+
+type EmailTemplateDefinition<K extends EmailTemplateKey> = {
+  label: MessageKey;
+  description: MessageKey;
+  variables: { [V in keyof EmailTemplateVariables[K]]-?: VariableSpec };
+  defaults: Record<Locale, EmailTemplateSource>;
+};
+
+const COMMON_VARIABLES: { [V in keyof CommonEmailVariables]: VariableSpec } = {
+  companyName: {
+    label: "emailTemplates.variable.companyName",
+    sample: "Alfatonics",
+  },
+  companyWebsite: {
+    label: "emailTemplates.variable.companyWebsite",
+    sample: "https://www.alfatonics.com",
+  },
+  supportEmail: {
+    label: "emailTemplates.variable.supportEmail",
+    sample: "support@alfatonics.com",
+  },
+  supportPhone: {
+    label: "emailTemplates.variable.supportPhone",
+    sample: "+255 656 586 676",
+  },
+};
+
+// The sample is just the name; sampleEmailVariables() adds the greeting word
+const greeting: VariableSpec = {
+  label: "emailTemplates.variable.greeting",
+  sample: "Jane",
+};
+
+const infoBox =
+  'style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;"';
+const link = 'style="color:#e98923;text-decoration:none;"';
+
+export const EMAIL_TEMPLATES: {
+  [K in EmailTemplateKey]: EmailTemplateDefinition<K>;
+} = {
+  user_credentials: {
+    label: "emailTemplates.user_credentials.label",
+    description: "emailTemplates.user_credentials.description",
+    variables: {
+      greeting,
+      recipientName: {
+        label: "emailTemplates.variable.recipientName",
+        sample: "Jane",
+        optional: true,
+      },
+      role: { label: "emailTemplates.variable.role", sample: "client" },
+      loginEmail: {
+        label: "emailTemplates.variable.loginEmail",
+        sample: "jane@example.com",
+      },
+      password: {
+        label: "emailTemplates.variable.password",
+        sample: "Xy7-fake-Pw",
+      },
+      loginUrl: {
+        label: "emailTemplates.variable.loginUrl",
+        sample: "https://delivery.example.com/auth/signin",
+      },
+    },
+    defaults: {
+      en: {
+        subject: "Your {{companyName}} Client Delivery account is ready",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  You now have a {{role}} account on the {{companyName}} client delivery portal.
+  Use the credentials below to access your dashboard and keep your projects moving.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Account details</p>
+  <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
+    Email: <strong>{{loginEmail}}</strong><br/>
+    Temporary password: <strong>{{password}}</strong>
+  </p>
+</div>
+<p style="margin:0 0 16px;">Next steps:</p>
+<ol style="margin:0 0 16px 20px;padding:0;">
+  <li style="margin:0 0 8px;">Visit <a href="{{loginUrl}}" ${link}>{{loginUrl}}</a></li>
+  <li style="margin:0 0 8px;">Sign in with the credentials above</li>
+  <li style="margin:0 0 8px;">Update your password from the profile menu after your first login</li>
+</ol>
+<p style="margin:0 0 16px;">
+  For assistance, reply to this email or call us at <strong>{{supportPhone}}</strong>.
+</p>
+<p style="margin:0;">We’re excited to have you on board,<br/>The {{companyName}} Team</p>`,
+      },
+      sw: {
+        subject: "Akaunti yako ya {{companyName}} Client Delivery iko tayari",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  Sasa una akaunti ya {{role}} kwenye portal ya {{companyName}} client delivery.
+  Tumia taarifa zilizo hapa chini kuingia kwenye dashibodi yako na kuendeleza miradi yako.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Taarifa za akaunti</p>
+  <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
+    Email: <strong>{{loginEmail}}</strong><br/>
+    Nenosiri la muda: <strong>{{password}}</strong>
+  </p>
+</div>
+<p style="margin:0 0 16px;">Hatua zinazofuata:</p>
+<ol style="margin:0 0 16px 20px;padding:0;">
+  <li style="margin:0 0 8px;">Tembelea <a href="{{loginUrl}}" ${link}>{{loginUrl}}</a></li>
+  <li style="margin:0 0 8px;">Ingia kwa kutumia taarifa zilizo hapo juu</li>
+  <li style="margin:0 0 8px;">Badilisha nenosiri lako kupitia menyu ya wasifu baada ya kuingia mara ya kwanza</li>
+</ol>
+<p style="margin:0 0 16px;">
+  Kwa msaada, jibu email hii au tupigie kwa <strong>{{supportPhone}}</strong>.
+</p>
+<p style="margin:0;">Tunafurahi kuwa nawe,<br/>Timu ya {{companyName}}</p>`,
+      },
+    },
+  },
+  project_completion: {
+    label: "emailTemplates.project_completion.label",
+    description: "emailTemplates.project_completion.description",
+    variables: {
+      greeting,
+      clientName: {
+        label: "emailTemplates.variable.clientName",
+        sample: "Jane",
+        optional: true,
+      },
+      projectTitle: {
+        label: "emailTemplates.variable.projectTitle",
+        sample: "Brand Launch Video",
+      },
+      projectUrl: {
+        label: "emailTemplates.variable.projectUrl",
+        sample: "https://delivery.example.com/client/projects/abc123",
+      },
+      loginEmail: {
+        label: "emailTemplates.variable.newLoginEmail",
+        sample: "jane@example.com",
+        optional: true,
+      },
+      loginPassword: {
+        label: "emailTemplates.variable.newPassword",
+        sample: "Xy7-fake-Pw",
+        optional: true,
+      },
+    },
+    defaults: {
+      en: {
+        subject: "Your {{projectTitle}} deliverables are ready",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  Great news! The final files for <strong>{{projectTitle}}</strong> are now ready.
+  You can securely download your deliverables from the {{companyName}} client delivery portal.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Download instructions</p>
+  <ol style="margin:0;padding-left:20px;">
+    <li style="margin:0 0 8px;">Sign in at <a href="{{projectUrl}}" ${link}>{{projectUrl}}</a></li>
+    <li style="margin:0 0 8px;">Open the project named <strong>{{projectTitle}}</strong></li>
+    <li style="margin:0 0 8px;">Locate the Deliverables section and download your files</li>
+  </ol>
+</div>
+{{#loginPassword}}
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Your login credentials</p>
+  <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
+    Email: <strong>{{loginEmail}}</strong><br/>
+    Password: <strong>{{loginPassword}}</strong>
+  </p>
+  <p style="margin:12px 0 0;font-size:13px;color:#3c5495;">
+    For security, we recommend changing the password after your next login.
+  </p>
+</div>
+{{/loginPassword}}
+<p style="margin:0 0 16px;">
+  If you have any questions or need edits, reach out at <strong>{{supportPhone}}</strong> or visit <a href="{{companyWebsite}}" ${link}>{{companyWebsite}}</a>.
+</p>
+<p style="margin:0;">Thank you for trusting {{companyName}},<br/>We appreciate your business.</p>`,
+      },
+      sw: {
+        subject: "Kazi za {{projectTitle}} ziko tayari",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  Habari njema! Mafaili ya mwisho ya <strong>{{projectTitle}}</strong> sasa yako tayari.
+  Unaweza kupakua kazi zako kwa usalama kutoka kwenye portal ya {{companyName}} client delivery.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Jinsi ya kupakua</p>
+  <ol style="margin:0;padding-left:20px;">
+    <li style="margin:0 0 8px;">Ingia kupitia <a href="{{projectUrl}}" ${link}>{{projectUrl}}</a></li>
+    <li style="margin:0 0 8px;">Fungua mradi unaoitwa <strong>{{projectTitle}}</strong></li>
+    <li style="margin:0 0 8px;">Nenda kwenye sehemu ya Deliverables na upakue mafaili yako</li>
+  </ol>
+</div>
+{{#loginPassword}}
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Taarifa zako za kuingia</p>
+  <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
+    Email: <strong>{{loginEmail}}</strong><br/>
+    Nenosiri: <strong>{{loginPassword}}</strong>
+  </p>
+  <p style="margin:12px 0 0;font-size:13px;color:#3c5495;">
+    Kwa usalama, tunapendekeza ubadilishe nenosiri baada ya kuingia tena.
+  </p>
+</div>
+{{/loginPassword}}
+<p style="margin:0 0 16px;">
+  Kama una maswali au unahitaji marekebisho, wasiliana nasi kwa <strong>{{supportPhone}}</strong> au tembelea <a href="{{companyWebsite}}" ${link}>{{companyWebsite}}</a>.
+</p>
+<p style="margin:0;">Asante kwa kuiamini {{companyName}},<br/>Tunathamini biashara yako.</p>`,
+      },
+    },
+  },
+  project_assignment: {
+    label: "emailTemplates.project_assignment.label",
+    description: "emailTemplates.project_assignment.description",
+    variables: {
+      greeting: { ...greeting, sample: "Sam" },
+      staffName: {
+        label: "emailTemplates.variable.staffName",
+        sample: "Sam",
+        optional: true,
+      },
+      projectTitle: {
+        label: "emailTemplates.variable.projectTitle",
+        sample: "Brand Launch Video",
+      },
+      projectUrl: {
+        label: "emailTemplates.variable.projectUrl",
+        sample: "https://delivery.example.com/staff/projects/abc123",
+      },
+      client: {
+        label: "emailTemplates.variable.client",
+        sample: "Jane · jane@example.com",
+        optional: true,
+      },
+      assignedBy: {
+        label: "emailTemplates.variable.assignedBy",
+        sample: "Admin",
+        optional: true,
+      },
+      notes: {
+        label: "emailTemplates.variable.notes",
+        sample: "Please use the updated logo.\nDeadline is Friday.",
+        optional: true,
+        multiline: true,
+      },
+    },
+    defaults: {
+      en: {
+        subject: "{{projectTitle}}: New assignment for you",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  You’ve been assigned to <strong>{{projectTitle}}</strong> in the {{companyName}} client delivery portal.
+  Please review the brief and begin work at your earliest convenience.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Project details</p>
+  <ul style="margin:0;padding-left:20px;">
+    <li style="margin:0 0 8px;">Project: <strong>{{projectTitle}}</strong></li>
+    {{#client}}<li style="margin:0 0 8px;">Client: <strong>{{client}}</strong></li>{{/client}}
+    {{#assignedBy}}<li style="margin:0 0 8px;">Assigned by: <strong>{{assignedBy}}</strong></li>{{/assignedBy}}
+    <li style="margin:0 0 8px;">Portal link: <a href="{{projectUrl}}" ${link}>{{projectUrl}}</a></li>
+  </ul>
+</div>
+{{#notes}}
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Additional context</p>
+  <p style="margin:0;">{{notes}}</p>
+</div>
+{{/notes}}
+<p style="margin:0 0 16px;">
+  If you have any questions or need more context, please reach out to the admin team or reply to this email.
+</p>
+<p style="margin:0;">Thank you,<br/>The {{companyName}} Team</p>`,
+      },
+      sw: {
+        subject: "{{projectTitle}}: Kazi mpya kwako",
+        html: `<p style="margin:0 0 16px;">{{greeting}},</p>
+<p style="margin:0 0 16px;">
+  Umepangiwa kufanya kazi kwenye <strong>{{projectTitle}}</strong> katika portal ya {{companyName}} client delivery.
+  Tafadhali pitia maelezo ya kazi na uanze mapema iwezekanavyo.
+</p>
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Taarifa za mradi</p>
+  <ul style="margin:0;padding-left:20px;">
+    <li style="margin:0 0 8px;">Mradi: <strong>{{projectTitle}}</strong></li>
+    {{#client}}<li style="margin:0 0 8px;">Mteja: <strong>{{client}}</strong></li>{{/client}}
+    {{#assignedBy}}<li style="margin:0 0 8px;">Amekupangia: <strong>{{assignedBy}}</strong></li>{{/assignedBy}}
+    <li style="margin:0 0 8px;">Kiungo cha portal: <a href="{{projectUrl}}" ${link}>{{projectUrl}}</a></li>
+  </ul>
+</div>
+{{#notes}}
+<div ${infoBox}>
+  <p style="margin:0 0 12px;font-weight:600;">Maelezo ya ziada</p>
+  <p style="margin:0;">{{notes}}</p>
+</div>
+{{/notes}}
+<p style="margin:0 0 16px;">
+  Kama una maswali au unahitaji maelezo zaidi, wasiliana na timu ya admin au jibu email hii.
+</p>
+<p style="margin:0;">Asante,<br/>Timu ya {{companyName}}</p>`,
+      },
+    },
+  },
+};
+
+export const isEmailTemplateKey = (key: string): key is EmailTemplateKey =>
+  key in EMAIL_TEMPLATES;
+
+/** Every variable a template may use, its own plus the common ones */
+export function emailTemplateVariables(
+  key: EmailTemplateKey
+): Record<string, VariableSpec> {
+  return {
+    ...(EMAIL_TEMPLATES[key].variables as Record<string, VariableSpec>),
+    ...COMMON_VARIABLES,
+  };
+}
+
+/** Sample values for previews, with the greeting in the given language */
+export function sampleEmailVariables<K extends EmailTemplateKey>(
+  key: K,
+  locale: Locale
+) {
+  const samples: Record<string, string> = Object.fromEntries(
+    Object.entries(
+      EMAIL_TEMPLATES[key].variables as Record<string, VariableSpec>
+    ).map(([name, spec]) => [name, spec.sample])
+  );
+  if (samples.greeting) {
+    samples.greeting = translator(locale)("email.greetingName", {
+      name: samples.greeting,
+    });
+  }
+  return samples as EmailTemplateVariables[K];
+}
+
+const TAG = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Problems that would stop a template from rendering as intended: unknown
+ * variables and unbalanced sections. An empty list means it is safe to save.
+ */
+export function emailTemplateErrors(
+  key: EmailTemplateKey,
+  source: string,
+  t: Translator = translator(DEFAULT_LOCALE)
+) {
+  const allowed = emailTemplateVariables(key);
+  const errors: string[] = [];
+  const open: string[] = [];
+
+  for (const [, kind, name] of source.matchAll(TAG)) {
+    if (!(name in allowed)) {
+      errors.push(
+        t("emailTemplates.error.unknownVariable", {
+          tag: `{{${kind}${name}}}`,
+        })
+      );
+      continue;
+    }
+    if (kind === "#") open.push(name);
+    if (kind === "/") {
+      const expected = open.pop();
+      if (expected !== name) {
+        errors.push(
+          expected
+            ? t("emailTemplates.error.wrongClose", {
+                close: `{{/${name}}}`,
+                open: `{{#${expected}}}`,
+              })
+            : t("emailTemplates.error.unmatchedClose", {
+                close: `{{/${name}}}`,
+                open: `{{#${name}}}`,
+              })
+        );
+      }
+    }
+  }
+  for (const name of open) {
+    errors.push(t("emailTemplates.error.unclosed", { open: `{{#${name}}}` }));
+  }
+  return errors;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+type TemplateValues = Record<string, string | null | undefined>;
+
+function fillTemplate(
+  source: string,
+  values: TemplateValues,
+  format: (name: string, value: string) => string
+) {
+  const SECTION = /\{\{\s*#\s*(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g;
+  let output = source;
+  let previous;
+  // Repeat so sections nested in other sections are resolved too
+  do {
+    previous = output;
+    output = output.replace(SECTION, (_, name: string, inner: string) =>
+      values[name] ? inner : ""
+    );
+  } while (output !== previous);
+
+  return output.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    format(name, values[name] ?? "")
+  );
+}
+
+/**
+ * Renders a template's subject (plain text) and body (HTML, values escaped)
+ * and derives the plain-text alternative from the body.
+ */
+export function renderEmailTemplate<K extends EmailTemplateKey>(
+  key: K,
+  source: EmailTemplateSource,
+  values: EmailTemplateVariables[K] & CommonEmailVariables
+) {
+  const specs = emailTemplateVariables(key);
+  const flat = values as unknown as TemplateValues;
+  const html = fillTemplate(source.html, flat, (name, value) => {
+    const escaped = escapeHtml(value);
+    return specs[name]?.multiline
+      ? escaped.replace(/\r?\n/g, "<br/>")
+      : escaped;
+  });
+  return {
+    subject: fillTemplate(source.subject, flat, (_, value) => value)
+      .replace(/\s+/g, " ")
+      .trim(),
+    html,
+    text: htmlToText(html),
+  };
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  nbsp: " ",
+  middot: "·",
+};
+
+/** Plain-text version of an email body for clients that don't show HTML */
+export function htmlToText(html: string) {
+  return (
+    html
+      // HTML collapses whitespace, so line breaks come from tags only
+      .replace(/\s+/g, " ")
+      .replace(/<(style|script)[^>]*>.*?<\/\1>/gi, "")
+      .replace(
+        /<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi,
+        (_, href: string, label: string) => {
+          const text = label.replace(/<[^>]+>/g, "").trim();
+          return !text || text === href ? href : `${text} (${href})`;
+        }
+      )
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|div|ul|ol|h[1-6]|table|tr)>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&(#\d+|[a-z]+);/gi, (entity, code: string) =>
+        code.startsWith("#")
+          ? String.fromCharCode(Number(code.slice(1)))
+          : (ENTITIES[code.toLowerCase()] ?? entity)
+      )
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/**
+ * The saved override for a template in one language, or its built-in default
+ * when there is none or the override no longer fits the template's variables.
+ */
+export async function loadEmailTemplate(
+  key: EmailTemplateKey,
+  locale: Locale
+): Promise<EmailTemplateSource> {
+  try {
+    const stored = await prisma.emailTemplate.findUnique({
+      where: { key_locale: { key, locale } },
+    });
+    if (stored) {
+      const errors = emailTemplateErrors(key, stored.subject + stored.html);
+      if (errors.length === 0) {
+        return { subject: stored.subject, html: stored.html };
+      }
+      console.error(
+        `Email template ${key} (${locale}) is invalid, using the default:`,
+        errors
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to load email template ${key} (${locale}):`, error);
+  }
+  return EMAIL_TEMPLATES[key].defaults[locale];
+}
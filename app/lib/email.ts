@@ -1,4 +1,26 @@
 import nodemailer from "nodemailer";
+import { EmailStatus, type Job } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import { enqueueJob } from "@/app/lib/jobs";
+import {
+  escapeHtml,
+  loadEmailTemplate,
+  renderEmailTemplate,
+  type EmailTemplateKey,
+  type EmailTemplateSource,
+  type EmailTemplateVariables,
+} from "@/app/lib/email-templates";
+import {
+  DEFAULT_LOCALE,
+  translator,
+  type Locale,
+  type Translator,
+} from "@/app/lib/i18n";
+import {
+  notificationMessage,
+  type NotificationData,
+  type NotificationType,
+} from "@/app/lib/notification-types";
 
 type MailerConfig = {
   host: string;
@@ -9,15 +31,31 @@ type MailerConfig = {
   from: string;
 };
 
-type SendEmailOptions = {
+export type SendEmailOptions = {
   to: string | string[];
   subject: string;
   html: string;
   text?: string;
   cc?: string | string[];
+  // Which kind of email this is, shown in the outbox
+  template: string;
+  projectId?: string | null;
+  // The recipient's account, when they have one
+  userId?: string | null;
+  // Reset links, passwords and the like. They are masked in the outbox copy
+  // and only reach the worker through the job, which forgets them once the
+  // email is sent or given up on.
+  secrets?: string[];
 };
 
-const COMPANY_NAME = "Alfatonics";
+// What goes out, as rendered before any secrets are masked
+export type EmailContent = {
+  subject: string;
+  html: string;
+  text: string | null;
+};
+
+const COMPANY_NAME = process.env.COMPANY_NAME || "Alfatonics";
 const COMPANY_WEBSITE =
   process.env.COMPANY_WEBSITE || "https://www.alfatonics.com";
 const SUPPORT_EMAIL = process.env.SUPPORT_EMAIL || "support@alfatonics.com";
@@ -30,6 +68,9 @@ const APP_BASE_URL =
   COMPANY_WEBSITE;
 
 const LOGIN_PATH = "/auth/signin";
+const RESET_PASSWORD_PATH = "/auth/reset-password";
+const FORGOT_PASSWORD_PATH = "/auth/forgot-password";
+const PROFILE_PATH = "/profile";
 
 let cachedConfig: MailerConfig | null = null;
 let cachedTransporter: nodemailer.Transporter | null = null;
@@ -88,28 +129,220 @@ function getTransporter(): nodemailer.Transporter {
   return cachedTransporter;
 }
 
-export async function sendEmail(options: SendEmailOptions) {
-  const transporter = getTransporter();
-  const config = resolveMailerConfig();
+const REDACTED = "[redacted]";
 
-  await transporter.sendMail({
-    from: config.from,
-    to: options.to,
-    cc: options.cc,
+function redact(value: string, secrets: string[]) {
+  return secrets
+    .flatMap((secret) => [secret, escapeHtml(secret)])
+    .reduce((masked, secret) => masked.split(secret).join(REDACTED), value);
+}
+
+const toList = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+/**
+ * Stores the email in the outbox and queues it for the worker, which
+ * retries it if SMTP fails.
+ */
+export async function sendEmail(
+  options: SendEmailOptions & { resentFromId?: string }
+) {
+  const secrets = (options.secrets ?? []).filter(Boolean);
+  const redacted = secrets.length > 0;
+  const content: EmailContent = {
     subject: options.subject,
     html: options.html,
-    text: options.text,
+    text: options.text ?? null,
+  };
+  const message = await prisma.emailMessage.create({
+    data: {
+      template: options.template,
+      to: toList(options.to),
+      cc: toList(options.cc),
+      subject: redact(content.subject, secrets),
+      html: redact(content.html, secrets),
+      text: content.text && redact(content.text, secrets),
+      redacted,
+      projectId: options.projectId ?? null,
+      userId: options.userId ?? null,
+      resentFromId: options.resentFromId ?? null,
+      events: {
+        create: {
+          status: EmailStatus.QUEUED,
+          detail: options.resentFromId ? "Resent" : null,
+        },
+      },
+    },
+  });
+  await enqueueJob("email.send", {
+    messageId: message.id,
+    content: redacted ? content : undefined,
+  });
+  return message;
+}
+
+/**
+ * Queues a fresh copy of an outbox email, linked back to the original.
+ * Emails whose secrets were masked can't be resent, since the copy no longer
+ * has them; send a new reset link or new credentials instead.
+ */
+export async function resendEmail(messageId: string) {
+  const original = await prisma.emailMessage.findUnique({
+    where: { id: messageId },
+  });
+  if (!original) return null;
+  if (original.redacted) return "redacted" as const;
+  return sendEmail({
+    template: original.template,
+    to: original.to,
+    cc: original.cc,
+    subject: original.subject,
+    html: original.html,
+    text: original.text ?? undefined,
+    projectId: original.projectId,
+    userId: original.userId,
+    resentFromId: original.id,
   });
 }
 
-function formatGreeting(name?: string | null) {
+/**
+ * Hands an outbox email to the SMTP server and records the outcome. Only the
+ * job worker calls this; a thrown error makes the job retry, and the email is
+ * marked FAILED once the job has no attempts left.
+ */
+export async function deliverEmail(
+  messageId: string,
+  job: Pick<Job, "id" | "attempts" | "maxAttempts">,
+  content?: EmailContent
+) {
+  const message = await prisma.emailMessage.findUnique({
+    where: { id: messageId },
+  });
+  if (!message) return;
+
+  // The job only keeps the unmasked content until it stops retrying
+  const forgetContent = () =>
+    content &&
+    prisma.job.update({
+      where: { id: job.id },
+      data: { payload: { messageId } },
+    });
+
+  try {
+    if (message.redacted && !content) {
+      throw new Error("The email's masked content is no longer available");
+    }
+    const transporter = getTransporter();
+    const config = resolveMailerConfig();
+    const info = await transporter.sendMail({
+      from: config.from,
+      to: message.to,
+      cc: message.cc.length > 0 ? message.cc : undefined,
+      subject: content?.subject ?? message.subject,
+      html: content?.html ?? message.html,
+      text: (content ? content.text : message.text) ?? undefined,
+    });
+
+    await prisma.emailMessage.update({
+      where: { id: message.id },
+      data: {
+        status: EmailStatus.SENT,
+        attempts: { increment: 1 },
+        smtpResponse: info.response ?? null,
+        smtpMessageId: info.messageId ?? null,
+        error: null,
+        sentAt: new Date(),
+        events: {
+          create: { status: EmailStatus.SENT, detail: info.response ?? null },
+        },
+      },
+    });
+    await forgetContent();
+  } catch (error) {
+    const status =
+      job.attempts >= job.maxAttempts
+        ? EmailStatus.FAILED
+        : EmailStatus.RETRYING;
+    const detail = error instanceof Error ? error.message : String(error);
+    const smtpResponse =
+      error && typeof error === "object" && "response" in error
+        ? String(error.response)
+        : null;
+
+    await prisma.emailMessage.update({
+      where: { id: message.id },
+      data: {
+        status,
+        attempts: { increment: 1 },
+        error: detail,
+        smtpResponse,
+        events: { create: { status, detail } },
+      },
+    });
+    if (status === EmailStatus.FAILED) await forgetContent();
+    throw error;
+  }
+}
+
+/** Emails go out in the recipient's language, or the default without an account */
+async function recipientLocale(userId?: string | null): Promise<Locale> {
+  if (!userId) return DEFAULT_LOCALE;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { locale: true },
+  });
+  return user?.locale ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Renders an editable template in the given language (the saved version
+ * unless `source` is given, e.g. for a preview) inside the standard email
+ * shell.
+ */
+export async function renderTemplatedEmail<K extends EmailTemplateKey>(
+  key: K,
+  variables: EmailTemplateVariables[K],
+  locale: Locale,
+  source?: EmailTemplateSource
+) {
+  const rendered = renderEmailTemplate(
+    key,
+    source ?? (await loadEmailTemplate(key, locale)),
+    {
+      ...variables,
+      companyName: COMPANY_NAME,
+      companyWebsite: COMPANY_WEBSITE,
+      supportEmail: SUPPORT_EMAIL,
+      supportPhone: SUPPORT_PHONE,
+    }
+  );
+  return {
+    subject: rendered.subject,
+    html: buildEmailShell(translator(locale), rendered.html),
+    text: rendered.text,
+  };
+}
+
+function formatGreeting(t: Translator, name?: string | null) {
   if (!name || name.trim().length === 0) {
-    return "Hello";
+    return t("email.greeting");
   }
-  return `Hello ${name.trim()}`;
+  return t("email.greetingName", { name: name.trim() });
+}
+
+function formatProjectLabel(
+  t: Translator,
+  projectId: string,
+  title?: string | null
+) {
+  return title && title.trim().length > 0
+    ? title.trim()
+    : t("email.projectFallback", { id: projectId.slice(0, 8).toUpperCase() });
 }
 
-function buildEmailShell(content: string, footer?: string) {
+function buildEmailShell(t: Translator, content: string, footer?: string) {
   const sanitizedPhone = SUPPORT_PHONE.replace(/[^\d+]/g, "");
 
   const defaultFooter = `
@@ -131,8 +364,8 @@ function buildEmailShell(content: string, footer?: string) {
           <table role="presentation" cellpadding="0" cellspacing="0" width="600" style="max-width:600px;background-color:#ffffff;border-radius:12px;box-shadow:0 10px 25px rgba(15,23,42,0.08);overflow:hidden;">
             <tr>
               <td style="background:linear-gradient(135deg,#3c5495 0%,#e98923 100%);padding:28px 36px;color:#ffffff;">
-                <h1 style="margin:0;font-size:26px;font-weight:600;">${COMPANY_NAME} Client Delivery</h1>
-                <p style="margin:8px 0 0;font-size:15px;opacity:0.9;">Professional content delivery platform</p>
+                <h1 style="margin:0;font-size:26px;font-weight:600;">${t("email.title", { company: COMPANY_NAME })}</h1>
+                <p style="margin:8px 0 0;font-size:15px;opacity:0.9;">${t("email.tagline")}</p>
               </td>
             </tr>
             <tr>
@@ -158,144 +391,202 @@ export async function sendUserCredentialsEmail(options: {
   role: "ADMIN" | "STAFF" | "CLIENT";
   email: string;
   password: string;
+  userId?: string | null;
 }) {
+  const locale = await recipientLocale(options.userId);
+  const t = translator(locale);
   const loginUrl = new URL(LOGIN_PATH, APP_BASE_URL).toString();
   const roleLabel =
     options.role === "STAFF"
-      ? "Team Member"
+      ? t("email.role.staff")
       : options.role === "CLIENT"
-      ? "Client"
-      : "Administrator";
+      ? t("email.role.client")
+      : t("email.role.admin");
+
+  const email = await renderTemplatedEmail(
+    "user_credentials",
+    {
+      greeting: formatGreeting(t, options.name),
+      recipientName: options.name,
+      role: roleLabel,
+      loginEmail: options.email,
+      password: options.password,
+      loginUrl,
+    },
+    locale
+  );
+
+  await sendEmail({
+    to: options.to,
+    ...email,
+    template: "user_credentials",
+    userId: options.userId,
+    secrets: [options.password],
+  });
+}
+
+export async function sendPasswordResetEmail(options: {
+  to: string;
+  name?: string | null;
+  token: string;
+  expiresInMinutes: number;
+  userId?: string | null;
+}) {
+  const t = translator(await recipientLocale(options.userId));
+  const resetUrl = new URL(RESET_PASSWORD_PATH, APP_BASE_URL);
+  resetUrl.searchParams.set("token", options.token);
+  const link = resetUrl.toString();
+  const company = { company: COMPANY_NAME };
+  const minutes = { minutes: options.expiresInMinutes };
 
   const htmlContent = `
-    <p style="margin:0 0 16px;">${formatGreeting(options.name)},</p>
+    <p style="margin:0 0 16px;">${formatGreeting(t, options.name)},</p>
+    <p style="margin:0 0 16px;">
+      ${t("email.passwordReset.intro", company)}
+      ${t("email.passwordReset.action")}
+    </p>
+    <p style="margin:24px 0;">
+      <a href="${link}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:#3c5495;color:#ffffff;text-decoration:none;font-weight:600;">${t("email.resetButton")}</a>
+    </p>
     <p style="margin:0 0 16px;">
-      You now have a ${roleLabel.toLowerCase()} account on the Alfatonics client delivery portal.
-      Use the credentials below to access your dashboard and keep your projects moving.
+      ${t("email.passwordReset.expiry", minutes)}
+      ${t("email.passwordReset.copyLink")}<br/>
+      <a href="${link}" style="color:#e98923;text-decoration:none;word-break:break-all;">${link}</a>
     </p>
-    <div style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;">
-      <p style="margin:0 0 12px;font-weight:600;">Account details</p>
-      <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
-        Email: <strong>${options.email}</strong><br/>
-        Temporary password: <strong>${options.password}</strong>
-      </p>
-    </div>
-    <p style="margin:0 0 16px;">Next steps:</p>
-    <ol style="margin:0 0 16px 20px;padding:0;">
-      <li style="margin:0 0 8px;">Visit <a href="${loginUrl}" style="color:#e98923;text-decoration:none;">${loginUrl}</a></li>
-      <li style="margin:0 0 8px;">Sign in with the credentials above</li>
-      <li style="margin:0 0 8px;">Update your password from the profile menu after your first login</li>
-    </ol>
     <p style="margin:0 0 16px;">
-      For assistance, reply to this email or call us at <strong>${SUPPORT_PHONE}</strong>.
+      ${t("email.passwordReset.ignore")}
     </p>
-    <p style="margin:0;">We’re excited to have you on board,<br/>The ${COMPANY_NAME} Team</p>
+    <p style="margin:0;">${t("email.signoff", company)}</p>
   `;
 
-  const textContent = `${formatGreeting(options.name)},
+  const textContent = `${formatGreeting(t, options.name)},
 
-You now have a ${roleLabel.toLowerCase()} account on the Alfatonics client delivery portal.
+${t("email.passwordReset.intro", company)}
 
-Account details:
-- Email: ${options.email}
-- Temporary password: ${options.password}
+${t("email.passwordReset.textLink", minutes)}
+${link}
 
-Next steps:
-1. Visit ${loginUrl}
-2. Sign in with the credentials above
-3. Update your password from the profile menu after your first login
+${t("email.passwordReset.ignore")}
 
-Need help? Call ${SUPPORT_PHONE} or reply to this email.
-
-The ${COMPANY_NAME} Team`;
+${t("email.signoff", company)}`;
 
   await sendEmail({
     to: options.to,
-    subject: "Your Alfatonics Client Delivery account is ready",
-    html: buildEmailShell(htmlContent),
+    subject: t("email.passwordReset.subject", company),
+    html: buildEmailShell(t, htmlContent),
     text: textContent,
+    template: "password_reset",
+    userId: options.userId,
+    secrets: [options.token],
   });
 }
 
-export async function sendProjectCompletionEmail(options: {
+export async function sendAccountLockedEmail(options: {
   to: string;
-  cc?: string | string[] | null;
   name?: string | null;
-  projectTitle?: string | null;
-  projectId: string;
-  loginEmail?: string;
-  loginPassword?: string;
+  lockedMinutes: number;
+  failedAttempts: number;
+  userId?: string | null;
 }) {
-  const projectLabel =
-    options.projectTitle && options.projectTitle.trim().length > 0
-      ? options.projectTitle.trim()
-      : `Project ${options.projectId.slice(0, 8).toUpperCase()}`;
-
-  const projectUrl = new URL(
-    `/client/projects/${options.projectId}`,
-    APP_BASE_URL
-  ).toString();
+  const t = translator(await recipientLocale(options.userId));
+  const resetLink = new URL(FORGOT_PASSWORD_PATH, APP_BASE_URL).toString();
+  const company = { company: COMPANY_NAME };
+  const intro = t("email.accountLocked.intro", {
+    ...company,
+    attempts: options.failedAttempts,
+  });
+  const retry = t("email.accountLocked.retry", {
+    minutes: options.lockedMinutes,
+  });
 
   const htmlContent = `
-    <p style="margin:0 0 16px;">${formatGreeting(options.name)},</p>
+    <p style="margin:0 0 16px;">${formatGreeting(t, options.name)},</p>
     <p style="margin:0 0 16px;">
-      Great news! The final files for <strong>${projectLabel}</strong> are now ready.
-      You can securely download your deliverables from the Alfatonics client delivery portal.
+      ${intro}
+      ${retry}
+    </p>
+    <p style="margin:0 0 16px;">
+      ${t("email.accountLocked.forgot")}
+    </p>
+    <p style="margin:24px 0;">
+      <a href="${resetLink}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:#3c5495;color:#ffffff;text-decoration:none;font-weight:600;">${t("email.resetButton")}</a>
     </p>
-    <div style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;">
-      <p style="margin:0 0 12px;font-weight:600;">Download instructions</p>
-      <ol style="margin:0;padding-left:20px;">
-        <li style="margin:0 0 8px;">Sign in at <a href="${projectUrl}" style="color:#e98923;text-decoration:none;">${projectUrl}</a></li>
-        <li style="margin:0 0 8px;">Open the project named <strong>${projectLabel}</strong></li>
-        <li style="margin:0 0 8px;">Locate the Deliverables section and download your files</li>
-      </ol>
-    </div>
-    ${
-      options.loginEmail && options.loginPassword
-        ? `
-    <div style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;">
-      <p style="margin:0 0 12px;font-weight:600;">Your login credentials</p>
-      <p style="margin:0;font-family:'SFMono-Regular',Menlo,monospace;font-size:14px;">
-        Email: <strong>${options.loginEmail}</strong><br/>
-        Password: <strong>${options.loginPassword}</strong>
-      </p>
-      <p style="margin:12px 0 0;font-size:13px;color:#3c5495;">
-        For security, we recommend changing the password after your next login.
-      </p>
-    </div>
-    `
-        : ""
-    }
     <p style="margin:0 0 16px;">
-      If you have any questions or need edits, reach out at <strong>${SUPPORT_PHONE}</strong> or visit <a href="${COMPANY_WEBSITE}" style="color:#e98923;text-decoration:none;">${COMPANY_WEBSITE}</a>.
+      ${t("email.accountLocked.notYou", {
+        email: `<a href="mailto:${SUPPORT_EMAIL}" style="color:#e98923;text-decoration:none;">${SUPPORT_EMAIL}</a>`,
+      })}
     </p>
-    <p style="margin:0;">Thank you for trusting ${COMPANY_NAME},<br/>We appreciate your business.</p>
+    <p style="margin:0;">${t("email.signoff", company)}</p>
   `;
 
-  const textContent = `${formatGreeting(options.name)},
+  const textContent = `${formatGreeting(t, options.name)},
 
-The final files for ${projectLabel} are ready.
+${intro} ${retry}
 
-${
-  options.loginEmail && options.loginPassword
-    ? `Login credentials:\n- Email: ${options.loginEmail}\n- Password: ${options.loginPassword}\n\n`
-    : ""
+${t("email.accountLocked.forgot")}
+${resetLink}
+
+${t("email.accountLocked.notYou", { email: SUPPORT_EMAIL })}
+
+${t("email.signoff", company)}`;
+
+  await sendEmail({
+    to: options.to,
+    subject: t("email.accountLocked.subject", company),
+    html: buildEmailShell(t, htmlContent),
+    text: textContent,
+    template: "account_locked",
+    userId: options.userId,
+  });
 }
-Download instructions:
-1. Sign in at ${projectUrl}
-2. Open the project named "${projectLabel}"
-3. Locate the Deliverables section and download your files
 
-Need help or adjustments? Call ${SUPPORT_PHONE} or visit ${COMPANY_WEBSITE}.
+export async function sendProjectCompletionEmail(options: {
+  to: string;
+  cc?: string | string[] | null;
+  name?: string | null;
+  projectTitle?: string | null;
+  projectId: string;
+  loginEmail?: string;
+  loginPassword?: string;
+  userId?: string | null;
+}) {
+  const locale = await recipientLocale(options.userId);
+  const t = translator(locale);
+  const projectLabel = formatProjectLabel(
+    t,
+    options.projectId,
+    options.projectTitle
+  );
 
-Thank you for working with ${COMPANY_NAME}.`;
+  const projectUrl = new URL(
+    `/client/projects/${options.projectId}`,
+    APP_BASE_URL
+  ).toString();
+
+  // Credentials are only included when both parts were provided
+  const includeLogin = Boolean(options.loginEmail && options.loginPassword);
+
+  const email = await renderTemplatedEmail(
+    "project_completion",
+    {
+      greeting: formatGreeting(t, options.name),
+      clientName: options.name,
+      projectTitle: projectLabel,
+      projectUrl,
+      loginEmail: includeLogin ? options.loginEmail : null,
+      loginPassword: includeLogin ? options.loginPassword : null,
+    },
+    locale
+  );
 
   await sendEmail({
     to: options.to,
     cc: options.cc || undefined,
-    subject: `Your ${projectLabel} deliverables are ready`,
-    html: buildEmailShell(htmlContent),
-    text: textContent,
+    ...email,
+    template: "project_completion",
+    projectId: options.projectId,
+    userId: options.userId,
+    secrets: options.loginPassword ? [options.loginPassword] : undefined,
   });
 }
 
@@ -308,108 +599,200 @@ export async function sendProjectAssignmentEmail(options: {
   clientEmail?: string | null;
   createdByName?: string | null;
   notes?: string | null;
+  userId?: string | null;
 }) {
-  const projectLabel =
-    options.projectTitle && options.projectTitle.trim().length > 0
-      ? options.projectTitle.trim()
-      : `Project ${options.projectId.slice(0, 8).toUpperCase()}`;
+  const locale = await recipientLocale(options.userId);
+  const t = translator(locale);
+  const projectLabel = formatProjectLabel(
+    t,
+    options.projectId,
+    options.projectTitle
+  );
 
   const staffProjectUrl = new URL(
     `/staff/projects/${options.projectId}`,
     APP_BASE_URL
   ).toString();
 
-  const clientLine =
-    options.clientName || options.clientEmail
-      ? `<li style="margin:0 0 8px;">
-            Client: <strong>${[options.clientName, options.clientEmail]
-              .filter(Boolean)
-              .join(" · ")}</strong>
-          </li>`
-      : "";
-
-  const adminLine = options.createdByName
-    ? `<li style="margin:0 0 8px;">
-          Assigned by: <strong>${options.createdByName}</strong>
-        </li>`
-    : "";
-
-  const notesBlock =
-    options.notes && options.notes.trim().length > 0
-      ? `<div style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;">
-          <p style="margin:0 0 12px;font-weight:600;">Additional context</p>
-          <p style="margin:0;white-space:pre-wrap;">${options.notes
-            .trim()
-            .replace(/\n/g, "<br/>")}</p>
-        </div>`
-      : "";
+  const email = await renderTemplatedEmail(
+    "project_assignment",
+    {
+      greeting: formatGreeting(t, options.staffName),
+      staffName: options.staffName,
+      projectTitle: projectLabel,
+      projectUrl: staffProjectUrl,
+      client:
+        [options.clientName, options.clientEmail]
+          .filter(Boolean)
+          .join(" · ") || null,
+      assignedBy: options.createdByName,
+      notes: options.notes?.trim() || null,
+    },
+    locale
+  );
+
+  await sendEmail({
+    to: options.to,
+    ...email,
+    template: "project_assignment",
+    projectId: options.projectId,
+    userId: options.userId,
+  });
+}
+
+type NotificationEmailItem = {
+  type: NotificationType;
+  projectId: string | null;
+  data: NotificationData;
+  // Path of the project page on the recipient's side of the app
+  href: string | null;
+};
+
+function notificationSettingsNote(t: Translator) {
+  const profileUrl = new URL(PROFILE_PATH, APP_BASE_URL).toString();
+  return {
+    html: `<p style="margin:24px 0 0;font-size:13px;color:#6b7280;">${t(
+      "email.notification.settings",
+      {
+        link: `<a href="${profileUrl}" style="color:#e98923;text-decoration:none;">${t("email.notification.profile")}</a>`,
+      }
+    )}</p>`,
+    text: t("email.notification.settings", {
+      link: `${t("email.notification.profile")} (${profileUrl})`,
+    }),
+  };
+}
+
+/** A single notification for users who get them by email straight away */
+export async function sendNotificationEmail(options: {
+  to: string;
+  name?: string | null;
+  notification: NotificationEmailItem;
+  userId: string;
+}) {
+  const t = translator(await recipientLocale(options.userId));
+  const { notification } = options;
+  const message = notificationMessage(t, notification);
+  const link = notification.href
+    ? new URL(notification.href, APP_BASE_URL).toString()
+    : null;
+  const company = { company: COMPANY_NAME };
+  const settings = notificationSettingsNote(t);
 
   const htmlContent = `
-    <p style="margin:0 0 16px;">${formatGreeting(options.staffName)},</p>
-    <p style="margin:0 0 16px;">
-      You’ve been assigned to <strong>${projectLabel}</strong> in the Alfatonics client delivery portal.
-      Please review the brief and begin work at your earliest convenience.
-    </p>
-    <div style="margin:24px 0;padding:18px 24px;border:1px solid #d8def4;border-radius:10px;background:#f4f6ff;">
-      <p style="margin:0 0 12px;font-weight:600;">Project details</p>
-      <ul style="margin:0;padding-left:20px;">
-        <li style="margin:0 0 8px;">
-          Project: <strong>${projectLabel}</strong>
-        </li>
-        ${clientLine}
-        ${adminLine}
-        <li style="margin:0 0 8px;">
-          Portal link: <a href="${staffProjectUrl}" style="color:#e98923;text-decoration:none;">${staffProjectUrl}</a>
-        </li>
-      </ul>
-    </div>
-    ${notesBlock}
-    <p style="margin:0 0 16px;">
-      If you have any questions or need more context, please reach out to the admin team or reply to this email.
-    </p>
-    <p style="margin:0;">
-      Thank you,<br/>The ${COMPANY_NAME} Team
-    </p>
+    <p style="margin:0 0 16px;">${formatGreeting(t, options.name)},</p>
+    <p style="margin:0 0 16px;">${message}</p>
+    ${
+      link
+        ? `<p style="margin:24px 0;">
+      <a href="${link}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:#3c5495;color:#ffffff;text-decoration:none;font-weight:600;">${t("email.notification.open")}</a>
+    </p>`
+        : ""
+    }
+    <p style="margin:0;">${t("email.signoff", company)}</p>
+    ${settings.html}
   `;
 
-  const textLines = [
-    `${formatGreeting(options.staffName)},`,
-    "",
-    `You’ve been assigned to ${projectLabel} in the Alfatonics client delivery portal.`,
-  ];
-
-  if (options.clientName || options.clientEmail) {
-    textLines.push(
-      "",
-      "Client:",
-      `- ${[options.clientName, options.clientEmail]
-        .filter(Boolean)
-        .join(" · ")}`
-    );
-  }
+  const textContent = `${formatGreeting(t, options.name)},
 
-  if (options.createdByName) {
-    textLines.push("", `Assigned by: ${options.createdByName}`);
-  }
+${message}
+${link ? `\n${link}\n` : ""}
+${t("email.signoff", company)}
 
-  textLines.push("", `Portal link: ${staffProjectUrl}`, "");
+${settings.text}`;
+
+  await sendEmail({
+    to: options.to,
+    subject: message,
+    html: buildEmailShell(t, htmlContent),
+    text: textContent,
+    template: "notification",
+    projectId: notification.projectId,
+    userId: options.userId,
+  });
+}
 
-  if (options.notes && options.notes.trim().length > 0) {
-    textLines.push("Additional context:", options.notes.trim(), "");
+/**
+ * The daily summary for users who chose the digest: the notifications since
+ * the last one, grouped per project.
+ */
+export async function sendNotificationDigestEmail(options: {
+  to: string;
+  name?: string | null;
+  notifications: NotificationEmailItem[];
+  userId: string;
+}) {
+  const t = translator(await recipientLocale(options.userId));
+  const company = { company: COMPANY_NAME };
+  const settings = notificationSettingsNote(t);
+
+  const groups = new Map<string, NotificationEmailItem[]>();
+  for (const notification of options.notifications) {
+    const key = notification.projectId ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), notification]);
   }
+  const projects = [...groups.values()].map((items) => {
+    const [first] = items;
+    return {
+      title: first.projectId
+        ? formatProjectLabel(t, first.projectId, first.data.projectTitle)
+        : t("email.digest.other"),
+      link: first.href ? new URL(first.href, APP_BASE_URL).toString() : null,
+      messages: items.map((item) => notificationMessage(t, item)),
+    };
+  });
 
-  textLines.push(
-    "Need anything else? Reply to this email or contact the admin team.",
-    "",
-    `The ${COMPANY_NAME} Team`
-  );
+  const intro = t("email.digest.intro", {
+    count: options.notifications.length,
+    projects: projects.length,
+  });
+
+  const htmlContent = `
+    <p style="margin:0 0 16px;">${formatGreeting(t, options.name)},</p>
+    <p style="margin:0 0 16px;">${intro}</p>
+    ${projects
+      .map(
+        (project) => `
+    <h2 style="margin:24px 0 8px;font-size:17px;font-weight:600;">${
+      project.link
+        ? `<a href="${project.link}" style="color:#3c5495;text-decoration:none;">${project.title}</a>`
+        : project.title
+    }</h2>
+    <ul style="margin:0 0 16px;padding-left:20px;">
+      ${project.messages
+        .map((message) => `<li style="margin:0 0 6px;">${message}</li>`)
+        .join("")}
+    </ul>`
+      )
+      .join("")}
+    <p style="margin:24px 0 0;">${t("email.signoff", company)}</p>
+    ${settings.html}
+  `;
+
+  const textContent = `${formatGreeting(t, options.name)},
+
+${intro}
+${projects
+  .map(
+    (project) =>
+      `\n${project.title}${project.link ? ` (${project.link})` : ""}\n` +
+      project.messages.map((message) => `- ${message}`).join("\n")
+  )
+  .join("\n")}
+
+${t("email.signoff", company)}
 
-  const textContent = textLines.join("\n");
+${settings.text}`;
 
   await sendEmail({
     to: options.to,
-    subject: `${projectLabel}: New assignment for you`,
-    html: buildEmailShell(htmlContent),
+    subject: t("email.digest.subject", {
+      ...company,
+      count: options.notifications.length,
+    }),
+    html: buildEmailShell(t, htmlContent),
     text: textContent,
+    template: "notification_digest",
+    userId: options.userId,
   });
 }
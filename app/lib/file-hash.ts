@@ -0,0 +1,38 @@
+/**
+ * SHA-256 (hex) of a whole file, streamed through a Web Worker so hashing
+ * a large master neither blocks the page nor loads it into memory. Null
+ * where the browser has no workers.
+ */
+export function sha256File(
+  file: File,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (typeof Worker === "undefined") return Promise.resolve(null);
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./sha256.worker.ts", import.meta.url));
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    worker.onmessage = (
+      event: MessageEvent<{ sha256?: string; error?: string }>
+    ) => {
+      finish();
+      if (event.data.sha256) resolve(event.data.sha256);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(file);
+  });
+}
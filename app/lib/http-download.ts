@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import type { StorageRangeNotSatisfiable } from "@/app/lib/storage";
+
+// RFC 5987 leaves these out of attr-char, so encodeURIComponent's output
+// still needs them escaped
+const encodeExtValue = (value: string) =>
+  encodeURIComponent(value).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * A Content-Disposition header value that keeps the filename intact:
+ * `filename*` carries it UTF-8 encoded, and `filename` an ASCII stand-in for
+ * clients that do not read `filename*`.
+ */
+export function contentDisposition(
+  type: "attachment" | "inline",
+  filename: string
+) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeExtValue(
+    filename
+  )}`;
+}
+
+/** The 416 for a Range header that selects no bytes of the object */
+export function rangeNotSatisfiable({ size }: StorageRangeNotSatisfiable) {
+  return new NextResponse("Range Not Satisfiable", {
+    status: 416,
+    headers: size === null ? undefined : { "Content-Range": `bytes */${size}` },
+  });
+}
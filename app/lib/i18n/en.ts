@@ -0,0 +1,1104 @@
+/** English, the source catalogue; keys are grouped by the page or area that uses them */
+export const en = {
+  // Emails
+  "email.greeting": "Hello",
+  "email.greetingName": "Hello {name}",
+  "email.title": "{company} Client Delivery",
+  "email.tagline": "Professional content delivery platform",
+  "email.signoff": "The {company} Team",
+  "email.resetButton": "Reset password",
+  "email.projectFallback": "Project {id}",
+  "email.role.admin": "administrator",
+  "email.role.staff": "team member",
+  "email.role.client": "client",
+  "email.passwordReset.subject":
+    "Reset your {company} Client Delivery password",
+  "email.passwordReset.intro":
+    "We received a request to reset the password for your {company} client delivery account.",
+  "email.passwordReset.action":
+    "Use the button below to choose a new password.",
+  "email.passwordReset.expiry":
+    "This link can be used once and expires in {minutes} minutes.",
+  "email.passwordReset.copyLink":
+    "If the button does not work, copy this address into your browser:",
+  "email.passwordReset.textLink":
+    "Choose a new password here (valid once, for {minutes} minutes):",
+  "email.passwordReset.ignore":
+    "If you did not ask for a reset, you can ignore this email — your password stays the same.",
+  "email.accountLocked.subject":
+    "Your {company} Client Delivery account has been locked",
+  "email.accountLocked.intro":
+    "Your {company} client delivery account was locked after {attempts} failed sign-in attempts.",
+  "email.accountLocked.retry": "You can try again in {minutes} minutes.",
+  "email.accountLocked.forgot":
+    "If this was you and you have forgotten your password, resetting it unlocks the account straight away.",
+  "email.accountLocked.notYou":
+    "If it was not you, someone may be trying to guess your password. Consider changing it and contact {email} if this keeps happening.",
+  "email.notification.open": "Open project",
+  "email.notification.profile": "profile page",
+  "email.notification.settings":
+    "You get this email because of your notification settings, which you can change on your {link}.",
+  "email.digest.subject": "Your {company} daily summary",
+  "email.digest.intro":
+    "Here is what happened in your projects since your last summary.",
+  "email.digest.other": "Other updates",
+
+  // Email templates
+  "emailTemplates.user_credentials.label": "Account credentials",
+  "emailTemplates.user_credentials.description":
+    "Sent when an admin creates a user or emails them new credentials.",
+  "emailTemplates.project_completion.label": "Project deliverables ready",
+  "emailTemplates.project_completion.description":
+    "Sent to the client when an admin announces that a project is complete.",
+  "emailTemplates.project_assignment.label": "Staff assignment",
+  "emailTemplates.project_assignment.description":
+    "Sent to team members when they are assigned to a project.",
+  "emailTemplates.variable.companyName": "Company name",
+  "emailTemplates.variable.companyWebsite": "Company website",
+  "emailTemplates.variable.supportEmail": "Support email",
+  "emailTemplates.variable.supportPhone": "Support phone",
+  "emailTemplates.variable.greeting":
+    "Greeting (“Hello Jane”, or “Hello” without a name)",
+  "emailTemplates.variable.recipientName": "Recipient name",
+  "emailTemplates.variable.role": "Account type",
+  "emailTemplates.variable.loginEmail": "Login email",
+  "emailTemplates.variable.password": "Temporary password",
+  "emailTemplates.variable.loginUrl": "Sign-in URL",
+  "emailTemplates.variable.clientName": "Client name",
+  "emailTemplates.variable.projectTitle": "Project title",
+  "emailTemplates.variable.projectUrl": "Project URL",
+  "emailTemplates.variable.newLoginEmail":
+    "Login email (only when a new password is sent)",
+  "emailTemplates.variable.newPassword": "New password (only when one was set)",
+  "emailTemplates.variable.staffName": "Staff name",
+  "emailTemplates.variable.client": "Client (name · email)",
+  "emailTemplates.variable.assignedBy": "Assigned by",
+  "emailTemplates.variable.notes": "Notes from the admin",
+  "emailTemplates.error.unknownVariable": "Unknown variable {tag}",
+  "emailTemplates.error.wrongClose": "{close} closes {open}",
+  "emailTemplates.error.unmatchedClose": "{close} has no matching {open}",
+  "emailTemplates.error.unclosed": "{open} is never closed",
+  "emailTemplates.validation.subjectRequired": "Subject is required",
+  "emailTemplates.validation.bodyRequired": "Body is required",
+  "emailTemplates.error.saveFailed": "Failed to save template",
+  "emailTemplates.error.previewFailed": "Failed to render preview",
+  "emailTemplates.page.title": "Email Templates",
+  "emailTemplates.page.language": "Language",
+  "emailTemplates.page.confirmSwitchLanguage":
+    "Discard your unsaved changes and switch language?",
+  "emailTemplates.page.loadFailed": "Failed to load templates",
+  "emailTemplates.page.saved":
+    "Template saved. New emails use it straight away.",
+  "emailTemplates.page.confirmReset":
+    "Discard the edited “{template}” template ({language}) and go back to the built-in default?",
+  "emailTemplates.page.resetFailed": "Failed to reset template",
+  "emailTemplates.page.resetDone": "Template reset to the built-in default.",
+  "emailTemplates.page.edited": "Edited",
+  "emailTemplates.page.default": "Default",
+  "emailTemplates.page.lastEdited": "Last edited {date}",
+  "emailTemplates.page.lastEditedBy": "Last edited {date} by {name}",
+  "emailTemplates.page.subject": "Subject",
+  "emailTemplates.page.subjectLabel": "Subject:",
+  "emailTemplates.page.body": "Body (HTML)",
+  "emailTemplates.page.syntaxHelp":
+    "Use {value} for a value, and wrap optional parts in {section} so they only appear when the value is set. The plain-text version is generated from the body.",
+  "emailTemplates.page.variables": "Variables (click to insert)",
+  "emailTemplates.page.variableHint": "{label} — e.g. {sample}",
+  "emailTemplates.page.optionalVariableHint":
+    "{label} (may be empty) — e.g. {sample}",
+  "emailTemplates.page.save": "Save Template",
+  "emailTemplates.page.discard": "Discard Changes",
+  "emailTemplates.page.reset": "Reset to Default",
+  "emailTemplates.page.preview": "Preview (sample data)",
+  "emailTemplates.page.showHtml": "Show HTML",
+  "emailTemplates.page.showText": "Show plain text",
+  "emailTemplates.page.rendering": "Rendering...",
+
+  // Navbar
+  "nav.search": "Search in Drive",
+  "nav.searchButton": "Search",
+  "nav.admin": "Admin",
+  "nav.staff": "Staff",
+  "nav.myProjects": "My Projects",
+  "nav.signIn": "Sign in",
+  "nav.profile": "Profile",
+  "nav.signOut": "Sign out",
+  "nav.language": "Language",
+
+  // Page metadata
+  "meta.title": "Alfatonics Client Delivery Portal",
+  "meta.description": "Receive AI-generated video deliveries",
+
+  // Shared
+  "common.back": "Back",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.loading": "Loading...",
+  "common.loadMore": "Load more",
+  "common.refresh": "Refresh",
+  "common.delete": "Delete",
+  "common.edit": "Edit",
+  "common.email": "Email",
+  "common.name": "Name",
+  "common.password": "Password",
+  "common.status": "Status",
+  "common.actions": "Actions",
+  "common.download": "Download",
+  "common.untitledProject": "Untitled project",
+  "common.role.ADMIN": "Admin",
+  "common.role.STAFF": "Staff",
+  "common.role.CLIENT": "Client",
+  "common.copied": "Copied!",
+  "common.copy": "Copy",
+  "common.open": "Open",
+  "common.continue": "Continue",
+  "common.clear": "Clear",
+  "common.error": "Error",
+  "common.retry": "Retry",
+
+  // Home
+  "home.title": "Alfatonics Client Delivery Portal",
+  "home.subtitle":
+    "Upload your assets and receive AI-generated video deliveries.",
+  "home.adminDashboard": "Admin Dashboard",
+  "home.staffDashboard": "Staff Dashboard",
+
+  // API errors
+  "errors.accountNotFound": "Account record not found.",
+  "errors.addCommentFailed": "Failed to add comment",
+  "errors.apiTokenInvalid": "Missing, invalid, expired or revoked API token",
+  "errors.apiTokenLimit": "You can have at most {max} active API tokens",
+  "errors.apiTokenScope": "This token does not have the {scope} scope",
+  "errors.apiTokenScopeNotAllowed":
+    "Your role cannot create tokens with these scopes",
+  "errors.assetNotFound": "Asset not found",
+  "errors.authCodeIncorrect": "Authentication code is incorrect.",
+  "errors.cannotDeleteSelf": "You cannot delete your own account",
+  "errors.changePasswordFailed": "Failed to change password",
+  "errors.codeMismatch": "That code did not match. Try the current one.",
+  "errors.completeUploadFailed": "Failed to complete upload",
+  "errors.createApiTokenFailed": "Failed to create API token",
+  "errors.createFolderFailed": "Failed to create folder",
+  "errors.createProjectFailed": "Failed to create project",
+  "errors.createShareLinkFailed": "Failed to create share link",
+  "errors.createUserFailed": "Failed to create user",
+  "errors.currentPasswordIncorrect": "Current password is incorrect.",
+  "errors.deleteAssetFailed": "Failed to delete asset",
+  "errors.deleteDeliveryFailed": "Failed to delete delivery",
+  "errors.deleteFolderFailed": "Failed to delete folder",
+  "errors.deleteUserFailed": "Failed to delete user",
+  "errors.deliveryNotFound": "Delivery not found",
+  "errors.deliveryNotInProject": "Delivery not found in this project",
+  "errors.disableTwoFactorFailed": "Failed to disable two-factor",
+  "errors.discardUploadFailed": "Failed to discard the upload",
+  "errors.emailTaken": "User with this email already exists",
+  "errors.enableTwoFactorFailed": "Failed to enable two-factor",
+  "errors.fetchProjectFailed": "Failed to fetch project",
+  "errors.fetchProjectsFailed": "Failed to fetch projects",
+  "errors.fetchUploadSessionsFailed": "Failed to fetch unfinished uploads",
+  "errors.folderIntoDescendant": "Cannot move folder into its descendant",
+  "errors.folderIntoItself": "Folder cannot be moved into itself",
+  "errors.folderNotFound": "Folder not found",
+  "errors.folderNotInProject": "Folder not found in this project",
+  "errors.folderOwnParent": "Folder cannot be its own parent",
+  "errors.forbidden": "You do not have access to this resource",
+  "errors.incorrectPassword": "Incorrect password.",
+  "errors.initUploadFailed": "Failed to initialize upload",
+  "errors.invalidCredentials": "Invalid credentials",
+  "errors.invalidDeliveryFolder":
+    "Folder not found or not a valid folder for deliveries",
+  "errors.invalidJson": "Invalid JSON body",
+  "errors.invalidPayload": "Invalid request payload.",
+  "errors.jobNotRetryable": "Only queued or failed jobs can be retried",
+  "errors.linkExpired": "This link is invalid or has expired.",
+  "errors.loadTrashFailed": "Failed to load trash",
+  "errors.markNotificationsReadFailed": "Failed to mark notifications as read",
+  "errors.onlyDeliverablesShared": "Only DELIVERABLES folders can be shared",
+  "errors.onlyTopLevelResolved": "Only top-level comments can be resolved",
+  "errors.parentCommentNotFound": "Parent comment not found",
+  "errors.parentFolderNotFound": "Parent folder not found",
+  "errors.partChecksumMismatch":
+    "The part was damaged on the way; it will be sent again",
+  "errors.passwordRequired": "Password is required.",
+  "errors.projectNotFound": "Project not found",
+  "errors.queueEmailFailed": "Failed to queue the email. Please try again.",
+  "errors.queueNotificationDigestFailed": "Failed to queue notification digest",
+  "errors.queueStorageReconcileFailed":
+    "Failed to queue storage reconciliation",
+  "errors.queueTrashPurgeFailed": "Failed to queue trash purge",
+  "errors.regenerateCodesFailed": "Failed to regenerate codes",
+  "errors.replyTimestamp": "Replies cannot carry a timestamp",
+  "errors.requestResetFailed": "Failed to request reset",
+  "errors.resendEmailFailed": "Failed to resend email",
+  "errors.emailNotResendable":
+    "This email contained a reset link or password and can't be resent. Send a new one instead.",
+  "errors.resetLinkInvalid": "This reset link is invalid or has expired.",
+  "errors.resetPasswordFailed": "Failed to reset password",
+  "errors.restoreAssetFailed": "Failed to restore asset",
+  "errors.restoreDeliveryFailed": "Failed to restore delivery",
+  "errors.restoreFolderFailed": "Failed to restore folder",
+  "errors.saveReviewFailed": "Failed to save review",
+  "errors.saveWebhookFailed": "Failed to save webhook",
+  "errors.setupTwoFactorFailed": "Failed to set up two-factor",
+  "errors.staffEmailMissing": "Staff member email not found.",
+  "errors.staffNotAssigned": "Staff member is not assigned to this project.",
+  "errors.startSetupFailed": "Failed to start setup",
+  "errors.switchLanguageFailed": "Failed to switch language",
+  "errors.systemFolder": "System folders cannot be deleted",
+  "errors.targetFolderInvalid": "Target folder not found or invalid",
+  "errors.timestampsVideoOnly":
+    "Timestamps are only supported on video deliveries",
+  "errors.tooManyAttempts":
+    "Too many sign-in attempts. Please try again later.",
+  "errors.tooManyPasswordAttempts":
+    "Too many password attempts. Please try again later.",
+  "errors.twoFactorNotEnabled": "Two-factor authentication is not enabled.",
+  "errors.twoFactorRequiredForRole":
+    "Two-factor authentication is required for your role.",
+  "errors.twoFactorSetupNotRequired":
+    "Two-factor setup is not required for this account.",
+  "errors.updateAssetFailed": "Failed to update asset",
+  "errors.updateCommentFailed": "Failed to update comment",
+  "errors.updateDeliveryFailed": "Failed to update delivery",
+  "errors.updateFolderFailed": "Failed to update folder",
+  "errors.updateNotificationPreferencesFailed":
+    "Failed to update notification preferences",
+  "errors.updateProjectFailed": "Failed to update project",
+  "errors.updateSettingsFailed": "Failed to update settings",
+  "errors.updateUserFailed": "Failed to update user",
+  "errors.uploadFailed": "Upload failed",
+  "errors.uploadKeyMismatch": "This upload was not started for this project",
+  "errors.uploadSizeMismatch":
+    "The stored file is not the size that was uploaded, so it was discarded. Please upload it again.",
+  "errors.userNotFound": "User not found",
+  "errors.validationFailed": "Validation failed",
+  "errors.credentialsEmailFailed":
+    "Credentials were reset but the email could not be queued. Please try again.",
+  "errors.completeNeedsDelivery":
+    "You must upload at least one delivery before marking the project as completed.",
+  "errors.storageTimeout":
+    "Storage connection timeout. Please check your storage configuration and network connection.",
+  "errors.filenameSizeRequired": "filename and sizeBytes are required",
+  "errors.database": "Database error: {reason}",
+  "errors.storageInitFailed": "Failed to initialize storage: {reason}",
+  "errors.initUploadFailedReason": "Failed to initialize upload: {reason}",
+  "errors.presignFailed": "Failed to generate presigned URLs: {reason}",
+  "errors.systemFolderCreate":
+    "ASSETS and DELIVERABLES folders are system folders and cannot be created manually",
+  "errors.assignStaffFirst":
+    "Assign at least one team member to the project before sending the assignment email.",
+  "errors.submitNeedsDelivery":
+    "Upload at least one delivery before submitting the project to the admin.",
+  "errors.notifyNeedsCompleted":
+    "Project must be marked as completed before notifying the client.",
+  "errors.clientEmailMissing":
+    "Client email is missing. Provide an email address before sending notifications.",
+  "errors.loginEmailRequired":
+    "Provide a login email when sending new credentials to the client.",
+  "errors.clientRecordMissing":
+    "Unable to reset password because the client record is missing.",
+  "errors.invalidCc": "Invalid CC email: {email}",
+  "errors.uploadFailedStatus": "Upload failed: HTTP {status}",
+  "errors.uploadTimeout":
+    "Upload timeout: File part too large or connection too slow. Tried for {seconds}s",
+  "errors.projectIdRequired": "projectId is required",
+
+  // Validation (zod messages)
+  "validation.passwordMin": "Password must be at least {min} characters",
+  "validation.passwordMax": "Password must be {max} characters or fewer",
+  "validation.currentPasswordMin":
+    "Current password must be at least {min} characters",
+  "validation.notesMax": "Notes must be {max} characters or fewer",
+  "validation.clientRequired": "Client is required",
+  "validation.newPasswordMin": "New password must be at least {min} characters",
+  "validation.newPasswordMax": "New password must be {max} characters or fewer",
+  "validation.describeChanges": "Describe the changes you need",
+  "validation.rangeEnd": "Range end must be after the start timestamp",
+  "validation.shareTarget": "Share either a delivery or a folder",
+  "validation.expiryFuture": "Expiry must be in the future",
+  "validation.expiryMax": "Links can be valid for at most {days} days",
+  "validation.passwordsMismatch": "Passwords do not match.",
+
+  // Client link
+  "clientLink.label": "Client access link:",
+  "clientLink.copyTitle": "Copy link",
+
+  // Recovery codes
+  "recoveryCodes.intro":
+    "Save these recovery codes somewhere safe. Each one signs you in once if you lose access to your authenticator app. They will not be shown again.",
+
+  // Two-factor
+  "twoFactor.enroll.scan":
+    "Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…).",
+  "twoFactor.enroll.enterCode":
+    "Enter the six-digit code the app shows to finish.",
+  "twoFactor.enroll.qrAlt": "Authenticator QR code",
+  "twoFactor.enroll.manual": "Can't scan? Enter this key instead:",
+  "twoFactor.verifying": "Verifying...",
+  "twoFactor.enroll.submit": "Verify and enable",
+  "twoFactor.requestFailed": "Request failed.",
+  "twoFactor.title": "Two-factor authentication",
+  "twoFactor.description":
+    "Require a code from an authenticator app in addition to your password when signing in.",
+  "twoFactor.enabled": "Enabled",
+  "twoFactor.off": "Off",
+  "twoFactor.codesLeftOne": "{count} recovery code left",
+  "twoFactor.codesLeft": "{count} recovery codes left",
+  "twoFactor.requiredForRole": "Required for your role",
+  "twoFactor.roleRequires":
+    "Your role requires two-factor authentication. You will be asked to set it up the next time you sign in.",
+  "twoFactor.done": "Done",
+  "twoFactor.moveDevice": "Move to a new device",
+  "twoFactor.setUp": "Set up two-factor",
+  "twoFactor.newCodes": "New recovery codes",
+  "twoFactor.turnOff": "Turn off",
+  "twoFactor.confirmPassword": "Confirm your password",
+  "twoFactor.checking": "Checking...",
+  "twoFactor.currentPassword": "Current password",
+  "twoFactor.codeLabel": "Authentication or recovery code",
+  "twoFactor.regenerateWarning":
+    "Your existing recovery codes stop working once new ones are generated.",
+  "twoFactor.working": "Working...",
+  "twoFactor.generateCodes": "Generate codes",
+  "twoFactor.turnOffTwoFactor": "Turn off two-factor",
+
+  // Delivery review summary
+  "reviewSummary.title": "Client review",
+  "reviewSummary.approved": "{count} approved",
+  "reviewSummary.changesRequested": "{count} changes requested",
+  "reviewSummary.awaiting": "{count} awaiting review",
+
+  // Delivery review dialog
+  "review.title": "Review delivery",
+  "review.notesLabel": "Notes for the team",
+  "review.notesPlaceholder":
+    "Required when requesting changes, e.g. timestamps and what to fix",
+  "review.requestChanges": "Request changes",
+  "review.approve": "Approve",
+
+  // Delivery versions
+  "versions.loadFailed": "Failed to load versions",
+  "versions.title": "Version history",
+  "versions.closeLabel": "Close version history",
+  "versions.latest": "Latest",
+  "versions.uploadNew": "Upload new version",
+
+  // Folder tree
+  "folders.all": "All Folders",
+
+  // Trash
+  "trash.loadFailed": "Failed to load the Trash",
+  "trash.restoreFailed": "Failed to restore item",
+  "trash.confirmDeleteFolder":
+    "Delete “{name}” forever? It and everything inside it cannot be recovered.",
+  "trash.confirmDeleteFile": "Delete “{name}” forever? It cannot be recovered.",
+  "trash.deleteFailed": "Failed to delete item",
+  "trash.title": "Trash",
+  "trash.retention":
+    "Items are deleted forever {days} days after they were moved here.",
+  "trash.closeLabel": "Close trash",
+  "trash.empty": "The Trash is empty.",
+  "trash.fileCount": "{count} file(s)",
+  "trash.deleted": "Deleted {date}",
+  "trash.deletedBy": "Deleted {date} by {name}",
+  "trash.goneAfter": "Gone after {date}",
+  "trash.restore": "Restore",
+  "trash.deleteForever": "Delete forever",
+
+  // Share links
+  "shareLinks.status.active": "Active",
+  "shareLinks.status.expired": "Expired",
+  "shareLinks.status.revoked": "Revoked",
+  "shareLinks.loadFailed": "Failed to load share links",
+  "shareLinks.chooseTarget": "Choose a delivery or folder to share.",
+  "shareLinks.confirmRevoke":
+    "Revoke this link? Anyone using it will lose access.",
+  "shareLinks.revokeFailed": "Failed to revoke link",
+  "shareLinks.title": "Share links",
+  "shareLinks.intro": "Let people without an account view finished work.",
+  "shareLinks.share": "Share",
+  "shareLinks.choose": "Choose…",
+  "shareLinks.folders": "Folders",
+  "shareLinks.deliveries": "Deliveries",
+  "shareLinks.expiresOn": "Expires on",
+  "shareLinks.password": "Password (optional)",
+  "shareLinks.allowDownloads": "Allow downloads (otherwise streaming only)",
+  "shareLinks.creating": "Creating...",
+  "shareLinks.create": "Create link",
+  "shareLinks.copyNow": "Copy this link now — it will not be shown again.",
+  "shareLinks.expires": "expires {date}",
+  "shareLinks.views": "{count} views",
+  "shareLinks.downloads": "{count} downloads",
+  "shareLinks.passwordProtected": "password",
+  "shareLinks.streamOnly": "stream only",
+  "shareLinks.by": "by {name}",
+  "shareLinks.revoke": "Revoke",
+  "shareLinks.empty": "No share links yet.",
+
+  // Video review comments
+  "comments.loadFailed": "Failed to load comments",
+  "comments.markers": "Comment markers",
+  "comments.title": "Comments ({count})",
+  "comments.showResolved": "Show resolved ({count})",
+  "comments.hideResolved": "Hide resolved ({count})",
+  "comments.add": "Add a comment",
+  "comments.at": "At {time}",
+  "comments.attachTime": "Attach current time",
+  "comments.until": "Until {time}",
+  "comments.setRangeEnd": "Set range end",
+  "comments.posting": "Posting...",
+  "comments.post": "Comment",
+  "comments.reply": "Reply",
+  "comments.reopen": "Reopen",
+  "comments.resolve": "Resolve",
+  "comments.resolvedBy": "Resolved by {name}",
+  "comments.writeReply": "Write a reply",
+  "comments.send": "Send",
+  "comments.empty": "No comments yet.",
+
+  // Drive
+  "drive.select": "Select {name}",
+  "drive.renaming": "Renaming...",
+  "drive.rename": "Rename",
+  "drive.deleting": "Deleting...",
+  "drive.itemCount": "{count} item(s)",
+  "drive.approved": "Approved",
+  "drive.changesRequested": "Changes requested",
+  "drive.empty": "Nothing here yet.",
+  "drive.assets": "Assets",
+  "drive.preview": "Preview",
+  "drive.versions": "Versions",
+  "drive.review": "Review",
+  "drive.newSubfolder": "New subfolder",
+  "drive.search": "Search files and folders",
+  "drive.gridView": "Grid view",
+  "drive.listView": "List view",
+  "drive.newFolder": "New folder",
+  "drive.upload": "Upload",
+  "drive.allContent": "All Content",
+  "drive.downloadSelected": "Download selected ({count})",
+  "drive.downloadFolder": "Download folder",
+  "drive.downloadAll": "Download all",
+  "drive.defaultFolderName": "New Folder",
+
+  // Email history and outbox
+  "emails.loadFailed": "Failed to load emails",
+  "emails.loadOneFailed": "Failed to load the email",
+  "emails.confirmResend": "Send “{subject}” to {to}?",
+  "emails.resendFailed": "Failed to resend email",
+  "emails.sent": "Sent",
+  "emails.recipients": "Recipients",
+  "emails.resendTag": "resend",
+  "emails.cc": "cc {to}",
+  "emails.status.QUEUED": "Queued",
+  "emails.status.SENT": "Sent",
+  "emails.status.RETRYING": "Retrying",
+  "emails.status.FAILED": "Failed",
+  "emails.resending": "Resending...",
+  "emails.resend": "Resend",
+  "emails.smtpResponse": "SMTP response:",
+  "emails.loadingMessage": "Loading message...",
+  "emails.redacted":
+    "Reset links and passwords are masked in this copy, so it can't be resent.",
+  "emails.empty": "No emails yet.",
+  "emails.showAll": "Show all emails",
+  "emails.anyStatus": "Any status",
+
+  // Sign out
+  "signOut.confirm": "Are you sure you want to sign out?",
+  "signOut.signingOut": "Signing out...",
+
+  // Forgot password
+  "forgotPassword.failed": "Could not send the reset email. Please try again.",
+  "forgotPassword.title": "Forgot password",
+  "forgotPassword.intro":
+    "Enter your account email and we'll send you a reset link",
+  "forgotPassword.sentBefore": "If an account exists for",
+  "forgotPassword.sentAfter":
+    ", a reset link is on its way. Check your inbox — the link expires soon and can only be used once.",
+  "forgotPassword.sending": "Sending...",
+  "forgotPassword.send": "Send reset link",
+  "forgotPassword.backToSignIn": "Back to sign in",
+
+  // Reset password
+  "resetPassword.failed": "Failed to reset password.",
+  "resetPassword.title": "Choose a new password",
+  "resetPassword.checking": "Checking link...",
+  "resetPassword.invalid": "This reset link is invalid or has expired.",
+  "resetPassword.requestNew": "Request a new one",
+  "resetPassword.done":
+    "Your password has been updated. Redirecting to sign in...",
+  "resetPassword.submit": "Reset password",
+
+  // Password fields
+  "password.new": "New password",
+  "password.confirmNew": "Confirm new password",
+  "password.lengthHint": "{min}–{max} characters.",
+
+  // Sign in
+  "signIn.setupFailed": "Could not start two-factor setup",
+  "signIn.invalidCode": "That code is not valid. Try again.",
+  "signIn.locked":
+    "This account is temporarily locked after too many failed attempts. Check your email, or reset your password to unlock it.",
+  "signIn.throttled": "Too many attempts. Wait a moment and try again.",
+  "signIn.invalidCredentials": "Invalid credentials",
+  "signIn.failed": "Sign in failed",
+  "signIn.verificationFailed": "Verification failed",
+  "signIn.intro": "Sign in to Alfatonics Client Delivery",
+  "signIn.enterCode": "Enter the code from your authenticator app",
+  "signIn.setupRequired": "Your role requires two-factor authentication",
+  "signIn.twoFactorOn": "Two-factor authentication is on",
+  "signIn.signingIn": "Signing in...",
+  "signIn.savedContinue": "I saved them — continue",
+  "signIn.codePlaceholder": "123456 or recovery code",
+  "signIn.verify": "Verify",
+  "signIn.differentAccount": "Use a different account",
+  "signIn.hidePassword": "Hide password",
+  "signIn.showPassword": "Show password",
+  "signIn.forgot": "Forgot your password?",
+
+  // New project
+  "newProject.title": "Create New Project",
+  "newProject.titleLabel": "Title (optional)",
+  "newProject.titlePlaceholder": "e.g., Product Launch Video",
+  "newProject.descriptionLabel": "Description (optional)",
+  "newProject.descriptionPlaceholder": "Describe your project requirements...",
+  "newProject.creating": "Creating...",
+  "newProject.submit": "Create Project",
+  "newProject.fetchClientsFailed": "Failed to fetch clients",
+  "newProject.loadClientsFailed": "Failed to load clients",
+  "newProject.client": "Client",
+  "newProject.loadingClients": "Loading clients...",
+  "newProject.selectClient": "-- Select client --",
+  "newProject.staffDescriptionPlaceholder":
+    "Describe the project requirements...",
+
+  // Project status
+  "projectStatus.PENDING": "Pending",
+  "projectStatus.IN_PROGRESS": "In progress",
+  "projectStatus.COMPLETED": "Completed",
+  "projectStatus.CHANGES_REQUESTED": "Changes requested",
+  "projectStatus.APPROVED": "Approved",
+
+  // Project lists
+  "projects.newProject": "New Project",
+  "projects.new": "New",
+  "projects.empty": "No projects yet",
+  "projects.emptyHint": "Create your first project to get started.",
+  "projects.customer": "Customer {id}",
+  "projects.deliveryCountOne": "{count} delivery",
+  "projects.deliveryCount": "{count} deliveries",
+  "projects.project": "Project {id}",
+  "projects.assetCountOne": "{count} asset",
+  "projects.assetCount": "{count} assets",
+
+  // Staff dashboard
+  "staff.title": "Staff Dashboard",
+  "staff.active": "Active Projects",
+  "staff.completed": "Completed Projects",
+  "staff.empty": "No projects assigned yet",
+
+  // Uploads
+  "upload.failed": "Upload failed",
+  "upload.title": "Upload Video",
+  "upload.selectClient": "Select client",
+  "upload.chooseClient": "-- Choose client --",
+  "upload.videoFile": "Video file",
+  "upload.uploading": "Uploading...",
+  "upload.initError": "Failed to initialize upload",
+  "upload.initFailedFor": "Upload initialization failed for {name}: {status}",
+  "upload.invalidResponse":
+    "Invalid response from server for {name}: missing presigned URLs",
+  "upload.partFailedFor": "Part {part} upload failed for {name}: {message}",
+  "upload.noEtag": "Part {part} upload failed for {name}: no ETag received",
+  "upload.completeFailedFor": "Upload completion failed for {name}: {status}",
+  "uploadSessions.title": "Unfinished uploads",
+  "uploadSessions.intro":
+    "These uploads stopped before they finished. Choose the same file again to upload the rest.",
+  "uploadSessions.kindAsset": "Asset",
+  "uploadSessions.kindDelivery": "Delivery",
+  "uploadSessions.progress": "{uploaded} of {total} uploaded",
+  "uploadSessions.resume": "Resume",
+  "uploadSessions.resuming": "Uploading...",
+  "uploadSessions.discard": "Discard",
+  "uploadSessions.confirmDiscard":
+    "Discard the unfinished upload of {name}? The parts uploaded so far are deleted.",
+  "uploadSessions.wrongFile":
+    "That is not the file this upload started with. Choose {name} again.",
+  "uploadSessions.loadFailed": "Failed to load unfinished uploads.",
+  "uploadSessions.discardFailed": "Failed to discard the upload.",
+  "uploads.title": "Uploads ({done} of {total} done)",
+  "uploads.collapse": "Hide uploads",
+  "uploads.expand": "Show uploads",
+  "uploads.clearFinished": "Clear finished",
+  "uploads.queued": "Waiting",
+  "uploads.paused": "Paused",
+  "uploads.completed": "Done",
+  "uploads.canceled": "Canceled",
+  "uploads.progress": "{uploaded} of {total}",
+  "uploads.speed": "{speed}/s",
+  "uploads.etaSeconds": "{seconds}s left",
+  "uploads.etaMinutes": "{minutes} min left",
+  "uploads.etaHours": "{hours} h {minutes} min left",
+  "uploads.pause": "Pause",
+  "uploads.resume": "Resume",
+  "uploads.retry": "Retry",
+  "uploads.cancel": "Cancel",
+  "checksum.label": "SHA-256",
+  "checksum.verify": "Check a downloaded copy",
+  "checksum.verifying": "Checking...",
+  "checksum.match": "Matches: the copy is intact.",
+  "checksum.mismatch": "Does not match: download the file again.",
+  "checksum.failed": "This browser could not hash the file.",
+
+  // Profile
+  "profile.loadFailed": "Failed to load profile.",
+  "profile.passwordFailed": "Failed to update password.",
+  "profile.passwordUpdated": "Password updated successfully.",
+  "profile.loading": "Loading profile...",
+  "profile.title": "My Profile",
+  "profile.email": "Email:",
+  "profile.role": "Role:",
+  "profile.changePassword": "Change Password",
+  "profile.passwordIntro":
+    "Enter your current password, then choose a new one. Use at least six characters.",
+  "profile.hideCurrent": "Hide current password",
+  "profile.showCurrent": "Show current password",
+  "profile.hideNew": "Hide new password",
+  "profile.showNew": "Show new password",
+  "profile.hideConfirm": "Hide confirm password",
+  "profile.showConfirm": "Show confirm password",
+  "profile.updating": "Updating...",
+  "profile.updatePassword": "Update Password",
+
+  // Admin dashboard
+  "admin.title": "Admin Dashboard",
+  "admin.manageUsers": "Manage Users",
+  "admin.auditLog": "Audit Log",
+  "admin.emails": "Emails",
+  "admin.emailTemplates": "Email Templates",
+  "admin.jobs": "Jobs",
+  "admin.webhooks": "Webhooks",
+  "admin.apiDocs": "API reference",
+  "admin.stats.totalProjects": "Total Projects",
+  "admin.stats.pending": "Pending",
+  "admin.stats.inProgress": "In Progress",
+  "admin.stats.completed": "Completed",
+  "admin.stats.totalClients": "Total Clients",
+  "admin.stats.totalStaff": "Total Staff",
+  "admin.recentProjects": "Recent Projects",
+  "admin.clientLabel": "Client: {email}",
+  "admin.staffLabel": "Staff: {emails}",
+  "admin.createdByLabel": "Created by: {email}",
+  "admin.emailSent": "Email sent {date}",
+  "admin.awaitingEmail": "Awaiting client email",
+
+  // Background jobs
+  "jobs.pendingAndFailed": "Pending & failed",
+  "jobs.status.QUEUED": "Queued",
+  "jobs.status.RUNNING": "Running",
+  "jobs.status.DEAD": "Failed",
+  "jobs.status.SUCCEEDED": "Succeeded",
+  "jobs.loadFailed": "Failed to load jobs",
+  "jobs.retryFailed": "Failed to retry job",
+  "jobs.title": "Background Jobs",
+  "jobs.job": "Job",
+  "jobs.attempts": "Attempts",
+  "jobs.nextRun": "Next run",
+  "jobs.lastError": "Last error",
+  "jobs.done": "Done {date}",
+  "jobs.retry": "Retry",
+  "jobs.runNow": "Run now",
+  "jobs.empty": "No jobs here.",
+  "jobs.summary.emailSend": "Outbox email {id}",
+  "jobs.summary.webhookDeliver": "Webhook delivery {id}",
+
+  // Audit log
+  "audit.loadFailed": "Failed to load the audit log",
+  "audit.export": "Export CSV",
+  "audit.user": "User",
+  "audit.anyone": "Anyone",
+  "audit.project": "Project",
+  "audit.allProjects": "All projects",
+  "audit.action": "Action",
+  "audit.allActions": "All actions",
+  "audit.from": "From",
+  "audit.to": "To",
+  "audit.when": "When",
+  "audit.who": "Who",
+  "audit.target": "Target",
+  "audit.ip": "IP",
+  "audit.system": "System / anonymous",
+  "audit.field": "Field",
+  "audit.before": "Before",
+  "audit.after": "After",
+  "audit.empty": "No events match these filters.",
+
+  // Shared page
+  "share.defaultTitle": "Shared files",
+  "share.passwordProtected": "This link is password protected.",
+  "share.availableUntil": "Available until {date}",
+  "share.streamingOnly": "Streaming only",
+  "share.empty": "Nothing has been shared here yet.",
+
+  // Users
+  "users.fetchSecurityFailed": "Failed to fetch security settings",
+  "users.fetchSettingsFailed": "Failed to fetch settings",
+  "users.updateSecurityFailed": "Failed to update security settings",
+  "users.updateSettingsFailed": "Failed to update settings",
+  "users.fetchFailed": "Failed to fetch users",
+  "users.updateFailed": "Failed to update user",
+  "users.confirmDelete":
+    "Are you sure you want to delete this user? This action cannot be undone.",
+  "users.deleteFailed": "Failed to delete user",
+  "users.changePasswordFailed": "Failed to change password",
+  "users.passwordChanged": "Password changed successfully",
+  "users.confirmSendCredentials":
+    "Send login credentials to {email}? This will reset their password.",
+  "users.sendCredentialsFailed": "Failed to send credentials to the user.",
+  "users.credentialsSent": "Credentials sent successfully.",
+  "users.confirmResetTwoFactor":
+    "Reset two-factor authentication for {email}? They will sign in with their password only, or be asked to enroll again if their role requires it.",
+  "users.resetTwoFactorFailed": "Failed to reset two-factor",
+  "users.unlockFailed": "Failed to unlock user",
+  "users.create": "Create User",
+  "users.createTitle": "Create New User",
+  "users.nameOptional": "Name (optional)",
+  "users.generate": "Generate",
+  "users.passwordHint":
+    "Auto-generates from the email/name. Edit if you want a custom password.",
+  "users.role": "Role",
+  "users.language": "Language",
+  "users.languageHint":
+    "Used for the credentials email until they pick a language themselves.",
+  "users.securityTitle": "Sign-in security",
+  "users.securityIntro":
+    "Users in a required role must set up an authenticator app the next time they sign in.",
+  "users.requireForAdmins": "Require two-factor for admins",
+  "users.requireForStaff": "Require two-factor for staff",
+  "users.createdBy": "Created By",
+  "users.created": "Created",
+  "users.editTitle": "Edit User",
+  "users.changePassword": "Change Password",
+  "users.newPassword": "New Password",
+  "users.confirmPassword": "Confirm Password",
+  "users.changing": "Changing...",
+  "users.twoFactorEnabled": "Two-factor authentication enabled",
+  "users.lockedUntil": "Locked until {date}",
+  "users.locked": "Locked",
+  "users.recentFailures": "Recent failed sign-in attempts",
+  "users.failedCount": "{count} failed",
+  "users.editUser": "Edit user",
+  "users.changePasswordTitle": "Change password",
+  "users.emailCredentialsTitle": "Email credentials",
+  "users.emailing": "Emailing...",
+  "users.emailCredentials": "Email Credentials",
+  "users.emailsTitle": "Emails sent to this user",
+  "users.unlockTitle": "Unlock account",
+  "users.unlocking": "Unlocking...",
+  "users.unlock": "Unlock",
+  "users.resetTwoFactorTitle": "Reset two-factor authentication",
+  "users.resetting": "Resetting...",
+  "users.resetTwoFactor": "Reset 2FA",
+  "users.deleteTitle": "Delete user",
+
+  // Project page
+  "projectPage.clientsCannotUploadAssets":
+    "Clients cannot upload assets. Please contact support.",
+  "projectPage.clientsCannotUploadFiles":
+    "Clients cannot upload files. Please contact support.",
+  "projectPage.uploadAssetsFailed": "Failed to upload assets",
+  "projectPage.createFolderFailed": 'Failed to create folder "{name}"',
+  "projectPage.unresolvedFolder": "Unable to resolve destination folder.",
+  "projectPage.dropFailed": "Failed to process dropped folder.",
+  "projectPage.selectAssetsFolder":
+    "Select an Assets folder before uploading files.",
+  "projectPage.confirmTrashAsset": "Move this asset to the Trash?",
+  "projectPage.previewUnavailable":
+    "Preview is not available for this file type.",
+  "projectPage.audioUnsupported":
+    "Your browser does not support the audio element.",
+  "projectPage.closePreview": "Close preview",
+  "projectPage.description": "Description",
+  "projectPage.share": "Share",
+  "projectPage.clientEmpty":
+    "No deliverables yet. Your project team will upload deliverables here when they are ready.",
+  "projectPage.fetchFailedStatus": "Failed to fetch project: {status}",
+  "projectPage.moveFolderFailed": "Failed to move folder",
+  "projectPage.moveAssetFailed": "Failed to move asset",
+  "projectPage.moveDeliveryFailed": "Failed to move delivery",
+  "projectPage.moveItemFailed": "Failed to move item",
+  "projectPage.assetMoveTarget":
+    "Assets can only be moved into Assets folders.",
+  "projectPage.deliveryMoveTarget":
+    "Deliveries can only be moved into Project or Deliverables folders.",
+  "projectPage.folderNameRequired": "Folder name is required",
+  "projectPage.confirmTrashFolder":
+    "Are you sure you want to delete “{name}”? It moves to the Trash with all nested folders and files.",
+  "projectPage.renameFolder": "Rename folder",
+  "projectPage.renameFolderFailed": "Failed to rename folder",
+  "projectPage.chooseAssetsFolder":
+    "Choose an Assets folder before uploading files.",
+  "projectPage.noAssetsFolder":
+    "No Assets folder found. Please contact the admin team.",
+  "projectPage.chooseDeliveryFolder":
+    "Choose a Project or Deliverables folder before uploading deliveries.",
+  "projectPage.noDeliveryFolder":
+    "No Deliverables or Project folder found. Please create a folder first.",
+  "projectPage.uploadDeliveriesFailed": "Failed to upload deliveries",
+  "projectPage.folderGone":
+    "Selected folder is no longer available. Reload and try again.",
+  "projectPage.selectValidFolder":
+    "Select a valid folder before uploading files.",
+  "projectPage.folderNamePrompt": "Folder name",
+  "projectPage.confirmTrashDelivery": "Move this delivery to the Trash?",
+  "projectPage.updateStatusFailed": "Failed to update status",
+  "projectPage.updateProjectStatusFailed": "Failed to update project status",
+  "projectPage.submitForAdminFailed":
+    "Failed to submit project for admin review.",
+  "projectPage.submitted": "Deliveries submitted to the admin for review.",
+  "projectPage.submitForReviewFailed": "Failed to submit project for review.",
+  "projectPage.submitting": "Submitting...",
+  "projectPage.submitDeliveries": "Submit Deliveries",
+  "projectPage.markInProgress": "Mark In Progress",
+  "projectPage.uploadBeforeSubmit":
+    "Upload at least one delivery before submitting the project to the admin.",
+  "projectPage.submittedOn": "Submitted for admin review on {date}",
+  "projectPage.clientEmailSent":
+    "Client email sent on {date}. If adjustments are required, contact the admin team.",
+  "projectPage.awaitingAdmin":
+    "Waiting for the admin to review and notify the client.",
+  "projectPage.clientLabel": "Client: {email}",
+  "projectPage.teamEmpty":
+    "No folders or files yet. Use the toolbar to create folders or upload project assets.",
+  "projectPage.fetchStaffFailedStatus": "Failed to fetch staff: {status}",
+  "projectPage.fetchDataFailed": "Failed to fetch data",
+  "projectPage.deliveryMoveTargetAdmin":
+    "Deliveries can only be moved into Deliverables or Project folders.",
+  "projectPage.noAssetsFolderSupport":
+    "No Assets folder found. Please contact support.",
+  "projectPage.selectDeliveryFolder":
+    "Select a Deliverables or Project folder before uploading deliveries.",
+  "projectPage.assetInputNotReady":
+    "File input for assets is not ready. Please reload the page.",
+  "projectPage.deliveryInputNotReady":
+    "File input for deliveries is not ready. Please reload the page.",
+  "projectPage.updateTitleFailed": "Failed to update project title",
+  "projectPage.assignStaffFailed": "Failed to assign staff",
+  "projectPage.completionEmailFailed":
+    "Failed to send completion email to the client.",
+  "projectPage.clientEmailQueued":
+    "Email queued for the client. Follow its delivery under Email History.",
+  "projectPage.completionEmailFailedShort": "Failed to send completion email.",
+  "projectPage.assignStaffFirst":
+    "Assign a staff member before sending the assignment email.",
+  "projectPage.staffEmailFailed": "Failed to send staff assignment email",
+  "projectPage.staffEmailQueued": "Staff assignment email queued.",
+  "projectPage.staffEmailFailedDot": "Failed to send staff assignment email.",
+  "projectPage.sendEmailFailed": "Failed to send email",
+  "projectPage.emailQueued": "Email queued",
+  "projectPage.backToDashboard": "Back to Dashboard",
+  "projectPage.enterName": "Enter project name",
+  "projectPage.nameLabel": "Project name",
+  "projectPage.renameHint": "Double-click to rename project",
+  "projectPage.reviewHeading": "Delivery Review & Notification",
+  "projectPage.awaitingStaff": "Waiting for staff to submit final deliveries.",
+  "projectPage.notSent": "Not sent yet.",
+  "projectPage.clientEmail": "Client email",
+  "projectPage.cc": "CC (optional, comma separated)",
+  "projectPage.loginEmail": "Login email (optional)",
+  "projectPage.loginEmailPlaceholder": "client login email",
+  "projectPage.tempPassword": "Temporary password (optional)",
+  "projectPage.tempPasswordPlaceholder":
+    "Generate or enter a password to reset the client login",
+  "projectPage.generate": "Generate",
+  "projectPage.sending": "Sending...",
+  "projectPage.resendEmail": "Resend Email",
+  "projectPage.sendToClient": "Send Email to Client",
+  "projectPage.completeBeforeEmail":
+    "Mark the project as completed before sending the client email.",
+  "projectPage.assignStaff": "Assign Staff",
+  "projectPage.noStaffAvailable": "No staff members available",
+  "projectPage.saveAssignment": "Save Assignment",
+  "projectPage.clearSelection": "Clear Selection",
+  "projectPage.adminsOnlyAssign": "Only admins can update staff assignments.",
+  "projectPage.assignedStaff": "Assigned Staff Members",
+  "projectPage.sendEmail": "Send Email",
+  "projectPage.noStaffAssigned": "No staff members currently assigned.",
+  "projectPage.sendAllStaff": "Send email to all assigned staff at once",
+  "projectPage.emailAllStaff": "Email All Staff",
+  "projectPage.accessLink": "Client Project Access Link",
+  "projectPage.copyLink": "Copy Link",
+  "projectPage.openLink": "Open Link",
+  "projectPage.emailHistory": "Email History",
+  "projectPage.openInEmails": "Open in Emails",
+  "projectPage.assetUpload": "Asset upload",
+  "projectPage.deliveryUpload": "Delivery upload",
+  "projectPage.selectedCount": "{count} selected",
+  "projectPage.staffLabel": "Staff: {emails}",
+  "projectPage.createdBy": "Created by: {email}",
+  "projectPage.submissionStatus": "Submission status:",
+  "projectPage.receivedOn": "Received on {date}",
+  "projectPage.clientNotification": "Client notification:",
+  "projectPage.sentOn": "Sent on {date}",
+  "projectPage.by": "by",
+  "projectPage.loginEmailHint":
+    "Leave blank to use the client's registered email.",
+  "projectPage.tempPasswordHint":
+    "Provide a password to reset the client's login and include it in the email.",
+  "projectPage.assignStaffHint":
+    'Choose one or more team members to manage this project. Assigning automatically moves the project to "In Progress".',
+  "projectPage.assignedOn": "Assigned {date}",
+  "projectPage.assignedOnBy": "Assigned {date} by {email}",
+  "projectPage.sendAssignmentTo": "Send assignment email to {email}",
+  "projectPage.accessLinkHint":
+    "Share this link with the client to give them direct access to their project folder:",
+  "projectPage.adminEmpty":
+    "No folders or files yet. Use the buttons above to create folders or upload project assets.",
+
+  // Notifications
+  "notifications.title": "Notifications",
+  "notifications.unreadLabel": "Notifications ({count} unread)",
+  "notifications.unreadOne": "1 unread",
+  "notifications.unread": "{count} unread",
+  "notifications.markAllRead": "Mark all as read",
+  "notifications.viewAll": "View all notifications",
+  "notifications.empty": "You're all caught up.",
+  "notifications.emptyAll": "No notifications yet.",
+  "notifications.emptyUnread": "No unread notifications.",
+  "notifications.showAll": "All",
+  "notifications.showUnread": "Unread",
+  "notifications.loadFailed": "Failed to load notifications",
+  "notifications.markReadFailed": "Failed to mark notifications as read",
+  "notifications.someone": "Someone",
+  "notifications.type.project.assigned": "{actor} assigned you to {project}",
+  "notifications.type.project.submitted":
+    "{actor} submitted {project} for review",
+  "notifications.type.delivery.uploaded":
+    "New delivery in {project}: {filename}",
+  "notifications.type.delivery.version":
+    "Version {version} of {filename} is ready in {project}",
+  "notifications.type.asset.uploaded":
+    "{actor} uploaded {filename} to {project}",
+  "notifications.preferences.title": "Notification preferences",
+  "notifications.preferences.intro":
+    "Choose how you hear about each kind of update. The daily digest is one email a day with everything grouped by project.",
+  "notifications.preferences.event.project.assigned":
+    "I'm assigned to a project",
+  "notifications.preferences.event.project.submitted":
+    "A project is submitted for review",
+  "notifications.preferences.event.delivery.uploaded":
+    "A new delivery is ready",
+  "notifications.preferences.event.asset.uploaded": "A client uploads files",
+  "notifications.preferences.delivery.IMMEDIATE": "Email right away",
+  "notifications.preferences.delivery.DIGEST": "Daily digest",
+  "notifications.preferences.delivery.IN_APP": "In the app only",
+  "notifications.preferences.delivery.OFF": "Off",
+  "notifications.preferences.save": "Save preferences",
+  "notifications.preferences.saving": "Saving...",
+  "notifications.preferences.saved": "Notification preferences saved.",
+  "webhooks.title": "Webhooks",
+  "webhooks.intro":
+    "Webhooks post a signed JSON payload to your URL whenever something happens in the portal. Failed deliveries are retried for about an hour.",
+  "webhooks.add": "Add endpoint",
+  "webhooks.create": "Create endpoint",
+  "webhooks.empty": "No webhook endpoints yet.",
+  "webhooks.loadFailed": "Failed to load webhooks",
+  "webhooks.url": "Payload URL",
+  "webhooks.description": "Description",
+  "webhooks.descriptionPlaceholder": "What receives these events?",
+  "webhooks.events": "Events",
+  "webhooks.secret": "Signing secret",
+  "webhooks.secretPlaceholder": "Leave empty to generate one",
+  "webhooks.secretOnce":
+    "Copy the signing secret now. It will not be shown again.",
+  "webhooks.secretSaved": "I've saved it",
+  "webhooks.active": "Active",
+  "webhooks.paused": "Paused",
+  "webhooks.pause": "Pause",
+  "webhooks.resume": "Resume",
+  "webhooks.rotateSecret": "Rotate secret",
+  "webhooks.confirmRotate":
+    "Rotate the signing secret for {url}? Requests are signed with the new secret straight away.",
+  "webhooks.confirmDelete":
+    "Delete the webhook endpoint {url} and its delivery log?",
+  "webhooks.sendTest": "Send test",
+  "webhooks.testSucceeded": "Test event delivered (HTTP {status}).",
+  "webhooks.testFailed": "Test event failed: {error}",
+  "webhooks.noResponse": "no response",
+  "webhooks.showLog": "Delivery log",
+  "webhooks.hideLog": "Hide log",
+  "webhooks.lastDelivery": "Last delivery {date}",
+  "webhooks.neverDelivered": "Nothing delivered yet",
+  "webhooks.event.project.created": "A project is created",
+  "webhooks.event.project.status_changed": "A project changes status",
+  "webhooks.event.delivery.created": "A delivery is uploaded",
+  "webhooks.event.asset.created": "A client uploads an asset",
+  "webhooks.event.project.notified":
+    "Client or staff are emailed about a project",
+  "webhooks.status.QUEUED": "Queued",
+  "webhooks.status.SUCCEEDED": "Delivered",
+  "webhooks.status.RETRYING": "Retrying",
+  "webhooks.status.FAILED": "Failed",
+  "webhooks.log.loadFailed": "Failed to load deliveries",
+  "webhooks.log.sent": "Sent",
+  "webhooks.log.event": "Event",
+  "webhooks.log.response": "Response",
+  "webhooks.log.attempts": "Attempts",
+  "webhooks.log.duration": "{ms} ms",
+  "webhooks.log.payload": "Payload",
+  "webhooks.log.responseBody": "Response body",
+  "webhooks.log.empty": "No deliveries yet.",
+  "webhooks.validation.url": "Enter a valid http or https URL",
+  "webhooks.validation.events": "Pick at least one event",
+  "webhooks.validation.secret": "The secret must be at least 16 characters",
+  "apiTokens.title": "API tokens",
+  "apiTokens.intro":
+    "Personal access tokens let scripts and integrations use the REST API at /api/v1 as you. Send them as an Authorization: Bearer header and treat them like a password.",
+  "apiTokens.empty": "You have no active tokens.",
+  "apiTokens.create": "Create token",
+  "apiTokens.creating": "Creating...",
+  "apiTokens.createdOnce":
+    "Copy your new token now. It will not be shown again.",
+  "apiTokens.name": "Name",
+  "apiTokens.namePlaceholder": "e.g. Nightly backup script",
+  "apiTokens.expiry": "Expires",
+  "apiTokens.expiryDays": "In {days} days",
+  "apiTokens.noExpiry": "Never expires",
+  "apiTokens.expires": "Expires {date}",
+  "apiTokens.lastUsed": "Last used {date} from {ip}",
+  "apiTokens.neverUsed": "Never used",
+  "apiTokens.scopes": "Scopes",
+  "apiTokens.scope.READ": "Read",
+  "apiTokens.scope.UPLOAD": "Upload",
+  "apiTokens.scope.ADMIN": "Admin",
+  "apiTokens.scopeHint.READ":
+    "List and download projects, folders, assets and deliveries",
+  "apiTokens.scopeHint.UPLOAD":
+    "Upload assets and deliveries and create folders",
+  "apiTokens.scopeHint.ADMIN": "Read user accounts",
+  "apiTokens.revoke": "Revoke",
+  "apiTokens.confirmRevoke":
+    "Revoke the token \"{name}\"? Scripts using it stop working straight away.",
+  "apiTokens.revokeFailed": "Failed to revoke token",
+  "apiTokens.validation.name": "Give the token a name",
+  "apiTokens.validation.scopes": "Pick at least one scope",
+  "apiTokens.validation.expiry": "Pick one of the offered expiry periods",
+  "apiDocs.title": "API reference",
+  "apiDocs.intro":
+    "Every /api/v1 endpoint, generated from the schemas the API validates requests with. Download the OpenAPI document to generate typed clients for your scripts.",
+  "apiDocs.download": "Download OpenAPI document",
+  "apiDocs.loadFailed": "Failed to load the API reference",
+  "apiDocs.server": "Base URL: {url}",
+  "apiDocs.scope": "Scope: {scope}",
+  "apiDocs.parameters": "Parameters",
+  "apiDocs.required": "required",
+  "apiDocs.requestBody": "Request body",
+  "apiDocs.responses": "Responses",
+  "apiDocs.schemas": "Schemas",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,101 @@
+import { en, type MessageKey, type Messages } from "@/app/lib/i18n/en";
+import { sw } from "@/app/lib/i18n/sw";
+
+/**
+ * Message catalogues for the UI, API errors and emails. English is the source
+ * catalogue; every other language must translate every key, which the
+ * `Messages` type enforces. Messages use {name} placeholders.
+ */
+
+export type { MessageKey, Messages };
+
+// Same values as the Prisma `Locale` enum
+export const LOCALES = ["en", "sw"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the chosen language in the browser, signed in or not
+export const LOCALE_COOKIE = "locale";
+
+/** Each language's name in that language, for the switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  sw: "Kiswahili",
+};
+
+const CATALOGUES: Record<Locale, Messages> = { en, sw };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+export const isMessageKey = (value: string): value is MessageKey => value in en;
+
+export type TranslationValues = Record<
+  string,
+  string | number | null | undefined
+>;
+
+export type Translator = (
+  key: MessageKey,
+  values?: TranslationValues
+) => string;
+
+export function translator(locale: Locale): Translator {
+  const messages = CATALOGUES[locale] ?? en;
+  return (key, values) => {
+    const message = messages[key] ?? en[key] ?? key;
+    if (!values) return message;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      values[name] === undefined || values[name] === null
+        ? placeholder
+        : String(values[name])
+    );
+  };
+}
+
+/** Best supported match for an Accept-Language header */
+export function localeFromAcceptLanguage(header: string | null | undefined) {
+  const ranked = (header ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.trim().toLowerCase().split("-")[0],
+        quality: q ? Number(q.trim().slice(2)) || 0 : 1,
+      };
+    })
+    .filter((entry) => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return ranked.map((entry) => entry.language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Translates validation messages that are catalogue keys, so zod schemas can
+ * declare `.min(6, "validation.passwordMin")` and still answer in the
+ * caller's language. {min} and {max} come from the failed check, anything
+ * else from a refinement's `params`. Zod's own messages pass through
+ * unchanged.
+ */
+export function localizeIssues<
+  T extends {
+    message: string;
+    minimum?: unknown;
+    maximum?: unknown;
+    params?: Record<string, unknown>;
+  },
+>(issues: T[], t: Translator): T[] {
+  return issues.map((issue) =>
+    isMessageKey(issue.message)
+      ? {
+          ...issue,
+          message: t(issue.message, {
+            ...(issue.params as TranslationValues | undefined),
+            min: issue.minimum as number | undefined,
+            max: issue.maximum as number | undefined,
+          }),
+        }
+      : issue
+  );
+}
@@ -0,0 +1,27 @@
+import { cookies, headers } from "next/headers";
+import { auth } from "@/app/lib/auth";
+import {
+  LOCALE_COOKIE,
+  isLocale,
+  localeFromAcceptLanguage,
+  translator,
+  type Locale,
+} from "@/app/lib/i18n";
+
+/**
+ * The language for the current request: the one picked in this browser, then
+ * the signed-in user's preference, then the browser's Accept-Language.
+ */
+export async function getLocale(): Promise<Locale> {
+  const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+
+  const session = await auth();
+  if (isLocale(session?.user?.locale)) return session.user.locale;
+
+  return localeFromAcceptLanguage((await headers()).get("accept-language"));
+}
+
+export async function getTranslator() {
+  return translator(await getLocale());
+}
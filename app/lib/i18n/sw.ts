@@ -0,0 +1,1131 @@
+import type { Messages } from "@/app/lib/i18n/en";
+
+/** Kiswahili */
+export const sw: Messages = {
+  // Emails
+  "email.greeting": "Habari",
+  "email.greetingName": "Habari {name}",
+  "email.title": "{company} Client Delivery",
+  "email.tagline": "Jukwaa la kitaalamu la kuwasilisha kazi",
+  "email.signoff": "Timu ya {company}",
+  "email.resetButton": "Weka nenosiri jipya",
+  "email.projectFallback": "Mradi {id}",
+  "email.role.admin": "msimamizi",
+  "email.role.staff": "mwanatimu",
+  "email.role.client": "mteja",
+  "email.passwordReset.subject":
+    "Weka upya nenosiri lako la {company} Client Delivery",
+  "email.passwordReset.intro":
+    "Tumepokea ombi la kuweka upya nenosiri la akaunti yako ya {company} client delivery.",
+  "email.passwordReset.action":
+    "Tumia kitufe kilicho hapa chini kuchagua nenosiri jipya.",
+  "email.passwordReset.expiry":
+    "Kiungo hiki kinatumika mara moja tu na kinaisha baada ya dakika {minutes}.",
+  "email.passwordReset.copyLink":
+    "Kama kitufe hakifanyi kazi, nakili anwani hii kwenye kivinjari chako:",
+  "email.passwordReset.textLink":
+    "Chagua nenosiri jipya hapa (inatumika mara moja, kwa dakika {minutes}):",
+  "email.passwordReset.ignore":
+    "Kama hukuomba kuweka upya, puuza email hii — nenosiri lako halitabadilika.",
+  "email.accountLocked.subject":
+    "Akaunti yako ya {company} Client Delivery imefungwa",
+  "email.accountLocked.intro":
+    "Akaunti yako ya {company} client delivery imefungwa baada ya majaribio {attempts} ya kuingia yaliyoshindwa.",
+  "email.accountLocked.retry":
+    "Unaweza kujaribu tena baada ya dakika {minutes}.",
+  "email.accountLocked.forgot":
+    "Kama ni wewe na umesahau nenosiri lako, kuliweka upya kunafungua akaunti mara moja.",
+  "email.accountLocked.notYou":
+    "Kama si wewe, huenda mtu anajaribu kukisia nenosiri lako. Fikiria kulibadilisha na wasiliana na {email} kama hili litaendelea kutokea.",
+  "email.notification.open": "Fungua mradi",
+  "email.notification.profile": "ukurasa wa wasifu",
+  "email.notification.settings":
+    "Unapokea email hii kwa sababu ya mipangilio yako ya taarifa, unayoweza kuibadilisha kwenye {link}.",
+  "email.digest.subject": "Muhtasari wako wa kila siku wa {company}",
+  "email.digest.intro":
+    "Haya ndiyo yaliyotokea kwenye miradi yako tangu muhtasari wako uliopita.",
+  "email.digest.other": "Taarifa nyingine",
+
+  // Email templates
+  "emailTemplates.user_credentials.label": "Taarifa za akaunti",
+  "emailTemplates.user_credentials.description":
+    "Hutumwa admin anapounda user au kumtumia taarifa mpya za kuingia.",
+  "emailTemplates.project_completion.label": "Kazi za mradi ziko tayari",
+  "emailTemplates.project_completion.description":
+    "Hutumwa kwa mteja admin anapotangaza kuwa mradi umekamilika.",
+  "emailTemplates.project_assignment.label": "Kupangiwa kazi (staff)",
+  "emailTemplates.project_assignment.description":
+    "Hutumwa kwa wanatimu wanapopangiwa mradi.",
+  "emailTemplates.variable.companyName": "Jina la kampuni",
+  "emailTemplates.variable.companyWebsite": "Tovuti ya kampuni",
+  "emailTemplates.variable.supportEmail": "Email ya msaada",
+  "emailTemplates.variable.supportPhone": "Simu ya msaada",
+  "emailTemplates.variable.greeting":
+    "Salamu (“Habari Jane”, au “Habari” bila jina)",
+  "emailTemplates.variable.recipientName": "Jina la mpokeaji",
+  "emailTemplates.variable.role": "Aina ya akaunti",
+  "emailTemplates.variable.loginEmail": "Email ya kuingia",
+  "emailTemplates.variable.password": "Nenosiri la muda",
+  "emailTemplates.variable.loginUrl": "URL ya kuingia",
+  "emailTemplates.variable.clientName": "Jina la mteja",
+  "emailTemplates.variable.projectTitle": "Jina la mradi",
+  "emailTemplates.variable.projectUrl": "URL ya mradi",
+  "emailTemplates.variable.newLoginEmail":
+    "Email ya kuingia (pale tu nenosiri jipya linapotumwa)",
+  "emailTemplates.variable.newPassword": "Nenosiri jipya (pale tu limewekwa)",
+  "emailTemplates.variable.staffName": "Jina la mwanatimu",
+  "emailTemplates.variable.client": "Mteja (jina · email)",
+  "emailTemplates.variable.assignedBy": "Aliyepanga",
+  "emailTemplates.variable.notes": "Maelezo kutoka kwa admin",
+  "emailTemplates.error.unknownVariable": "Variable isiyojulikana {tag}",
+  "emailTemplates.error.wrongClose": "{close} inafunga {open}",
+  "emailTemplates.error.unmatchedClose": "{close} haina {open} inayolingana",
+  "emailTemplates.error.unclosed": "{open} haijafungwa",
+  "emailTemplates.validation.subjectRequired": "Kichwa cha email kinahitajika",
+  "emailTemplates.validation.bodyRequired": "Maudhui ya email yanahitajika",
+  "emailTemplates.error.saveFailed": "Imeshindwa kuhifadhi template",
+  "emailTemplates.error.previewFailed": "Imeshindwa kuonyesha hakikisho",
+  "emailTemplates.page.title": "Templates za Email",
+  "emailTemplates.page.language": "Lugha",
+  "emailTemplates.page.confirmSwitchLanguage":
+    "Acha mabadiliko ambayo hayajahifadhiwa na ubadilishe lugha?",
+  "emailTemplates.page.loadFailed": "Imeshindwa kupakia templates",
+  "emailTemplates.page.saved":
+    "Template imehifadhiwa. Emails mpya zinaitumia mara moja.",
+  "emailTemplates.page.confirmReset":
+    "Futa template iliyohaririwa “{template}” ({language}) na urudi kwenye ya awali?",
+  "emailTemplates.page.resetFailed": "Imeshindwa kurejesha template",
+  "emailTemplates.page.resetDone": "Template imerejeshwa kwenye ya awali.",
+  "emailTemplates.page.edited": "Imehaririwa",
+  "emailTemplates.page.default": "Ya awali",
+  "emailTemplates.page.lastEdited": "Ilihaririwa mwisho {date}",
+  "emailTemplates.page.lastEditedBy": "Ilihaririwa mwisho {date} na {name}",
+  "emailTemplates.page.subject": "Kichwa",
+  "emailTemplates.page.subjectLabel": "Kichwa:",
+  "emailTemplates.page.body": "Maudhui (HTML)",
+  "emailTemplates.page.syntaxHelp":
+    "Tumia {value} kwa thamani, na zungushia sehemu za hiari kwa {section} ili zionekane tu thamani ikiwepo. Toleo la maandishi matupu linatengenezwa kutoka kwenye maudhui.",
+  "emailTemplates.page.variables": "Variables (bofya kuingiza)",
+  "emailTemplates.page.variableHint": "{label} — mfano {sample}",
+  "emailTemplates.page.optionalVariableHint":
+    "{label} (inaweza kuwa tupu) — mfano {sample}",
+  "emailTemplates.page.save": "Hifadhi Template",
+  "emailTemplates.page.discard": "Acha Mabadiliko",
+  "emailTemplates.page.reset": "Rudisha ya Awali",
+  "emailTemplates.page.preview": "Hakikisho (data ya mfano)",
+  "emailTemplates.page.showHtml": "Onyesha HTML",
+  "emailTemplates.page.showText": "Onyesha maandishi matupu",
+  "emailTemplates.page.rendering": "Inaandaa...",
+
+  // Navbar
+  "nav.search": "Tafuta kwenye Drive",
+  "nav.searchButton": "Tafuta",
+  "nav.admin": "Admin",
+  "nav.staff": "Staff",
+  "nav.myProjects": "Miradi Yangu",
+  "nav.signIn": "Ingia",
+  "nav.profile": "Wasifu",
+  "nav.signOut": "Toka",
+  "nav.language": "Lugha",
+
+  // Page metadata
+  "meta.title": "Alfatonics Client Delivery Portal",
+  "meta.description": "Pokea video zilizotengenezwa kwa AI",
+
+  // Shared
+  "common.back": "Rudi",
+  "common.cancel": "Ghairi",
+  "common.close": "Funga",
+  "common.save": "Hifadhi",
+  "common.saving": "Inahifadhi...",
+  "common.loading": "Inapakia...",
+  "common.loadMore": "Pakia zaidi",
+  "common.refresh": "Onyesha upya",
+  "common.delete": "Futa",
+  "common.edit": "Hariri",
+  "common.email": "Email",
+  "common.name": "Jina",
+  "common.password": "Nenosiri",
+  "common.status": "Hali",
+  "common.actions": "Vitendo",
+  "common.download": "Pakua",
+  "common.untitledProject": "Mradi usio na jina",
+  "common.role.ADMIN": "Admin",
+  "common.role.STAFF": "Staff",
+  "common.role.CLIENT": "Mteja",
+  "common.copied": "Imenakiliwa!",
+  "common.copy": "Nakili",
+  "common.open": "Fungua",
+  "common.continue": "Endelea",
+  "common.clear": "Futa",
+  "common.error": "Hitilafu",
+  "common.retry": "Jaribu tena",
+
+  // Home
+  "home.title": "Alfatonics Client Delivery Portal",
+  "home.subtitle":
+    "Pakia mafaili yako na upokee video zilizotengenezwa kwa AI.",
+  "home.adminDashboard": "Dashibodi ya Admin",
+  "home.staffDashboard": "Dashibodi ya Staff",
+
+  // API errors
+  "errors.accountNotFound": "Taarifa za akaunti hazikupatikana.",
+  "errors.addCommentFailed": "Imeshindwa kuongeza maoni",
+  "errors.apiTokenInvalid":
+    "Token ya API haipo, si sahihi, imeisha muda au imefutwa",
+  "errors.apiTokenLimit":
+    "Unaweza kuwa na token za API {max} tu zinazofanya kazi",
+  "errors.apiTokenScope": "Token hii haina ruhusa ya {scope}",
+  "errors.apiTokenScopeNotAllowed":
+    "Nafasi yako haiwezi kuunda token zenye ruhusa hizi",
+  "errors.assetNotFound": "Faili halijapatikana",
+  "errors.authCodeIncorrect": "Msimbo wa uthibitisho si sahihi.",
+  "errors.cannotDeleteSelf": "Huwezi kufuta akaunti yako mwenyewe",
+  "errors.changePasswordFailed": "Imeshindwa kubadilisha nenosiri",
+  "errors.codeMismatch": "Msimbo huo haukulingana. Jaribu ule wa sasa.",
+  "errors.completeUploadFailed": "Imeshindwa kukamilisha upakiaji",
+  "errors.createApiTokenFailed": "Imeshindwa kuunda token ya API",
+  "errors.createFolderFailed": "Imeshindwa kuunda folder",
+  "errors.createProjectFailed": "Imeshindwa kuunda mradi",
+  "errors.createShareLinkFailed": "Imeshindwa kuunda kiungo cha kushiriki",
+  "errors.createUserFailed": "Imeshindwa kuunda user",
+  "errors.currentPasswordIncorrect": "Nenosiri la sasa si sahihi.",
+  "errors.deleteAssetFailed": "Imeshindwa kufuta faili",
+  "errors.deleteDeliveryFailed": "Imeshindwa kufuta delivery",
+  "errors.deleteFolderFailed": "Imeshindwa kufuta folder",
+  "errors.deleteUserFailed": "Imeshindwa kufuta user",
+  "errors.deliveryNotFound": "Delivery haikupatikana",
+  "errors.deliveryNotInProject": "Delivery haipo kwenye mradi huu",
+  "errors.disableTwoFactorFailed":
+    "Imeshindwa kuzima uthibitisho wa hatua mbili",
+  "errors.discardUploadFailed": "Imeshindwa kuacha upakiaji",
+  "errors.emailTaken": "User mwenye email hii tayari yupo",
+  "errors.enableTwoFactorFailed":
+    "Imeshindwa kuwasha uthibitisho wa hatua mbili",
+  "errors.fetchProjectFailed": "Imeshindwa kupata mradi",
+  "errors.fetchProjectsFailed": "Imeshindwa kupata miradi",
+  "errors.fetchUploadSessionsFailed":
+    "Imeshindwa kupata upakiaji ambao haujakamilika",
+  "errors.folderIntoDescendant":
+    "Huwezi kuhamishia folder ndani ya folder lake dogo",
+  "errors.folderIntoItself": "Folder haliwezi kuhamishiwa ndani yake lenyewe",
+  "errors.folderNotFound": "Folder halikupatikana",
+  "errors.folderNotInProject": "Folder halipo kwenye mradi huu",
+  "errors.folderOwnParent": "Folder haliwezi kuwa mzazi wake lenyewe",
+  "errors.forbidden": "Huna ruhusa ya kufikia rasilimali hii",
+  "errors.incorrectPassword": "Nenosiri si sahihi.",
+  "errors.initUploadFailed": "Imeshindwa kuanzisha upakiaji",
+  "errors.invalidCredentials": "Taarifa za kuingia si sahihi",
+  "errors.invalidDeliveryFolder":
+    "Folder halikupatikana au si folder sahihi kwa deliveries",
+  "errors.invalidJson": "Maudhui ya JSON si sahihi",
+  "errors.invalidPayload": "Maombi si sahihi.",
+  "errors.jobNotRetryable":
+    "Kazi zilizo kwenye foleni au zilizoshindwa pekee ndizo zinaweza kujaribiwa tena",
+  "errors.linkExpired": "Kiungo hiki si sahihi au muda wake umekwisha.",
+  "errors.loadTrashFailed": "Imeshindwa kupakia tupio",
+  "errors.markNotificationsReadFailed":
+    "Imeshindwa kuweka taarifa kuwa zimesomwa",
+  "errors.onlyDeliverablesShared":
+    "Folders za DELIVERABLES pekee ndizo zinaweza kushirikiwa",
+  "errors.onlyTopLevelResolved": "Maoni ya juu pekee ndiyo yanaweza kutatuliwa",
+  "errors.parentCommentNotFound": "Maoni ya mzazi hayakupatikana",
+  "errors.parentFolderNotFound": "Folder mzazi halikupatikana",
+  "errors.partChecksumMismatch":
+    "Sehemu ya file iliharibika njiani; itatumwa tena",
+  "errors.passwordRequired": "Nenosiri linahitajika.",
+  "errors.projectNotFound": "Mradi haukupatikana",
+  "errors.queueEmailFailed":
+    "Imeshindwa kupanga email itumwe. Tafadhali jaribu tena.",
+  "errors.queueNotificationDigestFailed":
+    "Imeshindwa kupanga muhtasari wa taarifa",
+  "errors.queueStorageReconcileFailed": "Imeshindwa kupanga ukaguzi wa hifadhi",
+  "errors.queueTrashPurgeFailed": "Imeshindwa kupanga usafishaji wa tupio",
+  "errors.regenerateCodesFailed": "Imeshindwa kutengeneza misimbo mipya",
+  "errors.replyTimestamp": "Majibu hayawezi kuwa na muda wa video",
+  "errors.requestResetFailed": "Imeshindwa kuomba kuweka upya",
+  "errors.resendEmailFailed": "Imeshindwa kutuma email tena",
+  "errors.emailNotResendable":
+    "Email hii ilikuwa na link ya kubadilisha password au password, hivyo haiwezi kutumwa tena. Tuma mpya badala yake.",
+  "errors.resetLinkInvalid":
+    "Kiungo hiki cha kuweka upya nenosiri si halali au kimeisha muda.",
+  "errors.resetPasswordFailed": "Imeshindwa kuweka upya nenosiri",
+  "errors.restoreAssetFailed": "Imeshindwa kurejesha faili",
+  "errors.restoreDeliveryFailed": "Imeshindwa kurejesha delivery",
+  "errors.restoreFolderFailed": "Imeshindwa kurejesha folder",
+  "errors.saveReviewFailed": "Imeshindwa kuhifadhi tathmini",
+  "errors.saveWebhookFailed": "Imeshindwa kuhifadhi webhook",
+  "errors.setupTwoFactorFailed": "Imeshindwa kuweka uthibitisho wa hatua mbili",
+  "errors.staffEmailMissing": "Email ya mwanatimu haikupatikana.",
+  "errors.staffNotAssigned": "Mwanatimu hajapangiwa mradi huu.",
+  "errors.startSetupFailed": "Imeshindwa kuanza kuweka",
+  "errors.switchLanguageFailed": "Imeshindwa kubadilisha lugha",
+  "errors.systemFolder": "Folders za mfumo haziwezi kufutwa",
+  "errors.targetFolderInvalid": "Folder lengwa halikupatikana au si sahihi",
+  "errors.timestampsVideoOnly":
+    "Muda wa video unatumika kwenye deliveries za video pekee",
+  "errors.tooManyAttempts":
+    "Majaribio mengi mno ya kuingia. Tafadhali jaribu tena baadaye.",
+  "errors.tooManyPasswordAttempts":
+    "Majaribio mengi mno ya password. Tafadhali jaribu tena baadaye.",
+  "errors.twoFactorNotEnabled": "Uthibitisho wa hatua mbili haujawashwa.",
+  "errors.twoFactorRequiredForRole":
+    "Uthibitisho wa hatua mbili unahitajika kwa nafasi yako.",
+  "errors.twoFactorSetupNotRequired":
+    "Akaunti hii haihitaji kuweka uthibitisho wa hatua mbili.",
+  "errors.updateAssetFailed": "Imeshindwa kusasisha faili",
+  "errors.updateCommentFailed": "Imeshindwa kusasisha maoni",
+  "errors.updateDeliveryFailed": "Imeshindwa kusasisha delivery",
+  "errors.updateFolderFailed": "Imeshindwa kusasisha folder",
+  "errors.updateNotificationPreferencesFailed":
+    "Imeshindwa kusasisha mipangilio ya taarifa",
+  "errors.updateProjectFailed": "Imeshindwa kusasisha mradi",
+  "errors.updateSettingsFailed": "Imeshindwa kusasisha mipangilio",
+  "errors.updateUserFailed": "Imeshindwa kusasisha user",
+  "errors.uploadFailed": "Upakiaji umeshindwa",
+  "errors.uploadKeyMismatch": "Upakiaji huu haukuanzishwa kwa mradi huu",
+  "errors.uploadSizeMismatch":
+    "Faili lililohifadhiwa halina ukubwa uliopakiwa, hivyo limeondolewa. Tafadhali lipakie tena.",
+  "errors.userNotFound": "User hakupatikana",
+  "errors.validationFailed": "Uthibitishaji umeshindwa",
+  "errors.credentialsEmailFailed":
+    "Taarifa za kuingia zimebadilishwa lakini email haikuweza kupangwa itumwe. Tafadhali jaribu tena.",
+  "errors.completeNeedsDelivery":
+    "Lazima upakie angalau delivery moja kabla ya kuweka mradi kuwa umekamilika.",
+  "errors.storageTimeout":
+    "Muunganisho wa hifadhi umechukua muda mrefu mno. Tafadhali kagua mipangilio ya hifadhi na mtandao.",
+  "errors.filenameSizeRequired": "filename na sizeBytes vinahitajika",
+  "errors.database": "Hitilafu ya database: {reason}",
+  "errors.storageInitFailed": "Imeshindwa kuanzisha hifadhi: {reason}",
+  "errors.initUploadFailedReason": "Imeshindwa kuanzisha upakiaji: {reason}",
+  "errors.presignFailed": "Imeshindwa kutengeneza URLs za kupakia: {reason}",
+  "errors.systemFolderCreate":
+    "Folders za ASSETS na DELIVERABLES ni za mfumo na haziwezi kuundwa kwa mkono",
+  "errors.assignStaffFirst":
+    "Panga angalau mwanatimu mmoja kwenye mradi kabla ya kutuma email ya kazi.",
+  "errors.submitNeedsDelivery":
+    "Pakia angalau delivery moja kabla ya kuwasilisha mradi kwa admin.",
+  "errors.notifyNeedsCompleted":
+    "Mradi lazima uwekwe kuwa umekamilika kabla ya kumjulisha mteja.",
+  "errors.clientEmailMissing":
+    "Email ya mteja haipo. Weka anwani ya email kabla ya kutuma taarifa.",
+  "errors.loginEmailRequired":
+    "Weka email ya kuingia unapomtumia mteja taarifa mpya za kuingia.",
+  "errors.clientRecordMissing":
+    "Haiwezekani kuweka upya nenosiri kwa sababu taarifa za mteja hazipo.",
+  "errors.invalidCc": "Email ya CC si sahihi: {email}",
+  "errors.uploadFailedStatus": "Upakiaji umeshindwa: HTTP {status}",
+  "errors.uploadTimeout":
+    "Upakiaji umechukua muda mrefu: sehemu ya faili ni kubwa mno au mtandao ni wa polepole. Ulijaribiwa kwa sekunde {seconds}",
+  "errors.projectIdRequired": "projectId inahitajika",
+
+  // Validation (zod messages)
+  "validation.passwordMin": "Nenosiri lazima liwe na angalau herufi {min}",
+  "validation.passwordMax": "Nenosiri lisizidi herufi {max}",
+  "validation.currentPasswordMin":
+    "Nenosiri la sasa lazima liwe na angalau herufi {min}",
+  "validation.notesMax": "Maelezo yasizidi herufi {max}",
+  "validation.clientRequired": "Mteja anahitajika",
+  "validation.newPasswordMin":
+    "Nenosiri jipya lazima liwe na angalau herufi {min}",
+  "validation.newPasswordMax": "Nenosiri jipya lisizidi herufi {max}",
+  "validation.describeChanges": "Eleza mabadiliko unayohitaji",
+  "validation.rangeEnd": "Mwisho wa kipindi lazima uwe baada ya muda wa kuanza",
+  "validation.shareTarget": "Shiriki delivery au folder",
+  "validation.expiryFuture": "Muda wa kuisha lazima uwe wa baadaye",
+  "validation.expiryMax": "Viungo vinaweza kudumu kwa siku {days} tu",
+  "validation.passwordsMismatch": "Manenosiri hayalingani.",
+
+  // Client link
+  "clientLink.label": "Kiungo cha mteja:",
+  "clientLink.copyTitle": "Nakili kiungo",
+
+  // Recovery codes
+  "recoveryCodes.intro":
+    "Hifadhi misimbo hii ya dharura mahali salama. Kila mmoja unakuingiza mara moja ukipoteza programu yako ya uthibitisho. Haitaonyeshwa tena.",
+
+  // Two-factor
+  "twoFactor.enroll.scan":
+    "Changanua msimbo huu wa QR kwa programu ya uthibitisho (Google Authenticator, 1Password, Authy…).",
+  "twoFactor.enroll.enterCode":
+    "Weka msimbo wa tarakimu sita unaoonyeshwa na programu ili kumaliza.",
+  "twoFactor.enroll.qrAlt": "Msimbo wa QR wa uthibitisho",
+  "twoFactor.enroll.manual":
+    "Huwezi kuchanganua? Weka ufunguo huu badala yake:",
+  "twoFactor.verifying": "Inathibitisha...",
+  "twoFactor.enroll.submit": "Thibitisha na uwashe",
+  "twoFactor.requestFailed": "Ombi limeshindwa.",
+  "twoFactor.title": "Uthibitisho wa hatua mbili",
+  "twoFactor.description":
+    "Hitaji msimbo kutoka kwenye programu ya uthibitisho pamoja na nenosiri lako unapoingia.",
+  "twoFactor.enabled": "Imewashwa",
+  "twoFactor.off": "Imezimwa",
+  "twoFactor.codesLeftOne": "Msimbo {count} wa dharura umebaki",
+  "twoFactor.codesLeft": "Misimbo {count} ya dharura imebaki",
+  "twoFactor.requiredForRole": "Inahitajika kwa nafasi yako",
+  "twoFactor.roleRequires":
+    "Nafasi yako inahitaji uthibitisho wa hatua mbili. Utaombwa kuuweka utakapoingia tena.",
+  "twoFactor.done": "Nimemaliza",
+  "twoFactor.moveDevice": "Hamia kifaa kipya",
+  "twoFactor.setUp": "Weka uthibitisho wa hatua mbili",
+  "twoFactor.newCodes": "Misimbo mipya ya dharura",
+  "twoFactor.turnOff": "Zima",
+  "twoFactor.confirmPassword": "Thibitisha nenosiri lako",
+  "twoFactor.checking": "Inakagua...",
+  "twoFactor.currentPassword": "Nenosiri la sasa",
+  "twoFactor.codeLabel": "Msimbo wa uthibitisho au wa dharura",
+  "twoFactor.regenerateWarning":
+    "Misimbo yako ya dharura ya sasa itaacha kufanya kazi mipya ikitengenezwa.",
+  "twoFactor.working": "Inashughulikia...",
+  "twoFactor.generateCodes": "Tengeneza misimbo",
+  "twoFactor.turnOffTwoFactor": "Zima uthibitisho wa hatua mbili",
+
+  // Delivery review summary
+  "reviewSummary.title": "Mapitio ya mteja",
+  "reviewSummary.approved": "{count} zimeidhinishwa",
+  "reviewSummary.changesRequested": "{count} zimeombewa mabadiliko",
+  "reviewSummary.awaiting": "{count} zinasubiri mapitio",
+
+  // Delivery review dialog
+  "review.title": "Kagua kazi iliyowasilishwa",
+  "review.notesLabel": "Maelezo kwa timu",
+  "review.notesPlaceholder":
+    "Yanahitajika unapoomba mabadiliko, k.m. muda na cha kurekebisha",
+  "review.requestChanges": "Omba mabadiliko",
+  "review.approve": "Idhinisha",
+
+  // Delivery versions
+  "versions.loadFailed": "Imeshindwa kupakia matoleo",
+  "versions.title": "Historia ya matoleo",
+  "versions.closeLabel": "Funga historia ya matoleo",
+  "versions.latest": "Jipya zaidi",
+  "versions.uploadNew": "Pakia toleo jipya",
+
+  // Folder tree
+  "folders.all": "Folda Zote",
+
+  // Trash
+  "trash.loadFailed": "Imeshindwa kupakia Tupio",
+  "trash.restoreFailed": "Imeshindwa kurejesha kipengee",
+  "trash.confirmDeleteFolder":
+    "Futa “{name}” kabisa? Folda hii na kila kilichomo haviwezi kurejeshwa.",
+  "trash.confirmDeleteFile": "Futa “{name}” kabisa? Haiwezi kurejeshwa.",
+  "trash.deleteFailed": "Imeshindwa kufuta kipengee",
+  "trash.title": "Tupio",
+  "trash.retention":
+    "Vipengee hufutwa kabisa siku {days} baada ya kuhamishiwa hapa.",
+  "trash.closeLabel": "Funga tupio",
+  "trash.empty": "Tupio liko tupu.",
+  "trash.fileCount": "Faili {count}",
+  "trash.deleted": "Imefutwa {date}",
+  "trash.deletedBy": "Imefutwa {date} na {name}",
+  "trash.goneAfter": "Itaondolewa baada ya {date}",
+  "trash.restore": "Rejesha",
+  "trash.deleteForever": "Futa kabisa",
+
+  // Share links
+  "shareLinks.status.active": "Hai",
+  "shareLinks.status.expired": "Imeisha muda",
+  "shareLinks.status.revoked": "Imebatilishwa",
+  "shareLinks.loadFailed": "Imeshindwa kupakia viungo vya kushiriki",
+  "shareLinks.chooseTarget": "Chagua kazi au folda ya kushiriki.",
+  "shareLinks.confirmRevoke":
+    "Batilisha kiungo hiki? Yeyote anayekitumia atapoteza ufikiaji.",
+  "shareLinks.revokeFailed": "Imeshindwa kubatilisha kiungo",
+  "shareLinks.title": "Viungo vya kushiriki",
+  "shareLinks.intro":
+    "Waruhusu watu wasio na akaunti kuona kazi iliyokamilika.",
+  "shareLinks.share": "Shiriki",
+  "shareLinks.choose": "Chagua…",
+  "shareLinks.folders": "Folda",
+  "shareLinks.deliveries": "Kazi zilizowasilishwa",
+  "shareLinks.expiresOn": "Inaisha tarehe",
+  "shareLinks.password": "Nenosiri (si lazima)",
+  "shareLinks.allowDownloads": "Ruhusu kupakua (vinginevyo kutazama tu)",
+  "shareLinks.creating": "Inaunda...",
+  "shareLinks.create": "Unda kiungo",
+  "shareLinks.copyNow": "Nakili kiungo hiki sasa — hakitaonyeshwa tena.",
+  "shareLinks.expires": "inaisha {date}",
+  "shareLinks.views": "mara {count} kutazamwa",
+  "shareLinks.downloads": "mara {count} kupakuliwa",
+  "shareLinks.passwordProtected": "nenosiri",
+  "shareLinks.streamOnly": "kutazama tu",
+  "shareLinks.by": "na {name}",
+  "shareLinks.revoke": "Batilisha",
+  "shareLinks.empty": "Bado hakuna viungo vya kushiriki.",
+
+  // Video review comments
+  "comments.loadFailed": "Imeshindwa kupakia maoni",
+  "comments.markers": "Alama za maoni",
+  "comments.title": "Maoni ({count})",
+  "comments.showResolved": "Onyesha yaliyotatuliwa ({count})",
+  "comments.hideResolved": "Ficha yaliyotatuliwa ({count})",
+  "comments.add": "Ongeza maoni",
+  "comments.at": "Saa {time}",
+  "comments.attachTime": "Ambatisha muda wa sasa",
+  "comments.until": "Hadi {time}",
+  "comments.setRangeEnd": "Weka mwisho wa kipande",
+  "comments.posting": "Inatuma...",
+  "comments.post": "Toa maoni",
+  "comments.reply": "Jibu",
+  "comments.reopen": "Fungua tena",
+  "comments.resolve": "Tatua",
+  "comments.resolvedBy": "Imetatuliwa na {name}",
+  "comments.writeReply": "Andika jibu",
+  "comments.send": "Tuma",
+  "comments.empty": "Bado hakuna maoni.",
+
+  // Drive
+  "drive.select": "Chagua {name}",
+  "drive.renaming": "Inabadilisha jina...",
+  "drive.rename": "Badilisha jina",
+  "drive.deleting": "Inafuta...",
+  "drive.itemCount": "Vipengee {count}",
+  "drive.approved": "Imeidhinishwa",
+  "drive.changesRequested": "Mabadiliko yameombwa",
+  "drive.empty": "Bado hakuna kitu hapa.",
+  "drive.assets": "Faili za mteja",
+  "drive.preview": "Hakiki",
+  "drive.versions": "Matoleo",
+  "drive.review": "Kagua",
+  "drive.newSubfolder": "Folda ndogo mpya",
+  "drive.search": "Tafuta faili na folda",
+  "drive.gridView": "Mwonekano wa gridi",
+  "drive.listView": "Mwonekano wa orodha",
+  "drive.newFolder": "Folda mpya",
+  "drive.upload": "Pakia",
+  "drive.allContent": "Maudhui Yote",
+  "drive.downloadSelected": "Pakua vilivyochaguliwa ({count})",
+  "drive.downloadFolder": "Pakua folda",
+  "drive.downloadAll": "Pakua zote",
+  "drive.defaultFolderName": "Folda Mpya",
+
+  // Email history and outbox
+  "emails.loadFailed": "Imeshindwa kupakia barua pepe",
+  "emails.loadOneFailed": "Imeshindwa kupakia barua pepe hii",
+  "emails.confirmResend": "Tuma “{subject}” kwa {to}?",
+  "emails.resendFailed": "Imeshindwa kutuma tena barua pepe",
+  "emails.sent": "Imetumwa",
+  "emails.recipients": "Wapokeaji",
+  "emails.resendTag": "imetumwa tena",
+  "emails.cc": "nakala {to}",
+  "emails.status.QUEUED": "Kwenye foleni",
+  "emails.status.SENT": "Imetumwa",
+  "emails.status.RETRYING": "Inajaribu tena",
+  "emails.status.FAILED": "Imeshindwa",
+  "emails.resending": "Inatuma tena...",
+  "emails.resend": "Tuma tena",
+  "emails.smtpResponse": "Jibu la SMTP:",
+  "emails.loadingMessage": "Inapakia ujumbe...",
+  "emails.redacted":
+    "Link za kubadilisha password na password zimefichwa kwenye nakala hii, hivyo haiwezi kutumwa tena.",
+  "emails.empty": "Bado hakuna barua pepe.",
+  "emails.showAll": "Onyesha barua pepe zote",
+  "emails.anyStatus": "Hali yoyote",
+
+  // Sign out
+  "signOut.confirm": "Una uhakika unataka kutoka?",
+  "signOut.signingOut": "Inatoka...",
+
+  // Forgot password
+  "forgotPassword.failed":
+    "Imeshindwa kutuma barua pepe ya kuweka upya. Tafadhali jaribu tena.",
+  "forgotPassword.title": "Umesahau nenosiri",
+  "forgotPassword.intro":
+    "Weka barua pepe ya akaunti yako nasi tutakutumia kiungo cha kuweka upya",
+  "forgotPassword.sentBefore": "Ikiwa akaunti ya",
+  "forgotPassword.sentAfter":
+    " ipo, kiungo cha kuweka upya kiko njiani. Angalia kikasha chako — kiungo kinaisha muda hivi karibuni na kinaweza kutumika mara moja tu.",
+  "forgotPassword.sending": "Inatuma...",
+  "forgotPassword.send": "Tuma kiungo cha kuweka upya",
+  "forgotPassword.backToSignIn": "Rudi kuingia",
+
+  // Reset password
+  "resetPassword.failed": "Imeshindwa kuweka upya nenosiri.",
+  "resetPassword.title": "Chagua nenosiri jipya",
+  "resetPassword.checking": "Inakagua kiungo...",
+  "resetPassword.invalid": "Kiungo hiki si sahihi au kimeisha muda.",
+  "resetPassword.requestNew": "Omba kingine",
+  "resetPassword.done": "Nenosiri lako limebadilishwa. Inakupeleka kuingia...",
+  "resetPassword.submit": "Weka upya nenosiri",
+
+  // Password fields
+  "password.new": "Nenosiri jipya",
+  "password.confirmNew": "Thibitisha nenosiri jipya",
+  "password.lengthHint": "Herufi {min}–{max}.",
+
+  // Sign in
+  "signIn.setupFailed": "Imeshindwa kuanza kuweka uthibitisho wa hatua mbili",
+  "signIn.invalidCode": "Msimbo huo si sahihi. Jaribu tena.",
+  "signIn.locked":
+    "Akaunti hii imefungwa kwa muda baada ya majaribio mengi yaliyoshindwa. Angalia barua pepe yako, au weka upya nenosiri lako ili kuifungua.",
+  "signIn.throttled": "Majaribio mengi mno. Subiri kidogo kisha ujaribu tena.",
+  "signIn.invalidCredentials": "Taarifa za kuingia si sahihi",
+  "signIn.failed": "Imeshindwa kuingia",
+  "signIn.verificationFailed": "Uthibitisho umeshindwa",
+  "signIn.intro": "Ingia kwenye Alfatonics Client Delivery",
+  "signIn.enterCode": "Weka msimbo kutoka kwenye programu yako ya uthibitisho",
+  "signIn.setupRequired": "Nafasi yako inahitaji uthibitisho wa hatua mbili",
+  "signIn.twoFactorOn": "Uthibitisho wa hatua mbili umewashwa",
+  "signIn.signingIn": "Inaingia...",
+  "signIn.savedContinue": "Nimeihifadhi — endelea",
+  "signIn.codePlaceholder": "123456 au msimbo wa dharura",
+  "signIn.verify": "Thibitisha",
+  "signIn.differentAccount": "Tumia akaunti nyingine",
+  "signIn.hidePassword": "Ficha nenosiri",
+  "signIn.showPassword": "Onyesha nenosiri",
+  "signIn.forgot": "Umesahau nenosiri lako?",
+
+  // New project
+  "newProject.title": "Unda Mradi Mpya",
+  "newProject.titleLabel": "Kichwa (si lazima)",
+  "newProject.titlePlaceholder": "k.m., Video ya Uzinduzi wa Bidhaa",
+  "newProject.descriptionLabel": "Maelezo (si lazima)",
+  "newProject.descriptionPlaceholder": "Eleza mahitaji ya mradi wako...",
+  "newProject.creating": "Inaunda...",
+  "newProject.submit": "Unda Mradi",
+  "newProject.fetchClientsFailed": "Imeshindwa kupata wateja",
+  "newProject.loadClientsFailed": "Imeshindwa kupakia wateja",
+  "newProject.client": "Mteja",
+  "newProject.loadingClients": "Inapakia wateja...",
+  "newProject.selectClient": "-- Chagua mteja --",
+  "newProject.staffDescriptionPlaceholder": "Eleza mahitaji ya mradi...",
+
+  // Project status
+  "projectStatus.PENDING": "Inasubiri",
+  "projectStatus.IN_PROGRESS": "Inaendelea",
+  "projectStatus.COMPLETED": "Imekamilika",
+  "projectStatus.CHANGES_REQUESTED": "Mabadiliko yameombwa",
+  "projectStatus.APPROVED": "Imeidhinishwa",
+
+  // Project lists
+  "projects.newProject": "Mradi Mpya",
+  "projects.new": "Mpya",
+  "projects.empty": "Bado hakuna miradi",
+  "projects.emptyHint": "Unda mradi wako wa kwanza ili kuanza.",
+  "projects.customer": "Mteja {id}",
+  "projects.deliveryCountOne": "Kazi {count} iliyowasilishwa",
+  "projects.deliveryCount": "Kazi {count} zilizowasilishwa",
+  "projects.project": "Mradi {id}",
+  "projects.assetCountOne": "Faili {count} ya mteja",
+  "projects.assetCount": "Faili {count} za mteja",
+
+  // Staff dashboard
+  "staff.title": "Dashibodi ya Wafanyakazi",
+  "staff.active": "Miradi Inayoendelea",
+  "staff.completed": "Miradi Iliyokamilika",
+  "staff.empty": "Bado hujapewa miradi",
+
+  // Uploads
+  "upload.failed": "Upakiaji umeshindwa",
+  "upload.title": "Pakia Video",
+  "upload.selectClient": "Chagua mteja",
+  "upload.chooseClient": "-- Chagua mteja --",
+  "upload.videoFile": "Faili ya video",
+  "upload.uploading": "Inapakia...",
+  "upload.initError": "Imeshindwa kuanzisha upakiaji",
+  "upload.initFailedFor": "Imeshindwa kuanza kupakia {name}: {status}",
+  "upload.invalidResponse":
+    "Jibu batili kutoka kwa seva kwa {name}: viungo vya kupakia havipo",
+  "upload.partFailedFor":
+    "Sehemu {part} ya {name} imeshindwa kupakiwa: {message}",
+  "upload.noEtag":
+    "Sehemu {part} ya {name} imeshindwa kupakiwa: hakuna ETag iliyopokelewa",
+  "upload.completeFailedFor":
+    "Imeshindwa kukamilisha upakiaji wa {name}: {status}",
+  "uploadSessions.title": "Upakiaji ambao haujakamilika",
+  "uploadSessions.intro":
+    "Upakiaji huu ulisimama kabla ya kukamilika. Chagua faili lile lile tena ili kupakia sehemu iliyobaki.",
+  "uploadSessions.kindAsset": "Faili la kazi",
+  "uploadSessions.kindDelivery": "Kazi iliyokamilika",
+  "uploadSessions.progress": "{uploaded} kati ya {total} imepakiwa",
+  "uploadSessions.resume": "Endelea",
+  "uploadSessions.resuming": "Inapakia...",
+  "uploadSessions.discard": "Acha",
+  "uploadSessions.confirmDiscard":
+    "Acha upakiaji wa {name} ambao haujakamilika? Sehemu zilizopakiwa hadi sasa zitafutwa.",
+  "uploadSessions.wrongFile":
+    "Hilo si faili ambalo upakiaji huu ulianza nalo. Chagua {name} tena.",
+  "uploadSessions.loadFailed":
+    "Imeshindwa kupakia upakiaji ambao haujakamilika.",
+  "uploadSessions.discardFailed": "Imeshindwa kuacha upakiaji.",
+  "uploads.title": "Upakiaji ({done} kati ya {total} vimekamilika)",
+  "uploads.collapse": "Ficha upakiaji",
+  "uploads.expand": "Onyesha upakiaji",
+  "uploads.clearFinished": "Ondoa vilivyokamilika",
+  "uploads.queued": "Inasubiri",
+  "uploads.paused": "Imesitishwa",
+  "uploads.completed": "Imekamilika",
+  "uploads.canceled": "Imeghairiwa",
+  "uploads.progress": "{uploaded} kati ya {total}",
+  "uploads.speed": "{speed}/s",
+  "uploads.etaSeconds": "Sekunde {seconds} zimebaki",
+  "uploads.etaMinutes": "Dakika {minutes} zimebaki",
+  "uploads.etaHours": "Saa {hours} dakika {minutes} zimebaki",
+  "uploads.pause": "Sitisha",
+  "uploads.resume": "Endelea",
+  "uploads.retry": "Jaribu tena",
+  "uploads.cancel": "Ghairi",
+  "checksum.label": "SHA-256",
+  "checksum.verify": "Kagua nakala uliyopakua",
+  "checksum.verifying": "Inakagua...",
+  "checksum.match": "Inalingana: nakala iko salama.",
+  "checksum.mismatch": "Hailingani: pakua file tena.",
+  "checksum.failed": "Kivinjari hiki hakikuweza kuhesabu hash ya file.",
+
+  // Profile
+  "profile.loadFailed": "Imeshindwa kupakia wasifu.",
+  "profile.passwordFailed": "Imeshindwa kubadilisha nenosiri.",
+  "profile.passwordUpdated": "Nenosiri limebadilishwa.",
+  "profile.loading": "Inapakia wasifu...",
+  "profile.title": "Wasifu Wangu",
+  "profile.email": "Barua pepe:",
+  "profile.role": "Nafasi:",
+  "profile.changePassword": "Badilisha Nenosiri",
+  "profile.passwordIntro":
+    "Weka nenosiri lako la sasa, kisha uchague jipya. Tumia angalau herufi sita.",
+  "profile.hideCurrent": "Ficha nenosiri la sasa",
+  "profile.showCurrent": "Onyesha nenosiri la sasa",
+  "profile.hideNew": "Ficha nenosiri jipya",
+  "profile.showNew": "Onyesha nenosiri jipya",
+  "profile.hideConfirm": "Ficha uthibitisho wa nenosiri",
+  "profile.showConfirm": "Onyesha uthibitisho wa nenosiri",
+  "profile.updating": "Inabadilisha...",
+  "profile.updatePassword": "Badilisha Nenosiri",
+
+  // Admin dashboard
+  "admin.title": "Dashibodi ya Msimamizi",
+  "admin.manageUsers": "Simamia Watumiaji",
+  "admin.auditLog": "Kumbukumbu za Ukaguzi",
+  "admin.emails": "Barua pepe",
+  "admin.emailTemplates": "Violezo vya Barua pepe",
+  "admin.jobs": "Kazi za Mfumo",
+  "admin.webhooks": "Webhooks",
+  "admin.apiDocs": "Marejeo ya API",
+  "admin.stats.totalProjects": "Jumla ya Miradi",
+  "admin.stats.pending": "Inasubiri",
+  "admin.stats.inProgress": "Inaendelea",
+  "admin.stats.completed": "Imekamilika",
+  "admin.stats.totalClients": "Jumla ya Wateja",
+  "admin.stats.totalStaff": "Jumla ya Wafanyakazi",
+  "admin.recentProjects": "Miradi ya Hivi Karibuni",
+  "admin.clientLabel": "Mteja: {email}",
+  "admin.staffLabel": "Wafanyakazi: {emails}",
+  "admin.createdByLabel": "Imeundwa na: {email}",
+  "admin.emailSent": "Barua pepe imetumwa {date}",
+  "admin.awaitingEmail": "Inasubiri barua pepe kwa mteja",
+
+  // Background jobs
+  "jobs.pendingAndFailed": "Zinazosubiri na zilizoshindwa",
+  "jobs.status.QUEUED": "Kwenye foleni",
+  "jobs.status.RUNNING": "Inaendeshwa",
+  "jobs.status.DEAD": "Imeshindwa",
+  "jobs.status.SUCCEEDED": "Imefaulu",
+  "jobs.loadFailed": "Imeshindwa kupakia kazi",
+  "jobs.retryFailed": "Imeshindwa kurudia kazi",
+  "jobs.title": "Kazi za Nyuma",
+  "jobs.job": "Kazi",
+  "jobs.attempts": "Majaribio",
+  "jobs.nextRun": "Itaendeshwa",
+  "jobs.lastError": "Hitilafu ya mwisho",
+  "jobs.done": "Imemalizika {date}",
+  "jobs.retry": "Jaribu tena",
+  "jobs.runNow": "Endesha sasa",
+  "jobs.empty": "Hakuna kazi hapa.",
+  "jobs.summary.emailSend": "Barua pepe ya kikasha {id}",
+  "jobs.summary.webhookDeliver": "Uwasilishaji wa webhook {id}",
+
+  // Audit log
+  "audit.loadFailed": "Imeshindwa kupakia kumbukumbu za ukaguzi",
+  "audit.export": "Hamisha CSV",
+  "audit.user": "Mtumiaji",
+  "audit.anyone": "Yeyote",
+  "audit.project": "Mradi",
+  "audit.allProjects": "Miradi yote",
+  "audit.action": "Kitendo",
+  "audit.allActions": "Vitendo vyote",
+  "audit.from": "Kuanzia",
+  "audit.to": "Hadi",
+  "audit.when": "Lini",
+  "audit.who": "Nani",
+  "audit.target": "Lengo",
+  "audit.ip": "IP",
+  "audit.system": "Mfumo / asiyejulikana",
+  "audit.field": "Sehemu",
+  "audit.before": "Kabla",
+  "audit.after": "Baada",
+  "audit.empty": "Hakuna matukio yanayolingana na vichujio hivi.",
+
+  // Shared page
+  "share.defaultTitle": "Faili zilizoshirikiwa",
+  "share.passwordProtected": "Kiungo hiki kinalindwa kwa nenosiri.",
+  "share.availableUntil": "Kinapatikana hadi {date}",
+  "share.streamingOnly": "Kutazama tu",
+  "share.empty": "Bado hakuna kilichoshirikiwa hapa.",
+
+  // Users
+  "users.fetchSecurityFailed": "Imeshindwa kupata mipangilio ya usalama",
+  "users.fetchSettingsFailed": "Imeshindwa kupata mipangilio",
+  "users.updateSecurityFailed": "Imeshindwa kubadilisha mipangilio ya usalama",
+  "users.updateSettingsFailed": "Imeshindwa kubadilisha mipangilio",
+  "users.fetchFailed": "Imeshindwa kupata watumiaji",
+  "users.updateFailed": "Imeshindwa kubadilisha mtumiaji",
+  "users.confirmDelete":
+    "Una uhakika unataka kufuta mtumiaji huyu? Kitendo hiki hakiwezi kutenduliwa.",
+  "users.deleteFailed": "Imeshindwa kufuta mtumiaji",
+  "users.changePasswordFailed": "Imeshindwa kubadilisha nenosiri",
+  "users.passwordChanged": "Nenosiri limebadilishwa",
+  "users.confirmSendCredentials":
+    "Tuma taarifa za kuingia kwa {email}? Hii itaweka upya nenosiri lake.",
+  "users.sendCredentialsFailed":
+    "Imeshindwa kutuma taarifa za kuingia kwa mtumiaji.",
+  "users.credentialsSent": "Taarifa za kuingia zimetumwa.",
+  "users.confirmResetTwoFactor":
+    "Weka upya uthibitisho wa hatua mbili kwa {email}? Ataingia kwa nenosiri pekee, au ataombwa kujisajili tena ikiwa nafasi yake inauhitaji.",
+  "users.resetTwoFactorFailed":
+    "Imeshindwa kuweka upya uthibitisho wa hatua mbili",
+  "users.unlockFailed": "Imeshindwa kufungua mtumiaji",
+  "users.create": "Unda Mtumiaji",
+  "users.createTitle": "Unda Mtumiaji Mpya",
+  "users.nameOptional": "Jina (si lazima)",
+  "users.generate": "Tengeneza",
+  "users.passwordHint":
+    "Hutengenezwa kutoka kwa barua pepe/jina. Hariri ikiwa unataka nenosiri lako.",
+  "users.role": "Nafasi",
+  "users.language": "Lugha",
+  "users.languageHint":
+    "Inatumika kwa barua pepe ya taarifa za kuingia hadi atakapochagua lugha mwenyewe.",
+  "users.securityTitle": "Usalama wa kuingia",
+  "users.securityIntro":
+    "Watumiaji wenye nafasi inayohitajika lazima waweke programu ya uthibitisho watakapoingia tena.",
+  "users.requireForAdmins": "Hitaji uthibitisho wa hatua mbili kwa wasimamizi",
+  "users.requireForStaff": "Hitaji uthibitisho wa hatua mbili kwa wafanyakazi",
+  "users.createdBy": "Imeundwa Na",
+  "users.created": "Imeundwa",
+  "users.editTitle": "Hariri Mtumiaji",
+  "users.changePassword": "Badilisha Nenosiri",
+  "users.newPassword": "Nenosiri Jipya",
+  "users.confirmPassword": "Thibitisha Nenosiri",
+  "users.changing": "Inabadilisha...",
+  "users.twoFactorEnabled": "Uthibitisho wa hatua mbili umewashwa",
+  "users.lockedUntil": "Imefungwa hadi {date}",
+  "users.locked": "Imefungwa",
+  "users.recentFailures": "Majaribio ya hivi karibuni ya kuingia yaliyoshindwa",
+  "users.failedCount": "{count} yameshindwa",
+  "users.editUser": "Hariri mtumiaji",
+  "users.changePasswordTitle": "Badilisha nenosiri",
+  "users.emailCredentialsTitle": "Tuma taarifa za kuingia",
+  "users.emailing": "Inatuma...",
+  "users.emailCredentials": "Tuma Taarifa za Kuingia",
+  "users.emailsTitle": "Barua pepe zilizotumwa kwa mtumiaji huyu",
+  "users.unlockTitle": "Fungua akaunti",
+  "users.unlocking": "Inafungua...",
+  "users.unlock": "Fungua",
+  "users.resetTwoFactorTitle": "Weka upya uthibitisho wa hatua mbili",
+  "users.resetting": "Inaweka upya...",
+  "users.resetTwoFactor": "Weka upya 2FA",
+  "users.deleteTitle": "Futa mtumiaji",
+
+  // Project page
+  "projectPage.clientsCannotUploadAssets":
+    "Wateja hawawezi kupakia faili za kazi. Tafadhali wasiliana na msaada.",
+  "projectPage.clientsCannotUploadFiles":
+    "Wateja hawawezi kupakia faili. Tafadhali wasiliana na msaada.",
+  "projectPage.uploadAssetsFailed": "Imeshindwa kupakia faili za kazi",
+  "projectPage.createFolderFailed": 'Imeshindwa kuunda folda "{name}"',
+  "projectPage.unresolvedFolder": "Imeshindwa kupata folda lengwa.",
+  "projectPage.dropFailed": "Imeshindwa kuchakata folda iliyodondoshwa.",
+  "projectPage.selectAssetsFolder":
+    "Chagua folda ya Assets kabla ya kupakia faili.",
+  "projectPage.confirmTrashAsset": "Hamishia faili hili kwenye Tupio?",
+  "projectPage.previewUnavailable":
+    "Onyesho la awali halipatikani kwa aina hii ya faili.",
+  "projectPage.audioUnsupported":
+    "Kivinjari chako hakitumii kipengele cha sauti.",
+  "projectPage.closePreview": "Funga onyesho la awali",
+  "projectPage.description": "Maelezo",
+  "projectPage.share": "Shiriki",
+  "projectPage.clientEmpty":
+    "Bado hakuna kazi zilizokabidhiwa. Timu ya mradi wako itapakia kazi hapa zikiwa tayari.",
+  "projectPage.fetchFailedStatus": "Imeshindwa kupata mradi: {status}",
+  "projectPage.moveFolderFailed": "Imeshindwa kuhamisha folda",
+  "projectPage.moveAssetFailed": "Imeshindwa kuhamisha faili la kazi",
+  "projectPage.moveDeliveryFailed": "Imeshindwa kuhamisha kazi iliyokabidhiwa",
+  "projectPage.moveItemFailed": "Imeshindwa kuhamisha kipengee",
+  "projectPage.assetMoveTarget":
+    "Faili za kazi zinaweza kuhamishiwa kwenye folda za Assets pekee.",
+  "projectPage.deliveryMoveTarget":
+    "Kazi zilizokabidhiwa zinaweza kuhamishiwa kwenye folda za Project au Deliverables pekee.",
+  "projectPage.folderNameRequired": "Jina la folda linahitajika",
+  "projectPage.confirmTrashFolder":
+    "Una uhakika unataka kufuta “{name}”? Itahamishiwa kwenye Tupio pamoja na folda na faili zote zilizomo.",
+  "projectPage.renameFolder": "Badilisha jina la folda",
+  "projectPage.renameFolderFailed": "Imeshindwa kubadilisha jina la folda",
+  "projectPage.chooseAssetsFolder":
+    "Chagua folda ya Assets kabla ya kupakia faili.",
+  "projectPage.noAssetsFolder":
+    "Hakuna folda ya Assets. Tafadhali wasiliana na timu ya usimamizi.",
+  "projectPage.chooseDeliveryFolder":
+    "Chagua folda ya Project au Deliverables kabla ya kupakia kazi.",
+  "projectPage.noDeliveryFolder":
+    "Hakuna folda ya Deliverables au Project. Tafadhali unda folda kwanza.",
+  "projectPage.uploadDeliveriesFailed": "Imeshindwa kupakia kazi",
+  "projectPage.folderGone":
+    "Folda uliyochagua haipatikani tena. Pakia upya ukurasa kisha ujaribu tena.",
+  "projectPage.selectValidFolder":
+    "Chagua folda halali kabla ya kupakia faili.",
+  "projectPage.folderNamePrompt": "Jina la folda",
+  "projectPage.confirmTrashDelivery": "Hamishia kazi hii kwenye Tupio?",
+  "projectPage.updateStatusFailed": "Imeshindwa kusasisha hali",
+  "projectPage.updateProjectStatusFailed": "Imeshindwa kusasisha hali ya mradi",
+  "projectPage.submitForAdminFailed":
+    "Imeshindwa kuwasilisha mradi kwa msimamizi kukagua.",
+  "projectPage.submitted": "Kazi zimewasilishwa kwa msimamizi kwa ukaguzi.",
+  "projectPage.submitForReviewFailed":
+    "Imeshindwa kuwasilisha mradi kwa ukaguzi.",
+  "projectPage.submitting": "Inawasilisha...",
+  "projectPage.submitDeliveries": "Wasilisha kazi",
+  "projectPage.markInProgress": "Weka kuwa inaendelea",
+  "projectPage.uploadBeforeSubmit":
+    "Pakia angalau kazi moja kabla ya kuwasilisha mradi kwa msimamizi.",
+  "projectPage.submittedOn":
+    "Uliwasilishwa kwa msimamizi kukagua tarehe {date}",
+  "projectPage.clientEmailSent":
+    "Barua pepe kwa mteja ilitumwa tarehe {date}. Ikiwa marekebisho yanahitajika, wasiliana na timu ya usimamizi.",
+  "projectPage.awaitingAdmin":
+    "Inasubiri msimamizi akague na kumjulisha mteja.",
+  "projectPage.clientLabel": "Mteja: {email}",
+  "projectPage.teamEmpty":
+    "Bado hakuna folda wala faili. Tumia upau wa zana kuunda folda au kupakia faili za mradi.",
+  "projectPage.fetchStaffFailedStatus":
+    "Imeshindwa kupata wafanyakazi: {status}",
+  "projectPage.fetchDataFailed": "Imeshindwa kupata data",
+  "projectPage.deliveryMoveTargetAdmin":
+    "Kazi zilizokabidhiwa zinaweza kuhamishiwa kwenye folda za Deliverables au Project pekee.",
+  "projectPage.noAssetsFolderSupport":
+    "Hakuna folda ya Assets. Tafadhali wasiliana na msaada.",
+  "projectPage.selectDeliveryFolder":
+    "Chagua folda ya Deliverables au Project kabla ya kupakia kazi.",
+  "projectPage.assetInputNotReady":
+    "Sehemu ya kuchagua faili za kazi haiko tayari. Tafadhali pakia upya ukurasa.",
+  "projectPage.deliveryInputNotReady":
+    "Sehemu ya kuchagua kazi haiko tayari. Tafadhali pakia upya ukurasa.",
+  "projectPage.updateTitleFailed": "Imeshindwa kusasisha jina la mradi",
+  "projectPage.assignStaffFailed": "Imeshindwa kuwapangia wafanyakazi",
+  "projectPage.completionEmailFailed":
+    "Imeshindwa kutuma barua pepe ya kukamilika kwa mteja.",
+  "projectPage.clientEmailQueued":
+    "Barua pepe kwa mteja imewekwa foleni. Fuatilia utumaji wake kwenye Historia ya Barua Pepe.",
+  "projectPage.completionEmailFailedShort":
+    "Imeshindwa kutuma barua pepe ya kukamilika.",
+  "projectPage.assignStaffFirst":
+    "Mpangie mfanyakazi kabla ya kutuma barua pepe ya kazi.",
+  "projectPage.staffEmailFailed":
+    "Imeshindwa kutuma barua pepe ya kazi kwa wafanyakazi",
+  "projectPage.staffEmailQueued":
+    "Barua pepe ya kazi kwa wafanyakazi imewekwa foleni.",
+  "projectPage.staffEmailFailedDot":
+    "Imeshindwa kutuma barua pepe ya kazi kwa wafanyakazi.",
+  "projectPage.sendEmailFailed": "Imeshindwa kutuma barua pepe",
+  "projectPage.emailQueued": "Barua pepe imewekwa foleni",
+  "projectPage.backToDashboard": "Rudi kwenye dashibodi",
+  "projectPage.enterName": "Weka jina la mradi",
+  "projectPage.nameLabel": "Jina la mradi",
+  "projectPage.renameHint": "Bofya mara mbili kubadilisha jina la mradi",
+  "projectPage.reviewHeading": "Ukaguzi wa kazi na taarifa",
+  "projectPage.awaitingStaff":
+    "Inasubiri wafanyakazi wawasilishe kazi za mwisho.",
+  "projectPage.notSent": "Bado haijatumwa.",
+  "projectPage.clientEmail": "Barua pepe ya mteja",
+  "projectPage.cc": "CC (si lazima, tenganisha kwa koma)",
+  "projectPage.loginEmail": "Barua pepe ya kuingia (si lazima)",
+  "projectPage.loginEmailPlaceholder": "barua pepe ya mteja ya kuingia",
+  "projectPage.tempPassword": "Nenosiri la muda (si lazima)",
+  "projectPage.tempPasswordPlaceholder":
+    "Tengeneza au weka nenosiri la kuweka upya akaunti ya mteja",
+  "projectPage.generate": "Tengeneza",
+  "projectPage.sending": "Inatuma...",
+  "projectPage.resendEmail": "Tuma tena barua pepe",
+  "projectPage.sendToClient": "Tuma barua pepe kwa mteja",
+  "projectPage.completeBeforeEmail":
+    "Weka mradi kuwa umekamilika kabla ya kutuma barua pepe kwa mteja.",
+  "projectPage.assignStaff": "Pangia wafanyakazi",
+  "projectPage.noStaffAvailable": "Hakuna wafanyakazi wanaopatikana",
+  "projectPage.saveAssignment": "Hifadhi upangaji",
+  "projectPage.clearSelection": "Futa uteuzi",
+  "projectPage.adminsOnlyAssign":
+    "Wasimamizi pekee wanaweza kubadilisha upangaji wa wafanyakazi.",
+  "projectPage.assignedStaff": "Wafanyakazi waliopangiwa",
+  "projectPage.sendEmail": "Tuma barua pepe",
+  "projectPage.noStaffAssigned": "Hakuna wafanyakazi waliopangiwa kwa sasa.",
+  "projectPage.sendAllStaff":
+    "Tuma barua pepe kwa wafanyakazi wote waliopangiwa kwa pamoja",
+  "projectPage.emailAllStaff": "Tuma kwa wafanyakazi wote",
+  "projectPage.accessLink": "Kiungo cha mteja cha kufikia mradi",
+  "projectPage.copyLink": "Nakili kiungo",
+  "projectPage.openLink": "Fungua kiungo",
+  "projectPage.emailHistory": "Historia ya barua pepe",
+  "projectPage.openInEmails": "Fungua kwenye Barua Pepe",
+  "projectPage.assetUpload": "Upakiaji wa faili za kazi",
+  "projectPage.deliveryUpload": "Upakiaji wa kazi",
+  "projectPage.selectedCount": "{count} wamechaguliwa",
+  "projectPage.staffLabel": "Wafanyakazi: {emails}",
+  "projectPage.createdBy": "Imeundwa na: {email}",
+  "projectPage.submissionStatus": "Hali ya uwasilishaji:",
+  "projectPage.receivedOn": "Ilipokelewa tarehe {date}",
+  "projectPage.clientNotification": "Taarifa kwa mteja:",
+  "projectPage.sentOn": "Ilitumwa tarehe {date}",
+  "projectPage.by": "na",
+  "projectPage.loginEmailHint":
+    "Acha wazi kutumia barua pepe aliyosajiliwa nayo mteja.",
+  "projectPage.tempPasswordHint":
+    "Weka nenosiri la kuweka upya akaunti ya mteja na kulijumuisha kwenye barua pepe.",
+  "projectPage.assignStaffHint":
+    'Chagua mwanatimu mmoja au zaidi kusimamia mradi huu. Kupangia kunahamisha mradi kuwa "Inaendelea" moja kwa moja.',
+  "projectPage.assignedOn": "Alipangiwa {date}",
+  "projectPage.assignedOnBy": "Alipangiwa {date} na {email}",
+  "projectPage.sendAssignmentTo": "Tuma barua pepe ya kazi kwa {email}",
+  "projectPage.accessLinkHint":
+    "Mshirikishe mteja kiungo hiki ili afikie folda ya mradi wake moja kwa moja:",
+  "projectPage.adminEmpty":
+    "Bado hakuna folda wala faili. Tumia vitufe vilivyo juu kuunda folda au kupakia faili za mradi.",
+
+  // Notifications
+  "notifications.title": "Taarifa",
+  "notifications.unreadLabel": "Taarifa ({count} hazijasomwa)",
+  "notifications.unreadOne": "1 haijasomwa",
+  "notifications.unread": "{count} hazijasomwa",
+  "notifications.markAllRead": "Weka zote kuwa zimesomwa",
+  "notifications.viewAll": "Ona taarifa zote",
+  "notifications.empty": "Hakuna taarifa mpya.",
+  "notifications.emptyAll": "Bado hakuna taarifa.",
+  "notifications.emptyUnread": "Hakuna taarifa ambazo hazijasomwa.",
+  "notifications.showAll": "Zote",
+  "notifications.showUnread": "Hazijasomwa",
+  "notifications.loadFailed": "Imeshindwa kupakia taarifa",
+  "notifications.markReadFailed": "Imeshindwa kuweka taarifa kuwa zimesomwa",
+  "notifications.someone": "Mtu fulani",
+  "notifications.type.project.assigned": "{actor} amekupangia mradi {project}",
+  "notifications.type.project.submitted":
+    "{actor} amewasilisha {project} kwa ukaguzi",
+  "notifications.type.delivery.uploaded":
+    "Kazi mpya kwenye {project}: {filename}",
+  "notifications.type.delivery.version":
+    "Toleo {version} la {filename} liko tayari kwenye {project}",
+  "notifications.type.asset.uploaded":
+    "{actor} amepakia {filename} kwenye {project}",
+  "notifications.preferences.title": "Mipangilio ya taarifa",
+  "notifications.preferences.intro":
+    "Chagua jinsi unavyotaka kupata kila aina ya taarifa. Muhtasari wa kila siku ni email moja kwa siku yenye kila kitu kimepangwa kwa mradi.",
+  "notifications.preferences.event.project.assigned": "Nimepangiwa mradi",
+  "notifications.preferences.event.project.submitted":
+    "Mradi umewasilishwa kwa ukaguzi",
+  "notifications.preferences.event.delivery.uploaded":
+    "Delivery mpya iko tayari",
+  "notifications.preferences.event.asset.uploaded": "Client amepakia mafaili",
+  "notifications.preferences.delivery.IMMEDIATE": "Email papo hapo",
+  "notifications.preferences.delivery.DIGEST": "Muhtasari wa kila siku",
+  "notifications.preferences.delivery.IN_APP": "Kwenye app tu",
+  "notifications.preferences.delivery.OFF": "Zima",
+  "notifications.preferences.save": "Hifadhi mipangilio",
+  "notifications.preferences.saving": "Inahifadhi...",
+  "notifications.preferences.saved": "Mipangilio ya taarifa imehifadhiwa.",
+  "webhooks.title": "Webhooks",
+  "webhooks.intro":
+    "Webhooks hutuma data ya JSON iliyosainiwa kwenye URL yako kila jambo linapotokea kwenye portal. Utumaji ulioshindwa hujaribiwa tena kwa takriban saa moja.",
+  "webhooks.add": "Ongeza endpoint",
+  "webhooks.create": "Unda endpoint",
+  "webhooks.empty": "Bado hakuna endpoint za webhook.",
+  "webhooks.loadFailed": "Imeshindwa kupakia webhooks",
+  "webhooks.url": "URL ya kupokea",
+  "webhooks.description": "Maelezo",
+  "webhooks.descriptionPlaceholder": "Nini kinapokea matukio haya?",
+  "webhooks.events": "Matukio",
+  "webhooks.secret": "Siri ya kusaini",
+  "webhooks.secretPlaceholder": "Acha wazi ili itengenezwe",
+  "webhooks.secretOnce": "Nakili siri ya kusaini sasa. Haitaonyeshwa tena.",
+  "webhooks.secretSaved": "Nimeihifadhi",
+  "webhooks.active": "Inafanya kazi",
+  "webhooks.paused": "Imesitishwa",
+  "webhooks.pause": "Sitisha",
+  "webhooks.resume": "Endelea",
+  "webhooks.rotateSecret": "Badilisha siri",
+  "webhooks.confirmRotate":
+    "Badilisha siri ya kusaini ya {url}? Maombi yatasainiwa kwa siri mpya mara moja.",
+  "webhooks.confirmDelete":
+    "Futa endpoint ya webhook {url} pamoja na kumbukumbu zake za utumaji?",
+  "webhooks.sendTest": "Tuma jaribio",
+  "webhooks.testSucceeded": "Tukio la jaribio limefika (HTTP {status}).",
+  "webhooks.testFailed": "Tukio la jaribio limeshindwa: {error}",
+  "webhooks.noResponse": "hakuna jibu",
+  "webhooks.showLog": "Kumbukumbu za utumaji",
+  "webhooks.hideLog": "Ficha kumbukumbu",
+  "webhooks.lastDelivery": "Utumaji wa mwisho {date}",
+  "webhooks.neverDelivered": "Bado hakuna kilichotumwa",
+  "webhooks.event.project.created": "Mradi umeundwa",
+  "webhooks.event.project.status_changed": "Hali ya mradi imebadilika",
+  "webhooks.event.delivery.created": "Kazi iliyokamilika imepakiwa",
+  "webhooks.event.asset.created": "Mteja amepakia faili",
+  "webhooks.event.project.notified":
+    "Mteja au wafanyakazi wametumiwa barua pepe kuhusu mradi",
+  "webhooks.status.QUEUED": "Kwenye foleni",
+  "webhooks.status.SUCCEEDED": "Imefika",
+  "webhooks.status.RETRYING": "Inajaribu tena",
+  "webhooks.status.FAILED": "Imeshindwa",
+  "webhooks.log.loadFailed": "Imeshindwa kupakia utumaji",
+  "webhooks.log.sent": "Imetumwa",
+  "webhooks.log.event": "Tukio",
+  "webhooks.log.response": "Jibu",
+  "webhooks.log.attempts": "Majaribio",
+  "webhooks.log.duration": "ms {ms}",
+  "webhooks.log.payload": "Data iliyotumwa",
+  "webhooks.log.responseBody": "Maudhui ya jibu",
+  "webhooks.log.empty": "Bado hakuna utumaji.",
+  "webhooks.validation.url": "Weka URL sahihi ya http au https",
+  "webhooks.validation.events": "Chagua angalau tukio moja",
+  "webhooks.validation.secret": "Siri lazima iwe na angalau herufi 16",
+  "apiTokens.title": "Token za API",
+  "apiTokens.intro":
+    "Token binafsi huruhusu scripts na mifumo mingine kutumia REST API kwenye /api/v1 kwa niaba yako. Zitume kama header ya Authorization: Bearer na uzilinde kama nenosiri.",
+  "apiTokens.empty": "Huna token zinazofanya kazi.",
+  "apiTokens.create": "Unda token",
+  "apiTokens.creating": "Inaunda...",
+  "apiTokens.createdOnce": "Nakili token yako mpya sasa. Haitaonyeshwa tena.",
+  "apiTokens.name": "Jina",
+  "apiTokens.namePlaceholder": "mfano Script ya backup ya usiku",
+  "apiTokens.expiry": "Muda wa kuisha",
+  "apiTokens.expiryDays": "Baada ya siku {days}",
+  "apiTokens.noExpiry": "Haiishi",
+  "apiTokens.expires": "Inaisha {date}",
+  "apiTokens.lastUsed": "Ilitumika mwisho {date} kutoka {ip}",
+  "apiTokens.neverUsed": "Haijawahi kutumika",
+  "apiTokens.scopes": "Ruhusa",
+  "apiTokens.scope.READ": "Kusoma",
+  "apiTokens.scope.UPLOAD": "Kupakia",
+  "apiTokens.scope.ADMIN": "Admin",
+  "apiTokens.scopeHint.READ":
+    "Kuorodhesha na kupakua miradi, folda, faili na kazi zilizokamilika",
+  "apiTokens.scopeHint.UPLOAD":
+    "Kupakia faili na kazi zilizokamilika na kuunda folda",
+  "apiTokens.scopeHint.ADMIN": "Kusoma akaunti za watumiaji",
+  "apiTokens.revoke": "Futa",
+  "apiTokens.confirmRevoke":
+    "Futa token \"{name}\"? Scripts zinazoitumia zitaacha kufanya kazi mara moja.",
+  "apiTokens.revokeFailed": "Imeshindwa kufuta token",
+  "apiTokens.validation.name": "Ipe token jina",
+  "apiTokens.validation.scopes": "Chagua angalau ruhusa moja",
+  "apiTokens.validation.expiry":
+    "Chagua mojawapo ya vipindi vya kuisha vilivyotolewa",
+  "apiDocs.title": "Marejeo ya API",
+  "apiDocs.intro":
+    "Kila endpoint ya /api/v1, iliyotengenezwa kutoka schema ambazo API inatumia kuhakiki maombi. Pakua hati ya OpenAPI ili kutengeneza clients zenye aina kwa scripts zako.",
+  "apiDocs.download": "Pakua hati ya OpenAPI",
+  "apiDocs.loadFailed": "Imeshindwa kupakia marejeo ya API",
+  "apiDocs.server": "URL ya msingi: {url}",
+  "apiDocs.scope": "Scope: {scope}",
+  "apiDocs.parameters": "Vigezo",
+  "apiDocs.required": "lazima",
+  "apiDocs.requestBody": "Mwili wa ombi",
+  "apiDocs.responses": "Majibu",
+  "apiDocs.schemas": "Schema",
+};
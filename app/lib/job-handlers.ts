@@ -0,0 +1,87 @@
+import type { Job } from "@prisma/client";
+import { deliverEmail } from "@/app/lib/email";
+import { getStorage } from "@/app/lib/storage";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { purgeExpiredTrash } from "@/app/lib/trash";
+import { sendNotificationDigests } from "@/app/lib/notifications";
+import { deliverWebhook } from "@/app/lib/webhooks";
+import {
+  reconcileStorage,
+  summarizeStorageReport,
+} from "@/app/lib/storage-reconcile";
+import type { JobPayloads, JobType } from "@/app/lib/jobs";
+
+type JobAttempt = Pick<Job, "id" | "attempts" | "maxAttempts">;
+
+type JobHandlers = {
+  [T in JobType]: (payload: JobPayloads[T], job: JobAttempt) => Promise<void>;
+};
+
+async function purgeTrash() {
+  const purged = await purgeExpiredTrash();
+
+  for (const asset of purged.assets) {
+    await recordAuditEvent(null, null, {
+      action: "asset.purge",
+      targetType: "asset",
+      targetId: asset.id,
+      projectId: asset.projectId,
+      before: { filename: asset.filename },
+    });
+  }
+  for (const delivery of purged.deliveries) {
+    await recordAuditEvent(null, null, {
+      action: "delivery.purge",
+      targetType: "delivery",
+      targetId: delivery.id,
+      projectId: delivery.projectId,
+      before: { filename: delivery.filename },
+    });
+  }
+  for (const folder of purged.folders) {
+    await recordAuditEvent(null, null, {
+      action: "folder.purge",
+      targetType: "folder",
+      targetId: folder.id,
+      projectId: folder.projectId,
+      before: { name: folder.name },
+    });
+  }
+}
+
+// Stale uploads are safe to abort; orphaned objects are only reported, and
+// deleted by running `npm run storage:reconcile -- --delete-orphans`
+async function reconcileStorageJob() {
+  const report = await reconcileStorage({ abortStaleUploads: true });
+  await recordAuditEvent(null, null, {
+    action: "storage.reconcile",
+    targetType: "storage",
+    after: summarizeStorageReport(report),
+  });
+}
+
+const handlers: JobHandlers = {
+  "email.send": ({ messageId, content }, job) =>
+    deliverEmail(messageId, job, content),
+  "storage.delete": ({ key }) => getStorage().deleteObject(key),
+  "trash.purge": () => purgeTrash(),
+  "notifications.digest": async () => {
+    await sendNotificationDigests();
+  },
+  "webhook.deliver": ({ deliveryId }, job) => deliverWebhook(deliveryId, job),
+  "storage.reconcile": () => reconcileStorageJob(),
+};
+
+const isJobType = (type: string): type is JobType => type in handlers;
+
+/** Runs one claimed job; a thrown error sends it back for a retry */
+export async function runJob(job: Pick<Job, "type" | "payload"> & JobAttempt) {
+  if (!isJobType(job.type)) {
+    throw new Error(`No handler for job type "${job.type}"`);
+  }
+  const handler = handlers[job.type] as (
+    payload: unknown,
+    job: JobAttempt
+  ) => Promise<void>;
+  await handler(job.payload, job);
+}
@@ -0,0 +1,194 @@
+import { JobStatus, type Job, type Prisma } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import type { EmailContent } from "@/app/lib/email";
+import type { Translator } from "@/app/lib/i18n";
+
+/** What each job type carries; the worker's handlers are keyed on these */
+export type JobPayloads = {
+  // The outbox email to deliver, with its unmasked content when the outbox
+  // copy has secrets masked
+  "email.send": { messageId: string; content?: EmailContent };
+  "storage.delete": { key: string };
+  "trash.purge": Record<string, never>;
+  "notifications.digest": Record<string, never>;
+  "webhook.deliver": { deliveryId: string };
+  "storage.reconcile": Record<string, never>;
+};
+
+export type JobType = keyof JobPayloads;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Retries wait 30s, 1m, 2m, 4m ... never more than an hour
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// A job still RUNNING after this long belongs to a worker that died
+const STALE_LOCK_MS = Number(process.env.JOB_LOCK_TIMEOUT_MS) || 10 * 60 * 1000;
+
+// Finished jobs are kept this long for the admin view, then removed
+const SUCCEEDED_RETENTION_DAYS = 7;
+
+const MAX_ERROR_LENGTH = 2000;
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { runAt?: Date; maxAttempts?: number } = {}
+) {
+  return prisma.job.create({
+    data: {
+      type,
+      // Drops undefined fields so the payload is plain JSON
+      payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonObject,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    },
+  });
+}
+
+/**
+ * Locks up to `limit` due jobs for this worker. SKIP LOCKED lets several
+ * workers poll the same table without ever picking up the same job.
+ */
+export async function claimJobs(workerId: string, limit: number) {
+  const now = new Date();
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING', "lockedAt" = ${now}, "lockedBy" = ${workerId},
+      "attempts" = "attempts" + 1, "updatedAt" = ${now}
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'QUEUED' AND "runAt" <= ${now}
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"`;
+  if (claimed.length === 0) return [];
+  return prisma.job.findMany({
+    where: { id: { in: claimed.map((job) => job.id) } },
+    orderBy: { runAt: "asc" },
+  });
+}
+
+export async function completeJob(job: Pick<Job, "id">) {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: JobStatus.SUCCEEDED,
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  });
+}
+
+export const retryDelayMs = (attempts: number) =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+
+/**
+ * Puts a failed job back in the queue after an exponential backoff, or into
+ * the dead-letter state once it has used up its attempts.
+ */
+export async function failJob(
+  job: Pick<Job, "id" | "attempts" | "maxAttempts">,
+  error: unknown
+) {
+  const message = (
+    error instanceof Error ? error.message : String(error)
+  ).slice(0, MAX_ERROR_LENGTH);
+  const dead = job.attempts >= job.maxAttempts;
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: dead ? JobStatus.DEAD : JobStatus.QUEUED,
+      runAt: dead
+        ? undefined
+        : new Date(Date.now() + retryDelayMs(job.attempts)),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+    },
+  });
+  return dead;
+}
+
+/**
+ * Releases jobs left RUNNING by a worker that crashed or was killed. The
+ * interrupted run counts as an attempt.
+ */
+export async function recoverStaleJobs(now = new Date()) {
+  const stale = {
+    status: JobStatus.RUNNING,
+    lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+  };
+  const released = {
+    lockedAt: null,
+    lockedBy: null,
+    lastError: "The worker stopped before the job finished",
+  };
+
+  const [dead, requeued] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { ...stale, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: { ...released, status: JobStatus.DEAD },
+    }),
+    prisma.job.updateMany({
+      where: stale,
+      data: { ...released, status: JobStatus.QUEUED, runAt: now },
+    }),
+  ]);
+  return dead.count + requeued.count;
+}
+
+export async function pruneSucceededJobs(now = new Date()) {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: JobStatus.SUCCEEDED,
+      completedAt: {
+        lt: new Date(
+          now.getTime() - SUCCEEDED_RETENTION_DAYS * 24 * 60 * 60 * 1000
+        ),
+      },
+    },
+  });
+  return count;
+}
+
+/**
+ * Queues a dead or waiting job to run straight away with a fresh set of
+ * attempts. Returns null for jobs that are running or already done.
+ */
+export async function retryJob(id: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: { in: [JobStatus.DEAD, JobStatus.QUEUED] } },
+    data: { status: JobStatus.QUEUED, runAt: new Date(), attempts: 0 },
+  });
+  return count > 0 ? prisma.job.findUnique({ where: { id } }) : null;
+}
+
+const asText = (value: unknown) =>
+  Array.isArray(value) ? value.join(", ") : String(value ?? "");
+
+/**
+ * A one-line description for the admin view; payloads themselves stay
+ * server-side
+ */
+export function describeJob(job: Pick<Job, "type" | "payload">, t: Translator) {
+  const payload = (job.payload ?? {}) as Record<string, unknown>;
+  switch (job.type) {
+    case "email.send":
+      return t("jobs.summary.emailSend", { id: asText(payload.messageId) });
+    case "storage.delete":
+      return asText(payload.key);
+    case "webhook.deliver":
+      return t("jobs.summary.webhookDeliver", {
+        id: asText(payload.deliveryId),
+      });
+    default:
+      return "";
+  }
+}
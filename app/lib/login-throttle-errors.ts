@@ -0,0 +1,9 @@
+// Error codes thrown by the credentials provider when sign-in is throttled.
+// Like the two-factor codes, they reach signIn() as `error`.
+// Kept dependency-free so client components can import it.
+
+export const ACCOUNT_LOCKED = "ACCOUNT_LOCKED";
+export const LOGIN_THROTTLED = "LOGIN_THROTTLED";
+
+export type LoginThrottleErrorCode =
+  typeof ACCOUNT_LOCKED | typeof LOGIN_THROTTLED;
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+
+// In-memory stand-in for the two tables the throttle writes, understanding
+// just the filters it uses
+const { db, sendAccountLockedEmail } = vi.hoisted(() => {
+  const matches = (row: Row, where: Row): boolean =>
+    Object.entries(where).every(([field, condition]) => {
+      if (field === "OR") {
+        return (condition as Row[]).some((branch) => matches(row, branch));
+      }
+      const value = row[field] as number | Date | null;
+      if (condition === null || typeof condition !== "object") {
+        return value === condition;
+      }
+      if (condition instanceof Date) return value === condition;
+      // Dates and counts both compare as numbers
+      const { lt, lte, gt, not } = condition as Row;
+      if (lt !== undefined) return value !== null && +value < +(lt as Date);
+      if (lte !== undefined) return value !== null && +value <= +(lte as Date);
+      if (gt !== undefined) return value !== null && +value > (gt as number);
+      if (not === null) return value !== null;
+      return false;
+    });
+
+  const apply = (row: Row, data: Row) => {
+    for (const [field, value] of Object.entries(data)) {
+      const increment = (value as { increment?: number } | null)?.increment;
+      row[field] =
+        increment === undefined ? value : (row[field] as number) + increment;
+    }
+    return row;
+  };
+
+  const table = (key: string) => {
+    const rows = new Map<string, Row>();
+    return {
+      rows,
+      findUnique: async ({ where }: { where: Row }) =>
+        rows.get(where[key] as string) ?? null,
+      updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+        const hits = [...rows.values()].filter((row) => matches(row, where));
+        hits.forEach((row) => apply(row, data));
+        return { count: hits.length };
+      },
+      update: async ({ where, data }: { where: Row; data: Row }) =>
+        apply(rows.get(where[key] as string)!, data),
+      upsert: async ({
+        where,
+        create,
+        update,
+      }: {
+        where: Row;
+        create: Row;
+        update: Row;
+      }) => {
+        const existing = rows.get(where[key] as string);
+        if (existing) return apply(existing, update);
+        const row = { blockedUntil: null, ...create };
+        rows.set(where[key] as string, row);
+        return row;
+      },
+    };
+  };
+
+  return {
+    db: { user: table("id"), loginIpThrottle: table("ip") },
+    sendAccountLockedEmail: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock("@/app/lib/prisma", () => ({ prisma: db }));
+vi.mock("@/app/lib/email", () => ({ sendAccountLockedEmail }));
+
+import {
+  checkLoginAllowed,
+  clearLoginFailures,
+  isAccountLocked,
+  LOGIN_IP_BLOCK_THRESHOLD,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_LOCKOUT_THRESHOLD,
+  loginDelaySeconds,
+  recordLoginFailure,
+  waitingOut,
+} from "./login-throttle";
+import { ACCOUNT_LOCKED, LOGIN_THROTTLED } from "./login-throttle-errors";
+
+const START = new Date("2025-01-06T09:00:00Z");
+const LOCKOUT_MS = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+// Longest progressive delay, to step past it
+const MAX_DELAY_MS = 60 * 1000;
+const USER_ID = "user-1";
+
+const user = () =>
+  db.user.rows.get(USER_ID) as {
+    failedLoginCount: number;
+    lastFailedLoginAt: Date | null;
+    lockedUntil: Date | null;
+  };
+
+const advance = (ms: number) => vi.setSystemTime(new Date(Date.now() + ms));
+
+// Each failure from its own address, so only the account is counted
+let nextIp = 0;
+const failAccount = async (times: number) => {
+  for (let i = 0; i < times; i++) {
+    await recordLoginFailure(`10.0.0.${nextIp++}`, USER_ID);
+  }
+};
+
+describe("loginDelaySeconds", () => {
+  it("is free for the first attempts, then doubles up to a minute", () => {
+    expect([0, 1, 2].map((n) => loginDelaySeconds(n, 3))).toEqual([0, 0, 0]);
+    expect([3, 4, 5, 6].map((n) => loginDelaySeconds(n, 3))).toEqual([
+      1, 2, 4, 8,
+    ]);
+    expect(loginDelaySeconds(9, 3)).toBe(60);
+    expect(loginDelaySeconds(40, 3)).toBe(60);
+  });
+});
+
+describe("waitingOut", () => {
+  it("runs until the delay for the last failure has passed", () => {
+    const at = START;
+    const later = (ms: number) => new Date(at.getTime() + ms);
+    expect(waitingOut(2, at, 3, later(0))).toBe(false);
+    expect(waitingOut(4, at, 3, later(1999))).toBe(true);
+    expect(waitingOut(4, at, 3, later(2000))).toBe(false);
+    expect(waitingOut(4, null, 3, later(0))).toBe(false);
+  });
+});
+
+describe("isAccountLocked", () => {
+  it("holds only until lockedUntil", () => {
+    const lockedUntil = new Date(START.getTime() + 1000);
+    expect(isAccountLocked({ lockedUntil }, START)).toBe(true);
+    expect(isAccountLocked({ lockedUntil }, lockedUntil)).toBe(false);
+    expect(isAccountLocked({ lockedUntil: null }, START)).toBe(false);
+  });
+});
+
+describe("sign-in throttling", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START);
+    db.user.rows.clear();
+    db.loginIpThrottle.rows.clear();
+    db.user.rows.set(USER_ID, {
+      id: USER_ID,
+      email: "client@example.com",
+      name: "Client",
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    });
+    sendAccountLockedEmail.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("delays the account after its free attempts", async () => {
+    await failAccount(3);
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBe(LOGIN_THROTTLED);
+    advance(1000);
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBeNull();
+  });
+
+  it("locks the account at the threshold and emails the owner once", async () => {
+    await failAccount(LOGIN_LOCKOUT_THRESHOLD - 1);
+    expect(user().lockedUntil).toBeNull();
+
+    await failAccount(1);
+    expect(user().lockedUntil).toEqual(new Date(START.getTime() + LOCKOUT_MS));
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBe(ACCOUNT_LOCKED);
+
+    await failAccount(2);
+    expect(sendAccountLockedEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it("lifts the lock once the lockout has passed", async () => {
+    await failAccount(LOGIN_LOCKOUT_THRESHOLD);
+    advance(LOCKOUT_MS - 1);
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBe(ACCOUNT_LOCKED);
+    advance(MAX_DELAY_MS);
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBeNull();
+  });
+
+  it("forgets failures older than the lockout window", async () => {
+    await failAccount(LOGIN_LOCKOUT_THRESHOLD - 1);
+    advance(LOCKOUT_MS + 1);
+    await failAccount(1);
+    expect(user().failedLoginCount).toBe(1);
+    expect(user().lockedUntil).toBeNull();
+  });
+
+  it("clears the count and the lock", async () => {
+    await failAccount(LOGIN_LOCKOUT_THRESHOLD);
+    await clearLoginFailures(USER_ID);
+    expect(user()).toMatchObject({
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    });
+    expect(await checkLoginAllowed("192.0.2.1", user())).toBeNull();
+  });
+
+  it("blocks an address at its threshold, whichever accounts it tries", async () => {
+    const ip = "203.0.113.7";
+    for (let i = 0; i < LOGIN_IP_BLOCK_THRESHOLD - 1; i++) {
+      await recordLoginFailure(ip, null);
+    }
+    expect(db.loginIpThrottle.rows.get(ip)?.blockedUntil).toBeNull();
+
+    await recordLoginFailure(ip, null);
+    advance(MAX_DELAY_MS);
+    expect(await checkLoginAllowed(ip, null)).toBe(LOGIN_THROTTLED);
+    expect(await checkLoginAllowed("192.0.2.1", null)).toBeNull();
+
+    advance(LOCKOUT_MS);
+    expect(await checkLoginAllowed(ip, null)).toBeNull();
+    await recordLoginFailure(ip, null);
+    expect(db.loginIpThrottle.rows.get(ip)).toMatchObject({
+      failedCount: 1,
+      blockedUntil: null,
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { prisma } from "@/app/lib/prisma";
+import { sendAccountLockedEmail } from "@/app/lib/email";
+import {
+  ACCOUNT_LOCKED,
+  LOGIN_THROTTLED,
+  type LoginThrottleErrorCode,
+} from "@/app/lib/login-throttle-errors";
+
+// An account locks after this many consecutive failures...
+export const LOGIN_LOCKOUT_THRESHOLD =
+  Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 10;
+// ...for this long. Failures older than this no longer count either.
+export const LOGIN_LOCKOUT_MINUTES =
+  Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+// One address may fail this often (across any accounts) before it is blocked
+export const LOGIN_IP_BLOCK_THRESHOLD =
+  Number(process.env.LOGIN_IP_BLOCK_THRESHOLD) || 50;
+
+// Failures allowed back to back before the progressive delay kicks in
+const FREE_ACCOUNT_ATTEMPTS = 3;
+const FREE_IP_ATTEMPTS = 10;
+const MAX_DELAY_SECONDS = 60;
+
+export const lockoutMs = () => LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+
+/** Seconds to wait after the nth consecutive failure: 1, 2, 4 … capped */
+export const loginDelaySeconds = (failures: number, freeAttempts: number) =>
+  failures < freeAttempts
+    ? 0
+    : Math.min(2 ** (failures - freeAttempts), MAX_DELAY_SECONDS);
+
+type ThrottledUser = {
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+};
+
+export const isAccountLocked = (
+  user: Pick<ThrottledUser, "lockedUntil">,
+  now = new Date()
+) => Boolean(user.lockedUntil && user.lockedUntil > now);
+
+/** Whether the delay owed for the last failure is still running */
+export const waitingOut = (
+  failures: number,
+  lastFailedAt: Date | null,
+  freeAttempts: number,
+  now: Date
+) => {
+  if (!lastFailedAt) return false;
+  const delayMs = loginDelaySeconds(failures, freeAttempts) * 1000;
+  return now.getTime() < lastFailedAt.getTime() + delayMs;
+};
+
+/**
+ * Runs before the password is checked, so throttled attempts never reach
+ * bcrypt. Returns null when the attempt may go ahead.
+ */
+export async function checkLoginAllowed(
+  ip: string,
+  user: ThrottledUser | null
+): Promise<LoginThrottleErrorCode | null> {
+  const now = new Date();
+
+  const ipThrottle = await prisma.loginIpThrottle.findUnique({
+    where: { ip },
+  });
+  if (ipThrottle) {
+    if (ipThrottle.blockedUntil && ipThrottle.blockedUntil > now) {
+      return LOGIN_THROTTLED;
+    }
+    if (
+      waitingOut(
+        ipThrottle.failedCount,
+        ipThrottle.lastFailedAt,
+        FREE_IP_ATTEMPTS,
+        now
+      )
+    ) {
+      return LOGIN_THROTTLED;
+    }
+  }
+
+  if (user) {
+    if (isAccountLocked(user, now)) return ACCOUNT_LOCKED;
+    if (
+      waitingOut(
+        user.failedLoginCount,
+        user.lastFailedLoginAt,
+        FREE_ACCOUNT_ATTEMPTS,
+        now
+      )
+    ) {
+      return LOGIN_THROTTLED;
+    }
+  }
+
+  return null;
+}
+
+async function recordIpFailure(ip: string, now: Date) {
+  const windowStart = new Date(now.getTime() - lockoutMs());
+  // Failures from before the window start a fresh count
+  await prisma.loginIpThrottle.updateMany({
+    where: { ip, lastFailedAt: { lt: windowStart } },
+    data: { failedCount: 0, blockedUntil: null },
+  });
+  const throttle = await prisma.loginIpThrottle.upsert({
+    where: { ip },
+    create: { ip, failedCount: 1, lastFailedAt: now },
+    update: { failedCount: { increment: 1 }, lastFailedAt: now },
+  });
+  if (throttle.failedCount >= LOGIN_IP_BLOCK_THRESHOLD) {
+    await prisma.loginIpThrottle.update({
+      where: { ip },
+      data: { blockedUntil: new Date(now.getTime() + lockoutMs()) },
+    });
+  }
+}
+
+async function recordAccountFailure(userId: string, now: Date) {
+  const windowStart = new Date(now.getTime() - lockoutMs());
+  await prisma.user.updateMany({
+    where: { id: userId, lastFailedLoginAt: { lt: windowStart } },
+    data: { failedLoginCount: 0 },
+  });
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { email: true, name: true, failedLoginCount: true },
+  });
+  if (user.failedLoginCount < LOGIN_LOCKOUT_THRESHOLD) return;
+
+  // Only the request that actually flips the lock sends the email
+  const lockedUntil = new Date(now.getTime() + lockoutMs());
+  const locked = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+    },
+    data: { lockedUntil },
+  });
+  if (locked.count === 0) return;
+
+  try {
+    await sendAccountLockedEmail({
+      to: user.email,
+      name: user.name,
+      lockedMinutes: LOGIN_LOCKOUT_MINUTES,
+      failedAttempts: user.failedLoginCount,
+      userId,
+    });
+  } catch (error) {
+    console.error("Failed to send account locked email", error);
+  }
+}
+
+/**
+ * Counts a failed sign-in (wrong password or second factor) against the
+ * address and, when known, the account. Locks the account and emails its
+ * owner once the threshold is reached.
+ */
+export async function recordLoginFailure(ip: string, userId: string | null) {
+  const now = new Date();
+  await recordIpFailure(ip, now);
+  if (userId) await recordAccountFailure(userId, now);
+}
+
+/**
+ * Resets the failure count and lifts any lockout: after a successful sign-in,
+ * a completed password reset, or an admin unlock.
+ */
+export async function clearLoginFailures(userId: string) {
+  await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }],
+    },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
@@ -0,0 +1,81 @@
+// Notification types, who receives them and how their messages read. Kept
+// free of server imports so client components can use it too.
+import type { NotificationDelivery, Role } from "@prisma/client";
+import type { Translator } from "@/app/lib/i18n";
+
+export const NOTIFICATION_TYPES = [
+  "project.assigned",
+  "project.submitted",
+  "delivery.uploaded",
+  "asset.uploaded",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/** The role each type is sent to, so preferences only list what applies */
+export const NOTIFICATION_AUDIENCE: Record<NotificationType, Role> = {
+  "project.assigned": "STAFF",
+  "project.submitted": "ADMIN",
+  "delivery.uploaded": "CLIENT",
+  "asset.uploaded": "STAFF",
+};
+
+export const notificationTypesFor = (role: Role) =>
+  NOTIFICATION_TYPES.filter((type) => NOTIFICATION_AUDIENCE[type] === role);
+
+export const NOTIFICATION_DELIVERIES = [
+  "IMMEDIATE",
+  "DIGEST",
+  "IN_APP",
+  "OFF",
+] as const satisfies readonly NotificationDelivery[];
+
+// Used until the user picks something else. Assignments were always emailed
+// straight away; the other events started out in the app only.
+export const DEFAULT_NOTIFICATION_DELIVERY: Record<
+  NotificationType,
+  NotificationDelivery
+> = {
+  "project.assigned": "IMMEDIATE",
+  "project.submitted": "IN_APP",
+  "delivery.uploaded": "IN_APP",
+  "asset.uploaded": "IN_APP",
+};
+
+export const isNotificationType = (type: string): type is NotificationType =>
+  (NOTIFICATION_TYPES as readonly string[]).includes(type);
+
+/**
+ * Values the message is built from. The text itself is rendered when the
+ * notification is shown, so it follows the reader's current language.
+ */
+export type NotificationData = {
+  projectTitle: string | null;
+  actor: string | null; // Name or email of whoever caused the event
+  filename?: string;
+  version?: number;
+};
+
+/** The notification's message in the reader's language */
+export function notificationMessage(
+  t: Translator,
+  notification: {
+    type: NotificationType;
+    projectId: string | null;
+    data: NotificationData;
+  }
+) {
+  const { data, projectId } = notification;
+  const values = {
+    project:
+      data.projectTitle ||
+      t("projects.project", { id: projectId?.slice(0, 8) ?? "" }),
+    actor: data.actor || t("notifications.someone"),
+    filename: data.filename,
+    version: data.version,
+  };
+  if (notification.type === "delivery.uploaded" && (data.version ?? 1) > 1) {
+    return t("notifications.type.delivery.version", values);
+  }
+  return t(`notifications.type.${notification.type}`, values);
+}
@@ -0,0 +1,225 @@
+import type { NotificationDelivery, Prisma, Role } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import {
+  sendNotificationDigestEmail,
+  sendNotificationEmail,
+} from "@/app/lib/email";
+import {
+  DEFAULT_NOTIFICATION_DELIVERY,
+  NOTIFICATION_TYPES,
+  isNotificationType,
+  type NotificationData,
+  type NotificationType,
+} from "@/app/lib/notification-types";
+
+export type { NotificationData, NotificationType };
+
+export type NotificationInput = {
+  type: NotificationType;
+  projectId: string;
+  actorId: string | null;
+  data: NotificationData;
+};
+
+/** Shape returned by /api/notifications */
+export type NotificationView = {
+  id: string;
+  type: NotificationType;
+  projectId: string | null;
+  data: NotificationData;
+  readAt: string | null;
+  createdAt: string;
+  href: string | null;
+};
+
+const PROJECT_AREA: Record<Role, string> = {
+  ADMIN: "/admin",
+  STAFF: "/staff",
+  CLIENT: "/client",
+};
+
+/** Where a notification leads, from the recipient's side of the app */
+export const notificationHref = (role: Role, projectId: string | null) =>
+  projectId ? `${PROJECT_AREA[role]}/projects/${projectId}` : null;
+
+/** How the user who caused an event is named in the message */
+export const notificationActor = (
+  user: { name?: string | null; email?: string | null } | null
+) => user?.name || user?.email || null;
+
+export type NotificationRecipient = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+};
+
+/** Each type's delivery for one user, with defaults for types never set */
+export async function notificationPreferences(userId: string) {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId },
+  });
+  const preferences = { ...DEFAULT_NOTIFICATION_DELIVERY };
+  for (const preference of saved) {
+    if (isNotificationType(preference.type)) {
+      preferences[preference.type] = preference.delivery;
+    }
+  }
+  return preferences;
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: Partial<Record<NotificationType, NotificationDelivery>>
+) {
+  await prisma.$transaction(
+    NOTIFICATION_TYPES.filter((type) => preferences[type]).map((type) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, delivery: preferences[type]! },
+        update: { delivery: preferences[type] },
+      })
+    )
+  );
+  return notificationPreferences(userId);
+}
+
+async function deliveriesFor(userIds: string[], type: NotificationType) {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, type },
+  });
+  const deliveries = new Map(
+    userIds.map((userId) => [userId, DEFAULT_NOTIFICATION_DELIVERY[type]])
+  );
+  for (const preference of saved) {
+    deliveries.set(preference.userId, preference.delivery);
+  }
+  return deliveries;
+}
+
+/**
+ * Notifies each recipient the way they asked to hear about this type,
+ * leaving out whoever caused the event: nothing when it is off, otherwise a
+ * notification in the app that is also emailed straight away or saved for
+ * the daily digest. `sendEmail` replaces the generic email for types that
+ * have their own. Like the audit log, a failure is logged rather than thrown
+ * so the action itself still succeeds.
+ */
+export async function notifyUsers(
+  userIds: Iterable<string>,
+  input: NotificationInput,
+  sendEmail?: (recipient: NotificationRecipient) => Promise<unknown>
+) {
+  const recipients = [...new Set(userIds)].filter(
+    (userId) => userId !== input.actorId
+  );
+  if (recipients.length === 0) return;
+
+  try {
+    const deliveries = await deliveriesFor(recipients, input.type);
+    const notified = recipients.filter(
+      (userId) => deliveries.get(userId) !== "OFF"
+    );
+    await prisma.notification.createMany({
+      data: notified.map((userId) => ({
+        userId,
+        type: input.type,
+        projectId: input.projectId,
+        actorId: input.actorId,
+        data: input.data as Prisma.InputJsonObject,
+        inDigest: deliveries.get(userId) === "DIGEST",
+      })),
+    });
+
+    const immediate = await prisma.user.findMany({
+      where: {
+        id: {
+          in: notified.filter(
+            (userId) => deliveries.get(userId) === "IMMEDIATE"
+          ),
+        },
+      },
+      select: { id: true, email: true, name: true, role: true },
+    });
+    for (const recipient of immediate) {
+      const email = sendEmail
+        ? sendEmail(recipient)
+        : sendNotificationEmail({
+            to: recipient.email,
+            name: recipient.name,
+            notification: {
+              ...input,
+              href: notificationHref(recipient.role, input.projectId),
+            },
+            userId: recipient.id,
+          });
+      await email.catch((error) => {
+        console.error(
+          `Failed to email ${input.type} notification to ${recipient.email}:`,
+          error
+        );
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to create ${input.type} notifications:`, error);
+  }
+}
+
+/**
+ * Emails everyone on the daily digest the notifications saved up since
+ * their last one. Each user's notifications are marked as sent right after
+ * their email is queued, so a retried run does not send them twice.
+ */
+export async function sendNotificationDigests(now = new Date()) {
+  const pending = await prisma.notification.findMany({
+    where: { inDigest: true, digestedAt: null, createdAt: { lte: now } },
+    include: {
+      user: { select: { id: true, email: true, name: true, role: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const byUser = new Map<string, typeof pending>();
+  for (const notification of pending) {
+    byUser.set(notification.userId, [
+      ...(byUser.get(notification.userId) ?? []),
+      notification,
+    ]);
+  }
+
+  for (const notifications of byUser.values()) {
+    const { user } = notifications[0];
+    await sendNotificationDigestEmail({
+      to: user.email,
+      name: user.name,
+      notifications: notifications
+        .filter((notification) => isNotificationType(notification.type))
+        .map((notification) => ({
+          type: notification.type as NotificationType,
+          projectId: notification.projectId,
+          data: notification.data as NotificationData,
+          href: notificationHref(user.role, notification.projectId),
+        })),
+      userId: user.id,
+    });
+    await prisma.notification.updateMany({
+      where: {
+        id: { in: notifications.map((notification) => notification.id) },
+      },
+      data: { digestedAt: now },
+    });
+  }
+  return byUser.size;
+}
+
+/** Everyone who reviews submitted projects */
+export async function adminUserIds() {
+  const admins = await prisma.user.findMany({
+    where: { role: "ADMIN" },
+    select: { id: true },
+  });
+  return admins.map((admin) => admin.id);
+}
+
+export const unreadNotificationCount = (userId: string) =>
+  prisma.notification.count({ where: { userId, readAt: null } });
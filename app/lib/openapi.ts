@@ -0,0 +1,431 @@
+import { ApiTokenScope, ProjectStatus, Role } from "@prisma/client";
+import { z } from "zod";
+import {
+  v1AssetDownloadSchema,
+  v1AssetSchema,
+  v1CompleteDeliveryUploadSchema,
+  v1CompleteUploadSchema,
+  v1CreateFolderSchema,
+  v1DeliveryDownloadSchema,
+  v1DeliverySchema,
+  v1ErrorSchema,
+  v1FolderSchema,
+  v1MeSchema,
+  v1PageSchema,
+  v1PersonSchema,
+  v1ProjectDetailSchema,
+  v1ProjectSchema,
+  v1StartDeliveryUploadSchema,
+  v1StartUploadSchema,
+  v1UploadSchema,
+  v1UserSchema,
+} from "@/app/lib/api-v1-schemas";
+
+// The OpenAPI 3.1 document for /api/v1, generated from the same zod schemas
+// the routes validate with. Add an operation here whenever a v1 route is
+// added or changes shape.
+//
+// Only /api/v1 is described. The other routes under /api (and their schemas,
+// such as updateProjectSchema or notifySchema) serve the app's own pages:
+// they authenticate with the session cookie, which scripts don't have, and
+// change together with the pages. Integrations need a route added to v1.
+
+type JsonSchema = Record<string, unknown>;
+
+type Parameter = {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+};
+
+// Named response shapes, published under #/components/schemas
+const components = {
+  Error: v1ErrorSchema,
+  Person: v1PersonSchema,
+  User: v1UserSchema,
+  UserPage: v1PageSchema(v1UserSchema),
+  Me: v1MeSchema,
+  Folder: v1FolderSchema,
+  FolderList: z.object({ data: z.array(v1FolderSchema) }),
+  Project: v1ProjectSchema,
+  ProjectDetail: v1ProjectDetailSchema,
+  ProjectPage: v1PageSchema(v1ProjectSchema),
+  Asset: v1AssetSchema,
+  AssetDownload: v1AssetDownloadSchema,
+  AssetPage: v1PageSchema(v1AssetSchema),
+  Delivery: v1DeliverySchema,
+  DeliveryDownload: v1DeliveryDownloadSchema,
+  DeliveryPage: v1PageSchema(v1DeliverySchema),
+  Upload: v1UploadSchema,
+};
+
+type ComponentName = keyof typeof components;
+
+export const API_TAGS = [
+  "Account",
+  "Projects",
+  "Folders",
+  "Assets",
+  "Deliveries",
+  "Users",
+] as const;
+
+type ApiOperation = {
+  operationId: string;
+  method: "get" | "post";
+  // Relative to /api/v1; {name} marks a path parameter
+  path: string;
+  tag: (typeof API_TAGS)[number];
+  summary: string;
+  description?: string;
+  scope: ApiTokenScope;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  responses: Partial<
+    Record<200 | 201, { description: string; schema: ComponentName }>
+  >;
+};
+
+const COMPLETE_UPLOAD_DESCRIPTION =
+  "Fails with 422 when the stored file is not sizeBytes long; the upload is then discarded and has to be started again. Pass sha256 (hex) to record the file's hash; it is stored as given, not checked against the stored file.";
+
+// Matches the browser: clients see deliverables only
+const CLIENT_FOLDERS_DESCRIPTION =
+  "For a CLIENT token the ASSETS folders are left out.";
+
+const cursorQuery = {
+  cursor: z
+    .string()
+    .optional()
+    .meta({ description: "nextCursor from the previous page" }),
+};
+
+const folderQuery = z.object({
+  folderId: z
+    .string()
+    .optional()
+    .meta({ description: "Only files in this folder" }),
+  ...cursorQuery,
+});
+
+const operations: ApiOperation[] = [
+  {
+    operationId: "getMe",
+    method: "get",
+    path: "/me",
+    tag: "Account",
+    summary: "The token's owner and the scopes the token grants",
+    scope: ApiTokenScope.READ,
+    responses: { 200: { description: "The caller", schema: "Me" } },
+  },
+  {
+    operationId: "listProjects",
+    method: "get",
+    path: "/projects",
+    tag: "Projects",
+    summary: "Projects the token's owner can see, newest first",
+    scope: ApiTokenScope.READ,
+    query: z.object({
+      status: z.enum(ProjectStatus).optional(),
+      ...cursorQuery,
+    }),
+    responses: {
+      200: { description: "A page of projects", schema: "ProjectPage" },
+    },
+  },
+  {
+    operationId: "getProject",
+    method: "get",
+    path: "/projects/{id}",
+    tag: "Projects",
+    summary: "One project with its folders",
+    description: CLIENT_FOLDERS_DESCRIPTION,
+    scope: ApiTokenScope.READ,
+    responses: { 200: { description: "The project", schema: "ProjectDetail" } },
+  },
+  {
+    operationId: "listFolders",
+    method: "get",
+    path: "/projects/{id}/folders",
+    tag: "Folders",
+    summary: "Folders in a project, oldest first",
+    description: CLIENT_FOLDERS_DESCRIPTION,
+    scope: ApiTokenScope.READ,
+    responses: { 200: { description: "Every folder", schema: "FolderList" } },
+  },
+  {
+    operationId: "createFolder",
+    method: "post",
+    path: "/projects/{id}/folders",
+    tag: "Folders",
+    summary: "Create a folder",
+    description:
+      "Top-level folders are PROJECT folders; subfolders take their parent's type.",
+    scope: ApiTokenScope.UPLOAD,
+    body: v1CreateFolderSchema,
+    responses: { 201: { description: "The new folder", schema: "Folder" } },
+  },
+  {
+    operationId: "listAssets",
+    method: "get",
+    path: "/projects/{id}/assets",
+    tag: "Assets",
+    summary: "Assets in a project, newest first",
+    description:
+      "Always empty for a CLIENT token: clients see deliverables only. A client can still fetch an asset they uploaded by its id.",
+    scope: ApiTokenScope.READ,
+    query: folderQuery,
+    responses: {
+      200: { description: "A page of assets", schema: "AssetPage" },
+    },
+  },
+  {
+    operationId: "startAssetUpload",
+    method: "post",
+    path: "/projects/{id}/assets",
+    tag: "Assets",
+    summary: "Start an asset upload",
+    description:
+      "PUT each part of the file to its presigned URL, then send the returned ETags to completeUrl.",
+    scope: ApiTokenScope.UPLOAD,
+    body: v1StartUploadSchema,
+    responses: { 201: { description: "The upload", schema: "Upload" } },
+  },
+  {
+    operationId: "completeAssetUpload",
+    method: "post",
+    path: "/projects/{id}/assets/complete",
+    tag: "Assets",
+    summary: "Complete an asset upload",
+    description: COMPLETE_UPLOAD_DESCRIPTION,
+    scope: ApiTokenScope.UPLOAD,
+    body: v1CompleteUploadSchema,
+    responses: { 201: { description: "The new asset", schema: "Asset" } },
+  },
+  {
+    operationId: "getAsset",
+    method: "get",
+    path: "/assets/{id}",
+    tag: "Assets",
+    summary: "One asset with a short-lived download URL",
+    scope: ApiTokenScope.READ,
+    responses: { 200: { description: "The asset", schema: "AssetDownload" } },
+  },
+  {
+    operationId: "listDeliveries",
+    method: "get",
+    path: "/projects/{id}/deliveries",
+    tag: "Deliveries",
+    summary: "Deliveries in a project, newest first",
+    scope: ApiTokenScope.READ,
+    query: folderQuery,
+    responses: {
+      200: { description: "A page of deliveries", schema: "DeliveryPage" },
+    },
+  },
+  {
+    operationId: "startDeliveryUpload",
+    method: "post",
+    path: "/projects/{id}/deliveries",
+    tag: "Deliveries",
+    summary: "Start a delivery upload",
+    description:
+      "Pass deliveryId to upload a new version of an existing delivery. PUT each part of the file to its presigned URL, then send the returned ETags to completeUrl.",
+    scope: ApiTokenScope.UPLOAD,
+    body: v1StartDeliveryUploadSchema,
+    responses: { 201: { description: "The upload", schema: "Upload" } },
+  },
+  {
+    operationId: "completeDeliveryUpload",
+    method: "post",
+    path: "/projects/{id}/deliveries/complete",
+    tag: "Deliveries",
+    summary: "Complete a delivery upload",
+    description: COMPLETE_UPLOAD_DESCRIPTION,
+    scope: ApiTokenScope.UPLOAD,
+    body: v1CompleteDeliveryUploadSchema,
+    responses: {
+      200: { description: "The delivery's new version", schema: "Delivery" },
+      201: { description: "The new delivery", schema: "Delivery" },
+    },
+  },
+  {
+    operationId: "getDelivery",
+    method: "get",
+    path: "/deliveries/{id}",
+    tag: "Deliveries",
+    summary: "One delivery with a short-lived download URL",
+    scope: ApiTokenScope.READ,
+    responses: {
+      200: { description: "The delivery", schema: "DeliveryDownload" },
+    },
+  },
+  {
+    operationId: "listUsers",
+    method: "get",
+    path: "/users",
+    tag: "Users",
+    summary: "All users, newest first",
+    scope: ApiTokenScope.ADMIN,
+    query: z.object({ role: z.enum(Role).optional(), ...cursorQuery }),
+    responses: { 200: { description: "A page of users", schema: "UserPage" } },
+  },
+  {
+    operationId: "getUser",
+    method: "get",
+    path: "/users/{id}",
+    tag: "Users",
+    summary: "One user",
+    scope: ApiTokenScope.ADMIN,
+    responses: { 200: { description: "The user", schema: "User" } },
+  },
+];
+
+const ref = (name: ComponentName) => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const json = (schema: JsonSchema) => ({
+  "application/json": { schema },
+});
+
+/** A standalone JSON Schema for one request shape */
+function inputSchema(schema: z.ZodType): JsonSchema {
+  const result: JsonSchema = z.toJSONSchema(schema, {
+    io: "input",
+    unrepresentable: "any",
+  });
+  delete result.$schema;
+  return result;
+}
+
+/** Every response shape, referencing each other by component name */
+function componentSchemas() {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(components)) {
+    registry.add(schema, { id });
+  }
+  const { schemas } = z.toJSONSchema(registry, {
+    io: "output",
+    unrepresentable: "any",
+    uri: (id) => ref(id as ComponentName).$ref,
+    // Responses may gain fields within a version, so clients must not
+    // reject unknown ones
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.additionalProperties === false) {
+        delete jsonSchema.additionalProperties;
+      }
+    },
+  });
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+function operationObject(operation: ApiOperation) {
+  const parameters: Parameter[] = Array.from(
+    operation.path.matchAll(/\{(\w+)\}/g),
+    ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })
+  );
+  if (operation.query) {
+    const query = inputSchema(operation.query);
+    const properties = (query.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (query.required ?? []) as string[];
+    for (const [name, { description, ...schema }] of Object.entries(
+      properties
+    )) {
+      parameters.push({
+        name,
+        in: "query",
+        required: required.includes(name),
+        ...(typeof description === "string" ? { description } : {}),
+        schema,
+      });
+    }
+  }
+
+  const error = (description: string) => ({
+    description,
+    content: json(ref("Error")),
+  });
+
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: [
+      operation.description,
+      `Requires the ${operation.scope} scope.`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    security: [{ bearerAuth: [operation.scope] }],
+    ...(parameters.length ? { parameters } : {}),
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: true,
+            content: json(inputSchema(operation.body)),
+          },
+        }
+      : {}),
+    responses: {
+      ...Object.fromEntries(
+        Object.entries(operation.responses).map(
+          ([status, { description, schema }]) => [
+            status,
+            { description, content: json(ref(schema)) },
+          ]
+        )
+      ),
+      ...(operation.body ? { 400: error("Invalid request body") } : {}),
+      401: error("Missing, unknown, revoked or expired token"),
+      403: error("The token lacks the scope, or its owner lacks access"),
+      ...(operation.path.includes("{") ? { 404: error("Not found") } : {}),
+    },
+  };
+}
+
+/** The OpenAPI 3.1 document for /api/v1, served from `serverUrl` */
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: operationObject(operation),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Client Delivery API",
+      version: "1",
+      description:
+        "Authenticate with a personal access token from your profile page, sent as `Authorization: Bearer <token>`. Lists are cursor-paginated: pass nextCursor back as ?cursor= until it is null.",
+    },
+    servers: [{ url: serverUrl }],
+    tags: API_TAGS.map((name) => ({ name })),
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "Personal access token (cdp_…)",
+        },
+      },
+      schemas: componentSchemas(),
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { createHash, randomBytes } from "crypto";
+import { hash } from "bcryptjs";
+import { prisma } from "@/app/lib/prisma";
+
+// Reset links are valid for an hour unless configured otherwise
+export const PASSWORD_RESET_TTL_MINUTES =
+  Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+
+// A new link is not emailed while a fresh one is still this young
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+export const hashResetToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Issues a reset token for the user and returns the raw value for the email.
+ * Only its hash is stored; earlier unused tokens are invalidated. Returns
+ * null when a token was issued moments ago, to throttle repeated requests.
+ */
+export async function issuePasswordResetToken(
+  userId: string
+): Promise<{ token: string; expiresAt: Date } | null> {
+  const recent = await prisma.passwordResetToken.findFirst({
+    where: {
+      userId,
+      usedAt: null,
+      createdAt: { gt: new Date(Date.now() - RESEND_COOLDOWN_MS) },
+    },
+    select: { id: true },
+  });
+  if (recent) return null;
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(
+    Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  );
+
+  await prisma.$transaction([
+    prisma.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.passwordResetToken.create({
+      data: { userId, tokenHash: hashResetToken(token), expiresAt },
+    }),
+  ]);
+
+  return { token, expiresAt };
+}
+
+/** The unused, unexpired token record for a raw token, or null */
+export async function findValidResetToken(token: string) {
+  if (!token) return null;
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashResetToken(token) },
+    select: { id: true, userId: true, expiresAt: true, usedAt: true },
+  });
+  if (!record || record.usedAt || record.expiresAt <= new Date()) {
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Sets the new password and burns the token, returning the account's id (or
+ * null for a dead token). The usedAt guard makes the claim atomic, so two
+ * concurrent submissions cannot both succeed.
+ */
+export async function resetPasswordWithToken(
+  token: string,
+  newPassword: string
+): Promise<string | null> {
+  const record = await findValidResetToken(token);
+  if (!record) return null;
+
+  const passwordHash = await hash(newPassword, 10);
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count !== 1) return null;
+
+    // Proving control of the mailbox also lifts any sign-in lockout
+    await tx.user.update({
+      where: { id: record.userId },
+      data: {
+        passwordHash,
+        failedLoginCount: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      },
+    });
+    // Any other outstanding links for this account are now stale
+    await tx.passwordResetToken.updateMany({
+      where: { userId: record.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return record.userId;
+  });
+}
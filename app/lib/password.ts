@@ -1,5 +1,17 @@
+import { z } from "zod";
+
 const ALPHANUM = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 
+export const PASSWORD_MIN_LENGTH = 6;
+export const PASSWORD_MAX_LENGTH = 64;
+
+// Rules for any password a user chooses themselves (profile change, reset).
+// Messages are catalogue keys, translated with localizeIssues().
+export const newPasswordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, "validation.newPasswordMin")
+  .max(PASSWORD_MAX_LENGTH, "validation.newPasswordMax");
+
 function slugify(value: string) {
   return value
     .toLowerCase()
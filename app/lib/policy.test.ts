@@ -0,0 +1,261 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  can,
+  projectContentScope,
+  projectScope,
+  type PolicyAction,
+  type PolicyUser,
+  type ProjectFileResource,
+  type ProjectResource,
+} from "./policy";
+
+const users = {
+  admin: { id: "admin", role: "ADMIN" },
+  assignedStaff: { id: "staff-assigned", role: "STAFF" },
+  creatorStaff: { id: "staff-creator", role: "STAFF" },
+  otherStaff: { id: "staff-other", role: "STAFF" },
+  ownerClient: { id: "client-owner", role: "CLIENT" },
+  otherClient: { id: "client-other", role: "CLIENT" },
+} satisfies Record<string, PolicyUser>;
+
+type Actor = keyof typeof users;
+
+const ACTORS = Object.keys(users) as Actor[];
+
+const project: ProjectResource = {
+  clientId: users.ownerClient.id,
+  createdById: users.creatorStaff.id,
+  staffAssignments: [{ staffId: users.assignedStaff.id }],
+};
+
+const clientFile: ProjectFileResource = {
+  project,
+  uploadedById: users.ownerClient.id,
+};
+
+const staffFile: ProjectFileResource = {
+  project,
+  uploadedById: users.assignedStaff.id,
+};
+
+// Project members: admin, the project's staff (assigned or creator) and its
+// client
+const MEMBERS: Actor[] = [
+  "admin",
+  "assignedStaff",
+  "creatorStaff",
+  "ownerClient",
+];
+const TEAM: Actor[] = ["admin", "assignedStaff", "creatorStaff"];
+const PROJECT_STAFF: Actor[] = ["assignedStaff", "creatorStaff"];
+const ADMIN: Actor[] = ["admin"];
+
+type Case = {
+  // What the resource is, for the test name
+  label: string;
+  resource?: unknown;
+  allowed: Actor[];
+};
+
+const onProject = (allowed: Actor[]): Case[] => [
+  { label: "project", resource: project, allowed },
+];
+
+/**
+ * Who may do what, for every action. Typed as a full record so adding an
+ * action to the policy fails the type-check until it is covered here.
+ */
+const MATRIX: Record<PolicyAction, Case[]> = {
+  "project:list": [{ label: "any", allowed: ACTORS }],
+  "project:create": [{ label: "any", allowed: ADMIN }],
+  "project:view": onProject(MEMBERS),
+  "project:update": onProject(TEAM),
+  "project:assignStaff": onProject(ADMIN),
+  "project:submit": onProject(PROJECT_STAFF),
+  "project:notify": [{ label: "any", allowed: ADMIN }],
+  "folder:view": onProject(MEMBERS),
+  "folder:create": onProject(MEMBERS),
+  "folder:update": onProject(MEMBERS),
+  "folder:delete": onProject(MEMBERS),
+  // Clients only see deliverables, and assets they uploaded themselves
+  "asset:list": onProject(TEAM),
+  "asset:view": [
+    { label: "client upload", resource: clientFile, allowed: MEMBERS },
+    { label: "staff upload", resource: staffFile, allowed: TEAM },
+  ],
+  "asset:upload": onProject(MEMBERS),
+  "asset:move": [
+    { label: "client upload", resource: clientFile, allowed: MEMBERS },
+    { label: "staff upload", resource: staffFile, allowed: TEAM },
+  ],
+  "asset:delete": [
+    {
+      label: "client upload",
+      resource: clientFile,
+      allowed: ["admin", "ownerClient"],
+    },
+    {
+      label: "staff upload",
+      resource: staffFile,
+      allowed: ["admin", "assignedStaff"],
+    },
+  ],
+  "delivery:view": [
+    { label: "staff upload", resource: staffFile, allowed: MEMBERS },
+  ],
+  "delivery:upload": onProject(TEAM),
+  "delivery:move": [
+    { label: "client upload", resource: clientFile, allowed: MEMBERS },
+    { label: "staff upload", resource: staffFile, allowed: TEAM },
+  ],
+  "delivery:delete": [
+    { label: "client upload", resource: clientFile, allowed: MEMBERS },
+    { label: "staff upload", resource: staffFile, allowed: TEAM },
+  ],
+  "delivery:review": [
+    { label: "staff upload", resource: staffFile, allowed: ["ownerClient"] },
+  ],
+  "delivery:comment": [
+    { label: "staff upload", resource: staffFile, allowed: MEMBERS },
+  ],
+  "delivery:resolveComment": [
+    { label: "staff upload", resource: staffFile, allowed: TEAM },
+  ],
+  "trash:view": onProject(MEMBERS),
+  "trash:deletePermanently": onProject(TEAM),
+  "share:create": onProject(MEMBERS),
+  "share:manage": [
+    {
+      label: "client's link",
+      resource: { project, createdById: users.ownerClient.id },
+      allowed: MEMBERS,
+    },
+    {
+      label: "staff link",
+      resource: { project, createdById: users.assignedStaff.id },
+      allowed: TEAM,
+    },
+  ],
+  "video:view": [
+    {
+      label: "client's video",
+      resource: { ownerId: users.ownerClient.id },
+      allowed: ["ownerClient"],
+    },
+  ],
+  "video:upload": [{ label: "any", allowed: ADMIN }],
+  "user:list": [{ label: "any", allowed: ADMIN }],
+  "user:create": [{ label: "any", allowed: ADMIN }],
+  "user:update": [
+    { label: "client", resource: { id: users.ownerClient.id }, allowed: ADMIN },
+  ],
+  "user:delete": [
+    { label: "client", resource: { id: users.otherClient.id }, allowed: ADMIN },
+    { label: "own account", resource: { id: users.admin.id }, allowed: [] },
+  ],
+  "user:resetCredentials": [
+    { label: "client", resource: { id: users.ownerClient.id }, allowed: ADMIN },
+  ],
+  "client:list": [
+    {
+      label: "any",
+      allowed: ["admin", "assignedStaff", "creatorStaff", "otherStaff"],
+    },
+  ],
+  "staff:list": [{ label: "any", allowed: ADMIN }],
+  "security:manage": [{ label: "any", allowed: ADMIN }],
+  "audit:view": [{ label: "any", allowed: ADMIN }],
+  "jobs:manage": [{ label: "any", allowed: ADMIN }],
+  "emails:manage": [{ label: "any", allowed: ADMIN }],
+  "emailTemplates:manage": [{ label: "any", allowed: ADMIN }],
+  "webhooks:manage": [{ label: "any", allowed: ADMIN }],
+  "apiDocs:view": [{ label: "any", allowed: ADMIN }],
+};
+
+// The matrix mixes resource types, which `can` keeps apart per action
+const check = can as (
+  user: PolicyUser | null | undefined,
+  action: PolicyAction,
+  resource?: unknown
+) => boolean;
+
+const rows = (Object.entries(MATRIX) as [PolicyAction, Case[]][]).flatMap(
+  ([action, cases]) =>
+    cases.flatMap(({ label, resource, allowed }) =>
+      ACTORS.map((actor) => ({
+        action,
+        label,
+        resource,
+        actor,
+        expected: allowed.includes(actor),
+      }))
+    )
+);
+
+describe("can", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each(rows)(
+    "$action on $label: $actor → $expected",
+    ({ action, resource, actor, expected }) => {
+      expect(check(users[actor], action, resource)).toBe(expected);
+    }
+  );
+
+  it("denies everything without a signed-in user", () => {
+    for (const action of Object.keys(MATRIX) as PolicyAction[]) {
+      expect(check(null, action, project)).toBe(false);
+      expect(check({ id: "", role: "ADMIN" }, action, project)).toBe(false);
+    }
+  });
+
+  it("keeps clients from sharing when client share links are off", () => {
+    vi.stubEnv("NEXT_PUBLIC_CLIENT_SHARE_LINKS", "false");
+    for (const actor of ACTORS) {
+      expect(check(users[actor], "share:create", project)).toBe(
+        TEAM.includes(actor)
+      );
+    }
+  });
+});
+
+describe("projectContentScope", () => {
+  it("lists everything for the team", () => {
+    for (const actor of ["admin", "assignedStaff"] as const) {
+      expect(projectContentScope(users[actor])).toEqual({
+        assets: {},
+        folders: {},
+      });
+    }
+  });
+
+  it("lists no assets and no ASSETS folders for clients", () => {
+    expect(projectContentScope(users.ownerClient)).toEqual({
+      assets: { id: { in: [] } },
+      folders: { type: { not: "ASSETS" } },
+    });
+  });
+});
+
+describe("projectScope", () => {
+  it("matches every project for admins", () => {
+    expect(projectScope(users.admin)).toEqual({});
+  });
+
+  it("matches assigned and created projects for staff", () => {
+    expect(projectScope(users.assignedStaff)).toEqual({
+      OR: [
+        { staffAssignments: { some: { staffId: users.assignedStaff.id } } },
+        { createdById: users.assignedStaff.id },
+      ],
+    });
+  });
+
+  it("matches owned projects for clients", () => {
+    expect(projectScope(users.ownerClient)).toEqual({
+      clientId: users.ownerClient.id,
+    });
+  });
+});
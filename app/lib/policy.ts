@@ -0,0 +1,261 @@
+import type { Prisma } from "@prisma/client";
+import type { SessionUser } from "@/app/lib/auth";
+
+/**
+ * Central authorization policy. Every API route and every page that hides
+ * actions should ask `can(user, action, resource)` instead of re-checking
+ * roles inline, so CLIENT / STAFF / ADMIN rules stay identical everywhere.
+ *
+ * The module has no runtime dependencies and is safe to import from client
+ * components.
+ */
+
+export type PolicyUser = Pick<SessionUser, "id" | "role">;
+
+export type ProjectResource = {
+  clientId: string;
+  createdById?: string | null;
+  staffAssignments: { staffId: string }[];
+};
+
+export type ProjectFileResource = {
+  project: ProjectResource;
+  uploadedById: string;
+};
+
+export type UserResource = { id: string };
+
+export type VideoResource = { ownerId: string };
+
+export type ShareLinkResource = {
+  project: ProjectResource;
+  createdById: string;
+};
+
+type PolicyResourceMap = {
+  "project:list": null;
+  "project:create": null;
+  "project:view": ProjectResource;
+  "project:update": ProjectResource;
+  "project:assignStaff": ProjectResource;
+  "project:submit": ProjectResource;
+  "project:notify": null;
+  "folder:view": ProjectResource;
+  "folder:create": ProjectResource;
+  "folder:update": ProjectResource;
+  "folder:delete": ProjectResource;
+  "asset:list": ProjectResource;
+  "asset:view": ProjectFileResource;
+  "asset:upload": ProjectResource;
+  "asset:move": ProjectFileResource;
+  "asset:delete": ProjectFileResource;
+  "delivery:view": ProjectFileResource;
+  "delivery:upload": ProjectResource;
+  "delivery:move": ProjectFileResource;
+  "delivery:delete": ProjectFileResource;
+  "delivery:review": ProjectFileResource;
+  "delivery:comment": ProjectFileResource;
+  "delivery:resolveComment": ProjectFileResource;
+  "trash:view": ProjectResource;
+  "trash:deletePermanently": ProjectResource;
+  "share:create": ProjectResource;
+  "share:manage": ShareLinkResource;
+  "video:view": VideoResource;
+  "video:upload": null;
+  "user:list": null;
+  "user:create": null;
+  "user:update": UserResource;
+  "user:delete": UserResource;
+  "user:resetCredentials": UserResource;
+  "client:list": null;
+  "staff:list": null;
+  "security:manage": null;
+  "audit:view": null;
+  "jobs:manage": null;
+  "emails:manage": null;
+  "emailTemplates:manage": null;
+  "webhooks:manage": null;
+  "apiDocs:view": null;
+};
+
+export type PolicyAction = keyof PolicyResourceMap;
+
+type PolicyArgs<A extends PolicyAction> = PolicyResourceMap[A] extends null
+  ? []
+  : [resource: PolicyResourceMap[A]];
+
+type Rule<A extends PolicyAction> = (
+  user: PolicyUser,
+  resource: PolicyResourceMap[A]
+) => boolean;
+
+const isAdmin = (user: PolicyUser) => user.role === "ADMIN";
+
+/** Client who owns the project */
+const isProjectClient = (user: PolicyUser, project: ProjectResource) =>
+  user.role === "CLIENT" && project.clientId === user.id;
+
+/** Staff assigned to the project, or the staff member who created it */
+const isProjectStaff = (user: PolicyUser, project: ProjectResource) =>
+  user.role === "STAFF" &&
+  (project.staffAssignments.some(
+    (assignment) => assignment.staffId === user.id
+  ) ||
+    (project.createdById != null && project.createdById === user.id));
+
+const isProjectMember = (user: PolicyUser, project: ProjectResource) =>
+  isAdmin(user) || isProjectStaff(user, project) || isProjectClient(user, project);
+
+const isUploader = (user: PolicyUser, file: ProjectFileResource) =>
+  file.uploadedById === user.id;
+
+/** Clients only see deliverables: no assets and no ASSETS folders */
+const seesAssets = (user: PolicyUser) => user.role !== "CLIENT";
+
+const rules: { [A in PolicyAction]: Rule<A> } = {
+  "project:list": () => true,
+  "project:create": (user) => isAdmin(user),
+  "project:view": isProjectMember,
+  "project:update": (user, project) =>
+    isAdmin(user) || isProjectStaff(user, project),
+  // Replacing the assignment list; staff may only keep themselves assigned
+  "project:assignStaff": (user) => isAdmin(user),
+  // Staff hand the project over to the admin team for review
+  "project:submit": isProjectStaff,
+  "project:notify": (user) => isAdmin(user),
+
+  "folder:view": isProjectMember,
+  "folder:create": isProjectMember,
+  "folder:update": isProjectMember,
+  "folder:delete": isProjectMember,
+
+  "asset:list": (user, project) =>
+    seesAssets(user) && isProjectMember(user, project),
+  // A client may still fetch an asset they uploaded themselves
+  "asset:view": (user, asset) =>
+    isProjectMember(user, asset.project) &&
+    (seesAssets(user) || isUploader(user, asset)),
+  "asset:upload": isProjectMember,
+  "asset:move": (user, asset) =>
+    isAdmin(user) ||
+    isProjectStaff(user, asset.project) ||
+    isUploader(user, asset),
+  "asset:delete": (user, asset) => isAdmin(user) || isUploader(user, asset),
+
+  "delivery:view": (user, delivery) =>
+    isProjectMember(user, delivery.project),
+  "delivery:upload": (user, project) =>
+    isAdmin(user) || isProjectStaff(user, project),
+  "delivery:move": (user, delivery) =>
+    isAdmin(user) ||
+    isProjectStaff(user, delivery.project) ||
+    isUploader(user, delivery),
+  "delivery:delete": (user, delivery) =>
+    isAdmin(user) ||
+    isProjectStaff(user, delivery.project) ||
+    isUploader(user, delivery),
+  // Approval / change requests come from the project's client only
+  "delivery:review": (user, delivery) =>
+    isProjectClient(user, delivery.project),
+  "delivery:comment": (user, delivery) =>
+    isProjectMember(user, delivery.project),
+  "delivery:resolveComment": (user, delivery) =>
+    isAdmin(user) || isProjectStaff(user, delivery.project),
+
+  // Restoring follows the matching *:delete rule; emptying the Trash early
+  // is left to the team so a client cannot lose footage for good by mistake
+  "trash:view": isProjectMember,
+  "trash:deletePermanently": (user, project) =>
+    isAdmin(user) || isProjectStaff(user, project),
+
+  // Clients may share their own project's work unless switched off
+  "share:create": (user, project) =>
+    isAdmin(user) ||
+    isProjectStaff(user, project) ||
+    (process.env.NEXT_PUBLIC_CLIENT_SHARE_LINKS !== "false" &&
+      isProjectClient(user, project)),
+  "share:manage": (user, link) =>
+    isAdmin(user) ||
+    isProjectStaff(user, link.project) ||
+    link.createdById === user.id,
+
+  // Legacy videos are only visible to the client they were uploaded for
+  "video:view": (user, video) => video.ownerId === user.id,
+  "video:upload": (user) => isAdmin(user),
+
+  "user:list": (user) => isAdmin(user),
+  "user:create": (user) => isAdmin(user),
+  "user:update": (user) => isAdmin(user),
+  // Admins cannot delete their own account
+  "user:delete": (user, target) => isAdmin(user) && target.id !== user.id,
+  "user:resetCredentials": (user) => isAdmin(user),
+  "client:list": (user) => isAdmin(user) || user.role === "STAFF",
+  "staff:list": (user) => isAdmin(user),
+  // Sign-in rules such as requiring two-factor per role
+  "security:manage": (user) => isAdmin(user),
+  "audit:view": (user) => isAdmin(user),
+  "jobs:manage": (user) => isAdmin(user),
+  "emails:manage": (user) => isAdmin(user),
+  "emailTemplates:manage": (user) => isAdmin(user),
+  "webhooks:manage": (user) => isAdmin(user),
+  // Token holders read the OpenAPI document with their token instead
+  "apiDocs:view": (user) => isAdmin(user),
+};
+
+export function can<A extends PolicyAction>(
+  user: PolicyUser | null | undefined,
+  action: A,
+  ...args: PolicyArgs<A>
+): boolean {
+  if (!user?.id || !user.role) return false;
+  const rule = rules[action] as Rule<A>;
+  return rule(user, (args[0] ?? null) as PolicyResourceMap[A]);
+}
+
+/**
+ * Prisma filter matching the projects `user` may see, or null when the role
+ * has no project access at all.
+ */
+export function projectScope(
+  user: PolicyUser
+): Prisma.ProjectWhereInput | null {
+  switch (user.role) {
+    case "ADMIN":
+      return {};
+    case "STAFF":
+      return {
+        OR: [
+          { staffAssignments: { some: { staffId: user.id } } },
+          { createdById: user.id },
+        ],
+      };
+    case "CLIENT":
+      return { clientId: user.id };
+    default:
+      return null;
+  }
+}
+
+export type ProjectContentScope = {
+  assets: Prisma.AssetWhereInput;
+  folders: Prisma.FolderWhereInput;
+};
+
+/**
+ * Prisma filters for the assets and folders `user` may list inside a project
+ * they can view. Add them to every query that lists a project's contents.
+ */
+export function projectContentScope(user: PolicyUser): ProjectContentScope {
+  if (seesAssets(user)) return { assets: {}, folders: {} };
+  return {
+    assets: { id: { in: [] } },
+    folders: { type: { not: "ASSETS" } },
+  };
+}
+
+/** Fields a project query must select for policy checks */
+export const projectPolicySelect = {
+  clientId: true,
+  createdById: true,
+  staffAssignments: { select: { staffId: true } },
+} satisfies Prisma.ProjectSelect;
@@ -1,14 +1,34 @@
 import { PrismaClient } from "@prisma/client";
 
-const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined;
-};
+// File sizes are BIGINT columns so uploads over 2 GiB fit. The app reads them
+// as numbers, which stay exact up to 8 PiB and serialize to JSON.
+const asNumber = <K extends string>(field: K) => ({
+  needs: { [field]: true } as Record<K, true>,
+  compute: (row: Record<K, bigint>) => Number(row[field]),
+});
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === "development" ? ["error", "warn"] : ["error"],
+  }).$extends({
+    result: {
+      asset: { sizeBytes: asNumber("sizeBytes") },
+      delivery: { sizeBytes: asNumber("sizeBytes") },
+      deliveryVersion: { sizeBytes: asNumber("sizeBytes") },
+      video: { sizeBytes: asNumber("sizeBytes") },
+      uploadSession: {
+        sizeBytes: asNumber("sizeBytes"),
+        partSize: asNumber("partSize"),
+      },
+    },
   });
+}
+
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined;
+};
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
 if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = prisma;
@@ -0,0 +1,427 @@
+import type { UploadKind, UploadSession } from "@prisma/client";
+import type { SessionUser } from "@/app/lib/auth";
+import { prisma } from "@/app/lib/prisma";
+import { recordAuditEvent } from "@/app/lib/audit";
+import { detectAssetType } from "@/app/lib/asset-utils";
+import {
+  clearedDeliveryReview,
+  syncProjectReviewStatus,
+} from "@/app/lib/delivery-review";
+import { getStorage, type StoragePart } from "@/app/lib/storage";
+import { notificationActor, notifyUsers } from "@/app/lib/notifications";
+import { dispatchWebhookEvent, webhookProject } from "@/app/lib/webhooks";
+
+// Shared by the browser upload routes and /api/v1, so an upload is recorded
+// the same way whichever way it came in.
+
+export const UPLOAD_PART_SIZE = 10 * 1024 * 1024; // 10MB
+
+type UploadProject = {
+  id: string;
+  title: string | null;
+  clientId: string;
+  staffAssignments: { staffId: string }[];
+};
+
+export type UploadedFile = {
+  key: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  // Hex SHA-256 of the whole file, when the uploader computed one. Stored
+  // as the uploader reports it; only the size is checked against storage.
+  sha256?: string | null;
+};
+
+/** Storage key for a new upload; the timestamp keeps repeated names apart */
+export const projectUploadKey = (
+  kind: "assets" | "deliveries",
+  projectId: string,
+  folderId: string | null | undefined,
+  filename: string
+) =>
+  `${kind}/${projectId}/${folderId ? `folders/${folderId}/` : ""}${Date.now()}-${encodeURIComponent(
+    filename
+  )}`;
+
+/**
+ * Starts a multipart upload and presigns a URL for each part. With
+ * `checksums`, each part has to be sent with its SHA-256.
+ */
+export async function startProjectUpload(
+  key: string,
+  contentType: string,
+  sizeBytes: number,
+  options?: { checksums?: boolean }
+) {
+  const storage = getStorage();
+  const checksums = Boolean(options?.checksums);
+  const { uploadId } = await storage.createMultipartUpload(key, {
+    contentType,
+    checksums,
+  });
+  const partCount = Math.ceil(sizeBytes / UPLOAD_PART_SIZE);
+  const presignedPartUrls = await storage.getUploadPartUrls(
+    key,
+    uploadId,
+    partCount,
+    { expiresIn: 60 * 60 }
+  );
+  return {
+    uploadId,
+    key,
+    partSize: UPLOAD_PART_SIZE,
+    presignedPartUrls,
+    checksums,
+  };
+}
+
+// What the browser upload routes need to find an unfinished upload again.
+// The fingerprint is the browser's SHA-256 over the file's name, size,
+// modification time and first and last bytes, so re-selecting the same
+// file after a reload finds the same session.
+export type UploadSessionFile = {
+  kind: UploadKind;
+  projectId: string;
+  folderId?: string | null;
+  deliveryId?: string | null;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  fingerprint: string;
+};
+
+// What the start routes send back. sessionId is null for uploads without a
+// fingerprint, completedParts lists what a resumed upload already has, and
+// checksums says whether each part needs its SHA-256.
+export type ProjectUploadStart = {
+  sessionId: string | null;
+  uploadId: string;
+  key: string;
+  partSize: number;
+  presignedPartUrls: string[];
+  completedParts: StoragePart[];
+  checksums: boolean;
+};
+
+/** Remembers a started upload so a reloaded page can resume it */
+export async function recordUploadSession(
+  userId: string,
+  file: UploadSessionFile,
+  upload: {
+    uploadId: string;
+    key: string;
+    partSize: number;
+    checksums: boolean;
+  }
+) {
+  return prisma.uploadSession.create({
+    data: {
+      ...file,
+      folderId: file.folderId || null,
+      deliveryId: file.deliveryId || null,
+      userId,
+      key: upload.key,
+      uploadId: upload.uploadId,
+      partSize: upload.partSize,
+      checksums: upload.checksums,
+    },
+  });
+}
+
+/**
+ * Finds the caller's unfinished upload of the same file into the same
+ * place, asks storage which parts it already holds and presigns every part
+ * again. Returns null when there is none, or storage has dropped it.
+ */
+export async function resumeProjectUpload(
+  userId: string,
+  file: UploadSessionFile
+): Promise<ProjectUploadStart | null> {
+  const session = await prisma.uploadSession.findFirst({
+    where: {
+      userId,
+      projectId: file.projectId,
+      kind: file.kind,
+      folderId: file.folderId || null,
+      deliveryId: file.deliveryId || null,
+      sizeBytes: file.sizeBytes,
+      fingerprint: file.fingerprint,
+    },
+    orderBy: { updatedAt: "desc" },
+  });
+  if (!session) return null;
+
+  const storage = getStorage();
+  const completedParts = await storage.listParts(session.key, session.uploadId);
+  if (!completedParts) {
+    await prisma.uploadSession.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  const presignedPartUrls = await storage.getUploadPartUrls(
+    session.key,
+    session.uploadId,
+    Math.ceil(session.sizeBytes / session.partSize),
+    { expiresIn: 60 * 60 }
+  );
+  // Also moves updatedAt, which keeps the reconciliation from aborting it
+  await prisma.uploadSession.update({
+    where: { id: session.id },
+    data: { completedParts },
+  });
+
+  return {
+    sessionId: session.id,
+    uploadId: session.uploadId,
+    key: session.key,
+    partSize: session.partSize,
+    presignedPartUrls,
+    completedParts,
+    checksums: session.checksums,
+  };
+}
+
+/** Aborts an unfinished upload and forgets it */
+export async function discardUploadSession(
+  session: Pick<UploadSession, "id" | "key" | "uploadId">
+) {
+  try {
+    await getStorage().abortMultipartUpload(session.key, session.uploadId);
+  } catch (error) {
+    // Already completed or aborted; the row is all that is left
+    console.error(`Failed to abort upload of ${session.key}:`, error);
+  }
+  await prisma.uploadSession.deleteMany({ where: { id: session.id } });
+}
+
+/**
+ * Completes a multipart upload and checks that the object storage ended up
+ * with is as large as the uploader said. On a mismatch the object is
+ * deleted and null returned, so no record ever points at a damaged file.
+ */
+export async function completeVerifiedUpload(upload: {
+  key: string;
+  uploadId: string;
+  parts: StoragePart[];
+  sizeBytes: number;
+}) {
+  const storage = getStorage();
+  const result = await storage.completeMultipartUpload(
+    upload.key,
+    upload.uploadId,
+    upload.parts
+  );
+  const stored = await storage.headObject(upload.key);
+  if (stored?.sizeBytes === upload.sizeBytes) return result;
+
+  console.error(
+    `Upload of ${upload.key} is ${stored?.sizeBytes ?? "missing"} bytes, expected ${upload.sizeBytes}`
+  );
+  await storage.deleteObject(upload.key).catch((error) => {
+    console.error(`Failed to delete ${upload.key}:`, error);
+  });
+  await prisma.uploadSession.deleteMany({ where: { key: upload.key } });
+  return null;
+}
+
+/** Bytes of a session's file that storage already holds */
+export function uploadedBytes(
+  session: Pick<UploadSession, "completedParts"> & {
+    sizeBytes: number;
+    partSize: number;
+  }
+) {
+  const parts = session.completedParts as unknown as StoragePart[];
+  return parts.reduce(
+    (total, part) =>
+      total +
+      Math.min(
+        session.partSize,
+        session.sizeBytes - (part.PartNumber - 1) * session.partSize
+      ),
+    0
+  );
+}
+
+/**
+ * Records a finished asset upload: the Asset row, the audit event, the
+ * asset.created webhook and, for client uploads, the staff notification.
+ */
+export async function saveUploadedAsset(
+  req: Request,
+  user: SessionUser,
+  project: UploadProject,
+  file: UploadedFile & { folderId?: string | null }
+) {
+  const asset = await prisma.asset.create({
+    data: {
+      key: file.key,
+      filename: file.filename,
+      contentType: file.contentType,
+      sizeBytes: file.sizeBytes,
+      sha256: file.sha256 ?? null,
+      type: detectAssetType(file.contentType, file.filename),
+      projectId: project.id,
+      folderId: file.folderId || null,
+      uploadedById: user.id,
+    },
+  });
+
+  // Finished, so there is nothing left to resume
+  await prisma.uploadSession.deleteMany({ where: { key: file.key } });
+
+  await recordAuditEvent(req, user, {
+    action: "asset.create",
+    targetType: "asset",
+    targetId: asset.id,
+    projectId: project.id,
+    after: {
+      filename: asset.filename,
+      sizeBytes: asset.sizeBytes,
+      folderId: asset.folderId,
+    },
+  });
+
+  await dispatchWebhookEvent(
+    "asset.created",
+    {
+      project: webhookProject(project),
+      asset: {
+        id: asset.id,
+        filename: asset.filename,
+        type: asset.type,
+        contentType: asset.contentType,
+        sizeBytes: asset.sizeBytes,
+      },
+    },
+    user
+  );
+
+  // Staff hear about material the client sends in; their own uploads and
+  // the admin team's are not worth a notification
+  if (user.role === "CLIENT") {
+    await notifyUsers(
+      project.staffAssignments.map((assignment) => assignment.staffId),
+      {
+        type: "asset.uploaded",
+        projectId: project.id,
+        actorId: user.id,
+        data: {
+          projectTitle: project.title,
+          actor: notificationActor(user),
+          filename: asset.filename,
+        },
+      }
+    );
+  }
+
+  return asset;
+}
+
+/**
+ * Records a finished delivery upload, either as v1 of a new delivery or as
+ * the next version of `existing`, then updates the project's review status,
+ * audits it, fires delivery.created and notifies the client.
+ */
+export async function saveUploadedDelivery(
+  req: Request,
+  user: SessionUser,
+  project: UploadProject,
+  file: UploadedFile,
+  target: {
+    folderId?: string | null;
+    existing?: { id: string; version: number } | null;
+  }
+) {
+  const { existing } = target;
+  const version = existing ? existing.version + 1 : 1;
+
+  // A new version points the delivery at the new file; the client reviews
+  // it from scratch
+  const delivery = existing
+    ? await prisma.delivery.update({
+        where: { id: existing.id },
+        data: {
+          ...file,
+          ...clearedDeliveryReview,
+          version,
+          versions: {
+            create: { ...file, version, uploadedById: user.id },
+          },
+        },
+      })
+    : await prisma.delivery.create({
+        data: {
+          ...file,
+          projectId: project.id,
+          folderId: target.folderId || null,
+          uploadedById: user.id,
+          versions: {
+            create: { ...file, version, uploadedById: user.id },
+          },
+        },
+      });
+
+  await prisma.uploadSession.deleteMany({ where: { key: file.key } });
+
+  await syncProjectReviewStatus(project.id);
+
+  await recordAuditEvent(
+    req,
+    user,
+    existing
+      ? {
+          action: "delivery.version_upload",
+          targetType: "delivery",
+          targetId: delivery.id,
+          projectId: project.id,
+          before: { version: existing.version },
+          after: {
+            version,
+            filename: file.filename,
+            sizeBytes: file.sizeBytes,
+          },
+        }
+      : {
+          action: "delivery.create",
+          targetType: "delivery",
+          targetId: delivery.id,
+          projectId: project.id,
+          after: {
+            filename: file.filename,
+            sizeBytes: file.sizeBytes,
+            folderId: delivery.folderId,
+          },
+        }
+  );
+
+  await dispatchWebhookEvent(
+    "delivery.created",
+    {
+      project: webhookProject(project),
+      delivery: {
+        id: delivery.id,
+        filename: file.filename,
+        version,
+        contentType: file.contentType,
+        sizeBytes: file.sizeBytes,
+      },
+    },
+    user
+  );
+
+  await notifyUsers([project.clientId], {
+    type: "delivery.uploaded",
+    projectId: project.id,
+    actorId: user.id,
+    data: {
+      projectTitle: project.title,
+      actor: notificationActor(user),
+      filename: file.filename,
+      version,
+    },
+  });
+
+  return { delivery, version };
+}
@@ -0,0 +1,172 @@
+import { prisma } from "@/app/lib/prisma";
+import { buildFolderTree, type DriveFolderNode } from "@/app/lib/drive-utils";
+import type { ProjectContentScope } from "@/app/lib/policy";
+import { getStorage } from "@/app/lib/storage";
+import { sanitizeZipSegment, type ZipEntry } from "@/app/lib/zip-stream";
+
+export type ProjectZipSelection = {
+  folderIds: string[];
+  assetIds: string[];
+  deliveryIds: string[];
+};
+
+type ZipFile = {
+  key: string;
+  filename: string;
+  sizeBytes: number;
+  folderId: string | null;
+  createdAt: Date;
+};
+
+const fileSelect = {
+  id: true,
+  key: true,
+  filename: true,
+  sizeBytes: true,
+  folderId: true,
+  createdAt: true,
+} as const;
+
+/** "clip.mp4" -> "clip (2).mp4" */
+const numberedFilename = (filename: string, n: number) => {
+  const dot = filename.lastIndexOf(".");
+  return dot > 0
+    ? `${filename.slice(0, dot)} (${n})${filename.slice(dot)}`
+    : `${filename} (${n})`;
+};
+
+export const isEmptyZipSelection = (selection: ProjectZipSelection) =>
+  selection.folderIds.length === 0 &&
+  selection.assetIds.length === 0 &&
+  selection.deliveryIds.length === 0;
+
+/**
+ * Resolves a project download into ZIP entries. An empty selection means the
+ * whole project. Selected folders keep their own name as the top-level
+ * directory and include every descendant; individually selected files go to
+ * the archive root. `scope` limits both to what the caller may list, so a
+ * selected id outside it is treated like one that is not in the project:
+ * null.
+ */
+export async function buildProjectZipEntries(
+  projectId: string,
+  selection: ProjectZipSelection,
+  scope: ProjectContentScope
+): Promise<ZipEntry[] | null> {
+  const wholeProject = isEmptyZipSelection(selection);
+
+  const folders = await prisma.folder.findMany({
+    where: { projectId, deletedAt: null, ...scope.folders },
+    select: { id: true, name: true, type: true, parentId: true },
+  });
+  const tree = buildFolderTree(folders);
+
+  // Full hierarchy path for every folder, following buildFolderTree's order
+  const fullPaths = new Map<string, string[]>();
+  const nodes = new Map<string, DriveFolderNode>();
+  const ordered: string[] = [];
+  const walk = (list: DriveFolderNode[], parentPath: string[]) => {
+    list.forEach((node) => {
+      const path = [...parentPath, sanitizeZipSegment(node.name)];
+      fullPaths.set(node.id, path);
+      nodes.set(node.id, node);
+      ordered.push(node.id);
+      walk(node.children, path);
+    });
+  };
+  walk(tree, []);
+
+  // Folder id -> directory inside the archive
+  const included = new Map<string, string[]>();
+  if (wholeProject) {
+    fullPaths.forEach((path, id) => included.set(id, path));
+  } else {
+    for (const folderId of selection.folderIds) {
+      const root = nodes.get(folderId);
+      if (!root) return null;
+      const depth = fullPaths.get(folderId)!.length - 1;
+      const include = (node: DriveFolderNode) => {
+        if (!included.has(node.id)) {
+          included.set(node.id, fullPaths.get(node.id)!.slice(depth));
+        }
+        node.children.forEach(include);
+      };
+      include(root);
+    }
+  }
+
+  const includedIds = Array.from(included.keys());
+  const fileWhere = (ids: string[]) => ({
+    projectId,
+    deletedAt: null,
+    OR: [
+      { folderId: { in: includedIds } },
+      { id: { in: ids } },
+      ...(wholeProject ? [{ folderId: null }] : []),
+    ],
+  });
+
+  const [assets, deliveries] = await Promise.all([
+    prisma.asset.findMany({
+      where: { ...fileWhere(selection.assetIds), ...scope.assets },
+      select: fileSelect,
+    }),
+    prisma.delivery.findMany({
+      where: fileWhere(selection.deliveryIds),
+      select: fileSelect,
+    }),
+  ]);
+
+  const foundAssetIds = new Set(assets.map((asset) => asset.id));
+  const foundDeliveryIds = new Set(deliveries.map((delivery) => delivery.id));
+  if (
+    selection.assetIds.some((id) => !foundAssetIds.has(id)) ||
+    selection.deliveryIds.some((id) => !foundDeliveryIds.has(id))
+  ) {
+    return null;
+  }
+
+  const storage = getStorage();
+  const entries: ZipEntry[] = [];
+  const usedNames = new Map<string, Set<string>>();
+
+  const directoryOf = (file: ZipFile) =>
+    (file.folderId && included.get(file.folderId)) || [];
+
+  const addFile = (file: ZipFile) => {
+    const directory = directoryOf(file).join("/");
+    const taken = usedNames.get(directory) ?? new Set<string>();
+    usedNames.set(directory, taken);
+
+    const base = sanitizeZipSegment(file.filename);
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = numberedFilename(base, n);
+    }
+    taken.add(name.toLowerCase());
+
+    entries.push({
+      path: directory ? `${directory}/${name}` : name,
+      size: file.sizeBytes,
+      modifiedAt: file.createdAt,
+      open: async () => {
+        const object = await storage.getObjectStream(file.key);
+        return object && "body" in object ? object.body : null;
+      },
+    });
+  };
+
+  // Directory entries keep empty folders in the archive
+  ordered
+    .filter((id) => included.has(id))
+    .forEach((id) => {
+      entries.push({ path: `${included.get(id)!.join("/")}/` });
+    });
+
+  const byPath = (a: ZipFile, b: ZipFile) =>
+    directoryOf(a).join("/").localeCompare(directoryOf(b).join("/")) ||
+    a.filename.localeCompare(b.filename);
+  [...assets, ...deliveries].sort(byPath).forEach(addFile);
+
+  return entries;
+}
@@ -37,6 +37,9 @@ export function getR2Client() {
     credentials: { accessKeyId, secretAccessKey },
     requestHandler,
     maxAttempts: 3, // Retry up to 3 times
+    // Otherwise the SDK signs a CRC32 of the empty body into presigned part
+    // URLs; parts carry their own SHA-256 when the upload asked for one
+    requestChecksumCalculation: "WHEN_REQUIRED",
   });
 }
 
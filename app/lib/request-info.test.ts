@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientIp } from "./request-info";
+
+const forwardedFor = (value: string) =>
+  new Headers({ "x-forwarded-for": value });
+
+describe("clientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes the address the proxy appended, not the client's entries", () => {
+    expect(clientIp(forwardedFor("6.6.6.6, 203.0.113.7"))).toBe("203.0.113.7");
+  });
+
+  it("counts back one entry per trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(clientIp(forwardedFor("6.6.6.6, 203.0.113.7, 10.0.0.2"))).toBe(
+      "203.0.113.7"
+    );
+    expect(clientIp(forwardedFor("203.0.113.7"))).toBe("203.0.113.7");
+  });
+
+  it("ignores the headers without a trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+    expect(clientIp(forwardedFor("203.0.113.7"))).toBe("unknown");
+  });
+
+  it("falls back to X-Real-IP, then unknown", () => {
+    expect(clientIp({ "x-real-ip": "203.0.113.7" })).toBe("203.0.113.7");
+    expect(clientIp(undefined)).toBe("unknown");
+  });
+});
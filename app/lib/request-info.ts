@@ -0,0 +1,42 @@
+// Client details taken from request headers, for throttling and auditing.
+// Accepts fetch Headers (route handlers) or the plain object next-auth
+// passes to `authorize`.
+
+type HeaderSource =
+  Headers | Record<string, string | string[] | undefined> | undefined;
+
+const readHeader = (headers: HeaderSource, name: string) => {
+  if (!headers) return undefined;
+  if (headers instanceof Headers) return headers.get(name) ?? undefined;
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// How many proxies in front of the app append to X-Forwarded-For. The default
+// of 1 fits Vercel, which replaces the header with the address it saw, and a
+// single reverse proxy such as nginx that appends to it. Entries left of the
+// trusted hops come from the client and can be anything, so they are never
+// used. 0 means no proxy: every header is the client's own and is ignored.
+const trustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+/**
+ * Client address as seen by the outermost trusted proxy ("unknown" when
+ * there is none). Throttles key on it, so it must not be client-controlled.
+ */
+export function clientIp(headers: HeaderSource): string {
+  const hops = trustedProxyHops();
+  if (hops === 0) return "unknown";
+  const forwarded = (readHeader(headers, "x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than hops: the first one is as far back as proxies reach
+  const hop = forwarded[Math.max(0, forwarded.length - hops)];
+  return hop || readHeader(headers, "x-real-ip")?.trim() || "unknown";
+}
+
+export const userAgent = (headers: HeaderSource) =>
+  readHeader(headers, "user-agent")?.slice(0, 512) ?? null;
@@ -0,0 +1,21 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+
+// Hashes the File it is sent a chunk at a time, so a large master never
+// sits in memory whole, and posts back { sha256 } or { error }.
+self.onmessage = async (event: MessageEvent<File>) => {
+  try {
+    const hash = sha256.create();
+    const reader = event.data.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+    }
+    self.postMessage({ sha256: bytesToHex(hash.digest()) });
+  } catch (error) {
+    self.postMessage({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
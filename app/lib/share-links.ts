@@ -0,0 +1,183 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { prisma } from "@/app/lib/prisma";
+import { getStorage } from "@/app/lib/storage";
+import {
+  contentDisposition,
+  rangeNotSatisfiable,
+} from "@/app/lib/http-download";
+import {
+  hashShareToken,
+  isShareTokenSigned,
+  shareAccessCookieName,
+  signShareAccess,
+} from "@/app/lib/share-token";
+
+export type ActiveShareLink = NonNullable<
+  Awaited<ReturnType<typeof findActiveShareLink>>
+>;
+
+/**
+ * Looks up a share link by its raw token. Returns null for unknown, revoked
+ * or expired links so callers can answer with a plain 404.
+ */
+export async function findActiveShareLink(token: string) {
+  if (!(await isShareTokenSigned(token))) return null;
+
+  const link = await prisma.shareLink.findUnique({
+    where: { tokenHash: await hashShareToken(token) },
+    include: {
+      project: { select: { id: true, title: true } },
+      delivery: { select: { id: true, filename: true, deletedAt: true } },
+      folder: { select: { id: true, name: true, deletedAt: true } },
+    },
+  });
+
+  if (!link || link.revokedAt || link.expiresAt <= new Date()) return null;
+  // Links to something in the Trash stop working until it is restored
+  if (link.delivery?.deletedAt || link.folder?.deletedAt) return null;
+  return link;
+}
+
+/** Password-less links are always unlocked; others need the access cookie */
+export async function hasShareAccess(
+  req: NextRequest,
+  link: Pick<ActiveShareLink, "id" | "passwordHash">
+) {
+  if (!link.passwordHash) return true;
+  const cookie = req.cookies.get(shareAccessCookieName(link.id))?.value;
+  if (!cookie) return false;
+  const expected = await signShareAccess(link.id, link.passwordHash);
+  return (
+    cookie.length === expected.length &&
+    timingSafeEqual(Buffer.from(cookie), Buffer.from(expected))
+  );
+}
+
+/**
+ * Folders and deliveries visible through a link: the single delivery, or the
+ * shared folder with everything nested beneath it.
+ */
+export async function getSharedContent(link: ActiveShareLink) {
+  const deliverySelect = {
+    id: true,
+    filename: true,
+    contentType: true,
+    sizeBytes: true,
+    sha256: true,
+    folderId: true,
+    version: true,
+    createdAt: true,
+  } as const;
+
+  if (link.deliveryId) {
+    const deliveries = await prisma.delivery.findMany({
+      where: { id: link.deliveryId, deletedAt: null },
+      select: deliverySelect,
+    });
+    return { folders: [], deliveries };
+  }
+
+  if (!link.folderId) return { folders: [], deliveries: [] };
+
+  const projectFolders = await prisma.folder.findMany({
+    where: { projectId: link.projectId, deletedAt: null },
+    select: { id: true, name: true, parentId: true, type: true },
+  });
+
+  const folderIds = new Set([link.folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of projectFolders) {
+      if (
+        folder.parentId &&
+        folderIds.has(folder.parentId) &&
+        !folderIds.has(folder.id)
+      ) {
+        folderIds.add(folder.id);
+        added = true;
+      }
+    }
+  }
+
+  const folders = projectFolders.filter((folder) => folderIds.has(folder.id));
+  const deliveries = await prisma.delivery.findMany({
+    where: { folderId: { in: [...folderIds] }, deletedAt: null },
+    select: deliverySelect,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return { folders, deliveries };
+}
+
+/** The shared delivery with the given id, or null when it is outside the link */
+export async function findSharedDelivery(
+  link: ActiveShareLink,
+  deliveryId: string
+) {
+  const { deliveries } = await getSharedContent(link);
+  if (!deliveries.some((delivery) => delivery.id === deliveryId)) return null;
+  return prisma.delivery.findUnique({ where: { id: deliveryId } });
+}
+
+/**
+ * Streams a delivery through a share link. Bytes are proxied rather than
+ * redirected to a signed storage URL so stream-only links never hand out a
+ * reusable download URL.
+ */
+export async function serveSharedDelivery(
+  req: NextRequest,
+  token: string,
+  deliveryId: string,
+  mode: "stream" | "download"
+) {
+  const link = await findActiveShareLink(token);
+  if (!link) return new NextResponse("Not Found", { status: 404 });
+
+  if (!(await hasShareAccess(req, link))) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  if (mode === "download" && !link.allowDownload) {
+    return new NextResponse("Downloads are disabled for this link", {
+      status: 403,
+    });
+  }
+
+  const delivery = await findSharedDelivery(link, deliveryId);
+  if (!delivery) return new NextResponse("Not Found", { status: 404 });
+
+  const range = req.headers.get("range");
+  const object = await getStorage().getObjectStream(delivery.key, { range });
+  if (!object) return new NextResponse("Not Found", { status: 404 });
+  if ("rangeNotSatisfiable" in object) return rangeNotSatisfiable(object);
+
+  // Count each download once, not every range request of a stream
+  if (mode === "download") {
+    await prisma.shareLink.update({
+      where: { id: link.id },
+      data: { downloadCount: { increment: 1 }, lastAccessedAt: new Date() },
+    });
+  }
+
+  const headers = new Headers({
+    "Content-Type":
+      object.contentType || delivery.contentType || "application/octet-stream",
+    "Content-Length": String(object.contentLength),
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-store",
+    "Content-Disposition": contentDisposition(
+      mode === "download" ? "attachment" : "inline",
+      delivery.filename
+    ),
+  });
+  if (object.contentRange) {
+    headers.set("Content-Range", object.contentRange);
+  }
+
+  return new NextResponse(object.body, {
+    status: object.contentRange ? 206 : 200,
+    headers,
+  });
+}
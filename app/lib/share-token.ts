@@ -0,0 +1,92 @@
+// Share link tokens are "<random>.<signature>". The signature lets
+// middleware (edge runtime, no database) reject forged tokens before any
+// route runs; the database only stores a SHA-256 hash of the full token.
+// Uses Web Crypto so it works in both the edge and Node runtimes.
+
+const encoder = new TextEncoder();
+
+function getShareSecret() {
+  const secret =
+    process.env.SHARE_LINK_SECRET ||
+    process.env.NEXTAUTH_SECRET ||
+    process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Share link secret is not configured. Set SHARE_LINK_SECRET or NEXTAUTH_SECRET."
+    );
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+async function hmac(value: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getShareSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return new Uint8Array(signature);
+}
+
+function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function createShareToken() {
+  const id = toBase64Url(crypto.getRandomValues(new Uint8Array(18)));
+  const signature = toBase64Url(await hmac(id)).slice(0, 22);
+  return `${id}.${signature}`;
+}
+
+/** True when the token was issued by this server (does not check the database) */
+export async function isShareTokenSigned(token: string) {
+  const [id, signature, ...rest] = token.split(".");
+  if (!id || !signature || rest.length > 0) return false;
+  try {
+    const expected = toBase64Url(await hmac(id)).slice(0, 22);
+    return constantTimeEqual(expected, signature);
+  } catch {
+    return false;
+  }
+}
+
+export async function hashShareToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Value of the cookie granting access to a password-protected link. Bound to
+ * the current password hash so changing or clearing it invalidates the cookie.
+ */
+export async function signShareAccess(linkId: string, passwordHash: string) {
+  return toHex(await hmac(`${linkId}:${passwordHash}`));
+}
+
+export function shareAccessCookieName(linkId: string) {
+  return `share_access_${linkId}`;
+}
@@ -0,0 +1,122 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  LOGIN_IP_BLOCK_THRESHOLD,
+  LOGIN_LOCKOUT_THRESHOLD,
+  lockoutMs,
+  waitingOut,
+} from "@/app/lib/login-throttle";
+
+// Share link passwords are throttled like sign-ins, with the same delays,
+// thresholds and lockout, but counted apart from them: guessing at a link
+// never locks anyone out of signing in.
+
+const FREE_LINK_ATTEMPTS = 3;
+const FREE_IP_ATTEMPTS = 10;
+
+type ThrottledLink = {
+  failedUnlockCount: number;
+  lastFailedUnlockAt: Date | null;
+  unlockLockedUntil: Date | null;
+};
+
+/**
+ * Runs before the password is checked, so throttled attempts never reach
+ * bcrypt. False when the attempt has to wait.
+ */
+export async function checkShareUnlockAllowed(
+  ip: string,
+  link: ThrottledLink
+): Promise<boolean> {
+  const now = new Date();
+
+  const ipThrottle = await prisma.shareUnlockIpThrottle.findUnique({
+    where: { ip },
+  });
+  if (ipThrottle) {
+    if (ipThrottle.blockedUntil && ipThrottle.blockedUntil > now) {
+      return false;
+    }
+    if (
+      waitingOut(
+        ipThrottle.failedCount,
+        ipThrottle.lastFailedAt,
+        FREE_IP_ATTEMPTS,
+        now
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (link.unlockLockedUntil && link.unlockLockedUntil > now) return false;
+  return !waitingOut(
+    link.failedUnlockCount,
+    link.lastFailedUnlockAt,
+    FREE_LINK_ATTEMPTS,
+    now
+  );
+}
+
+async function recordIpFailure(ip: string, now: Date) {
+  const windowStart = new Date(now.getTime() - lockoutMs());
+  // Failures from before the window start a fresh count
+  await prisma.shareUnlockIpThrottle.updateMany({
+    where: { ip, lastFailedAt: { lt: windowStart } },
+    data: { failedCount: 0, blockedUntil: null },
+  });
+  const throttle = await prisma.shareUnlockIpThrottle.upsert({
+    where: { ip },
+    create: { ip, failedCount: 1, lastFailedAt: now },
+    update: { failedCount: { increment: 1 }, lastFailedAt: now },
+  });
+  if (throttle.failedCount >= LOGIN_IP_BLOCK_THRESHOLD) {
+    await prisma.shareUnlockIpThrottle.update({
+      where: { ip },
+      data: { blockedUntil: new Date(now.getTime() + lockoutMs()) },
+    });
+  }
+}
+
+async function recordLinkFailure(linkId: string, now: Date) {
+  const windowStart = new Date(now.getTime() - lockoutMs());
+  await prisma.shareLink.updateMany({
+    where: { id: linkId, lastFailedUnlockAt: { lt: windowStart } },
+    data: { failedUnlockCount: 0 },
+  });
+  const link = await prisma.shareLink.update({
+    where: { id: linkId },
+    data: { failedUnlockCount: { increment: 1 }, lastFailedUnlockAt: now },
+    select: { failedUnlockCount: true },
+  });
+  if (link.failedUnlockCount >= LOGIN_LOCKOUT_THRESHOLD) {
+    await prisma.shareLink.update({
+      where: { id: linkId },
+      data: { unlockLockedUntil: new Date(now.getTime() + lockoutMs()) },
+    });
+  }
+}
+
+/** Counts a wrong share link password against the address and the link */
+export async function recordShareUnlockFailure(ip: string, linkId: string) {
+  const now = new Date();
+  await recordIpFailure(ip, now);
+  await recordLinkFailure(linkId, now);
+}
+
+/** Resets the link's failure count after the right password */
+export async function clearShareUnlockFailures(linkId: string) {
+  await prisma.shareLink.updateMany({
+    where: {
+      id: linkId,
+      OR: [
+        { failedUnlockCount: { gt: 0 } },
+        { unlockLockedUntil: { not: null } },
+      ],
+    },
+    data: {
+      failedUnlockCount: 0,
+      lastFailedUnlockAt: null,
+      unlockLockedUntil: null,
+    },
+  });
+}
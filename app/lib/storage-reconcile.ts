@@ -0,0 +1,209 @@
+import { prisma } from "@/app/lib/prisma";
+import {
+  getStorage,
+  type StorageMultipartUpload,
+  type StorageObjectInfo,
+} from "@/app/lib/storage";
+
+// Compares the bucket with the database. Uploads a browser walked away from
+// are never aborted, and a failed insert after CompleteMultipartUpload leaves
+// an object no row points at; both only cost storage until cleaned up here.
+
+// Where the app writes: project files, and the legacy video uploads
+export const RECONCILED_PREFIXES = ["assets/", "deliveries/", "videos/"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Part URLs are presigned for an hour, so an upload this old is abandoned.
+// A resumable upload counts from when its browser last picked it up.
+const STALE_UPLOAD_MS =
+  (Number(process.env.STALE_UPLOAD_HOURS) || 24) * HOUR_MS;
+
+// A newer object may belong to an upload whose row is still being written
+const ORPHAN_GRACE_MS = HOUR_MS;
+
+// Audit entries list this many keys per finding; the counts are complete
+const REPORT_SAMPLE_SIZE = 50;
+
+export type StoredFileType =
+  "asset" | "delivery" | "delivery_version" | "video";
+
+export type StoredFileRow = { type: StoredFileType; id: string; key: string };
+
+export type StorageReconcileReport = {
+  checkedObjects: number;
+  checkedRows: number;
+  staleUploads: StorageMultipartUpload[];
+  abortedUploads: number;
+  // UploadSession rows whose upload storage no longer has; deleted along
+  // with stale uploads
+  deadSessions: number;
+  // Objects under RECONCILED_PREFIXES that no row points at
+  orphanObjects: StorageObjectInfo[];
+  deletedOrphans: number;
+  // Rows whose object is gone from storage
+  missingObjects: StoredFileRow[];
+  failures: number;
+};
+
+/** Every stored-file key the database knows, once each */
+async function storedFileRows() {
+  const [assets, deliveries, versions, videos] = await Promise.all([
+    prisma.asset.findMany({ select: { id: true, key: true } }),
+    prisma.delivery.findMany({ select: { id: true, key: true } }),
+    prisma.deliveryVersion.findMany({ select: { id: true, key: true } }),
+    prisma.video.findMany({ select: { id: true, key: true } }),
+  ]);
+
+  // A delivery shares its key with its latest version; report it once
+  const rows = new Map<string, StoredFileRow>();
+  const add = (type: StoredFileType, list: { id: string; key: string }[]) => {
+    for (const { id, key } of list) {
+      if (!rows.has(key)) rows.set(key, { type, id, key });
+    }
+  };
+  add("asset", assets);
+  add("delivery", deliveries);
+  add("delivery_version", versions);
+  add("video", videos);
+  return rows;
+}
+
+/**
+ * Lists uploads and objects under RECONCILED_PREFIXES and matches them with
+ * the Asset, Delivery, DeliveryVersion and Video rows. Without options it
+ * only reports; `abortStaleUploads` and `deleteOrphans` also clean up.
+ * Trashed rows still own their objects until the purge removes both.
+ */
+export async function reconcileStorage(
+  options: {
+    abortStaleUploads?: boolean;
+    deleteOrphans?: boolean;
+    now?: Date;
+  } = {}
+): Promise<StorageReconcileReport> {
+  const storage = getStorage();
+  const now = options.now ?? new Date();
+  const report: StorageReconcileReport = {
+    checkedObjects: 0,
+    checkedRows: 0,
+    staleUploads: [],
+    abortedUploads: 0,
+    deadSessions: 0,
+    orphanObjects: [],
+    deletedOrphans: 0,
+    missingObjects: [],
+    failures: 0,
+  };
+
+  const sessions = await prisma.uploadSession.findMany({
+    select: { id: true, uploadId: true, updatedAt: true },
+  });
+  const resumedAt = new Map(
+    sessions.map((session) => [session.uploadId, session.updatedAt])
+  );
+
+  const liveUploadIds = new Set<string>();
+  for (const prefix of RECONCILED_PREFIXES) {
+    const uploads = await storage.listMultipartUploads(prefix);
+    for (const upload of uploads) liveUploadIds.add(upload.uploadId);
+    report.staleUploads.push(
+      ...uploads.filter((upload) => {
+        const lastActive = resumedAt.get(upload.uploadId) ?? upload.initiatedAt;
+        return (
+          !lastActive || now.getTime() - lastActive.getTime() > STALE_UPLOAD_MS
+        );
+      })
+    );
+  }
+
+  if (options.abortStaleUploads) {
+    for (const upload of report.staleUploads) {
+      try {
+        await storage.abortMultipartUpload(upload.key, upload.uploadId);
+        await prisma.uploadSession.deleteMany({
+          where: { uploadId: upload.uploadId },
+        });
+        report.abortedUploads++;
+      } catch (error) {
+        report.failures++;
+        console.error(`Failed to abort upload of ${upload.key}:`, error);
+      }
+    }
+  }
+
+  // Completed or aborted elsewhere, or expired by the bucket's own rules
+  const deadSessions = sessions.filter(
+    (session) =>
+      !liveUploadIds.has(session.uploadId) &&
+      now.getTime() - session.updatedAt.getTime() > ORPHAN_GRACE_MS
+  );
+  report.deadSessions = deadSessions.length;
+  if (options.abortStaleUploads && deadSessions.length) {
+    await prisma.uploadSession.deleteMany({
+      where: { id: { in: deadSessions.map((session) => session.id) } },
+    });
+  }
+
+  const rows = await storedFileRows();
+  report.checkedRows = rows.size;
+
+  const listedKeys = new Set<string>();
+  for (const prefix of RECONCILED_PREFIXES) {
+    for (const object of await storage.listObjects(prefix)) {
+      listedKeys.add(object.key);
+      if (rows.has(object.key)) continue;
+      if (
+        object.lastModified &&
+        now.getTime() - object.lastModified.getTime() < ORPHAN_GRACE_MS
+      ) {
+        continue;
+      }
+      report.orphanObjects.push(object);
+    }
+  }
+  report.checkedObjects = listedKeys.size;
+
+  if (options.deleteOrphans) {
+    for (const object of report.orphanObjects) {
+      try {
+        await storage.deleteObject(object.key);
+        report.deletedOrphans++;
+      } catch (error) {
+        report.failures++;
+        console.error(`Failed to delete orphaned ${object.key}:`, error);
+      }
+    }
+  }
+
+  for (const row of rows.values()) {
+    if (listedKeys.has(row.key)) continue;
+    // Keys from before the current layout are outside the listed prefixes
+    const listed = RECONCILED_PREFIXES.some((prefix) =>
+      row.key.startsWith(prefix)
+    );
+    if (!listed && (await storage.headObject(row.key))) continue;
+    report.missingObjects.push(row);
+  }
+
+  return report;
+}
+
+/** Counts plus the first few keys of each finding, for the audit log */
+export function summarizeStorageReport(report: StorageReconcileReport) {
+  const sample = <T>(items: T[]) => items.slice(0, REPORT_SAMPLE_SIZE);
+  return {
+    checkedObjects: report.checkedObjects,
+    checkedRows: report.checkedRows,
+    staleUploads: report.staleUploads.length,
+    abortedUploads: report.abortedUploads,
+    deadSessions: report.deadSessions,
+    orphanObjects: report.orphanObjects.length,
+    deletedOrphans: report.deletedOrphans,
+    missingObjects: report.missingObjects.length,
+    failures: report.failures,
+    staleUploadKeys: sample(report.staleUploads.map((upload) => upload.key)),
+    orphanKeys: sample(report.orphanObjects.map((object) => object.key)),
+    missing: sample(report.missingObjects),
+  };
+}
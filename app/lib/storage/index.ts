@@ -0,0 +1,38 @@
+import { createLocalStorage } from "./local";
+import { createR2Storage } from "./r2";
+import type { StorageDriver, StorageDriverName } from "./types";
+
+export type {
+  SignedPartUploadResult,
+  StorageDriver,
+  StorageDriverName,
+  StorageMultipartUpload,
+  StorageObjectInfo,
+  StorageObjectStream,
+  StoragePart,
+  StorageRangeNotSatisfiable,
+} from "./types";
+
+let cachedStorage: StorageDriver | null = null;
+
+export function resolveStorageDriverName(): StorageDriverName {
+  const configured = (process.env.STORAGE_DRIVER || "r2").trim().toLowerCase();
+  if (configured !== "r2" && configured !== "local") {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${configured}". Supported drivers: r2, local.`
+    );
+  }
+  return configured;
+}
+
+/**
+ * Returns the storage driver selected by STORAGE_DRIVER (defaults to R2).
+ */
+export function getStorage(): StorageDriver {
+  if (cachedStorage) return cachedStorage;
+  cachedStorage =
+    resolveStorageDriverName() === "local"
+      ? createLocalStorage()
+      : createR2Storage();
+  return cachedStorage;
+}
@@ -0,0 +1,463 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type {
+  StorageDriver,
+  StorageMultipartUpload,
+  StorageObjectInfo,
+  StorageObjectStream,
+  StoragePart,
+  StorageRangeNotSatisfiable,
+} from "./types";
+
+// Layout under LOCAL_STORAGE_DIR:
+//   objects/<key>                  object bytes
+//   meta/<key>.json                { contentType }
+//   multipart/<uploadId>/upload.json, part-<n>
+const LOCAL_STORAGE_DIR = path.resolve(
+  process.env.LOCAL_STORAGE_DIR || ".storage"
+);
+
+const LOCAL_STORAGE_BASE_URL =
+  process.env.LOCAL_STORAGE_BASE_URL ||
+  process.env.APP_BASE_URL ||
+  process.env.NEXTAUTH_URL ||
+  "http://localhost:3000";
+
+const OBJECT_ROUTE = "/api/storage/local/object";
+const PART_ROUTE = "/api/storage/local/part";
+
+type MultipartManifest = {
+  key: string;
+  contentType: string | null;
+  initiatedAt: string;
+  // Every part has to come with its SHA-256, as with S3 checksums
+  checksums?: boolean;
+};
+
+function getSigningSecret() {
+  const secret =
+    process.env.LOCAL_STORAGE_SECRET ||
+    process.env.NEXTAUTH_SECRET ||
+    process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Local storage signing secret is not configured. Set LOCAL_STORAGE_SECRET or NEXTAUTH_SECRET."
+    );
+  }
+  return secret;
+}
+
+function resolveInside(base: string, relative: string) {
+  const resolved = path.resolve(base, relative);
+  if (resolved !== base && !resolved.startsWith(`${base}${path.sep}`)) {
+    throw new Error(`Invalid storage key: ${relative}`);
+  }
+  return resolved;
+}
+
+const objectPath = (key: string) =>
+  resolveInside(path.join(LOCAL_STORAGE_DIR, "objects"), key);
+const metaPath = (key: string) =>
+  resolveInside(path.join(LOCAL_STORAGE_DIR, "meta"), `${key}.json`);
+const uploadDir = (uploadId: string) => {
+  if (!/^[a-f0-9-]+$/i.test(uploadId)) {
+    throw new Error(`Invalid upload id: ${uploadId}`);
+  }
+  return path.join(LOCAL_STORAGE_DIR, "multipart", uploadId);
+};
+
+// Encoded again so a key holding "&" or "=" cannot read as other parameters
+function canonicalPayload(params: URLSearchParams) {
+  const sorted = [...params.entries()]
+    .filter(([name]) => name !== "sig")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return new URLSearchParams(sorted).toString();
+}
+
+function signParams(params: URLSearchParams) {
+  return createHmac("sha256", getSigningSecret())
+    .update(canonicalPayload(params))
+    .digest("hex");
+}
+
+function buildSignedUrl(
+  route: string,
+  values: Record<string, string>,
+  expiresIn: number
+) {
+  const params = new URLSearchParams(values);
+  params.set("expires", String(Math.floor(Date.now() / 1000) + expiresIn));
+  params.set("sig", signParams(params));
+  const url = new URL(route, LOCAL_STORAGE_BASE_URL);
+  url.search = params.toString();
+  return url.toString();
+}
+
+/**
+ * Checks the signature and expiry of a URL produced by the local driver.
+ */
+export function verifyLocalSignature(params: URLSearchParams): boolean {
+  const sig = params.get("sig");
+  const expires = Number(params.get("expires"));
+  if (!sig || !Number.isFinite(expires)) return false;
+  if (expires < Math.floor(Date.now() / 1000)) return false;
+
+  const expected = Buffer.from(signParams(params), "hex");
+  const provided = Buffer.from(sig, "hex");
+  return (
+    expected.length === provided.length && timingSafeEqual(expected, provided)
+  );
+}
+
+async function readManifest(uploadId: string): Promise<MultipartManifest> {
+  const raw = await fs.readFile(
+    path.join(uploadDir(uploadId), "upload.json"),
+    "utf8"
+  );
+  return JSON.parse(raw) as MultipartManifest;
+}
+
+async function readContentType(key: string): Promise<string | null> {
+  try {
+    const raw = await fs.readFile(metaPath(key), "utf8");
+    return (JSON.parse(raw) as { contentType?: string }).contentType ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeContentType(key: string, contentType?: string | null) {
+  const target = metaPath(key);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, JSON.stringify({ contentType: contentType ?? null }));
+}
+
+async function fileExists(target: string) {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function md5(data: Buffer | string) {
+  return createHash("md5").update(data).digest("hex");
+}
+
+function sha256Base64(data: Buffer) {
+  return createHash("sha256").update(data).digest("base64");
+}
+
+/**
+ * Writes a multipart part to disk. Shared by the driver and the
+ * `/api/storage/local/part` route. `checksumSha256` (base64) is checked
+ * against the body, and required when the upload was started with checksums.
+ */
+export async function writeLocalPart(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  body: Buffer,
+  checksumSha256?: string | null
+): Promise<string> {
+  const manifest = await readManifest(uploadId);
+  if (manifest.key !== key) {
+    throw new Error("Upload id does not belong to this key");
+  }
+  if (!Number.isInteger(partNumber) || partNumber < 1) {
+    throw new Error(`Invalid part number: ${partNumber}`);
+  }
+  if (manifest.checksums && !checksumSha256) {
+    throw new Error(`Part ${partNumber} is missing its SHA-256 checksum`);
+  }
+  if (checksumSha256 && sha256Base64(body) !== checksumSha256) {
+    throw new Error(`Part ${partNumber} does not match its SHA-256 checksum`);
+  }
+  await fs.writeFile(path.join(uploadDir(uploadId), `part-${partNumber}`), body);
+  return md5(body);
+}
+
+/**
+ * Parses an HTTP Range header ("bytes=start-end") against a known size.
+ * Null for headers it does not understand, which are served whole;
+ * "unsatisfiable" for ranges with no bytes in the object, including "bytes=-".
+ */
+function parseRange(range: string, size: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match) return null;
+  if (!match[1] && !match[2]) return "unsatisfiable" as const;
+  let start = match[1] ? Number(match[1]) : NaN;
+  let end = match[2] ? Number(match[2]) : size - 1;
+  if (Number.isNaN(start)) {
+    // Suffix range: last N bytes
+    if (end === 0) return "unsatisfiable" as const;
+    start = Math.max(0, size - end);
+    end = size - 1;
+  }
+  if (start >= size) return "unsatisfiable" as const;
+  if (start > end) return null;
+  return { start, end: Math.min(end, size - 1) };
+}
+
+async function walk(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const full = path.join(dir, entry.name);
+      return entry.isDirectory() ? walk(full) : Promise.resolve([full]);
+    })
+  );
+  return nested.flat();
+}
+
+export function createLocalStorage(): StorageDriver {
+  return {
+    name: "local",
+
+    async putObject(key, body, options) {
+      const target = objectPath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, body);
+      await writeContentType(key, options?.contentType);
+    },
+
+    async createMultipartUpload(key, options) {
+      // Validate the key before creating anything on disk
+      objectPath(key);
+      const uploadId = randomUUID();
+      const dir = uploadDir(uploadId);
+      await fs.mkdir(dir, { recursive: true });
+      const manifest: MultipartManifest = {
+        key,
+        contentType: options?.contentType ?? null,
+        initiatedAt: new Date().toISOString(),
+        checksums: options?.checksums || undefined,
+      };
+      await fs.writeFile(path.join(dir, "upload.json"), JSON.stringify(manifest));
+      return { uploadId };
+    },
+
+    async getUploadPartUrls(key, uploadId, partCount, options) {
+      const urls: string[] = [];
+      for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+        urls.push(
+          buildSignedUrl(
+            PART_ROUTE,
+            { key, uploadId, partNumber: String(partNumber) },
+            options?.expiresIn ?? 60 * 60
+          )
+        );
+      }
+      return urls;
+    },
+
+    async uploadSignedPart(url, body, options) {
+      const params = new URL(url, LOCAL_STORAGE_BASE_URL).searchParams;
+      if (!verifyLocalSignature(params)) {
+        return {
+          statusCode: 403,
+          etag: "",
+          body: "Invalid or expired upload URL",
+        };
+      }
+      const etag = await writeLocalPart(
+        params.get("key")!,
+        params.get("uploadId")!,
+        Number(params.get("partNumber")),
+        body,
+        options.checksumSha256
+      );
+      return { statusCode: 200, etag, body: "" };
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const manifest = await readManifest(uploadId);
+      if (manifest.key !== key) {
+        throw new Error("Upload id does not belong to this key");
+      }
+      const dir = uploadDir(uploadId);
+      const ordered = [...parts].sort((a, b) => a.PartNumber - b.PartNumber);
+
+      for (const part of ordered) {
+        const partFile = path.join(dir, `part-${part.PartNumber}`);
+        if (!(await fileExists(partFile))) {
+          throw new Error(`Part ${part.PartNumber} was never uploaded`);
+        }
+        if (
+          manifest.checksums &&
+          part.ChecksumSHA256 !== sha256Base64(await fs.readFile(partFile))
+        ) {
+          throw new Error(
+            `Part ${part.PartNumber} does not match its SHA-256 checksum`
+          );
+        }
+      }
+
+      const target = objectPath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      const output = createWriteStream(target);
+      for (const part of ordered) {
+        await pipeline(
+          createReadStream(path.join(dir, `part-${part.PartNumber}`)),
+          output,
+          { end: false }
+        );
+      }
+      await new Promise<void>((resolve, reject) => {
+        output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+      });
+
+      await writeContentType(key, manifest.contentType);
+      await fs.rm(dir, { recursive: true, force: true });
+      return { location: `${OBJECT_ROUTE}?key=${encodeURIComponent(key)}` };
+    },
+
+    async abortMultipartUpload(_key, uploadId) {
+      await fs.rm(uploadDir(uploadId), { recursive: true, force: true });
+    },
+
+    async listMultipartUploads(prefix) {
+      let uploadIds: string[];
+      try {
+        uploadIds = await fs.readdir(
+          path.join(LOCAL_STORAGE_DIR, "multipart")
+        );
+      } catch {
+        return [];
+      }
+      const uploads: StorageMultipartUpload[] = [];
+      for (const uploadId of uploadIds) {
+        let manifest: MultipartManifest;
+        try {
+          manifest = await readManifest(uploadId);
+        } catch {
+          // Not an upload directory, or one being created right now
+          continue;
+        }
+        if (!manifest.key.startsWith(prefix)) continue;
+        uploads.push({
+          key: manifest.key,
+          uploadId,
+          initiatedAt: new Date(manifest.initiatedAt),
+        });
+      }
+      return uploads.sort((a, b) => a.key.localeCompare(b.key));
+    },
+
+    async listParts(key, uploadId) {
+      let manifest: MultipartManifest;
+      try {
+        manifest = await readManifest(uploadId);
+      } catch {
+        return null;
+      }
+      if (manifest.key !== key) return null;
+      const dir = uploadDir(uploadId);
+      const parts: StoragePart[] = [];
+      for (const name of await fs.readdir(dir)) {
+        const match = /^part-(\d+)$/.exec(name);
+        if (!match) continue;
+        const data = await fs.readFile(path.join(dir, name));
+        parts.push({
+          PartNumber: Number(match[1]),
+          ETag: md5(data),
+          ...(manifest.checksums ? { ChecksumSHA256: sha256Base64(data) } : {}),
+        });
+      }
+      return parts.sort((a, b) => a.PartNumber - b.PartNumber);
+    },
+
+    async getSignedDownloadUrl(key, options) {
+      return buildSignedUrl(
+        OBJECT_ROUTE,
+        {
+          key,
+          ...(options?.downloadFilename
+            ? { filename: options.downloadFilename }
+            : {}),
+        },
+        options?.expiresIn ?? 60 * 30
+      );
+    },
+
+    async getObjectStream(
+      key,
+      options
+    ): Promise<StorageObjectStream | StorageRangeNotSatisfiable | null> {
+      const target = objectPath(key);
+      let stat;
+      try {
+        stat = await fs.stat(target);
+      } catch {
+        return null;
+      }
+      const contentType = await readContentType(key);
+      const range = options?.range ? parseRange(options.range, stat.size) : null;
+      if (range === "unsatisfiable") {
+        return { rangeNotSatisfiable: true, size: stat.size };
+      }
+      const start = range?.start ?? 0;
+      const end = range?.end ?? stat.size - 1;
+      const stream = createReadStream(target, {
+        start,
+        end: Math.max(end, start),
+      });
+
+      return {
+        body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+        contentType,
+        contentLength: stat.size === 0 ? 0 : end - start + 1,
+        contentRange: range ? `bytes ${start}-${end}/${stat.size}` : null,
+      };
+    },
+
+    async deleteObject(key) {
+      await fs.rm(objectPath(key), { force: true });
+      await fs.rm(metaPath(key), { force: true });
+    },
+
+    async headObject(key) {
+      try {
+        const stat = await fs.stat(objectPath(key));
+        return {
+          key,
+          sizeBytes: stat.size,
+          contentType: await readContentType(key),
+          etag: null,
+          lastModified: stat.mtime,
+        };
+      } catch {
+        return null;
+      }
+    },
+
+    async listObjects(prefix) {
+      const root = path.join(LOCAL_STORAGE_DIR, "objects");
+      const files = await walk(root);
+      const objects: StorageObjectInfo[] = [];
+      for (const file of files) {
+        const key = path.relative(root, file).split(path.sep).join("/");
+        if (!key.startsWith(prefix)) continue;
+        const stat = await fs.stat(file);
+        objects.push({
+          key,
+          sizeBytes: stat.size,
+          contentType: null,
+          etag: null,
+          lastModified: stat.mtime,
+        });
+      }
+      return objects.sort((a, b) => a.key.localeCompare(b.key));
+    },
+  };
+}
@@ -0,0 +1,508 @@
+import { timingSafeEqual } from "crypto";
+import https from "https";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  PutObjectCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { R2_BUCKET, getR2Client } from "@/app/lib/r2";
+import { contentDisposition } from "@/app/lib/http-download";
+import type {
+  SignedPartUploadResult,
+  StorageDriver,
+  StorageMultipartUpload,
+  StorageObjectInfo,
+  StoragePart,
+} from "./types";
+
+// Custom HTTPS agent for proxied part uploads with increased timeouts and IPv4 preference
+const partUploadAgent = new https.Agent({
+  keepAlive: true,
+  keepAliveMsecs: 1000,
+  timeout: 600000, // 10 minutes
+  family: 4, // Force IPv4
+  maxSockets: 50,
+});
+
+// Helper function to make PUT request using native https module
+function putRequest(
+  url: string,
+  data: Buffer,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<{
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  body: string;
+}> {
+  return new Promise((resolve, reject) => {
+    const urlObj = new URL(url);
+    let timeoutId: NodeJS.Timeout | undefined;
+    let isResolved = false;
+
+    const options: https.RequestOptions = {
+      hostname: urlObj.hostname,
+      port: urlObj.port || 443,
+      path: `${urlObj.pathname}${urlObj.search}`,
+      method: "PUT",
+      headers: {
+        ...headers,
+        "Content-Length": data.length.toString(),
+      },
+      agent: partUploadAgent,
+      family: 4,
+    };
+
+    const clearTimer = () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = undefined;
+      }
+    };
+
+    const req = https.request(options, (res) => {
+      clearTimer();
+      let body = "";
+
+      res.on("data", (chunk) => {
+        body += chunk.toString();
+      });
+
+      res.on("end", () => {
+        if (isResolved) return;
+        isResolved = true;
+
+        const normalizedHeaders: Record<string, string | string[]> = {};
+        for (const [key, value] of Object.entries(res.headers)) {
+          if (typeof value === "string" || Array.isArray(value)) {
+            normalizedHeaders[key] = value;
+          }
+        }
+
+        resolve({
+          statusCode: res.statusCode ?? 500,
+          headers: normalizedHeaders,
+          body,
+        });
+      });
+
+      res.on("error", (error: NodeJS.ErrnoException) => {
+        if (isResolved) return;
+        isResolved = true;
+        clearTimer();
+        reject(error);
+      });
+    });
+
+    const handleTimeout = () => {
+      if (isResolved) return;
+      isResolved = true;
+      clearTimer();
+      req.destroy(new Error(`Request timeout after ${timeout}ms`));
+      reject(new Error(`Request timeout after ${timeout}ms`));
+    };
+
+    timeoutId = setTimeout(handleTimeout, timeout);
+
+    req.on("error", (error: NodeJS.ErrnoException) => {
+      if (isResolved) return;
+      isResolved = true;
+      clearTimer();
+      reject(error);
+    });
+
+    req.setTimeout(timeout, handleTimeout);
+
+    req.write(data);
+    req.end();
+  });
+}
+
+function isInvalidRangeError(error: unknown) {
+  const candidate = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  } | null;
+  return (
+    candidate?.name === "InvalidRange" ||
+    candidate?.$metadata?.httpStatusCode === 416
+  );
+}
+
+function isNotFoundError(error: unknown) {
+  const candidate = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  } | null;
+  return (
+    candidate?.name === "NoSuchKey" ||
+    candidate?.name === "NotFound" ||
+    candidate?.$metadata?.httpStatusCode === 404
+  );
+}
+
+// SigV4 timestamps look like 20251208T100000Z
+function parseAmzDate(value: string | null) {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+const sameSignature = (a: string | null, b: string | null) =>
+  !!a &&
+  !!b &&
+  a.length === b.length &&
+  timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// Signed headers of a part sent with its checksum; the values must be sent
+// exactly as signed
+const CHECKSUM_HEADERS = [
+  "x-amz-checksum-sha256",
+  "x-amz-sdk-checksum-algorithm",
+];
+
+export function createR2Storage(): StorageDriver {
+  if (!R2_BUCKET) {
+    throw new Error(
+      "R2 bucket not configured. Please set the R2_BUCKET environment variable."
+    );
+  }
+
+  const client = getR2Client();
+  const bucket = R2_BUCKET;
+
+  /**
+   * Part URLs are handed out before the browser has hashed the part, so
+   * they only sign the host. For a part sent with its SHA-256 the URL is
+   * checked against a fresh signature of the same part (it must be one we
+   * issued and still valid) and signed again with the checksum headers.
+   * Null when the URL doesn't check out.
+   */
+  const signPartChecksum = async (url: string, checksumSha256: string) => {
+    const target = new URL(url);
+    const params = target.searchParams;
+    const prefix = `/${bucket}/`;
+    const signingDate = parseAmzDate(params.get("X-Amz-Date"));
+    const expiresIn = Number(params.get("X-Amz-Expires"));
+    if (
+      !target.pathname.startsWith(prefix) ||
+      !signingDate ||
+      !expiresIn ||
+      signingDate.getTime() + expiresIn * 1000 < Date.now()
+    ) {
+      return null;
+    }
+
+    const part = {
+      Bucket: bucket,
+      Key: decodeURIComponent(target.pathname.slice(prefix.length)),
+      UploadId: params.get("uploadId") ?? "",
+      PartNumber: Number(params.get("partNumber")),
+    };
+    const issued = await getSignedUrl(client, new UploadPartCommand(part), {
+      expiresIn,
+      signingDate,
+    });
+    if (
+      !sameSignature(
+        new URL(issued).searchParams.get("X-Amz-Signature"),
+        params.get("X-Amz-Signature")
+      )
+    ) {
+      return null;
+    }
+
+    return getSignedUrl(
+      client,
+      new UploadPartCommand({
+        ...part,
+        ChecksumAlgorithm: "SHA256",
+        ChecksumSHA256: checksumSha256,
+      }),
+      { expiresIn: 15 * 60, unhoistableHeaders: new Set(CHECKSUM_HEADERS) }
+    );
+  };
+
+  return {
+    name: "r2",
+
+    async putObject(key, body, options) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: options?.contentType,
+        })
+      );
+    },
+
+    async createMultipartUpload(key, options) {
+      const create = await client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: options?.contentType,
+          ChecksumAlgorithm: options?.checksums ? "SHA256" : undefined,
+        })
+      );
+      return { uploadId: create.UploadId! };
+    },
+
+    async getUploadPartUrls(key, uploadId, partCount, options) {
+      const urls: string[] = [];
+      for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+        const url = await getSignedUrl(
+          client,
+          new UploadPartCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+          }),
+          { expiresIn: options?.expiresIn ?? 60 * 60 }
+        );
+        urls.push(url);
+      }
+      return urls;
+    },
+
+    async uploadSignedPart(
+      url,
+      body,
+      options
+    ): Promise<SignedPartUploadResult> {
+      const { checksumSha256 } = options;
+      const signedUrl = checksumSha256
+        ? await signPartChecksum(url, checksumSha256)
+        : url;
+      if (!signedUrl) {
+        return {
+          statusCode: 403,
+          etag: "",
+          body: "Invalid or expired upload URL",
+        };
+      }
+
+      const result = await putRequest(
+        signedUrl,
+        body,
+        {
+          "Content-Type": options.contentType,
+          ...(checksumSha256
+            ? {
+                "x-amz-checksum-sha256": checksumSha256,
+                "x-amz-sdk-checksum-algorithm": "SHA256",
+              }
+            : {}),
+        },
+        options.timeoutMs
+      );
+
+      // Get ETag from response headers
+      const etagHeader = result.headers["etag"] || result.headers["ETag"];
+      const etag = Array.isArray(etagHeader) ? etagHeader[0] : etagHeader || "";
+
+      return {
+        statusCode: result.statusCode,
+        // Remove quotes from ETag if present (AWS S3/R2 returns ETags with quotes)
+        etag: etag.replace(/^"|"$/g, ""),
+        body: result.body,
+      };
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const result = await client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: [...parts].sort((a, b) => a.PartNumber - b.PartNumber),
+          },
+        })
+      );
+      return { location: result.Location };
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+        })
+      );
+    },
+
+    async listMultipartUploads(prefix) {
+      const uploads: StorageMultipartUpload[] = [];
+      let keyMarker: string | undefined;
+      let uploadIdMarker: string | undefined;
+      do {
+        const page = await client.send(
+          new ListMultipartUploadsCommand({
+            Bucket: bucket,
+            Prefix: prefix,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          })
+        );
+        for (const upload of page.Uploads ?? []) {
+          if (!upload.Key || !upload.UploadId) continue;
+          uploads.push({
+            key: upload.Key,
+            uploadId: upload.UploadId,
+            initiatedAt: upload.Initiated ?? null,
+          });
+        }
+        keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+        uploadIdMarker = page.IsTruncated ? page.NextUploadIdMarker : undefined;
+      } while (keyMarker);
+      return uploads;
+    },
+
+    async listParts(key, uploadId) {
+      const parts: StoragePart[] = [];
+      let partNumberMarker: string | undefined;
+      try {
+        do {
+          const page = await client.send(
+            new ListPartsCommand({
+              Bucket: bucket,
+              Key: key,
+              UploadId: uploadId,
+              PartNumberMarker: partNumberMarker,
+            })
+          );
+          for (const part of page.Parts ?? []) {
+            if (!part.PartNumber || !part.ETag) continue;
+            parts.push({
+              PartNumber: part.PartNumber,
+              ETag: part.ETag.replace(/^"|"$/g, ""),
+              ...(part.ChecksumSHA256
+                ? { ChecksumSHA256: part.ChecksumSHA256 }
+                : {}),
+            });
+          }
+          partNumberMarker = page.IsTruncated
+            ? page.NextPartNumberMarker
+            : undefined;
+        } while (partNumberMarker);
+      } catch (error) {
+        if (isNotFoundError(error)) return null;
+        throw error;
+      }
+      return parts;
+    },
+
+    async getSignedDownloadUrl(key, options) {
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ...(options?.downloadFilename
+            ? {
+                ResponseContentDisposition: contentDisposition(
+                  "attachment",
+                  options.downloadFilename
+                ),
+              }
+            : {}),
+        }),
+        { expiresIn: options?.expiresIn ?? 60 * 30 }
+      );
+    },
+
+    async getObjectStream(key, options) {
+      try {
+        const result = await client.send(
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Range: options?.range || undefined,
+          })
+        );
+        if (!result.Body) return null;
+        return {
+          body: result.Body.transformToWebStream(),
+          contentType: result.ContentType ?? null,
+          contentLength: result.ContentLength ?? 0,
+          contentRange: result.ContentRange ?? null,
+        };
+      } catch (error) {
+        if (isNotFoundError(error)) return null;
+        if (isInvalidRangeError(error)) {
+          return { rangeNotSatisfiable: true, size: null };
+        }
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      await client.send(
+        new DeleteObjectCommand({
+          Bucket: bucket,
+          Key: key,
+        })
+      );
+    },
+
+    async headObject(key) {
+      try {
+        const head = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: key })
+        );
+        return {
+          key,
+          sizeBytes: head.ContentLength ?? 0,
+          contentType: head.ContentType ?? null,
+          etag: head.ETag?.replace(/^"|"$/g, "") ?? null,
+          lastModified: head.LastModified ?? null,
+        };
+      } catch (error) {
+        if (isNotFoundError(error)) return null;
+        throw error;
+      }
+    },
+
+    async listObjects(prefix) {
+      const objects: StorageObjectInfo[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          })
+        );
+        for (const item of page.Contents ?? []) {
+          if (!item.Key) continue;
+          objects.push({
+            key: item.Key,
+            sizeBytes: item.Size ?? 0,
+            contentType: null,
+            etag: item.ETag?.replace(/^"|"$/g, "") ?? null,
+            lastModified: item.LastModified ?? null,
+          });
+        }
+        continuationToken = page.IsTruncated
+          ? page.NextContinuationToken
+          : undefined;
+      } while (continuationToken);
+      return objects;
+    },
+  };
+}
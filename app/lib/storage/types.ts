@@ -0,0 +1,112 @@
+export type StorageDriverName = "r2" | "local";
+
+export type StoragePart = {
+  ETag: string;
+  PartNumber: number;
+  // Base64 SHA-256 of the part, for uploads started with checksums
+  ChecksumSHA256?: string;
+};
+
+export type StorageObjectInfo = {
+  key: string;
+  sizeBytes: number;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: Date | null;
+};
+
+// A multipart upload that was started but neither completed nor aborted
+export type StorageMultipartUpload = {
+  key: string;
+  uploadId: string;
+  initiatedAt: Date | null;
+};
+
+export type StorageObjectStream = {
+  body: ReadableStream<Uint8Array>;
+  contentType: string | null;
+  contentLength: number;
+  // Set when a byte range was requested, e.g. "bytes 0-1023/4096"
+  contentRange: string | null;
+};
+
+// The requested range has no bytes in the object; size is the object's length
+// for the 416's Content-Range, when the driver knows it
+export type StorageRangeNotSatisfiable = {
+  rangeNotSatisfiable: true;
+  size: number | null;
+};
+
+export type SignedPartUploadResult = {
+  statusCode: number;
+  etag: string;
+  body: string;
+};
+
+export type SignedDownloadOptions = {
+  expiresIn?: number; // seconds
+  // When set the response is served as an attachment with this filename
+  downloadFilename?: string;
+};
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  putObject(
+    key: string,
+    body: Buffer | Uint8Array,
+    options?: { contentType?: string }
+  ): Promise<void>;
+
+  // With `checksums`, every part has to come with its SHA-256, which storage
+  // checks against the bytes it receives
+  createMultipartUpload(
+    key: string,
+    options?: { contentType?: string; checksums?: boolean }
+  ): Promise<{ uploadId: string }>;
+
+  getUploadPartUrls(
+    key: string,
+    uploadId: string,
+    partCount: number,
+    options?: { expiresIn?: number }
+  ): Promise<string[]>;
+
+  // Uploads a part to a URL previously returned by getUploadPartUrls.
+  // Used by the upload proxy so browsers never talk to the backend directly.
+  uploadSignedPart(
+    url: string,
+    body: Buffer,
+    options: { contentType: string; timeoutMs: number; checksumSha256?: string }
+  ): Promise<SignedPartUploadResult>;
+
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: StoragePart[]
+  ): Promise<{ location?: string }>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  listMultipartUploads(prefix: string): Promise<StorageMultipartUpload[]>;
+
+  // Parts stored so far, in order; null once the upload is completed or
+  // aborted
+  listParts(key: string, uploadId: string): Promise<StoragePart[] | null>;
+
+  getSignedDownloadUrl(
+    key: string,
+    options?: SignedDownloadOptions
+  ): Promise<string>;
+
+  getObjectStream(
+    key: string,
+    options?: { range?: string | null }
+  ): Promise<StorageObjectStream | StorageRangeNotSatisfiable | null>;
+
+  deleteObject(key: string): Promise<void>;
+
+  headObject(key: string): Promise<StorageObjectInfo | null>;
+
+  listObjects(prefix: string): Promise<StorageObjectInfo[]>;
+}
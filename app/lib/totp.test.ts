@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  currentTotpStep,
+  totpAuthUrl,
+  totpCode,
+  verifyTotp,
+} from "./totp";
+
+// RFC 6238 appendix B: the SHA-1 seed is the ASCII "12345678901234567890".
+// The RFC lists 8-digit codes; a 6-digit code is their last six digits.
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("base32", () => {
+  it("encodes the RFC seed as authenticator apps expect", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("round-trips bytes and tolerates spacing and lower case", () => {
+    const bytes = Buffer.from([0, 1, 127, 128, 255, 42, 7]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode("gezd gnbv-gy3t")).toEqual(
+      base32Decode("GEZDGNBVGY3T")
+    );
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("GEZD1")).toThrow("Invalid base32 secret");
+  });
+});
+
+describe("totpCode", () => {
+  it.each(RFC_VECTORS)("matches RFC 6238 at T=%i", (seconds, code) => {
+    const step = currentTotpStep(seconds * 1000);
+    expect(totpCode(RFC_SECRET, step)).toBe(code.slice(-6));
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111111 * 1000;
+  const step = currentTotpStep(now);
+
+  it("accepts the current code and returns its step", () => {
+    expect(verifyTotp(RFC_SECRET, "050471", 1, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "050 471", 1, now)).toBe(step);
+  });
+
+  it("accepts codes within the drift window", () => {
+    for (const offset of [-1, 1]) {
+      const code = totpCode(RFC_SECRET, step + offset);
+      expect(verifyTotp(RFC_SECRET, code, 1, now)).toBe(step + offset);
+    }
+  });
+
+  it("rejects codes outside the drift window", () => {
+    for (const offset of [-2, 2]) {
+      const code = totpCode(RFC_SECRET, step + offset);
+      expect(verifyTotp(RFC_SECRET, code, 1, now)).toBeNull();
+    }
+    const late = totpCode(RFC_SECRET, step + 1);
+    expect(verifyTotp(RFC_SECRET, late, 0, now)).toBeNull();
+  });
+
+  it("rejects malformed codes", () => {
+    for (const code of ["", "05047", "0504711", "05047a"]) {
+      expect(verifyTotp(RFC_SECRET, code, 1, now)).toBeNull();
+    }
+  });
+});
+
+describe("totpAuthUrl", () => {
+  it("describes the secret for authenticator apps", () => {
+    const url = new URL(
+      totpAuthUrl({
+        secret: RFC_SECRET,
+        accountName: "client@example.com",
+        issuer: "Alfatonics",
+      })
+    );
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe(
+      "/Alfatonics:client@example.com"
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: "Alfatonics",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
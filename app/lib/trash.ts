@@ -0,0 +1,393 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import type { ProjectContentScope } from "@/app/lib/policy";
+import { enqueueJob } from "@/app/lib/jobs";
+import { syncProjectReviewStatus } from "@/app/lib/delivery-review";
+
+// How long deleted items stay restorable before their files are removed
+export const TRASH_RETENTION_DAYS =
+  Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// Scheduled purges work through at most this many files per run
+const PURGE_BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Folder `_count` that leaves out files in the Trash */
+export const liveFolderCounts = {
+  assets: { where: { deletedAt: null } },
+  deliveries: { where: { deletedAt: null } },
+} satisfies Prisma.FolderCountOutputTypeSelect;
+
+export const trashPurgeDate = (deletedAt: Date) =>
+  new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+type FolderLink = { id: string; parentId: string | null };
+
+/** The folder plus every folder nested beneath it */
+function subtreeFolderIds(folders: FolderLink[], rootId: string) {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return [...ids];
+}
+
+async function projectSubtree(projectId: string, folderId: string) {
+  const folders = await prisma.folder.findMany({
+    where: { projectId },
+    select: { id: true, parentId: true },
+  });
+  return subtreeFolderIds(folders, folderId);
+}
+
+/**
+ * Moves a folder and everything still live inside it to the Trash. All rows
+ * share one deletedAt so restoring the folder brings back exactly this batch,
+ * not files that were deleted on their own earlier.
+ */
+export async function trashFolder(
+  folder: { id: string; projectId: string },
+  userId: string
+) {
+  const folderIds = await projectSubtree(folder.projectId, folder.id);
+  const data = { deletedAt: new Date(), deletedById: userId };
+
+  await prisma.$transaction([
+    prisma.folder.updateMany({
+      where: { id: { in: folderIds }, deletedAt: null },
+      data,
+    }),
+    prisma.asset.updateMany({
+      where: { folderId: { in: folderIds }, deletedAt: null },
+      data,
+    }),
+    prisma.delivery.updateMany({
+      where: { folderId: { in: folderIds }, deletedAt: null },
+      data,
+    }),
+  ]);
+  await syncProjectReviewStatus(folder.projectId);
+}
+
+/**
+ * Brings back any trashed folders above `folderId` so a restored item lands
+ * in its original place. Only the folders themselves return; their other
+ * contents stay in the Trash.
+ */
+async function restoreParentFolders(folderId: string | null) {
+  let currentId = folderId;
+  while (currentId) {
+    const folder: (FolderLink & { deletedAt: Date | null }) | null =
+      await prisma.folder.findUnique({
+        where: { id: currentId },
+        select: { id: true, parentId: true, deletedAt: true },
+      });
+    if (!folder) return;
+    if (folder.deletedAt) {
+      await prisma.folder.update({
+        where: { id: folder.id },
+        data: { deletedAt: null, deletedById: null },
+      });
+    }
+    currentId = folder.parentId;
+  }
+}
+
+const restoredData = { deletedAt: null, deletedById: null };
+
+/** Restores a trashed folder together with everything deleted along with it */
+export async function restoreFolder(folder: {
+  id: string;
+  projectId: string;
+  parentId: string | null;
+  deletedAt: Date;
+}) {
+  await restoreParentFolders(folder.parentId);
+  const folderIds = await projectSubtree(folder.projectId, folder.id);
+
+  await prisma.$transaction([
+    prisma.folder.updateMany({
+      where: { id: { in: folderIds }, deletedAt: folder.deletedAt },
+      data: restoredData,
+    }),
+    prisma.asset.updateMany({
+      where: { folderId: { in: folderIds }, deletedAt: folder.deletedAt },
+      data: restoredData,
+    }),
+    prisma.delivery.updateMany({
+      where: { folderId: { in: folderIds }, deletedAt: folder.deletedAt },
+      data: restoredData,
+    }),
+  ]);
+  await syncProjectReviewStatus(folder.projectId);
+}
+
+export async function restoreAsset(asset: {
+  id: string;
+  folderId: string | null;
+}) {
+  await restoreParentFolders(asset.folderId);
+  return prisma.asset.update({ where: { id: asset.id }, data: restoredData });
+}
+
+export async function restoreDelivery(delivery: {
+  id: string;
+  projectId: string;
+  folderId: string | null;
+}) {
+  await restoreParentFolders(delivery.folderId);
+  const restored = await prisma.delivery.update({
+    where: { id: delivery.id },
+    data: restoredData,
+  });
+  await syncProjectReviewStatus(delivery.projectId);
+  return restored;
+}
+
+/**
+ * Removes assets for good. Their stored files are deleted by the job worker,
+ * which keeps retrying if the bucket is unreachable.
+ */
+export async function deleteAssetsPermanently(assetIds: string[]) {
+  const assets = await prisma.asset.findMany({
+    where: { id: { in: assetIds } },
+    select: { id: true, key: true },
+  });
+  for (const asset of assets) {
+    await enqueueJob("storage.delete", { key: asset.key });
+    await prisma.asset.delete({ where: { id: asset.id } });
+  }
+}
+
+/** Removes deliveries and every stored version for good */
+export async function deleteDeliveriesPermanently(deliveryIds: string[]) {
+  const deliveries = await prisma.delivery.findMany({
+    where: { id: { in: deliveryIds } },
+    select: { id: true, key: true, versions: { select: { key: true } } },
+  });
+  for (const delivery of deliveries) {
+    const keys = new Set([
+      delivery.key,
+      ...delivery.versions.map((v) => v.key),
+    ]);
+    for (const key of keys) {
+      await enqueueJob("storage.delete", { key });
+    }
+    await prisma.delivery.delete({ where: { id: delivery.id } });
+  }
+}
+
+/** Removes a folder, its subfolders and all of their files for good */
+export async function deleteFolderPermanently(folder: {
+  id: string;
+  projectId: string;
+}) {
+  const folderIds = await projectSubtree(folder.projectId, folder.id);
+  const [assets, deliveries] = await Promise.all([
+    prisma.asset.findMany({
+      where: { folderId: { in: folderIds } },
+      select: { id: true },
+    }),
+    prisma.delivery.findMany({
+      where: { folderId: { in: folderIds } },
+      select: { id: true },
+    }),
+  ]);
+
+  // Files first: the cascade would drop their rows without queueing the
+  // object deletes
+  await deleteAssetsPermanently(assets.map((asset) => asset.id));
+  await deleteDeliveriesPermanently(deliveries.map((delivery) => delivery.id));
+  await prisma.folder.delete({ where: { id: folder.id } });
+}
+
+type TrashedBy = { id: string; email: string; name: string | null } | null;
+
+export type TrashItem = {
+  kind: "FOLDER" | "ASSET" | "DELIVERY";
+  id: string;
+  name: string;
+  folderId: string | null;
+  sizeBytes: number | null;
+  uploadedById: string | null;
+  // Files deleted together with a folder
+  itemCount: number;
+  deletedAt: Date;
+  deletedBy: TrashedBy;
+  purgeAt: Date;
+};
+
+const deletedBySelect = {
+  deletedBy: { select: { id: true, email: true, name: true } },
+} as const;
+
+/**
+ * The project's Trash: each item deleted on its own, plus folders with the
+ * files that went with them. Rows deleted as part of a trashed folder are
+ * folded into that folder instead of being listed separately.
+ */
+export async function listProjectTrash(
+  projectId: string,
+  scope: ProjectContentScope
+) {
+  const [folders, assets, deliveries] = await Promise.all([
+    prisma.folder.findMany({
+      where: { projectId, ...scope.folders },
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        deletedAt: true,
+        ...deletedBySelect,
+      },
+    }),
+    prisma.asset.findMany({
+      where: { projectId, deletedAt: { not: null }, ...scope.assets },
+      select: {
+        id: true,
+        filename: true,
+        sizeBytes: true,
+        folderId: true,
+        deletedAt: true,
+        uploadedById: true,
+        ...deletedBySelect,
+      },
+    }),
+    prisma.delivery.findMany({
+      where: { projectId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        filename: true,
+        sizeBytes: true,
+        folderId: true,
+        deletedAt: true,
+        uploadedById: true,
+        ...deletedBySelect,
+      },
+    }),
+  ]);
+
+  const trashedFolderIds = new Set(
+    folders.filter((folder) => folder.deletedAt).map((folder) => folder.id)
+  );
+  const isTopLevel = (parentId: string | null) =>
+    !parentId || !trashedFolderIds.has(parentId);
+
+  const items: TrashItem[] = [];
+
+  for (const folder of folders) {
+    if (!folder.deletedAt || !isTopLevel(folder.parentId)) continue;
+    const subtree = new Set(subtreeFolderIds(folders, folder.id));
+    const sameBatch = (file: {
+      folderId: string | null;
+      deletedAt: Date | null;
+    }) =>
+      file.folderId !== null &&
+      subtree.has(file.folderId) &&
+      file.deletedAt?.getTime() === folder.deletedAt!.getTime();
+    items.push({
+      kind: "FOLDER",
+      id: folder.id,
+      name: folder.name,
+      folderId: folder.parentId,
+      sizeBytes: null,
+      uploadedById: null,
+      itemCount:
+        assets.filter(sameBatch).length + deliveries.filter(sameBatch).length,
+      deletedAt: folder.deletedAt,
+      deletedBy: folder.deletedBy,
+      purgeAt: trashPurgeDate(folder.deletedAt),
+    });
+  }
+
+  const fileItems = [
+    ...assets.map((file) => ({ kind: "ASSET" as const, file })),
+    ...deliveries.map((file) => ({ kind: "DELIVERY" as const, file })),
+  ];
+  for (const { kind, file } of fileItems) {
+    if (!file.deletedAt || !isTopLevel(file.folderId)) continue;
+    items.push({
+      kind,
+      id: file.id,
+      name: file.filename,
+      folderId: file.folderId,
+      sizeBytes: file.sizeBytes,
+      uploadedById: file.uploadedById,
+      itemCount: 0,
+      deletedAt: file.deletedAt,
+      deletedBy: file.deletedBy,
+      purgeAt: trashPurgeDate(file.deletedAt),
+    });
+  }
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+export type TrashPurgeResult = {
+  folders: { id: string; projectId: string; name: string }[];
+  assets: { id: string; projectId: string; filename: string }[];
+  deliveries: { id: string; projectId: string; filename: string }[];
+};
+
+/**
+ * Permanently deletes everything that has been in the Trash longer than the
+ * retention period. Storage objects are only ever removed here or by an
+ * explicit "Delete forever", never when an item is first deleted.
+ */
+export async function purgeExpiredTrash(
+  now = new Date()
+): Promise<TrashPurgeResult> {
+  const expired = {
+    lt: new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS),
+  };
+  const fileSelect = { id: true, projectId: true, filename: true } as const;
+
+  const [assets, deliveries] = await Promise.all([
+    prisma.asset.findMany({
+      where: { deletedAt: expired },
+      select: fileSelect,
+      orderBy: { deletedAt: "asc" },
+      take: PURGE_BATCH_SIZE,
+    }),
+    prisma.delivery.findMany({
+      where: { deletedAt: expired },
+      select: fileSelect,
+      orderBy: { deletedAt: "asc" },
+      take: PURGE_BATCH_SIZE,
+    }),
+  ]);
+
+  await deleteAssetsPermanently(assets.map((asset) => asset.id));
+  await deleteDeliveriesPermanently(deliveries.map((delivery) => delivery.id));
+
+  // Empty folders go innermost first; any that still hold files wait for
+  // the next run
+  const folders: TrashPurgeResult["folders"] = [];
+  while (folders.length < PURGE_BATCH_SIZE) {
+    const emptyFolders = await prisma.folder.findMany({
+      where: {
+        deletedAt: expired,
+        assets: { none: {} },
+        deliveries: { none: {} },
+        children: { none: {} },
+      },
+      select: { id: true, projectId: true, name: true },
+      take: PURGE_BATCH_SIZE - folders.length,
+    });
+    if (emptyFolders.length === 0) break;
+    await prisma.folder.deleteMany({
+      where: { id: { in: emptyFolders.map((folder) => folder.id) } },
+    });
+    folders.push(...emptyFolders);
+  }
+
+  return { folders, assets, deliveries };
+}
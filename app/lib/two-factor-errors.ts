@@ -0,0 +1,12 @@
+// Error codes thrown by the credentials provider. next-auth hands the message
+// back to signIn() as `error`, which tells the sign-in page what step to show.
+// Kept dependency-free so client components can import it.
+
+export const TWO_FACTOR_REQUIRED = "TWO_FACTOR_REQUIRED";
+export const TWO_FACTOR_INVALID = "TWO_FACTOR_INVALID";
+export const TWO_FACTOR_SETUP_REQUIRED = "TWO_FACTOR_SETUP_REQUIRED";
+
+export type TwoFactorErrorCode =
+  | typeof TWO_FACTOR_REQUIRED
+  | typeof TWO_FACTOR_INVALID
+  | typeof TWO_FACTOR_SETUP_REQUIRED;
@@ -0,0 +1,250 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import type { Role } from "@prisma/client";
+import QRCode from "qrcode";
+import { prisma } from "@/app/lib/prisma";
+import { generateTotpSecret, totpAuthUrl, verifyTotp } from "@/app/lib/totp";
+import {
+  TWO_FACTOR_INVALID,
+  TWO_FACTOR_REQUIRED,
+  TWO_FACTOR_SETUP_REQUIRED,
+  type TwoFactorErrorCode,
+} from "@/app/lib/two-factor-errors";
+
+// Roles that can enroll in (and be required to use) two-factor sign-in
+export const TWO_FACTOR_ROLES = ["ADMIN", "STAFF"] as const;
+export type TwoFactorRole = (typeof TWO_FACTOR_ROLES)[number];
+
+const ISSUER = "Alfatonics Client Delivery";
+const RECOVERY_CODE_COUNT = 10;
+
+export const supportsTwoFactor = (role: Role): role is TwoFactorRole =>
+  (TWO_FACTOR_ROLES as readonly Role[]).includes(role);
+
+// ---- Secret encryption (AES-256-GCM, "iv.tag.ciphertext" in base64url) ----
+
+function encryptionKey() {
+  const secret =
+    process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+    process.env.NEXTAUTH_SECRET ||
+    process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Two-factor encryption key is not configured. Set TWO_FACTOR_ENCRYPTION_KEY or NEXTAUTH_SECRET."
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+function encryptSecret(plain: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plain, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptSecret(stored: string) {
+  const [iv, tag, encrypted] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+// ---- Recovery codes ----
+
+const normalizeRecoveryCode = (code: string) =>
+  code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+/** Replaces the user's recovery codes and returns the new plain codes */
+export async function regenerateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+export const countRecoveryCodes = (userId: string) =>
+  prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+
+// ---- Role enforcement ----
+
+export async function getTwoFactorRequirements(): Promise<
+  Record<TwoFactorRole, boolean>
+> {
+  const policies = await prisma.roleSecurityPolicy.findMany({
+    where: { role: { in: [...TWO_FACTOR_ROLES] } },
+  });
+  return {
+    ADMIN: policies.some((p) => p.role === "ADMIN" && p.requireTwoFactor),
+    STAFF: policies.some((p) => p.role === "STAFF" && p.requireTwoFactor),
+  };
+}
+
+export async function isTwoFactorRequired(role: Role) {
+  if (!supportsTwoFactor(role)) return false;
+  const policy = await prisma.roleSecurityPolicy.findUnique({
+    where: { role },
+  });
+  return policy?.requireTwoFactor ?? false;
+}
+
+export async function setTwoFactorRequirement(
+  role: TwoFactorRole,
+  required: boolean
+) {
+  await prisma.roleSecurityPolicy.upsert({
+    where: { role },
+    create: { role, requireTwoFactor: required },
+    update: { requireTwoFactor: required },
+  });
+}
+
+// ---- Enrollment ----
+
+/**
+ * Starts enrollment: stores a pending secret (the active one, if any, keeps
+ * working until the new one is confirmed) and returns what the QR shows.
+ */
+export async function beginTwoFactorSetup(user: { id: string; email: string }) {
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorPendingSecret: encryptSecret(secret) },
+  });
+
+  const otpauthUrl = totpAuthUrl({
+    secret,
+    accountName: user.email,
+    issuer: ISSUER,
+  });
+  const qrDataUrl = await QRCode.toDataURL(otpauthUrl, {
+    margin: 1,
+    width: 220,
+  });
+
+  return { secret, otpauthUrl, qrDataUrl };
+}
+
+/**
+ * Confirms enrollment with a code from the pending secret. Returns fresh
+ * recovery codes, or null when the code does not match.
+ */
+export async function confirmTwoFactorSetup(userId: string, code: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorPendingSecret: true },
+  });
+  if (!user?.twoFactorPendingSecret) return null;
+
+  const secret = decryptSecret(user.twoFactorPendingSecret);
+  if (verifyTotp(secret, code) === null) return null;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorEnabledAt: new Date(),
+      // The confirming code may still be used once to finish signing in
+      twoFactorLastStep: null,
+    },
+  });
+
+  return regenerateRecoveryCodes(userId);
+}
+
+/** Turns two-factor off and discards the secret and recovery codes */
+export async function disableTwoFactor(userId: string) {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+// ---- Verification ----
+
+/**
+ * Verifies a TOTP or recovery code for an enrolled user. TOTP steps and
+ * recovery codes are claimed with conditional updates so neither can be
+ * replayed, even by concurrent requests.
+ */
+export async function verifySecondFactor(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret || !code.trim()) return false;
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step !== null) {
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return claimed.count === 1;
+  }
+
+  const claimed = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return claimed.count > 0;
+}
+
+/**
+ * Second step of the credentials sign-in, run after the password matched.
+ * Returns null when sign-in may proceed, otherwise the error code for the
+ * sign-in page.
+ */
+export async function checkSignInSecondFactor(
+  user: {
+    id: string;
+    role: Role;
+    twoFactorSecret: string | null;
+    twoFactorEnabledAt: Date | null;
+  },
+  code: string | undefined
+): Promise<TwoFactorErrorCode | null> {
+  if (!user.twoFactorEnabledAt) {
+    return (await isTwoFactorRequired(user.role))
+      ? TWO_FACTOR_SETUP_REQUIRED
+      : null;
+  }
+  if (!code) return TWO_FACTOR_REQUIRED;
+  return (await verifySecondFactor(user, code)) ? null : TWO_FACTOR_INVALID;
+}
@@ -0,0 +1,376 @@
+import { sha256File } from "@/app/lib/file-hash";
+import type { Translator } from "@/app/lib/i18n";
+
+// Browser side of multipart uploads, driven by the upload manager in
+// app/components/uploads. Parts go through /api/r2/upload-part so the
+// browser never talks to storage directly.
+
+export type UploadPart = {
+  ETag: string;
+  PartNumber: number;
+  // Base64 SHA-256 of the part, for uploads started with checksums
+  ChecksumSHA256?: string;
+};
+
+export type UploadTarget = {
+  // Route that starts the upload, e.g. /api/projects/<id>/assets
+  startUrl: string;
+  // Sent with both the start and the complete request: folderId and
+  // deliveryId for project files, ownerId for legacy videos
+  fields?: Record<string, string | null | undefined>;
+};
+
+type StartedUpload = {
+  uploadId: string;
+  key: string;
+  partSize: number;
+  presignedPartUrls: string[];
+  completeUrl: string;
+  startedAt: number;
+  // Each part is sent with its SHA-256 for the proxy and storage to check
+  checksums: boolean;
+  // The server recorded it, so starting again picks it up where it was
+  resumable: boolean;
+};
+
+/**
+ * Where an upload got to. The caller keeps it between runs of uploadFile,
+ * so a paused upload carries on with the parts it still needs.
+ */
+export type UploadState = {
+  started: StartedUpload | null;
+  parts: Map<number, UploadPart>;
+  // Computed on the first run; null when the file cannot be fingerprinted
+  fingerprint?: string | null;
+  // Hex SHA-256 of the whole file, once the worker has finished it
+  sha256?: string;
+};
+
+export const createUploadState = (): UploadState => ({
+  started: null,
+  parts: new Map(),
+});
+
+// Parts in flight at once for each file
+export const DEFAULT_PART_CONCURRENCY =
+  Number(process.env.NEXT_PUBLIC_UPLOAD_CONCURRENCY) || 3;
+
+// A failed part is tried this many times in all, waiting 1s, 2s, 4s between
+const PART_ATTEMPTS = 4;
+const RETRY_BASE_MS = 1000;
+
+// Part URLs are presigned for an hour; an upload paused for longer than
+// this needs new ones before it carries on
+const PRESIGNED_URL_TTL_MS = 50 * 60 * 1000;
+
+// Read from each end of a file for its fingerprint
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+// Web Crypto only exists on secure origins (HTTPS and localhost)
+const hasWebCrypto = () =>
+  typeof crypto !== "undefined" && Boolean(crypto.subtle);
+
+/** Base64 SHA-256 of one part, as S3 checksums are written */
+async function partChecksum(part: Blob) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await part.arrayBuffer()
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * Recognises a file again after a reload without reading all of it:
+ * SHA-256 over its name, size, modification time and first and last
+ * megabyte. Null where Web Crypto is missing (plain-HTTP origins), which
+ * makes the upload non-resumable.
+ */
+export async function fingerprintFile(file: File): Promise<string | null> {
+  if (!hasWebCrypto()) return null;
+  const sample = new Blob([
+    `${file.name}\n${file.size}\n${file.lastModified}\n`,
+    file.slice(0, FINGERPRINT_SAMPLE_BYTES),
+    file.slice(Math.max(0, file.size - FINGERPRINT_SAMPLE_BYTES)),
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await sample.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+async function startUpload(
+  file: File,
+  target: UploadTarget,
+  state: UploadState,
+  t: Translator,
+  signal?: AbortSignal
+) {
+  const initRes = await fetch(target.startUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...target.fields,
+      filename: file.name,
+      contentType: file.type || "application/octet-stream",
+      sizeBytes: file.size,
+      fingerprint: state.fingerprint ?? undefined,
+      checksums: hasWebCrypto() || undefined,
+    }),
+    signal,
+  });
+
+  if (!initRes.ok) {
+    const errorData = await initRes
+      .json()
+      .catch(() => ({ error: t("upload.initError") }));
+    throw new Error(
+      errorData.error ||
+        t("upload.initFailedFor", { name: file.name, status: initRes.status })
+    );
+  }
+
+  const init = await initRes.json();
+  const { uploadId, key, partSize, presignedPartUrls, completeUrl } = init;
+
+  if (!Array.isArray(presignedPartUrls) || presignedPartUrls.length === 0) {
+    throw new Error(t("upload.invalidResponse", { name: file.name }));
+  }
+
+  state.started = {
+    uploadId,
+    key,
+    partSize,
+    presignedPartUrls,
+    completeUrl,
+    startedAt: Date.now(),
+    checksums: init.checksums === true,
+    resumable: Boolean(init.sessionId),
+  };
+  // A resumed upload lists the parts storage already has
+  state.parts = new Map(
+    ((init.completedParts ?? []) as UploadPart[]).map((part) => [
+      part.PartNumber,
+      part,
+    ])
+  );
+  return state.started;
+}
+
+async function sendPart(
+  file: File,
+  started: StartedUpload,
+  partNumber: number,
+  t: Translator,
+  signal?: AbortSignal
+): Promise<UploadPart> {
+  const start = (partNumber - 1) * started.partSize;
+  const body = file.slice(start, Math.min(start + started.partSize, file.size));
+  const checksum = started.checksums ? await partChecksum(body) : undefined;
+  const res = await fetch(
+    `/api/r2/upload-part?url=${encodeURIComponent(
+      started.presignedPartUrls[partNumber - 1]
+    )}`,
+    {
+      method: "PUT",
+      body,
+      headers: {
+        "Content-Type": file.type || "application/octet-stream",
+        ...(checksum ? { "x-amz-checksum-sha256": checksum } : {}),
+      },
+      signal,
+    }
+  );
+
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(
+      t("upload.partFailedFor", {
+        part: partNumber,
+        name: file.name,
+        message: errorData.error || res.statusText,
+      })
+    );
+  }
+
+  const data = await res.json();
+  if (!data.etag) {
+    throw new Error(t("upload.noEtag", { part: partNumber, name: file.name }));
+  }
+  return {
+    ETag: data.etag as string,
+    PartNumber: partNumber,
+    ...(checksum ? { ChecksumSHA256: checksum } : {}),
+  };
+}
+
+/**
+ * Uploads one file. Starts a multipart upload (for project files, the
+ * server picks up the caller's unfinished one of the same file), sends the
+ * parts `state` does not have yet `concurrency` at a time, retrying each
+ * with backoff, and completes it with the file's SHA-256, hashed in a
+ * worker meanwhile. Aborting `signal` stops it with `state` left ready for
+ * the next run. `onProgress` gets the bytes stored so far.
+ */
+export async function uploadFile(
+  file: File,
+  target: UploadTarget,
+  options: {
+    t: Translator;
+    state?: UploadState;
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: (uploadedBytes: number) => void;
+  }
+) {
+  const { t, signal, onProgress } = options;
+  const state = options.state ?? createUploadState();
+
+  if (state.fingerprint === undefined) {
+    state.fingerprint = await fingerprintFile(file);
+  }
+  if (
+    state.started &&
+    Date.now() - state.started.startedAt > PRESIGNED_URL_TTL_MS
+  ) {
+    // Starting again picks up a resumable upload with fresh URLs. Any other
+    // one cannot be found again, so it is dropped and sent from scratch.
+    if (state.started.resumable) {
+      state.started = null;
+    } else {
+      await abortUpload(state).catch(() => undefined);
+    }
+  }
+  const started =
+    state.started ?? (await startUpload(file, target, state, t, signal));
+
+  // Runs beside the part uploads; a file that cannot be hashed is still
+  // uploaded, just without a recorded checksum
+  const hashing: Promise<string | null> =
+    state.sha256 !== undefined
+      ? Promise.resolve(state.sha256)
+      : sha256File(file, signal).then(
+          (sha256) => {
+            if (sha256) state.sha256 = sha256;
+            return sha256;
+          },
+          (error) => {
+            if (!signal?.aborted) console.error("Hashing failed:", error);
+            return null;
+          }
+        );
+
+  const totalParts = started.presignedPartUrls.length;
+  const partBytes = (partNumber: number) =>
+    Math.min(started.partSize, file.size - (partNumber - 1) * started.partSize);
+  const reportProgress = () =>
+    onProgress?.(
+      Array.from(state.parts.keys()).reduce(
+        (total, partNumber) => total + partBytes(partNumber),
+        0
+      )
+    );
+  reportProgress();
+
+  const pending: number[] = [];
+  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+    if (!state.parts.has(partNumber)) pending.push(partNumber);
+  }
+
+  // Each worker takes the next missing part until none are left or one
+  // part has failed for good
+  let failure: unknown = null;
+  const worker = async () => {
+    while (pending.length > 0 && failure === null && !signal?.aborted) {
+      const partNumber = pending.shift()!;
+      try {
+        for (let attempt = 1; ; attempt++) {
+          try {
+            state.parts.set(
+              partNumber,
+              await sendPart(file, started, partNumber, t, signal)
+            );
+            break;
+          } catch (error) {
+            if (signal?.aborted || attempt >= PART_ATTEMPTS) throw error;
+            await wait(RETRY_BASE_MS * 2 ** (attempt - 1), signal);
+          }
+        }
+        reportProgress();
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from(
+      {
+        length: Math.min(
+          options.concurrency ?? DEFAULT_PART_CONCURRENCY,
+          pending.length
+        ),
+      },
+      worker
+    )
+  );
+  signal?.throwIfAborted();
+  if (failure !== null) throw failure;
+  const sha256 = await hashing;
+  signal?.throwIfAborted();
+
+  const completeRes = await fetch(started.completeUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...target.fields,
+      key: started.key,
+      uploadId: started.uploadId,
+      parts: Array.from(state.parts.values()),
+      filename: file.name,
+      contentType: file.type || "application/octet-stream",
+      sizeBytes: file.size,
+      sha256: sha256 ?? undefined,
+    }),
+    signal,
+  });
+
+  if (!completeRes.ok) {
+    const errorData = await completeRes.json().catch(() => ({}));
+    throw new Error(
+      errorData.error ||
+        t("upload.completeFailedFor", {
+          name: file.name,
+          status: completeRes.status,
+        })
+    );
+  }
+}
+
+/** Gives up on a started upload so storage drops the parts sent so far */
+export async function abortUpload(state: UploadState) {
+  if (!state.started) return;
+  const { key, uploadId } = state.started;
+  state.started = null;
+  state.parts.clear();
+  await fetch("/api/r2/multipart/abort", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ key, uploadId }),
+  });
+}
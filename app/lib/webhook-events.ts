@@ -0,0 +1,15 @@
+// Events an admin can subscribe a webhook endpoint to. Kept free of server
+// imports so client components can use it too.
+
+export const WEBHOOK_EVENTS = [
+  "project.created",
+  "project.status_changed",
+  "delivery.created",
+  "asset.created",
+  "project.notified",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the "send test event" button, to that endpoint only
+export const WEBHOOK_TEST_EVENT = "webhook.test";
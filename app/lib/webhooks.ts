@@ -0,0 +1,303 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import {
+  WebhookDeliveryStatus,
+  type Job,
+  type Prisma,
+  type ProjectStatus,
+  type Role,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/app/lib/prisma";
+import { enqueueJob } from "@/app/lib/jobs";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEvent,
+} from "@/app/lib/webhook-events";
+
+type WebhookProject = { id: string; title: string | null };
+
+/** What each event carries under `data` in the payload */
+export type WebhookEventData = {
+  "project.created": {
+    project: WebhookProject & { status: ProjectStatus; clientId: string };
+  };
+  "project.status_changed": {
+    project: WebhookProject;
+    status: ProjectStatus;
+    previousStatus: ProjectStatus;
+  };
+  "delivery.created": {
+    project: WebhookProject;
+    delivery: {
+      id: string;
+      filename: string;
+      version: number;
+      contentType: string;
+      sizeBytes: number;
+    };
+  };
+  "asset.created": {
+    project: WebhookProject;
+    asset: {
+      id: string;
+      filename: string;
+      type: string;
+      contentType: string;
+      sizeBytes: number;
+    };
+  };
+  "project.notified": {
+    project: WebhookProject;
+    audience: "client" | "staff";
+    recipients: string[];
+  };
+};
+
+export type WebhookActor = {
+  id: string;
+  email?: string | null;
+  role?: Role;
+} | null;
+
+// A run of 8 attempts spans about an hour with the job queue's backoff
+const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_LENGTH = 2000;
+
+// Endpoint settings an admin can edit. Messages are catalogue keys,
+// translated with localizeIssues().
+export const webhookEndpointSchema = z.object({
+  url: z
+    .url({ protocol: /^https?$/, message: "webhooks.validation.url" })
+    .max(2000),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "webhooks.validation.events"),
+  active: z.boolean().optional(),
+  // Leave out to have one generated
+  secret: z.string().min(16, "webhooks.validation.secret").max(200).optional(),
+});
+
+export const generateWebhookSecret = () =>
+  `whsec_${randomBytes(24).toString("base64url")}`;
+
+/**
+ * The signature receivers check: HMAC-SHA256 of `<timestamp>.<body>` with
+ * the endpoint's secret, hex encoded. Including the timestamp lets them
+ * reject old requests that are replayed.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+) => createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Round-tripped through JSON so it is exactly what receivers will parse
+function buildPayload(
+  event: string,
+  data: Record<string, unknown>,
+  actor: WebhookActor
+): Prisma.InputJsonObject {
+  return JSON.parse(
+    JSON.stringify({
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      actor: actor
+        ? { id: actor.id, email: actor.email ?? null, role: actor.role ?? null }
+        : null,
+      data,
+    })
+  );
+}
+
+/**
+ * Queues the event for every active endpoint subscribed to it. Like the
+ * audit log, a failure is logged rather than thrown so the action that
+ * caused the event still succeeds.
+ */
+export async function dispatchWebhookEvent<E extends WebhookEvent>(
+  event: E,
+  data: WebhookEventData[E],
+  actor: WebhookActor = null
+) {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { active: true, events: { has: event } },
+      select: { id: true },
+    });
+    if (endpoints.length === 0) return;
+
+    // One event id for every endpoint, so receivers can tell copies apart
+    // from separate events
+    const payload = buildPayload(event, data, actor);
+    for (const endpoint of endpoints) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: { endpointId: endpoint.id, event, payload },
+      });
+      await enqueueJob(
+        "webhook.deliver",
+        { deliveryId: delivery.id },
+        { maxAttempts: WEBHOOK_MAX_ATTEMPTS }
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error);
+  }
+}
+
+type AttemptResult = {
+  ok: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+};
+
+async function postWebhook(
+  endpoint: Pick<WebhookEndpoint, "url" | "secret">,
+  delivery: Pick<WebhookDelivery, "id" | "event" | "payload">
+): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  try {
+    const res = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "client-delivery-webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    const text = await res.text().catch(() => "");
+    return {
+      ok: res.ok,
+      responseStatus: res.status,
+      responseBody: text.slice(0, MAX_RESPONSE_LENGTH) || null,
+      error: res.ok ? null : `HTTP ${res.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+const recordAttempt = (
+  deliveryId: string,
+  result: AttemptResult,
+  status: WebhookDeliveryStatus
+) =>
+  prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      attempts: { increment: 1 },
+      responseStatus: result.responseStatus,
+      responseBody: result.responseBody,
+      error: result.error,
+      durationMs: result.durationMs,
+      deliveredAt: result.ok ? new Date() : undefined,
+    },
+  });
+
+/**
+ * Posts a queued delivery to its endpoint and records the response. Only
+ * the job worker calls this; a thrown error makes the job retry, and the
+ * delivery is marked FAILED once the job has no attempts left.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  job: Pick<Job, "attempts" | "maxAttempts">
+) {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+  if (!delivery) return;
+
+  // Turned off after the event was queued: give up without retrying
+  if (!delivery.endpoint.active) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: WebhookDeliveryStatus.FAILED,
+        error: "The endpoint was disabled",
+      },
+    });
+    return;
+  }
+
+  const result = await postWebhook(delivery.endpoint, delivery);
+  const status = result.ok
+    ? WebhookDeliveryStatus.SUCCEEDED
+    : job.attempts >= job.maxAttempts
+      ? WebhookDeliveryStatus.FAILED
+      : WebhookDeliveryStatus.RETRYING;
+  await recordAttempt(delivery.id, result, status);
+  if (!result.ok) throw new Error(result.error ?? "Webhook delivery failed");
+}
+
+/**
+ * Sends a test event to one endpoint straight away, bypassing the queue so
+ * the admin sees the response at once. Test events are not retried.
+ */
+export async function sendTestWebhook(
+  endpoint: Pick<WebhookEndpoint, "id" | "url" | "secret">,
+  actor: WebhookActor
+) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId: endpoint.id,
+      event: WEBHOOK_TEST_EVENT,
+      payload: buildPayload(
+        WEBHOOK_TEST_EVENT,
+        { message: "Test event from the client delivery portal" },
+        actor
+      ),
+    },
+  });
+  const result = await postWebhook(endpoint, delivery);
+  return recordAttempt(
+    delivery.id,
+    result,
+    result.ok ? WebhookDeliveryStatus.SUCCEEDED : WebhookDeliveryStatus.FAILED
+  );
+}
+
+/** Endpoint fields safe to show; the secret is only returned when set */
+export const webhookEndpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.WebhookEndpointSelect;
+
+/** The project fields every event carries */
+export const webhookProject = (project: {
+  id: string;
+  title: string | null;
+}): WebhookProject => ({ id: project.id, title: project.title });
@@ -0,0 +1,137 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+  createZipStream,
+  sanitizeZipSegment,
+  type ZipEntry,
+} from "./zip-stream";
+
+const encoder = new TextEncoder();
+
+/** A file entry whose body arrives in the given chunks */
+const fileEntry = (
+  path: string,
+  chunks: string[],
+  extra: Partial<ZipEntry> = {}
+): ZipEntry => ({
+  path,
+  size: chunks.join("").length,
+  modifiedAt: new Date(2024, 4, 17, 13, 45, 30),
+  open: async () =>
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+  ...extra,
+});
+
+const zipBytes = async (entries: ZipEntry[]) =>
+  new Uint8Array(await new Response(createZipStream(entries)).arrayBuffer());
+
+// JSZip reads the central directory and checks every CRC-32
+const readZip = async (entries: ZipEntry[]) =>
+  JSZip.loadAsync(await zipBytes(entries), { checkCRC32: true });
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+describe("createZipStream", () => {
+  it("round-trips files and directories through a reader", async () => {
+    const zip = await readZip([
+      { path: "Deliverables/" },
+      fileEntry("Deliverables/cut.txt", ["first ", "second ", "third"]),
+      fileEntry("Ripoti – ü.txt", ["héllo"]),
+      fileEntry("empty.txt", []),
+    ]);
+
+    expect(Object.keys(zip.files)).toEqual([
+      "Deliverables/",
+      "Deliverables/cut.txt",
+      "Ripoti – ü.txt",
+      "empty.txt",
+    ]);
+    expect(zip.files["Deliverables/"].dir).toBe(true);
+    expect(await zip.file("Deliverables/cut.txt")!.async("string")).toBe(
+      "first second third"
+    );
+    expect(await zip.file("Ripoti – ü.txt")!.async("string")).toBe("héllo");
+    expect(await zip.file("empty.txt")!.async("string")).toBe("");
+    // DOS times keep two-second precision
+    expect(zip.file("empty.txt")!.date.getUTCSeconds() % 2).toBe(0);
+  });
+
+  it("skips entries whose file is missing", async () => {
+    const zip = await readZip([
+      fileEntry("kept.txt", ["kept"]),
+      { path: "gone.txt", size: 4, open: async () => null },
+    ]);
+    expect(Object.keys(zip.files)).toEqual(["kept.txt"]);
+  });
+
+  it("writes data descriptors after each file body", async () => {
+    const bytes = await zipBytes([fileEntry("a.txt", ["abc"])]);
+    const header = view(bytes);
+    expect(header.getUint32(0, true)).toBe(0x04034b50);
+    // Bit 3: CRC and sizes follow the data; bit 11: UTF-8 names
+    expect(header.getUint16(6, true)).toBe(0x0808);
+    expect(header.getUint32(14, true)).toBe(0);
+
+    const descriptorAt = 30 + "a.txt".length + 3;
+    expect(header.getUint32(descriptorAt, true)).toBe(0x08074b50);
+    expect(header.getUint32(descriptorAt + 8, true)).toBe(3);
+    expect(header.getUint32(descriptorAt + 12, true)).toBe(3);
+  });
+
+  it("uses ZIP64 descriptors when the size is not known up front", async () => {
+    const entry = fileEntry("stream.bin", ["0123456789"], {
+      size: undefined,
+    });
+    const bytes = await zipBytes([entry]);
+    const header = view(bytes);
+    // Version 4.5, sizes deferred to the ZIP64 extra field and descriptor
+    expect(header.getUint16(4, true)).toBe(45);
+    expect(header.getUint32(18, true)).toBe(0xffffffff);
+    expect(header.getUint16(30 + "stream.bin".length, true)).toBe(0x0001);
+
+    const descriptorAt = 30 + "stream.bin".length + 20 + 10;
+    expect(header.getUint32(descriptorAt, true)).toBe(0x08074b50);
+    expect(header.getBigUint64(descriptorAt + 8, true)).toBe(BigInt(10));
+    expect(header.getBigUint64(descriptorAt + 16, true)).toBe(BigInt(10));
+
+    const zip = await readZip([entry]);
+    expect(await zip.file("stream.bin")!.async("string")).toBe("0123456789");
+  });
+
+  it("adds the ZIP64 end records past 65534 entries", async () => {
+    const count = 0xffff;
+    const entries = Array.from({ length: count }, (_, i) => ({
+      path: `d${i}/`,
+    }));
+    const bytes = await zipBytes(entries);
+    const tail = view(bytes.subarray(bytes.length - 98));
+
+    // ZIP64 end record, its locator, then the classic record saturated
+    expect(tail.getUint32(0, true)).toBe(0x06064b50);
+    expect(tail.getBigUint64(32, true)).toBe(BigInt(count));
+    expect(tail.getUint32(56, true)).toBe(0x07064b50);
+    expect(tail.getUint32(76, true)).toBe(0x06054b50);
+    expect(tail.getUint16(84, true)).toBe(0xffff);
+
+    const zip = await JSZip.loadAsync(bytes);
+    expect(Object.keys(zip.files)).toHaveLength(count);
+  });
+});
+
+describe("sanitizeZipSegment", () => {
+  it("replaces path separators and reserved characters", () => {
+    expect(sanitizeZipSegment('a/b\\c:d*e?"f<g>h|')).toBe("a_b_c_d_e__f_g_h_");
+  });
+
+  it("never produces an empty or relative segment", () => {
+    expect(sanitizeZipSegment("  ")).toBe("untitled");
+    expect(sanitizeZipSegment("..")).toBe("untitled");
+    expect(sanitizeZipSegment(".")).toBe("untitled");
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Minimal streaming ZIP writer. Entries are stored (no compression — the
+ * files we ship are already-compressed video and images) and written one
+ * chunk at a time with data descriptors, so nothing is buffered beyond the
+ * chunk currently passing through. ZIP64 records are added only when a size
+ * or offset no longer fits in 32 bits.
+ */
+
+export type ZipEntry = {
+  // Forward-slash separated path; directories end with "/"
+  path: string;
+  // Expected size in bytes, used to decide whether the entry needs ZIP64
+  size?: number;
+  modifiedAt?: Date;
+  // Opens the file contents; omitted for directories. Returning null skips
+  // the entry (e.g. the object is missing from storage).
+  open?: () => Promise<ReadableStream<Uint8Array> | null>;
+};
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc: number, chunk: Uint8Array) => {
+  let c = crc ^ MAX_UINT32;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_UINT32) >>> 0;
+};
+
+// Little-endian writer over a fixed-size buffer
+class ByteWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private pos = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.pos, value, true);
+    this.pos += 2;
+    return this;
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.pos, value >>> 0, true);
+    this.pos += 4;
+    return this;
+  }
+
+  u64(value: number) {
+    this.u32(value % 2 ** 32);
+    this.u32(Math.floor(value / 2 ** 32));
+    return this;
+  }
+
+  raw(data: Uint8Array) {
+    this.bytes.set(data, this.pos);
+    this.pos += data.length;
+    return this;
+  }
+}
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+type CentralRecord = {
+  name: Uint8Array;
+  flags: number;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+  isDirectory: boolean;
+};
+
+const localHeader = (
+  name: Uint8Array,
+  flags: number,
+  time: number,
+  date: number,
+  zip64: boolean
+) => {
+  // Sizes live in the data descriptor; the ZIP64 extra only flags the format
+  const extraLength = zip64 ? 20 : 0;
+  const writer = new ByteWriter(30 + name.length + extraLength)
+    .u32(0x04034b50)
+    .u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(flags)
+    .u16(0) // stored
+    .u16(time)
+    .u16(date)
+    .u32(0)
+    .u32(zip64 ? MAX_UINT32 : 0)
+    .u32(zip64 ? MAX_UINT32 : 0)
+    .u16(name.length)
+    .u16(extraLength)
+    .raw(name);
+  if (zip64) {
+    writer.u16(0x0001).u16(16).u64(0).u64(0);
+  }
+  return writer.bytes;
+};
+
+const dataDescriptor = (crc: number, size: number, zip64: boolean) =>
+  zip64
+    ? new ByteWriter(24).u32(0x08074b50).u32(crc).u64(size).u64(size).bytes
+    : new ByteWriter(16).u32(0x08074b50).u32(crc).u32(size).u32(size).bytes;
+
+const centralHeader = (record: CentralRecord) => {
+  const sizeOverflow = record.size >= MAX_UINT32;
+  const offsetOverflow = record.offset >= MAX_UINT32;
+  const zip64Fields = (sizeOverflow ? 2 : 0) + (offsetOverflow ? 1 : 0);
+  const extraLength = zip64Fields > 0 ? 4 + zip64Fields * 8 : 0;
+
+  const writer = new ByteWriter(46 + record.name.length + extraLength)
+    .u32(0x02014b50)
+    .u16(zip64Fields > 0 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(zip64Fields > 0 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(record.flags)
+    .u16(0)
+    .u16(record.time)
+    .u16(record.date)
+    .u32(record.crc)
+    .u32(sizeOverflow ? MAX_UINT32 : record.size)
+    .u32(sizeOverflow ? MAX_UINT32 : record.size)
+    .u16(record.name.length)
+    .u16(extraLength)
+    .u16(0) // comment
+    .u16(0) // disk
+    .u16(0) // internal attributes
+    .u32(record.isDirectory ? 0x10 : 0)
+    .u32(offsetOverflow ? MAX_UINT32 : record.offset)
+    .raw(record.name);
+
+  if (zip64Fields > 0) {
+    writer.u16(0x0001).u16(zip64Fields * 8);
+    if (sizeOverflow) writer.u64(record.size).u64(record.size);
+    if (offsetOverflow) writer.u64(record.offset);
+  }
+  return writer.bytes;
+};
+
+const endOfCentralDirectory = (
+  count: number,
+  directorySize: number,
+  directoryOffset: number
+) => {
+  const zip64 =
+    count >= MAX_UINT16 ||
+    directorySize >= MAX_UINT32 ||
+    directoryOffset >= MAX_UINT32;
+  const chunks: Uint8Array[] = [];
+
+  if (zip64) {
+    const zip64EndOffset = directoryOffset + directorySize;
+    chunks.push(
+      new ByteWriter(56)
+        .u32(0x06064b50)
+        .u64(44)
+        .u16(VERSION_ZIP64)
+        .u16(VERSION_ZIP64)
+        .u32(0)
+        .u32(0)
+        .u64(count)
+        .u64(count)
+        .u64(directorySize)
+        .u64(directoryOffset).bytes,
+      new ByteWriter(20)
+        .u32(0x07064b50)
+        .u32(0)
+        .u64(zip64EndOffset)
+        .u32(1).bytes
+    );
+  }
+
+  chunks.push(
+    new ByteWriter(22)
+      .u32(0x06054b50)
+      .u16(0)
+      .u16(0)
+      .u16(zip64 ? MAX_UINT16 : count)
+      .u16(zip64 ? MAX_UINT16 : count)
+      .u32(zip64 ? MAX_UINT32 : directorySize)
+      .u32(zip64 ? MAX_UINT32 : directoryOffset)
+      .u16(0).bytes
+  );
+  return chunks;
+};
+
+async function* zipChunks(
+  entries: Iterable<ZipEntry>
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const isDirectory = !entry.open;
+    const body = entry.open ? await entry.open() : null;
+    if (!isDirectory && !body) continue;
+
+    const name = encoder.encode(entry.path);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const flags = isDirectory ? FLAG_UTF8 : FLAG_UTF8 | FLAG_DATA_DESCRIPTOR;
+    const zip64 =
+      !isDirectory && (entry.size === undefined || entry.size >= MAX_UINT32);
+
+    const header = localHeader(name, flags, time, date, zip64);
+    const record: CentralRecord = {
+      name,
+      flags,
+      time,
+      date,
+      crc: 0,
+      size: 0,
+      offset,
+      isDirectory,
+    };
+    yield header;
+    offset += header.length;
+
+    if (body) {
+      const reader = body.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (!value || value.length === 0) continue;
+          record.crc = updateCrc32(record.crc, value);
+          record.size += value.length;
+          yield value;
+        }
+      } finally {
+        // Runs on normal completion and when the client aborts mid-file
+        await reader.cancel().catch(() => undefined);
+      }
+      offset += record.size;
+
+      const descriptor = dataDescriptor(record.crc, record.size, zip64);
+      yield descriptor;
+      offset += descriptor.length;
+    }
+
+    records.push(record);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const record of records) {
+    const header = centralHeader(record);
+    directorySize += header.length;
+    yield header;
+  }
+
+  for (const chunk of endOfCentralDirectory(
+    records.length,
+    directorySize,
+    directoryOffset
+  )) {
+    yield chunk;
+  }
+}
+
+/** Streams the given entries as a ZIP archive, pulling files one by one */
+export function createZipStream(
+  entries: Iterable<ZipEntry>
+): ReadableStream<Uint8Array> {
+  const iterator = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}
+
+const UNSAFE_SEGMENT_CHARS = '\\/:*?"<>|';
+
+/** Makes a single path segment safe for archive entry names */
+export const sanitizeZipSegment = (segment: string) => {
+  const cleaned = Array.from(segment, (char) =>
+    char.charCodeAt(0) < 32 || UNSAFE_SEGMENT_CHARS.includes(char) ? "_" : char
+  )
+    .join("")
+    .trim();
+  return cleaned && cleaned !== "." && cleaned !== ".." ? cleaned : "untitled";
+};
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { NotificationView } from "@/app/lib/notifications";
+import { useTranslation } from "@/app/components/I18nProvider";
+import NotificationRow, {
+  markNotificationsRead,
+} from "@/app/components/notifications/NotificationRow";
+
+export default function NotificationsPage() {
+  const { t } = useTranslation();
+  const [notifications, setNotifications] = useState<NotificationView[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(
+    async (cursor?: string | null) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (unreadOnly) params.set("unread", "1");
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/notifications?${params.toString()}`, {
+          cache: "no-store",
+        });
+        if (!res.ok) throw new Error(t("notifications.loadFailed"));
+        const data = await res.json();
+        setNotifications((prev) =>
+          cursor ? [...prev, ...data.notifications] : data.notifications
+        );
+        setUnreadCount(data.unreadCount);
+        setNextCursor(data.nextCursor);
+      } catch (e: unknown) {
+        setError(
+          e instanceof Error ? e.message : t("notifications.loadFailed")
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [unreadOnly, t]
+  );
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const count = await markNotificationsRead(ids);
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          !ids || ids.includes(notification.id)
+            ? { ...notification, readAt: notification.readAt ?? readAt }
+            : notification
+        )
+      );
+      setUnreadCount(count);
+    } catch (e: unknown) {
+      setError(
+        (e instanceof Error && e.message) || t("notifications.markReadFailed")
+      );
+    }
+  };
+
+  return (
+    <div className="drive-container">
+      <div className="bg-white border-b border-[#dadce0] px-6 py-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 max-w-[960px] mx-auto">
+          <div>
+            <h1 className="text-2xl font-normal text-[#202124]">
+              {t("notifications.title")}
+            </h1>
+            <p className="text-sm text-[#5f6368] mt-1">
+              {unreadCount === 1
+                ? t("notifications.unreadOne")
+                : t("notifications.unread", { count: unreadCount })}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={unreadOnly ? "unread" : "all"}
+              onChange={(e) => setUnreadOnly(e.target.value === "unread")}
+              className="input text-sm"
+            >
+              <option value="all">{t("notifications.showAll")}</option>
+              <option value="unread">{t("notifications.showUnread")}</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => markRead()}
+              disabled={unreadCount === 0}
+              className="btn-secondary text-sm disabled:opacity-50"
+            >
+              {t("notifications.markAllRead")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-[960px] mx-auto space-y-4">
+        {error && (
+          <div className="card bg-red-50 border-red-200 text-red-600">
+            {error}
+          </div>
+        )}
+        <div className="overflow-hidden rounded-xl border border-[#dadce0] bg-white divide-y divide-[#f1f3f4]">
+          {notifications.map((notification) => (
+            <NotificationRow
+              key={notification.id}
+              notification={notification}
+              onOpen={(opened) => {
+                if (!opened.readAt) markRead([opened.id]);
+              }}
+            />
+          ))}
+          {!loading && notifications.length === 0 && (
+            <div className="px-4 py-10 text-center text-sm text-[#5f6368]">
+              {unreadOnly
+                ? t("notifications.emptyUnread")
+                : t("notifications.emptyAll")}
+            </div>
+          )}
+          {loading && (
+            <div className="px-4 py-6 text-center text-sm text-[#5f6368]">
+              {t("common.loading")}
+            </div>
+          )}
+        </div>
+        {nextCursor && !loading && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={() => fetchNotifications(nextCursor)}
+              className="btn-secondary text-sm"
+            >
+              {t("common.loadMore")}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { auth } from "@/app/lib/auth";
+import { getTranslator } from "@/app/lib/i18n/server";
 import Link from "next/link";
 
 export default async function Home() {
   const session = await auth();
+  const t = await getTranslator();
   const role = (session?.user as any)?.role;
   return (
     <div className="drive-container">
@@ -16,30 +18,28 @@ export default async function Home() {
             />
           </div>
           <h1 className="text-4xl font-normal text-[#202124]">
-            Alfatonics Client Delivery Portal
+            {t("home.title")}
           </h1>
-          <p className="text-lg text-[#5f6368]">
-            Upload your assets and receive AI-generated video deliveries.
-          </p>
+          <p className="text-lg text-[#5f6368]">{t("home.subtitle")}</p>
           <div className="flex gap-3 justify-center pt-4">
             {role === "ADMIN" && (
               <Link className="btn-primary no-underline" href="/admin">
-                Admin Dashboard
+                {t("home.adminDashboard")}
               </Link>
             )}
             {role === "STAFF" && (
               <Link className="btn-primary no-underline" href="/staff">
-                Staff Dashboard
+                {t("home.staffDashboard")}
               </Link>
             )}
             {role === "CLIENT" && (
               <Link className="btn-primary no-underline" href="/client">
-                My Projects
+                {t("nav.myProjects")}
               </Link>
             )}
             {!role && (
               <Link className="btn-primary no-underline" href="/auth/signin">
-                Sign in
+                {t("nav.signIn")}
               </Link>
             )}
           </div>
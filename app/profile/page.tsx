@@ -2,6 +2,10 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import TwoFactorSettings from "@/app/components/auth/TwoFactorSettings";
+import NotificationPreferences from "@/app/components/notifications/NotificationPreferences";
+import ApiTokenSettings from "@/app/components/auth/ApiTokenSettings";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type MeResponse = {
   id: string;
@@ -11,6 +15,7 @@ type MeResponse = {
 };
 
 export default function ProfilePage() {
+  const { t } = useTranslation();
   const router = useRouter();
   const [user, setUser] = useState<MeResponse | null>(null);
   const [loading, setLoading] = useState(true);
@@ -49,18 +54,18 @@ export default function ProfilePage() {
           router.push("/auth/signin");
           return;
         }
-        if (!res.ok) throw new Error("Failed to load profile");
+        if (!res.ok) throw new Error(t("profile.loadFailed"));
         const data = await res.json();
         setUser(data);
       } catch (err: any) {
-        setError(err.message || "Failed to load profile.");
+        setError(err.message || t("profile.loadFailed"));
       } finally {
         setLoading(false);
       }
     };
 
     fetchMe();
-  }, [router]);
+  }, [router, t]);
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -68,7 +73,7 @@ export default function ProfilePage() {
     setSuccess(null);
 
     if (newPassword !== confirmPassword) {
-      setError("New password and confirmation do not match.");
+      setError(t("validation.passwordsMismatch"));
       return;
     }
 
@@ -90,15 +95,15 @@ export default function ProfilePage() {
             ? data.error
             : Array.isArray(data?.error)
             ? data.error[0]?.message
-            : data?.error?.message) || "Failed to update password."
+            : data?.error?.message) || t("profile.passwordFailed")
         );
       }
-      setSuccess("Password updated successfully.");
+      setSuccess(t("profile.passwordUpdated"));
       setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
     } catch (err: any) {
-      setError(err.message || "Failed to update password.");
+      setError(err.message || t("profile.passwordFailed"));
     } finally {
       setSubmitting(false);
     }
@@ -107,7 +112,7 @@ export default function ProfilePage() {
   if (loading) {
     return (
       <div className="drive-container p-8">
-        <div className="text-[#5f6368]">Loading profile...</div>
+        <div className="text-[#5f6368]">{t("profile.loading")}</div>
       </div>
     );
   }
@@ -115,16 +120,20 @@ export default function ProfilePage() {
   return (
     <div className="drive-container p-6 max-w-3xl mx-auto space-y-6">
       <div className="card space-y-2">
-        <h1 className="text-2xl font-normal text-[#202124]">My Profile</h1>
+        <h1 className="text-2xl font-normal text-[#202124]">{t("profile.title")}</h1>
         {user && (
           <div className="text-sm text-[#5f6368] space-y-1">
             <div>
-              <span className="font-medium text-[#202124]">Email:</span>{" "}
+              <span className="font-medium text-[#202124]">
+                {t("profile.email")}
+              </span>{" "}
               {user.email}
             </div>
             <div>
-              <span className="font-medium text-[#202124]">Role:</span>{" "}
-              {user.role}
+              <span className="font-medium text-[#202124]">
+                {t("profile.role")}
+              </span>{" "}
+              {t(`common.role.${user.role}`)}
             </div>
           </div>
         )}
@@ -133,18 +142,17 @@ export default function ProfilePage() {
       <form onSubmit={onSubmit} className="card space-y-4">
         <div>
           <h2 className="text-lg font-medium text-[#202124]">
-            Change Password
+            {t("profile.changePassword")}
           </h2>
           <p className="text-xs text-[#5f6368]">
-            Enter your current password, then choose a new one. Use at least six
-            characters.
+            {t("profile.passwordIntro")}
           </p>
         </div>
 
         <div className="grid gap-4 md:grid-cols-2">
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-[#202124] mb-1">
-              Current password
+              {t("twoFactor.currentPassword")}
             </label>
             <div className="relative">
               <input
@@ -162,8 +170,8 @@ export default function ProfilePage() {
                 tabIndex={-1}
                 aria-label={
                   showCurrent
-                    ? "Hide current password"
-                    : "Show current password"
+                    ? t("profile.hideCurrent")
+                    : t("profile.showCurrent")
                 }
               >
                 <EyeIcon open={showCurrent} />
@@ -172,7 +180,7 @@ export default function ProfilePage() {
           </div>
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-1">
-              New password
+              {t("password.new")}
             </label>
             <div className="relative">
               <input
@@ -188,7 +196,9 @@ export default function ProfilePage() {
                 onClick={() => setShowNew((prev) => !prev)}
                 className="absolute inset-y-0 right-0 flex items-center pr-3 text-[#3c5495] hover:text-[#e98923]"
                 tabIndex={-1}
-                aria-label={showNew ? "Hide new password" : "Show new password"}
+                aria-label={
+                  showNew ? t("profile.hideNew") : t("profile.showNew")
+                }
               >
                 <EyeIcon open={showNew} />
               </button>
@@ -196,7 +206,7 @@ export default function ProfilePage() {
           </div>
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-1">
-              Confirm new password
+              {t("password.confirmNew")}
             </label>
             <div className="relative">
               <input
@@ -214,8 +224,8 @@ export default function ProfilePage() {
                 tabIndex={-1}
                 aria-label={
                   showConfirm
-                    ? "Hide confirm password"
-                    : "Show confirm password"
+                    ? t("profile.hideConfirm")
+                    : t("profile.showConfirm")
                 }
               >
                 <EyeIcon open={showConfirm} />
@@ -240,9 +250,15 @@ export default function ProfilePage() {
           disabled={submitting}
           className="btn-primary disabled:opacity-50"
         >
-          {submitting ? "Updating..." : "Update Password"}
+          {submitting ? t("profile.updating") : t("profile.updatePassword")}
         </button>
       </form>
+
+      <TwoFactorSettings />
+
+      <NotificationPreferences />
+
+      <ApiTokenSettings />
     </div>
   );
 }
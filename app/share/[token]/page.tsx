@@ -0,0 +1,325 @@
+"use client";
+
+import { use, useCallback, useEffect, useMemo, useState } from "react";
+import DriveFileIcon from "@/app/components/drive/DriveFileIcon";
+import FileChecksum from "@/app/components/drive/FileChecksum";
+import {
+  buildFolderTree,
+  formatFileSize,
+  isImage,
+  isVideo,
+  type DriveFolderNode,
+} from "@/app/lib/drive-utils";
+import { useTranslation } from "@/app/components/I18nProvider";
+
+type SharedDelivery = {
+  id: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string | null;
+  folderId: string | null;
+  version: number;
+};
+
+type SharedFolder = {
+  id: string;
+  name: string;
+  parentId: string | null;
+  type: "PROJECT" | "ASSETS" | "DELIVERABLES";
+};
+
+type ShareContent = {
+  title: string;
+  projectTitle: string | null;
+  expiresAt: string;
+  allowDownload: boolean;
+  rootFolderId: string | null;
+  folders: SharedFolder[];
+  deliveries: SharedDelivery[];
+};
+
+export default function SharePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = use(params);
+  const { t } = useTranslation();
+  const [content, setContent] = useState<ShareContent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordTitle, setPasswordTitle] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [preview, setPreview] = useState<SharedDelivery | null>(null);
+
+  const apiBase = `/api/share/${encodeURIComponent(token)}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(apiBase, { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 401 && data.passwordRequired) {
+        setPasswordTitle(data.title ?? t("share.defaultTitle"));
+        setContent(null);
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(data.error || t("errors.linkExpired"));
+      }
+      setPasswordTitle(null);
+      setContent(data);
+    } catch (e: unknown) {
+      setError(
+        e instanceof Error ? e.message : t("errors.linkExpired")
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const unlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t("errors.incorrectPassword"));
+      }
+      setPassword("");
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t("errors.incorrectPassword"));
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  // Group deliveries under the shared folder hierarchy
+  const sections = useMemo(() => {
+    if (!content) return [];
+    const tree = buildFolderTree(
+      content.folders.map((folder) => ({
+        ...folder,
+        parentId:
+          folder.id === content.rootFolderId ? null : folder.parentId,
+      }))
+    );
+    const result: { path: string; deliveries: SharedDelivery[] }[] = [];
+    const walk = (nodes: DriveFolderNode[], prefix: string) => {
+      nodes.forEach((node) => {
+        const path = prefix ? `${prefix} / ${node.name}` : node.name;
+        const items = content.deliveries.filter(
+          (delivery) => delivery.folderId === node.id
+        );
+        if (items.length > 0) result.push({ path, deliveries: items });
+        walk(node.children, path);
+      });
+    };
+    walk(tree, "");
+    if (result.length === 0 && content.deliveries.length > 0) {
+      result.push({ path: "", deliveries: content.deliveries });
+    }
+    return result;
+  }, [content]);
+
+  if (loading && !content && !passwordTitle) {
+    return (
+      <div className="drive-container p-8">
+        <div className="flex h-64 items-center justify-center text-[#5f6368]">
+          {t("common.loading")}
+        </div>
+      </div>
+    );
+  }
+
+  if (passwordTitle) {
+    return (
+      <div className="drive-container flex items-center justify-center p-8">
+        <form onSubmit={unlock} className="card w-full max-w-sm space-y-4">
+          <div>
+            <h1 className="text-lg font-medium text-[#202124]">
+              {passwordTitle}
+            </h1>
+            <p className="text-sm text-[#5f6368]">
+              {t("share.passwordProtected")}
+            </p>
+          </div>
+          <input
+            type="password"
+            className="input w-full"
+            placeholder={t("common.password")}
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoFocus
+          />
+          {error && <div className="text-sm text-[#d93025]">{error}</div>}
+          <button
+            type="submit"
+            className="btn-primary w-full"
+            disabled={unlocking || !password}
+          >
+            {unlocking ? t("twoFactor.checking") : t("common.open")}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (error || !content) {
+    return (
+      <div className="drive-container p-8">
+        <div className="card text-center text-[#5f6368]">
+          {error || t("errors.linkExpired")}
+        </div>
+      </div>
+    );
+  }
+
+  const streamUrl = (delivery: SharedDelivery) =>
+    `${apiBase}/deliveries/${delivery.id}/stream`;
+  const downloadUrl = (delivery: SharedDelivery) =>
+    `${apiBase}/deliveries/${delivery.id}/download`;
+
+  return (
+    <div className="drive-container">
+      <div className="border-b border-[#dadce0] bg-white px-6 py-4">
+        <div className="mx-auto max-w-[1200px]">
+          <h1 className="text-2xl font-normal text-[#202124]">
+            {content.title}
+          </h1>
+          <div className="mt-1 text-sm text-[#5f6368]">
+            {content.projectTitle && `${content.projectTitle} · `}
+            {t("share.availableUntil", {
+              date: new Date(content.expiresAt).toLocaleString(),
+            })}
+            {!content.allowDownload && ` · ${t("share.streamingOnly")}`}
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-[1200px] space-y-6 p-6">
+        {sections.length === 0 && (
+          <div className="card text-sm text-[#5f6368]">
+            {t("share.empty")}
+          </div>
+        )}
+        {sections.map((section) => (
+          <section key={section.path || "root"} className="space-y-2">
+            {section.path && (
+              <h2 className="text-sm font-medium text-[#5f6368]">
+                {section.path}
+              </h2>
+            )}
+            <ul className="space-y-2">
+              {section.deliveries.map((delivery) => {
+                const previewable =
+                  isVideo(delivery.contentType, delivery.filename) ||
+                  isImage(delivery.contentType, delivery.filename);
+                return (
+                  <li
+                    key={delivery.id}
+                    className="flex flex-wrap items-center gap-3 rounded-2xl border border-[#e5e8ef] bg-white px-3 py-3 shadow-sm"
+                  >
+                    <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-[#f4f6fb]">
+                      <DriveFileIcon
+                        type="OTHER"
+                        contentType={delivery.contentType}
+                        filename={delivery.filename}
+                        size={26}
+                      />
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-[#202124]">
+                        {delivery.filename}
+                      </p>
+                      <p className="text-xs text-[#80868b]">
+                        {formatFileSize(delivery.sizeBytes)}
+                        {delivery.version > 1 && ` · v${delivery.version}`}
+                      </p>
+                      <FileChecksum sha256={delivery.sha256} />
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      {previewable && (
+                        <button
+                          type="button"
+                          className="rounded-full bg-[#1a73e8] px-4 py-1.5 font-medium text-white shadow-sm transition hover:bg-[#1557b0]"
+                          onClick={() => setPreview(delivery)}
+                        >
+                          {t("drive.preview")}
+                        </button>
+                      )}
+                      {content.allowDownload && (
+                        <a
+                          href={downloadUrl(delivery)}
+                          className="rounded-full border border-[#d2d6dc] bg-white px-4 py-1.5 font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                        >
+                          {t("common.download")}
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      {preview && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-6"
+          onClick={() => setPreview(null)}
+          role="dialog"
+          aria-modal="true"
+        >
+          <div
+            className="w-full max-w-5xl overflow-hidden rounded-2xl bg-white shadow-2xl"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between border-b border-[#dadce0] bg-[#f8f9fa] px-6 py-4">
+              <h3 className="text-lg font-medium text-[#202124]">
+                {preview.filename}
+              </h3>
+              <button
+                onClick={() => setPreview(null)}
+                className="btn-primary"
+              >
+                {t("common.close")}
+              </button>
+            </div>
+            <div className="flex max-h-[70vh] items-center justify-center overflow-auto bg-[#f8f9fa] p-6">
+              {isVideo(preview.contentType, preview.filename) ? (
+                <video
+                  controls
+                  controlsList={content.allowDownload ? undefined : "nodownload"}
+                  src={streamUrl(preview)}
+                  className="max-h-[65vh] w-full rounded-lg bg-black"
+                />
+              ) : (
+                <img
+                  src={streamUrl(preview)}
+                  alt={preview.filename}
+                  className="max-h-[65vh] max-w-full object-contain"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
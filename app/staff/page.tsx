@@ -2,12 +2,18 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Project = {
   id: string;
   title: string | null;
   description: string | null;
-  status: "PENDING" | "IN_PROGRESS" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "CHANGES_REQUESTED"
+    | "APPROVED";
   client: { id: string; email: string; name: string | null };
   assets: Array<{ id: string; filename: string; type: string }>;
   deliveries: Array<{ id: string; filename: string }>;
@@ -15,6 +21,7 @@ type Project = {
 };
 
 export default function StaffDashboard() {
+  const { t } = useTranslation();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -45,19 +52,25 @@ export default function StaffDashboard() {
     return (
       <div className="drive-container p-8">
         <div className="flex items-center justify-center h-64">
-          <div className="text-[#5f6368]">Loading...</div>
+          <div className="text-[#5f6368]">{t("common.loading")}</div>
         </div>
       </div>
     );
   }
 
-  const assignedProjects = projects.filter((p) => p.status !== "COMPLETED");
-  const completedProjects = projects.filter((p) => p.status === "COMPLETED");
+  const isDone = (status: Project["status"]) =>
+    status === "COMPLETED" || status === "APPROVED";
+  const assignedProjects = projects.filter((p) => !isDone(p.status));
+  const completedProjects = projects.filter((p) => isDone(p.status));
 
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -67,8 +80,10 @@ export default function StaffDashboard() {
 
   const getFolderIcon = (status: string) => {
     const color =
-      status === "COMPLETED"
+      status === "COMPLETED" || status === "APPROVED"
         ? "#10b981"
+        : status === "CHANGES_REQUESTED"
+        ? "#dc2626"
         : status === "IN_PROGRESS"
         ? "#3b82f6"
         : "#f59e0b";
@@ -94,7 +109,7 @@ export default function StaffDashboard() {
       <div className="bg-white border-b border-[#dadce0] px-4 sm:px-6 py-3 sm:py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto gap-3">
           <h1 className="text-xl sm:text-2xl font-normal text-[#202124]">
-            Staff Dashboard
+            {t("staff.title")}
           </h1>
           <Link
             href="/staff/projects/new"
@@ -113,8 +128,10 @@ export default function StaffDashboard() {
                 <line x1="12" y1="5" x2="12" y2="19"></line>
                 <line x1="5" y1="12" x2="19" y2="12"></line>
               </svg>
-              <span className="hidden sm:inline">New Project</span>
-              <span className="sm:hidden">New</span>
+              <span className="hidden sm:inline">
+                {t("projects.newProject")}
+              </span>
+              <span className="sm:hidden">{t("projects.new")}</span>
             </span>
           </Link>
         </div>
@@ -125,7 +142,7 @@ export default function StaffDashboard() {
         {assignedProjects.length > 0 && (
           <section>
             <h2 className="text-lg sm:text-xl font-normal text-[#202124] mb-3 sm:mb-4">
-              Active Projects
+              {t("staff.active")}
             </h2>
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3 sm:gap-4">
               {assignedProjects.map((project) => (
@@ -137,22 +154,31 @@ export default function StaffDashboard() {
                   <div className="flex flex-col items-center text-center">
                     <div className="mb-3">{getFolderIcon(project.status)}</div>
                     <h3 className="font-medium text-[#202124] text-sm mb-1 truncate w-full">
-                      {project.title || `Project ${project.id.slice(0, 8)}`}
+                      {project.title ||
+                        t("projects.project", { id: project.id.slice(0, 8) })}
                     </h3>
                     <div className={getStatusBadgeClass(project.status)}>
-                      {project.status.replace("_", " ")}
+                      {t(`projectStatus.${project.status}`)}
                     </div>
                     <div className="mt-3 text-xs text-[#5f6368] space-y-1">
                       <div className="truncate" title={project.client.email}>
                         {project.client.email}
                       </div>
                       <div>
-                        {project.assets.length} asset
-                        {project.assets.length !== 1 ? "s" : ""}
+                        {t(
+                          project.assets.length === 1
+                            ? "projects.assetCountOne"
+                            : "projects.assetCount",
+                          { count: project.assets.length }
+                        )}
                       </div>
                       <div>
-                        {project.deliveries.length} deliver
-                        {project.deliveries.length !== 1 ? "ies" : "y"}
+                        {t(
+                          project.deliveries.length === 1
+                            ? "projects.deliveryCountOne"
+                            : "projects.deliveryCount",
+                          { count: project.deliveries.length }
+                        )}
                       </div>
                     </div>
                   </div>
@@ -165,7 +191,7 @@ export default function StaffDashboard() {
         {completedProjects.length > 0 && (
           <section>
             <h2 className="text-lg sm:text-xl font-normal text-[#202124] mb-3 sm:mb-4">
-              Completed Projects
+              {t("staff.completed")}
             </h2>
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3 sm:gap-4">
               {completedProjects.map((project) => (
@@ -177,22 +203,31 @@ export default function StaffDashboard() {
                   <div className="flex flex-col items-center text-center">
                     <div className="mb-3">{getFolderIcon(project.status)}</div>
                     <h3 className="font-medium text-[#202124] text-sm mb-1 truncate w-full">
-                      {project.title || `Project ${project.id.slice(0, 8)}`}
+                      {project.title ||
+                        t("projects.project", { id: project.id.slice(0, 8) })}
                     </h3>
                     <div className={getStatusBadgeClass(project.status)}>
-                      {project.status.replace("_", " ")}
+                      {t(`projectStatus.${project.status}`)}
                     </div>
                     <div className="mt-3 text-xs text-[#5f6368] space-y-1">
                       <div className="truncate" title={project.client.email}>
                         {project.client.email}
                       </div>
                       <div>
-                        {project.assets.length} asset
-                        {project.assets.length !== 1 ? "s" : ""}
+                        {t(
+                          project.assets.length === 1
+                            ? "projects.assetCountOne"
+                            : "projects.assetCount",
+                          { count: project.assets.length }
+                        )}
                       </div>
                       <div>
-                        {project.deliveries.length} deliver
-                        {project.deliveries.length !== 1 ? "ies" : "y"}
+                        {t(
+                          project.deliveries.length === 1
+                            ? "projects.deliveryCountOne"
+                            : "projects.deliveryCount",
+                          { count: project.deliveries.length }
+                        )}
                       </div>
                     </div>
                   </div>
@@ -215,7 +250,7 @@ export default function StaffDashboard() {
               </svg>
             </div>
             <h2 className="text-xl font-normal text-[#202124] mb-2">
-              No projects assigned yet
+              {t("staff.empty")}
             </h2>
           </div>
         )}
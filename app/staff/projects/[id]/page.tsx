@@ -4,6 +4,17 @@ import { useEffect, useState, use, useRef, useMemo, useCallback } from "react";
 import type { DragEvent, ReactNode } from "react";
 import Link from "next/link";
 import DriveFileIcon from "@/app/components/drive/DriveFileIcon";
+import DeliveryVersionsDialog from "@/app/components/drive/DeliveryVersionsDialog";
+import ShareLinksDialog from "@/app/components/drive/ShareLinksDialog";
+import TrashDialog from "@/app/components/drive/TrashDialog";
+import FileChecksum from "@/app/components/drive/FileChecksum";
+import UnfinishedUploads, {
+  type UploadSessionSummary,
+} from "@/app/components/drive/UnfinishedUploads";
+import UploadManagerPanel from "@/app/components/uploads/UploadManagerPanel";
+import { useUploadManager } from "@/app/components/uploads/useUploadManager";
+import DeliveryVideoReview from "@/app/components/drive/DeliveryVideoReview";
+import DeliveryReviewSummary from "@/app/components/drive/DeliveryReviewSummary";
 import DriveBrowserView from "@/app/components/drive/browser/DriveBrowserView";
 import { useDriveBrowser } from "@/app/components/drive/browser/useDriveBrowser";
 import type {
@@ -18,13 +29,17 @@ import {
   formatFileSize,
   isImage,
   isVideo,
+  projectZipUrl,
 } from "@/app/lib/drive-utils";
+import { can, type PolicyUser } from "@/app/lib/policy";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Asset = {
   id: string;
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   type: string;
   createdAt: string;
   folderId?: string | null;
@@ -37,10 +52,14 @@ type Delivery = {
   filename: string;
   contentType: string;
   sizeBytes: number;
+  sha256?: string | null;
   createdAt: string;
   folderId?: string | null;
   folder?: { id: string; name: string } | null;
   uploadedBy: { id: string; email: string; name: string | null };
+  version: number;
+  reviewStatus: "PENDING" | "APPROVED" | "CHANGES_REQUESTED";
+  reviewNote: string | null;
 };
 
 type Folder = {
@@ -56,8 +75,16 @@ type Project = {
   id: string;
   title: string | null;
   description: string | null;
-  status: "PENDING" | "IN_PROGRESS" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "CHANGES_REQUESTED"
+    | "APPROVED";
+  clientId: string;
+  createdById: string | null;
   client: { id: string; email: string; name: string | null };
+  staffAssignments: Array<{ staffId: string }>;
   assets: Asset[];
   deliveries: Delivery[];
   folders: Folder[];
@@ -82,23 +109,9 @@ export default function StaffProjectPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = use(params);
+  const { t } = useTranslation();
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
-  const [uploadingDeliveries, setUploadingDeliveries] = useState(false);
-  const [deliveryUploadProgress, setDeliveryUploadProgress] = useState(0);
-  const [deliveryUploadTotal, setDeliveryUploadTotal] = useState(0);
-  const [currentDeliveryUploadName, setCurrentDeliveryUploadName] = useState<
-    string | null
-  >(null);
-  const [currentDeliveryUploadIndex, setCurrentDeliveryUploadIndex] =
-    useState(0);
-  const [uploadingAssets, setUploadingAssets] = useState(false);
-  const [assetUploadProgress, setAssetUploadProgress] = useState(0);
-  const [assetUploadTotal, setAssetUploadTotal] = useState(0);
-  const [currentAssetUploadName, setCurrentAssetUploadName] = useState<
-    string | null
-  >(null);
-  const [currentAssetUploadIndex, setCurrentAssetUploadIndex] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const deliveryInputRef = useRef<HTMLInputElement | null>(null);
   const assetInputRef = useRef<HTMLInputElement | null>(null);
@@ -108,14 +121,17 @@ export default function StaffProjectPage({
   );
   const [deletingFolderId, setDeletingFolderId] = useState<string | null>(null);
   const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<{
-    id: string;
-    role: string;
-  } | null>(null);
+  const [currentUser, setCurrentUser] = useState<PolicyUser | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState<string | null>(null);
   const [previewItem, setPreviewItem] = useState<PreviewItem>(null);
+  const [versionsDelivery, setVersionsDelivery] =
+    useState<DriveDelivery | null>(null);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const versionInputRef = useRef<HTMLInputElement | null>(null);
+  const versionTargetIdRef = useRef<string | null>(null);
 
   const formatDateTime = (value: string | null | undefined) => {
     if (!value) return null;
@@ -138,17 +154,20 @@ export default function StaffProjectPage({
       if (!res.ok) {
         const errorText = await res.text();
         throw new Error(
-          errorText || `Failed to fetch project: ${res.statusText}`
+          errorText ||
+            t("projectPage.fetchFailedStatus", { status: res.statusText })
         );
       }
       const data = await res.json();
       setProject(data);
     } catch (e: any) {
-      setError(e.message || "Failed to fetch project");
+      setError(e.message || t("errors.fetchProjectFailed"));
     } finally {
       setLoading(false);
     }
-  }, [id]);
+  }, [id, t]);
+
+  const uploadManager = useUploadManager({ onIdle: fetchProject });
 
   const fetchCurrentUser = useCallback(async () => {
     try {
@@ -213,6 +232,9 @@ export default function StaffProjectPage({
         folderId: delivery.folderId ?? null,
         uploadedAt: delivery.createdAt,
         uploadedBy: delivery.uploadedBy ?? null,
+        version: delivery.version,
+        reviewStatus: delivery.reviewStatus,
+        reviewNote: delivery.reviewNote,
       })),
     [deliveriesList]
   );
@@ -229,13 +251,13 @@ export default function StaffProjectPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move folder");
+            throw new Error(data.error || t("projectPage.moveFolderFailed"));
           }
         } else if (item.kind === "ASSET") {
           if (targetFolderId) {
             const targetFolder = folders.find((f) => f.id === targetFolderId);
             if (!targetFolder || targetFolder.type !== "ASSETS") {
-              throw new Error("Assets can only be moved into Assets folders.");
+              throw new Error(t("projectPage.assetMoveTarget"));
             }
           }
           const res = await fetch(`/api/assets/${item.id}`, {
@@ -245,7 +267,7 @@ export default function StaffProjectPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move asset");
+            throw new Error(data.error || t("projectPage.moveAssetFailed"));
           }
         } else if (item.kind === "DELIVERY") {
           if (targetFolderId) {
@@ -255,9 +277,7 @@ export default function StaffProjectPage({
               (targetFolder.type !== "PROJECT" &&
                 targetFolder.type !== "DELIVERABLES")
             ) {
-              throw new Error(
-                "Deliveries can only be moved into Project or Deliverables folders."
-              );
+              throw new Error(t("projectPage.deliveryMoveTarget"));
             }
           }
           const res = await fetch(`/api/deliveries/${item.id}`, {
@@ -267,22 +287,24 @@ export default function StaffProjectPage({
           });
           if (!res.ok) {
             const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to move delivery");
+            throw new Error(data.error || t("projectPage.moveDeliveryFailed"));
           }
         }
         await fetchProject();
       } catch (e: any) {
         console.error("Move error:", e);
-        setError(e.message || "Failed to move item");
+        setError(e.message || t("projectPage.moveItemFailed"));
       }
     },
-    [id, folders, fetchProject]
+    [id, folders, fetchProject, t]
   );
 
   const handleCreateFolder = useCallback(
     async (name: string, parentId: string | null) => {
       const trimmed = name.trim();
-      if (!trimmed) return Promise.reject(new Error("Folder name is required"));
+      if (!trimmed) {
+        return Promise.reject(new Error(t("projectPage.folderNameRequired")));
+      }
       try {
         setError(null);
         const res = await fetch(`/api/projects/${id}/folders`, {
@@ -292,26 +314,24 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to create folder");
+          throw new Error(data.error || t("errors.createFolderFailed"));
         }
         const created = await res.json();
         await fetchProject();
         return created as DriveFolder;
       } catch (e: any) {
         console.error("Create folder error:", e);
-        setError(e.message || "Failed to create folder");
+        setError(e.message || t("errors.createFolderFailed"));
         throw e;
       }
     },
-    [id, fetchProject]
+    [id, fetchProject, t]
   );
 
   const handleDeleteFolder = useCallback(
     async (folder: DriveFolder) => {
       if (
-        !confirm(
-          `Are you sure you want to delete “${folder.name}”? All nested folders and files will be permanently removed.`
-        )
+        !confirm(t("projectPage.confirmTrashFolder", { name: folder.name }))
       ) {
         return;
       }
@@ -323,22 +343,24 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to delete folder");
+          throw new Error(data.error || t("errors.deleteFolderFailed"));
         }
         await fetchProject();
       } catch (e: any) {
         console.error("Delete folder error:", e);
-        setError(e.message || "Failed to delete folder");
+        setError(e.message || t("errors.deleteFolderFailed"));
       } finally {
         setDeletingFolderId(null);
       }
     },
-    [fetchProject, id]
+    [fetchProject, id, t]
   );
 
   const handleRenameFolder = useCallback(
     async (folder: DriveFolder) => {
-      const proposed = window.prompt("Rename folder", folder.name)?.trim();
+      const proposed = window
+        .prompt(t("projectPage.renameFolder"), folder.name)
+        ?.trim();
       if (!proposed || proposed === folder.name) {
         return;
       }
@@ -352,17 +374,17 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to rename folder");
+          throw new Error(data.error || t("projectPage.renameFolderFailed"));
         }
         await fetchProject();
       } catch (e: any) {
         console.error("Rename folder error:", e);
-        setError(e.message || "Failed to rename folder");
+        setError(e.message || t("projectPage.renameFolderFailed"));
       } finally {
         setRenamingFolderId(null);
       }
     },
-    [fetchProject, id]
+    [fetchProject, id, t]
   );
 
   const driveBrowser = useDriveBrowser({
@@ -392,16 +414,16 @@ export default function StaffProjectPage({
     if (activeFolderId) {
       const folder = folders.find((f) => f.id === activeFolderId);
       if (!folder || folder.type !== "ASSETS") {
-        throw new Error("Choose an Assets folder before uploading files.");
+        throw new Error(t("projectPage.chooseAssetsFolder"));
       }
       return folder.id;
     }
     const assetsFolder = folders.find((f) => f.type === "ASSETS");
     if (!assetsFolder) {
-      throw new Error("No Assets folder found. Please contact the admin team.");
+      throw new Error(t("projectPage.noAssetsFolder"));
     }
     return assetsFolder.id;
-  }, [activeFolderId, folders]);
+  }, [activeFolderId, folders, t]);
 
   const resolveDeliveryFolderId = useCallback(() => {
     if (activeFolderId) {
@@ -410,9 +432,7 @@ export default function StaffProjectPage({
         !folder ||
         (folder.type !== "DELIVERABLES" && folder.type !== "PROJECT")
       ) {
-        throw new Error(
-          "Choose a Project or Deliverables folder before uploading deliveries."
-        );
+        throw new Error(t("projectPage.chooseDeliveryFolder"));
       }
       return folder.id;
     }
@@ -420,15 +440,13 @@ export default function StaffProjectPage({
     if (deliverablesFolder) return deliverablesFolder.id;
     const projectFolder = folders.find((f) => f.type === "PROJECT");
     if (projectFolder) return projectFolder.id;
-    throw new Error(
-      "No Deliverables or Project folder found. Please create a folder first."
-    );
-  }, [activeFolderId, folders]);
+    throw new Error(t("projectPage.noDeliveryFolder"));
+  }, [activeFolderId, folders, t]);
 
   const uploadAssets = useCallback(
     async (
       incoming: FileList | File[],
-      options?: { targetFolderId?: string | null; refreshAfter?: boolean }
+      options?: { targetFolderId?: string | null }
     ) => {
       const files =
         incoming instanceof FileList ? Array.from(incoming) : [...incoming];
@@ -437,144 +455,31 @@ export default function StaffProjectPage({
       try {
         const targetFolderId =
           options?.targetFolderId ?? resolveAssetFolderId();
-        const shouldRefresh = options?.refreshAfter ?? true;
-        setUploadingAssets(true);
         setError(null);
-        setAssetUploadTotal(files.length);
-        setAssetUploadProgress(0);
-
-        for (let index = 0; index < files.length; index++) {
-          const currentFile = files[index];
-          setCurrentAssetUploadName(currentFile.name);
-          setCurrentAssetUploadIndex(index + 1);
-
-          const initRes = await fetch(`/api/projects/${id}/assets`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!initRes.ok) {
-            const errorData = await initRes
-              .json()
-              .catch(() => ({ error: "Failed to initialize upload" }));
-            throw new Error(
-              errorData.error ||
-                `Upload initialization failed for ${currentFile.name}: ${initRes.status}`
-            );
-          }
-
-          const init = await initRes.json();
-          const { uploadId, key, partSize, presignedPartUrls, completeUrl } =
-            init;
-
-          if (
-            !Array.isArray(presignedPartUrls) ||
-            presignedPartUrls.length === 0
-          ) {
-            throw new Error(
-              `Invalid response from server for ${currentFile.name}: missing presigned URLs`
-            );
-          }
-
-          const totalParts = presignedPartUrls.length;
-          const etags: { ETag: string; PartNumber: number }[] = [];
-
-          for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-            const start = (partNumber - 1) * partSize;
-            const end = Math.min(start + partSize, currentFile.size);
-            const blob = currentFile.slice(start, end);
-
-            const res = await fetch(
-              `/api/r2/upload-part?url=${encodeURIComponent(
-                presignedPartUrls[partNumber - 1]
-              )}`,
-              {
-                method: "PUT",
-                body: blob,
-                headers: {
-                  "Content-Type":
-                    currentFile.type || "application/octet-stream",
-                },
-              }
-            );
-
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: ${
-                  errorData.error || res.statusText
-                }`
-              );
-            }
-
-            const data = await res.json();
-            if (!data.etag) {
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: no ETag received`
-              );
-            }
-            etags.push({ ETag: data.etag, PartNumber: partNumber });
-
-            const overallProgress =
-              ((index + (partNumber - 1) / totalParts) / files.length) * 100;
-            setAssetUploadProgress(Math.min(99, Math.round(overallProgress)));
-          }
-
-          const completeRes = await fetch(completeUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              key,
-              uploadId,
-              parts: etags,
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!completeRes.ok) {
-            const errorData = await completeRes.json().catch(() => ({}));
-            throw new Error(
-              errorData.error ||
-                `Upload completion failed for ${currentFile.name}: ${completeRes.status}`
-            );
-          }
-
-          const completionProgress = ((index + 1) / files.length) * 100;
-          setAssetUploadProgress(Math.round(completionProgress));
-        }
-
-        if (shouldRefresh) {
-          await fetchProject();
-        }
-        setAssetUploadProgress(100);
-        setTimeout(() => setAssetUploadProgress(0), 400);
-      } catch (e: any) {
+        await uploadManager.add(
+          files,
+          {
+            startUrl: `/api/projects/${id}/assets`,
+            fields: { folderId: targetFolderId },
+          },
+          t("projectPage.assetUpload")
+        );
+      } catch (e) {
         console.error("Asset upload error:", e);
-        setError(e.message || "Failed to upload assets");
-        setAssetUploadProgress(0);
-      } finally {
-        setUploadingAssets(false);
-        setCurrentAssetUploadName(null);
-        setCurrentAssetUploadIndex(0);
-        setAssetUploadTotal(0);
+        setError((e as Error).message || t("projectPage.uploadAssetsFailed"));
       }
     },
-    [fetchProject, id, resolveAssetFolderId]
+    [id, resolveAssetFolderId, t, uploadManager.add]
   );
 
   const uploadDeliveries = useCallback(
     async (
       incoming: FileList | File[],
-      options?: { targetFolderId?: string | null; refreshAfter?: boolean }
+      options?: {
+        targetFolderId?: string | null;
+        // Upload as a new version of this delivery instead of a new delivery
+        deliveryId?: string;
+      }
     ) => {
       const files =
         incoming instanceof FileList ? Array.from(incoming) : [...incoming];
@@ -583,140 +488,38 @@ export default function StaffProjectPage({
       try {
         const targetFolderId =
           options?.targetFolderId ?? resolveDeliveryFolderId();
-        const shouldRefresh = options?.refreshAfter ?? true;
-        setUploadingDeliveries(true);
         setError(null);
-        setDeliveryUploadTotal(files.length);
-        setDeliveryUploadProgress(0);
-
-        for (let index = 0; index < files.length; index++) {
-          const currentFile = files[index];
-          setCurrentDeliveryUploadName(currentFile.name);
-          setCurrentDeliveryUploadIndex(index + 1);
-
-          const initRes = await fetch(`/api/projects/${id}/deliveries`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
-              folderId: targetFolderId,
-            }),
-          });
-
-          if (!initRes.ok) {
-            const errorData = await initRes
-              .json()
-              .catch(() => ({ error: "Failed to initialize upload" }));
-            throw new Error(
-              errorData.error ||
-                `Upload initialization failed for ${currentFile.name}: ${initRes.status}`
-            );
-          }
-
-          const init = await initRes.json();
-          const { uploadId, key, partSize, presignedPartUrls, completeUrl } =
-            init;
-
-          if (
-            !Array.isArray(presignedPartUrls) ||
-            presignedPartUrls.length === 0
-          ) {
-            throw new Error(
-              `Invalid response from server for ${currentFile.name}: missing presigned URLs`
-            );
-          }
-
-          const totalParts = presignedPartUrls.length;
-          const etags: { ETag: string; PartNumber: number }[] = [];
-
-          for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-            const start = (partNumber - 1) * partSize;
-            const end = Math.min(start + partSize, currentFile.size);
-            const blob = currentFile.slice(start, end);
-
-            const res = await fetch(
-              `/api/r2/upload-part?url=${encodeURIComponent(
-                presignedPartUrls[partNumber - 1]
-              )}`,
-              {
-                method: "PUT",
-                body: blob,
-                headers: {
-                  "Content-Type":
-                    currentFile.type || "application/octet-stream",
-                },
-              }
-            );
-
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: ${
-                  errorData.error || res.statusText
-                }`
-              );
-            }
-
-            const data = await res.json();
-            if (!data.etag) {
-              throw new Error(
-                `Part ${partNumber} upload failed for ${currentFile.name}: no ETag received`
-              );
-            }
-            etags.push({ ETag: data.etag, PartNumber: partNumber });
-
-            const overallProgress =
-              ((index + (partNumber - 1) / totalParts) / files.length) * 100;
-            setDeliveryUploadProgress(
-              Math.min(99, Math.round(overallProgress))
-            );
-          }
-
-          const completeRes = await fetch(completeUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              key,
-              uploadId,
-              parts: etags,
-              filename: currentFile.name,
-              contentType: currentFile.type || "application/octet-stream",
-              sizeBytes: currentFile.size,
+        await uploadManager.add(
+          files,
+          {
+            startUrl: `/api/projects/${id}/deliveries`,
+            fields: {
               folderId: targetFolderId,
-            }),
-          });
-
-          if (!completeRes.ok) {
-            const errorData = await completeRes.json().catch(() => ({}));
-            throw new Error(
-              errorData.error ||
-                `Upload completion failed for ${currentFile.name}: ${completeRes.status}`
-            );
-          }
-
-          const completionProgress = ((index + 1) / files.length) * 100;
-          setDeliveryUploadProgress(Math.round(completionProgress));
-        }
-
-        if (shouldRefresh) {
-          await fetchProject();
-        }
-        setDeliveryUploadProgress(100);
-        setTimeout(() => setDeliveryUploadProgress(0), 400);
-      } catch (e: any) {
+              deliveryId: options?.deliveryId,
+            },
+          },
+          t("projectPage.deliveryUpload")
+        );
+      } catch (e) {
         console.error("Delivery upload error:", e);
-        setError(e.message || "Failed to upload deliveries");
-        setDeliveryUploadProgress(0);
-      } finally {
-        setUploadingDeliveries(false);
-        setCurrentDeliveryUploadName(null);
-        setCurrentDeliveryUploadIndex(0);
-        setDeliveryUploadTotal(0);
+        setError(
+          (e as Error).message || t("projectPage.uploadDeliveriesFailed")
+        );
       }
     },
-    [fetchProject, id, resolveDeliveryFolderId]
+    [id, resolveDeliveryFolderId, t, uploadManager.add]
+  );
+
+  // Picks up an upload a reload interrupted, into the same place
+  const resumeUpload = useCallback(
+    (session: UploadSessionSummary, file: File) =>
+      session.kind === "DELIVERY"
+        ? uploadDeliveries([file], {
+            targetFolderId: session.folderId,
+            deliveryId: session.deliveryId ?? undefined,
+          })
+        : uploadAssets([file], { targetFolderId: session.folderId }),
+    [uploadAssets, uploadDeliveries]
   );
 
   const handleAssetFiles = useCallback(
@@ -739,6 +542,27 @@ export default function StaffProjectPage({
     [uploadDeliveries]
   );
 
+  const handleUploadNewVersionClick = useCallback(() => {
+    if (!versionsDelivery) return;
+    versionTargetIdRef.current = versionsDelivery.id;
+    setVersionsDelivery(null);
+    versionInputRef.current?.click();
+  }, [versionsDelivery]);
+
+  const handleVersionFile = useCallback(
+    (incoming: FileList) => {
+      const file = incoming[0];
+      const deliveryId = versionTargetIdRef.current;
+      if (versionInputRef.current) {
+        versionInputRef.current.value = "";
+      }
+      versionTargetIdRef.current = null;
+      if (!file || !deliveryId) return;
+      void uploadDeliveries([file], { deliveryId });
+    },
+    [uploadDeliveries]
+  );
+
   const handleUploadClick = useCallback(() => {
     try {
       if (!activeFolderId) {
@@ -747,9 +571,7 @@ export default function StaffProjectPage({
       }
       const targetFolder = folders.find((f) => f.id === activeFolderId);
       if (!targetFolder) {
-        throw new Error(
-          "Selected folder is no longer available. Reload and try again."
-        );
+        throw new Error(t("projectPage.folderGone"));
       }
       if (targetFolder.type === "ASSETS") {
         assetInputRef.current?.click();
@@ -757,9 +579,9 @@ export default function StaffProjectPage({
         deliveryInputRef.current?.click();
       }
     } catch (e: any) {
-      setError(e.message || "Select a valid folder before uploading files.");
+      setError(e.message || t("projectPage.selectValidFolder"));
     }
-  }, [activeFolderId, folders]);
+  }, [activeFolderId, folders, t]);
 
   const handleUploadDragOver = useCallback(
     (event: DragEvent<HTMLDivElement>) => {
@@ -832,7 +654,9 @@ export default function StaffProjectPage({
         });
         const data = await res.json().catch(() => ({}));
         if (!res.ok) {
-          throw new Error(data.error || `Failed to create folder "${name}"`);
+          throw new Error(
+            data.error || t("projectPage.createFolderFailed", { name })
+          );
         }
         const created = data as Folder;
         folderIdCache.set(cacheKey(parentId, created.name), created.id);
@@ -872,26 +696,27 @@ export default function StaffProjectPage({
             baseFolderId
           );
           if (!destinationFolderId) {
-            throw new Error("Unable to resolve destination folder.");
+            throw new Error(t("projectPage.unresolvedFolder"));
           }
 
+          // Queued behind each other; the upload manager reloads the
+          // listing once they are through
           if (processAsAssets) {
-            await uploadAssets(groupedFiles, {
+            void uploadAssets(groupedFiles, {
               targetFolderId: destinationFolderId,
-              refreshAfter: false,
             });
           } else {
-            await uploadDeliveries(groupedFiles, {
+            void uploadDeliveries(groupedFiles, {
               targetFolderId: destinationFolderId,
-              refreshAfter: false,
             });
           }
         }
 
+        // Shows the folders just created
         await fetchProject();
       } catch (error: any) {
         console.error("Folder drop failed:", error);
-        setError(error?.message || "Failed to process dropped folder.");
+        setError(error?.message || t("projectPage.dropFailed"));
       }
     },
     [
@@ -905,13 +730,17 @@ export default function StaffProjectPage({
       resolveDeliveryFolderId,
       uploadAssets,
       uploadDeliveries,
+      t,
     ]
   );
 
   const handleCreateFolderClick = useCallback(
     async (parentId: string | null) => {
-      const defaultName = "New Folder";
-      const name = window.prompt("Folder name", defaultName);
+      const defaultName = t("drive.defaultFolderName");
+      const name = window.prompt(
+        t("projectPage.folderNamePrompt"),
+        defaultName
+      );
       if (!name) return;
       try {
         await handleCreateFolder(name, parentId);
@@ -919,7 +748,7 @@ export default function StaffProjectPage({
         // errors handled inside handleCreateFolder
       }
     },
-    [handleCreateFolder]
+    [handleCreateFolder, t]
   );
 
   const handlePreviewAsset = useCallback(
@@ -958,9 +787,29 @@ export default function StaffProjectPage({
     );
   }, []);
 
+  const canDeleteAsset = useCallback(
+    (asset: DriveAsset) =>
+      !!project &&
+      can(currentUser, "asset:delete", {
+        project,
+        uploadedById: asset.uploadedBy?.id ?? "",
+      }),
+    [currentUser, project]
+  );
+
+  const canDeleteDelivery = useCallback(
+    (delivery: DriveDelivery) =>
+      !!project &&
+      can(currentUser, "delivery:delete", {
+        project,
+        uploadedById: delivery.uploadedBy?.id ?? "",
+      }),
+    [currentUser, project]
+  );
+
   const handleDeleteAsset = useCallback(
     async (asset: DriveAsset) => {
-      if (!confirm("Are you sure you want to delete this asset?")) return;
+      if (!confirm(t("projectPage.confirmTrashAsset"))) return;
       setDeletingAssetId(asset.id);
       try {
         const res = await fetch(`/api/assets/${asset.id}`, {
@@ -968,21 +817,21 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to delete asset");
+          throw new Error(data.error || t("errors.deleteAssetFailed"));
         }
         await fetchProject();
       } catch (e: any) {
-        setError(e.message || "Failed to delete asset");
+        setError(e.message || t("errors.deleteAssetFailed"));
       } finally {
         setDeletingAssetId(null);
       }
     },
-    [fetchProject]
+    [fetchProject, t]
   );
 
   const handleDeleteDelivery = useCallback(
     async (delivery: DriveDelivery) => {
-      if (!confirm("Are you sure you want to delete this delivery?")) return;
+      if (!confirm(t("projectPage.confirmTrashDelivery"))) return;
       setDeletingDeliveryId(delivery.id);
       try {
         const res = await fetch(`/api/deliveries/${delivery.id}`, {
@@ -990,16 +839,16 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to delete delivery");
+          throw new Error(data.error || t("errors.deleteDeliveryFailed"));
         }
         await fetchProject();
       } catch (e: any) {
-        setError(e.message || "Failed to delete delivery");
+        setError(e.message || t("errors.deleteDeliveryFailed"));
       } finally {
         setDeletingDeliveryId(null);
       }
     },
-    [fetchProject]
+    [fetchProject, t]
   );
 
   const updateStatus = useCallback(
@@ -1014,14 +863,14 @@ export default function StaffProjectPage({
         });
         if (!res.ok) {
           const data = await res.json().catch(() => ({}));
-          throw new Error(data.error || "Failed to update status");
+          throw new Error(data.error || t("projectPage.updateStatusFailed"));
         }
         await fetchProject();
       } catch (e: any) {
-        setError(e.message || "Failed to update project status");
+        setError(e.message || t("projectPage.updateProjectStatusFailed"));
       }
     },
-    [fetchProject, id]
+    [fetchProject, id, t]
   );
 
   const submitProject = useCallback(async () => {
@@ -1035,19 +884,17 @@ export default function StaffProjectPage({
       });
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
-        throw new Error(
-          data.error || "Failed to submit project for admin review."
-        );
+        throw new Error(data.error || t("projectPage.submitForAdminFailed"));
       }
       await fetchProject();
-      setSubmitSuccess("Deliveries submitted to the admin for review.");
+      setSubmitSuccess(t("projectPage.submitted"));
       setTimeout(() => setSubmitSuccess(null), 5000);
     } catch (e: any) {
-      setSubmitError(e.message || "Failed to submit project for review.");
+      setSubmitError(e.message || t("projectPage.submitForReviewFailed"));
     } finally {
       setSubmitting(false);
     }
-  }, [fetchProject, id, submitting]);
+  }, [fetchProject, id, submitting, t]);
 
   const deliveriesCount = project?.deliveries.length ?? 0;
   const hasDeliveries = deliveriesCount > 0;
@@ -1058,6 +905,10 @@ export default function StaffProjectPage({
     switch (status) {
       case "COMPLETED":
         return "badge badge-completed";
+      case "APPROVED":
+        return "badge badge-approved";
+      case "CHANGES_REQUESTED":
+        return "badge badge-changes-requested";
       case "IN_PROGRESS":
         return "badge badge-in-progress";
       default:
@@ -1096,7 +947,7 @@ export default function StaffProjectPage({
             size={40}
           />
         </div>
-        <p>Preview is not available for this file type.</p>
+        <p>{t("projectPage.previewUnavailable")}</p>
       </div>
     );
 
@@ -1108,6 +959,8 @@ export default function StaffProjectPage({
           className="max-h-[70vh] max-w-full object-contain"
         />
       );
+    } else if (canShowVideo && !isAssetPreview) {
+      body = <DeliveryVideoReview deliveryId={file.id} src={streamUrl} />;
     } else if (canShowVideo) {
       body = (
         <video
@@ -1120,7 +973,7 @@ export default function StaffProjectPage({
       body = (
         <audio controls className="w-full">
           <source src={streamUrl} type={mimeType || "audio/mpeg"} />
-          Your browser does not support the audio element.
+          {t("projectPage.audioUnsupported")}
         </audio>
       );
     }
@@ -1142,11 +995,12 @@ export default function StaffProjectPage({
               <div className="text-sm text-[#5f6368]">
                 {formatFileSize(file.sizeBytes)}
               </div>
+              <FileChecksum sha256={file.sha256} />
             </div>
             <button
               onClick={closePreview}
               className="btn-icon text-[#5f6368] hover:text-[#202124]"
-              aria-label="Close preview"
+              aria-label={t("projectPage.closePreview")}
             >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                 <path
@@ -1163,10 +1017,10 @@ export default function StaffProjectPage({
           </div>
           <div className="flex items-center justify-end gap-3 border-t border-[#dadce0] bg-white px-6 py-4">
             <a href={downloadUrl} className="btn-secondary" target="_blank">
-              Download
+              {t("common.download")}
             </a>
             <button onClick={closePreview} className="btn-primary">
-              Close
+              {t("common.close")}
             </button>
           </div>
         </div>
@@ -1178,7 +1032,7 @@ export default function StaffProjectPage({
     return (
       <div className="drive-container p-8">
         <div className="flex items-center justify-center h-64">
-          <div className="text-[#5f6368]">Loading...</div>
+          <div className="text-[#5f6368]">{t("common.loading")}</div>
         </div>
       </div>
     );
@@ -1187,7 +1041,7 @@ export default function StaffProjectPage({
   if (!project) {
     return (
       <div className="drive-container p-8">
-        <div className="text-[#5f6368]">Project not found</div>
+        <div className="text-[#5f6368]">{t("errors.projectNotFound")}</div>
       </div>
     );
   }
@@ -1197,7 +1051,7 @@ export default function StaffProjectPage({
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <div className="flex items-center gap-4 flex-wrap">
-            <Link href="/staff" className="btn-icon" title="Back">
+            <Link href="/staff" className="btn-icon" title={t("common.back")}>
               <svg
                 width="24"
                 height="24"
@@ -1211,24 +1065,29 @@ export default function StaffProjectPage({
             </Link>
             <div>
               <h1 className="text-2xl font-normal text-[#202124]">
-                {project.title || `Project ${project.id.slice(0, 8)}`}
+                {project.title ||
+                  t("projects.project", { id: project.id.slice(0, 8) })}
               </h1>
               <div className="text-sm text-[#5f6368] mt-1">
-                Client: {project.client.email}
+                {t("projectPage.clientLabel", { email: project.client.email })}
               </div>
             </div>
           </div>
           <div className="flex items-center gap-3 flex-wrap justify-end">
             <span className={getStatusBadgeClass(project.status)}>
-              {project.status.replace("_", " ")}
+              {t(`projectStatus.${project.status}`)}
             </span>
-            {project.status !== "COMPLETED" && (
+            {project.status !== "COMPLETED" &&
+              project.status !== "APPROVED" &&
+              can(currentUser, "project:submit", project) && (
               <button
                 onClick={submitProject}
                 disabled={submitting || !hasDeliveries}
                 className="btn-primary text-sm disabled:opacity-60"
               >
-                {submitting ? "Submitting..." : "Submit Deliveries"}
+                {submitting
+                  ? t("projectPage.submitting")
+                  : t("projectPage.submitDeliveries")}
               </button>
             )}
             {project.status !== "IN_PROGRESS" && (
@@ -1236,7 +1095,7 @@ export default function StaffProjectPage({
                 onClick={() => updateStatus("IN_PROGRESS")}
                 className="btn-secondary text-sm"
               >
-                Mark In Progress
+                {t("projectPage.markInProgress")}
               </button>
             )}
           </div>
@@ -1251,8 +1110,7 @@ export default function StaffProjectPage({
         )}
         {!hasDeliveries && project.status !== "COMPLETED" && (
           <div className="card bg-yellow-50 border-yellow-200 text-[#92400e]">
-            Upload at least one delivery before submitting the project to the
-            admin.
+            {t("projectPage.uploadBeforeSubmit")}
           </div>
         )}
         {submitError && (
@@ -1268,23 +1126,24 @@ export default function StaffProjectPage({
         {submittedAtLabel && (
           <div className="card bg-blue-50 border-blue-200 text-[#1e3a8a] space-y-1">
             <p className="font-medium">
-              Submitted for admin review on {submittedAtLabel}
+              {t("projectPage.submittedOn", { date: submittedAtLabel })}
             </p>
             {notifiedAtLabel ? (
               <p className="text-sm">
-                Client email sent on {notifiedAtLabel}. If adjustments are
-                required, contact the admin team.
+                {t("projectPage.clientEmailSent", { date: notifiedAtLabel })}
               </p>
             ) : (
               <p className="text-sm">
-                Waiting for the admin to review and notify the client.
+                {t("projectPage.awaitingAdmin")}
               </p>
             )}
           </div>
         )}
         {project.description && (
           <div className="card">
-            <h2 className="font-medium text-[#202124] mb-2">Description</h2>
+            <h2 className="font-medium text-[#202124] mb-2">
+              {t("projectPage.description")}
+            </h2>
             <p className="text-[#5f6368]">{project.description}</p>
           </div>
         )}
@@ -1294,6 +1153,8 @@ export default function StaffProjectPage({
           onDragOver={handleUploadDragOver}
           onDrop={handleUploadDrop}
         >
+          <UnfinishedUploads projectId={project.id} onResume={resumeUpload} />
+          <DeliveryReviewSummary deliveries={driveDeliveries} />
           <DriveBrowserView
             browser={driveBrowser}
             assets={driveAssets}
@@ -1302,8 +1163,18 @@ export default function StaffProjectPage({
             onPreviewDelivery={handlePreviewDelivery}
             onDownloadAsset={handleDownloadAsset}
             onDownloadDelivery={handleDownloadDelivery}
+            onDownloadZip={(selection) =>
+              window.open(
+                projectZipUrl(id, selection),
+                "_blank",
+                "noopener,noreferrer"
+              )
+            }
+            onShowDeliveryVersions={setVersionsDelivery}
             onDeleteAsset={handleDeleteAsset}
             onDeleteDelivery={handleDeleteDelivery}
+            canDeleteAsset={canDeleteAsset}
+            canDeleteDelivery={canDeleteDelivery}
             onRenameFolder={handleRenameFolder}
             onDeleteFolder={handleDeleteFolder}
             deletingAssetId={deletingAssetId}
@@ -1338,58 +1209,69 @@ export default function StaffProjectPage({
                     }
                   }}
                 />
+                <input
+                  ref={versionInputRef}
+                  type="file"
+                  accept="*/*"
+                  className="sr-only"
+                  onChange={(event) => {
+                    if (event.target.files) {
+                      handleVersionFile(event.target.files);
+                    }
+                  }}
+                />
+                {can(currentUser, "share:create", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setShareDialogOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("projectPage.share")}
+                  </button>
+                )}
+                {can(currentUser, "trash:view", project) && (
+                  <button
+                    type="button"
+                    onClick={() => setTrashOpen(true)}
+                    className="inline-flex items-center gap-2 rounded-full border border-[#d7def0] bg-white px-4 py-2 text-sm font-medium text-[#1a73e8] transition hover:border-[#1a73e8] hover:bg-[#eef3ff]"
+                  >
+                    {t("trash.title")}
+                  </button>
+                )}
               </>
             }
             emptyState={
               <div className="text-sm text-[#5f6368]">
-                No folders or files yet. Use the toolbar to create folders or
-                upload project assets.
+                {t("projectPage.teamEmpty")}
               </div>
             }
           />
-
-          {(uploadingAssets || uploadingDeliveries) && (
-            <div className="space-y-3">
-              {uploadingAssets && (
-                <div className="rounded-lg border border-[#dadce0] bg-white px-4 py-3 shadow-sm">
-                  <div className="flex items-center justify-between text-sm text-[#202124]">
-                    <span>
-                      Uploading {currentAssetUploadName || "files"} (
-                      {currentAssetUploadIndex}/{Math.max(assetUploadTotal, 1)})
-                    </span>
-                    <span>{assetUploadProgress}%</span>
-                  </div>
-                  <div className="mt-2 h-2 rounded-full bg-[#e8eaed]">
-                    <div
-                      className="h-2 rounded-full bg-[#1a73e8] transition-all"
-                      style={{ width: `${assetUploadProgress}%` }}
-                    />
-                  </div>
-                </div>
-              )}
-              {uploadingDeliveries && (
-                <div className="rounded-lg border border-[#dadce0] bg-white px-4 py-3 shadow-sm">
-                  <div className="flex items-center justify-between text-sm text-[#202124]">
-                    <span>
-                      Uploading {currentDeliveryUploadName || "files"} (
-                      {currentDeliveryUploadIndex}/
-                      {Math.max(deliveryUploadTotal, 1)})
-                    </span>
-                    <span>{deliveryUploadProgress}%</span>
-                  </div>
-                  <div className="mt-2 h-2 rounded-full bg-[#e8eaed]">
-                    <div
-                      className="h-2 rounded-full bg-[#34a853] transition-all"
-                      style={{ width: `${deliveryUploadProgress}%` }}
-                    />
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
         </section>
       </div>
+      <UploadManagerPanel manager={uploadManager} />
       {renderPreview()}
+      <ShareLinksDialog
+        open={shareDialogOpen}
+        projectId={id}
+        deliveries={driveDeliveries}
+        folders={driveFolders}
+        onClose={() => setShareDialogOpen(false)}
+      />
+      <TrashDialog
+        open={trashOpen}
+        projectId={id}
+        onClose={() => setTrashOpen(false)}
+        onRestored={fetchProject}
+      />
+      <DeliveryVersionsDialog
+        delivery={versionsDelivery}
+        onClose={() => setVersionsDelivery(null)}
+        onUploadNewVersion={
+          can(currentUser, "delivery:upload", project)
+            ? handleUploadNewVersionClick
+            : undefined
+        }
+      />
     </div>
   );
 }
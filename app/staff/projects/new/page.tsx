@@ -3,10 +3,12 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useTranslation } from "@/app/components/I18nProvider";
 
 type Client = { id: string; email: string; name: string | null };
 
 export default function NewProjectPage() {
+  const { t } = useTranslation();
   const router = useRouter();
   const [clients, setClients] = useState<Client[]>([]);
   const [formData, setFormData] = useState({
@@ -25,11 +27,11 @@ export default function NewProjectPage() {
   const fetchClients = async () => {
     try {
       const res = await fetch("/api/admin/clients");
-      if (!res.ok) throw new Error("Failed to fetch clients");
+      if (!res.ok) throw new Error(t("newProject.fetchClientsFailed"));
       const data = await res.json();
       setClients(data);
     } catch (e: any) {
-      setError(e.message || "Failed to load clients");
+      setError(e.message || t("newProject.loadClientsFailed"));
     } finally {
       setLoadingClients(false);
     }
@@ -38,7 +40,7 @@ export default function NewProjectPage() {
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.clientId) {
-      setError("Please select a client");
+      setError(t("validation.clientRequired"));
       return;
     }
 
@@ -58,7 +60,7 @@ export default function NewProjectPage() {
 
       if (!res.ok) {
         const data = await res.json();
-        throw new Error(data.error || "Failed to create project");
+        throw new Error(data.error || t("errors.createProjectFailed"));
       }
 
       const project = await res.json();
@@ -74,10 +76,10 @@ export default function NewProjectPage() {
       <div className="bg-white border-b border-[#dadce0] px-6 py-4">
         <div className="flex items-center justify-between max-w-[1800px] mx-auto">
           <h1 className="text-2xl font-normal text-[#202124]">
-            Create New Project
+            {t("newProject.title")}
           </h1>
           <Link href="/staff" className="btn-secondary no-underline">
-            Back
+            {t("common.back")}
           </Link>
         </div>
       </div>
@@ -85,10 +87,10 @@ export default function NewProjectPage() {
         <form onSubmit={onSubmit} className="card space-y-6">
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Client <span className="text-red-500">*</span>
+              {t("newProject.client")} <span className="text-red-500">*</span>
             </label>
             {loadingClients ? (
-              <p className="text-[#5f6368]">Loading clients...</p>
+              <p className="text-[#5f6368]">{t("newProject.loadingClients")}</p>
             ) : (
               <select
                 value={formData.clientId}
@@ -98,7 +100,7 @@ export default function NewProjectPage() {
                 className="input"
                 required
               >
-                <option value="">-- Select client --</option>
+                <option value="">{t("newProject.selectClient")}</option>
                 {clients.map((client) => (
                   <option key={client.id} value={client.id}>
                     {client.email} {client.name && `(${client.name})`}
@@ -110,7 +112,7 @@ export default function NewProjectPage() {
 
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Title (optional)
+              {t("newProject.titleLabel")}
             </label>
             <input
               type="text"
@@ -119,13 +121,13 @@ export default function NewProjectPage() {
                 setFormData({ ...formData, title: e.target.value })
               }
               className="input"
-              placeholder="e.g., Product Launch Video"
+              placeholder={t("newProject.titlePlaceholder")}
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-[#202124] mb-2">
-              Description (optional)
+              {t("newProject.descriptionLabel")}
             </label>
             <textarea
               value={formData.description}
@@ -134,7 +136,7 @@ export default function NewProjectPage() {
               }
               className="input"
               rows={4}
-              placeholder="Describe the project requirements..."
+              placeholder={t("newProject.staffDescriptionPlaceholder")}
             />
           </div>
 
@@ -146,14 +148,14 @@ export default function NewProjectPage() {
               disabled={loading || loadingClients || !formData.clientId}
               className="btn-primary disabled:opacity-50"
             >
-              {loading ? "Creating..." : "Create Project"}
+              {loading ? t("newProject.creating") : t("newProject.submit")}
             </button>
             <button
               type="button"
               onClick={() => router.back()}
               className="btn-secondary"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
           </div>
         </form>
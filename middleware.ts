@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { isShareTokenSigned } from "@/app/lib/share-token";
 
 const ADMIN_PATHS = [/^\/admin(\/.*)?$/];
 const STAFF_PATHS = [/^\/staff(\/.*)?$/];
 const CLIENT_PATHS = [/^\/(?:client|dashboard)(\/.*)?$/];
+const SHARE_PATH = /^\/(?:api\/)?share\/([^/]+)/;
 
 export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
@@ -14,6 +16,15 @@ export async function middleware(req: NextRequest) {
     return NextResponse.next();
   }
 
+  // Share links skip sign-in, but only with a token this server signed
+  const shareMatch = SHARE_PATH.exec(pathname);
+  if (shareMatch) {
+    if (await isShareTokenSigned(decodeURIComponent(shareMatch[1]))) {
+      return NextResponse.next();
+    }
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
   const token = await getToken({
     req,
     secret: process.env.NEXTAUTH_SECRET || process.env.AUTH_SECRET,
@@ -50,5 +61,8 @@ export const config = {
     "/staff/:path*",
     "/client/:path*",
     "/dashboard/:path*",
+    "/notifications/:path*",
+    "/share/:path*",
+    "/api/share/:path*",
   ],
 };
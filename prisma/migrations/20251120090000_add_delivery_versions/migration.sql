@@ -0,0 +1,43 @@
+-- Group deliveries into numbered versions; Delivery keeps a copy of the latest one
+
+ALTER TABLE "Delivery" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE "DeliveryVersion" (
+  "id" TEXT NOT NULL,
+  "deliveryId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "key" TEXT NOT NULL,
+  "filename" TEXT NOT NULL,
+  "contentType" TEXT NOT NULL,
+  "sizeBytes" INTEGER NOT NULL,
+  "uploadedById" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "DeliveryVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DeliveryVersion_key_key" ON "DeliveryVersion"("key");
+
+CREATE UNIQUE INDEX "DeliveryVersion_deliveryId_version_key"
+  ON "DeliveryVersion"("deliveryId", "version");
+
+ALTER TABLE "DeliveryVersion"
+  ADD CONSTRAINT "DeliveryVersion_deliveryId_fkey"
+  FOREIGN KEY ("deliveryId") REFERENCES "Delivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DeliveryVersion"
+  ADD CONSTRAINT "DeliveryVersion_uploadedById_fkey"
+  FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing deliveries become v1
+INSERT INTO "DeliveryVersion" ("id", "deliveryId", "version", "key", "filename", "contentType", "sizeBytes", "uploadedById", "createdAt")
+SELECT
+  'dv_' || substr(md5(random()::text || clock_timestamp()::text), 1, 22),
+  "id",
+  1,
+  "key",
+  "filename",
+  "contentType",
+  "sizeBytes",
+  "uploadedById",
+  "createdAt"
+FROM "Delivery";
@@ -0,0 +1,17 @@
+-- Client review state per delivery and review-aware project statuses
+
+ALTER TYPE "ProjectStatus" ADD VALUE 'CHANGES_REQUESTED';
+ALTER TYPE "ProjectStatus" ADD VALUE 'APPROVED';
+
+CREATE TYPE "DeliveryReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'CHANGES_REQUESTED');
+
+ALTER TABLE "Delivery"
+  ADD COLUMN "reviewStatus" "DeliveryReviewStatus" NOT NULL DEFAULT 'PENDING',
+  ADD COLUMN "reviewNote" TEXT,
+  ADD COLUMN "reviewedVersion" INTEGER,
+  ADD COLUMN "reviewedAt" TIMESTAMP(3),
+  ADD COLUMN "reviewedById" TEXT;
+
+ALTER TABLE "Delivery"
+  ADD CONSTRAINT "Delivery_reviewedById_fkey"
+  FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
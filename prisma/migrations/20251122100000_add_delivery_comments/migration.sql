@@ -0,0 +1,37 @@
+-- Timecoded comment threads on deliveries
+
+CREATE TABLE "DeliveryComment" (
+  "id" TEXT NOT NULL,
+  "deliveryId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "timestampSec" DOUBLE PRECISION,
+  "endTimestampSec" DOUBLE PRECISION,
+  "parentId" TEXT,
+  "resolved" BOOLEAN NOT NULL DEFAULT false,
+  "resolvedAt" TIMESTAMP(3),
+  "resolvedById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "DeliveryComment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "DeliveryComment_deliveryId_createdAt_idx"
+  ON "DeliveryComment"("deliveryId", "createdAt");
+
+ALTER TABLE "DeliveryComment"
+  ADD CONSTRAINT "DeliveryComment_deliveryId_fkey"
+  FOREIGN KEY ("deliveryId") REFERENCES "Delivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DeliveryComment"
+  ADD CONSTRAINT "DeliveryComment_authorId_fkey"
+  FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DeliveryComment"
+  ADD CONSTRAINT "DeliveryComment_parentId_fkey"
+  FOREIGN KEY ("parentId") REFERENCES "DeliveryComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DeliveryComment"
+  ADD CONSTRAINT "DeliveryComment_resolvedById_fkey"
+  FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
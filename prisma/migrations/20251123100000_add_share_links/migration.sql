@@ -0,0 +1,39 @@
+-- Public share links for deliveries and DELIVERABLES folders
+
+CREATE TABLE "ShareLink" (
+  "id" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "deliveryId" TEXT,
+  "folderId" TEXT,
+  "createdById" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "passwordHash" TEXT,
+  "allowDownload" BOOLEAN NOT NULL DEFAULT true,
+  "viewCount" INTEGER NOT NULL DEFAULT 0,
+  "downloadCount" INTEGER NOT NULL DEFAULT 0,
+  "lastAccessedAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ShareLink_tokenHash_key" ON "ShareLink"("tokenHash");
+
+CREATE INDEX "ShareLink_projectId_idx" ON "ShareLink"("projectId");
+
+ALTER TABLE "ShareLink"
+  ADD CONSTRAINT "ShareLink_projectId_fkey"
+  FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShareLink"
+  ADD CONSTRAINT "ShareLink_deliveryId_fkey"
+  FOREIGN KEY ("deliveryId") REFERENCES "Delivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShareLink"
+  ADD CONSTRAINT "ShareLink_folderId_fkey"
+  FOREIGN KEY ("folderId") REFERENCES "Folder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShareLink"
+  ADD CONSTRAINT "ShareLink_createdById_fkey"
+  FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
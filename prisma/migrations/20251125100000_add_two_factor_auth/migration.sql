@@ -0,0 +1,29 @@
+-- TOTP two-factor authentication, recovery codes and per-role enforcement
+
+ALTER TABLE "User"
+  ADD COLUMN "twoFactorSecret" TEXT,
+  ADD COLUMN "twoFactorPendingSecret" TEXT,
+  ADD COLUMN "twoFactorEnabledAt" TIMESTAMP(3),
+  ADD COLUMN "twoFactorLastStep" INTEGER;
+
+CREATE TABLE "TwoFactorRecoveryCode" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "codeHash" TEXT NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "TwoFactorRecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "TwoFactorRecoveryCode_userId_idx" ON "TwoFactorRecoveryCode"("userId");
+
+ALTER TABLE "TwoFactorRecoveryCode"
+  ADD CONSTRAINT "TwoFactorRecoveryCode_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "RoleSecurityPolicy" (
+  "role" "Role" NOT NULL,
+  "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "RoleSecurityPolicy_pkey" PRIMARY KEY ("role")
+);
@@ -0,0 +1,14 @@
+-- Failed sign-in tracking per account and per IP, with temporary lockout
+
+ALTER TABLE "User"
+  ADD COLUMN "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "lastFailedLoginAt" TIMESTAMP(3),
+  ADD COLUMN "lockedUntil" TIMESTAMP(3);
+
+CREATE TABLE "LoginIpThrottle" (
+  "ip" TEXT NOT NULL,
+  "failedCount" INTEGER NOT NULL DEFAULT 0,
+  "lastFailedAt" TIMESTAMP(3) NOT NULL,
+  "blockedUntil" TIMESTAMP(3),
+  CONSTRAINT "LoginIpThrottle_pkey" PRIMARY KEY ("ip")
+);
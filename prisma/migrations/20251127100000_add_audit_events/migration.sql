@@ -0,0 +1,38 @@
+-- Append-only audit trail of project, file and user actions
+
+CREATE TABLE "AuditEvent" (
+  "id" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "actorId" TEXT,
+  "actorEmail" TEXT,
+  "actorRole" "Role",
+  "action" TEXT NOT NULL,
+  "targetType" TEXT NOT NULL,
+  "targetId" TEXT,
+  "projectId" TEXT,
+  "before" JSONB,
+  "after" JSONB,
+  "ip" TEXT,
+  "userAgent" TEXT,
+  CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+CREATE INDEX "AuditEvent_actorId_createdAt_idx" ON "AuditEvent"("actorId", "createdAt");
+CREATE INDEX "AuditEvent_projectId_createdAt_idx" ON "AuditEvent"("projectId", "createdAt");
+CREATE INDEX "AuditEvent_action_createdAt_idx" ON "AuditEvent"("action", "createdAt");
+
+-- Rows can be inserted but never changed or removed
+CREATE FUNCTION "audit_event_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditEvent is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_append_only"
+  BEFORE UPDATE OR DELETE ON "AuditEvent"
+  FOR EACH ROW EXECUTE FUNCTION "audit_event_append_only"();
+
+CREATE TRIGGER "AuditEvent_no_truncate"
+  BEFORE TRUNCATE ON "AuditEvent"
+  FOR EACH STATEMENT EXECUTE FUNCTION "audit_event_append_only"();
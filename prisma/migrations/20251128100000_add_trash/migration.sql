@@ -0,0 +1,21 @@
+-- Soft delete (Trash) for folders, assets and deliveries
+
+ALTER TABLE "Folder"
+  ADD COLUMN "deletedAt" TIMESTAMP(3),
+  ADD COLUMN "deletedById" TEXT;
+
+ALTER TABLE "Asset"
+  ADD COLUMN "deletedAt" TIMESTAMP(3),
+  ADD COLUMN "deletedById" TEXT;
+
+ALTER TABLE "Delivery"
+  ADD COLUMN "deletedAt" TIMESTAMP(3),
+  ADD COLUMN "deletedById" TEXT;
+
+CREATE INDEX "Folder_projectId_deletedAt_idx" ON "Folder"("projectId", "deletedAt");
+CREATE INDEX "Asset_projectId_deletedAt_idx" ON "Asset"("projectId", "deletedAt");
+CREATE INDEX "Delivery_projectId_deletedAt_idx" ON "Delivery"("projectId", "deletedAt");
+
+ALTER TABLE "Folder" ADD CONSTRAINT "Folder_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Asset" ADD CONSTRAINT "Asset_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Background job queue processed by the worker (npm run worker)
+
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'DEAD');
+
+CREATE TABLE "Job" (
+  "id" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "payload" JSONB NOT NULL,
+  "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+  "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lockedAt" TIMESTAMP(3),
+  "lockedBy" TEXT,
+  "lastError" TEXT,
+  "completedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "Job_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "Job_status_runAt_idx" ON "Job"("status", "runAt");
+CREATE INDEX "Job_type_status_idx" ON "Job"("type", "status");
@@ -0,0 +1,44 @@
+-- Outbox of every outgoing email with its delivery status history
+
+CREATE TYPE "EmailStatus" AS ENUM ('QUEUED', 'SENT', 'RETRYING', 'FAILED');
+
+CREATE TABLE "EmailMessage" (
+  "id" TEXT NOT NULL,
+  "template" TEXT NOT NULL,
+  "to" TEXT[],
+  "cc" TEXT[],
+  "subject" TEXT NOT NULL,
+  "html" TEXT NOT NULL,
+  "text" TEXT,
+  "status" "EmailStatus" NOT NULL DEFAULT 'QUEUED',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "smtpResponse" TEXT,
+  "smtpMessageId" TEXT,
+  "error" TEXT,
+  "sentAt" TIMESTAMP(3),
+  "projectId" TEXT,
+  "userId" TEXT,
+  "resentFromId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "EmailMessage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "EmailEvent" (
+  "id" TEXT NOT NULL,
+  "messageId" TEXT NOT NULL,
+  "status" "EmailStatus" NOT NULL,
+  "detail" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "EmailEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EmailMessage_projectId_createdAt_idx" ON "EmailMessage"("projectId", "createdAt");
+CREATE INDEX "EmailMessage_userId_createdAt_idx" ON "EmailMessage"("userId", "createdAt");
+CREATE INDEX "EmailMessage_status_createdAt_idx" ON "EmailMessage"("status", "createdAt");
+CREATE INDEX "EmailEvent_messageId_createdAt_idx" ON "EmailEvent"("messageId", "createdAt");
+
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_resentFromId_fkey" FOREIGN KEY ("resentFromId") REFERENCES "EmailMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "EmailEvent" ADD CONSTRAINT "EmailEvent_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "EmailMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Admin-edited overrides of the built-in email templates
+
+CREATE TABLE "EmailTemplate" (
+  "key" TEXT NOT NULL,
+  "subject" TEXT NOT NULL,
+  "html" TEXT NOT NULL,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  "updatedById" TEXT,
+  CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("key")
+);
+
+ALTER TABLE "EmailTemplate" ADD CONSTRAINT "EmailTemplate_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Language preference per user, and email template overrides per language
+
+CREATE TYPE "Locale" AS ENUM ('en', 'sw');
+
+ALTER TABLE "User" ADD COLUMN "locale" "Locale" NOT NULL DEFAULT 'en';
+
+-- Existing overrides were written in English
+ALTER TABLE "EmailTemplate" ADD COLUMN "locale" "Locale" NOT NULL DEFAULT 'en';
+ALTER TABLE "EmailTemplate" DROP CONSTRAINT "EmailTemplate_pkey";
+ALTER TABLE "EmailTemplate" ADD CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("key", "locale");
@@ -0,0 +1,18 @@
+-- Per-user notification delivery choices and the daily digest
+
+CREATE TYPE "NotificationDelivery" AS ENUM ('IMMEDIATE', 'DIGEST', 'IN_APP', 'OFF');
+
+CREATE TABLE "NotificationPreference" (
+  "userId" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "delivery" "NotificationDelivery" NOT NULL,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("userId", "type")
+);
+
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Notification" ADD COLUMN "inDigest" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Notification" ADD COLUMN "digestedAt" TIMESTAMP(3);
+
+CREATE INDEX "Notification_inDigest_digestedAt_idx" ON "Notification"("inDigest", "digestedAt");
@@ -0,0 +1,38 @@
+-- Outgoing webhooks and their delivery log
+
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('QUEUED', 'SUCCEEDED', 'RETRYING', 'FAILED');
+
+CREATE TABLE "WebhookEndpoint" (
+  "id" TEXT NOT NULL,
+  "url" TEXT NOT NULL,
+  "description" TEXT,
+  "secret" TEXT NOT NULL,
+  "events" TEXT[],
+  "active" BOOLEAN NOT NULL DEFAULT true,
+  "createdById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "WebhookEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "WebhookDelivery" (
+  "id" TEXT NOT NULL,
+  "endpointId" TEXT NOT NULL,
+  "event" TEXT NOT NULL,
+  "payload" JSONB NOT NULL,
+  "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'QUEUED',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "responseStatus" INTEGER,
+  "responseBody" TEXT,
+  "error" TEXT,
+  "durationMs" INTEGER,
+  "deliveredAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "WebhookDelivery_endpointId_createdAt_idx" ON "WebhookDelivery"("endpointId", "createdAt");
+
+ALTER TABLE "WebhookEndpoint" ADD CONSTRAINT "WebhookEndpoint_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "WebhookEndpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
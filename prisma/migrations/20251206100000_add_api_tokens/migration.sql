@@ -0,0 +1,23 @@
+-- Personal access tokens for the /api/v1 REST API
+
+CREATE TYPE "ApiTokenScope" AS ENUM ('READ', 'UPLOAD', 'ADMIN');
+
+CREATE TABLE "ApiToken" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "tokenPrefix" TEXT NOT NULL,
+  "scopes" "ApiTokenScope"[],
+  "expiresAt" TIMESTAMP(3),
+  "lastUsedAt" TIMESTAMP(3),
+  "lastUsedIp" TEXT,
+  "revokedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "ApiToken_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ApiToken_tokenHash_key" ON "ApiToken"("tokenHash");
+CREATE INDEX "ApiToken_userId_idx" ON "ApiToken"("userId");
+
+ALTER TABLE "ApiToken" ADD CONSTRAINT "ApiToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
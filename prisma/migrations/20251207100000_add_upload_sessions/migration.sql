@@ -0,0 +1,29 @@
+-- Unfinished multipart uploads, so a browser can resume them after a reload
+
+CREATE TYPE "UploadKind" AS ENUM ('ASSET', 'DELIVERY');
+
+CREATE TABLE "UploadSession" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "projectId" TEXT NOT NULL,
+  "kind" "UploadKind" NOT NULL,
+  "folderId" TEXT,
+  "deliveryId" TEXT,
+  "key" TEXT NOT NULL,
+  "uploadId" TEXT NOT NULL,
+  "filename" TEXT NOT NULL,
+  "contentType" TEXT NOT NULL,
+  "sizeBytes" INTEGER NOT NULL,
+  "partSize" INTEGER NOT NULL,
+  "fingerprint" TEXT NOT NULL,
+  "completedParts" JSONB NOT NULL DEFAULT '[]',
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "UploadSession_key_key" ON "UploadSession"("key");
+CREATE INDEX "UploadSession_userId_projectId_idx" ON "UploadSession"("userId", "projectId");
+
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- SHA-256 of each uploaded file as the browser computed it, and whether an
+-- unfinished upload sends a checksum with every part
+
+ALTER TABLE "Asset" ADD COLUMN "sha256" TEXT;
+ALTER TABLE "Delivery" ADD COLUMN "sha256" TEXT;
+ALTER TABLE "DeliveryVersion" ADD COLUMN "sha256" TEXT;
+ALTER TABLE "Video" ADD COLUMN "sha256" TEXT;
+
+ALTER TABLE "UploadSession" ADD COLUMN "checksums" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,9 @@
+-- Outbox emails keep a copy with reset links and passwords masked. Bodies
+-- stored before this may hold them in full, so the kinds of email that can
+-- carry one lose their body.
+
+ALTER TABLE "EmailMessage" ADD COLUMN "redacted" BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE "EmailMessage"
+SET "html" = '<p>[redacted]</p>', "text" = NULL, "redacted" = true
+WHERE "template" IN ('password_reset', 'user_credentials', 'project_completion');
@@ -0,0 +1,10 @@
+-- File sizes as 64-bit integers: INTEGER stops at 2 GiB, well short of the
+-- masters uploaded here
+
+ALTER TABLE "Asset" ALTER COLUMN "sizeBytes" SET DATA TYPE BIGINT;
+ALTER TABLE "Delivery" ALTER COLUMN "sizeBytes" SET DATA TYPE BIGINT;
+ALTER TABLE "DeliveryVersion" ALTER COLUMN "sizeBytes" SET DATA TYPE BIGINT;
+ALTER TABLE "Video" ALTER COLUMN "sizeBytes" SET DATA TYPE BIGINT;
+
+ALTER TABLE "UploadSession" ALTER COLUMN "sizeBytes" SET DATA TYPE BIGINT,
+ALTER COLUMN "partSize" SET DATA TYPE BIGINT;
@@ -0,0 +1,15 @@
+-- Failed share link password attempts per link and per IP, with temporary
+-- lockout
+
+ALTER TABLE "ShareLink"
+  ADD COLUMN "failedUnlockCount" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "lastFailedUnlockAt" TIMESTAMP(3),
+  ADD COLUMN "unlockLockedUntil" TIMESTAMP(3);
+
+CREATE TABLE "ShareUnlockIpThrottle" (
+  "ip" TEXT NOT NULL,
+  "failedCount" INTEGER NOT NULL DEFAULT 0,
+  "lastFailedAt" TIMESTAMP(3) NOT NULL,
+  "blockedUntil" TIMESTAMP(3),
+  CONSTRAINT "ShareUnlockIpThrottle_pkey" PRIMARY KEY ("ip")
+);
@@ -0,0 +1,75 @@
+import "dotenv/config";
+import { prisma } from "@/app/lib/prisma";
+import { recordAuditEvent } from "@/app/lib/audit";
+import {
+  RECONCILED_PREFIXES,
+  reconcileStorage,
+  summarizeStorageReport,
+} from "@/app/lib/storage-reconcile";
+
+// Storage reconciliation: `npm run storage:reconcile`. Reports by default;
+//   --abort-stale     abort multipart uploads abandoned mid-way, and forget
+//                     upload sessions whose upload is gone
+//   --delete-orphans  delete objects no Asset, Delivery or Video points at
+// /api/cron/reconcile-storage queues the same check weekly, with --abort-stale.
+
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  const abortStaleUploads = args.has("--abort-stale");
+  const deleteOrphans = args.has("--delete-orphans");
+
+  console.log(
+    `Reconciling ${RECONCILED_PREFIXES.join(", ")} with the database`
+  );
+  const report = await reconcileStorage({ abortStaleUploads, deleteOrphans });
+
+  console.log(
+    `Checked ${report.checkedObjects} object(s) against ${report.checkedRows} row(s)`
+  );
+
+  console.log(`\nStale multipart uploads: ${report.staleUploads.length}`);
+  for (const upload of report.staleUploads) {
+    console.log(
+      `  ${upload.key} (started ${upload.initiatedAt?.toISOString() ?? "?"})`
+    );
+  }
+  if (abortStaleUploads) console.log(`  aborted ${report.abortedUploads}`);
+
+  console.log(`\nUpload sessions with no upload: ${report.deadSessions}`);
+  if (abortStaleUploads) console.log(`  deleted ${report.deadSessions}`);
+
+  console.log(`\nOrphaned objects: ${report.orphanObjects.length}`);
+  for (const object of report.orphanObjects) {
+    console.log(`  ${object.key} (${object.sizeBytes} bytes)`);
+  }
+  if (deleteOrphans) console.log(`  deleted ${report.deletedOrphans}`);
+
+  console.log(`\nRows with a missing object: ${report.missingObjects.length}`);
+  for (const row of report.missingObjects) {
+    console.log(`  ${row.type} ${row.id}: ${row.key}`);
+  }
+
+  if (abortStaleUploads || deleteOrphans) {
+    await recordAuditEvent(null, null, {
+      action: "storage.reconcile",
+      targetType: "storage",
+      after: summarizeStorageReport(report),
+    });
+  } else if (report.staleUploads.length || report.orphanObjects.length) {
+    console.log(
+      "\nDry run. Pass --abort-stale and/or --delete-orphans to clean up."
+    );
+  }
+
+  if (report.failures > 0) {
+    console.error(`\n${report.failures} clean-up step(s) failed`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -73,9 +73,15 @@ async function main() {
   assertEnv("SMTP_HOST");
   assertEnv("SMTP_PORT");
   assertEnv("EMAIL_FROM");
-  await verifyR2();
+  if ((process.env.STORAGE_DRIVER || "r2").trim().toLowerCase() === "local") {
+    console.log(
+      `Using local storage driver at ${process.env.LOCAL_STORAGE_DIR || ".storage"}, skipping R2 check.`
+    );
+  } else {
+    await verifyR2();
+  }
   console.log(
-    "ENV OK: DATABASE_URL present, email settings configured, and R2 bucket reachable."
+    "ENV OK: DATABASE_URL present, email settings configured, and storage reachable."
   );
 }
 
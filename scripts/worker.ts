@@ -0,0 +1,91 @@
+import "dotenv/config";
+import { hostname } from "os";
+import type { Job } from "@prisma/client";
+import { prisma } from "@/app/lib/prisma";
+import {
+  claimJobs,
+  completeJob,
+  failJob,
+  pruneSucceededJobs,
+  recoverStaleJobs,
+} from "@/app/lib/jobs";
+import { runJob } from "@/app/lib/job-handlers";
+
+// Background job worker: `npm run worker`. Run one or more next to the app;
+// jobs are locked with SKIP LOCKED so workers never share a job.
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 5;
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+
+const workerId = `${hostname()}:${process.pid}`;
+let stopping = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function processJob(job: Job) {
+  const started = Date.now();
+  try {
+    await runJob(job);
+    await completeJob(job);
+    console.log(`✓ ${job.type} ${job.id} (${Date.now() - started}ms)`);
+  } catch (error) {
+    const dead = await failJob(job, error);
+    console.error(
+      `✗ ${job.type} ${job.id} attempt ${job.attempts}/${job.maxAttempts}${
+        dead ? " - moved to dead letter" : ""
+      }:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+async function maintenance() {
+  const recovered = await recoverStaleJobs();
+  const pruned = await pruneSucceededJobs();
+  if (recovered > 0) console.log(`Released ${recovered} stale job(s)`);
+  if (pruned > 0) console.log(`Removed ${pruned} finished job(s)`);
+}
+
+async function main() {
+  console.log(
+    `Job worker ${workerId} started (concurrency ${CONCURRENCY}, poll ${POLL_INTERVAL_MS}ms)`
+  );
+  let lastMaintenance = 0;
+
+  while (!stopping) {
+    try {
+      if (Date.now() - lastMaintenance >= MAINTENANCE_INTERVAL_MS) {
+        await maintenance();
+        lastMaintenance = Date.now();
+      }
+
+      const jobs = await claimJobs(workerId, CONCURRENCY);
+      if (jobs.length === 0) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+      await Promise.all(jobs.map(processJob));
+    } catch (error) {
+      console.error("Job worker error:", error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  await prisma.$disconnect();
+  console.log("Job worker stopped");
+}
+
+// Finish the jobs in hand before exiting so none are left locked
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1);
+    console.log(`${signal} received, finishing current jobs...`);
+    stopping = true;
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});